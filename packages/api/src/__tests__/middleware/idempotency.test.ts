@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createHash } from 'crypto';
+import { mockPrisma, mockRedis } from '../setup';
+
+const KEY = 'b7f3c2d1-0000-4000-8000-000000000001';
+
+// Fingerprint the middleware records for POST /entries with this body
+const fingerprint = (body: unknown) =>
+  `POST /entries ${createHash('sha256').update(JSON.stringify(body)).digest('hex')}`;
+
+describe('idempotency middleware', () => {
+  let store: Map<string, string>;
+  let created: number;
+  const idempotencyKey = {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    deleteMany: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    created = 0;
+    store = new Map();
+    (mockPrisma as any).idempotencyKey = idempotencyKey;
+    idempotencyKey.findUnique.mockResolvedValue(null);
+    idempotencyKey.deleteMany.mockResolvedValue({ count: 0 });
+
+    // Minimal in-memory Redis: SET ... NX, GET, DEL
+    mockRedis.set.mockImplementation(async (key: string, value: string, ...args: unknown[]) => {
+      if (args.includes('NX') && store.has(key)) return null;
+      store.set(key, value);
+      return 'OK';
+    });
+    mockRedis.get.mockImplementation(async (key: string) => store.get(key) ?? null);
+    mockRedis.del.mockImplementation(async (key: string) => Number(store.delete(key)));
+  });
+
+  const createApp = async (status: 201 | 500 = 201) => {
+    const { idempotency } = await import('../../middleware/idempotency');
+    const { sanitizeInput } = await import('../../middleware/auth');
+    const app = new Hono();
+    app.use('*', sanitizeInput);
+    // Stands in for authMiddleware, which sets the verified user
+    app.use('*', async (c, next) => {
+      (c as any).set('userId', 'user-123');
+      await next();
+    });
+    app.post('/entries', idempotency(), (c) => {
+      created++;
+      return c.json({ success: status === 201, data: { id: `entry-${created}` } }, status);
+    });
+    return app;
+  };
+
+  const post = (app: Hono, body: unknown, key: string | null = KEY) =>
+    app.request('/entries', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(key && { 'Idempotency-Key': key }),
+      },
+      body: JSON.stringify(body),
+    });
+
+  it('replays the original response for a retried key', async () => {
+    const app = await createApp();
+
+    const first = await post(app, { matchNumber: 4 });
+    const retry = await post(app, { matchNumber: 4 });
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await retry.json()).toEqual(await first.json());
+    expect(created).toBe(1);
+  });
+
+  it('passes requests without a key straight through', async () => {
+    const app = await createApp();
+
+    await post(app, { matchNumber: 4 }, null);
+    await post(app, { matchNumber: 4 }, null);
+
+    expect(created).toBe(2);
+    expect(mockRedis.set).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key reused for a different body', async () => {
+    const app = await createApp();
+
+    await post(app, { matchNumber: 4 });
+    const res = await post(app, { matchNumber: 5 });
+
+    expect(res.status).toBe(422);
+    expect(created).toBe(1);
+  });
+
+  it('tells a concurrent retry to wait while the first request runs', async () => {
+    const app = await createApp();
+    store.set(
+      `idempotency:user-123:${KEY}`,
+      JSON.stringify({ fingerprint: fingerprint({ matchNumber: 4 }), statusCode: null, body: null, contentType: null })
+    );
+
+    const res = await post(app, { matchNumber: 4 });
+
+    expect(res.status).toBe(409);
+    expect(res.headers.get('Retry-After')).toBe('1');
+    expect(created).toBe(0);
+  });
+
+  it('releases the key after a server error so the retry runs again', async () => {
+    const app = await createApp(500);
+
+    await post(app, { matchNumber: 4 });
+    await post(app, { matchNumber: 4 });
+
+    expect(created).toBe(2);
+  });
+
+  it('falls back to Postgres when Redis is down', async () => {
+    mockRedis.set.mockRejectedValue(new Error('Connection refused'));
+    idempotencyKey.create.mockResolvedValue({});
+    const app = await createApp();
+
+    const res = await post(app, { matchNumber: 4 });
+
+    expect(res.status).toBe(201);
+    expect(idempotencyKey.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-123', key: KEY, fingerprint: fingerprint({ matchNumber: 4 }) }),
+    });
+    expect(idempotencyKey.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId_key: { userId: 'user-123', key: KEY } },
+        data: expect.objectContaining({ statusCode: 201 }),
+      })
+    );
+  });
+
+  it('replays a response stored in Postgres', async () => {
+    mockRedis.set.mockRejectedValue(new Error('Connection refused'));
+    idempotencyKey.create.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+    const app = await createApp();
+    idempotencyKey.findUnique.mockResolvedValue({
+      fingerprint: fingerprint({ matchNumber: 4 }),
+      statusCode: 201,
+      response: JSON.stringify({ success: true, data: { id: 'entry-original' } }),
+      contentType: 'application/json',
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const res = await post(app, { matchNumber: 4 });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(201);
+    expect(body.data.id).toBe('entry-original');
+    expect(created).toBe(0);
+  });
+
+  it('rejects malformed keys', async () => {
+    const app = await createApp();
+
+    const res = await post(app, { matchNumber: 4 }, 'bad key!');
+
+    expect(res.status).toBe(400);
+  });
+});
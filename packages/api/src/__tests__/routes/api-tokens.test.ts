@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import { hashApiToken } from "../../lib/api-tokens";
+
+const USER_ID = "user-123";
+const TOKEN = "ftcm_abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG";
+
+function mockValidSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+function mockToken(overrides: Record<string, unknown> = {}) {
+  (mockPrisma as any).apiToken.findUnique.mockResolvedValue({
+    id: "token-1",
+    userId: USER_ID,
+    tokenHash: hashApiToken(TOKEN),
+    scopes: ["read-analytics", "read-scouting"],
+    expiresAt: null,
+    lastUsedAt: new Date(),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  (mockPrisma as any).apiToken = {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn().mockResolvedValue({}),
+    deleteMany: vi.fn(),
+  };
+});
+
+describe("Bearer token authentication", () => {
+  async function createApp() {
+    const { authMiddleware, optionalAuthMiddleware } = await import("../../middleware/auth");
+    const app = new Hono();
+    app.use("/api/scouting/*", authMiddleware);
+    app.use("/api/user-teams/*", authMiddleware);
+    app.use("/api/analytics/*", optionalAuthMiddleware);
+    const echo = (c: any) =>
+      c.json({ userId: c.get("userId") ?? null, tokenId: c.get("apiTokenId") ?? null });
+    app.get("/api/scouting/entries", echo);
+    app.post("/api/scouting/entries", echo);
+    app.post("/api/user-teams/:teamId/invites", echo);
+    app.get("/api/analytics/epa/:eventCode", echo);
+    return app;
+  }
+
+  function request(app: Hono, path: string, init: RequestInit = {}) {
+    return app.request(path, {
+      ...init,
+      headers: { Authorization: `Bearer ${TOKEN}`, ...(init.headers as Record<string, string>) },
+    });
+  }
+
+  it("authenticates a scoped request as the token's user", async () => {
+    mockToken();
+    const app = await createApp();
+
+    const res = await request(app, "/api/scouting/entries");
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as any;
+    expect(body).toEqual({ userId: USER_ID, tokenId: "token-1" });
+    expect((mockPrisma as any).apiToken.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tokenHash: hashApiToken(TOKEN) } })
+    );
+    expect(mockPrisma.session.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown token", async () => {
+    (mockPrisma as any).apiToken.findUnique.mockResolvedValue(null);
+    const app = await createApp();
+
+    const res = await request(app, "/api/scouting/entries");
+    expect(res.status).toBe(401);
+    const body = (await res.json()) as any;
+    expect(body.error).toBe("Invalid or expired API token");
+  });
+
+  it("rejects an expired token", async () => {
+    mockToken({ expiresAt: new Date("2020-01-01") });
+    const app = await createApp();
+
+    const res = await request(app, "/api/scouting/entries");
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects a request outside the token's scopes", async () => {
+    mockToken();
+    const app = await createApp();
+
+    const res = await request(app, "/api/scouting/entries", { method: "POST" });
+    expect(res.status).toBe(403);
+    const body = (await res.json()) as any;
+    expect(body.error).toBe("API token is missing the write-scouting scope");
+  });
+
+  it("rejects endpoints no scope covers", async () => {
+    mockToken({ scopes: ["read-analytics", "read-scouting", "write-scouting"] });
+    const app = await createApp();
+
+    const res = await request(app, "/api/user-teams/team-1/invites", { method: "POST" });
+    expect(res.status).toBe(403);
+    const body = (await res.json()) as any;
+    expect(body.error).toBe("API tokens cannot access this endpoint");
+  });
+
+  it("ignores an X-User-Id header naming another user", async () => {
+    mockToken();
+    const app = await createApp();
+
+    const res = await request(app, "/api/scouting/entries", {
+      headers: { "X-User-Id": "someone-else" },
+    });
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as any;
+    expect(body.userId).toBe(USER_ID);
+  });
+
+  it("validates tokens sent to optional-auth routes", async () => {
+    (mockPrisma as any).apiToken.findUnique.mockResolvedValue(null);
+    const app = await createApp();
+
+    const res = await request(app, "/api/analytics/epa/USTXCMP");
+    expect(res.status).toBe(401);
+  });
+
+  it("records token use at most once a minute", async () => {
+    mockToken({ lastUsedAt: new Date(Date.now() - 5 * 60_000) });
+    const app = await createApp();
+
+    await request(app, "/api/analytics/epa/USTXCMP");
+    expect((mockPrisma as any).apiToken.update).toHaveBeenCalledTimes(1);
+
+    mockToken({ lastUsedAt: new Date() });
+    await request(app, "/api/analytics/epa/USTXCMP");
+    expect((mockPrisma as any).apiToken.update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("API token management", () => {
+  async function createApp() {
+    const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+    const apiTokens = (await import("../../routes/api-tokens")).default;
+    const app = new Hono();
+    app.use("/api/tokens/*", sanitizeInput);
+    app.use("/api/tokens/*", authMiddleware);
+    app.route("/api/tokens", apiTokens);
+    return app;
+  }
+
+  const sessionHeaders = {
+    Cookie: "authjs.session-token=valid-token",
+    "Content-Type": "application/json",
+  };
+
+  it("creates a token and only stores its hash", async () => {
+    mockValidSession();
+    (mockPrisma as any).apiToken.count.mockResolvedValue(0);
+    (mockPrisma as any).apiToken.create.mockImplementation(async ({ data }: any) => ({
+      id: "token-1",
+      name: data.name,
+      prefix: data.prefix,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    }));
+    const app = await createApp();
+
+    const res = await app.request("/api/tokens", {
+      method: "POST",
+      headers: sessionHeaders,
+      body: JSON.stringify({ name: "Dashboard", scopes: ["read-analytics"], expiresInDays: 30 }),
+    });
+
+    expect(res.status).toBe(201);
+    const body = (await res.json()) as any;
+    expect(body.data.token).toMatch(/^ftcm_/);
+    expect(body.data.tokenHash).toBeUndefined();
+
+    const { data } = (mockPrisma as any).apiToken.create.mock.calls[0][0];
+    expect(data.userId).toBe(USER_ID);
+    expect(data.tokenHash).toBe(hashApiToken(body.data.token));
+    expect(body.data.token.startsWith(data.prefix)).toBe(true);
+    expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * 86400000);
+  });
+
+  it("rejects unknown scopes", async () => {
+    mockValidSession();
+    const app = await createApp();
+
+    const res = await app.request("/api/tokens", {
+      method: "POST",
+      headers: sessionHeaders,
+      body: JSON.stringify({ name: "Admin", scopes: ["manage-team"] }),
+    });
+
+    expect(res.status).toBe(400);
+    expect((mockPrisma as any).apiToken.create).not.toHaveBeenCalled();
+  });
+
+  it("cannot be reached with an API token", async () => {
+    mockToken({ scopes: ["read-analytics", "read-scouting", "write-scouting"] });
+    const app = await createApp();
+
+    const res = await app.request("/api/tokens", {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+
+    expect(res.status).toBe(403);
+    expect((mockPrisma as any).apiToken.findMany).not.toHaveBeenCalled();
+  });
+
+  it("only revokes the user's own tokens", async () => {
+    mockValidSession();
+    (mockPrisma as any).apiToken.deleteMany.mockResolvedValue({ count: 0 });
+    const app = await createApp();
+
+    const res = await app.request("/api/tokens/token-9", {
+      method: "DELETE",
+      headers: { Cookie: sessionHeaders.Cookie },
+    });
+
+    expect(res.status).toBe(404);
+    expect((mockPrisma as any).apiToken.deleteMany).toHaveBeenCalledWith({
+      where: { id: "token-9", userId: USER_ID },
+    });
+  });
+});
+
+describe("OpenAPI spec", () => {
+  async function buildSpec() {
+    const { buildOpenApiSpec } = await import("../../lib/openapi");
+    const scouting = (await import("../../routes/scouting")).default;
+    const analytics = (await import("../../routes/analytics")).default;
+    const apiTokens = (await import("../../routes/api-tokens")).default;
+    const app = new Hono();
+    app.use("/api/scouting/*", async (_c, next) => next());
+    app.route("/api/scouting", scouting);
+    app.route("/api/analytics", analytics);
+    app.route("/api/tokens", apiTokens);
+    return buildOpenApiSpec(app.routes) as any;
+  }
+
+  it("documents mounted routes with path parameters", async () => {
+    const spec = await buildSpec();
+
+    expect(spec.openapi).toBe("3.1.0");
+    const op = spec.paths["/api/scouting/team-summary/{teamNumber}"].get;
+    expect(op.parameters).toEqual(
+      expect.arrayContaining([expect.objectContaining({ name: "teamNumber", in: "path", required: true })])
+    );
+    expect(op["x-token-scope"]).toBe("read-scouting");
+    expect(Object.keys(spec.paths).some((p) => p.includes("*"))).toBe(false);
+  });
+
+  it("generates request bodies from the zod schemas", async () => {
+    const spec = await buildSpec();
+
+    const schema = spec.paths["/api/scouting/entries"].post.requestBody.content["application/json"].schema;
+    expect(schema.type).toBe("object");
+    expect(schema.required).toEqual(expect.arrayContaining(["scoutedTeamNumber", "eventCode", "matchNumber"]));
+
+    const tokenSchema = spec.paths["/api/tokens"].post.requestBody.content["application/json"].schema;
+    expect(tokenSchema.properties.scopes.items.enum).toEqual(["read-analytics", "read-scouting", "write-scouting"]);
+  });
+
+  it("marks which operations accept API tokens", async () => {
+    const spec = await buildSpec();
+
+    const security = (op: any) => op.security.flatMap((s: object) => Object.keys(s));
+    expect(security(spec.paths["/api/tokens"].get)).not.toContain("bearerToken");
+    expect(security(spec.paths["/api/scouting/entries"].post)).toContain("bearerToken");
+    // Analytics is public, so an empty requirement is allowed
+    expect(spec.paths["/api/analytics/epa/{eventCode}"].get.security).toContainEqual({});
+  });
+});
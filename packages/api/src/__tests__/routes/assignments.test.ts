@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import { generateRotation } from "../../lib/assignments";
+
+const getSchedule = vi.fn();
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockRejectedValue(new Error("offline")),
+    getMatches: vi.fn().mockRejectedValue(new Error("offline")),
+    getScores: vi.fn().mockRejectedValue(new Error("offline")),
+    getSchedule,
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+const EVENT_CODE = "USTXCMP";
+
+const scoutingRotation = {
+  findUnique: vi.fn(),
+  create: vi.fn(),
+  deleteMany: vi.fn(),
+};
+const scoutingAssignment = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  update: vi.fn(),
+};
+
+function authHeaders() {
+  return {
+    "Content-Type": "application/json",
+    Cookie: "authjs.session-token=valid-token",
+    "X-User-Id": USER_ID,
+  };
+}
+
+// permissions: the team's role capability overrides
+function mockMember(role: string, permissions?: Record<string, Record<string, boolean>>) {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+  mockPrisma.teamMember.findUnique.mockResolvedValue({
+    userId: USER_ID,
+    teamId: TEAM_ID,
+    role,
+    team: { permissions: permissions ?? null },
+  });
+}
+
+function scheduleMatch(matchNumber: number, teams: number[]) {
+  return {
+    matchNumber,
+    teams: ["Red1", "Red2", "Blue1", "Blue2"].map((station, i) => ({
+      teamNumber: teams[i],
+      station,
+      surrogate: false,
+      dq: false,
+    })),
+  };
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const app = new Hono();
+  app.use("/api/user-teams/*", sanitizeInput);
+  app.use("/api/user-teams/*", authMiddleware);
+  app.route("/api/user-teams", userTeams);
+  return app;
+}
+
+describe("generateRotation", () => {
+  const schedule = [1, 2, 3, 4, 5, 6].map((matchNumber) => ({
+    matchNumber,
+    redTeams: [10 + matchNumber, 100],
+    blueTeams: [20 + matchNumber, 30 + matchNumber],
+  }));
+
+  it("never assigns the team's own robot", () => {
+    const { assignments } = generateRotation(schedule, ["a", "b", "c", "d"], 100, {
+      shiftLength: 3,
+      breakLength: 1,
+    });
+    expect(assignments.some((a) => a.teamNumber === 100)).toBe(false);
+  });
+
+  it("rests scouts for the configured break after each shift", () => {
+    const { assignments, unassigned } = generateRotation(schedule, ["a", "b", "c", "d", "e"], 100, {
+      shiftLength: 2,
+      breakLength: 1,
+    });
+
+    expect(unassigned).toHaveLength(0);
+    for (const scout of ["a", "b", "c", "d", "e"]) {
+      const matches = assignments.filter((a) => a.scouterId === scout).map((a) => a.matchNumber);
+      // No scout works more than two matches in a row
+      for (let i = 2; i < matches.length; i++) {
+        expect(matches[i] - matches[i - 2]).toBeGreaterThan(2);
+      }
+    }
+    // Each match has one scout per robot and nobody double-booked
+    for (const match of [1, 2, 3, 4, 5, 6]) {
+      const scouts = assignments.filter((a) => a.matchNumber === match).map((a) => a.scouterId);
+      expect(scouts).toHaveLength(3);
+      expect(new Set(scouts).size).toBe(3);
+    }
+  });
+
+  it("reports robot-matches nobody was free for", () => {
+    const { assignments, unassigned } = generateRotation(schedule.slice(0, 1), ["a"], 100, {
+      shiftLength: 5,
+      breakLength: 1,
+    });
+    expect(assignments).toHaveLength(1);
+    expect(unassigned.map((u) => u.station)).toEqual(["Blue1", "Blue2"]);
+  });
+});
+
+describe("Assignment routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockPrisma as any).scoutingRotation = scoutingRotation;
+    (mockPrisma as any).scoutingAssignment = scoutingAssignment;
+    (mockPrisma as any).teamMember.findMany = vi.fn();
+    (mockPrisma as any).$transaction = vi.fn((fn: any) => fn(mockPrisma));
+    mockPrisma.event.findUnique.mockResolvedValue({ eventCode: EVENT_CODE, endDate: new Date("2026-03-02") });
+    mockPrisma.match.findMany.mockResolvedValue([]);
+    getSchedule.mockResolvedValue({
+      schedule: [scheduleMatch(1, [100, 2, 3, 4]), scheduleMatch(2, [5, 6, 7, 8])],
+    });
+  });
+
+  it("only lets members who can manage assignments generate a rotation", async () => {
+    mockMember("STUDENT");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/assignments`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(scoutingRotation.create).not.toHaveBeenCalled();
+  });
+
+  it("generates a rotation for every member who can scout", async () => {
+    mockMember("LEADER");
+    mockPrisma.team.findUnique.mockResolvedValue({ id: TEAM_ID, teamNumber: 100 });
+    (mockPrisma as any).teamMember.findMany.mockResolvedValue([
+      { userId: "s1", role: "STUDENT" },
+      { userId: "s2", role: "STUDENT" },
+      { userId: "s3", role: "LEADER" },
+      { userId: "s4", role: "STUDENT" },
+      { userId: "f1", role: "FRIEND" },
+    ]);
+    scoutingRotation.create.mockImplementation(({ data }: any) => Promise.resolve({ id: "rot-1", ...data }));
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/assignments`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE, shiftLength: 4, breakLength: 1 }),
+    });
+
+    expect(res.status).toBe(201);
+    expect(scoutingRotation.deleteMany).toHaveBeenCalledWith({ where: { teamId: TEAM_ID, eventCode: EVENT_CODE } });
+    const created = scoutingRotation.create.mock.calls[0][0].data;
+    expect(created).toMatchObject({ shiftLength: 4, breakLength: 1, createdBy: USER_ID });
+    // 7 robots (own team skipped in match 1), no FRIEND scouts
+    expect(created.assignments.create).toHaveLength(7);
+    expect(created.assignments.create.some((a: any) => a.scouterId === "f1")).toBe(false);
+    expect(created.assignments.create.some((a: any) => a.teamNumber === 100)).toBe(false);
+  });
+
+  it("lets a STUDENT granted manage-assignments generate a rotation", async () => {
+    mockMember("STUDENT", { STUDENT: { "manage-assignments": true } });
+    mockPrisma.team.findUnique.mockResolvedValue({ id: TEAM_ID, teamNumber: 100 });
+    (mockPrisma as any).teamMember.findMany.mockResolvedValue([{ userId: "s1", role: "STUDENT" }]);
+    scoutingRotation.create.mockImplementation(({ data }: any) => Promise.resolve({ id: "rot-1", ...data }));
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/assignments`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE }),
+    });
+
+    expect(res.status).toBe(201);
+  });
+
+  it("leaves out members whose role the team stopped from scouting", async () => {
+    mockMember("MENTOR");
+    mockPrisma.team.findUnique.mockResolvedValue({
+      id: TEAM_ID,
+      teamNumber: 100,
+      permissions: { STUDENT: { scout: false } },
+    });
+    (mockPrisma as any).teamMember.findMany.mockResolvedValue([
+      { userId: "s1", role: "STUDENT" },
+      { userId: "l1", role: "LEADER" },
+    ]);
+    scoutingRotation.create.mockImplementation(({ data }: any) => Promise.resolve({ id: "rot-1", ...data }));
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/assignments`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE }),
+    });
+
+    expect(res.status).toBe(201);
+    const created = scoutingRotation.create.mock.calls[0][0].data;
+    expect(new Set(created.assignments.create.map((a: any) => a.scouterId))).toEqual(new Set(["l1"]));
+  });
+
+  it("hides coverage from members whose team revoked view-scouting", async () => {
+    mockMember("STUDENT", { STUDENT: { "view-scouting": false } });
+
+    const app = await createApp();
+    const res = await app.request(
+      `/api/user-teams/${TEAM_ID}/assignments/coverage?eventCode=${EVENT_CODE}`,
+      { headers: authHeaders() }
+    );
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.scoutingEntry.findMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects scouts who are not on the team", async () => {
+    mockMember("MENTOR");
+    mockPrisma.team.findUnique.mockResolvedValue({ id: TEAM_ID, teamNumber: 100 });
+    (mockPrisma as any).teamMember.findMany.mockResolvedValue([{ userId: "s1", role: "STUDENT" }]);
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/assignments`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE, scouterIds: ["s1", "outsider"] }),
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns the scout's next unsubmitted assignment", async () => {
+    mockMember("STUDENT");
+    scoutingAssignment.findMany.mockResolvedValue([
+      { id: "a1", matchNumber: 1, station: "Red2", teamNumber: 2, scouterId: USER_ID },
+      { id: "a2", matchNumber: 2, station: "Blue1", teamNumber: 7, scouterId: USER_ID },
+    ]);
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      { matchNumber: 1, scoutedTeam: { teamNumber: 2 } },
+    ]);
+
+    const app = await createApp();
+    const res = await app.request(
+      `/api/user-teams/${TEAM_ID}/assignments/me?eventCode=${EVENT_CODE}`,
+      { headers: authHeaders() }
+    );
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.assignments.map((a: any) => a.completed)).toEqual([true, false]);
+    expect(body.data.next).toMatchObject({ id: "a2", matchNumber: 2, teamNumber: 7 });
+  });
+
+  it("reports coverage for every robot-match", async () => {
+    mockMember("STUDENT");
+    mockPrisma.team.findUnique.mockResolvedValue({ teamNumber: 100 });
+    scoutingRotation.findUnique.mockResolvedValue({
+      id: "rot-1",
+      assignments: [
+        { matchNumber: 2, station: "Red1", teamNumber: 5, scouterId: "s1", scouter: { id: "s1", name: "Sam", image: null } },
+      ],
+    });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      { matchNumber: 1, scoutedTeam: { teamNumber: 2 } },
+    ]);
+
+    const app = await createApp();
+    const res = await app.request(
+      `/api/user-teams/${TEAM_ID}/assignments/coverage?eventCode=${EVENT_CODE}`,
+      { headers: authHeaders() }
+    );
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    const status = Object.fromEntries(
+      body.data.robotMatches.map((r: any) => [`${r.matchNumber}-${r.station}`, r.status])
+    );
+    expect(status["1-Red1"]).toBe("own-team");
+    expect(status["1-Red2"]).toBe("scouted");
+    expect(status["2-Red1"]).toBe("assigned");
+    expect(status["2-Blue2"]).toBe("unassigned");
+    expect(body.data.summary).toMatchObject({ total: 8, scouted: 1, assigned: 1, unassigned: 5 });
+    expect(body.data.scouts[0]).toMatchObject({ assigned: 1, completed: 0 });
+  });
+});
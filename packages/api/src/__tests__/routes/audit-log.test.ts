@@ -0,0 +1,351 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getTeam: vi.fn().mockResolvedValue({ teams: [] }),
+    getScores: vi.fn().mockRejectedValue(new Error("mocked")),
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+const ENTRY_ID = "entry-1";
+
+function authHeaders() {
+  return {
+    "Content-Type": "application/json",
+    Cookie: "authjs.session-token=valid-token",
+  };
+}
+
+function mockSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+function mockRole(role: string) {
+  mockPrisma.teamMember.findUnique.mockResolvedValue({
+    id: "member-self",
+    userId: USER_ID,
+    teamId: TEAM_ID,
+    role,
+    team: { permissions: null },
+  });
+}
+
+// Another scout's entry: 2 auto classified (6 pts)
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: ENTRY_ID,
+    scouterId: "other-scout",
+    scoutingTeamId: TEAM_ID,
+    scoutedTeamId: "scouted-team",
+    eventCode: "USTXCMP",
+    matchNumber: 1,
+    alliance: "RED",
+    season: 2025,
+    scoringData: null,
+    autoLeave: false,
+    autoClassifiedCount: 2,
+    autoOverflowCount: 0,
+    autoPatternCount: 0,
+    teleopClassifiedCount: 0,
+    teleopOverflowCount: 0,
+    teleopDepotCount: 0,
+    teleopPatternCount: 0,
+    teleopMotifCount: 0,
+    endgameBaseStatus: "NONE",
+    allianceNotes: null,
+    autoScore: 6,
+    teleopScore: 0,
+    endgameScore: 0,
+    totalScore: 6,
+    ...overrides,
+  };
+}
+
+function auditCalls() {
+  return (mockPrisma as any).auditLog.create.mock.calls.map(([args]: any) => args.data);
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const scouting = (await import("../../routes/scouting")).default;
+  const app = new Hono();
+  app.use("/api/*", sanitizeInput);
+  app.use("/api/user-teams/*", authMiddleware);
+  app.use("/api/scouting/*", authMiddleware);
+  app.route("/api/user-teams", userTeams);
+  app.route("/api/scouting", scouting);
+  return app;
+}
+
+describe("Audit log", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSession();
+    (mockPrisma as any).auditLog.create.mockResolvedValue({});
+    mockPrisma.scoutingEntry.update.mockImplementation(async ({ data }: any) => ({
+      ...entry(),
+      ...data,
+      scoutedTeam: { teamNumber: 5678 },
+    }));
+    (mockPrisma as any).teamMember.delete = vi.fn().mockResolvedValue({});
+    (mockPrisma as any).teamMember.count = vi.fn().mockResolvedValue(2);
+  });
+
+  describe("scouting entry edits", () => {
+    it("records only the fields an edit changed", async () => {
+      mockRole("LEADER");
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(entry());
+
+      const app = await createApp();
+      const res = await app.request(`/api/scouting/entries/${ENTRY_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ autoClassifiedCount: 4 }),
+      });
+
+      expect(res.status).toBe(200);
+      const [record] = auditCalls();
+      expect(record).toMatchObject({
+        teamId: TEAM_ID,
+        actorId: USER_ID,
+        action: "scouting-entry.update",
+        targetType: "scouting-entry",
+        targetId: ENTRY_ID,
+      });
+      expect(record.before).toMatchObject({ autoClassifiedCount: 2, autoScore: 6, totalScore: 6 });
+      expect(record.after).toMatchObject({ autoClassifiedCount: 4, autoScore: 12, totalScore: 12 });
+      expect(record.before).not.toHaveProperty("teleopDepotCount");
+    });
+
+    it("still saves the edit when the audit write fails", async () => {
+      mockRole("LEADER");
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(entry());
+      (mockPrisma as any).auditLog.create.mockRejectedValue(new Error("db down"));
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const app = await createApp();
+      const res = await app.request(`/api/scouting/entries/${ENTRY_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ autoClassifiedCount: 4 }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockPrisma.scoutingEntry.update).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    it("rejects invalid match fields before writing", async () => {
+      mockRole("LEADER");
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(entry());
+
+      const app = await createApp();
+      for (const body of [{ matchNumber: "3" }, { alliance: "GREEN" }, { allianceNotes: 5 }]) {
+        const res = await app.request(`/api/scouting/entries/${ENTRY_ID}`, {
+          method: "PATCH",
+          headers: authHeaders(),
+          body: JSON.stringify(body),
+        });
+        expect(res.status).toBe(400);
+      }
+      expect(mockPrisma.scoutingEntry.update).not.toHaveBeenCalled();
+    });
+
+    it("returns 409 when moving an entry onto a match it already has an entry in", async () => {
+      mockRole("LEADER");
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(entry());
+      (mockPrisma as any).match.findUnique.mockResolvedValue(null);
+      mockPrisma.scoutingEntry.update.mockRejectedValue(Object.assign(new Error("Unique constraint"), { code: "P2002" }));
+
+      const app = await createApp();
+      const res = await app.request(`/api/scouting/entries/${ENTRY_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ matchNumber: 2 }),
+      });
+
+      expect(res.status).toBe(409);
+    });
+
+    it("reverts an edit while keeping later changes to other fields", async () => {
+      mockRole("LEADER");
+      // Edited to 4 auto classified, then 3 depot added later
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(
+        entry({ autoClassifiedCount: 4, teleopDepotCount: 3, autoScore: 12, teleopScore: 3, totalScore: 15 })
+      );
+      (mockPrisma as any).auditLog.findUnique.mockResolvedValue({
+        id: "audit-1",
+        action: "scouting-entry.update",
+        targetId: ENTRY_ID,
+        before: { autoClassifiedCount: 2, autoScore: 6, totalScore: 6 },
+        after: { autoClassifiedCount: 4, autoScore: 12, totalScore: 12 },
+      });
+
+      const app = await createApp();
+      const res = await app.request(`/api/scouting/entries/${ENTRY_ID}/revert`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ auditId: "audit-1" }),
+      });
+
+      expect(res.status).toBe(200);
+      const { data } = mockPrisma.scoutingEntry.update.mock.calls[0][0];
+      expect(data).toMatchObject({
+        autoClassifiedCount: 2,
+        teleopDepotCount: 3,
+        autoScore: 6,
+        teleopScore: 3,
+        totalScore: 9,
+      });
+      const [record] = auditCalls();
+      expect(record).toMatchObject({
+        action: "scouting-entry.revert",
+        targetId: ENTRY_ID,
+        revertOfId: "audit-1",
+      });
+    });
+
+    it("only reverts edits of the same entry", async () => {
+      mockRole("LEADER");
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(entry());
+      (mockPrisma as any).auditLog.findUnique.mockResolvedValue({
+        id: "audit-2",
+        action: "scouting-entry.update",
+        targetId: "another-entry",
+        before: { autoClassifiedCount: 0 },
+      });
+
+      const app = await createApp();
+      const res = await app.request(`/api/scouting/entries/${ENTRY_ID}/revert`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ auditId: "audit-2" }),
+      });
+
+      expect(res.status).toBe(404);
+      expect(mockPrisma.scoutingEntry.update).not.toHaveBeenCalled();
+    });
+
+    it("needs edit-others-entries to revert another scout's entry", async () => {
+      mockRole("STUDENT");
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(entry());
+
+      const app = await createApp();
+      const res = await app.request(`/api/scouting/entries/${ENTRY_ID}/revert`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ auditId: "audit-1" }),
+      });
+
+      expect(res.status).toBe(403);
+      expect((mockPrisma as any).auditLog.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("shows an entry's history to team members only", async () => {
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue(entry());
+      (mockPrisma as any).auditLog.findMany.mockResolvedValue([{ id: "audit-1" }]);
+      const app = await createApp();
+
+      mockRole("STUDENT");
+      const res = await app.request(`/api/scouting/entries/${ENTRY_ID}/history`, {
+        headers: authHeaders(),
+      });
+      expect(res.status).toBe(200);
+      expect((mockPrisma as any).auditLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { targetType: "scouting-entry", targetId: ENTRY_ID } })
+      );
+
+      mockPrisma.teamMember.findUnique.mockResolvedValue(null);
+      const outsider = await app.request(`/api/scouting/entries/${ENTRY_ID}/history`, {
+        headers: authHeaders(),
+      });
+      expect(outsider.status).toBe(403);
+    });
+  });
+
+  describe("team administration", () => {
+    it("records member removals with the removed membership", async () => {
+      mockRole("MENTOR");
+      mockPrisma.teamMember.findUnique
+        .mockResolvedValueOnce({
+          id: "member-self",
+          userId: USER_ID,
+          teamId: TEAM_ID,
+          role: "MENTOR",
+          team: { permissions: null },
+        })
+        .mockResolvedValueOnce({ id: "member-2", userId: "user-2", teamId: TEAM_ID, role: "STUDENT" });
+
+      const app = await createApp();
+      const res = await app.request(`/api/user-teams/${TEAM_ID}/members/member-2`, {
+        method: "DELETE",
+        headers: { Cookie: "authjs.session-token=valid-token" },
+      });
+
+      expect(res.status).toBe(200);
+      expect(auditCalls()).toEqual([
+        expect.objectContaining({
+          teamId: TEAM_ID,
+          actorId: USER_ID,
+          action: "member.remove",
+          targetType: "member",
+          targetId: "member-2",
+          before: { id: "member-2", userId: "user-2", teamId: TEAM_ID, role: "STUDENT" },
+        }),
+      ]);
+    });
+
+    it("filters the team audit log", async () => {
+      mockRole("LEADER");
+      (mockPrisma as any).auditLog.findMany.mockResolvedValue([]);
+      (mockPrisma as any).auditLog.count.mockResolvedValue(0);
+
+      const app = await createApp();
+      const res = await app.request(
+        `/api/user-teams/${TEAM_ID}/audit?action=member.update,member.remove&actorId=user-2&since=2026-01-01T00:00:00Z&limit=500`,
+        { headers: authHeaders() }
+      );
+
+      expect(res.status).toBe(200);
+      const args = (mockPrisma as any).auditLog.findMany.mock.calls[0][0];
+      expect(args.where).toEqual({
+        teamId: TEAM_ID,
+        action: { in: ["member.update", "member.remove"] },
+        actorId: "user-2",
+        createdAt: { gte: new Date("2026-01-01T00:00:00Z") },
+      });
+      expect(args.take).toBe(200);
+    });
+
+    it("rejects unknown filters and non-admin readers", async () => {
+      mockRole("LEADER");
+      const app = await createApp();
+
+      const badAction = await app.request(`/api/user-teams/${TEAM_ID}/audit?action=team.destroy`, {
+        headers: authHeaders(),
+      });
+      const badDate = await app.request(`/api/user-teams/${TEAM_ID}/audit?since=yesterday`, {
+        headers: authHeaders(),
+      });
+      expect(badAction.status).toBe(400);
+      expect(badDate.status).toBe(400);
+
+      mockRole("STUDENT");
+      const student = await app.request(`/api/user-teams/${TEAM_ID}/audit`, {
+        headers: authHeaders(),
+      });
+      expect(student.status).toBe(403);
+      expect((mockPrisma as any).auditLog.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma, mockRedis } from "../setup";
+import { predictMatch, type EPAResult, type MatchForEPA } from "../../lib/stats/epa";
+import {
+  DEFAULT_MARGIN_SPREAD,
+  fitMarginSpread,
+  getMarginSpread,
+  setMarginSpread,
+  winProbability,
+} from "../../lib/stats/win-probability";
+import { heldOutForecasts, runBacktest, scoreForecasts } from "../../lib/stats/backtest";
+import { getRedis } from "../../lib/redis";
+
+const getEvents = vi.hoisted(() => vi.fn());
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvents,
+    getEvent: vi.fn().mockRejectedValue(new Error("offline")),
+    getMatches: vi.fn().mockResolvedValue({ matches: [] }),
+    getScores: vi.fn().mockResolvedValue({ matchScores: [] }),
+  }),
+}));
+
+async function createApp() {
+  const analytics = (await import("../../routes/analytics")).default;
+  const app = new Hono();
+  app.route("/api/analytics", analytics);
+  return app;
+}
+
+function epa(teamNumber: number, value: number): [number, EPAResult] {
+  return [
+    teamNumber,
+    { teamNumber, epa: value, autoEpa: 0, teleopEpa: 0, endgameEpa: 0, matchCount: 5 },
+  ];
+}
+
+describe("winProbability", () => {
+  it("is even for an even margin and symmetric around it", () => {
+    expect(winProbability(0)).toBeCloseTo(0.5, 6);
+    expect(winProbability(12) + winProbability(-12)).toBeCloseTo(1, 6);
+  });
+
+  it("uses the spread as the margin standard deviation", () => {
+    expect(winProbability(20, 20)).toBeCloseTo(0.8413, 4);
+    expect(winProbability(-40, 20)).toBeCloseTo(0.0228, 4);
+  });
+});
+
+describe("fitMarginSpread", () => {
+  it("returns the RMS error of predicted margins", () => {
+    const spread = fitMarginSpread(
+      [
+        // predicted margin 10, actual 13 -> residual 3
+        { matchNumber: 1, predictedRedScore: 50, predictedBlueScore: 40, redScore: 53, blueScore: 40 },
+        // predicted margin 0, actual -4 -> residual -4
+        { matchNumber: 2, predictedRedScore: 45, predictedBlueScore: 45, redScore: 41, blueScore: 45 },
+      ],
+      1
+    );
+    expect(spread).toBeCloseTo(Math.sqrt(12.5), 6);
+  });
+
+  it("declines to fit with too few matches", () => {
+    expect(
+      fitMarginSpread([
+        { matchNumber: 1, predictedRedScore: 50, predictedBlueScore: 40, redScore: 53, blueScore: 40 },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe("predictMatch", () => {
+  it("uses the same expected scores as the EPA update", () => {
+    const epas = new Map([epa(1, 10), epa(2, 10), epa(3, 0), epa(4, 0)]);
+    const prediction = predictMatch(epas, 1, 2, 3, 4, 100);
+
+    // red = 100 + 20 - 0 / 2, blue = 100 + 0 - 20 / 2
+    expect(prediction.predictedRedScore).toBe(120);
+    expect(prediction.predictedBlueScore).toBe(90);
+    expect(prediction.redWinProbability).toBe(
+      Math.round(winProbability(30, DEFAULT_MARGIN_SPREAD) * 100) / 100
+    );
+  });
+});
+
+describe("scoreForecasts", () => {
+  it("computes Brier score, log loss, accuracy and calibration", () => {
+    const report = scoreForecasts(
+      [
+        { probability: 0.8, outcome: 1 },
+        { probability: 0.3, outcome: 0 },
+        { probability: 0.6, outcome: 0 },
+        { probability: 0.5, outcome: 0.5 },
+      ],
+      17
+    );
+
+    // (0.04 + 0.09 + 0.36 + 0) / 4
+    expect(report.brierScore).toBe(0.1225);
+    // -(ln 0.8 + ln 0.7 + ln 0.4 + ln 0.5) / 4
+    expect(report.logLoss).toBe(0.5473);
+    // Two of three decided matches called correctly; the tie is excluded
+    expect(report.accuracy).toBe(0.6667);
+    expect(report.ties).toBe(1);
+
+    expect(report.calibration).toHaveLength(10);
+    expect(report.calibration[8]).toEqual({
+      binStart: 0.8,
+      binEnd: 0.9,
+      count: 1,
+      meanPredicted: 0.8,
+      observedRate: 1,
+    });
+    expect(report.calibration[6].observedRate).toBe(0);
+    expect(report.calibration[0]).toMatchObject({ count: 0, observedRate: null });
+  });
+
+  it("reports nulls with no forecasts", () => {
+    const report = scoreForecasts([], 17);
+    expect(report).toMatchObject({ matches: 0, brierScore: null, logLoss: null, accuracy: null });
+  });
+});
+
+describe("runBacktest", () => {
+  it("predicts each match only from earlier matches", () => {
+    const matches: MatchForEPA[] = [
+      { matchNumber: 1, redTeam1: 1, redTeam2: 2, blueTeam1: 3, blueTeam2: 4, redScore: 90, blueScore: 30 },
+      { matchNumber: 2, redTeam1: 1, redTeam2: 3, blueTeam1: 2, blueTeam2: 4, redScore: 70, blueScore: 50 },
+    ];
+    const report = runBacktest(matches, 20);
+
+    // Match 1 has no history, so it is a coin flip that lands in the 0.5 bin
+    expect(report.matches).toBe(2);
+    expect(report.calibration[5].count).toBeGreaterThanOrEqual(1);
+    expect(report.spread).toBe(20);
+  });
+});
+
+describe("heldOutForecasts", () => {
+  it("scores each match with the spread fitted on earlier matches only", () => {
+    // Predicted margin 0; the first 30 miss by 10, the 31st by 100
+    const predictions = Array.from({ length: 31 }, (_, i) => ({
+      matchNumber: i + 1,
+      predictedRedScore: 50,
+      predictedBlueScore: 50,
+      redScore: i < 30 ? 60 : 150,
+      blueScore: 50,
+    }));
+
+    const { forecasts, spread } = heldOutForecasts(predictions, 40);
+
+    // Too few earlier matches to fit: the initial spread
+    expect(forecasts[29].probability).toBe(winProbability(0, 40));
+    // Match 31 is predicted with the spread of matches 1-30, not its own miss
+    expect(forecasts[30]).toEqual({ probability: winProbability(0, 10), outcome: 1 });
+    expect(spread).toBeCloseTo(fitMarginSpread(predictions)!, 6);
+  });
+});
+
+describe("GET /api/analytics/backtest", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.event.findMany.mockResolvedValue([]);
+    mockPrisma.event.findUnique.mockResolvedValue({ endDate: new Date("2026-03-02") });
+  });
+
+  it("replays a single event", async () => {
+    const rows = [
+      [1, [1, 2, 3, 4], 90, 30],
+      [2, [1, 3, 2, 4], 70, 50],
+      [3, [1, 4, 2, 3], 60, 55],
+    ] as const;
+    mockPrisma.match.findMany.mockResolvedValue(
+      rows.map(([matchNumber, teams, red, blue]) => ({
+        eventCode: "EVT1",
+        matchNumber,
+        matchSeries: 0,
+        tournamentLevel: "QUALIFICATION",
+        red1: teams[0],
+        red2: teams[1],
+        blue1: teams[2],
+        blue2: teams[3],
+        redScore: red,
+        blueScore: blue,
+        scoreDetails: {
+          matchLevel: "QUALIFICATION",
+          matchNumber,
+          alliances: [
+            { alliance: "Red", totalPoints: red, autoPoints: 0, dcPoints: red, endgamePoints: 0, team1: 0, team2: 0 },
+            { alliance: "Blue", totalPoints: blue, autoPoints: 0, dcPoints: blue, endgamePoints: 0, team1: 0, team2: 0 },
+          ],
+        },
+        scheduledTime: null,
+        actualTime: null,
+        updatedAt: new Date(),
+      }))
+    );
+
+    // A season spread fitted on results that include this event must not
+    // calibrate the event's own forecasts
+    const seasonSpread = getMarginSpread();
+    setMarginSpread(5);
+
+    try {
+      const app = await createApp();
+      const res = await app.request("/api/analytics/backtest?eventCode=EVT1");
+      const body = (await res.json()) as any;
+
+      expect(res.status).toBe(200);
+      expect(body.data.eventCode).toBe("EVT1");
+      expect(body.data.matches).toBe(3);
+      expect(body.data.calibration).toHaveLength(10);
+      expect(typeof body.data.brierScore).toBe("number");
+      expect(body.data.spread).toBe(DEFAULT_MARGIN_SPREAD);
+    } finally {
+      setMarginSpread(seasonSpread);
+    }
+  });
+
+  it("returns the cached season report without an eventCode", async () => {
+    mockRedis.get.mockResolvedValue(JSON.stringify({ season: 2025, matches: 1200, brierScore: 0.18 }));
+
+    const app = await createApp();
+    const res = await app.request("/api/analytics/backtest");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({ season: 2025, matches: 1200 });
+  });
+
+  it("returns 404 when there are no season matches to backtest", async () => {
+    mockRedis.get.mockResolvedValue(null);
+    getEvents.mockResolvedValue({ events: [] });
+    const consoleLog = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const app = await createApp();
+    const res = await app.request("/api/analytics/backtest");
+    expect(res.status).toBe(404);
+    consoleLog.mockRestore();
+  });
+
+  it("computes the season report on demand without Redis", async () => {
+    vi.mocked(getRedis).mockReturnValue(null);
+    getEvents.mockResolvedValue({
+      events: [{ code: "EVT1", dateStart: "2025-01-01T00:00:00", dateEnd: "2025-01-02T00:00:00", typeName: "Qualifier" }],
+    });
+    mockPrisma.match.findMany.mockResolvedValue(
+      [[1, 90, 30], [2, 70, 50], [3, 60, 55]].map(([matchNumber, red, blue]) => ({
+        eventCode: "EVT1",
+        matchNumber,
+        matchSeries: 0,
+        tournamentLevel: "QUALIFICATION",
+        red1: 1,
+        red2: 2,
+        blue1: 3,
+        blue2: 4,
+        redScore: red,
+        blueScore: blue,
+        scoreDetails: {
+          matchLevel: "QUALIFICATION",
+          matchNumber,
+          alliances: [
+            { alliance: "Red", totalPoints: red, autoPoints: 0, dcPoints: red, endgamePoints: 0, team1: 0, team2: 0 },
+            { alliance: "Blue", totalPoints: blue, autoPoints: 0, dcPoints: blue, endgamePoints: 0, team1: 0, team2: 0 },
+          ],
+        },
+        scheduledTime: null,
+        actualTime: null,
+        updatedAt: new Date(),
+      }))
+    );
+    const consoleLog = vi.spyOn(console, "log").mockImplementation(() => {});
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const app = await createApp();
+    const res = await app.request("/api/analytics/backtest");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({ eventsProcessed: 1, matches: 3 });
+
+    // Served from memory afterwards
+    getEvents.mockClear();
+    expect((await app.request("/api/analytics/backtest")).status).toBe(200);
+    expect(getEvents).not.toHaveBeenCalled();
+
+    vi.mocked(getRedis).mockReturnValue(mockRedis as any);
+    consoleLog.mockRestore();
+    consoleWarn.mockRestore();
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import { reconcileEntries, weightedMedian, type ConsensusSourceEntry } from "../../lib/consensus";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getScores: vi.fn().mockRejectedValue(new Error("offline")),
+    getEventTeams: vi.fn().mockRejectedValue(new Error("offline")),
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+const EVENT_CODE = "USTXCMP";
+
+const scoutingResolution = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  upsert: vi.fn(),
+  delete: vi.fn(),
+};
+
+let createdAt = 0;
+
+function entry(
+  scouterId: string,
+  totalScore: number,
+  scoringData: Record<string, unknown> = {},
+  overrides: Partial<ConsensusSourceEntry> = {}
+): ConsensusSourceEntry {
+  return {
+    id: `entry-${scouterId}-${createdAt}`,
+    scouterId,
+    scoutingTeamId: TEAM_ID,
+    scoutedTeamId: "scouted-1",
+    eventCode: EVENT_CODE,
+    matchNumber: 4,
+    alliance: "RED",
+    season: 2025,
+    scoringData,
+    autoScore: 0,
+    teleopScore: totalScore,
+    endgameScore: 0,
+    totalScore,
+    createdAt: new Date(Date.UTC(2026, 2, 1, 0, 0, createdAt++)),
+    scoutedTeam: { teamNumber: 5000 },
+    scouter: { id: scouterId, name: scouterId, image: null },
+    ...overrides,
+  };
+}
+
+function authHeaders() {
+  return {
+    "Content-Type": "application/json",
+    Cookie: "authjs.session-token=valid-token",
+    "X-User-Id": USER_ID,
+  };
+}
+
+// permissions: the team's role capability overrides
+function mockMember(role: string, permissions?: Record<string, Record<string, boolean>>) {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+  mockPrisma.teamMember.findUnique.mockResolvedValue({
+    userId: USER_ID,
+    teamId: TEAM_ID,
+    role,
+    team: { permissions: permissions ?? null },
+  });
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const scouting = (await import("../../routes/scouting")).default;
+  const app = new Hono();
+  app.use("/api/*", sanitizeInput);
+  app.use("/api/*", authMiddleware);
+  app.route("/api/user-teams", userTeams);
+  app.route("/api/scouting", scouting);
+  return app;
+}
+
+describe("reconcileEntries", () => {
+  it("takes the median and flags scores that disagree", () => {
+    const [record] = reconcileEntries([
+      entry("a", 40, { teleopClassifiedCount: 4 }),
+      entry("b", 44, { teleopClassifiedCount: 5 }),
+      entry("c", 70, { teleopClassifiedCount: 9 }),
+    ]);
+
+    expect(record.method).toBe("consensus");
+    expect(record.totalScore).toBe(44);
+    expect(record.values.teleopClassifiedCount).toBe(5);
+    expect(record.conflicts.map((c) => c.field)).toContain("totalScore");
+    expect(record.entryIds).toHaveLength(3);
+  });
+
+  it("averages the middle pair for an even split", () => {
+    expect(weightedMedian([{ value: 10, weight: 1 }, { value: 20, weight: 1 }])).toBe(15);
+  });
+
+  it("lets trusted scouts outweigh the rest", () => {
+    const [record] = reconcileEntries(
+      [entry("a", 30, { autoLeave: false }), entry("b", 32, { autoLeave: false }), entry("trusted", 60, { autoLeave: true })],
+      { weights: new Map([[`${TEAM_ID}:trusted`, 3]]) }
+    );
+
+    expect(record.totalScore).toBe(60);
+    expect(record.values.autoLeave).toBe(true);
+    expect(record.conflicts.map((c) => c.field)).toEqual(expect.arrayContaining(["autoLeave", "totalScore"]));
+  });
+
+  it("uses the leader's pick over the computed consensus", () => {
+    const picked = entry("b", 90);
+    const [record] = reconcileEntries([entry("a", 40), picked, entry("c", 42)], {
+      resolutions: new Map([
+        [
+          `${TEAM_ID}:${EVENT_CODE}:4:scouted-1`,
+          { id: "res-1", canonicalEntryId: picked.id, scoringData: null, autoScore: null, teleopScore: null, endgameScore: null, totalScore: null },
+        ],
+      ]),
+    });
+
+    expect(record).toMatchObject({ method: "picked", totalScore: 90, resolutionId: "res-1" });
+  });
+
+  it("keeps each scouting team's entries separate", () => {
+    const records = reconcileEntries([
+      entry("a", 40),
+      entry("b", 50, {}, { scoutingTeamId: "other-team" }),
+    ]);
+    expect(records.map((r) => r.method)).toEqual(["single", "single"]);
+  });
+});
+
+describe("Consensus routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockPrisma as any).scoutingResolution = scoutingResolution;
+    (mockPrisma as any).teamMember.findMany = vi.fn().mockResolvedValue([]);
+    scoutingResolution.findMany.mockResolvedValue([]);
+  });
+
+  it("lists robot-matches recorded by several scouts", async () => {
+    mockMember("STUDENT");
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      entry("a", 40),
+      entry("b", 80),
+      entry("c", 50, {}, { matchNumber: 5 }),
+    ]);
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/consensus?eventCode=${EVENT_CODE}`, {
+      headers: authHeaders(),
+    });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.groups).toHaveLength(1);
+    expect(body.data.groups[0]).toMatchObject({ matchNumber: 4, teamNumber: 5000, totalScore: 60 });
+    expect(body.data.groups[0].entries).toHaveLength(2);
+    expect(body.data.unresolved).toBe(1);
+  });
+
+  it("hides scouting data from members whose team revoked view-scouting", async () => {
+    mockMember("FRIEND", { FRIEND: { "view-scouting": false } });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/consensus?eventCode=${EVENT_CODE}`, {
+      headers: authHeaders(),
+    });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.scoutingEntry.findMany).not.toHaveBeenCalled();
+  });
+
+  it("only lets members who can edit others' entries resolve conflicts", async () => {
+    mockMember("STUDENT");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/consensus/resolution`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE, matchNumber: 4, teamNumber: 5000, canonicalEntryId: "x" }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(scoutingResolution.upsert).not.toHaveBeenCalled();
+  });
+
+  it("records a picked canonical entry", async () => {
+    mockMember("LEADER");
+    const picked = entry("b", 80);
+    mockPrisma.team.findUnique.mockResolvedValue({ id: "scouted-1", teamNumber: 5000 });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([entry("a", 40), picked]);
+    scoutingResolution.upsert.mockImplementation(({ create }: any) => Promise.resolve({ id: "res-1", ...create }));
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/consensus/resolution`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE, matchNumber: 4, teamNumber: 5000, canonicalEntryId: picked.id }),
+    });
+
+    expect(res.status).toBe(200);
+    const { create } = scoutingResolution.upsert.mock.calls[0][0];
+    expect(create).toMatchObject({ canonicalEntryId: picked.id, resolvedBy: USER_ID, scoutedTeamId: "scouted-1" });
+  });
+
+  it("scores merged values from the game definition", async () => {
+    mockMember("MENTOR");
+    mockPrisma.team.findUnique.mockResolvedValue({ id: "scouted-1", teamNumber: 5000 });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      entry("a", 9, { teleopClassifiedCount: 3 }),
+      entry("b", 15, { teleopClassifiedCount: 5 }),
+    ]);
+    scoutingResolution.upsert.mockImplementation(({ create }: any) => Promise.resolve({ id: "res-1", ...create }));
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/consensus/resolution`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({
+        eventCode: EVENT_CODE,
+        matchNumber: 4,
+        teamNumber: 5000,
+        values: { teleopClassifiedCount: 5, autoLeave: true },
+      }),
+    });
+
+    expect(res.status).toBe(200);
+    const { create } = scoutingResolution.upsert.mock.calls[0][0];
+    expect(create.canonicalEntryId).toBeNull();
+    expect(create.scoringData).toMatchObject({ teleopClassifiedCount: 5, autoLeave: true });
+    expect(create.totalScore).toBe(create.autoScore + create.teleopScore + create.endgameScore);
+    expect(create.autoScore).toBeGreaterThan(0);
+  });
+
+  it("rejects a resolution that names neither a pick nor values", async () => {
+    mockMember("LEADER");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/consensus/resolution`, {
+      method: "PUT",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE, matchNumber: 4, teamNumber: 5000 }),
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("counts a robot-match once in the team summary", async () => {
+    mockMember("STUDENT");
+    (mockPrisma as any).teamMember.findMany = vi.fn().mockResolvedValue([
+      { teamId: TEAM_ID, userId: USER_ID, scoutWeight: 1, team: { teamNumber: 100 } },
+    ]);
+    (mockPrisma as any).ftcTeamEvent = { findMany: vi.fn().mockResolvedValue([]) };
+    mockPrisma.team.findUnique.mockResolvedValue({ id: "scouted-1", teamNumber: 5000 });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      entry("a", 40),
+      entry("b", 42),
+      entry("c", 44),
+      entry("a", 100, {}, { matchNumber: 9 }),
+    ]);
+
+    const app = await createApp();
+    const res = await app.request(`/api/scouting/team-summary/5000?eventCode=${EVENT_CODE}`, {
+      headers: authHeaders(),
+    });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({ matchCount: 2, entryCount: 4 });
+    // (42 + 100) / 2 rather than (40 + 42 + 44 + 100) / 4
+    expect(body.data.averages.totalScore).toBe(71);
+  });
+});
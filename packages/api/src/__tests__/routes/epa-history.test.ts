@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import { calculateEPA, calculateEPAWithHistory, type MatchForEPA } from "../../lib/stats/epa";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getMatches: vi.fn().mockResolvedValue({ matches: [] }),
+    getScores: vi.fn().mockResolvedValue({ matchScores: [] }),
+  }),
+}));
+
+const findMany = vi.fn();
+(mockPrisma as any).ePAHistory = { findMany };
+
+async function createApp() {
+  const analytics = (await import("../../routes/analytics")).default;
+  const app = new Hono();
+  app.route("/api/analytics", analytics);
+  return app;
+}
+
+const MATCHES: MatchForEPA[] = [
+  { matchNumber: 1, eventCode: "EVT1", timestamp: 1000, redTeam1: 1, redTeam2: 2, blueTeam1: 3, blueTeam2: 4, redScore: 60, blueScore: 30 },
+  { matchNumber: 2, eventCode: "EVT1", timestamp: 1500, redTeam1: 1, redTeam2: 3, blueTeam1: 2, blueTeam2: 4, redScore: 50, blueScore: 40 },
+  { matchNumber: 1, eventCode: "EVT2", timestamp: 2000, redTeam1: 1, redTeam2: 4, blueTeam1: 2, blueTeam2: 3, redScore: 70, blueScore: 35 },
+];
+
+describe("calculateEPAWithHistory", () => {
+  it("emits one snapshot per team per match", () => {
+    const { history } = calculateEPAWithHistory(MATCHES);
+    expect(history).toHaveLength(MATCHES.length * 4);
+    expect(history.filter((s) => s.teamNumber === 1)).toHaveLength(3);
+  });
+
+  it("ends each team's trajectory at its final EPA", () => {
+    const { results, history } = calculateEPAWithHistory(MATCHES);
+    const team1 = history.filter((s) => s.teamNumber === 1);
+    expect(team1[team1.length - 1].epa).toBe(results.get(1)!.epa);
+    expect(team1.map((s) => s.eventCode)).toEqual(["EVT1", "EVT1", "EVT2"]);
+  });
+
+  it("matches calculateEPA results", () => {
+    expect(calculateEPAWithHistory(MATCHES).results).toEqual(calculateEPA(MATCHES));
+  });
+});
+
+describe("GET /api/analytics/team/:teamNumber/epa-history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns the team's snapshots in computation order", async () => {
+    findMany.mockResolvedValue([
+      {
+        eventCode: "EVT1",
+        matchNumber: 1,
+        matchTime: new Date("2026-01-10T10:00:00Z"),
+        epaValue: 3.5,
+        autoEpa: 1,
+        teleopEpa: 2,
+        endgameEpa: 0.5,
+      },
+    ]);
+
+    const app = await createApp();
+    const res = await app.request("/api/analytics/team/8569/epa-history");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.history).toEqual([
+      {
+        eventCode: "EVT1",
+        matchNumber: 1,
+        matchTime: "2026-01-10T10:00:00.000Z",
+        epa: 3.5,
+        autoEpa: 1,
+        teleopEpa: 2,
+        endgameEpa: 0.5,
+      },
+    ]);
+    expect(findMany).toHaveBeenCalledWith({
+      where: { teamNumber: 8569, season: 2025 },
+      orderBy: { sequence: "asc" },
+    });
+  });
+
+  it("applies event and date filters", async () => {
+    findMany.mockResolvedValue([]);
+
+    const app = await createApp();
+    const res = await app.request(
+      "/api/analytics/team/8569/epa-history?eventCode=EVT1&from=2026-01-01&to=2026-02-01"
+    );
+
+    expect(res.status).toBe(200);
+    expect(findMany).toHaveBeenCalledWith({
+      where: {
+        teamNumber: 8569,
+        season: 2025,
+        eventCode: "EVT1",
+        matchTime: { gte: new Date("2026-01-01"), lte: new Date("2026-02-01") },
+      },
+      orderBy: { sequence: "asc" },
+    });
+  });
+
+  it("rejects invalid dates", async () => {
+    const app = await createApp();
+    const res = await app.request("/api/analytics/team/8569/epa-history?from=not-a-date");
+    expect(res.status).toBe(400);
+    expect(findMany).not.toHaveBeenCalled();
+  });
+});
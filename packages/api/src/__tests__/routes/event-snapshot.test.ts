@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getScores: vi.fn().mockRejectedValue(new Error("mocked")),
+    getEventTeams: vi.fn().mockResolvedValue({ teams: [] }),
+  }),
+}));
+
+const USER_ID = "user-123";
+const MY_TEAM_ID = "my-team";
+const EVENT_CODE = "USTXCMP";
+
+function mockValidSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+let createdAt = 0;
+
+function entry(scoutedTeamId: string, teamNumber: number, matchNumber: number, totalScore: number) {
+  return {
+    id: `entry-${scoutedTeamId}-${matchNumber}`,
+    scouterId: USER_ID,
+    scoutingTeamId: MY_TEAM_ID,
+    scoutedTeamId,
+    scoutedTeam: { teamNumber },
+    eventCode: EVENT_CODE,
+    matchNumber,
+    alliance: "RED",
+    season: 2025,
+    scoringData: null,
+    autoScore: 0,
+    teleopScore: totalScore,
+    endgameScore: 0,
+    totalScore,
+    createdAt: new Date(Date.UTC(2026, 2, 1, 0, 0, createdAt++)),
+  };
+}
+
+async function get(path: string) {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const scouting = (await import("../../routes/scouting")).default;
+  const app = new Hono();
+  app.use("/api/scouting/*", sanitizeInput);
+  app.use("/api/scouting/*", authMiddleware);
+  app.route("/api/scouting", scouting);
+  return app.request(path, {
+    headers: {
+      Cookie: "authjs.session-token=valid-token",
+      "X-User-Id": USER_ID,
+    },
+  });
+}
+
+describe("Event snapshot reads", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    createdAt = 0;
+    mockValidSession();
+
+    (mockPrisma as any).teamMember.findMany = vi.fn().mockResolvedValue([
+      { teamId: MY_TEAM_ID, role: "STUDENT", team: { teamNumber: 8569 } },
+    ]);
+    (mockPrisma as any).ftcTeamEvent = { findMany: vi.fn().mockResolvedValue([]) };
+    (mockPrisma as any).scoutingResolution = { findMany: vi.fn().mockResolvedValue([]) };
+    (mockPrisma as any).scoutingEntry.count = vi.fn().mockResolvedValue(0);
+    (mockPrisma as any).scoutingNote.count = vi.fn().mockResolvedValue(0);
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([]);
+    mockPrisma.scoutingNote.findMany.mockResolvedValue([]);
+  });
+
+  it("filters entries to those changed after updatedSince", async () => {
+    const since = "2026-03-01T12:00:00.000Z";
+
+    const res = await get(`/api/scouting/entries?eventCode=${EVENT_CODE}&updatedSince=${since}`);
+
+    expect(res.status).toBe(200);
+    const where = mockPrisma.scoutingEntry.findMany.mock.calls[0][0].where;
+    expect(where.updatedAt).toEqual({ gt: new Date(since) });
+  });
+
+  it("filters notes to those changed after updatedSince", async () => {
+    const since = "2026-03-01T12:00:00.000Z";
+
+    const res = await get(`/api/scouting/notes?eventCode=${EVENT_CODE}&updatedSince=${since}`);
+
+    expect(res.status).toBe(200);
+    const where = mockPrisma.scoutingNote.findMany.mock.calls[0][0].where;
+    expect(where.updatedAt).toEqual({ gt: new Date(since) });
+  });
+
+  it("rejects an unparseable updatedSince", async () => {
+    const res = await get(`/api/scouting/entries?updatedSince=yesterday`);
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.scoutingEntry.findMany).not.toHaveBeenCalled();
+  });
+
+  it("summarizes every scouted team at the event in one response", async () => {
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      entry("team-a", 1111, 1, 40),
+      entry("team-a", 1111, 5, 60),
+      entry("team-b", 2222, 2, 30),
+    ]);
+
+    const res = await get(`/api/scouting/event-summary/${EVENT_CODE}`);
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.eventCode).toBe(EVENT_CODE);
+    expect(body.data.teams.map((t: any) => t.teamNumber)).toEqual([1111, 2222]);
+    expect(body.data.teams[0]).toMatchObject({ matchCount: 2, entryCount: 2 });
+    expect(body.data.teams[0].averages.totalScore).toBe(50);
+    expect(body.data.teams[1].averages.totalScore).toBe(30);
+  });
+
+  it("rejects an invalid event code for the event summary", async () => {
+    const res = await get("/api/scouting/event-summary/bad-code!");
+
+    expect(res.status).toBe(400);
+  });
+});
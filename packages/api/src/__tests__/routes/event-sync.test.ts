@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+const mockApi = {
+  getEvent: vi.fn(),
+  getEvents: vi.fn(),
+  getSchedule: vi.fn(),
+  getMatches: vi.fn(),
+  getScores: vi.fn(),
+};
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => mockApi,
+}));
+
+const EVENT_CODE = "USTXCMP";
+
+function makeScore(matchNumber: number, red: number, blue: number, matchSeries = 0) {
+  return {
+    matchLevel: "QUALIFICATION",
+    matchNumber,
+    matchSeries,
+    alliances: [
+      { alliance: "Red", totalPoints: red, autoPoints: 10, dcPoints: red - 15, endgamePoints: 5, team1: 0, team2: 0 },
+      { alliance: "Blue", totalPoints: blue, autoPoints: 8, dcPoints: blue - 13, endgamePoints: 5, team1: 0, team2: 0 },
+    ],
+  };
+}
+
+function makeMatch(matchNumber: number, teams: [number, number, number, number]) {
+  return {
+    matchNumber,
+    tournamentLevel: "QUALIFICATION",
+    description: `Qualification ${matchNumber}`,
+    startTime: "2026-03-01T10:00:00",
+    actualStartTime: null,
+    postResultTime: null,
+    teams: ["Red1", "Red2", "Blue1", "Blue2"].map((station, i) => ({
+      teamNumber: teams[i],
+      station,
+      surrogate: false,
+      dq: false,
+    })),
+    modifiedOn: "2026-03-01T10:00:00",
+  };
+}
+
+function makeStoredRow(matchNumber: number, teams: [number, number, number, number], red: number, blue: number) {
+  return {
+    id: `match-${matchNumber}`,
+    eventCode: EVENT_CODE,
+    matchNumber,
+    matchSeries: 0,
+    tournamentLevel: "QUALIFICATION",
+    red1: teams[0],
+    red2: teams[1],
+    blue1: teams[2],
+    blue2: teams[3],
+    redScore: red,
+    blueScore: blue,
+    scoreDetails: makeScore(matchNumber, red, blue),
+    scheduledTime: null,
+    actualTime: null,
+    updatedAt: new Date(),
+  };
+}
+
+async function createApp() {
+  const analytics = (await import("../../routes/analytics")).default;
+  const app = new Hono();
+  app.route("/api/analytics", analytics);
+  return app;
+}
+
+describe("Analytics reads stored matches first", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.event.findMany.mockResolvedValue([]);
+    mockPrisma.event.upsert.mockResolvedValue({});
+  });
+
+  it("serves a finished event from the database without calling the FTC API", async () => {
+    mockPrisma.event.findUnique.mockResolvedValue({ endDate: new Date("2026-03-02") });
+    mockPrisma.match.findMany.mockResolvedValue([
+      makeStoredRow(1, [1, 2, 3, 4], 60, 40),
+      makeStoredRow(2, [1, 3, 2, 4], 55, 45),
+      makeStoredRow(3, [1, 4, 2, 3], 50, 50),
+    ]);
+
+    const app = await createApp();
+    const res = await app.request(`/api/analytics/opr/${EVENT_CODE}`);
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.matchCount).toBe(3);
+    expect(mockApi.getMatches).not.toHaveBeenCalled();
+    expect(mockApi.getScores).not.toHaveBeenCalled();
+  });
+
+  it("refetches a finished event once when its stored matches were fetched mid-event", async () => {
+    mockPrisma.event.findUnique.mockResolvedValue({ endDate: new Date("2026-03-02") });
+    // Written through during the event, before its last matches were played
+    const partialRow = makeStoredRow(1, [1, 2, 3, 4], 60, 40);
+    partialRow.updatedAt = new Date("2026-03-02T11:00:00Z");
+    mockPrisma.match.findMany.mockResolvedValue([partialRow]);
+    mockPrisma.match.upsert.mockResolvedValue({});
+    mockApi.getMatches.mockResolvedValue({
+      matches: [makeMatch(1, [1, 2, 3, 4]), makeMatch(2, [1, 3, 2, 4])],
+    });
+    mockApi.getScores.mockResolvedValue({ matchScores: [makeScore(1, 60, 40), makeScore(2, 55, 45)] });
+    mockApi.getEvent.mockRejectedValue(new Error("offline"));
+
+    const app = await createApp();
+    const res = await app.request(`/api/analytics/opr/${EVENT_CODE}`);
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.matchCount).toBe(2);
+    expect(mockApi.getMatches).toHaveBeenCalledWith(EVENT_CODE, "qual");
+    // The write-through refreshes every row, so the next read is final
+    await vi.waitFor(() => expect(mockPrisma.match.upsert).toHaveBeenCalledTimes(2));
+  });
+
+  it("falls back to the FTC API when nothing is stored", async () => {
+    mockPrisma.event.findUnique.mockResolvedValue(null);
+    mockPrisma.match.findMany.mockResolvedValue([]);
+    mockApi.getMatches.mockResolvedValue({ matches: [makeMatch(1, [1, 2, 3, 4])] });
+    mockApi.getScores.mockResolvedValue({ matchScores: [makeScore(1, 60, 40)] });
+    mockApi.getEvent.mockRejectedValue(new Error("offline"));
+
+    const app = await createApp();
+    const res = await app.request(`/api/analytics/opr/${EVENT_CODE}`);
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.matchCount).toBe(1);
+    expect(mockApi.getMatches).toHaveBeenCalledWith(EVENT_CODE, "qual");
+  });
+
+  it("serves stored matches for a live event when the FTC API is down", async () => {
+    mockPrisma.event.findUnique.mockResolvedValue({ endDate: new Date(Date.now() + 86400000) });
+    const staleRow = makeStoredRow(1, [1, 2, 3, 4], 60, 40);
+    staleRow.updatedAt = new Date(Date.now() - 3600000);
+    mockPrisma.match.findMany.mockResolvedValue([staleRow]);
+    mockApi.getMatches.mockRejectedValue(new Error("FTC API Error: 503"));
+    mockApi.getScores.mockRejectedValue(new Error("FTC API Error: 503"));
+
+    const app = await createApp();
+    const res = await app.request(`/api/analytics/opr/${EVENT_CODE}`);
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.matchCount).toBe(1);
+    expect(mockApi.getMatches).toHaveBeenCalled();
+  });
+});
+
+describe("syncEvent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.event.findMany.mockResolvedValue([]);
+    mockPrisma.event.upsert.mockResolvedValue({});
+    (mockPrisma.scoutingEntry as any).updateMany = vi.fn().mockResolvedValue({ count: 2 });
+    mockApi.getEvent.mockResolvedValue({
+      events: [
+        {
+          code: EVENT_CODE,
+          name: "Texas Championship",
+          dateStart: "2026-03-01T00:00:00",
+          dateEnd: "2026-03-02T00:00:00",
+          venue: "Arena",
+          city: "Houston",
+          stateprov: "TX",
+          country: "USA",
+          timezone: "America/Chicago",
+        },
+      ],
+    });
+  });
+
+  it("upserts scheduled and played matches and links scouting entries", async () => {
+    mockApi.getSchedule.mockImplementation((_code: string, level: string) =>
+      Promise.resolve({
+        schedule: level === "qual" ? [makeMatch(1, [1, 2, 3, 4]), makeMatch(2, [5, 6, 7, 8])] : [],
+      })
+    );
+    mockApi.getMatches.mockImplementation((_code: string, level: string) =>
+      Promise.resolve({ matches: level === "qual" ? [makeMatch(1, [1, 2, 3, 4])] : [] })
+    );
+    mockApi.getScores.mockImplementation((_code: string, level: string) =>
+      Promise.resolve({ matchScores: level === "qual" ? [makeScore(1, 60, 40)] : [] })
+    );
+    mockPrisma.match.upsert.mockResolvedValue({});
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([{ matchNumber: 1 }]);
+    mockPrisma.match.findMany.mockResolvedValue([{ id: "match-1", matchNumber: 1 }]);
+
+    const { syncEvent } = await import("../../lib/event-sync");
+    const result = await syncEvent(EVENT_CODE);
+
+    expect(result).toEqual({ matches: 2, linked: 2 });
+    expect(mockPrisma.event.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { eventCode: EVENT_CODE },
+        update: expect.objectContaining({ name: "Texas Championship" }),
+      })
+    );
+
+    const upserts = mockPrisma.match.upsert.mock.calls.map((call) => call[0]);
+    const played = upserts.find((u) => u.where.eventCode_tournamentLevel_matchSeries_matchNumber.matchNumber === 1);
+    const scheduled = upserts.find((u) => u.where.eventCode_tournamentLevel_matchSeries_matchNumber.matchNumber === 2);
+
+    expect(played.create).toMatchObject({
+      tournamentLevel: "QUALIFICATION",
+      red1: 1,
+      blue2: 4,
+      redScore: 60,
+      blueScore: 40,
+      scoreDetails: expect.objectContaining({ matchNumber: 1 }),
+    });
+    // Unplayed matches must not clear a previously stored score
+    expect(scheduled.update.redScore).toBeUndefined();
+    expect(scheduled.update.scoreDetails).toBeUndefined();
+
+    expect((mockPrisma.scoutingEntry as any).updateMany).toHaveBeenCalledWith({
+      where: { eventCode: EVENT_CODE, matchNumber: 1, matchId: null },
+      data: { matchId: "match-1" },
+    });
+  });
+
+  it("only syncs in-progress events with local scouting activity", async () => {
+    mockPrisma.event.findMany.mockResolvedValue([{ eventCode: EVENT_CODE }]);
+    mockApi.getSchedule.mockResolvedValue({ schedule: [] });
+    mockApi.getMatches.mockResolvedValue({ matches: [] });
+    mockApi.getScores.mockResolvedValue({ matchScores: [] });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([]);
+    const consoleLog = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const { syncActiveEvents } = await import("../../lib/event-sync");
+    await syncActiveEvents();
+
+    const { where } = mockPrisma.event.findMany.mock.calls[0][0];
+    expect(where.OR).toEqual(
+      expect.arrayContaining([{ scoutingEntries: { some: {} } }, { pickLists: { some: {} } }])
+    );
+    // No worldwide event list; only the one followed event is fetched
+    expect(mockApi.getEvents).not.toHaveBeenCalled();
+    expect(mockApi.getSchedule).toHaveBeenCalledTimes(2);
+    expect(mockApi.getSchedule).toHaveBeenCalledWith(EVENT_CODE, "qual");
+    consoleLog.mockRestore();
+  });
+});
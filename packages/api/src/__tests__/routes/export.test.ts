@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEventTeams: vi.fn().mockResolvedValue({ teams: [] }),
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+
+function authHeaders() {
+  return { Cookie: "authjs.session-token=valid-token" };
+}
+
+function mockSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+function mockRole(role: string, permissions: unknown = null) {
+  mockPrisma.teamMember.findUnique.mockResolvedValue({
+    id: "member-1",
+    userId: USER_ID,
+    teamId: TEAM_ID,
+    role,
+    team: { permissions },
+  });
+}
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "entry-1",
+    scouterId: USER_ID,
+    scoutingTeamId: TEAM_ID,
+    scoutedTeamId: "scouted-team",
+    eventCode: "USTXCMP",
+    matchNumber: 3,
+    alliance: "RED",
+    season: 2025,
+    scoringData: null,
+    autoLeave: true,
+    autoClassifiedCount: 2,
+    autoOverflowCount: 0,
+    autoPatternCount: 0,
+    teleopClassifiedCount: 4,
+    teleopOverflowCount: 0,
+    teleopDepotCount: 0,
+    teleopPatternCount: 0,
+    teleopMotifCount: 0,
+    endgameBaseStatus: "NONE",
+    allianceNotes: null,
+    autoScore: 9,
+    teleopScore: 12,
+    endgameScore: 0,
+    totalScore: 21,
+    deducted: false,
+    createdAt: new Date("2026-03-01T10:00:00Z"),
+    updatedAt: new Date("2026-03-01T10:00:00Z"),
+    scoutedTeam: { teamNumber: 5678 },
+    scoutingTeam: { teamNumber: 1234 },
+    scouter: { name: "Scout" },
+    ...overrides,
+  };
+}
+
+async function createApp() {
+  const { authMiddleware } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const app = new Hono();
+  app.use("/api/user-teams/*", authMiddleware);
+  app.route("/api/user-teams", userTeams);
+  return app;
+}
+
+describe("Data export", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSession();
+    mockPrisma.team.findUnique.mockResolvedValue({ teamNumber: 1234 });
+    (mockPrisma as any).ftcTeamEvent = { findMany: vi.fn().mockResolvedValue([]) };
+    (mockPrisma as any).pickList = { findMany: vi.fn().mockResolvedValue([]) };
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([]);
+    mockPrisma.scoutingNote.findMany.mockResolvedValue([]);
+  });
+
+  it("needs the export capability", async () => {
+    mockRole("STUDENT");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/export/entries`, {
+      headers: authHeaders(),
+    });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.scoutingEntry.findMany).not.toHaveBeenCalled();
+  });
+
+  it("streams entries as CSV with the team's visibility filter", async () => {
+    mockRole("LEADER");
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      entry({ allianceNotes: 'Fast, "aggressive" cycler' }),
+      entry({ id: "entry-2", allianceNotes: "=HYPERLINK(\"http://x\")" }),
+    ]);
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/export/entries?eventCode=USTXCMP`, {
+      headers: authHeaders(),
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/csv");
+    expect(res.headers.get("Content-Disposition")).toContain("ftcmetrics-1234-entries-USTXCMP.csv");
+
+    const lines = (await res.text()).trim().split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^id,eventCode,matchNumber,alliance,teamNumber,scoutingTeamNumber,scouter,autoLeave,/);
+    expect(lines[1]).toContain('"Fast, ""aggressive"" cycler"');
+    // Formula-looking text is prefixed so spreadsheets show it as text
+    expect(lines[2]).toContain(`"'=HYPERLINK(""http://x"")"`);
+
+    const { where } = mockPrisma.scoutingEntry.findMany.mock.calls[0][0];
+    expect(where).toMatchObject({ season: 2025, eventCode: "USTXCMP" });
+    expect(where.OR).toContainEqual({ scoutingTeamId: { in: [TEAM_ID] } });
+    expect(where.OR).toContainEqual({ scoutingTeam: { sharingLevel: "PUBLIC" } });
+  });
+
+  it("writes NDJSON one object per line", async () => {
+    mockRole("MENTOR");
+    mockPrisma.scoutingNote.findMany.mockResolvedValue([
+      {
+        id: "note-1",
+        eventCode: null,
+        aboutTeam: { teamNumber: 5678 },
+        notingTeam: { teamNumber: 1234 },
+        author: null,
+        reliabilityRating: 4,
+        driverSkillRating: null,
+        defenseRating: null,
+        strategyNotes: "Line one\nline two",
+        mechanicalNotes: null,
+        generalNotes: null,
+        createdAt: new Date("2026-03-01T10:00:00Z"),
+        updatedAt: new Date("2026-03-01T10:00:00Z"),
+      },
+    ]);
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/export/notes?format=ndjson`, {
+      headers: authHeaders(),
+    });
+
+    expect(res.status).toBe(200);
+    const lines = (await res.text()).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      teamNumber: 5678,
+      reliabilityRating: 4,
+      strategyNotes: "Line one\nline two",
+    });
+  });
+
+  it("checks the dataset's view capability as well as export", async () => {
+    // Friends may be given export, but never see a team's own notes by default
+    mockRole("FRIEND", { FRIEND: { export: true } });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/export/notes`, {
+      headers: authHeaders(),
+    });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.scoutingNote.findMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown datasets, formats and ratings without an event", async () => {
+    mockRole("LEADER");
+    const app = await createApp();
+
+    const unknown = await app.request(`/api/user-teams/${TEAM_ID}/export/secrets`, { headers: authHeaders() });
+    const badFormat = await app.request(`/api/user-teams/${TEAM_ID}/export/entries?format=pdf`, {
+      headers: authHeaders(),
+    });
+    const ratings = await app.request(`/api/user-teams/${TEAM_ID}/export/ratings`, { headers: authHeaders() });
+
+    expect(unknown.status).toBe(404);
+    expect(badFormat.status).toBe(400);
+    expect(ratings.status).toBe(400);
+  });
+
+  it("builds a workbook with a sheet per viewable dataset", async () => {
+    mockRole("FRIEND", { FRIEND: { export: true } });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([entry()]);
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/export`, { headers: authHeaders() });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("spreadsheetml");
+    const body = Buffer.from(await res.arrayBuffer());
+    expect(body.subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+
+    // Entries, team summaries and pick lists; no notes, no ratings without an event.
+    // Each part name appears in its local header and the central directory.
+    const sheets = body.toString("latin1").match(/xl\/worksheets\/sheet\d+\.xml/g) ?? [];
+    expect(new Set(sheets).size).toBe(3);
+    expect(mockPrisma.scoutingNote.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import { CURRENT_SEASON, DECODE, calculateGameScores } from "@ftcmetrics/shared";
+import { createFtcDataSource, fixturePath } from "../../lib/ftc-api";
+import { SyntheticDataSource } from "../../lib/ftc-synthetic";
+import { createMockFtcApp } from "../../lib/mock-ftc";
+
+process.env.FTC_DATA_SOURCE = "synthetic";
+
+const NOW = new Date("2026-03-14T12:00:00Z");
+
+async function createApp() {
+  const events = (await import("../../routes/events")).default;
+  const app = new Hono();
+  app.route("/api/events", events);
+  return app;
+}
+
+describe("Synthetic FTC data through the events routes", () => {
+  it("serves generated events, schedules, scores and rankings", async () => {
+    (mockPrisma as any).ftcTeam.upsert = vi.fn().mockResolvedValue({});
+    const app = await createApp();
+
+    const eventsRes = await app.request("/api/events");
+    expect(eventsRes.status).toBe(200);
+    const events = ((await eventsRes.json()) as any).data;
+    expect(events.map((e: { code: string }) => e.code)).toEqual(["SYNTH1", "SYNTH2", "SYNTH3"]);
+
+    const teams = ((await (await app.request("/api/events/SYNTH1/teams")).json()) as any).data;
+    expect(teams).toHaveLength(24);
+
+    const schedule = ((await (await app.request("/api/events/SYNTH1/schedule")).json()) as any).data;
+    expect(schedule).toHaveLength(30);
+    for (const match of schedule) {
+      expect(new Set(match.teams.map((t: { teamNumber: number }) => t.teamNumber)).size).toBe(4);
+    }
+
+    const scores = ((await (await app.request("/api/events/SYNTH1/scores")).json()) as any).data;
+    expect(scores).toHaveLength(30);
+    const [red, blue] = scores[0].alliances;
+    expect(red.prePenaltyTotal).toBe(red.autoPoints + red.dcPoints + red.endgamePoints);
+    expect(red.totalPoints).toBe(red.prePenaltyTotal + blue.penaltyPointsCommitted);
+
+    const rankings = ((await (await app.request("/api/events/SYNTH1/rankings")).json()) as any).data;
+    expect(rankings).toHaveLength(24);
+    expect(rankings.reduce((sum: number, r: { matchesPlayed: number }) => sum + r.matchesPlayed, 0)).toBe(120);
+    expect(rankings[0].sortOrder1).toBeGreaterThanOrEqual(rankings[1].sortOrder1);
+  });
+});
+
+describe("SyntheticDataSource", () => {
+  it("is deterministic for a seed", async () => {
+    const a = new SyntheticDataSource({ seed: 42, teamCount: 8, now: NOW });
+    const b = new SyntheticDataSource({ seed: 42, teamCount: 8, now: NOW });
+    const c = new SyntheticDataSource({ seed: 43, teamCount: 8, now: NOW });
+
+    expect(await a.getScores("SYNTH1")).toEqual(await b.getScores("SYNTH1"));
+    expect(await a.getScores("SYNTH1")).not.toEqual(await c.getScores("SYNTH1"));
+  });
+
+  it("only plays part of the event starting today", async () => {
+    const source = new SyntheticDataSource({ teamCount: 8, eventCount: 2, playedFraction: 0.5, now: NOW });
+
+    const { events } = await source.getEvents();
+    expect(events[1].dateStart).toBe("2026-03-14T00:00:00");
+    expect(events[0].dateStart).toBe("2026-03-07T00:00:00");
+
+    const { schedule } = await source.getSchedule("SYNTH2");
+    const { matches } = await source.getMatches("SYNTH2");
+    expect(schedule).toHaveLength(10);
+    expect(matches).toHaveLength(5);
+    expect((await source.getSchedule("SYNTH2", "playoff")).schedule).toEqual([]);
+  });
+
+  it("builds alliance scores from each robot's element values", async () => {
+    const source = new SyntheticDataSource({ teamCount: 8, includeTeams: [8569], now: NOW });
+
+    expect((await source.getTeamEvents(8569)).events).toHaveLength(3);
+
+    const { matchScores } = await source.getScores("SYNTH1");
+    const robots = source.getRobotResults("SYNTH1");
+    const red = matchScores[0].alliances[0];
+    const redRobots = robots.filter((r) => r.matchNumber === matchScores[0].matchNumber && r.alliance === "RED");
+    expect(redRobots.map((r) => r.teamNumber)).toEqual([red.team1, red.team2]);
+
+    const scores = redRobots.map((r) => calculateGameScores(DECODE, r.values));
+    expect(red.autoPoints).toBe(scores[0].autoScore + scores[1].autoScore);
+    expect(red.dcPoints).toBe(scores[0].teleopScore + scores[1].teleopScore);
+    expect(red.endgamePoints).toBe(scores[0].endgameScore + scores[1].endgameScore);
+  });
+});
+
+describe("Live source against the mock server", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ftc-fixtures-"));
+    process.env.FTC_API_BASE_URL = "http://mock-ftc.test/v2.0";
+    process.env.FTC_FIXTURES_DIR = dir;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.FTC_API_BASE_URL;
+    delete process.env.FTC_FIXTURES_DIR;
+    delete process.env.FTC_FIXTURES_RECORD;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records responses that the fixture source replays", async () => {
+    const mock = createMockFtcApp(new SyntheticDataSource({ teamCount: 8, now: NOW }));
+    const fetchMock = vi.fn((url: string, init?: RequestInit) => mock.request(url, init));
+    vi.stubGlobal("fetch", fetchMock);
+    process.env.FTC_FIXTURES_RECORD = "true";
+
+    const live = createFtcDataSource("live");
+    const rankings = await live.getRankings("SYNTH1");
+    expect(rankings.Rankings).toHaveLength(8);
+    expect(fetchMock.mock.calls[0][0]).toBe(`http://mock-ftc.test/v2.0/${CURRENT_SEASON}/rankings/SYNTH1`);
+
+    const file = fixturePath(dir, CURRENT_SEASON, "/rankings/SYNTH1");
+    expect(fs.existsSync(file)).toBe(true);
+
+    const fixtures = createFtcDataSource("fixtures");
+    expect(await fixtures.getRankings("SYNTH1")).toEqual(rankings);
+    await expect(fixtures.getRankings("SYNTH2")).rejects.toThrow(/404/);
+  });
+
+  it("mock server requires Basic auth like the real API", async () => {
+    const mock = createMockFtcApp(new SyntheticDataSource({ teamCount: 8, now: NOW }));
+
+    const res = await mock.request(`/v2.0/${CURRENT_SEASON}/events`);
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects an unknown source", () => {
+    expect(() => createFtcDataSource("staging")).toThrow(/Unknown FTC_DATA_SOURCE/);
+  });
+});
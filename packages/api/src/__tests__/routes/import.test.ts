@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockResolvedValue({ events: [] }),
+    getEventTeams: vi.fn().mockResolvedValue({ teams: [] }),
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+
+const ENTRIES_CSV = [
+  "Team,Event,Match,Alliance,autoLeave,autoClassifiedCount,teleopClassifiedCount,endgameBaseStatus,Notes",
+  "5678,ustxcmp,3,red,yes,2,4,NONE,Fast cycler",
+  "9012,USTXCMP,3,Blue,no,1,3,NONE,",
+].join("\n");
+
+function authHeaders() {
+  return { Cookie: "authjs.session-token=valid-token", "Content-Type": "application/json" };
+}
+
+function mockSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+function mockRole(role: string) {
+  mockPrisma.teamMember.findUnique.mockResolvedValue({
+    id: "member-1",
+    userId: USER_ID,
+    teamId: TEAM_ID,
+    role,
+    team: { permissions: null },
+  });
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const app = new Hono();
+  app.use("/api/user-teams/*", authMiddleware);
+  app.use("/api/user-teams/*", sanitizeInput);
+  app.route("/api/user-teams", userTeams);
+  return app;
+}
+
+function postImport(app: Hono, body: Record<string, unknown>) {
+  return app.request(`/api/user-teams/${TEAM_ID}/imports`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify(body),
+  });
+}
+
+describe("Scouting import", () => {
+  const importBatch = {
+    create: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    update: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSession();
+    mockRole("MENTOR");
+    (mockPrisma as any).importBatch = importBatch;
+    (mockPrisma as any).$transaction = vi.fn((arg: any) =>
+      typeof arg === "function" ? arg(mockPrisma) : Promise.all(arg)
+    );
+    (mockPrisma as any).team.findMany = vi.fn().mockResolvedValue([{ id: "team-5678", teamNumber: 5678 }]);
+    (mockPrisma as any).team.createMany = vi.fn().mockResolvedValue({ count: 1 });
+    (mockPrisma as any).scoutingEntry.createMany = vi.fn().mockResolvedValue({ count: 2 });
+    (mockPrisma as any).scoutingNote.createMany = vi.fn().mockResolvedValue({ count: 1 });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([]);
+    mockPrisma.scoutingNote.findMany.mockResolvedValue([]);
+    (mockPrisma as any).scoutingEntry.deleteMany = vi.fn().mockResolvedValue({ count: 2 });
+    (mockPrisma as any).scoutingNote.deleteMany = vi.fn().mockResolvedValue({ count: 0 });
+    mockPrisma.event.findUnique.mockResolvedValue({ eventCode: "USTXCMP" });
+    mockPrisma.match.findUnique.mockResolvedValue({ id: "match-3" });
+    importBatch.create.mockResolvedValue({ id: "batch-1", rowCount: 2 });
+  });
+
+  it("needs the import capability", async () => {
+    mockRole("STUDENT");
+
+    const app = await createApp();
+    const res = await postImport(app, { kind: "entries", csv: ENTRIES_CSV, dryRun: true });
+
+    expect(res.status).toBe(403);
+    expect((mockPrisma as any).$transaction).not.toHaveBeenCalled();
+  });
+
+  it("previews rows with a suggested mapping and per-row errors", async () => {
+    const csv = `${ENTRIES_CSV}\n5678,USTXCMP,abc,green,maybe,1,1,NONE,`;
+
+    const app = await createApp();
+    const res = await postImport(app, { kind: "entries", csv, dryRun: true });
+
+    expect(res.status).toBe(200);
+    const { data } = (await res.json()) as any;
+    expect(data.mapping).toMatchObject({
+      scoutedTeamNumber: "Team",
+      eventCode: "Event",
+      matchNumber: "Match",
+      alliance: "Alliance",
+      autoLeave: "autoLeave",
+      allianceNotes: "Notes",
+    });
+    expect(data.validCount).toBe(2);
+    expect(data.invalidCount).toBe(1);
+    expect(data.newTeamNumbers).toEqual([9012]);
+    expect(data.rows[0].data).toMatchObject({ eventCode: "USTXCMP", alliance: "RED", autoLeave: true });
+
+    const bad = data.rows[2];
+    expect(bad.row).toBe(4);
+    expect(bad.errors.map((e: { field: string }) => e.field).sort()).toEqual([
+      "alliance",
+      "autoLeave",
+      "matchNumber",
+    ]);
+    expect((mockPrisma as any).$transaction).not.toHaveBeenCalled();
+  });
+
+  it("refuses to commit invalid rows unless asked to skip them", async () => {
+    const csv = `${ENTRIES_CSV}\n5678,USTXCMP,abc,red,yes,1,1,NONE,`;
+
+    const app = await createApp();
+    const res = await postImport(app, { kind: "entries", csv });
+
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).data.invalidCount).toBe(1);
+    expect((mockPrisma as any).$transaction).not.toHaveBeenCalled();
+
+    const skipped = await postImport(app, { kind: "entries", csv, skipInvalid: true });
+    expect(skipped.status).toBe(200);
+    expect(((await skipped.json()) as any).data.skipped).toBe(1);
+  });
+
+  it("commits entries in one transaction with placeholder teams", async () => {
+    (mockPrisma as any).team.findMany
+      .mockResolvedValueOnce([{ id: "team-5678", teamNumber: 5678 }])
+      .mockResolvedValueOnce([
+        { id: "team-5678", teamNumber: 5678 },
+        { id: "team-9012", teamNumber: 9012 },
+      ]);
+
+    const app = await createApp();
+    const res = await postImport(app, { kind: "entries", csv: ENTRIES_CSV, fileName: "week1.csv" });
+
+    expect(res.status).toBe(200);
+    const { data } = (await res.json()) as any;
+    expect(data).toMatchObject({ imported: 2, skipped: 0, newTeamNumbers: [9012] });
+
+    expect((mockPrisma as any).team.createMany).toHaveBeenCalledWith({
+      data: [{ teamNumber: 9012, name: "Team 9012" }],
+      skipDuplicates: true,
+    });
+    expect(importBatch.create.mock.calls[0][0].data).toMatchObject({
+      teamId: TEAM_ID,
+      kind: "entries",
+      fileName: "week1.csv",
+      rowCount: 2,
+      createdBy: USER_ID,
+    });
+
+    const rows = (mockPrisma as any).scoutingEntry.createMany.mock.calls[0][0].data;
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      scoutingTeamId: TEAM_ID,
+      scoutedTeamId: "team-5678",
+      matchId: "match-3",
+      alliance: "RED",
+      allianceNotes: "Fast cycler",
+      autoScore: 9,
+      importBatchId: "batch-1",
+    });
+    expect(rows[1].scoutedTeamId).toBe("team-9012");
+    expect(rows[0].scouterId).toBeUndefined();
+
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: "import.commit",
+      targetId: "batch-1",
+    });
+  });
+
+  it("reports rows the team already has and rows repeated in the file as conflicts", async () => {
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      { eventCode: "USTXCMP", matchNumber: 3, scoutedTeamId: "team-5678" },
+    ]);
+    const csv = `${ENTRIES_CSV}\n9012,USTXCMP,3,blue,no,1,3,NONE,`;
+
+    const app = await createApp();
+    const res = await postImport(app, { kind: "entries", csv, dryRun: true });
+
+    const { data } = (await res.json()) as any;
+    expect(mockPrisma.scoutingEntry.findMany).toHaveBeenCalledWith({
+      where: { scoutingTeamId: TEAM_ID, eventCode: { in: ["USTXCMP"] }, scoutedTeamId: { in: ["team-5678"] } },
+      select: { eventCode: true, matchNumber: true, scoutedTeamId: true },
+    });
+    expect(data.rows.map((r: any) => r.conflict)).toEqual([true, false, true]);
+    expect(data.rows[0].errors[0].message).toContain("already has an entry");
+    expect(data.rows[2].errors[0].message).toBe("Duplicates row 3");
+    expect(data).toMatchObject({ validCount: 1, invalidCount: 2, conflictCount: 2 });
+
+    const rejected = await postImport(app, { kind: "entries", csv });
+    expect(rejected.status).toBe(400);
+    expect((mockPrisma as any).scoutingEntry.createMany).not.toHaveBeenCalled();
+
+    const skipped = await postImport(app, { kind: "entries", csv, skipInvalid: true });
+    expect(skipped.status).toBe(200);
+    const rows = (mockPrisma as any).scoutingEntry.createMany.mock.calls[0][0].data;
+    expect(rows).toHaveLength(1);
+    expect(rows[0].matchNumber).toBe(3);
+    expect(rows[0].alliance).toBe("BLUE");
+  });
+
+  it("reports notes about a team the team already has notes on at the event", async () => {
+    mockPrisma.scoutingNote.findMany.mockResolvedValue([{ eventCode: "USTXCMP", aboutTeamId: "team-5678" }]);
+    const csv = "Team,Event,Reliability\n5678,USTXCMP,4";
+
+    const app = await createApp();
+    const res = await postImport(app, { kind: "notes", csv, dryRun: true });
+
+    const { data } = (await res.json()) as any;
+    expect(data.rows[0]).toMatchObject({ valid: false, conflict: true });
+    expect(data.rows[0].errors[0]).toMatchObject({ field: "aboutTeamNumber" });
+    expect(data.conflictCount).toBe(1);
+  });
+
+  it("uses the default event code for notes without an event column", async () => {
+    const csv = "Team #,Reliability,Comments\n5678,4,Solid drivetrain\n5678,9,";
+
+    const app = await createApp();
+    const res = await postImport(app, {
+      kind: "notes",
+      csv,
+      defaults: { eventCode: "ustxcmp" },
+      dryRun: true,
+    });
+
+    const { data } = (await res.json()) as any;
+    expect(data.rows[0].data).toMatchObject({
+      aboutTeamNumber: 5678,
+      eventCode: "USTXCMP",
+      reliabilityRating: 4,
+      generalNotes: "Solid drivetrain",
+    });
+    expect(data.rows[1].valid).toBe(false);
+    expect(data.rows[1].errors[0].field).toBe("reliabilityRating");
+  });
+
+  it("rolls back an import once", async () => {
+    importBatch.findFirst.mockResolvedValueOnce({
+      id: "batch-1",
+      teamId: TEAM_ID,
+      kind: "entries",
+      fileName: "week1.csv",
+      rowCount: 2,
+      rolledBackAt: null,
+    });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/imports/batch-1`, {
+      method: "DELETE",
+      headers: { Cookie: "authjs.session-token=valid-token" },
+    });
+
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as any).data).toEqual({ entriesDeleted: 2, notesDeleted: 0 });
+    expect(importBatch.findFirst).toHaveBeenCalledWith({ where: { id: "batch-1", teamId: TEAM_ID } });
+    expect((mockPrisma as any).scoutingEntry.deleteMany).toHaveBeenCalledWith({
+      where: { importBatchId: "batch-1" },
+    });
+    expect(importBatch.update.mock.calls[0][0].data.rolledBackAt).toBeInstanceOf(Date);
+
+    importBatch.findFirst.mockResolvedValueOnce({ id: "batch-1", rolledBackAt: new Date() });
+    const again = await app.request(`/api/user-teams/${TEAM_ID}/imports/batch-1`, {
+      method: "DELETE",
+      headers: { Cookie: "authjs.session-token=valid-token" },
+    });
+    expect(again.status).toBe(409);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import { calculateOPR, getScoreBreakdownFields, type MatchResult } from "../../lib/stats/opr";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockRejectedValue(new Error("offline")),
+    getMatches: vi.fn().mockResolvedValue({ matches: [] }),
+    getScores: vi.fn().mockResolvedValue({ matchScores: [] }),
+  }),
+}));
+
+function match(
+  red: [number, number],
+  blue: [number, number],
+  redScore: number,
+  blueScore: number,
+  extra: Partial<MatchResult> = {}
+): MatchResult {
+  return {
+    redTeam1: red[0],
+    redTeam2: red[1],
+    blueTeam1: blue[0],
+    blueTeam2: blue[1],
+    redScore,
+    blueScore,
+    ...extra,
+  };
+}
+
+// Every pairing of four teams once. AᵀA = 2I + J, so the normal equations
+// solve by hand as x_i = (c_i - S) / 2 where S = sum(c) / 6.
+// True contributions 10/20/30/40 give these alliance scores exactly.
+const ROUND_ROBIN: MatchResult[] = [
+  match([1, 2], [3, 4], 30, 70),
+  match([1, 3], [2, 4], 40, 60),
+  match([1, 4], [2, 3], 50, 50),
+];
+
+describe("calculateOPR", () => {
+  it("recovers exact contributions when scores are consistent", () => {
+    const results = calculateOPR(ROUND_ROBIN);
+    expect([1, 2, 3, 4].map((t) => results.get(t)!.opr)).toEqual([10, 20, 30, 40]);
+  });
+
+  it("computes DPR from opponent scores and CCWM = OPR - DPR", () => {
+    // Opponent sums: c = [180, 160, 140, 120], S = 100
+    const results = calculateOPR(ROUND_ROBIN);
+    expect([1, 2, 3, 4].map((t) => results.get(t)!.dpr)).toEqual([40, 30, 20, 10]);
+    expect([1, 2, 3, 4].map((t) => results.get(t)!.ccwm)).toEqual([-30, -10, 10, 30]);
+  });
+
+  it("returns the least-squares fit for inconsistent scores", () => {
+    // c = [130, 140, 160, 190], S = 103.33
+    const results = calculateOPR([
+      match([1, 2], [3, 4], 30, 70),
+      match([1, 3], [2, 4], 40, 60),
+      match([1, 4], [2, 3], 60, 50),
+    ]);
+    expect([1, 2, 3, 4].map((t) => results.get(t)!.opr)).toEqual([13.33, 18.33, 28.33, 43.33]);
+  });
+
+  it("shrinks toward the average contribution with ridge regularisation", () => {
+    // Mean contribution 25; (AᵀA + I) = 3I + J gives deviations g / 3
+    // for g = Aᵀ(b - 50) = [-30, -10, 10, 30]
+    const results = calculateOPR(ROUND_ROBIN, { ridge: 1 });
+    expect([1, 2, 3, 4].map((t) => results.get(t)!.opr)).toEqual([15, 21.67, 28.33, 35]);
+  });
+
+  it("splits alliance scores evenly when partners cannot be separated", () => {
+    const results = calculateOPR([match([1, 2], [3, 4], 30, 70)]);
+    expect([1, 2, 3, 4].map((t) => results.get(t)!.opr)).toEqual([15, 15, 35, 35]);
+  });
+
+  it("computes component OPRs for phase scores and breakdown fields", () => {
+    const results = calculateOPR(
+      ROUND_ROBIN.map((m, i) => ({
+        ...m,
+        redAutoScore: m.redScore / 2,
+        blueAutoScore: m.blueScore / 2,
+        redBreakdown: { artifacts: m.redScore / 10 },
+        blueBreakdown: { artifacts: m.blueScore / 10, ...(i === 0 ? { fouls: 5 } : {}) },
+      }))
+    );
+
+    expect(results.get(4)!.autoOpr).toBe(20);
+    expect(results.get(4)!.teleopOpr).toBeUndefined();
+    expect(results.get(1)!.components).toEqual({ artifacts: 1 });
+    expect(results.get(4)!.components).toEqual({ artifacts: 4 });
+  });
+
+  it("returns an empty map with no matches", () => {
+    expect(calculateOPR([]).size).toBe(0);
+  });
+});
+
+describe("getScoreBreakdownFields", () => {
+  it("keeps numeric score fields and drops identifiers", () => {
+    expect(
+      getScoreBreakdownFields({
+        alliance: "Red",
+        team1: 8569,
+        team2: 1234,
+        autoPoints: 12,
+        totalPoints: 80,
+        robot1Auto: "PARKED",
+        majorFouls: 1,
+      })
+    ).toEqual({ autoPoints: 12, totalPoints: 80, majorFouls: 1 });
+  });
+});
+
+describe("GET /api/analytics/opr/:eventCode", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.event.findMany.mockResolvedValue([]);
+    mockPrisma.event.findUnique.mockResolvedValue({ endDate: new Date("2026-03-02") });
+    mockPrisma.match.findMany.mockResolvedValue(
+      ROUND_ROBIN.map((m, i) => ({
+        eventCode: "EVT1",
+        matchNumber: i + 1,
+        matchSeries: 0,
+        tournamentLevel: "QUALIFICATION",
+        red1: m.redTeam1,
+        red2: m.redTeam2,
+        blue1: m.blueTeam1,
+        blue2: m.blueTeam2,
+        redScore: m.redScore,
+        blueScore: m.blueScore,
+        scoreDetails: {
+          matchLevel: "QUALIFICATION",
+          matchNumber: i + 1,
+          alliances: [
+            { alliance: "Red", totalPoints: m.redScore, autoPoints: 0, dcPoints: m.redScore, endgamePoints: 0, team1: 0, team2: 0 },
+            { alliance: "Blue", totalPoints: m.blueScore, autoPoints: 0, dcPoints: m.blueScore, endgamePoints: 0, team1: 0, team2: 0 },
+          ],
+        },
+        scheduledTime: null,
+        actualTime: null,
+        updatedAt: new Date(),
+      }))
+    );
+  });
+
+  async function createApp() {
+    const analytics = (await import("../../routes/analytics")).default;
+    const app = new Hono();
+    app.route("/api/analytics", analytics);
+    return app;
+  }
+
+  it("returns exact OPR rankings with breakdown components", async () => {
+    const app = await createApp();
+    const res = await app.request("/api/analytics/opr/EVT1");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.rankings.map((r: any) => r.teamNumber)).toEqual([4, 3, 2, 1]);
+    expect(body.data.rankings[0]).toMatchObject({ opr: 40, dpr: 10, ccwm: 30 });
+    expect(body.data.rankings[0].components.totalPoints).toBe(40);
+  });
+
+  it("applies the ridge parameter", async () => {
+    const app = await createApp();
+    const res = await app.request("/api/analytics/opr/EVT1?ridge=1");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.rankings[0].opr).toBe(35);
+  });
+
+  it("rejects a negative ridge parameter", async () => {
+    const app = await createApp();
+    const res = await app.request("/api/analytics/opr/EVT1?ridge=-1");
+    expect(res.status).toBe(400);
+  });
+});
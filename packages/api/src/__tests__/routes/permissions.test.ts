@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getTeam: vi.fn().mockResolvedValue({ teams: [] }),
+    getEventTeams: vi.fn().mockResolvedValue({ teams: [] }),
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+
+function authHeaders() {
+  return {
+    "Content-Type": "application/json",
+    Cookie: "authjs.session-token=valid-token",
+  };
+}
+
+function mockValidSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+function mockMembership(role: string, permissions: unknown = null) {
+  mockPrisma.teamMember.findUnique.mockResolvedValue({
+    id: "member-1",
+    userId: USER_ID,
+    teamId: TEAM_ID,
+    role,
+    team: { permissions },
+  });
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const scouting = (await import("../../routes/scouting")).default;
+  const app = new Hono();
+  app.use("/api/*", sanitizeInput);
+  app.use("/api/user-teams/*", authMiddleware);
+  app.use("/api/scouting/*", authMiddleware);
+  app.route("/api/user-teams", userTeams);
+  app.route("/api/scouting", scouting);
+  return app;
+}
+
+describe("Team permission matrix", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValidSession();
+    (mockPrisma as any).teamInvite = {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({ id: "invite-1", code: "abc" }),
+    };
+    (mockPrisma.team as any).update = vi.fn(async ({ data }: any) => ({
+      permissions: data.permissions,
+    }));
+  });
+
+  it("denies invites to a STUDENT by default", async () => {
+    mockMembership("STUDENT");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/invites`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({}),
+    });
+
+    expect(res.status).toBe(403);
+    expect((mockPrisma as any).teamInvite.create).not.toHaveBeenCalled();
+  });
+
+  it("allows invites to a STUDENT when the team grants manage-invites", async () => {
+    mockMembership("STUDENT", { STUDENT: { "manage-invites": true } });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/invites`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({}),
+    });
+
+    expect(res.status).toBe(200);
+    expect((mockPrisma as any).teamInvite.create).toHaveBeenCalled();
+  });
+
+  it("denies scouting to a STUDENT whose scout capability is revoked", async () => {
+    mockMembership("STUDENT", { STUDENT: { scout: false } });
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/notes", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ notingTeamId: TEAM_ID, aboutTeamNumber: 1234, eventCode: "USCALA" }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.scoutingNote.create).not.toHaveBeenCalled();
+  });
+
+  it("never gives FRIEND members write capabilities", async () => {
+    mockMembership("FRIEND", { FRIEND: { scout: true } });
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/notes", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ notingTeamId: TEAM_ID, aboutTeamNumber: 1234, eventCode: "USCALA" }),
+    });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("requires edit-others-entries to edit another scout's entry", async () => {
+    mockMembership("STUDENT");
+    mockPrisma.scoutingEntry.findUnique.mockResolvedValue({
+      id: "entry-1",
+      scouterId: "someone-else",
+      scoutingTeamId: TEAM_ID,
+      season: 2025,
+    });
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/entries/entry-1", {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ autoLeave: true }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.scoutingEntry.update).not.toHaveBeenCalled();
+  });
+
+  it("hides a team's own notes from FRIEND members unless granted view-notes", async () => {
+    (mockPrisma as any).ftcTeamEvent = { findMany: vi.fn().mockResolvedValue([]) };
+    (mockPrisma.scoutingNote as any).count = vi.fn().mockResolvedValue(0);
+    mockPrisma.scoutingNote.findMany.mockResolvedValue([]);
+    const membership = (permissions: unknown) => [
+      { teamId: TEAM_ID, role: "FRIEND", team: { teamNumber: 1234, permissions } },
+    ];
+    const noteTeamIds = () => {
+      const { where } = mockPrisma.scoutingNote.findMany.mock.calls.at(-1)![0];
+      return where.OR.flatMap((rule: any) => rule.notingTeamId?.in ?? []);
+    };
+    const app = await createApp();
+
+    (mockPrisma as any).teamMember.findMany = vi.fn().mockResolvedValue(membership(null));
+    await app.request("/api/scouting/notes", { headers: authHeaders() });
+    expect(noteTeamIds()).not.toContain(TEAM_ID);
+
+    (mockPrisma as any).teamMember.findMany = vi
+      .fn()
+      .mockResolvedValue(membership({ FRIEND: { "view-notes": true } }));
+    await app.request("/api/scouting/notes", { headers: authHeaders() });
+    expect(noteTeamIds()).toContain(TEAM_ID);
+  });
+
+  it("only shows invite codes to members who may manage invites", async () => {
+    mockMembership("STUDENT");
+    mockPrisma.team.findUnique.mockResolvedValue({
+      id: TEAM_ID,
+      members: [],
+      invites: [{ code: "secret-code" }],
+      media: [],
+    });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}`, { headers: authHeaders() });
+
+    expect(res.status).toBe(200);
+    const json = (await res.json()) as any;
+    expect(json.data.invites).toEqual([]);
+    expect(json.data.capabilities).toContain("scout");
+    expect(json.data.capabilities).not.toContain("manage-invites");
+  });
+
+  describe("PUT /:teamId/permissions", () => {
+    const put = async (overrides: unknown) => {
+      const app = await createApp();
+      return app.request(`/api/user-teams/${TEAM_ID}/permissions`, {
+        method: "PUT",
+        headers: authHeaders(),
+        body: JSON.stringify({ overrides }),
+      });
+    };
+
+    it("is limited to mentors", async () => {
+      mockMembership("LEADER");
+
+      const res = await put({ STUDENT: { export: true } });
+
+      expect(res.status).toBe(403);
+      expect((mockPrisma.team as any).update).not.toHaveBeenCalled();
+    });
+
+    it("stores overrides and returns the effective matrix", async () => {
+      mockMembership("MENTOR");
+
+      const res = await put({ STUDENT: { export: true, "manage-picklists": false } });
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as any;
+      expect(json.data.effective.STUDENT).toContain("export");
+      expect(json.data.effective.STUDENT).not.toContain("manage-picklists");
+      expect(json.data.effective.MENTOR).toContain("manage-picklists");
+    });
+
+    it("rejects write capabilities for FRIEND and overrides for MENTOR", async () => {
+      mockMembership("MENTOR");
+
+      expect((await put({ FRIEND: { scout: true } })).status).toBe(400);
+      expect((await put({ MENTOR: { scout: false } })).status).toBe(400);
+      expect((await put({ STUDENT: { "manage-everything": true } })).status).toBe(400);
+      expect((mockPrisma.team as any).update).not.toHaveBeenCalled();
+    });
+  });
+});
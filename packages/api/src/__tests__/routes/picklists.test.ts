@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import { rankPickListCandidates } from "../../lib/picklist";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockRejectedValue(new Error("offline")),
+    getEventTeams: vi.fn().mockResolvedValue({ teams: [] }),
+    getMatches: vi.fn().mockResolvedValue({ matches: [] }),
+    getScores: vi.fn().mockResolvedValue({ matchScores: [] }),
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+const LIST_ID = "list-1";
+const EVENT_CODE = "USTXCMP";
+
+const pickList = {
+  findUnique: vi.fn(),
+  findFirst: vi.fn(),
+  findMany: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+};
+const pickListEntry = {
+  findUnique: vi.fn(),
+  update: vi.fn(),
+  upsert: vi.fn(),
+  deleteMany: vi.fn(),
+  updateMany: vi.fn(),
+};
+
+function authHeaders() {
+  return {
+    "Content-Type": "application/json",
+    Cookie: "authjs.session-token=valid-token",
+    "X-User-Id": USER_ID,
+  };
+}
+
+function mockMember(role: string) {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+  mockPrisma.teamMember.findUnique.mockResolvedValue({ userId: USER_ID, teamId: TEAM_ID, role });
+}
+
+function scoutedEntry(teamNumber: number, totalScore: number) {
+  return {
+    id: `entry-${teamNumber}`,
+    scouterId: USER_ID,
+    scoutingTeamId: TEAM_ID,
+    scoutedTeamId: `team-${teamNumber}`,
+    eventCode: EVENT_CODE,
+    matchNumber: 1,
+    alliance: "RED",
+    season: 2025,
+    scoringData: null,
+    autoScore: 0,
+    teleopScore: totalScore,
+    endgameScore: 0,
+    totalScore,
+    createdAt: new Date("2026-03-01"),
+    scoutedTeam: { teamNumber },
+  };
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const app = new Hono();
+  app.use("/api/user-teams/*", sanitizeInput);
+  app.use("/api/user-teams/*", authMiddleware);
+  app.route("/api/user-teams", userTeams);
+  return app;
+}
+
+describe("rankPickListCandidates", () => {
+  it("combines standardised metrics and splits teams across tiers", () => {
+    const none = { epa: null, opr: null, scoutedAverage: null, scoutedMatches: 0, noteRating: null };
+    const seeds = rankPickListCandidates(
+      [
+        { teamNumber: 1, stats: { ...none, epa: 10, opr: 10 } },
+        { teamNumber: 2, stats: { ...none, epa: 0, opr: 0 } },
+        { teamNumber: 3, stats: { ...none, epa: 5 } },
+        { teamNumber: 4, stats: none },
+      ],
+      3
+    );
+
+    // EPA z-scores ±1.22, OPR ±1; weighted (0.35, 0.25) then renormalised
+    expect(seeds.map((s) => [s.teamNumber, s.seedScore])).toEqual([
+      [1, 1.13],
+      [3, 0],
+      [2, -1.13],
+      [4, null],
+    ]);
+    expect(seeds.map((s) => s.rank)).toEqual([0, 1, 2, 3]);
+    expect(seeds.map((s) => s.tier)).toEqual([0, 0, 1, 2]);
+  });
+});
+
+describe("Pick list routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockPrisma as any).pickList = pickList;
+    (mockPrisma as any).pickListEntry = pickListEntry;
+    (mockPrisma as any).scoutingNote.findMany = vi.fn().mockResolvedValue([]);
+    (mockPrisma as any).$transaction = vi.fn((arg: any) =>
+      typeof arg === "function" ? arg(mockPrisma) : Promise.all(arg)
+    );
+    (mockPrisma as any).ftcTeamEvent = {
+      findMany: vi.fn().mockResolvedValue([100, 1, 2, 3].map((teamNumber) => ({ teamNumber }))),
+    };
+    mockPrisma.event.findUnique.mockResolvedValue({ eventCode: EVENT_CODE, endDate: new Date("2026-03-02") });
+    mockPrisma.event.findMany.mockResolvedValue([]);
+    mockPrisma.match.findMany.mockResolvedValue([]);
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([]);
+  });
+
+  it("creates a list seeded from scouting data without the team itself", async () => {
+    mockMember("STUDENT");
+    pickList.findUnique.mockResolvedValue(null);
+    mockPrisma.team.findUnique.mockResolvedValue({ id: TEAM_ID, teamNumber: 100 });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      scoutedEntry(2, 80),
+      scoutedEntry(3, 40),
+      scoutedEntry(1, 60),
+    ]);
+    pickList.create.mockImplementation(({ data }: any) => Promise.resolve({ id: LIST_ID, ...data }));
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/picklists`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE }),
+    });
+
+    expect(res.status).toBe(201);
+    const created = pickList.create.mock.calls[0][0].data;
+    expect(created.tiers).toEqual(["First Pick", "Second Pick", "Backup"]);
+    expect(created.entries.create.map((e: any) => e.teamNumber)).toEqual([2, 1, 3]);
+    expect(created.entries.create[0]).toMatchObject({
+      tier: 0,
+      rank: 0,
+      stats: expect.objectContaining({ scoutedAverage: 80, scoutedMatches: 1 }),
+    });
+  });
+
+  it("rejects a second list for the same event", async () => {
+    mockMember("LEADER");
+    pickList.findUnique.mockResolvedValue({ id: LIST_ID });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/picklists`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ eventCode: EVENT_CODE }),
+    });
+
+    expect(res.status).toBe(409);
+    expect(pickList.create).not.toHaveBeenCalled();
+  });
+
+  it("does not let FRIEND members edit", async () => {
+    mockMember("FRIEND");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/picklists/${LIST_ID}/entries/2`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ picked: true }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(pickListEntry.update).not.toHaveBeenCalled();
+  });
+
+  it("marks a team as picked during selection", async () => {
+    mockMember("STUDENT");
+    pickList.findFirst.mockResolvedValue({ id: LIST_ID, teamId: TEAM_ID, eventCode: EVENT_CODE, tiers: ["A", "B"] });
+    pickListEntry.findUnique.mockResolvedValue({ id: "entry-2", teamNumber: 2 });
+    pickListEntry.update.mockResolvedValue({ id: "entry-2", teamNumber: 2, picked: true });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/picklists/${LIST_ID}/entries/2`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ picked: true }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(pickListEntry.update).toHaveBeenCalledWith({
+      where: { id: "entry-2" },
+      data: { picked: true },
+    });
+  });
+
+  it("replaces the ordering after a drag and drop", async () => {
+    mockMember("STUDENT");
+    pickList.findFirst.mockResolvedValue({ id: LIST_ID, teamId: TEAM_ID, eventCode: EVENT_CODE, tiers: ["A", "B"], entries: [] });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/picklists/${LIST_ID}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({
+        entries: [
+          { teamNumber: 3, tier: 0 },
+          { teamNumber: 1, tier: 1, doNotPick: true },
+        ],
+      }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(pickListEntry.deleteMany).toHaveBeenCalledWith({
+      where: { pickListId: LIST_ID, teamNumber: { notIn: [3, 1] } },
+    });
+    expect(pickListEntry.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { pickListId_teamNumber: { pickListId: LIST_ID, teamNumber: 1 } },
+        update: { tier: 1, rank: 1, doNotPick: true },
+      })
+    );
+  });
+
+  it("rejects duplicate teams and out-of-range tiers", async () => {
+    mockMember("STUDENT");
+    pickList.findFirst.mockResolvedValue({ id: LIST_ID, teamId: TEAM_ID, eventCode: EVENT_CODE, tiers: ["A", "B"] });
+
+    const app = await createApp();
+    const duplicate = await app.request(`/api/user-teams/${TEAM_ID}/picklists/${LIST_ID}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ entries: [{ teamNumber: 3 }, { teamNumber: 3 }] }),
+    });
+    const badTier = await app.request(`/api/user-teams/${TEAM_ID}/picklists/${LIST_ID}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ entries: [{ teamNumber: 3, tier: 2 }] }),
+    });
+
+    expect(duplicate.status).toBe(400);
+    expect(badTier.status).toBe(400);
+  });
+
+  it("only lets MENTOR/LEADER delete a list", async () => {
+    mockMember("STUDENT");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/picklists/${LIST_ID}`, {
+      method: "DELETE",
+      headers: { Cookie: "authjs.session-token=valid-token", "X-User-Id": USER_ID },
+    });
+
+    expect(res.status).toBe(403);
+    expect(pickList.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import type { EPAResult } from "../../lib/stats/epa";
+import {
+  estimateTeamVariances,
+  simulatePlayoffs,
+  type PlayedPlayoffMatch,
+} from "../../lib/stats/playoff-sim";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockRejectedValue(new Error("offline")),
+    getMatches: vi.fn().mockRejectedValue(new Error("offline")),
+    getScores: vi.fn().mockRejectedValue(new Error("offline")),
+  }),
+}));
+
+async function createApp() {
+  const { sanitizeInput } = await import("../../middleware/auth");
+  const analytics = (await import("../../routes/analytics")).default;
+  const app = new Hono();
+  app.use("/api/*", sanitizeInput);
+  app.route("/api/analytics", analytics);
+  return app;
+}
+
+function epas(values: Record<number, number>): Map<number, EPAResult> {
+  return new Map(
+    Object.entries(values).map(([team, epa]) => [
+      Number(team),
+      { teamNumber: Number(team), epa, autoEpa: 0, teleopEpa: 0, endgameEpa: 0, matchCount: 5 },
+    ])
+  );
+}
+
+const FOUR_ALLIANCES = [
+  { seed: 1, teams: [1, 2] },
+  { seed: 2, teams: [3, 4] },
+  { seed: 3, teams: [5, 6] },
+  { seed: 4, teams: [7, 8] },
+];
+
+function playoffRow(series: number, matchNumber: number, teams: number[], red: number, blue: number) {
+  return {
+    eventCode: "EVT1",
+    matchNumber,
+    matchSeries: series,
+    tournamentLevel: "PLAYOFF",
+    red1: teams[0],
+    red2: teams[1],
+    blue1: teams[2],
+    blue2: teams[3],
+    redScore: red,
+    blueScore: blue,
+    scoreDetails: {
+      matchLevel: "PLAYOFF",
+      matchNumber,
+      matchSeries: series,
+      alliances: [
+        { alliance: "Red", totalPoints: red, autoPoints: 0, dcPoints: red, endgamePoints: 0, team1: 0, team2: 0 },
+        { alliance: "Blue", totalPoints: blue, autoPoints: 0, dcPoints: blue, endgamePoints: 0, team1: 0, team2: 0 },
+      ],
+    },
+    scheduledTime: null,
+    actualTime: null,
+    updatedAt: new Date(),
+  };
+}
+
+describe("estimateTeamVariances", () => {
+  it("shrinks each robot's residual variance toward the spread prior", () => {
+    const { variances, prior } = estimateTeamVariances(
+      [{ matchNumber: 1, redTeam1: 1, redTeam2: 2, blueTeam1: 3, blueTeam2: 4, redScore: 120, blueScore: 100 }],
+      new Map(),
+      100,
+      20
+    );
+
+    // prior = 20² / 4; red residual 20 -> each robot charged 20² / 2
+    expect(prior).toBe(100);
+    expect(variances.get(1)).toBe((200 + 3 * 100) / 4);
+    expect(variances.get(3)).toBe((0 + 3 * 100) / 4);
+  });
+});
+
+describe("simulatePlayoffs", () => {
+  it("gives evenly matched alliances similar title odds that sum to one", () => {
+    const result = simulatePlayoffs(FOUR_ALLIANCES, new Map(), { simulations: 4000, seed: 7 });
+
+    const total = result.alliances.reduce((sum, a) => sum + a.winProbability, 0);
+    expect(total).toBeCloseTo(1, 6);
+    for (const alliance of result.alliances) {
+      expect(alliance.roundProbabilities[0]).toBe(1);
+      // Everyone survives round 1 of a double-elimination bracket
+      expect(alliance.roundProbabilities[1]).toBe(1);
+      expect(alliance.winProbability).toBeGreaterThan(0.15);
+      expect(alliance.winProbability).toBeLessThan(0.35);
+    }
+    expect(result.rounds).toEqual(["Round 1", "Round 2", "Round 3", "Finals"]);
+  });
+
+  it("favours the strongest alliance and is reproducible with a seed", () => {
+    const ratings = epas({ 1: 60, 2: 60, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0 });
+    const first = simulatePlayoffs(FOUR_ALLIANCES, ratings, { simulations: 2000, seed: 42 });
+    const second = simulatePlayoffs(FOUR_ALLIANCES, ratings, { simulations: 2000, seed: 42 });
+
+    expect(first).toEqual(second);
+    expect(first.alliances[0].winProbability).toBeGreaterThan(0.9);
+    expect(first.alliances[0].epa).toBe(120);
+  });
+
+  it("plays only the two strongest robots of a three-team alliance", () => {
+    const result = simulatePlayoffs(
+      [
+        { seed: 1, teams: [1, 2, 9] },
+        { seed: 2, teams: [3, 4] },
+      ],
+      epas({ 1: 10, 2: 5, 9: 30 }),
+      { simulations: 100, seed: 1 }
+    );
+    expect(result.alliances[0].playingTeams).toEqual([9, 1]);
+  });
+
+  it("conditions on playoff matches already played", () => {
+    // Alliance 4 upset alliance 1 in match 1, then alliance 2 beat alliance 3
+    const played: PlayedPlayoffMatch[] = [
+      { series: 1, matchNumber: 1, redTeams: [1, 2], blueTeams: [7, 8], redScore: 50, blueScore: 80 },
+      { series: 2, matchNumber: 1, redTeams: [3, 4], blueTeams: [5, 6], redScore: 90, blueScore: 40 },
+    ];
+    const result = simulatePlayoffs(FOUR_ALLIANCES, new Map(), { simulations: 1000, seed: 3, played });
+
+    const byId = new Map(result.matches.map((m) => [m.id, m]));
+    expect(result.playedMatches).toBe(2);
+    expect(byId.get("M1")!.winnerSeed).toBe(4);
+    expect(byId.get("M2")!.winnerSeed).toBe(2);
+    expect(byId.get("M3")!.participants.map((p) => p.seed).sort()).toEqual([1, 3]);
+    expect(byId.get("M4")!.participants.map((p) => p.seed).sort()).toEqual([2, 4]);
+    expect(byId.get("M4")!.winnerSeed).toBeNull();
+  });
+
+  it("rejects unsupported alliance counts", () => {
+    expect(() => simulatePlayoffs(FOUR_ALLIANCES.slice(0, 3), new Map())).toThrow();
+  });
+});
+
+describe("POST /api/analytics/playoff-sim", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.event.findUnique.mockResolvedValue({ endDate: new Date("2026-03-02") });
+    mockPrisma.match.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(
+        where.tournamentLevel === "PLAYOFF" ? [playoffRow(1, 1, [7, 8, 1, 2], 80, 60)] : []
+      )
+    );
+  });
+
+  it("simulates the bracket using stored playoff results", async () => {
+    const app = await createApp();
+    const res = await app.request("/api/analytics/playoff-sim", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        eventCode: "EVT1",
+        alliances: FOUR_ALLIANCES.map((a) => ({ teams: a.teams })),
+        simulations: 500,
+        seed: 11,
+      }),
+    });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.simulations).toBe(500);
+    expect(body.data.playedMatches).toBe(1);
+    expect(body.data.matches[0]).toMatchObject({ id: "M1", winnerSeed: 4 });
+    expect(body.data.warning).toBeDefined();
+  });
+
+  it("rejects brackets it cannot build", async () => {
+    const app = await createApp();
+    const threeAlliances = await app.request("/api/analytics/playoff-sim", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ eventCode: "EVT1", alliances: [{ teams: [1] }, { teams: [2] }, { teams: [3] }] }),
+    });
+    const sharedTeam = await app.request("/api/analytics/playoff-sim", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ eventCode: "EVT1", alliances: [{ teams: [1, 2] }, { teams: [2, 3] }] }),
+    });
+
+    expect(threeAlliances.status).toBe(400);
+    expect(sharedTeam.status).toBe(400);
+  });
+});
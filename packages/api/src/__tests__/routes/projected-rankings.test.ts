@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import type { EPAResult } from "../../lib/stats/epa";
+import {
+  matchesNotInStandings,
+  projectRankings,
+  standingsFromMatches,
+  standingsFromRankings,
+  type TeamStanding,
+} from "../../lib/stats/rank-projection";
+
+const getSchedule = vi.fn();
+const getRankings = vi.fn();
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockRejectedValue(new Error("offline")),
+    getMatches: vi.fn().mockRejectedValue(new Error("offline")),
+    getScores: vi.fn().mockRejectedValue(new Error("offline")),
+    getSchedule,
+    getRankings,
+  }),
+}));
+
+async function createApp() {
+  const analytics = (await import("../../routes/analytics")).default;
+  const app = new Hono();
+  app.route("/api/analytics", analytics);
+  return app;
+}
+
+const RULES = { winPoints: 3, tiePoints: 1, maxBonusPoints: 3 };
+
+function standing(teamNumber: number, rank: number, rankingPoints: number): TeamStanding {
+  return { teamNumber, rank, matchesPlayed: 2, rankingPoints, scoreTotal: 100, bonusRate: 0 };
+}
+
+function epas(values: Record<number, number>): Map<number, EPAResult> {
+  return new Map(
+    Object.entries(values).map(([team, epa]) => [
+      Number(team),
+      { teamNumber: Number(team), epa, autoEpa: 0, teleopEpa: 0, endgameEpa: 0, matchCount: 5 },
+    ])
+  );
+}
+
+function scheduleMatch(matchNumber: number, teams: number[]) {
+  return {
+    matchNumber,
+    tournamentLevel: "QUALIFICATION",
+    description: `Qualification ${matchNumber}`,
+    startTime: "",
+    actualStartTime: null,
+    postResultTime: null,
+    modifiedOn: "",
+    teams: ["Red1", "Red2", "Blue1", "Blue2"].map((station, i) => ({
+      teamNumber: teams[i],
+      station,
+      surrogate: false,
+      dq: false,
+    })),
+  };
+}
+
+describe("standings", () => {
+  it("derives bonus RP rates from the official rankings", () => {
+    const [team] = standingsFromRankings(
+      [{ rank: 1, teamNumber: 100, matchesPlayed: 4, wins: 3, ties: 1, qualAverage: 80, sortOrder1: 3.5 }],
+      RULES
+    );
+
+    // 14 RP total, 10 from the record, 4 bonus over 4 matches
+    expect(team).toMatchObject({ rankingPoints: 14, scoreTotal: 320, bonusRate: 1 });
+  });
+
+  it("rebuilds win/tie RPs from played matches", () => {
+    const standings = standingsFromMatches(
+      [
+        { matchNumber: 1, redTeam1: 1, redTeam2: 2, blueTeam1: 3, blueTeam2: 4, redScore: 50, blueScore: 40 },
+        { matchNumber: 2, redTeam1: 1, redTeam2: 3, blueTeam1: 2, blueTeam2: 4, redScore: 30, blueScore: 30 },
+      ],
+      RULES
+    );
+    const byTeam = new Map(standings.map((s) => [s.teamNumber, s]));
+
+    expect(byTeam.get(1)).toMatchObject({ matchesPlayed: 2, rankingPoints: 4, scoreTotal: 80 });
+    expect(byTeam.get(4)).toMatchObject({ matchesPlayed: 2, rankingPoints: 1, scoreTotal: 70 });
+  });
+});
+
+describe("matchesNotInStandings", () => {
+  it("drops the matches each team's played count covers", () => {
+    const schedule = [
+      { matchNumber: 3, redTeams: [1, 3], blueTeams: [2, 4] },
+      { matchNumber: 1, redTeams: [1, 2], blueTeams: [3, 4] },
+      { matchNumber: 2, redTeams: [5, 6], blueTeams: [7, 8] },
+    ];
+    const standings = [1, 2, 3, 4, 5, 6, 7, 8].map((team) => ({
+      ...standing(team, team, 0),
+      matchesPlayed: team <= 4 ? 1 : 0,
+    }));
+
+    expect(matchesNotInStandings(schedule, standings).map((m) => m.matchNumber)).toEqual([2, 3]);
+  });
+
+  it("ignores surrogate appearances", () => {
+    const schedule = [
+      { matchNumber: 1, redTeams: [1, 2], blueTeams: [3, 4], surrogates: [2] },
+      { matchNumber: 2, redTeams: [2, 3], blueTeams: [1, 4] },
+    ];
+    // Team 2's surrogate match doesn't count toward its played matches
+    const standings = [1, 2, 3, 4].map((team) => ({
+      ...standing(team, team, 0),
+      matchesPlayed: team === 2 ? 0 : 1,
+    }));
+
+    expect(matchesNotInStandings(schedule, standings).map((m) => m.matchNumber)).toEqual([2]);
+  });
+});
+
+describe("projectRankings", () => {
+  it("keeps the current order when no matches remain", () => {
+    const result = projectRankings(
+      [standing(1, 1, 6), standing(2, 2, 3), standing(3, 3, 0)],
+      [],
+      new Map(),
+      { simulations: 200, seed: 1, top: 2, rules: RULES }
+    );
+
+    expect(result.teams.map((t) => t.teamNumber)).toEqual([1, 2, 3]);
+    expect(result.teams[0].rankProbabilities).toEqual([1, 0, 0]);
+    expect(result.teams.map((t) => t.topProbability)).toEqual([1, 1, 0]);
+    expect(result.teams[0].expectedRankingPoints).toBe(6);
+  });
+
+  it("lets a strong team climb over its remaining matches", () => {
+    const standings = [1, 2, 3, 4, 5, 6, 7, 8].map((team, i) => standing(team, i + 1, 8 - i));
+    const remaining = [
+      { matchNumber: 9, redTeams: [8, 7], blueTeams: [1, 2] },
+      { matchNumber: 10, redTeams: [8, 6], blueTeams: [3, 4] },
+      { matchNumber: 11, redTeams: [8, 5], blueTeams: [2, 3] },
+    ];
+    const result = projectRankings(standings, remaining, epas({ 8: 100 }), {
+      simulations: 1000,
+      seed: 5,
+      rules: RULES,
+    });
+    const team8 = result.teams.find((t) => t.teamNumber === 8)!;
+
+    expect(result.remainingMatches).toBe(3);
+    expect(team8.remainingMatches).toBe(3);
+    expect(team8.expectedRank).toBeLessThan(4);
+    const total = team8.rankProbabilities.reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1, 3);
+  });
+
+  it("does not count surrogate appearances", () => {
+    const result = projectRankings(
+      [standing(1, 1, 0), standing(2, 2, 0), standing(3, 3, 0), standing(4, 4, 0)],
+      [{ matchNumber: 5, redTeams: [1, 2], blueTeams: [3, 4], surrogates: [2] }],
+      new Map(),
+      { simulations: 100, seed: 2, rules: RULES }
+    );
+
+    const byTeam = new Map(result.teams.map((t) => [t.teamNumber, t]));
+    expect(byTeam.get(2)!.remainingMatches).toBe(0);
+    expect(byTeam.get(1)!.remainingMatches).toBe(1);
+  });
+});
+
+describe("GET /api/analytics/event/:eventCode/projected-rankings", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.event.findUnique.mockResolvedValue({ endDate: new Date("2026-03-02") });
+    mockPrisma.match.findMany.mockResolvedValue([]);
+  });
+
+  it("simulates the unplayed schedule from the official rankings", async () => {
+    getSchedule.mockResolvedValue({
+      schedule: [scheduleMatch(1, [1, 2, 3, 4]), scheduleMatch(2, [1, 3, 2, 4])],
+    });
+    getRankings.mockResolvedValue({
+      Rankings: [1, 2, 3, 4].map((teamNumber, i) => ({
+        rank: i + 1,
+        teamNumber,
+        matchesPlayed: 0,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        qualAverage: 0,
+        sortOrder1: 0,
+      })),
+    });
+
+    const app = await createApp();
+    const res = await app.request(
+      "/api/analytics/event/EVT1/projected-rankings?simulations=500&top=2&seed=9"
+    );
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({ simulations: 500, remainingMatches: 2, top: 2, rankingsSource: "official" });
+    expect(body.data.teams).toHaveLength(4);
+    const topTotal = body.data.teams.reduce((sum: number, t: any) => sum + t.topProbability, 0);
+    expect(topTotal).toBeCloseTo(2, 3);
+  });
+
+  it("does not simulate matches the rankings already count when stored results lag", async () => {
+    getSchedule.mockResolvedValue({
+      schedule: [scheduleMatch(1, [1, 2, 3, 4]), scheduleMatch(2, [1, 3, 2, 4])],
+    });
+    // Live rankings include match 1; no stored or API results exist yet
+    getRankings.mockResolvedValue({
+      Rankings: [1, 2, 3, 4].map((teamNumber, i) => ({
+        rank: i + 1,
+        teamNumber,
+        matchesPlayed: 1,
+        wins: i < 2 ? 1 : 0,
+        losses: i < 2 ? 0 : 1,
+        ties: 0,
+        qualAverage: 50,
+        sortOrder1: i < 2 ? 3 : 0,
+      })),
+    });
+
+    const app = await createApp();
+    const res = await app.request("/api/analytics/event/EVT1/projected-rankings?simulations=500&seed=9");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.remainingMatches).toBe(1);
+    expect(body.data.teams.every((t: any) => t.remainingMatches === 1)).toBe(true);
+  });
+
+  it("returns 404 without a schedule", async () => {
+    getSchedule.mockRejectedValue(new Error("offline"));
+    getRankings.mockRejectedValue(new Error("offline"));
+
+    const app = await createApp();
+    const res = await app.request("/api/analytics/event/EVT1/projected-rankings");
+    expect(res.status).toBe(404);
+  });
+
+  it("validates the simulation count", async () => {
+    const app = await createApp();
+    const res = await app.request("/api/analytics/event/EVT1/projected-rankings?simulations=5");
+    expect(res.status).toBe(400);
+  });
+});
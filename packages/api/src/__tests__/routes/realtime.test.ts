@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+const mockTrigger = vi.fn();
+const mockAuthorizeChannel = vi.fn();
+
+vi.mock("pusher", () => ({
+  default: vi.fn(function () {
+    return { trigger: mockTrigger, authorizeChannel: mockAuthorizeChannel };
+  }),
+}));
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockRejectedValue(new Error("mocked")),
+    getScores: vi.fn().mockRejectedValue(new Error("mocked")),
+  }),
+}));
+
+process.env.SOKETI_APP_ID = "test-app";
+process.env.SOKETI_APP_KEY = "test-key";
+process.env.SOKETI_APP_SECRET = "test-secret";
+
+const USER_ID = "user-123";
+const TEAM_ID = "team-abc";
+
+function mockValidSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const realtime = (await import("../../routes/realtime")).default;
+  const scouting = (await import("../../routes/scouting")).default;
+  const app = new Hono();
+  app.use("/api/*", sanitizeInput);
+  app.use("/api/realtime/*", authMiddleware);
+  app.use("/api/scouting/*", authMiddleware);
+  app.route("/api/realtime", realtime);
+  app.route("/api/scouting", scouting);
+  return app;
+}
+
+async function authorize(channelName: string, cookie = "authjs.session-token=valid-token") {
+  const app = await createApp();
+  return app.request("/api/realtime/auth", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Cookie: cookie },
+    body: JSON.stringify({ socket_id: "123.456", channel_name: channelName }),
+  });
+}
+
+describe("Realtime channel auth", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthorizeChannel.mockReturnValue({ auth: "test-key:signature" });
+  });
+
+  it("returns 401 without a session", async () => {
+    const res = await authorize(`private-team-${TEAM_ID}`, "");
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 403 when the user is not a member of the channel's team", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue(null);
+
+    const res = await authorize(`private-team-${TEAM_ID}`);
+    expect(res.status).toBe(403);
+    expect(mockAuthorizeChannel).not.toHaveBeenCalled();
+  });
+
+  it("rejects channels that are not team channels", async () => {
+    mockValidSession();
+    const res = await authorize("private-admin");
+    expect(res.status).toBe(400);
+  });
+
+  it("ignores a spoofed X-User-Id header", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue(null);
+
+    const app = await createApp();
+    const res = await app.request("/api/realtime/auth", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: "authjs.session-token=valid-token",
+        "X-User-Id": "someone-else",
+      },
+      body: JSON.stringify({ socket_id: "123.456", channel_name: `private-team-${TEAM_ID}` }),
+    });
+    expect(res.status).toBe(403);
+    expect(mockPrisma.teamMember.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId_teamId: { userId: USER_ID, teamId: TEAM_ID } },
+      })
+    );
+  });
+
+  it("returns 403 for a FRIEND whose team revoked view-scouting", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue({
+      userId: USER_ID,
+      teamId: TEAM_ID,
+      role: "FRIEND",
+      team: { permissions: { FRIEND: { "view-scouting": false } } },
+    });
+
+    const res = await authorize(`private-team-${TEAM_ID}`);
+    expect(res.status).toBe(403);
+    expect(mockAuthorizeChannel).not.toHaveBeenCalled();
+  });
+
+  it("signs the subscription for team members", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue({
+      userId: USER_ID,
+      teamId: TEAM_ID,
+      role: "STUDENT",
+    });
+
+    const res = await authorize(`private-team-${TEAM_ID}`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ auth: "test-key:signature" });
+    expect(mockAuthorizeChannel).toHaveBeenCalledWith("123.456", `private-team-${TEAM_ID}`);
+  });
+});
+
+describe("Realtime publishing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTrigger.mockResolvedValue({});
+    (mockPrisma as any).event = {
+      findUnique: vi.fn().mockResolvedValue({ eventCode: "USTXCMP" }),
+      create: vi.fn(),
+    };
+  });
+
+  it("publishes note-created on the noting team's channel", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue({
+      userId: USER_ID,
+      teamId: TEAM_ID,
+      role: "STUDENT",
+    });
+    mockPrisma.team.findUnique.mockResolvedValue({ id: "about-team", teamNumber: 8569 });
+    mockPrisma.scoutingNote.create.mockResolvedValue({
+      id: "note-1",
+      eventCode: "USTXCMP",
+    });
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/notes", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: "authjs.session-token=valid-token",
+        "X-User-Id": USER_ID,
+      },
+      body: JSON.stringify({
+        aboutTeamNumber: 8569,
+        eventCode: "USTXCMP",
+        notingTeamId: TEAM_ID,
+        generalNotes: "Fast",
+      }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(mockTrigger).toHaveBeenCalledWith(
+      `private-team-${TEAM_ID}`,
+      "note-created",
+      expect.objectContaining({ id: "note-1", teamNumber: 8569 })
+    );
+  });
+
+  it("still succeeds when publishing fails", async () => {
+    mockTrigger.mockRejectedValue(new Error("soketi down"));
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue({
+      userId: USER_ID,
+      teamId: TEAM_ID,
+      role: "STUDENT",
+    });
+    mockPrisma.team.findUnique.mockResolvedValue({ id: "about-team", teamNumber: 8569 });
+    mockPrisma.scoutingNote.create.mockResolvedValue({ id: "note-2", eventCode: "USTXCMP" });
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/notes", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: "authjs.session-token=valid-token",
+        "X-User-Id": USER_ID,
+      },
+      body: JSON.stringify({ aboutTeamNumber: 8569, eventCode: "USTXCMP", notingTeamId: TEAM_ID }),
+    });
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+import {
+  getAlliancePhasePoints,
+  scoreScoutAccuracy,
+  type AccuracyEntry,
+  type OfficialAllianceScore,
+} from "../../lib/scout-accuracy";
+
+const mockGetScores = vi.fn();
+const mockGetMatches = vi.fn();
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getEvent: vi.fn().mockRejectedValue(new Error("offline")),
+    getScores: mockGetScores,
+    getMatches: mockGetMatches,
+  }),
+}));
+
+const TEAM_ID = "team-uuid-1234";
+const USER_ID = "user-123";
+const EVENT_CODE = "USTXCMP";
+
+let createdAt = 0;
+
+function entry(
+  scouterId: string,
+  matchNumber: number,
+  teamNumber: number,
+  scores: [number, number, number],
+  alliance = "RED"
+): AccuracyEntry {
+  const [autoScore, teleopScore, endgameScore] = scores;
+  return {
+    id: `entry-${scouterId}-${matchNumber}-${teamNumber}`,
+    scouterId,
+    eventCode: EVENT_CODE,
+    matchNumber,
+    alliance,
+    teamNumber,
+    autoScore,
+    teleopScore,
+    endgameScore,
+    totalScore: autoScore + teleopScore + endgameScore,
+    createdAt: new Date(Date.UTC(2026, 2, 1, 0, 0, createdAt++)),
+  };
+}
+
+function official(matchNumber: number, auto: number, teleop: number, endgame: number): OfficialAllianceScore {
+  return {
+    eventCode: EVENT_CODE,
+    matchNumber,
+    alliance: "RED",
+    teams: [1, 2],
+    auto,
+    teleop,
+    endgame,
+    total: auto + teleop + endgame,
+  };
+}
+
+function authHeaders() {
+  return {
+    "Content-Type": "application/json",
+    Cookie: "authjs.session-token=valid-token",
+    "X-User-Id": USER_ID,
+  };
+}
+
+// permissions: the team's role capability overrides
+function mockMember(role: string, permissions?: Record<string, Record<string, boolean>>) {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+  mockPrisma.teamMember.findUnique.mockResolvedValue({
+    userId: USER_ID,
+    teamId: TEAM_ID,
+    role,
+    team: { permissions: permissions ?? null },
+  });
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const app = new Hono();
+  app.use("/api/user-teams/*", sanitizeInput);
+  app.use("/api/user-teams/*", authMiddleware);
+  app.route("/api/user-teams", userTeams);
+  return app;
+}
+
+describe("scoreScoutAccuracy", () => {
+  it("compares the scouted alliance sum with the official phase points", () => {
+    const report = scoreScoutAccuracy(
+      [entry("a", 1, 1, [10, 20, 5]), entry("b", 1, 2, [6, 14, 5])],
+      [official(1, 15, 30, 10)]
+    );
+
+    const a = report.scouts.find((s) => s.scouterId === "a")!;
+    expect(a.history[0].error).toEqual({ auto: 1, teleop: 4, endgame: 0, total: 5 });
+    expect(a.history[0].partnerTeamNumber).toBe(2);
+    expect(report.matchesCompared).toBe(2);
+  });
+
+  it("skips robots whose partner was not scouted", () => {
+    const report = scoreScoutAccuracy([entry("a", 1, 1, [10, 20, 5])], [official(1, 15, 30, 10)]);
+    expect(report.scouts).toEqual([]);
+  });
+
+  it("flags scouts far above the team median and suggests weights", () => {
+    const entries: AccuracyEntry[] = [];
+    const scores: OfficialAllianceScore[] = [];
+    for (let m = 1; m <= 5; m++) {
+      scores.push(official(m, 10, 40, 10), { ...official(m, 10, 40, 10), alliance: "BLUE", teams: [3, 4] });
+      // Exact partner scouting on both alliances
+      entries.push(entry("partner", m, 2, [5, 20, 5]), entry("partner", m, 4, [5, 20, 5], "BLUE"));
+      entries.push(entry("good", m, 1, [5, 20, 5]));
+      entries.push(entry("okay", m, 3, [5, 26, 5], "BLUE"));
+      entries.push(entry("sloppy", m, 1, [5, 40, 5]));
+    }
+
+    const report = scoreScoutAccuracy(entries, scores);
+    const byId = Object.fromEntries(report.scouts.map((s) => [s.scouterId, s]));
+
+    // The partner scout is graded too: 10 off on red (against the median of
+    // good and sloppy) and 6 off on blue
+    expect(byId.partner.meanAbsoluteError.total).toBe(8);
+    expect(report.teamMedianError).toBe(7);
+    expect(byId.sloppy).toMatchObject({ needsRetraining: true, suggestedWeight: 0.5, bias: 20 });
+    expect(byId.good).toMatchObject({ needsRetraining: false, suggestedWeight: 2 });
+    expect(byId.okay.suggestedWeight).toBe(1);
+    // Worst first
+    expect(report.scouts[0].scouterId).toBe("sloppy");
+  });
+
+  it("reads DECODE phase fields", () => {
+    expect(
+      getAlliancePhasePoints({ alliance: "Red", autoPoints: 12, teleopPoints: 30, teleopBasePoints: 10 } as any)
+    ).toEqual({ auto: 12, teleop: 30, endgame: 10 });
+    expect(getAlliancePhasePoints({ alliance: "Red", totalPoints: 50 } as any)).toBeNull();
+  });
+});
+
+describe("Scout accuracy routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockPrisma as any).user.findMany = vi.fn().mockResolvedValue([
+      { id: USER_ID, name: "Test", image: null },
+      { id: "other", name: "Other", image: null },
+    ]);
+    (mockPrisma as any).teamMember.updateMany = vi.fn().mockResolvedValue({ count: 1 });
+    (mockPrisma as any).$transaction = vi.fn((arg: any) =>
+      typeof arg === "function" ? arg(mockPrisma) : Promise.all(arg)
+    );
+    mockPrisma.event.findUnique.mockResolvedValue(null);
+    mockPrisma.match.findMany.mockResolvedValue([]);
+    mockGetMatches.mockResolvedValue({
+      matches: [
+        {
+          matchNumber: 1,
+          teams: [
+            { teamNumber: 1, station: "Red1" },
+            { teamNumber: 2, station: "Red2" },
+          ],
+        },
+      ],
+    });
+    mockGetScores.mockResolvedValue({
+      matchScores: [
+        {
+          matchNumber: 1,
+          alliances: [
+            { alliance: "Red", team1: 0, team2: 0, autoPoints: 15, teleopPoints: 30, teleopBasePoints: 10 },
+          ],
+        },
+      ],
+    });
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([
+      { ...entry(USER_ID, 1, 1, [10, 20, 5]), scoutedTeam: { teamNumber: 1 } },
+      { ...entry("other", 1, 2, [5, 10, 5]), scoutedTeam: { teamNumber: 2 } },
+    ]);
+  });
+
+  it("only shows a student their own accuracy", async () => {
+    mockMember("STUDENT");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/accuracy?eventCode=${EVENT_CODE}`, {
+      headers: authHeaders(),
+    });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.scouts).toHaveLength(1);
+    expect(body.data.scouts[0]).toMatchObject({
+      scouterId: USER_ID,
+      matches: 1,
+      meanAbsoluteError: { auto: 0, teleop: 0, endgame: 0, total: 0 },
+      scouter: { name: "Test" },
+    });
+    expect(mockPrisma.scoutingEntry.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ deducted: false }) })
+    );
+  });
+
+  it("shows mentors every scout", async () => {
+    mockMember("MENTOR");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/accuracy`, { headers: authHeaders() });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.scouts.map((s: any) => s.scouterId).sort()).toEqual(["other", USER_ID].sort());
+    expect(body.data.eventCodes).toEqual([EVENT_CODE]);
+  });
+
+  it("hides accuracy from members whose team revoked view-scouting", async () => {
+    mockMember("STUDENT", { STUDENT: { "view-scouting": false } });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/accuracy`, { headers: authHeaders() });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("shows every scout to a STUDENT granted manage-members", async () => {
+    mockMember("STUDENT", { STUDENT: { "manage-members": true } });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/accuracy`, { headers: authHeaders() });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data.scouts).toHaveLength(2);
+  });
+
+  it("only lets members who can manage members apply weights", async () => {
+    mockMember("STUDENT");
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/accuracy/apply-weights`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({}),
+    });
+
+    expect(res.status).toBe(403);
+    expect((mockPrisma as any).teamMember.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -161,4 +161,80 @@ describe("Scouting route auth", () => {
     const json = await res.json();
     expect(json.success).toBe(true);
   });
+
+  it("returns 403 when a STUDENT relays another scout's entry", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue({
+      userId: USER_ID,
+      teamId: VALID_TEAM_ID,
+      role: "STUDENT",
+    });
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/entries", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: "authjs.session-token=valid-token",
+      },
+      body: JSON.stringify({ ...validPayload(), scouterId: "other-scout" }),
+    });
+    expect(res.status).toBe(403);
+    expect(mockPrisma.scoutingEntry.create).not.toHaveBeenCalled();
+  });
+
+  it("keeps the original scouter when a LEADER relays an entry", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockImplementation(async ({ where }: any) => ({
+      userId: where.userId_teamId.userId,
+      teamId: VALID_TEAM_ID,
+      role: where.userId_teamId.userId === USER_ID ? "LEADER" : "STUDENT",
+    }));
+    mockPrisma.team.findUnique.mockResolvedValue({
+      id: SCOUTED_TEAM_ID,
+      teamNumber: 8569,
+    });
+    (mockPrisma as any).event.findUnique.mockResolvedValue({ eventCode: "USTXCMP" });
+    mockPrisma.scoutingEntry.create.mockResolvedValue({ id: "entry-1", ...validPayload() });
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/entries?autoDeduct=false", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: "authjs.session-token=valid-token",
+      },
+      body: JSON.stringify({ ...validPayload(), scouterId: "other-scout" }),
+    });
+    expect(res.status).toBe(200);
+    expect(mockPrisma.scoutingEntry.create.mock.calls[0][0].data.scouterId).toBe("other-scout");
+  });
+
+  it("returns 409 when the author already wrote a note about the team at the event", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValue({
+      userId: USER_ID,
+      teamId: VALID_TEAM_ID,
+      role: "STUDENT",
+    });
+    mockPrisma.team.findUnique.mockResolvedValue({ id: SCOUTED_TEAM_ID, teamNumber: 8569 });
+    (mockPrisma as any).event.findUnique.mockResolvedValue({ eventCode: "USTXCMP" });
+    mockPrisma.scoutingNote.create.mockRejectedValue(
+      Object.assign(new Error("Unique constraint"), { code: "P2002" })
+    );
+
+    const app = await createApp();
+    const res = await app.request("/api/scouting/notes", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: "authjs.session-token=valid-token",
+      },
+      body: JSON.stringify({ notingTeamId: VALID_TEAM_ID, aboutTeamNumber: 8569, eventCode: "USTXCMP" }),
+    });
+    expect(res.status).toBe(409);
+    expect(res.headers.has("Retry-After")).toBe(false);
+    const json = (await res.json()) as any;
+    expect(json.error).toContain("already");
+  });
 });
@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+const mockGetEventTeams = vi.fn();
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getScores: vi.fn().mockRejectedValue(new Error("mocked")),
+    getEventTeams: mockGetEventTeams,
+  }),
+}));
+
+const USER_ID = "user-123";
+const MY_TEAM_ID = "my-team";
+const MY_TEAM_NUMBER = 8569;
+const OTHER_TEAM_ID = "other-team";
+const OTHER_TEAM_NUMBER = 11111;
+const EVENT_CODE = "USTXCMP";
+
+// FtcTeamEvent cache rows used by the mocked prisma.ftcTeamEvent.findMany
+let rosterRows: { teamNumber: number; eventCode: string }[] = [];
+
+function mockValidSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Test", email: "test@test.com" },
+  });
+}
+
+function otherTeam(sharingLevel: "PRIVATE" | "EVENT" | "PUBLIC") {
+  return { id: OTHER_TEAM_ID, teamNumber: OTHER_TEAM_NUMBER, sharingLevel };
+}
+
+async function createApp() {
+  const { authMiddleware, sanitizeInput } = await import("../../middleware/auth");
+  const scouting = (await import("../../routes/scouting")).default;
+  const app = new Hono();
+  app.use("/api/scouting/*", sanitizeInput);
+  app.use("/api/scouting/*", authMiddleware);
+  app.route("/api/scouting", scouting);
+  return app;
+}
+
+async function get(path: string) {
+  const app = await createApp();
+  return app.request(path, {
+    headers: {
+      Cookie: "authjs.session-token=valid-token",
+      "X-User-Id": USER_ID,
+    },
+  });
+}
+
+function findEventCondition(or: Record<string, any>[], owner: string): Record<string, any> | undefined {
+  return or.find((cond) => cond[owner]?.sharingLevel === "EVENT");
+}
+
+describe("EVENT sharing level", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rosterRows = [];
+    mockValidSession();
+
+    (mockPrisma as any).teamMember.findMany = vi.fn().mockResolvedValue([
+      { teamId: MY_TEAM_ID, role: "STUDENT", team: { teamNumber: MY_TEAM_NUMBER } },
+    ]);
+    (mockPrisma as any).ftcTeamEvent = {
+      findMany: vi.fn(async ({ where }: { where: Record<string, any> }) => {
+        return rosterRows.filter((row) => {
+          if (typeof where.eventCode === "string" && row.eventCode !== where.eventCode) return false;
+          if (where.eventCode?.in && !where.eventCode.in.includes(row.eventCode)) return false;
+          if (where.teamNumber?.in && !where.teamNumber.in.includes(row.teamNumber)) return false;
+          return true;
+        });
+      }),
+    };
+    (mockPrisma as any).scoutingEntry.count = vi.fn().mockResolvedValue(0);
+    (mockPrisma as any).scoutingNote.count = vi.fn().mockResolvedValue(0);
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([]);
+    mockPrisma.scoutingNote.findMany.mockResolvedValue([]);
+    mockGetEventTeams.mockRejectedValue(new Error("mocked"));
+  });
+
+  describe("GET /entries/:id", () => {
+    function mockEntry(sharingLevel: "PRIVATE" | "EVENT" | "PUBLIC", scoutingTeamId = OTHER_TEAM_ID) {
+      mockPrisma.scoutingEntry.findUnique.mockResolvedValue({
+        id: "entry-1",
+        eventCode: EVENT_CODE,
+        scoutingTeamId,
+        scoutingTeam:
+          scoutingTeamId === MY_TEAM_ID
+            ? { id: MY_TEAM_ID, teamNumber: MY_TEAM_NUMBER, sharingLevel }
+            : otherTeam(sharingLevel),
+      });
+    }
+
+    it("allows members to see their own PRIVATE data", async () => {
+      mockEntry("PRIVATE", MY_TEAM_ID);
+      const res = await get("/api/scouting/entries/entry-1");
+      expect(res.status).toBe(200);
+    });
+
+    it("hides another team's PRIVATE data even at the same event", async () => {
+      rosterRows = [
+        { teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE },
+      ];
+      mockEntry("PRIVATE");
+      const res = await get("/api/scouting/entries/entry-1");
+      expect(res.status).toBe(403);
+    });
+
+    it("shows another team's PUBLIC data", async () => {
+      mockEntry("PUBLIC");
+      const res = await get("/api/scouting/entries/entry-1");
+      expect(res.status).toBe(200);
+    });
+
+    it("shows EVENT data when both teams are registered at the event", async () => {
+      rosterRows = [
+        { teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE },
+      ];
+      mockEntry("EVENT");
+      const res = await get("/api/scouting/entries/entry-1");
+      expect(res.status).toBe(200);
+    });
+
+    it("hides EVENT data when the viewer's team is not registered", async () => {
+      rosterRows = [{ teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE }];
+      mockEntry("EVENT");
+      const res = await get("/api/scouting/entries/entry-1");
+      expect(res.status).toBe(403);
+    });
+
+    it("hides EVENT data when the owning team is not registered", async () => {
+      rosterRows = [{ teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE }];
+      mockEntry("EVENT");
+      const res = await get("/api/scouting/entries/entry-1");
+      expect(res.status).toBe(403);
+    });
+
+    it("falls back to the FTC API roster when the cache is empty", async () => {
+      mockGetEventTeams.mockResolvedValue({
+        teams: [{ teamNumber: MY_TEAM_NUMBER }, { teamNumber: OTHER_TEAM_NUMBER }],
+      });
+      mockEntry("EVENT");
+      const res = await get("/api/scouting/entries/entry-1");
+      expect(res.status).toBe(200);
+      expect(mockGetEventTeams).toHaveBeenCalledWith(EVENT_CODE);
+    });
+  });
+
+  describe("GET /entries", () => {
+    it("includes EVENT data scoped to the event when both teams are registered", async () => {
+      rosterRows = [
+        { teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE },
+      ];
+      const res = await get(`/api/scouting/entries?eventCode=${EVENT_CODE}`);
+      expect(res.status).toBe(200);
+
+      const where = mockPrisma.scoutingEntry.findMany.mock.calls[0][0].where;
+      expect(where.OR).toContainEqual({ scoutingTeamId: { in: [MY_TEAM_ID] } });
+      expect(where.OR).toContainEqual({ scoutingTeam: { sharingLevel: "PUBLIC" } });
+      const eventCond = findEventCondition(where.OR, "scoutingTeam");
+      expect(eventCond?.eventCode).toBe(EVENT_CODE);
+      expect(eventCond?.scoutingTeam.teamNumber.in).toContain(OTHER_TEAM_NUMBER);
+    });
+
+    it("excludes EVENT data when the viewer is not at the event", async () => {
+      rosterRows = [{ teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE }];
+      await get(`/api/scouting/entries?eventCode=${EVENT_CODE}`);
+
+      const where = mockPrisma.scoutingEntry.findMany.mock.calls[0][0].where;
+      expect(findEventCondition(where.OR, "scoutingTeam")).toBeUndefined();
+    });
+
+    it("derives shared events from the cache when no event is given", async () => {
+      rosterRows = [
+        { teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: "OTHEREVT" },
+      ];
+      await get("/api/scouting/entries");
+
+      const where = mockPrisma.scoutingEntry.findMany.mock.calls[0][0].where;
+      const eventConds = where.OR.filter(
+        (cond: Record<string, any>) => cond.scoutingTeam?.sharingLevel === "EVENT"
+      );
+      expect(eventConds).toHaveLength(1);
+      expect(eventConds[0].eventCode).toBe(EVENT_CODE);
+    });
+  });
+
+  describe("GET /notes", () => {
+    it("includes EVENT notes from co-registered teams", async () => {
+      rosterRows = [
+        { teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE },
+      ];
+      const res = await get(`/api/scouting/notes?eventCode=${EVENT_CODE}`);
+      expect(res.status).toBe(200);
+
+      const where = mockPrisma.scoutingNote.findMany.mock.calls[0][0].where;
+      expect(where.OR).toContainEqual({ notingTeamId: { in: [MY_TEAM_ID] } });
+      expect(where.OR).toContainEqual({ notingTeam: { sharingLevel: "PUBLIC" } });
+      expect(findEventCondition(where.OR, "notingTeam")?.eventCode).toBe(EVENT_CODE);
+    });
+
+    it("excludes EVENT notes when the viewer is not at the event", async () => {
+      rosterRows = [{ teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE }];
+      await get(`/api/scouting/notes?eventCode=${EVENT_CODE}`);
+
+      const where = mockPrisma.scoutingNote.findMany.mock.calls[0][0].where;
+      expect(findEventCondition(where.OR, "notingTeam")).toBeUndefined();
+    });
+  });
+
+  describe("GET /team-summary/:teamNumber", () => {
+    it("applies the EVENT rule to summarized entries", async () => {
+      rosterRows = [
+        { teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE },
+      ];
+      mockPrisma.team.findUnique.mockResolvedValue({ id: "scouted-id", teamNumber: 5000 });
+
+      const res = await get(`/api/scouting/team-summary/5000?eventCode=${EVENT_CODE}`);
+      expect(res.status).toBe(200);
+
+      const where = mockPrisma.scoutingEntry.findMany.mock.calls[0][0].where;
+      expect(where.scoutedTeamId).toBe("scouted-id");
+      expect(findEventCondition(where.OR, "scoutingTeam")?.eventCode).toBe(EVENT_CODE);
+    });
+  });
+
+  describe("GET /team-stats/:teamId", () => {
+    beforeEach(() => {
+      mockPrisma.teamMember.findUnique.mockResolvedValue(null);
+    });
+
+    it("rejects non-members of a PRIVATE team", async () => {
+      mockPrisma.team.findUnique.mockResolvedValue(otherTeam("PRIVATE"));
+      const res = await get(`/api/scouting/team-stats/${OTHER_TEAM_ID}`);
+      expect(res.status).toBe(403);
+    });
+
+    it("counts all data of a PUBLIC team", async () => {
+      mockPrisma.team.findUnique.mockResolvedValue(otherTeam("PUBLIC"));
+      const res = await get(`/api/scouting/team-stats/${OTHER_TEAM_ID}`);
+      expect(res.status).toBe(200);
+
+      const where = mockPrisma.scoutingEntry.findMany.mock.calls[0][0].where;
+      expect(where).toEqual({ scoutingTeamId: OTHER_TEAM_ID });
+    });
+
+    it("limits an EVENT team's stats to shared events", async () => {
+      rosterRows = [
+        { teamNumber: MY_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: EVENT_CODE },
+        { teamNumber: OTHER_TEAM_NUMBER, eventCode: "OTHEREVT" },
+      ];
+      mockPrisma.team.findUnique.mockResolvedValue(otherTeam("EVENT"));
+      const res = await get(`/api/scouting/team-stats/${OTHER_TEAM_ID}`);
+      expect(res.status).toBe(200);
+
+      const where = mockPrisma.scoutingEntry.findMany.mock.calls[0][0].where;
+      expect(where).toEqual({
+        scoutingTeamId: OTHER_TEAM_ID,
+        eventCode: { in: [EVENT_CODE] },
+      });
+      expect((mockPrisma as any).scoutingNote.count).toHaveBeenCalledWith({
+        where: { notingTeamId: OTHER_TEAM_ID, eventCode: { in: [EVENT_CODE] } },
+      });
+    });
+
+    it("lets members see their own team's stats", async () => {
+      mockPrisma.teamMember.findUnique.mockResolvedValue({
+        userId: USER_ID,
+        teamId: MY_TEAM_ID,
+        role: "STUDENT",
+      });
+      const res = await get(`/api/scouting/team-stats/${MY_TEAM_ID}`);
+      expect(res.status).toBe(200);
+      expect(mockPrisma.team.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
 import { z } from "zod";
+import { DECODE, getEntryScoringValues } from "@ftcmetrics/shared";
+import {
+  buildScoringSchema,
+  calculateScores,
+  toEntryScoringFields,
+} from "../../lib/scoring";
 
 // Replicate the actual schema from scouting.ts to test validation in isolation
 const scoutingEntrySchema = z.object({
@@ -139,3 +145,54 @@ describe("Scouting entry schema validation", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("Game definition scoring (DECODE)", () => {
+  const scoringSchema = buildScoringSchema(DECODE);
+
+  it("derives defaults for every scoring element", () => {
+    const result = scoringSchema.safeParse({});
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.autoClassifiedCount).toBe(0);
+      expect(result.data.autoLeave).toBe(false);
+      expect(result.data.endgameBaseStatus).toBe("NONE");
+    }
+  });
+
+  it("rejects negative counts and unknown endgame states", () => {
+    expect(scoringSchema.safeParse({ teleopDepotCount: -1 }).success).toBe(false);
+    expect(scoringSchema.safeParse({ endgameBaseStatus: "HANGING" }).success).toBe(false);
+  });
+
+  it("calculates phase scores from element point values", () => {
+    const parsed = scoringSchema.parse(validPayload());
+    const scores = calculateScores(DECODE, parsed as Record<string, number | boolean | string>);
+    // auto: leave 3 + classified 2*3 + overflow 1*1
+    expect(scores.autoScore).toBe(10);
+    // teleop: classified 3*3 + depot 1*1 + pattern 1*2
+    expect(scores.teleopScore).toBe(12);
+    // endgame: FULL base
+    expect(scores.endgameScore).toBe(10);
+    expect(scores.totalScore).toBe(32);
+  });
+
+  it("reads legacy column-only entries", () => {
+    const values = getEntryScoringValues(DECODE, {
+      scoringData: null,
+      autoLeave: true,
+      autoClassifiedCount: 4,
+      endgameBaseStatus: "PARTIAL",
+    });
+    expect(values.autoLeave).toBe(true);
+    expect(values.autoClassifiedCount).toBe(4);
+    expect(values.teleopMotifCount).toBe(0);
+    expect(calculateScores(DECODE, values).totalScore).toBe(3 + 12 + 5);
+  });
+
+  it("writes both scoringData and the typed columns", () => {
+    const fields = toEntryScoringFields(DECODE, { ...scoringSchema.parse({}), autoPatternCount: 2 });
+    expect(fields.season).toBe(2025);
+    expect(fields.scoringData.autoPatternCount).toBe(2);
+    expect((fields as Record<string, unknown>).autoPatternCount).toBe(2);
+  });
+});
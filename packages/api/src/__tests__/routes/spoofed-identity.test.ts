@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { mockPrisma } from "../setup";
+
+vi.mock("../../lib/ftc-api", () => ({
+  getFTCApi: () => ({
+    getTeam: vi.fn().mockResolvedValue({ teams: [] }),
+    getEventTeams: vi.fn().mockResolvedValue({ teams: [] }),
+  }),
+}));
+
+// The signed-in user, and a mentor whose identity they try to borrow
+const USER_ID = "user-attacker";
+const VICTIM_ID = "user-victim";
+const TEAM_ID = "victim-team";
+
+function mockValidSession() {
+  mockPrisma.session.findUnique.mockResolvedValue({
+    sessionToken: "valid-token",
+    userId: USER_ID,
+    expires: new Date(Date.now() + 86400000),
+    user: { id: USER_ID, name: "Attacker", email: "attacker@test.com" },
+  });
+}
+
+// Membership lookups only succeed for the victim
+function mockVictimMembership() {
+  mockPrisma.teamMember.findUnique.mockImplementation(async ({ where }: any) =>
+    where.userId_teamId?.userId === VICTIM_ID
+      ? { id: "member-1", userId: VICTIM_ID, teamId: TEAM_ID, role: "MENTOR" }
+      : null
+  );
+}
+
+async function createApp() {
+  const { authMiddleware, optionalAuthMiddleware, sanitizeInput } = await import(
+    "../../middleware/auth"
+  );
+  const userTeams = (await import("../../routes/user-teams")).default;
+  const scouting = (await import("../../routes/scouting")).default;
+  const teams = (await import("../../routes/teams")).default;
+  const app = new Hono();
+  app.use("/api/*", sanitizeInput);
+  app.use("/api/user-teams/*", authMiddleware);
+  app.use("/api/scouting/*", authMiddleware);
+  app.use("/api/teams/*", optionalAuthMiddleware);
+  app.route("/api/user-teams", userTeams);
+  app.route("/api/scouting", scouting);
+  app.route("/api/teams", teams);
+  return app;
+}
+
+const spoofed = { "X-User-Id": VICTIM_ID };
+const signedIn = { ...spoofed, Cookie: "authjs.session-token=valid-token" };
+
+describe("Spoofed X-User-Id headers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVictimMembership();
+    (mockPrisma as any).teamMember.findMany = vi.fn().mockResolvedValue([]);
+    (mockPrisma as any).teamMedia = { create: vi.fn(), findUnique: vi.fn(), delete: vi.fn() };
+    (mockPrisma as any).pickList = { findMany: vi.fn().mockResolvedValue([]) };
+    (mockPrisma.scoutingEntry as any).count = vi.fn().mockResolvedValue(0);
+  });
+
+  it("get no access without a session", async () => {
+    const app = await createApp();
+
+    const paths = [
+      "/api/user-teams",
+      `/api/user-teams/${TEAM_ID}`,
+      `/api/user-teams/${TEAM_ID}/picklists`,
+      "/api/scouting/notes",
+    ];
+    for (const path of paths) {
+      const res = await app.request(path, { headers: spoofed });
+      expect(res.status, path).toBe(401);
+    }
+    expect(mockPrisma.teamMember.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("cannot read a team's scouting entries by scoutingTeamId alone", async () => {
+    const app = await createApp();
+
+    const res = await app.request(`/api/scouting/entries?scoutingTeamId=${TEAM_ID}`, {
+      headers: spoofed,
+    });
+
+    expect(res.status).toBe(401);
+    expect(mockPrisma.scoutingEntry.findMany).not.toHaveBeenCalled();
+  });
+
+  it("filters scouting entries by the session user, not the header", async () => {
+    mockValidSession();
+    mockPrisma.scoutingEntry.findMany.mockResolvedValue([]);
+    const app = await createApp();
+
+    const res = await app.request(`/api/scouting/entries?scoutingTeamId=${TEAM_ID}`, {
+      headers: signedIn,
+    });
+
+    expect(res.status).toBe(200);
+    expect((mockPrisma as any).teamMember.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: USER_ID } })
+    );
+    // The visibility filter is applied even with a scoutingTeamId filter
+    const { where } = mockPrisma.scoutingEntry.findMany.mock.calls[0][0];
+    expect(where.OR).toBeDefined();
+  });
+
+  it("cannot act as another team's mentor", async () => {
+    mockValidSession();
+    const app = await createApp();
+
+    const requests: Array<[string, RequestInit]> = [
+      [`/api/user-teams/${TEAM_ID}`, {}],
+      [`/api/user-teams/${TEAM_ID}/picklists`, {}],
+      [`/api/user-teams/${TEAM_ID}/invites`, { method: "POST" }],
+      [
+        `/api/user-teams/${TEAM_ID}/media`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ type: "LINK", title: "x", url: "https://example.com" }),
+        },
+      ],
+    ];
+    for (const [path, init] of requests) {
+      const res = await app.request(path, {
+        ...init,
+        headers: { ...signedIn, ...(init.headers as Record<string, string>) },
+      });
+      expect(res.status, path).toBe(403);
+    }
+
+    for (const [args] of mockPrisma.teamMember.findUnique.mock.calls) {
+      expect((args as any).where.userId_teamId.userId).toBe(USER_ID);
+    }
+    expect((mockPrisma as any).teamMedia.create).not.toHaveBeenCalled();
+    expect((mockPrisma as any).pickList.findMany).not.toHaveBeenCalled();
+  });
+
+  it("lists the session user's teams, not the header's", async () => {
+    mockValidSession();
+    const app = await createApp();
+
+    const res = await app.request("/api/user-teams", { headers: signedIn });
+
+    expect(res.status).toBe(200);
+    expect((mockPrisma as any).teamMember.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: USER_ID } })
+    );
+  });
+
+  it("cannot see a private team profile as one of its members", async () => {
+    mockPrisma.team.findUnique.mockResolvedValue({
+      sharingLevel: "PRIVATE",
+      bio: "secret",
+      media: [],
+      members: [{ userId: VICTIM_ID }],
+    });
+    const app = await createApp();
+
+    const res = await app.request("/api/teams/12345/profile", { headers: spoofed });
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as any;
+    expect(body.data).toBeNull();
+  });
+});
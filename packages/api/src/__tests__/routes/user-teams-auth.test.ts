@@ -99,6 +99,176 @@ describe("User teams auth and role enforcement", () => {
     expect(res.status).toBe(403);
   });
 
+  it("LEADER whose team revoked manage-members cannot change roles", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique.mockResolvedValueOnce({
+      userId: USER_ID,
+      teamId: TEAM_ID,
+      role: "LEADER",
+      team: { permissions: { LEADER: { "manage-members": false } } },
+    });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ role: "FRIEND" }),
+    });
+    expect(res.status).toBe(403);
+    expect((mockPrisma as any).teamMember.update).not.toHaveBeenCalled();
+  });
+
+  it("STUDENT granted manage-members can remove another member", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique
+      .mockResolvedValueOnce({
+        userId: USER_ID,
+        teamId: TEAM_ID,
+        role: "STUDENT",
+        team: { permissions: { STUDENT: { "manage-members": true } } },
+      })
+      .mockResolvedValueOnce({ id: MEMBER_ID, userId: "other-user", teamId: TEAM_ID, role: "FRIEND" });
+    (mockPrisma as any).teamMember.delete.mockResolvedValue({});
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+      method: "DELETE",
+      headers: { Cookie: "authjs.session-token=valid-token" },
+    });
+    expect(res.status).toBe(200);
+    expect((mockPrisma as any).teamMember.delete).toHaveBeenCalledWith({ where: { id: MEMBER_ID } });
+  });
+
+  describe("STUDENT granted manage-members", () => {
+    const studentWithManageMembers = {
+      userId: USER_ID,
+      teamId: TEAM_ID,
+      role: "STUDENT",
+      team: { permissions: { STUDENT: { "manage-members": true } } },
+    };
+
+    it("cannot promote themselves to MENTOR", async () => {
+      mockValidSession();
+      mockPrisma.teamMember.findUnique
+        .mockResolvedValueOnce(studentWithManageMembers)
+        .mockResolvedValueOnce({ id: MEMBER_ID, userId: USER_ID, teamId: TEAM_ID, role: "STUDENT" });
+
+      const app = await createApp();
+      const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ role: "MENTOR" }),
+      });
+      expect(res.status).toBe(403);
+      expect((mockPrisma as any).teamMember.update).not.toHaveBeenCalled();
+    });
+
+    it("cannot change their own role", async () => {
+      mockValidSession();
+      mockPrisma.teamMember.findUnique
+        .mockResolvedValueOnce(studentWithManageMembers)
+        .mockResolvedValueOnce({ id: MEMBER_ID, userId: USER_ID, teamId: TEAM_ID, role: "STUDENT" });
+
+      const app = await createApp();
+      const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ role: "LEADER" }),
+      });
+      expect(res.status).toBe(403);
+      expect((mockPrisma as any).teamMember.update).not.toHaveBeenCalled();
+    });
+
+    it("cannot promote another member to MENTOR", async () => {
+      mockValidSession();
+      mockPrisma.teamMember.findUnique
+        .mockResolvedValueOnce(studentWithManageMembers)
+        .mockResolvedValueOnce({ id: MEMBER_ID, userId: "other-user", teamId: TEAM_ID, role: "FRIEND" });
+
+      const app = await createApp();
+      const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ role: "MENTOR" }),
+      });
+      expect(res.status).toBe(403);
+      expect((mockPrisma as any).teamMember.update).not.toHaveBeenCalled();
+    });
+
+    it("cannot demote or remove a MENTOR", async () => {
+      mockValidSession();
+      const mentor = { id: MEMBER_ID, userId: "other-user", teamId: TEAM_ID, role: "MENTOR" };
+      mockPrisma.teamMember.findUnique
+        .mockResolvedValueOnce(studentWithManageMembers)
+        .mockResolvedValueOnce(mentor)
+        .mockResolvedValueOnce(studentWithManageMembers)
+        .mockResolvedValueOnce(mentor);
+
+      const app = await createApp();
+      const patch = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ role: "FRIEND" }),
+      });
+      expect(patch.status).toBe(403);
+
+      const remove = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+        method: "DELETE",
+        headers: { Cookie: "authjs.session-token=valid-token" },
+      });
+      expect(remove.status).toBe(403);
+      expect((mockPrisma as any).teamMember.update).not.toHaveBeenCalled();
+      expect((mockPrisma as any).teamMember.delete).not.toHaveBeenCalled();
+    });
+
+    it("can change a FRIEND to STUDENT", async () => {
+      mockValidSession();
+      mockPrisma.teamMember.findUnique
+        .mockResolvedValueOnce(studentWithManageMembers)
+        .mockResolvedValueOnce({ id: MEMBER_ID, userId: "other-user", teamId: TEAM_ID, role: "FRIEND" });
+      (mockPrisma as any).teamMember.update.mockResolvedValue({ id: MEMBER_ID, role: "STUDENT" });
+
+      const app = await createApp();
+      const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ role: "STUDENT" }),
+      });
+      expect(res.status).toBe(200);
+    });
+  });
+
+  it("MENTOR can promote another member to MENTOR", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique
+      .mockResolvedValueOnce({ userId: USER_ID, teamId: TEAM_ID, role: "MENTOR" })
+      .mockResolvedValueOnce({ id: MEMBER_ID, userId: "other-user", teamId: TEAM_ID, role: "LEADER" });
+    (mockPrisma as any).teamMember.update.mockResolvedValue({ id: MEMBER_ID, role: "MENTOR" });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+      method: "PATCH",
+      headers: authHeaders(),
+      body: JSON.stringify({ role: "MENTOR" }),
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it("STUDENT removing another member returns 403", async () => {
+    mockValidSession();
+    mockPrisma.teamMember.findUnique
+      .mockResolvedValueOnce({ userId: USER_ID, teamId: TEAM_ID, role: "STUDENT" })
+      .mockResolvedValueOnce({ id: MEMBER_ID, userId: "other-user", teamId: TEAM_ID, role: "FRIEND" });
+
+    const app = await createApp();
+    const res = await app.request(`/api/user-teams/${TEAM_ID}/members/${MEMBER_ID}`, {
+      method: "DELETE",
+      headers: { Cookie: "authjs.session-token=valid-token" },
+    });
+    expect(res.status).toBe(403);
+    expect((mockPrisma as any).teamMember.delete).not.toHaveBeenCalled();
+  });
+
   it("FRIEND creating invite returns 403", async () => {
     mockValidSession();
     mockPrisma.teamMember.findUnique.mockResolvedValue({
@@ -210,6 +380,7 @@ describe("User teams auth and role enforcement", () => {
       teamId: TEAM_ID,
       role: "MENTOR",
     });
+    mockPrisma.team.findUnique.mockResolvedValue({ id: TEAM_ID, name: "Old Name" });
     mockPrisma.team.update.mockResolvedValue({
       id: TEAM_ID,
       name: "Updated Name",
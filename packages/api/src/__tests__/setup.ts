@@ -30,6 +30,18 @@ export const mockPrisma = {
     findMany: vi.fn(),
     upsert: vi.fn(),
   },
+  event: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    upsert: vi.fn(),
+  },
+  match: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+  },
   invite: {
     findFirst: vi.fn(),
     create: vi.fn(),
@@ -38,18 +50,26 @@ export const mockPrisma = {
   user: {
     findUnique: vi.fn(),
   },
+  auditLog: {
+    create: vi.fn(),
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    count: vi.fn(),
+  },
   $queryRaw: vi.fn(),
 };
 
 vi.mock('@ftcmetrics/db', () => ({
   prisma: mockPrisma,
   PrismaClient: vi.fn(() => mockPrisma),
+  Prisma: { DbNull: "DbNull", JsonNull: "JsonNull" },
 }));
 
 // Mock Redis
 export const mockRedis = {
   get: vi.fn(),
   set: vi.fn(),
+  del: vi.fn(),
   setex: vi.fn(),
   incr: vi.fn(),
   expire: vi.fn(),
@@ -19,7 +19,11 @@ import userTeams from "./routes/user-teams";
 import scouting from "./routes/scouting";
 import analytics from "./routes/analytics";
 import rankings from "./routes/rankings";
+import realtime from "./routes/realtime";
+import apiTokens from "./routes/api-tokens";
 import { computeAndCacheRankings } from "./routes/rankings";
+import { syncActiveEvents, EVENT_SYNC_INTERVAL_MS } from "./lib/event-sync";
+import { buildOpenApiSpec } from "./lib/openapi";
 
 // Import middleware
 import { authMiddleware, optionalAuthMiddleware, rateLimit, sanitizeInput } from "./middleware/auth";
@@ -41,6 +45,8 @@ app.use(
       return "";
     },
     credentials: true,
+    // Read by the offline outbox when retrying idempotent requests
+    exposeHeaders: ["Retry-After", "Idempotent-Replayed"],
   })
 );
 
@@ -138,9 +144,16 @@ app.get("/api/health", async (c) => {
   );
 });
 
-// Auth middleware: require session for protected routes
+// Public API description, built from the routes mounted below
+app.get("/api/openapi.json", (c) => {
+  return c.json(buildOpenApiSpec(app.routes));
+});
+
+// Auth middleware: require session or API token for protected routes
 app.use("/api/user-teams/*", authMiddleware);
 app.use("/api/scouting/*", authMiddleware);
+app.use("/api/realtime/*", authMiddleware);
+app.use("/api/tokens/*", authMiddleware);
 
 // Optional auth for public routes (attaches user if session present)
 app.use("/api/events/*", optionalAuthMiddleware);
@@ -155,6 +168,8 @@ app.route("/api/user-teams", userTeams);
 app.route("/api/scouting", scouting);
 app.route("/api/analytics", analytics);
 app.route("/api/rankings", rankings);
+app.route("/api/realtime", realtime);
+app.route("/api/tokens", apiTokens);
 
 // Start server
 const port = parseInt(process.env.PORT || "3001", 10);
@@ -175,3 +190,15 @@ setInterval(() => {
     console.error("[Rankings] Periodic computation failed:", err)
   );
 }, 30 * 60 * 1000);
+
+// Persist active events' matches into the database on a configurable cadence
+if (EVENT_SYNC_INTERVAL_MS > 0) {
+  syncActiveEvents().catch((err) =>
+    console.error("[EventSync] Startup sync failed:", err)
+  );
+  setInterval(() => {
+    syncActiveEvents().catch((err) =>
+      console.error("[EventSync] Periodic sync failed:", err)
+    );
+  }, EVENT_SYNC_INTERVAL_MS);
+}
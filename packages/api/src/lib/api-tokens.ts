@@ -0,0 +1,112 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@ftcmetrics/db";
+
+/**
+ * Personal API tokens
+ *
+ * Tokens look like `ftcm_<43 url-safe characters>` and are sent as
+ * `Authorization: Bearer <token>`. Only their SHA-256 hash is stored. Each
+ * token carries scopes that decide which requests it may make; anything a
+ * scope does not cover (team management, realtime, token management) needs
+ * a browser session.
+ */
+
+export const API_TOKEN_SCOPES = ["read-analytics", "read-scouting", "write-scouting"] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_PREFIX = "ftcm_";
+// Characters of the token kept in plaintext so users can tell tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+// lastUsedAt is only written when it is older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create a new random token, returning the plaintext (shown once), its hash
+ * and its display prefix
+ */
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Scope a token needs for a request, or null when tokens may not make it
+ */
+export function requiredScope(method: string, path: string): ApiTokenScope | null {
+  const read = method === "GET" || method === "HEAD";
+
+  // Public data; predict and playoff-sim POSTs only compute, they store nothing
+  if (/^\/api\/(analytics|events|teams|rankings)(\/|$)/.test(path)) {
+    return "read-analytics";
+  }
+  if (/^\/api\/scouting(\/|$)/.test(path)) {
+    return read ? "read-scouting" : "write-scouting";
+  }
+  if (read && /^\/api\/user-teams\/?$/.test(path)) {
+    return "read-scouting";
+  }
+  if (read && /^\/api\/user-teams\/[^/]+\/(picklists|assignments|consensus|accuracy|export)(\/|$)/.test(path)) {
+    return "read-scouting";
+  }
+  return null;
+}
+
+/**
+ * Read a bearer token from the Authorization header
+ */
+export function getBearerToken(authorization: string | undefined): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+export type VerifiedApiToken = {
+  id: string;
+  scopes: ApiTokenScope[];
+  user: { id: string; name: string | null; email: string | null };
+};
+
+/**
+ * Look up an unexpired token by its plaintext value
+ */
+export async function verifyApiToken(token: string): Promise<VerifiedApiToken | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  if (!record) return null;
+  if (record.expiresAt && record.expiresAt < new Date()) return null;
+
+  if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    prisma.apiToken
+      .update({ where: { id: record.id }, data: { lastUsedAt: new Date() } })
+      .catch((error: unknown) => console.error("Failed to record API token use:", error));
+  }
+
+  return {
+    id: record.id,
+    scopes: record.scopes.filter((s): s is ApiTokenScope =>
+      (API_TOKEN_SCOPES as readonly string[]).includes(s)
+    ),
+    user: record.user,
+  };
+}
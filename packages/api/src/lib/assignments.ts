@@ -0,0 +1,122 @@
+/**
+ * Scouting assignment rotations
+ *
+ * Splits an event's qualification schedule into robot-matches (one per
+ * station) and hands them out to a team's scouts. Scouts work shifts of
+ * consecutive matches followed by breaks, load is spread evenly, and the
+ * team's own robot is never assigned. Robot-matches no scout is free
+ * for are reported so leaders can fill them by hand.
+ */
+
+import type { ScheduledMatch } from "./stats/rank-projection";
+
+export interface RotationSettings {
+  // Matches a scout works in a row before a break
+  shiftLength: number;
+  // Matches a scout sits out after each shift
+  breakLength: number;
+}
+
+export interface RobotMatch {
+  matchNumber: number;
+  station: string;
+  teamNumber: number;
+}
+
+export interface GeneratedAssignment extends RobotMatch {
+  scouterId: string;
+}
+
+export interface GeneratedRotation {
+  assignments: GeneratedAssignment[];
+  // Robot-matches no scout was free for
+  unassigned: RobotMatch[];
+}
+
+/**
+ * Every robot in every match, with its station, in schedule order
+ */
+export function listRobotMatches(schedule: ScheduledMatch[]): RobotMatch[] {
+  return [...schedule]
+    .sort((a, b) => a.matchNumber - b.matchNumber)
+    .flatMap((match) => [
+      ...match.redTeams.map((teamNumber, i) => ({
+        matchNumber: match.matchNumber,
+        station: `Red${i + 1}`,
+        teamNumber,
+      })),
+      ...match.blueTeams.map((teamNumber, i) => ({
+        matchNumber: match.matchNumber,
+        station: `Blue${i + 1}`,
+        teamNumber,
+      })),
+    ]);
+}
+
+/**
+ * Build a rotation over the schedule. Each robot goes to the free scout with
+ * the fewest assignments so far (ties by the order scouts were listed in).
+ * A scout who has worked shiftLength matches in a row sits out the next
+ * breakLength matches. Favouring the least-loaded scout rather than whoever
+ * is mid-shift keeps breaks staggered, so the team is never short-handed
+ * all at once.
+ */
+export function generateRotation(
+  schedule: ScheduledMatch[],
+  scouterIds: string[],
+  ownTeamNumber: number,
+  settings: RotationSettings
+): GeneratedRotation {
+  const scouts = scouterIds.map((id, order) => ({
+    id,
+    order,
+    total: 0,
+    // Consecutive matches worked so far in the current shift
+    streak: 0,
+    // Matches left to sit out
+    resting: 0,
+  }));
+
+  const byMatch = new Map<number, RobotMatch[]>();
+  for (const robot of listRobotMatches(schedule)) {
+    if (robot.teamNumber === ownTeamNumber) continue;
+    const list = byMatch.get(robot.matchNumber) ?? [];
+    list.push(robot);
+    byMatch.set(robot.matchNumber, list);
+  }
+
+  const assignments: GeneratedAssignment[] = [];
+  const unassigned: RobotMatch[] = [];
+
+  for (const [, robots] of [...byMatch.entries()].sort((a, b) => a[0] - b[0])) {
+    const available = scouts
+      .filter((s) => s.resting === 0)
+      .sort((a, b) => a.total - b.total || a.order - b.order);
+    const working = new Set(available.slice(0, robots.length));
+
+    robots.forEach((robot, i) => {
+      const scout = available[i];
+      if (scout) {
+        assignments.push({ ...robot, scouterId: scout.id });
+      } else {
+        unassigned.push(robot);
+      }
+    });
+
+    for (const scout of scouts) {
+      if (working.has(scout)) {
+        scout.total++;
+        scout.streak++;
+        if (scout.streak >= settings.shiftLength) {
+          scout.streak = 0;
+          scout.resting = settings.breakLength;
+        }
+      } else {
+        scout.streak = 0;
+        if (scout.resting > 0) scout.resting--;
+      }
+    }
+  }
+
+  return { assignments, unassigned };
+}
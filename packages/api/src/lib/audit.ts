@@ -0,0 +1,131 @@
+import { prisma, Prisma } from "@ftcmetrics/db";
+
+/**
+ * Audit log
+ *
+ * Every mutating route records who changed what with recordAudit. Updates
+ * store only the fields that changed (see diffFields); creates store the new
+ * record as `after` and deletes the old one as `before`. Rows are only ever
+ * inserted. A failed audit write is logged rather than failing the change it
+ * describes, since that change has already been committed.
+ */
+
+export const AUDIT_ACTIONS = [
+  "scouting-entry.create",
+  "scouting-entry.update",
+  "scouting-entry.deduct",
+  "scouting-entry.revert",
+  "scouting-note.create",
+  "team.create",
+  "team.update",
+  "team.permissions",
+  "invite.create",
+  "member.join",
+  "member.update",
+  "member.remove",
+  "media.create",
+  "media.update",
+  "media.delete",
+  "pick-list.create",
+  "pick-list.update",
+  "pick-list.entry-update",
+  "pick-list.refresh",
+  "pick-list.delete",
+  "rotation.generate",
+  "assignment.reassign",
+  "resolution.set",
+  "resolution.delete",
+  "scout-weights.apply",
+  "api-token.create",
+  "api-token.revoke",
+  "import.commit",
+  "import.rollback",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// The part of an action before the dot, e.g. "member" for member.remove
+export type AuditTargetType = AuditAction extends `${infer T}.${string}` ? T : never;
+
+export const AUDIT_TARGET_TYPES = [
+  ...new Set(AUDIT_ACTIONS.map((action) => action.split(".")[0])),
+] as AuditTargetType[];
+
+export interface AuditRecord {
+  // Team whose data changed; null for account-level changes
+  teamId: string | null;
+  actorId: string | null;
+  action: AuditAction;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  // The audit row this change undid
+  revertOfId?: string;
+}
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(["updatedAt", "createdAt"]);
+
+/**
+ * Plain JSON copy of a value for a Json column (dates become ISO strings,
+ * undefined fields are dropped)
+ */
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) return undefined;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+// JSON with object keys sorted, so values read back from jsonb (which
+// reorders keys) compare equal to the ones being written
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/**
+ * The fields an update changed, as before/after objects holding only those
+ * fields. `changes` is the update payload; fields it sets to the value
+ * already stored are left out.
+ */
+export function diffFields(
+  existing: object,
+  changes: object
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const current = existing as Record<string, unknown>;
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === undefined || IGNORED_FIELDS.has(field)) continue;
+    if (canonicalJson(current[field]) === canonicalJson(value)) continue;
+    before[field] = current[field] ?? null;
+    after[field] = value;
+  }
+
+  return { before, after };
+}
+
+/**
+ * Append a row to the audit log. Never throws.
+ */
+export async function recordAudit(record: AuditRecord): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        teamId: record.teamId,
+        actorId: record.actorId,
+        action: record.action,
+        targetType: record.action.split(".")[0],
+        targetId: record.targetId ?? null,
+        before: toJson(record.before),
+        after: toJson(record.after),
+        revertOfId: record.revertOfId,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record audit entry ${record.action}:`, error);
+  }
+}
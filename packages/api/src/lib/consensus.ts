@@ -0,0 +1,364 @@
+/**
+ * Multi-scout consensus
+ *
+ * Several scouts of one team may record the same robot in the same match.
+ * Rather than averaging those as independent samples, entries are grouped
+ * per scouting team by robot-match and reduced to one reconciled record:
+ * the weighted median of every count and score, and a weighted vote for
+ * booleans and states. Scout weights come from TeamMember.scoutWeight, so
+ * trusted scouts can count for more. A leader's ScoutingResolution (a
+ * picked canonical entry or merged values) overrides the computed result.
+ */
+
+import { prisma } from "@ftcmetrics/db";
+import {
+  CURRENT_SEASON,
+  getEntryScoringValues,
+  getGameDefinition,
+  type ScoringValues,
+} from "@ftcmetrics/shared";
+import { averageScoringValues } from "./scoring";
+
+// Phase scores further apart than this many points count as a disagreement
+export const DEFAULT_DISAGREEMENT_THRESHOLD = 10;
+
+const SCORE_FIELDS = ["autoScore", "teleopScore", "endgameScore", "totalScore"] as const;
+
+export interface ConsensusSourceEntry {
+  id: string;
+  scouterId: string | null;
+  scoutingTeamId: string;
+  scoutedTeamId: string;
+  eventCode: string;
+  matchNumber: number;
+  alliance: string;
+  season: number;
+  scoringData: unknown;
+  autoScore: number;
+  teleopScore: number;
+  endgameScore: number;
+  totalScore: number;
+  createdAt: Date;
+  [field: string]: unknown;
+}
+
+export interface ConsensusResolution {
+  id: string;
+  canonicalEntryId: string | null;
+  scoringData: unknown;
+  autoScore: number | null;
+  teleopScore: number | null;
+  endgameScore: number | null;
+  totalScore: number | null;
+}
+
+export interface FieldConflict {
+  field: string;
+  values: Array<{ entryId: string; scouterId: string | null; value: number | boolean | string }>;
+}
+
+export type ConsensusMethod = "single" | "consensus" | "picked" | "merged";
+
+export interface ReconciledRecord {
+  key: string;
+  scoutingTeamId: string;
+  scoutedTeamId: string;
+  eventCode: string;
+  matchNumber: number;
+  alliance: string;
+  season: number;
+  values: ScoringValues;
+  autoScore: number;
+  teleopScore: number;
+  endgameScore: number;
+  totalScore: number;
+  entryIds: string[];
+  method: ConsensusMethod;
+  resolutionId: string | null;
+  conflicts: FieldConflict[];
+}
+
+export interface ReconcileOptions {
+  // Scout weight by "teamId:scouterId"; missing scouts weigh 1
+  weights?: Map<string, number>;
+  // Leader resolutions by robot-match key
+  resolutions?: Map<string, ConsensusResolution>;
+  threshold?: number;
+}
+
+/**
+ * Key identifying one scouting team's view of one robot in one match
+ */
+export function robotMatchKey(entry: {
+  scoutingTeamId: string;
+  eventCode: string;
+  matchNumber: number;
+  scoutedTeamId: string;
+}): string {
+  return `${entry.scoutingTeamId}:${entry.eventCode}:${entry.matchNumber}:${entry.scoutedTeamId}`;
+}
+
+interface Sample<T> {
+  value: T;
+  weight: number;
+}
+
+/**
+ * Weighted median; an exact half split averages the two middle values
+ * like an ordinary median
+ */
+export function weightedMedian(samples: Sample<number>[]): number {
+  const sorted = [...samples].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, s) => sum + s.weight, 0);
+  let acc = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    acc += sorted[i].weight;
+    if (Math.abs(acc - total / 2) < 1e-9 && i + 1 < sorted.length) {
+      return (sorted[i].value + sorted[i + 1].value) / 2;
+    }
+    if (acc > total / 2) return sorted[i].value;
+  }
+  return sorted[sorted.length - 1]?.value ?? 0;
+}
+
+// Most weight wins; ties go to the value seen first (earliest entry)
+function weightedVote<T>(samples: Sample<T>[]): T {
+  const totals = new Map<T, number>();
+  for (const s of samples) totals.set(s.value, (totals.get(s.value) ?? 0) + s.weight);
+  let best = samples[0].value;
+  for (const [value, weight] of totals) {
+    if (weight > totals.get(best)!) best = value;
+  }
+  return best;
+}
+
+/**
+ * Reduce one robot-match's entries (oldest first) to a reconciled record
+ */
+function reconcileGroup(
+  entries: ConsensusSourceEntry[],
+  weights: Map<string, number>,
+  resolution: ConsensusResolution | undefined,
+  threshold: number
+): ReconciledRecord {
+  const first = entries[0];
+  const game = getGameDefinition(first.season) ?? getGameDefinition(CURRENT_SEASON)!;
+  const valueSets = entries.map((e) => getEntryScoringValues(game, e));
+
+  // Zero-weight scouts are ignored unless every scout is zero-weight
+  let entryWeights = entries.map((e) => weights.get(`${e.scoutingTeamId}:${e.scouterId}`) ?? 1);
+  if (entryWeights.every((w) => w <= 0)) entryWeights = entries.map(() => 1);
+
+  const conflicts: FieldConflict[] = [];
+  const describe = (field: string, pick: (i: number) => number | boolean | string) => ({
+    field,
+    values: entries.map((e, i) => ({ entryId: e.id, scouterId: e.scouterId, value: pick(i) })),
+  });
+
+  const values: ScoringValues = {};
+  for (const el of game.elements) {
+    const samples = valueSets.map((v, i) => ({ value: v[el.key], weight: entryWeights[i] }));
+    if (el.kind === "count") {
+      values[el.key] = weightedMedian(samples as Sample<number>[]);
+    } else {
+      values[el.key] = weightedVote(samples);
+      if (new Set(samples.map((s) => s.value)).size > 1) {
+        conflicts.push(describe(el.key, (i) => valueSets[i][el.key]));
+      }
+    }
+  }
+
+  const scores = {} as Record<(typeof SCORE_FIELDS)[number], number>;
+  for (const field of SCORE_FIELDS) {
+    const nums = entries.map((e) => e[field]);
+    scores[field] = weightedMedian(nums.map((value, i) => ({ value, weight: entryWeights[i] })));
+    if (Math.max(...nums) - Math.min(...nums) > threshold) {
+      conflicts.push(describe(field, (i) => nums[i]));
+    }
+  }
+
+  const base = {
+    key: robotMatchKey(first),
+    scoutingTeamId: first.scoutingTeamId,
+    scoutedTeamId: first.scoutedTeamId,
+    eventCode: first.eventCode,
+    matchNumber: first.matchNumber,
+    alliance: first.alliance,
+    season: game.season,
+    entryIds: entries.map((e) => e.id),
+    conflicts,
+  };
+
+  const canonical = resolution?.canonicalEntryId
+    ? entries.find((e) => e.id === resolution.canonicalEntryId)
+    : undefined;
+  if (canonical && resolution) {
+    return {
+      ...base,
+      values: getEntryScoringValues(game, canonical),
+      autoScore: canonical.autoScore,
+      teleopScore: canonical.teleopScore,
+      endgameScore: canonical.endgameScore,
+      totalScore: canonical.totalScore,
+      method: "picked",
+      resolutionId: resolution.id,
+    };
+  }
+  if (resolution && resolution.scoringData && resolution.totalScore !== null) {
+    return {
+      ...base,
+      values: getEntryScoringValues(game, { scoringData: resolution.scoringData }),
+      autoScore: resolution.autoScore ?? 0,
+      teleopScore: resolution.teleopScore ?? 0,
+      endgameScore: resolution.endgameScore ?? 0,
+      totalScore: resolution.totalScore,
+      method: "merged",
+      resolutionId: resolution.id,
+    };
+  }
+
+  return {
+    ...base,
+    values,
+    ...scores,
+    method: entries.length === 1 ? "single" : "consensus",
+    resolutionId: null,
+  };
+}
+
+/**
+ * Group entries by robot-match and reconcile each group. Records come back
+ * in the order their robot-match was first seen.
+ */
+export function reconcileEntries(
+  entries: ConsensusSourceEntry[],
+  options: ReconcileOptions = {}
+): ReconciledRecord[] {
+  const groups = new Map<string, ConsensusSourceEntry[]>();
+  for (const entry of entries) {
+    const key = robotMatchKey(entry);
+    const group = groups.get(key) ?? [];
+    group.push(entry);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()].map(([key, group]) =>
+    reconcileGroup(
+      [...group].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      options.weights ?? new Map(),
+      options.resolutions?.get(key),
+      options.threshold ?? DEFAULT_DISAGREEMENT_THRESHOLD
+    )
+  );
+}
+
+/**
+ * Scout weights and leader resolutions needed to reconcile a set of
+ * entries. Only robot-matches scouted more than once are looked up, since
+ * a lone entry is its own consensus.
+ */
+export async function loadConsensusContext(
+  entries: ConsensusSourceEntry[]
+): Promise<Required<Pick<ReconcileOptions, "weights" | "resolutions">>> {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const key = robotMatchKey(entry);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const duplicated = entries.filter((e) => counts.get(robotMatchKey(e))! > 1);
+  if (duplicated.length === 0) {
+    return { weights: new Map(), resolutions: new Map() };
+  }
+
+  const teamIds = [...new Set(duplicated.map((e) => e.scoutingTeamId))];
+  const eventCodes = [...new Set(duplicated.map((e) => e.eventCode))];
+  const [members, resolutions] = await Promise.all([
+    prisma.teamMember.findMany({
+      where: { teamId: { in: teamIds } },
+      select: { userId: true, teamId: true, scoutWeight: true },
+    }),
+    prisma.scoutingResolution.findMany({
+      where: { scoutingTeamId: { in: teamIds }, eventCode: { in: eventCodes } },
+    }),
+  ]);
+
+  return {
+    weights: new Map(members.map((m) => [`${m.teamId}:${m.userId}`, m.scoutWeight])),
+    resolutions: new Map(resolutions.map((r) => [robotMatchKey(r), r])),
+  };
+}
+
+/**
+ * Load and reconcile every entry matching a ScoutingEntry filter
+ */
+export async function findReconciledEntries(
+  where: Record<string, unknown>,
+  threshold?: number
+): Promise<ReconciledRecord[]> {
+  const entries = await prisma.scoutingEntry.findMany({ where });
+  const context = await loadConsensusContext(entries);
+  return reconcileEntries(entries, { ...context, threshold });
+}
+
+/**
+ * Average reconciled robot-matches into the team-summary figures
+ */
+export function summarizeRecords(records: ReconciledRecord[]) {
+  const avg = (arr: number[]) => {
+    const validNums = arr.filter(n => Number.isFinite(n));
+    return validNums.length > 0 ? validNums.reduce((a, b) => a + b, 0) / validNums.length : 0;
+  };
+
+  // Element averages use the game of the most recent season scouted
+  const season = Math.max(...records.map((r) => r.season));
+  const game = getGameDefinition(season) ?? getGameDefinition(CURRENT_SEASON)!;
+  const seasonRecords = records.filter((r) => r.season === game.season);
+
+  return {
+    matchCount: records.length,
+    // Robot-matches whose scouts disagree and no leader has resolved
+    conflictCount: records.filter((r) => r.method === "consensus" && r.conflicts.length > 0).length,
+    averages: {
+      autoScore: avg(records.map((r) => r.autoScore)),
+      teleopScore: avg(records.map((r) => r.teleopScore)),
+      endgameScore: avg(records.map((r) => r.endgameScore)),
+      totalScore: avg(records.map((r) => r.totalScore)),
+      ...averageScoringValues(
+        game,
+        seasonRecords.map((r) => r.values)
+      ),
+    },
+  };
+}
+
+/**
+ * Reconcile entries and summarize them per scouted team, sorted by team
+ * number
+ */
+export async function summarizeTeams(
+  entries: Array<ConsensusSourceEntry & { scoutedTeam: { teamNumber: number } }>
+) {
+  const records = reconcileEntries(entries, await loadConsensusContext(entries));
+
+  const teamNumbers = new Map<string, number>();
+  const entryCounts = new Map<string, number>();
+  for (const entry of entries) {
+    teamNumbers.set(entry.scoutedTeamId, entry.scoutedTeam.teamNumber);
+    entryCounts.set(entry.scoutedTeamId, (entryCounts.get(entry.scoutedTeamId) ?? 0) + 1);
+  }
+
+  const recordsByTeam = new Map<string, ReconciledRecord[]>();
+  for (const record of records) {
+    const list = recordsByTeam.get(record.scoutedTeamId) ?? [];
+    list.push(record);
+    recordsByTeam.set(record.scoutedTeamId, list);
+  }
+
+  return [...recordsByTeam.entries()]
+    .map(([scoutedTeamId, teamRecords]) => ({
+      teamNumber: teamNumbers.get(scoutedTeamId)!,
+      ...summarizeRecords(teamRecords),
+      entryCount: entryCounts.get(scoutedTeamId) ?? 0,
+    }))
+    .sort((a, b) => a.teamNumber - b.teamNumber);
+}
@@ -0,0 +1,191 @@
+/**
+ * Event statistics helpers
+ *
+ * Turns an event's stored/FTC match data into the inputs the EPA and OPR
+ * calculators expect, and computes per-event ratings shared by analytics,
+ * pick lists and simulations.
+ */
+
+import { prisma } from "@ftcmetrics/db";
+import { getFTCApi, type FTCMatch } from "./ftc-api";
+import { getEventMatchData } from "./event-sync";
+import {
+  calculateOPR,
+  getScoreBreakdownFields,
+  type MatchResult,
+  type OPRResult,
+} from "./stats/opr";
+import { calculateEPA, type EPAResult, type MatchForEPA } from "./stats/epa";
+import type { PlayedPlayoffMatch } from "./stats/playoff-sim";
+import type { ScheduledMatch } from "./stats/rank-projection";
+
+/**
+ * Transform FTC API match data to our match format
+ */
+export function transformMatches(
+  matches: Array<{
+    matchNumber: number;
+    teams: Array<{ teamNumber: number; station: string }>;
+  }>,
+  scores: Array<{
+    matchNumber: number;
+    alliances: Array<{
+      alliance: "Red" | "Blue";
+      totalPoints: number;
+      autoPoints: number;
+      dcPoints: number;
+      endgamePoints: number;
+      team1: number;
+      team2: number;
+    }>;
+  }>
+): MatchResult[] {
+  const results: MatchResult[] = [];
+
+  for (const match of matches) {
+    const scoreData = scores.find((s) => s.matchNumber === match.matchNumber);
+    if (!scoreData || scoreData.alliances.length < 2) continue;
+
+    const redAlliance = scoreData.alliances.find((a) => a.alliance === "Red");
+    const blueAlliance = scoreData.alliances.find((a) => a.alliance === "Blue");
+
+    if (!redAlliance || !blueAlliance) continue;
+
+    // Get team numbers from match teams
+    const redTeams = match.teams
+      .filter((t) => t.station.startsWith("Red"))
+      .map((t) => t.teamNumber);
+    const blueTeams = match.teams
+      .filter((t) => t.station.startsWith("Blue"))
+      .map((t) => t.teamNumber);
+
+    if (redTeams.length < 2 || blueTeams.length < 2) continue;
+
+    // DECODE 2025-2026 uses teleopPoints/teleopBasePoints instead of dcPoints/endgamePoints
+    const redTeleop = redAlliance.dcPoints ?? (redAlliance as Record<string, unknown>).teleopPoints as number ?? 0;
+    const redEndgame = redAlliance.endgamePoints ?? (redAlliance as Record<string, unknown>).teleopBasePoints as number ?? 0;
+    const blueTeleop = blueAlliance.dcPoints ?? (blueAlliance as Record<string, unknown>).teleopPoints as number ?? 0;
+    const blueEndgame = blueAlliance.endgamePoints ?? (blueAlliance as Record<string, unknown>).teleopBasePoints as number ?? 0;
+
+    results.push({
+      redTeam1: redTeams[0],
+      redTeam2: redTeams[1],
+      blueTeam1: blueTeams[0],
+      blueTeam2: blueTeams[1],
+      redScore: redAlliance.totalPoints,
+      blueScore: blueAlliance.totalPoints,
+      redAutoScore: redAlliance.autoPoints,
+      redTeleopScore: redTeleop,
+      redEndgameScore: redEndgame,
+      blueAutoScore: blueAlliance.autoPoints,
+      blueTeleopScore: blueTeleop,
+      blueEndgameScore: blueEndgame,
+      redBreakdown: getScoreBreakdownFields(redAlliance),
+      blueBreakdown: getScoreBreakdownFields(blueAlliance),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Compute EPA results from an event's match data.
+ * Returns null if the event has no scored matches.
+ */
+export async function getEventEPAResults(
+  eventCode: string
+): Promise<{ epaResults: Map<number, EPAResult>; epaMatches: MatchForEPA[] } | null> {
+  const matchData = await getEventMatchData(eventCode, "qual");
+
+  const matches = transformMatches(
+    matchData.matches,
+    matchData.matchScores
+  );
+
+  if (matches.length === 0) return null;
+
+  const epaMatches: MatchForEPA[] = matchData.matches
+    .map((m, idx) => {
+      const matchResult = matches[idx];
+      if (!matchResult) return null;
+      return { matchNumber: m.matchNumber, ...matchResult };
+    })
+    .filter((m): m is MatchForEPA => m !== null);
+
+  const epaResults = calculateEPA(epaMatches);
+  return { epaResults, epaMatches };
+}
+
+/**
+ * Compute OPR results from an event's qualification matches.
+ * Returns an empty map if the event has no scored matches.
+ */
+export async function getEventOPRResults(
+  eventCode: string
+): Promise<Map<number, OPRResult>> {
+  const matchData = await getEventMatchData(eventCode, "qual");
+  return calculateOPR(transformMatches(matchData.matches, matchData.matchScores));
+}
+
+/**
+ * Get an event's completed playoff matches with the teams on each side.
+ * Scores are paired with matches by series and match number.
+ */
+export async function getEventPlayoffResults(
+  eventCode: string
+): Promise<PlayedPlayoffMatch[]> {
+  const matchData = await getEventMatchData(eventCode, "playoff");
+  const results: PlayedPlayoffMatch[] = [];
+
+  for (const match of matchData.matches) {
+    const series = match.series ?? 0;
+    const score = matchData.matchScores.find(
+      (s) => (s.matchSeries ?? 0) === series && s.matchNumber === match.matchNumber
+    );
+    const red = score?.alliances.find((a) => a.alliance === "Red");
+    const blue = score?.alliances.find((a) => a.alliance === "Blue");
+    if (!red || !blue) continue;
+
+    results.push({
+      series,
+      matchNumber: match.matchNumber,
+      redTeams: match.teams.filter((t) => t.station.startsWith("Red")).map((t) => t.teamNumber),
+      blueTeams: match.teams.filter((t) => t.station.startsWith("Blue")).map((t) => t.teamNumber),
+      redScore: red.totalPoints,
+      blueScore: blue.totalPoints,
+    });
+  }
+
+  return results;
+}
+
+function toScheduledMatch(match: FTCMatch): ScheduledMatch {
+  return {
+    matchNumber: match.matchNumber,
+    redTeams: match.teams.filter((t) => t.station.startsWith("Red")).map((t) => t.teamNumber),
+    blueTeams: match.teams.filter((t) => t.station.startsWith("Blue")).map((t) => t.teamNumber),
+    surrogates: match.teams.filter((t) => t.surrogate).map((t) => t.teamNumber),
+  };
+}
+
+/**
+ * Get an event's full qualification schedule, played or not. Falls back to
+ * the schedule stored by the event sync worker when the FTC API fails.
+ */
+export async function getEventQualSchedule(eventCode: string): Promise<ScheduledMatch[]> {
+  try {
+    const { schedule } = await getFTCApi().getSchedule(eventCode, "qual");
+    return (schedule ?? []).map(toScheduledMatch);
+  } catch (apiError) {
+    const rows = await prisma.match.findMany({
+      where: { eventCode, tournamentLevel: "QUALIFICATION" },
+      orderBy: { matchNumber: "asc" },
+    });
+    if (rows.length === 0) throw apiError;
+    return rows.map((row) => ({
+      matchNumber: row.matchNumber,
+      redTeams: [row.red1, row.red2],
+      blueTeams: [row.blue1, row.blue2],
+    }));
+  }
+}
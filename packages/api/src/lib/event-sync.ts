@@ -0,0 +1,482 @@
+/**
+ * Event Sync Worker
+ *
+ * Persists FTC schedules, results and full score breakdowns into the
+ * Event/Match tables so analytics and rankings can be served from the
+ * database when the FTC API is slow or down. In-progress events with local
+ * scouting activity are re-synced on a configurable cadence; other events
+ * are written through the first time they are read from the API.
+ */
+
+import { prisma } from "@ftcmetrics/db";
+import { CURRENT_SEASON } from "@ftcmetrics/shared";
+import { getFTCApi, type FTCMatch, type FTCMatchScore } from "./ftc-api";
+
+export type TournamentLevel = "qual" | "playoff";
+
+const LEVEL_NAMES: Record<TournamentLevel, string> = {
+  qual: "QUALIFICATION",
+  playoff: "PLAYOFF",
+};
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const STATIONS = ["Red1", "Red2", "Blue1", "Blue2"] as const;
+
+/**
+ * Sync cadence in milliseconds (EVENT_SYNC_INTERVAL_SECONDS, default 5 min).
+ * 0 disables the background worker.
+ */
+export const EVENT_SYNC_INTERVAL_MS =
+  Math.max(0, parseInt(process.env.EVENT_SYNC_INTERVAL_SECONDS || "300", 10) || 0) * 1000;
+
+interface StoredMatchRow {
+  matchNumber: number;
+  matchSeries: number;
+  red1: number;
+  red2: number;
+  blue1: number;
+  blue2: number;
+  redScore: number | null;
+  blueScore: number | null;
+  scoreDetails: FTCMatchScore | null;
+  scheduledTime: Date | null;
+  actualTime: Date | null;
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Merge schedule, results and scores for one tournament level into rows
+ * keyed by (series, matchNumber). Matches without four assigned teams
+ * (e.g. playoffs before alliance selection) are skipped.
+ */
+function buildMatchRows(
+  level: TournamentLevel,
+  schedule: FTCMatch[],
+  matches: FTCMatch[],
+  scores: FTCMatchScore[]
+): StoredMatchRow[] {
+  const key = (series: number, matchNumber: number) => `${series}-${matchNumber}`;
+
+  const scoreIndex = new Map<string, FTCMatchScore>();
+  for (const s of scores) {
+    scoreIndex.set(key(level === "qual" ? 0 : s.matchSeries, s.matchNumber), s);
+  }
+
+  const combined = new Map<string, FTCMatch>();
+  for (const m of schedule) {
+    if (level === "playoff" && m.series === undefined) continue;
+    combined.set(key(level === "qual" ? 0 : m.series ?? 0, m.matchNumber), m);
+  }
+  // Results override the schedule. Playoff results without a series are
+  // paired with scores positionally, matching how the analytics routes read them.
+  matches.forEach((m, idx) => {
+    const series = level === "qual" ? 0 : m.series ?? scores[idx]?.matchSeries ?? 0;
+    combined.set(key(series, m.matchNumber), m);
+  });
+
+  const rows: StoredMatchRow[] = [];
+  for (const [matchKey, m] of combined) {
+    const [red1, red2, blue1, blue2] = STATIONS.map(
+      (station) => m.teams?.find((t) => t.station === station)?.teamNumber
+    );
+    if (!red1 || !red2 || !blue1 || !blue2) continue;
+
+    const score = scoreIndex.get(matchKey) ?? null;
+    const red = score?.alliances.find((a) => a.alliance === "Red");
+    const blue = score?.alliances.find((a) => a.alliance === "Blue");
+    const hasScore = !!red && !!blue;
+
+    rows.push({
+      matchNumber: m.matchNumber,
+      matchSeries: parseInt(matchKey.split("-")[0], 10),
+      red1,
+      red2,
+      blue1,
+      blue2,
+      redScore: hasScore ? red.totalPoints : null,
+      blueScore: hasScore ? blue.totalPoints : null,
+      scoreDetails: hasScore ? score : null,
+      scheduledTime: parseDate(m.startTime),
+      actualTime: parseDate(m.actualStartTime),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Make sure an Event row exists (matches reference it). With refresh, the
+ * row is updated from the FTC API so placeholder events get real details.
+ */
+export async function ensureEvent(eventCode: string, refresh = false): Promise<void> {
+  if (!refresh) {
+    const existing = await prisma.event.findUnique({ where: { eventCode } });
+    if (existing) return;
+  }
+
+  let details: {
+    name: string;
+    startDate: Date;
+    endDate: Date;
+    venue: string | null;
+    city: string | null;
+    stateProv: string | null;
+    country: string | null;
+    timezone: string | null;
+  } | null = null;
+
+  try {
+    const { events } = await getFTCApi().getEvent(eventCode);
+    const ftcEvent = events[0];
+    if (ftcEvent) {
+      details = {
+        name: ftcEvent.name,
+        startDate: new Date(ftcEvent.dateStart),
+        endDate: new Date(ftcEvent.dateEnd),
+        venue: ftcEvent.venue || null,
+        city: ftcEvent.city || null,
+        stateProv: ftcEvent.stateprov || null,
+        country: ftcEvent.country || null,
+        timezone: ftcEvent.timezone || null,
+      };
+    }
+  } catch {
+    // FTC API unavailable, fall through to placeholder
+  }
+
+  if (details) {
+    await prisma.event.upsert({
+      where: { eventCode },
+      create: { eventCode, season: CURRENT_SEASON, ...details },
+      update: details,
+    });
+  } else {
+    await prisma.event.upsert({
+      where: { eventCode },
+      create: {
+        eventCode,
+        season: CURRENT_SEASON,
+        name: eventCode,
+        startDate: new Date(),
+        endDate: new Date(),
+      },
+      update: {},
+    });
+  }
+}
+
+/**
+ * Upsert one tournament level's matches for an event.
+ * Returns the number of rows written.
+ */
+async function storeEventMatches(
+  eventCode: string,
+  level: TournamentLevel,
+  schedule: FTCMatch[],
+  matches: FTCMatch[],
+  scores: FTCMatchScore[]
+): Promise<number> {
+  const rows = buildMatchRows(level, schedule, matches, scores);
+  const tournamentLevel = LEVEL_NAMES[level];
+
+  for (const row of rows) {
+    const { scoreDetails, ...fields } = row;
+    // Don't erase a stored result if a later response omits the score
+    const data = {
+      ...fields,
+      ...(scoreDetails
+        ? { scoreDetails: scoreDetails as object }
+        : { redScore: undefined, blueScore: undefined }),
+    };
+
+    await prisma.match.upsert({
+      where: {
+        eventCode_tournamentLevel_matchSeries_matchNumber: {
+          eventCode,
+          tournamentLevel,
+          matchSeries: row.matchSeries,
+          matchNumber: row.matchNumber,
+        },
+      },
+      create: { eventCode, tournamentLevel, ...data },
+      update: data,
+    });
+  }
+
+  return rows.length;
+}
+
+/**
+ * Find the stored qualification match a scouting entry refers to.
+ */
+export async function findQualMatchId(
+  eventCode: string,
+  matchNumber: number
+): Promise<string | null> {
+  const match = await prisma.match.findUnique({
+    where: {
+      eventCode_tournamentLevel_matchSeries_matchNumber: {
+        eventCode,
+        tournamentLevel: LEVEL_NAMES.qual,
+        matchSeries: 0,
+        matchNumber,
+      },
+    },
+    select: { id: true },
+  });
+  return match?.id ?? null;
+}
+
+/**
+ * Link unlinked scouting entries at an event to their stored qualification
+ * matches. Returns the number of entries linked.
+ */
+export async function linkScoutingEntries(eventCode: string): Promise<number> {
+  const unlinked = await prisma.scoutingEntry.findMany({
+    where: { eventCode, matchId: null },
+    select: { matchNumber: true },
+    distinct: ["matchNumber"],
+  });
+  if (unlinked.length === 0) return 0;
+
+  const matches = await prisma.match.findMany({
+    where: {
+      eventCode,
+      tournamentLevel: LEVEL_NAMES.qual,
+      matchSeries: 0,
+      matchNumber: { in: unlinked.map((e) => e.matchNumber) },
+    },
+    select: { id: true, matchNumber: true },
+  });
+
+  let linked = 0;
+  for (const match of matches) {
+    const { count } = await prisma.scoutingEntry.updateMany({
+      where: { eventCode, matchNumber: match.matchNumber, matchId: null },
+      data: { matchId: match.id },
+    });
+    linked += count;
+  }
+  return linked;
+}
+
+/**
+ * Pull schedules, results and score breakdowns for one event from the FTC
+ * API into the database, then link scouting entries to their matches.
+ */
+export async function syncEvent(
+  eventCode: string
+): Promise<{ matches: number; linked: number }> {
+  const api = getFTCApi();
+  await ensureEvent(eventCode, true);
+
+  let stored = 0;
+  for (const level of ["qual", "playoff"] as const) {
+    const [schedule, matches, scores] = await Promise.all([
+      api.getSchedule(eventCode, level).then((r) => r.schedule ?? []).catch(() => []),
+      api.getMatches(eventCode, level).then((r) => r.matches ?? []).catch(() => []),
+      api.getScores(eventCode, level).then((r) => r.matchScores ?? []).catch(() => []),
+    ]);
+    stored += await storeEventMatches(eventCode, level, schedule, matches, scores);
+  }
+
+  const linked = await linkScoutingEntries(eventCode);
+  return { matches: stored, linked };
+}
+
+/**
+ * Events in progress (with a day of slack either side) that someone here is
+ * working on: they have scouting entries, notes, pick lists or scouting
+ * assignments. Other events are written through when they are read, so the
+ * worker doesn't spend FTC API quota on events nobody follows.
+ */
+async function getActiveEventCodes(): Promise<string[]> {
+  const now = Date.now();
+  const events = await prisma.event.findMany({
+    where: {
+      startDate: { lte: new Date(now + ONE_DAY_MS) },
+      endDate: { gte: new Date(now - ONE_DAY_MS) },
+      OR: [
+        { scoutingEntries: { some: {} } },
+        { scoutingNotes: { some: {} } },
+        { pickLists: { some: {} } },
+        { scoutingRotations: { some: {} } },
+      ],
+    },
+    select: { eventCode: true },
+  });
+
+  return events.map((e) => e.eventCode);
+}
+
+let syncInProgress = false;
+
+/**
+ * Sync every active event. Overlapping runs are skipped.
+ */
+export async function syncActiveEvents(): Promise<void> {
+  if (syncInProgress) return;
+  syncInProgress = true;
+  const startTime = Date.now();
+
+  try {
+    const eventCodes = await getActiveEventCodes();
+    let matchCount = 0;
+    let linkedCount = 0;
+
+    // Small batches to avoid overwhelming the FTC API
+    for (let i = 0; i < eventCodes.length; i += 5) {
+      const batch = eventCodes.slice(i, i + 5);
+      await Promise.all(
+        batch.map(async (eventCode) => {
+          try {
+            const result = await syncEvent(eventCode);
+            matchCount += result.matches;
+            linkedCount += result.linked;
+          } catch (err) {
+            console.warn(
+              `[EventSync] Failed to sync event ${eventCode}:`,
+              err instanceof Error ? err.message : err
+            );
+          }
+        })
+      );
+    }
+
+    console.log(
+      `[EventSync] Synced ${eventCodes.length} events (${matchCount} matches, ${linkedCount} entries linked) in ${Date.now() - startTime}ms`
+    );
+  } finally {
+    syncInProgress = false;
+  }
+}
+
+/**
+ * Stored data is served without asking the FTC API once it was fetched
+ * after the event was over, or while the sync worker is keeping it current.
+ * Data last fetched during the event may be partial, so a finished event is
+ * refetched once; that write-through makes it final.
+ */
+function isStoredDataCurrent(eventEnd: Date | null, lastFetched: Date): boolean {
+  if (eventEnd) {
+    const over = eventEnd.getTime() + ONE_DAY_MS;
+    if (over < Date.now() && lastFetched.getTime() >= over) return true;
+  }
+  if (EVENT_SYNC_INTERVAL_MS <= 0) return false;
+  return Date.now() - lastFetched.getTime() < EVENT_SYNC_INTERVAL_MS * 2;
+}
+
+function toFTCMatch(
+  row: {
+    matchNumber: number;
+    matchSeries: number;
+    tournamentLevel: string;
+    red1: number;
+    red2: number;
+    blue1: number;
+    blue2: number;
+    scheduledTime: Date | null;
+    actualTime: Date | null;
+    updatedAt: Date;
+  }
+): FTCMatch {
+  const teamNumbers = [row.red1, row.red2, row.blue1, row.blue2];
+  return {
+    matchNumber: row.matchNumber,
+    tournamentLevel: row.tournamentLevel,
+    series: row.matchSeries,
+    description: "",
+    startTime: row.scheduledTime?.toISOString() ?? "",
+    actualStartTime: row.actualTime?.toISOString() ?? null,
+    postResultTime: null,
+    teams: STATIONS.map((station, i) => ({
+      teamNumber: teamNumbers[i],
+      station,
+      surrogate: false,
+      dq: false,
+    })),
+    modifiedOn: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Get played matches and their score breakdowns for an event, in the same
+ * shape as the FTC API's /matches and /scores responses (index-aligned).
+ *
+ * Reads the database first and only asks the FTC API when nothing is stored
+ * or the stored copy may be out of date. If the API then fails, stored data
+ * is served anyway. Fresh API data is written through in the background.
+ */
+export async function getEventMatchData(
+  eventCode: string,
+  level: TournamentLevel = "qual"
+): Promise<{ matches: FTCMatch[]; matchScores: FTCMatchScore[] }> {
+  let stored: { matches: FTCMatch[]; matchScores: FTCMatchScore[] } | null = null;
+
+  try {
+    const [event, rows] = await Promise.all([
+      prisma.event.findUnique({ where: { eventCode }, select: { endDate: true } }),
+      prisma.match.findMany({
+        where: {
+          eventCode,
+          tournamentLevel: LEVEL_NAMES[level],
+          redScore: { not: null },
+        },
+        orderBy: [{ matchSeries: "asc" }, { matchNumber: "asc" }],
+      }),
+    ]);
+
+    if (rows.length > 0) {
+      stored = {
+        matches: rows.map(toFTCMatch),
+        matchScores: rows.map((row) => row.scoreDetails as unknown as FTCMatchScore),
+      };
+      // Every fetch rewrites each stored row, so the newest is the last fetch
+      const lastFetched = new Date(Math.max(...rows.map((r) => r.updatedAt.getTime())));
+      if (isStoredDataCurrent(event?.endDate ?? null, lastFetched)) {
+        return stored;
+      }
+    }
+  } catch (err) {
+    console.warn(
+      `[EventSync] Failed to read stored matches for ${eventCode}:`,
+      err instanceof Error ? err.message : err
+    );
+  }
+
+  try {
+    const api = getFTCApi();
+    const [matchesResult, scoresResult] = await Promise.all([
+      api.getMatches(eventCode, level),
+      api.getScores(eventCode, level),
+    ]);
+    const matches = matchesResult.matches ?? [];
+    const matchScores = scoresResult.matchScores ?? [];
+
+    if (matchScores.length > 0) {
+      ensureEvent(eventCode)
+        .then(() => storeEventMatches(eventCode, level, [], matches, matchScores))
+        .catch((err) =>
+          console.warn(
+            `[EventSync] Failed to store matches for ${eventCode}:`,
+            err instanceof Error ? err.message : err
+          )
+        );
+    }
+
+    return { matches, matchScores };
+  } catch (apiError) {
+    if (stored) {
+      console.warn(
+        `[EventSync] FTC API unavailable for ${eventCode}, serving stored matches`
+      );
+      return stored;
+    }
+    throw apiError;
+  }
+}
@@ -3,16 +3,31 @@
  *
  * Official API documentation: https://ftc-api.firstinspires.org/
  * Base URL: https://ftc-events.firstinspires.org/api/v2.0
+ *
+ * Everything reads FTC data through the FtcDataSource interface. The source is
+ * picked by FTC_DATA_SOURCE:
+ * - live (default): the FTC Events API, or any server at FTC_API_BASE_URL
+ * - fixtures: JSON responses recorded from the live API (see FTC_FIXTURES_RECORD)
+ * - synthetic: generated events, schedules, scores and rankings (see ftc-synthetic.ts)
  */
 
+import fs from "node:fs";
+import path from "node:path";
+import { CURRENT_SEASON } from "@ftcmetrics/shared";
 import { getRedis } from "./redis";
+import { SyntheticDataSource, syntheticConfigFromEnv } from "./ftc-synthetic";
 
 const FTC_API_BASE = "https://ftc-api.firstinspires.org/v2.0";
-const CURRENT_SEASON = 2025; // DECODE season
+
+const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, "../../fixtures/ftc");
 
 interface FTCApiConfig {
   username: string;
   token: string;
+  // Overrides the FTC API base URL, e.g. to point at the mock server
+  baseUrl?: string;
+  // Write every response to this fixtures directory for later replay
+  recordDir?: string;
 }
 
 // TTL configuration: endpoint pattern -> { freshTtl, staleTtl } in seconds
@@ -76,6 +91,7 @@ export interface FTCTeam {
 export interface FTCMatch {
   matchNumber: number;
   tournamentLevel: string;
+  series?: number; // Playoff series; absent or 0 for quals
   description: string;
   startTime: string;
   actualStartTime: string | null;
@@ -130,13 +146,140 @@ export interface FTCRankings {
 
 const VALID_EVENT_CODE = /^[A-Za-z0-9]+$/;
 
-class FTCEventsAPI {
+export type TournamentLevel = "qual" | "playoff";
+
+/**
+ * Where FTC event data comes from. Routes and sync jobs only use these
+ * methods, so any implementation can stand in for the live API.
+ */
+export interface FtcDataSource {
+  getEvents(): Promise<{ events: FTCEvent[] }>;
+  getEvent(eventCode: string): Promise<{ events: FTCEvent[] }>;
+  getEventTeams(eventCode: string): Promise<{ teams: FTCTeam[] }>;
+  getTeam(teamNumber: number): Promise<{ teams: FTCTeam[] }>;
+  getSchedule(eventCode: string, tournamentLevel?: TournamentLevel): Promise<{ schedule: FTCMatch[] }>;
+  getMatches(eventCode: string, tournamentLevel?: TournamentLevel): Promise<{ matches: FTCMatch[] }>;
+  getScores(eventCode: string, tournamentLevel?: TournamentLevel): Promise<{ matchScores: FTCMatchScore[] }>;
+  getRankings(eventCode: string): Promise<FTCRankings>;
+  getTeamEvents(teamNumber: number): Promise<{ events: FTCEvent[] }>;
+}
+
+/**
+ * Maps each data source method to its FTC API endpoint. Subclasses decide
+ * how an endpoint is resolved (HTTP request or recorded file).
+ */
+abstract class EndpointDataSource implements FtcDataSource {
+  protected abstract fetch<T>(endpoint: string): Promise<T>;
+
+  /**
+   * Get list of all events for the current season
+   */
+  async getEvents(): Promise<{ events: FTCEvent[] }> {
+    return this.fetch<{ events: FTCEvent[] }>("/events");
+  }
+
+  /**
+   * Get a specific event by code
+   */
+  async getEvent(eventCode: string): Promise<{ events: FTCEvent[] }> {
+    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
+    return this.fetch<{ events: FTCEvent[] }>(`/events?eventCode=${eventCode}`);
+  }
+
+  /**
+   * Get teams at an event
+   */
+  async getEventTeams(eventCode: string): Promise<{ teams: FTCTeam[] }> {
+    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
+    return this.fetch<{ teams: FTCTeam[] }>(`/teams?eventCode=${eventCode}`);
+  }
+
+  /**
+   * Get a specific team
+   */
+  async getTeam(teamNumber: number): Promise<{ teams: FTCTeam[] }> {
+    return this.fetch<{ teams: FTCTeam[] }>(`/teams?teamNumber=${teamNumber}`);
+  }
+
+  /**
+   * Get match schedule for an event
+   */
+  async getSchedule(
+    eventCode: string,
+    tournamentLevel: TournamentLevel = "qual"
+  ): Promise<{ schedule: FTCMatch[] }> {
+    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
+    return this.fetch<{ schedule: FTCMatch[] }>(
+      `/schedule/${eventCode}?tournamentLevel=${tournamentLevel}`
+    );
+  }
+
+  /**
+   * Get match results for an event
+   */
+  async getMatches(
+    eventCode: string,
+    tournamentLevel: TournamentLevel = "qual"
+  ): Promise<{ matches: FTCMatch[] }> {
+    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
+    return this.fetch<{ matches: FTCMatch[] }>(
+      `/matches/${eventCode}?tournamentLevel=${tournamentLevel}`
+    );
+  }
+
+  /**
+   * Get detailed match scores for an event
+   */
+  async getScores(
+    eventCode: string,
+    tournamentLevel: TournamentLevel = "qual"
+  ): Promise<{ matchScores: FTCMatchScore[] }> {
+    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
+    return this.fetch<{ matchScores: FTCMatchScore[] }>(
+      `/scores/${eventCode}/${tournamentLevel}`
+    );
+  }
+
+  /**
+   * Get team rankings at an event
+   */
+  async getRankings(eventCode: string): Promise<FTCRankings> {
+    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
+    return this.fetch<FTCRankings>(`/rankings/${eventCode}`);
+  }
+
+  /**
+   * Get events a team is registered for
+   */
+  async getTeamEvents(teamNumber: number): Promise<{ events: FTCEvent[] }> {
+    return this.fetch<{ events: FTCEvent[] }>(
+      `/events?teamNumber=${teamNumber}`
+    );
+  }
+}
+
+/**
+ * Fixture file for an endpoint: <dir>/<season>/<endpoint with query>.json,
+ * e.g. /schedule/USTXCMP?tournamentLevel=qual ->
+ * 2025/schedule/USTXCMP__tournamentLevel=qual.json
+ */
+export function fixturePath(dir: string, season: number, endpoint: string): string {
+  const name = endpoint.replace(/^\//, "").replace(/\?/g, "__").replace(/&/g, "_");
+  return path.join(dir, String(season), `${name}.json`);
+}
+
+class FTCEventsAPI extends EndpointDataSource {
   private username: string;
   private token: string;
+  private baseUrl: string;
+  private recordDir: string | undefined;
 
   constructor(config: FTCApiConfig) {
+    super();
     this.username = config.username;
     this.token = config.token;
+    this.baseUrl = (config.baseUrl || FTC_API_BASE).replace(/\/$/, "");
+    this.recordDir = config.recordDir;
   }
 
   private getAuthHeader(): string {
@@ -146,9 +289,11 @@ class FTCEventsAPI {
     return `Basic ${credentials}`;
   }
 
-  private async fetch<T>(endpoint: string): Promise<T> {
-    const url = `${FTC_API_BASE}/${CURRENT_SEASON}${endpoint}`;
-    const cacheKey = `ftc-api:${CURRENT_SEASON}:${endpoint}`;
+  protected async fetch<T>(endpoint: string): Promise<T> {
+    const url = `${this.baseUrl}/${CURRENT_SEASON}${endpoint}`;
+    // Keep responses from a non-default server (e.g. the mock) apart from real ones
+    const origin = this.baseUrl === FTC_API_BASE ? "" : `${new URL(this.baseUrl).host}:`;
+    const cacheKey = `ftc-api:${origin}${CURRENT_SEASON}:${endpoint}`;
     const { freshTtl, staleTtl } = getTTL(endpoint);
     const redis = getRedis();
 
@@ -187,6 +332,16 @@ class FTCEventsAPI {
 
       const data = (await response.json()) as T;
 
+      if (this.recordDir) {
+        const file = fixturePath(this.recordDir, CURRENT_SEASON, endpoint);
+        try {
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, JSON.stringify(data, null, 2));
+        } catch (error) {
+          console.warn(`[FTC Fixtures] Failed to record ${endpoint}:`, error);
+        }
+      }
+
       // 3. Store in cache
       if (redis) {
         const entry: CacheEntry<T> = { data, cachedAt: Date.now() };
@@ -220,109 +375,69 @@ class FTCEventsAPI {
       throw apiError;
     }
   }
+}
 
-  /**
-   * Get list of all events for the current season
-   */
-  async getEvents(): Promise<{ events: FTCEvent[] }> {
-    return this.fetch<{ events: FTCEvent[] }>("/events");
-  }
-
-  /**
-   * Get a specific event by code
-   */
-  async getEvent(eventCode: string): Promise<{ events: FTCEvent[] }> {
-    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
-    return this.fetch<{ events: FTCEvent[] }>(`/events?eventCode=${eventCode}`);
-  }
-
-  /**
-   * Get teams at an event
-   */
-  async getEventTeams(eventCode: string): Promise<{ teams: FTCTeam[] }> {
-    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
-    return this.fetch<{ teams: FTCTeam[] }>(`/teams?eventCode=${eventCode}`);
-  }
-
-  /**
-   * Get a specific team
-   */
-  async getTeam(teamNumber: number): Promise<{ teams: FTCTeam[] }> {
-    return this.fetch<{ teams: FTCTeam[] }>(`/teams?teamNumber=${teamNumber}`);
-  }
-
-  /**
-   * Get match schedule for an event
-   */
-  async getSchedule(
-    eventCode: string,
-    tournamentLevel: "qual" | "playoff" = "qual"
-  ): Promise<{ schedule: FTCMatch[] }> {
-    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
-    return this.fetch<{ schedule: FTCMatch[] }>(
-      `/schedule/${eventCode}?tournamentLevel=${tournamentLevel}`
-    );
-  }
-
-  /**
-   * Get match results for an event
-   */
-  async getMatches(
-    eventCode: string,
-    tournamentLevel: "qual" | "playoff" = "qual"
-  ): Promise<{ matches: FTCMatch[] }> {
-    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
-    return this.fetch<{ matches: FTCMatch[] }>(
-      `/matches/${eventCode}?tournamentLevel=${tournamentLevel}`
-    );
+/**
+ * Replays responses recorded from the live API. Endpoints without a
+ * recording fail like a 404 from the API would.
+ */
+class FixtureDataSource extends EndpointDataSource {
+  constructor(private dir: string) {
+    super();
   }
 
-  /**
-   * Get detailed match scores for an event
-   */
-  async getScores(
-    eventCode: string,
-    tournamentLevel: "qual" | "playoff" = "qual"
-  ): Promise<{ matchScores: FTCMatchScore[] }> {
-    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
-    return this.fetch<{ matchScores: FTCMatchScore[] }>(
-      `/scores/${eventCode}/${tournamentLevel}`
-    );
+  protected async fetch<T>(endpoint: string): Promise<T> {
+    const file = fixturePath(this.dir, CURRENT_SEASON, endpoint);
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(file, "utf8");
+    } catch {
+      throw new Error(`FTC API Error: 404 No fixture for ${endpoint} (${file})`);
+    }
+    return JSON.parse(raw) as T;
   }
+}
 
-  /**
-   * Get team rankings at an event
-   */
-  async getRankings(eventCode: string): Promise<FTCRankings> {
-    if (!VALID_EVENT_CODE.test(eventCode)) throw new Error("Invalid event code");
-    return this.fetch<FTCRankings>(`/rankings/${eventCode}`);
-  }
+/**
+ * Build a data source of the given kind from env configuration
+ */
+export function createFtcDataSource(kind: string = "live"): FtcDataSource {
+  switch (kind) {
+    case "live": {
+      const username = process.env.FTC_API_USERNAME;
+      const token = process.env.FTC_API_TOKEN;
+      const baseUrl = process.env.FTC_API_BASE_URL || undefined;
+
+      // A custom server (the mock) doesn't check credentials
+      if ((!username || !token) && !baseUrl) {
+        throw new Error("FTC API credentials not configured");
+      }
 
-  /**
-   * Get events a team is registered for
-   */
-  async getTeamEvents(teamNumber: number): Promise<{ events: FTCEvent[] }> {
-    return this.fetch<{ events: FTCEvent[] }>(
-      `/events?teamNumber=${teamNumber}`
-    );
+      const record = process.env.FTC_FIXTURES_RECORD === "true";
+      return new FTCEventsAPI({
+        username: username || "mock",
+        token: token || "mock",
+        baseUrl,
+        recordDir: record ? process.env.FTC_FIXTURES_DIR || DEFAULT_FIXTURES_DIR : undefined,
+      });
+    }
+    case "fixtures":
+      return new FixtureDataSource(process.env.FTC_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+    case "synthetic":
+      return new SyntheticDataSource(syntheticConfigFromEnv());
+    default:
+      throw new Error(`Unknown FTC_DATA_SOURCE "${kind}" (expected live, fixtures or synthetic)`);
   }
 }
 
 // Create singleton instance
-let apiInstance: FTCEventsAPI | null = null;
+let apiInstance: FtcDataSource | null = null;
 
-export function getFTCApi(): FTCEventsAPI {
+export function getFTCApi(): FtcDataSource {
   if (!apiInstance) {
-    const username = process.env.FTC_API_USERNAME;
-    const token = process.env.FTC_API_TOKEN;
-
-    if (!username || !token) {
-      throw new Error("FTC API credentials not configured");
-    }
-
-    apiInstance = new FTCEventsAPI({ username, token });
+    apiInstance = createFtcDataSource(process.env.FTC_DATA_SOURCE || "live");
   }
   return apiInstance;
 }
 
-export { FTCEventsAPI };
+export { FTCEventsAPI, FixtureDataSource };
@@ -0,0 +1,546 @@
+/**
+ * Synthetic FTC event data
+ *
+ * Generates a small season of events with qualification schedules, scores and
+ * rankings, so the app can run without FTC API credentials. Every robot's
+ * DECODE element values are simulated and summed into the alliance scores, so
+ * scouting data seeded from getRobotResults() agrees with the official results.
+ * Output is deterministic for a given config: the same seed always produces
+ * the same teams, schedules and results. Event dates are relative to "now"; the
+ * latest event starts today and is only partly played.
+ */
+
+import { CURRENT_SEASON, DECODE, calculateGameScores, type ScoringValues } from "@ftcmetrics/shared";
+import type {
+  FtcDataSource,
+  FTCEvent,
+  FTCMatch,
+  FTCMatchScore,
+  FTCRankings,
+  FTCTeam,
+  TournamentLevel,
+} from "./ftc-api";
+import { createRandom, sampleNormal, shuffle } from "./stats/random";
+
+export interface SyntheticConfig {
+  seed: number;
+  // Teams attending each event
+  teamCount: number;
+  eventCount: number;
+  matchesPerTeam: number;
+  // Fraction (0-1) of the latest event's qualification matches with results
+  playedFraction: number;
+  season: number;
+  // Team numbers added to the pool and entered in every event
+  includeTeams: number[];
+  now?: Date;
+}
+
+const DEFAULT_CONFIG: SyntheticConfig = {
+  seed: 1,
+  teamCount: 24,
+  eventCount: 3,
+  matchesPerTeam: 5,
+  playedFraction: 0.5,
+  season: CURRENT_SEASON,
+  includeTeams: [],
+};
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Read FTC_SYNTHETIC_* env vars over the defaults
+ */
+export function syntheticConfigFromEnv(): SyntheticConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    seed: envNumber("FTC_SYNTHETIC_SEED") ?? DEFAULT_CONFIG.seed,
+    teamCount: envNumber("FTC_SYNTHETIC_TEAMS") ?? DEFAULT_CONFIG.teamCount,
+    eventCount: envNumber("FTC_SYNTHETIC_EVENTS") ?? DEFAULT_CONFIG.eventCount,
+    matchesPerTeam: envNumber("FTC_SYNTHETIC_MATCHES_PER_TEAM") ?? DEFAULT_CONFIG.matchesPerTeam,
+    playedFraction: envNumber("FTC_SYNTHETIC_PLAYED") ?? DEFAULT_CONFIG.playedFraction,
+    includeTeams: (process.env.FTC_SYNTHETIC_INCLUDE_TEAMS || "")
+      .split(",")
+      .map((n) => parseInt(n, 10))
+      .filter((n) => n > 0),
+  };
+}
+
+interface TeamProfile {
+  team: FTCTeam;
+  // Overall strength, 1 = an average robot
+  skill: number;
+  // Mean per match for count elements, probability for booleans
+  rates: Record<string, number>;
+  // Chance of a full base return and, failing that, a partial one
+  fullBase: number;
+  partialBase: number;
+  foulRate: number;
+}
+
+/**
+ * One robot's simulated performance in a played match
+ */
+export interface RobotResult {
+  matchNumber: number;
+  teamNumber: number;
+  station: string;
+  alliance: "RED" | "BLUE";
+  values: ScoringValues;
+}
+
+interface SyntheticEvent {
+  event: FTCEvent;
+  teamNumbers: number[];
+  schedule: FTCMatch[];
+  scores: FTCMatchScore[];
+  robots: RobotResult[];
+}
+
+interface SyntheticSeason {
+  teams: Map<number, TeamProfile>;
+  events: SyntheticEvent[];
+}
+
+type Alliance = FTCMatchScore["alliances"][number];
+
+const NAME_WORDS = [
+  ["Iron", "Quantum", "Circuit", "Rusty", "Golden", "Binary", "Atomic", "Silver", "Rogue", "Lunar", "Turbo", "Pixel"],
+  ["Owls", "Wolves", "Gears", "Falcons", "Bolts", "Mantis", "Otters", "Comets", "Knights", "Foxes", "Titans", "Hornets"],
+];
+
+const CITIES = [
+  ["Austin", "TX"],
+  ["Dallas", "TX"],
+  ["Houston", "TX"],
+  ["San Antonio", "TX"],
+  ["El Paso", "TX"],
+  ["Plano", "TX"],
+];
+
+const MATCH_MINUTES = 7;
+
+// An average DECODE robot: mean count per match, or chance for booleans
+const DECODE_RATES: Record<string, number> = {
+  autoLeave: 0.85,
+  autoClassifiedCount: 1.5,
+  autoOverflowCount: 0.8,
+  autoPatternCount: 0.5,
+  teleopClassifiedCount: 6,
+  teleopOverflowCount: 2.5,
+  teleopDepotCount: 1.5,
+  teleopPatternCount: 1,
+  teleopMotifCount: 0.6,
+};
+
+function clampInt(value: number): number {
+  return Math.max(0, Math.round(value));
+}
+
+// Knuth's method; fine for the small means used here
+function samplePoisson(random: () => number, mean: number): number {
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let p = random();
+  while (p > limit) {
+    k++;
+    p *= random();
+  }
+  return k;
+}
+
+// FTC API timestamps are event-local without an offset
+function localTime(date: Date): string {
+  return date.toISOString().slice(0, 19);
+}
+
+function createTeams(
+  count: number,
+  include: number[],
+  season: number,
+  random: () => number
+): Map<number, TeamProfile> {
+  const teams = new Map<number, TeamProfile>();
+  const queued = [...include];
+  while (teams.size < count + include.length) {
+    const teamNumber = queued.shift() ?? 1000 + Math.floor(random() * 29000);
+    if (teams.has(teamNumber)) continue;
+
+    const [first, second] = NAME_WORDS.map((words) => words[Math.floor(random() * words.length)]);
+    const name = `${first} ${second}`;
+    const [city, stateProv] = CITIES[Math.floor(random() * CITIES.length)];
+    const skill = Math.min(2.2, Math.max(0.15, sampleNormal(random, 1, 0.35)));
+
+    // Teams differ per element too, e.g. strong teleop but a weak auto
+    const rates: Record<string, number> = {};
+    for (const [key, base] of Object.entries(DECODE_RATES)) {
+      const rate = base * skill * Math.max(0.3, sampleNormal(random, 1, 0.2));
+      rates[key] = key === "autoLeave" ? Math.min(0.99, rate) : rate;
+    }
+
+    teams.set(teamNumber, {
+      team: {
+        teamNumber,
+        nameFull: `${city} ${name} Robotics`,
+        nameShort: name,
+        city,
+        stateProv,
+        country: "USA",
+        rookieYear: season - Math.floor(random() * 12),
+        schoolName: `${city} High School`,
+        website: null,
+      },
+      skill,
+      rates,
+      fullBase: Math.min(0.95, 0.45 * skill),
+      partialBase: 0.5,
+      foulRate: Math.max(0, sampleNormal(random, 0.15, 0.08)),
+    });
+  }
+  return teams;
+}
+
+/**
+ * Qualification schedule: teams are drawn from repeated shuffles so everyone
+ * plays about matchesPerTeam matches and no team appears twice in a match.
+ */
+function createSchedule(teamNumbers: number[], matchesPerTeam: number, start: Date, random: () => number): FTCMatch[] {
+  const matchCount = Math.ceil((teamNumbers.length * matchesPerTeam) / 4);
+  const queue: number[] = [];
+  const schedule: FTCMatch[] = [];
+
+  for (let matchNumber = 1; matchNumber <= matchCount; matchNumber++) {
+    while (queue.length < 8) queue.push(...shuffle(teamNumbers, random));
+
+    const picked: number[] = [];
+    for (let i = 0; i < queue.length && picked.length < 4; ) {
+      if (picked.includes(queue[i])) {
+        i++;
+      } else {
+        picked.push(queue.splice(i, 1)[0]);
+      }
+    }
+
+    const startTime = localTime(new Date(start.getTime() + (matchNumber - 1) * MATCH_MINUTES * 60000));
+    schedule.push({
+      matchNumber,
+      tournamentLevel: "QUALIFICATION",
+      series: 0,
+      description: `Qualification ${matchNumber}`,
+      startTime,
+      actualStartTime: null,
+      postResultTime: null,
+      teams: ["Red1", "Red2", "Blue1", "Blue2"].map((station, i) => ({
+        teamNumber: picked[i],
+        station,
+        surrogate: false,
+        dq: false,
+      })),
+      modifiedOn: startTime,
+    });
+  }
+  return schedule;
+}
+
+/**
+ * Simulate one robot's DECODE element values from its team profile
+ */
+function playRobot(p: TeamProfile, random: () => number): ScoringValues {
+  const values: ScoringValues = {};
+  for (const el of DECODE.elements) {
+    if (el.kind === "boolean") {
+      values[el.key] = random() < (p.rates[el.key] ?? 0);
+    } else if (el.kind === "count") {
+      values[el.key] = samplePoisson(random, p.rates[el.key] ?? 0);
+    } else {
+      values[el.key] = random() < p.fullBase ? "FULL" : random() < p.partialBase ? "PARTIAL" : el.defaultState;
+    }
+  }
+  return values;
+}
+
+function playAlliance(
+  color: "Red" | "Blue",
+  robots: { profile: TeamProfile; values: ScoringValues }[],
+  random: () => number
+): Alliance {
+  let autoPoints = 0;
+  let dcPoints = 0;
+  let endgamePoints = 0;
+  let penaltyPointsCommitted = 0;
+
+  for (const { profile, values } of robots) {
+    const scores = calculateGameScores(DECODE, values);
+    autoPoints += scores.autoScore;
+    dcPoints += scores.teleopScore;
+    endgamePoints += scores.endgameScore;
+
+    if (random() < profile.foulRate) {
+      penaltyPointsCommitted += random() < 0.25 ? 15 : 5;
+    }
+  }
+
+  const prePenaltyTotal = autoPoints + dcPoints + endgamePoints;
+  return {
+    alliance: color,
+    totalPoints: prePenaltyTotal,
+    autoPoints,
+    dcPoints,
+    endgamePoints,
+    penaltyPointsCommitted,
+    prePenaltyTotal,
+    team1: robots[0].profile.team.teamNumber,
+    team2: robots[1].profile.team.teamNumber,
+  };
+}
+
+/**
+ * Play out a match, filling in its result times. Returns the scores and
+ * each robot's element values.
+ */
+function playMatch(
+  match: FTCMatch,
+  teams: Map<number, TeamProfile>,
+  random: () => number
+): { score: FTCMatchScore; robots: RobotResult[] } {
+  const robots: RobotResult[] = match.teams.map((t) => ({
+    matchNumber: match.matchNumber,
+    teamNumber: t.teamNumber,
+    station: t.station,
+    alliance: t.station.startsWith("Red") ? "RED" : "BLUE",
+    values: playRobot(teams.get(t.teamNumber)!, random),
+  }));
+  const side = (alliance: "RED" | "BLUE") =>
+    robots
+      .filter((r) => r.alliance === alliance)
+      .map((r) => ({ profile: teams.get(r.teamNumber)!, values: r.values }));
+
+  const red = playAlliance("Red", side("RED"), random);
+  const blue = playAlliance("Blue", side("BLUE"), random);
+
+  // Fouls award points to the other alliance
+  red.totalPoints += blue.penaltyPointsCommitted;
+  blue.totalPoints += red.penaltyPointsCommitted;
+
+  const start = new Date(`${match.startTime}Z`);
+  match.actualStartTime = match.startTime;
+  match.postResultTime = localTime(new Date(start.getTime() + 4 * 60000));
+  match.modifiedOn = match.postResultTime;
+
+  return {
+    score: {
+      matchLevel: "QUALIFICATION",
+      matchNumber: match.matchNumber,
+      matchSeries: 0,
+      alliances: [red, blue],
+    },
+    robots,
+  };
+}
+
+function generateSeason(config: SyntheticConfig): SyntheticSeason {
+  const random = createRandom(config.seed);
+  const teamCount = Math.max(4, Math.floor(config.teamCount));
+  const eventCount = Math.max(1, Math.floor(config.eventCount));
+  const matchesPerTeam = Math.max(1, Math.floor(config.matchesPerTeam));
+  const playedFraction = Math.min(1, Math.max(0, config.playedFraction));
+
+  // A larger pool than one event holds, so events share some teams
+  const include = config.includeTeams.slice(0, teamCount);
+  const teams = createTeams(Math.ceil(teamCount * 1.5), include, config.season, random);
+  const pool = [...teams.keys()].filter((n) => !include.includes(n));
+
+  const today = new Date(config.now ?? Date.now());
+  today.setUTCHours(0, 0, 0, 0);
+
+  const events: SyntheticEvent[] = [];
+  for (let i = 0; i < eventCount; i++) {
+    // One event a week, ending with one that starts today
+    const dateStart = new Date(today.getTime() - (eventCount - 1 - i) * 7 * 86400000);
+    const dateEnd = new Date(dateStart.getTime() + 86400000);
+    const [city, stateprov] = CITIES[i % CITIES.length];
+    const code = `SYNTH${i + 1}`;
+    const isLatest = i === eventCount - 1;
+
+    const teamNumbers = [...include, ...shuffle(pool, random).slice(0, teamCount - include.length)].sort(
+      (a, b) => a - b
+    );
+    const schedule = createSchedule(
+      teamNumbers,
+      matchesPerTeam,
+      new Date(dateStart.getTime() + 9 * 3600000),
+      random
+    );
+    const played = isLatest ? Math.floor(schedule.length * playedFraction) : schedule.length;
+    const results = schedule.slice(0, played).map((match) => playMatch(match, teams, random));
+
+    events.push({
+      event: {
+        code,
+        name: `Synthetic ${city} Qualifier ${i + 1}`,
+        districtCode: null,
+        venue: `${city} Event Center`,
+        address: `${100 + i} Main St`,
+        city,
+        stateprov,
+        country: "USA",
+        dateStart: localTime(dateStart),
+        dateEnd: localTime(dateEnd),
+        type: "2",
+        typeName: "Qualifier",
+        timezone: "America/Chicago",
+        published: true,
+      },
+      teamNumbers,
+      schedule,
+      scores: results.map((r) => r.score),
+      robots: results.flatMap((r) => r.robots),
+    });
+  }
+
+  return { teams, events };
+}
+
+/**
+ * Rankings from played qualification matches, using the game's win and tie
+ * ranking points (no bonus RPs). sortOrder1 is the ranking score (average RP)
+ * and sortOrder2 the average pre-penalty alliance score.
+ */
+function computeRankings(event: SyntheticEvent): FTCRankings {
+  const stats = new Map(
+    event.teamNumbers.map((n) => [n, { played: 0, wins: 0, losses: 0, ties: 0, rp: 0, points: 0 }])
+  );
+
+  for (const score of event.scores) {
+    const [red, blue] = score.alliances;
+    for (const [own, other] of [
+      [red, blue],
+      [blue, red],
+    ]) {
+      const result = own.totalPoints > other.totalPoints ? "win" : own.totalPoints < other.totalPoints ? "loss" : "tie";
+      for (const teamNumber of [own.team1, own.team2]) {
+        const s = stats.get(teamNumber)!;
+        s.played++;
+        s.points += own.prePenaltyTotal;
+        if (result === "win") {
+          s.wins++;
+          s.rp += DECODE.ranking.winPoints;
+        } else if (result === "loss") {
+          s.losses++;
+        } else {
+          s.ties++;
+          s.rp += DECODE.ranking.tiePoints;
+        }
+      }
+    }
+  }
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const rows = [...stats.entries()].map(([teamNumber, s]) => ({
+    teamNumber,
+    matchesPlayed: s.played,
+    wins: s.wins,
+    losses: s.losses,
+    ties: s.ties,
+    qualAverage: s.played ? round(s.points / s.played) : 0,
+    sortOrder1: s.played ? round(s.rp / s.played) : 0,
+    sortOrder2: s.played ? round(s.points / s.played) : 0,
+    sortOrder3: 0,
+    sortOrder4: 0,
+    sortOrder5: 0,
+    sortOrder6: 0,
+  }));
+  rows.sort(
+    (a, b) => b.sortOrder1 - a.sortOrder1 || b.sortOrder2 - a.sortOrder2 || a.teamNumber - b.teamNumber
+  );
+
+  return { Rankings: rows.map((row, i) => ({ rank: i + 1, ...row })) };
+}
+
+/**
+ * FtcDataSource backed by a generated season. Only qualification matches are
+ * generated; playoff requests return empty lists.
+ */
+export class SyntheticDataSource implements FtcDataSource {
+  private config: SyntheticConfig;
+  private season: SyntheticSeason | null = null;
+
+  constructor(config: Partial<SyntheticConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  private data(): SyntheticSeason {
+    if (!this.season) this.season = generateSeason(this.config);
+    return this.season;
+  }
+
+  private findEvent(eventCode: string): SyntheticEvent | undefined {
+    const code = eventCode.toUpperCase();
+    return this.data().events.find((e) => e.event.code === code);
+  }
+
+  async getEvents(): Promise<{ events: FTCEvent[] }> {
+    return { events: this.data().events.map((e) => e.event) };
+  }
+
+  async getEvent(eventCode: string): Promise<{ events: FTCEvent[] }> {
+    const found = this.findEvent(eventCode);
+    return { events: found ? [found.event] : [] };
+  }
+
+  async getEventTeams(eventCode: string): Promise<{ teams: FTCTeam[] }> {
+    const found = this.findEvent(eventCode);
+    const { teams } = this.data();
+    return { teams: found ? found.teamNumbers.map((n) => teams.get(n)!.team) : [] };
+  }
+
+  async getTeam(teamNumber: number): Promise<{ teams: FTCTeam[] }> {
+    const profile = this.data().teams.get(teamNumber);
+    return { teams: profile ? [profile.team] : [] };
+  }
+
+  async getSchedule(eventCode: string, tournamentLevel: TournamentLevel = "qual"): Promise<{ schedule: FTCMatch[] }> {
+    const found = this.findEvent(eventCode);
+    return { schedule: found && tournamentLevel === "qual" ? found.schedule : [] };
+  }
+
+  async getMatches(eventCode: string, tournamentLevel: TournamentLevel = "qual"): Promise<{ matches: FTCMatch[] }> {
+    const found = this.findEvent(eventCode);
+    if (!found || tournamentLevel !== "qual") return { matches: [] };
+    return { matches: found.schedule.filter((m) => m.postResultTime) };
+  }
+
+  async getScores(
+    eventCode: string,
+    tournamentLevel: TournamentLevel = "qual"
+  ): Promise<{ matchScores: FTCMatchScore[] }> {
+    const found = this.findEvent(eventCode);
+    return { matchScores: found && tournamentLevel === "qual" ? found.scores : [] };
+  }
+
+  async getRankings(eventCode: string): Promise<FTCRankings> {
+    const found = this.findEvent(eventCode);
+    return found ? computeRankings(found) : { Rankings: [] };
+  }
+
+  /**
+   * Each robot's element values in the event's played qualification matches.
+   * Not part of the FTC API; used to seed scouting data.
+   */
+  getRobotResults(eventCode: string): RobotResult[] {
+    return this.findEvent(eventCode)?.robots ?? [];
+  }
+
+  async getTeamEvents(teamNumber: number): Promise<{ events: FTCEvent[] }> {
+    return {
+      events: this.data()
+        .events.filter((e) => e.teamNumbers.includes(teamNumber))
+        .map((e) => e.event),
+    };
+  }
+}
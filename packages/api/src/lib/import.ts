@@ -0,0 +1,256 @@
+/**
+ * Scouting data import
+ *
+ * Turns an uploaded CSV into rows for the scouting entry and note schemas.
+ * Columns are matched to import fields by a mapping (field key -> CSV
+ * header) that the client can adjust; suggestMapping guesses one from the
+ * headers. Cells are coerced to the field's type here, and the coerced rows
+ * are then validated with the same zod schemas the scouting POSTs use.
+ */
+
+import type { GameDefinition, MatchPhase } from "@ftcmetrics/shared";
+
+export const IMPORT_KINDS = ["entries", "notes"] as const;
+
+export type ImportKind = (typeof IMPORT_KINDS)[number];
+
+// Largest CSV accepted in one import
+export const MAX_IMPORT_ROWS = 5000;
+
+const PHASE_LABELS: Record<MatchPhase, string> = {
+  auto: "Auto",
+  teleop: "Teleop",
+  endgame: "Endgame",
+};
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: "number" | "text" | "boolean" | "state" | "alliance";
+  required: boolean;
+  // Accepted values for state fields
+  states?: Array<{ value: string; label: string }>;
+  // Other header names this field is commonly exported under
+  aliases?: string[];
+}
+
+export interface ImportDefaults {
+  eventCode?: string;
+}
+
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line
+ * ends) into rows of cells. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  // Spreadsheet apps often prepend a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * The fields a CSV column can be mapped to. Entry fields include every
+ * scoring element of the season's game.
+ */
+export function getImportFields(kind: ImportKind, game: GameDefinition): ImportField[] {
+  const eventCode: ImportField = {
+    key: "eventCode",
+    label: "Event code",
+    type: "text",
+    required: true,
+    aliases: ["event"],
+  };
+
+  if (kind === "notes") {
+    return [
+      {
+        key: "aboutTeamNumber",
+        label: "Team number",
+        type: "number",
+        required: true,
+        aliases: ["team", "team #", "teamNumber"],
+      },
+      eventCode,
+      { key: "reliabilityRating", label: "Reliability (1-5)", type: "number", required: false, aliases: ["reliability"] },
+      { key: "driverSkillRating", label: "Driver skill (1-5)", type: "number", required: false, aliases: ["driver skill", "driving"] },
+      { key: "defenseRating", label: "Defense (1-5)", type: "number", required: false, aliases: ["defense"] },
+      { key: "strategyNotes", label: "Strategy notes", type: "text", required: false, aliases: ["strategy"] },
+      { key: "mechanicalNotes", label: "Mechanical notes", type: "text", required: false, aliases: ["mechanical"] },
+      { key: "generalNotes", label: "General notes", type: "text", required: false, aliases: ["notes", "comments"] },
+    ];
+  }
+
+  return [
+    {
+      key: "scoutedTeamNumber",
+      label: "Team number",
+      type: "number",
+      required: true,
+      aliases: ["team", "team #", "teamNumber"],
+    },
+    eventCode,
+    { key: "matchNumber", label: "Match number", type: "number", required: true, aliases: ["match", "match #"] },
+    { key: "alliance", label: "Alliance", type: "alliance", required: true, aliases: ["color", "alliance color"] },
+    ...game.elements.map((el): ImportField => ({
+      key: el.key,
+      // Phases reuse element names (auto and teleop "Classified")
+      label: `${PHASE_LABELS[el.phase]} ${el.label}`,
+      type: el.kind === "count" ? "number" : el.kind,
+      required: false,
+      ...(el.kind === "state" && {
+        states: el.states.map((s) => ({ value: s.value, label: s.label })),
+      }),
+    })),
+    { key: "allianceNotes", label: "Alliance notes", type: "text", required: false, aliases: ["notes", "comments"] },
+  ];
+}
+
+// Header comparison ignores case, spacing and punctuation
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9#]/g, "");
+}
+
+/**
+ * Guess a mapping from field key to CSV header by matching each field's
+ * key, label or aliases against the headers
+ */
+export function suggestMapping(headers: string[], fields: ImportField[]): Record<string, string> {
+  const byName = new Map(headers.map((h) => [normalizeHeader(h), h]));
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+
+  for (const field of fields) {
+    for (const name of [field.key, field.label, ...(field.aliases ?? [])]) {
+      const header = byName.get(normalizeHeader(name));
+      if (header && !used.has(header)) {
+        mapping[field.key] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "x"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+/**
+ * Convert one cell to a field's type. Empty cells become undefined so the
+ * schema defaults (or required checks) apply.
+ */
+function coerceCell(field: ImportField, raw: string): { value?: unknown; error?: string } {
+  const text = raw.trim();
+  if (text === "") return {};
+
+  switch (field.type) {
+    case "number": {
+      const value = Number(text);
+      return Number.isFinite(value) ? { value } : { error: `"${text}" is not a number` };
+    }
+    case "boolean": {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.has(lower)) return { value: true };
+      if (FALSE_VALUES.has(lower)) return { value: false };
+      return { error: `"${text}" is not yes or no` };
+    }
+    case "state": {
+      const lower = text.toLowerCase();
+      const state = field.states?.find(
+        (s) => s.value.toLowerCase() === lower || s.label.toLowerCase() === lower
+      );
+      return state
+        ? { value: state.value }
+        : { error: `"${text}" is not one of ${field.states?.map((s) => s.label).join(", ")}` };
+    }
+    case "alliance": {
+      const lower = text.toLowerCase();
+      if (lower === "red" || lower === "r") return { value: "RED" };
+      if (lower === "blue" || lower === "b") return { value: "BLUE" };
+      return { error: `"${text}" is not red or blue` };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Build one row's field values from its cells. Returns coercion errors
+ * alongside the values that did convert.
+ */
+export function mapRow(
+  cells: string[],
+  headers: string[],
+  mapping: Record<string, string>,
+  fields: ImportField[],
+  defaults: ImportDefaults = {}
+): { values: Record<string, unknown>; errors: ImportRowError[] } {
+  const values: Record<string, unknown> = {};
+  const errors: ImportRowError[] = [];
+
+  for (const field of fields) {
+    const header = mapping[field.key];
+    const column = header === undefined ? -1 : headers.indexOf(header);
+    if (column === -1) continue;
+
+    const { value, error } = coerceCell(field, cells[column] ?? "");
+    if (error) {
+      errors.push({ field: field.key, message: error });
+    } else if (value !== undefined) {
+      values[field.key] = value;
+    }
+  }
+
+  if (values.eventCode === undefined && defaults.eventCode) {
+    values.eventCode = defaults.eventCode;
+  }
+  if (typeof values.eventCode === "string") {
+    values.eventCode = values.eventCode.toUpperCase();
+  }
+
+  return { values, errors };
+}
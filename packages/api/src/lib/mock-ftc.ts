@@ -0,0 +1,105 @@
+/**
+ * Mock FTC Events API
+ *
+ * A Hono app answering the FTC API routes the app calls, backed by any
+ * FtcDataSource. Run standalone with src/mock-ftc-server.ts.
+ */
+
+import { Hono } from "hono";
+import type { FtcDataSource, TournamentLevel } from "./ftc-api";
+
+function level(value: string | undefined): TournamentLevel {
+  return value?.toLowerCase() === "playoff" ? "playoff" : "qual";
+}
+
+function notFound(error: unknown) {
+  return { message: error instanceof Error ? error.message : "Not found" };
+}
+
+export function createMockFtcApp(source: FtcDataSource): Hono {
+  const app = new Hono();
+
+  // The real API rejects requests without Basic auth; any credentials are accepted here
+  app.use("/v2.0/*", async (c, next) => {
+    if (!c.req.header("Authorization")?.startsWith("Basic ")) {
+      return c.json({ message: "Authorization required" }, 401);
+    }
+    await next();
+  });
+
+  /**
+   * GET /v2.0/:season/events?eventCode=&teamNumber=
+   */
+  app.get("/v2.0/:season/events", async (c) => {
+    const eventCode = c.req.query("eventCode");
+    const teamNumber = c.req.query("teamNumber");
+    try {
+      if (eventCode) return c.json(await source.getEvent(eventCode));
+      if (teamNumber) return c.json(await source.getTeamEvents(parseInt(teamNumber, 10)));
+      return c.json(await source.getEvents());
+    } catch (error) {
+      return c.json(notFound(error), 404);
+    }
+  });
+
+  /**
+   * GET /v2.0/:season/teams?eventCode=&teamNumber=
+   */
+  app.get("/v2.0/:season/teams", async (c) => {
+    const eventCode = c.req.query("eventCode");
+    const teamNumber = c.req.query("teamNumber");
+    try {
+      if (eventCode) return c.json(await source.getEventTeams(eventCode));
+      if (teamNumber) return c.json(await source.getTeam(parseInt(teamNumber, 10)));
+      return c.json({ message: "eventCode or teamNumber is required" }, 400);
+    } catch (error) {
+      return c.json(notFound(error), 404);
+    }
+  });
+
+  /**
+   * GET /v2.0/:season/schedule/:eventCode?tournamentLevel=
+   */
+  app.get("/v2.0/:season/schedule/:eventCode", async (c) => {
+    try {
+      return c.json(await source.getSchedule(c.req.param("eventCode"), level(c.req.query("tournamentLevel"))));
+    } catch (error) {
+      return c.json(notFound(error), 404);
+    }
+  });
+
+  /**
+   * GET /v2.0/:season/matches/:eventCode?tournamentLevel=
+   */
+  app.get("/v2.0/:season/matches/:eventCode", async (c) => {
+    try {
+      return c.json(await source.getMatches(c.req.param("eventCode"), level(c.req.query("tournamentLevel"))));
+    } catch (error) {
+      return c.json(notFound(error), 404);
+    }
+  });
+
+  /**
+   * GET /v2.0/:season/scores/:eventCode/:tournamentLevel
+   */
+  app.get("/v2.0/:season/scores/:eventCode/:tournamentLevel", async (c) => {
+    try {
+      return c.json(await source.getScores(c.req.param("eventCode"), level(c.req.param("tournamentLevel"))));
+    } catch (error) {
+      return c.json(notFound(error), 404);
+    }
+  });
+
+  /**
+   * GET /v2.0/:season/rankings/:eventCode
+   */
+  app.get("/v2.0/:season/rankings/:eventCode", async (c) => {
+    try {
+      return c.json(await source.getRankings(c.req.param("eventCode")));
+    } catch (error) {
+      return c.json(notFound(error), 404);
+    }
+  });
+
+  return app;
+}
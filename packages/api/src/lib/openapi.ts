@@ -0,0 +1,395 @@
+import { z } from "zod";
+import { requiredScope } from "./api-tokens";
+import { revertEntrySchema, scoutingEntrySchema, scoutingNoteSchema } from "../routes/scouting";
+import { playoffSimSchema } from "../routes/analytics";
+import {
+  createPickListSchema,
+  entryUpdateSchema,
+  updatePickListSchema,
+} from "../routes/picklists";
+import { generateRotationSchema, reassignSchema } from "../routes/assignments";
+import { resolutionSchema } from "../routes/consensus";
+import { applyWeightsSchema } from "../routes/accuracy";
+import { createApiTokenSchema } from "../routes/api-tokens";
+import { permissionOverridesSchema } from "../routes/user-teams";
+import { importSchema } from "../routes/import";
+
+/**
+ * OpenAPI 3.1 document for the REST API
+ *
+ * Operations come from the routes registered on the app, so a new route is
+ * listed automatically; ROUTE_DOCS adds its summary, query parameters and,
+ * for routes validated with zod, the request body schema.
+ */
+
+interface RouteDoc {
+  summary: string;
+  query?: Record<string, string>;
+  body?: z.ZodType;
+}
+
+export const ROUTE_DOCS: Record<string, RouteDoc> = {
+  "GET /api/health": { summary: "Health of the API, database and Redis" },
+  "GET /api/openapi.json": { summary: "This OpenAPI document" },
+  "GET /api/uploads/:filename": { summary: "Download an uploaded team media file" },
+
+  "GET /api/events": { summary: "All events for the current season" },
+  "GET /api/events/:eventCode": { summary: "One event by code" },
+  "GET /api/events/:eventCode/teams": { summary: "Teams at an event" },
+  "GET /api/events/:eventCode/schedule": {
+    summary: "Match schedule for an event",
+    query: { level: "qual (default) or playoff" },
+  },
+  "GET /api/events/:eventCode/matches": {
+    summary: "Match results for an event",
+    query: { level: "qual (default) or playoff" },
+  },
+  "GET /api/events/:eventCode/scores": {
+    summary: "Detailed match scores for an event",
+    query: { level: "qual (default) or playoff" },
+  },
+  "GET /api/events/:eventCode/rankings": { summary: "Official team rankings at an event" },
+
+  "GET /api/teams/search": {
+    summary: "Search cached FTC teams by number or name",
+    query: { q: "Team number or name" },
+  },
+  "GET /api/teams/:teamNumber": { summary: "One FTC team" },
+  "GET /api/teams/:teamNumber/profile": { summary: "A team's public profile (bio, robot info, media)" },
+  "GET /api/teams/:teamNumber/events": { summary: "Events a team is registered for" },
+  "GET /api/teams/:teamNumber/event-summaries": { summary: "A team's events with ranking data" },
+
+  "GET /api/analytics/opr/:eventCode": {
+    summary: "OPR rankings for an event",
+    query: { ridge: "Regularisation strength for events with few matches" },
+  },
+  "GET /api/analytics/epa/:eventCode": { summary: "EPA rankings for an event" },
+  "GET /api/analytics/team/:teamNumber": {
+    summary: "OPR and EPA for a team",
+    query: { eventCode: "Limit to one event" },
+  },
+  "GET /api/analytics/team/:teamNumber/epa-history": {
+    summary: "A team's per-match EPA trajectory for the season",
+    query: { eventCode: "Limit to one event", from: "ISO date", to: "ISO date" },
+  },
+  "GET /api/analytics/team/:teamNumber/matches": {
+    summary: "Match-by-match breakdowns for a team at an event",
+    query: { eventCode: "Event code (required)" },
+  },
+  "POST /api/analytics/predict": { summary: "Predict a match outcome from EPA" },
+  "POST /api/analytics/playoff-sim": {
+    summary: "Monte Carlo simulation of the playoff bracket",
+    body: playoffSimSchema,
+  },
+  "GET /api/analytics/event/:eventCode/projected-rankings": {
+    summary: "Projected final qualification rankings",
+    query: { simulations: "100-20000, default 5000", top: "Report P(top N), default 4", seed: "RNG seed" },
+  },
+  "GET /api/analytics/event/:eventCode/team-matches": {
+    summary: "Match-by-match breakdowns for every team at an event",
+  },
+  "GET /api/analytics/backtest": {
+    summary: "Win-probability predictions scored against real results",
+    query: { eventCode: "Replay one event; omit for the season" },
+  },
+  "GET /api/analytics/compare": {
+    summary: "Compare teams' OPR and EPA",
+    query: { eventCode: "Event code", teams: "Comma-separated team numbers" },
+  },
+
+  "GET /api/rankings/epa": {
+    summary: "Season-wide EPA rankings",
+    query: { scope: "world, country or state", country: "Country filter", state: "State filter" },
+  },
+  "GET /api/rankings/filters": { summary: "Countries and states available as ranking filters" },
+  "GET /api/rankings/team/:teamNumber": { summary: "A team's world, country and state rank" },
+
+  "POST /api/scouting/entries": {
+    summary: "Submit a scouting entry; scoring element fields follow the season's game definition",
+    body: scoutingEntrySchema,
+  },
+  "GET /api/scouting/entries": {
+    summary: "Scouting entries visible to the user",
+    query: {
+      eventCode: "Event code",
+      teamNumber: "Scouted team number",
+      scoutingTeamId: "Scouting team id",
+      updatedSince: "ISO timestamp; only entries changed after it",
+      limit: "Page size, max 50",
+      offset: "Page offset",
+    },
+  },
+  "GET /api/scouting/entries/:id": { summary: "One scouting entry" },
+  "PATCH /api/scouting/entries/:id": { summary: "Update a scouting entry" },
+  "GET /api/scouting/entries/:id/history": { summary: "An entry's audit trail of edits and reverts" },
+  "POST /api/scouting/entries/:id/revert": {
+    summary: "Undo one recorded edit of a scouting entry",
+    body: revertEntrySchema,
+  },
+  "POST /api/scouting/entries/:id/deduct-partner": {
+    summary: "Create the alliance partner's entry by deducting from official scores",
+  },
+  "POST /api/scouting/retry-deductions": { summary: "Retry alliance deductions still missing partner entries" },
+  "POST /api/scouting/notes": { summary: "Add a qualitative note about a team", body: scoutingNoteSchema },
+  "GET /api/scouting/notes": {
+    summary: "Scouting notes visible to the user",
+    query: {
+      aboutTeamNumber: "Team the notes are about",
+      eventCode: "Event code",
+      notingTeamId: "Team that wrote the notes",
+      updatedSince: "ISO timestamp; only notes changed after it",
+      limit: "Page size, max 50",
+      offset: "Page offset",
+    },
+  },
+  "GET /api/scouting/team-summary/:teamNumber": {
+    summary: "Aggregated scouting data for a team",
+    query: { eventCode: "Limit to one event" },
+  },
+  "GET /api/scouting/event-summary/:eventCode": {
+    summary: "Aggregated scouting data for every team scouted at an event",
+  },
+  "GET /api/scouting/team-stats/:teamId": { summary: "Scouting activity stats for a scouting team" },
+
+  "GET /api/user-teams": { summary: "Teams the user is a member of" },
+  "POST /api/user-teams": { summary: "Create a team (claim an FTC team number)" },
+  "GET /api/user-teams/:teamId": { summary: "A team's details" },
+  "PATCH /api/user-teams/:teamId": { summary: "Update team settings" },
+  "POST /api/user-teams/:teamId/invites": { summary: "Create an invite code" },
+  "GET /api/user-teams/:teamId/audit": {
+    summary: "The team's audit log of scouting and administration changes",
+    query: {
+      action: "Comma-separated actions, e.g. scouting-entry.update,member.remove",
+      targetType: "scouting-entry, member, invite, media, pick-list, ...",
+      targetId: "One record's changes",
+      actorId: "Changes made by one user",
+      since: "ISO timestamp",
+      until: "ISO timestamp",
+      limit: "Max 200 (default 50)",
+      offset: "Rows to skip",
+    },
+  },
+  "POST /api/user-teams/join": { summary: "Join a team with an invite code" },
+  "DELETE /api/user-teams/:teamId/members/:memberId": { summary: "Remove a member from a team" },
+  "PATCH /api/user-teams/:teamId/members/:memberId": { summary: "Update a member's role or scout weight" },
+  "GET /api/user-teams/:teamId/permissions": {
+    summary: "The team's role capability defaults, overrides and effective matrix",
+  },
+  "PUT /api/user-teams/:teamId/permissions": {
+    summary: "Replace the team's role capability overrides (mentors only)",
+    body: z.object({ overrides: permissionOverridesSchema }),
+  },
+  "POST /api/user-teams/:teamId/media": { summary: "Add a media item" },
+  "PATCH /api/user-teams/:teamId/media/:mediaId": { summary: "Update a media item" },
+  "DELETE /api/user-teams/:teamId/media/:mediaId": { summary: "Delete a media item" },
+
+  "GET /api/user-teams/:teamId/picklists": {
+    summary: "The team's pick lists",
+    query: { eventCode: "Limit to one event" },
+  },
+  "POST /api/user-teams/:teamId/picklists": {
+    summary: "Create an event pick list seeded from EPA, OPR, scouting and notes",
+    body: createPickListSchema,
+  },
+  "GET /api/user-teams/:teamId/picklists/:pickListId": { summary: "A pick list with its entries in order" },
+  "PATCH /api/user-teams/:teamId/picklists/:pickListId": {
+    summary: "Rename, change tiers or reorder a pick list",
+    body: updatePickListSchema,
+  },
+  "PATCH /api/user-teams/:teamId/picklists/:pickListId/entries/:teamNumber": {
+    summary: "Update one team on a pick list",
+    body: entryUpdateSchema,
+  },
+  "POST /api/user-teams/:teamId/picklists/:pickListId/refresh": {
+    summary: "Refresh stats snapshots and add missing teams",
+  },
+  "DELETE /api/user-teams/:teamId/picklists/:pickListId": { summary: "Delete a pick list" },
+
+  "GET /api/user-teams/:teamId/assignments": {
+    summary: "The team's scouting rotation for an event",
+    query: { eventCode: "Event code (required)" },
+  },
+  "POST /api/user-teams/:teamId/assignments": {
+    summary: "Generate the scouting rotation for an event",
+    body: generateRotationSchema,
+  },
+  "GET /api/user-teams/:teamId/assignments/me": {
+    summary: "The user's assignments and next unsubmitted robot-match",
+    query: { eventCode: "Event code (required)" },
+  },
+  "GET /api/user-teams/:teamId/assignments/coverage": {
+    summary: "Scouting status of every robot-match on the schedule",
+    query: { eventCode: "Event code (required)" },
+  },
+  "PATCH /api/user-teams/:teamId/assignments/:assignmentId": {
+    summary: "Hand a robot-match to a different scout",
+    body: reassignSchema,
+  },
+
+  "GET /api/user-teams/:teamId/consensus": {
+    summary: "Robot-matches recorded by several scouts, with reconciled values",
+    query: { eventCode: "Event code (required)", threshold: "Disagreement threshold in points" },
+  },
+  "PUT /api/user-teams/:teamId/consensus/resolution": {
+    summary: "Pick the canonical entry or merge values for a robot-match",
+    body: resolutionSchema,
+  },
+  "DELETE /api/user-teams/:teamId/consensus/resolutions/:resolutionId": {
+    summary: "Drop a consensus resolution",
+  },
+
+  "GET /api/user-teams/:teamId/accuracy": {
+    summary: "Each scout's error against official alliance phase points",
+    query: { eventCode: "Limit to one event" },
+  },
+  "POST /api/user-teams/:teamId/accuracy/apply-weights": {
+    summary: "Set consensus scout weights from accuracy",
+    body: applyWeightsSchema,
+  },
+
+  "GET /api/user-teams/:teamId/export": {
+    summary: "Every dataset the member may view as a multi-sheet XLSX workbook",
+    query: { eventCode: "Limit to one event; adds the EPA & OPR sheet", season: "Game season (default current)" },
+  },
+  "GET /api/user-teams/:teamId/export/:dataset": {
+    summary: "Export entries, notes, team-summaries, ratings or picklists",
+    query: {
+      format: "csv (default, streamed), ndjson (streamed) or xlsx",
+      eventCode: "Limit to one event (required for ratings)",
+      season: "Game season for entries and team-summaries (default current)",
+    },
+  },
+  "POST /api/user-teams/:teamId/imports": {
+    summary: "Validate (dryRun) or commit a CSV of scouting entries or notes",
+    body: importSchema,
+  },
+  "GET /api/user-teams/:teamId/imports": { summary: "The team's recent imports" },
+  "DELETE /api/user-teams/:teamId/imports/:batchId": {
+    summary: "Roll back an import, deleting every entry and note it created",
+  },
+
+  "POST /api/realtime/auth": { summary: "Authorize a Pusher private channel subscription" },
+
+  "GET /api/tokens": { summary: "The user's personal API tokens" },
+  "POST /api/tokens": {
+    summary: "Create a personal API token; the token value is only returned once",
+    body: createApiTokenSchema,
+  },
+  "DELETE /api/tokens/:id": { summary: "Revoke a personal API token" },
+};
+
+// Route prefixes behind authMiddleware; the rest accept anonymous requests
+const AUTH_REQUIRED = /^\/api\/(user-teams|scouting|realtime|tokens)(\/|$)/;
+
+// Sub-routers mounted under a team get their own tag
+const TEAM_SUB_ROUTERS = new Set(["picklists", "assignments", "consensus", "accuracy"]);
+
+function tagFor(path: string): string {
+  const segments = path.split("/").filter(Boolean);
+  if (segments[1] === "user-teams" && TEAM_SUB_ROUTERS.has(segments[3])) {
+    return segments[3];
+  }
+  return segments[1] ?? "api";
+}
+
+function jsonSchema(schema: z.ZodType) {
+  return z.toJSONSchema(schema, { io: "input", unrepresentable: "any" });
+}
+
+/**
+ * Build the OpenAPI document from the app's registered routes
+ */
+export function buildOpenApiSpec(routes: ReadonlyArray<{ method: string; path: string }>) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  const seen = new Set<string>();
+
+  for (const { method, path } of routes) {
+    // Middleware registered with app.use shows up as ALL
+    if (method === "ALL" || !path.startsWith("/api/") || path.includes("*")) continue;
+    const key = `${method} ${path}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const doc = ROUTE_DOCS[key];
+    const scope = requiredScope(method, path);
+    const authRequired = AUTH_REQUIRED.test(path);
+    const security = [
+      ...(authRequired ? [] : [{}]),
+      { sessionCookie: [] },
+      ...(scope ? [{ bearerToken: [] }] : []),
+    ];
+
+    const parameters = [
+      ...[...path.matchAll(/:(\w+)/g)].map((m) => ({
+        name: m[1],
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      })),
+      ...Object.entries(doc?.query ?? {}).map(([name, description]) => ({
+        name,
+        in: "query",
+        required: false,
+        description,
+        schema: { type: "string" },
+      })),
+    ];
+
+    const openApiPath = path.replace(/:(\w+)/g, "{$1}");
+    paths[openApiPath] ??= {};
+    paths[openApiPath][method.toLowerCase()] = {
+      summary: doc?.summary ?? `${method} ${path}`,
+      tags: [tagFor(path)],
+      security,
+      ...(scope && { "x-token-scope": scope }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(doc?.body && {
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: jsonSchema(doc.body) } },
+        },
+      }),
+      responses: {
+        "200": {
+          description: "Success",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/ApiResponse" } } },
+        },
+        default: {
+          description: "Error",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/ApiResponse" } } },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "FTC Metrics API",
+      version: "2.0.0",
+      description:
+        "Scouting and analytics for FIRST Tech Challenge teams. Authenticate with the web app's " +
+        "session cookie or a personal API token (`Authorization: Bearer ftcm_...`). Tokens only " +
+        "reach operations whose `x-token-scope` they hold.",
+    },
+    servers: [{ url: "/" }],
+    paths,
+    components: {
+      securitySchemes: {
+        sessionCookie: { type: "apiKey", in: "cookie", name: "authjs.session-token" },
+        bearerToken: { type: "http", scheme: "bearer", description: "Personal API token" },
+      },
+      schemas: {
+        ApiResponse: {
+          type: "object",
+          required: ["success"],
+          properties: {
+            success: { type: "boolean" },
+            data: {},
+            error: { type: "string" },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { prisma, type TeamMember } from "@ftcmetrics/db";
+import { resolveCapabilities, type TeamCapability } from "@ftcmetrics/shared";
+
+/**
+ * Team permission checks
+ *
+ * What a member may do is decided by their role's capabilities after the
+ * team's overrides (see @ftcmetrics/shared permissions). Routes with a
+ * :teamId param use requireTeamCapability; routes that take the team from
+ * the body or a record call getTeamAccess.
+ */
+
+export interface TeamAccess {
+  membership: TeamMember;
+  capabilities: TeamCapability[];
+}
+
+/**
+ * A user's membership in a team and the capabilities it grants, or null
+ * when they are not a member
+ */
+export async function getTeamAccess(userId: string, teamId: string): Promise<TeamAccess | null> {
+  const membership = await prisma.teamMember.findUnique({
+    where: { userId_teamId: { userId, teamId } },
+    include: { team: { select: { permissions: true } } },
+  });
+
+  if (!membership) return null;
+
+  const { team, ...member } = membership;
+  return {
+    membership: member,
+    capabilities: resolveCapabilities(member.role, team?.permissions),
+  };
+}
+
+export function can(access: TeamAccess | null, capability: TeamCapability): boolean {
+  return access !== null && access.capabilities.includes(capability);
+}
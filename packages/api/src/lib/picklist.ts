@@ -0,0 +1,177 @@
+/**
+ * Alliance selection pick list seeding
+ *
+ * Builds a starting pick list for an event by combining EPA, OPR, the
+ * scouting averages the team can see (as in team-summary) and the team's
+ * own note ratings into one composite score. Each metric is standardised
+ * across the event so no single scale dominates; teams missing a metric are
+ * scored on the ones they have.
+ */
+
+import { prisma } from "@ftcmetrics/db";
+import { getEventEPAResults, getEventOPRResults } from "./event-stats";
+import { buildVisibilityFilter, getEventRoster } from "./sharing";
+import { loadConsensusContext, reconcileEntries } from "./consensus";
+
+export interface PickListSeedStats {
+  epa: number | null;
+  opr: number | null;
+  scoutedAverage: number | null;
+  scoutedMatches: number;
+  noteRating: number | null;
+}
+
+export interface PickListSeed {
+  teamNumber: number;
+  tier: number;
+  rank: number;
+  seedScore: number | null;
+  stats: PickListSeedStats;
+}
+
+type SeedMetric = "epa" | "opr" | "scoutedAverage" | "noteRating";
+
+// Relative weight of each metric in the composite seed score
+const SEED_WEIGHTS: Record<SeedMetric, number> = {
+  epa: 0.35,
+  opr: 0.25,
+  scoutedAverage: 0.25,
+  noteRating: 0.15,
+};
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Order candidates by composite score and split them evenly across tiers
+ */
+export function rankPickListCandidates(
+  candidates: Array<{ teamNumber: number; stats: PickListSeedStats }>,
+  tierCount: number
+): PickListSeed[] {
+  // Mean and standard deviation of each metric across teams that have it
+  const scales = new Map<SeedMetric, { mean: number; std: number }>();
+  for (const metric of Object.keys(SEED_WEIGHTS) as SeedMetric[]) {
+    const values = candidates
+      .map((c) => c.stats[metric])
+      .filter((v): v is number => v !== null);
+    const mean = average(values);
+    if (mean === null) continue;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    scales.set(metric, { mean, std: Math.sqrt(variance) });
+  }
+
+  const scored = candidates.map((candidate) => {
+    let weighted = 0;
+    let weightSum = 0;
+    for (const [metric, { mean, std }] of scales) {
+      const value = candidate.stats[metric];
+      if (value === null) continue;
+      weighted += SEED_WEIGHTS[metric] * (std > 0 ? (value - mean) / std : 0);
+      weightSum += SEED_WEIGHTS[metric];
+    }
+    return {
+      ...candidate,
+      seedScore: weightSum > 0 ? round2(weighted / weightSum) : null,
+    };
+  });
+
+  // Teams with no data at all go to the bottom
+  scored.sort((a, b) => {
+    if (a.seedScore === null && b.seedScore === null) return a.teamNumber - b.teamNumber;
+    if (a.seedScore === null) return 1;
+    if (b.seedScore === null) return -1;
+    return b.seedScore - a.seedScore || a.teamNumber - b.teamNumber;
+  });
+
+  const tiers = Math.max(1, tierCount);
+  return scored.map((candidate, rank) => ({
+    ...candidate,
+    rank,
+    tier: Math.min(tiers - 1, Math.floor((rank * tiers) / scored.length)),
+  }));
+}
+
+/**
+ * Build a seeded pick list for a scouting team at an event. The team's own
+ * FTC team number is left off the list.
+ */
+export async function buildPickListSeed(
+  teamId: string,
+  ownTeamNumber: number,
+  eventCode: string,
+  tierCount: number
+): Promise<PickListSeed[]> {
+  const [roster, epa, opr, entries, notes] = await Promise.all([
+    getEventRoster(eventCode),
+    getEventEPAResults(eventCode).catch(() => null),
+    getEventOPRResults(eventCode).catch(() => new Map()),
+    buildVisibilityFilter([{ teamId, teamNumber: ownTeamNumber }], "scoutingTeam", eventCode).then(
+      (visibility) =>
+        prisma.scoutingEntry.findMany({
+          where: { eventCode, OR: visibility },
+          include: { scoutedTeam: { select: { teamNumber: true } } },
+        })
+    ),
+    prisma.scoutingNote.findMany({
+      where: { notingTeamId: teamId, eventCode },
+      select: {
+        reliabilityRating: true,
+        driverSkillRating: true,
+        defenseRating: true,
+        aboutTeam: { select: { teamNumber: true } },
+      },
+    }),
+  ]);
+
+  // Fall back to teams seen in matches when the roster is unavailable
+  const teamNumbers = new Set(roster);
+  for (const teamNumber of epa?.epaResults.keys() ?? []) teamNumbers.add(teamNumber);
+  teamNumbers.delete(ownTeamNumber);
+
+  // One reconciled score per robot-match, however many scouts recorded it
+  const scoutedTeamNumbers = new Map(entries.map((e) => [e.scoutedTeamId, e.scoutedTeam.teamNumber]));
+  const scoutedScores = new Map<number, number[]>();
+  for (const record of reconcileEntries(entries, await loadConsensusContext(entries))) {
+    const teamNumber = scoutedTeamNumbers.get(record.scoutedTeamId)!;
+    const list = scoutedScores.get(teamNumber) ?? [];
+    list.push(record.totalScore);
+    scoutedScores.set(teamNumber, list);
+  }
+
+  const noteRatings = new Map<number, number[]>();
+  for (const note of notes) {
+    const ratings = [note.reliabilityRating, note.driverSkillRating, note.defenseRating].filter(
+      (r): r is number => r !== null
+    );
+    const list = noteRatings.get(note.aboutTeam.teamNumber) ?? [];
+    list.push(...ratings);
+    noteRatings.set(note.aboutTeam.teamNumber, list);
+  }
+
+  const candidates = [...teamNumbers].map((teamNumber) => {
+    const scouted = scoutedScores.get(teamNumber) ?? [];
+    const scoutedAverage = average(scouted);
+    const noteRating = average(noteRatings.get(teamNumber) ?? []);
+    const teamEpa = epa?.epaResults.get(teamNumber)?.epa;
+    const teamOpr = opr.get(teamNumber)?.opr;
+
+    return {
+      teamNumber,
+      stats: {
+        epa: teamEpa ?? null,
+        opr: teamOpr ?? null,
+        scoutedAverage: scoutedAverage !== null ? round2(scoutedAverage) : null,
+        scoutedMatches: scouted.length,
+        noteRating: noteRating !== null ? round2(noteRating) : null,
+      },
+    };
+  });
+
+  return rankPickListCandidates(candidates, tierCount);
+}
@@ -0,0 +1,96 @@
+/**
+ * Realtime publisher (Soketi / Pusher protocol)
+ *
+ * Publishes scouting activity on a private channel per scouting team so
+ * members see new entries and notes as they are submitted.
+ * Gracefully degrades — if Soketi is not configured, nothing is published.
+ */
+
+import Pusher from "pusher";
+
+let pusherInstance: Pusher | null = null;
+
+const TEAM_CHANNEL_PREFIX = "private-team-";
+
+export type ScoutingEventName =
+  | "entry-created"
+  | "entry-updated"
+  | "note-created"
+  | "picklist-updated"
+  | "consensus-updated";
+
+export interface ScoutingEventPayload {
+  id: string;
+  eventCode: string | null;
+  matchNumber?: number;
+  teamNumber?: number;
+  deducted?: boolean;
+  authorId?: string | null;
+}
+
+export function getPusher(): Pusher | null {
+  if (pusherInstance) return pusherInstance;
+
+  const appId = process.env.SOKETI_APP_ID;
+  const key = process.env.SOKETI_APP_KEY;
+  const secret = process.env.SOKETI_APP_SECRET;
+
+  if (!appId || !key || !secret) {
+    return null;
+  }
+
+  try {
+    pusherInstance = new Pusher({
+      appId,
+      key,
+      secret,
+      host: process.env.SOKETI_HOST || "localhost",
+      port: process.env.SOKETI_PORT || "6001",
+      useTLS: process.env.SOKETI_USE_TLS === "true",
+      timeout: 2000,
+    });
+  } catch {
+    console.warn("[Realtime] Failed to create Pusher client, realtime disabled");
+    pusherInstance = null;
+  }
+
+  return pusherInstance;
+}
+
+/**
+ * Private channel name for a scouting team
+ */
+export function getTeamChannel(teamId: string): string {
+  return `${TEAM_CHANNEL_PREFIX}${teamId}`;
+}
+
+/**
+ * Extract the scouting team ID from a team channel name, or null if the
+ * channel is not a team channel
+ */
+export function parseTeamChannel(channel: string): string | null {
+  if (!channel.startsWith(TEAM_CHANNEL_PREFIX)) return null;
+  const teamId = channel.slice(TEAM_CHANNEL_PREFIX.length);
+  return teamId.length > 0 ? teamId : null;
+}
+
+/**
+ * Publish a scouting event to a team's channel. Never throws.
+ */
+export async function publishTeamEvent(
+  teamId: string,
+  event: ScoutingEventName,
+  payload: ScoutingEventPayload
+): Promise<void> {
+  const pusher = getPusher();
+  if (!pusher) return;
+
+  try {
+    await pusher.trigger(getTeamChannel(teamId), event, payload);
+  } catch (err) {
+    console.warn(
+      `[Realtime] Failed to publish ${event}:`,
+      err instanceof Error ? err.message : err
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Scouting scoring helpers
+ *
+ * Bridges the season game definitions in @ftcmetrics/shared with the
+ * ScoutingEntry table: builds zod validators, computes phase scores and
+ * maps raw element values to and from stored rows.
+ */
+
+import { z } from "zod";
+import {
+  calculateGameScores,
+  type GameDefinition,
+  type PhaseScores,
+  type ScoringValues,
+} from "@ftcmetrics/shared";
+
+// Typed ScoutingEntry columns that predate the game registry (DECODE)
+const LEGACY_ENTRY_COLUMNS = new Set([
+  "autoLeave",
+  "autoClassifiedCount",
+  "autoOverflowCount",
+  "autoPatternCount",
+  "teleopClassifiedCount",
+  "teleopOverflowCount",
+  "teleopDepotCount",
+  "teleopPatternCount",
+  "teleopMotifCount",
+  "endgameBaseStatus",
+]);
+
+/**
+ * Build a zod object validating every scoring element of a game.
+ * Missing values default to zero / false / the element's default state.
+ */
+export function buildScoringSchema(game: GameDefinition) {
+  const shape: Record<string, z.ZodType> = {};
+
+  for (const el of game.elements) {
+    if (el.kind === "count") {
+      shape[el.key] = z.number().int().min(0).default(0);
+    } else if (el.kind === "boolean") {
+      shape[el.key] = z.boolean().default(false);
+    } else {
+      const values = el.states.map((s) => s.value) as [string, ...string[]];
+      shape[el.key] = z.enum(values).default(el.defaultState);
+    }
+  }
+
+  return z.object(shape);
+}
+
+/**
+ * Calculate scores from scouting data
+ */
+export function calculateScores(game: GameDefinition, values: ScoringValues): PhaseScores {
+  return calculateGameScores(game, values);
+}
+
+/**
+ * Convert element values into ScoutingEntry create/update fields:
+ * the season, the scoringData JSON and any matching typed columns.
+ */
+export function toEntryScoringFields(game: GameDefinition, values: ScoringValues) {
+  const columns: Record<string, number | boolean | string> = {};
+  const scoringData: ScoringValues = {};
+
+  for (const el of game.elements) {
+    const value = values[el.key];
+    scoringData[el.key] = value;
+    if (LEGACY_ENTRY_COLUMNS.has(el.key)) {
+      columns[el.key] = value;
+    }
+  }
+
+  return {
+    season: game.season,
+    scoringData,
+    ...columns,
+  };
+}
+
+/**
+ * Per-element averages for a set of entries, keyed like the historical
+ * team summary fields (e.g. autoClassifiedCount -> autoClassified,
+ * autoLeave -> autoLeaveRate).
+ */
+export function averageScoringValues(game: GameDefinition, valueSets: ScoringValues[]) {
+  const averages: Record<string, number> = {};
+
+  for (const el of game.elements) {
+    if (el.kind === "state") continue;
+    const nums = valueSets
+      .map((v) => (el.kind === "boolean" ? (v[el.key] === true ? 1 : 0) : Number(v[el.key])))
+      .filter((n) => Number.isFinite(n));
+    const key = el.kind === "boolean" ? `${el.key}Rate` : el.key.replace(/Count$/, "");
+    averages[key] = nums.length > 0 ? nums.reduce((a, b) => a + b, 0) / nums.length : 0;
+  }
+
+  return averages;
+}
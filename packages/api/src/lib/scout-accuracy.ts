@@ -0,0 +1,296 @@
+/**
+ * Scout accuracy against official alliance scores
+ *
+ * The FTC API only reports scores per alliance, so a scout's entry can be
+ * checked once the partner robot in the same match was scouted too: the two
+ * robots' phase scores should add up to the official alliance auto, teleop
+ * and endgame points. The partner side is the median of the team's other
+ * watched entries for that robot, so one careless partner scout does not
+ * skew everyone paired with them. Deducted entries are never graded or used
+ * as a partner, since they are derived from the official total and would
+ * always match it.
+ */
+
+import { prisma } from "@ftcmetrics/db";
+import type { FTCMatch, FTCMatchScore } from "./ftc-api";
+import { getEventMatchData } from "./event-sync";
+import { weightedMedian } from "./consensus";
+
+// Scouts with fewer graded matches get no retraining flag or weight change
+export const MIN_ACCURACY_MATCHES = 5;
+// Mean absolute error, relative to the team median, that flags retraining
+const RETRAIN_RATIO = 1.5;
+const TRUSTED_RATIO = 0.75;
+
+const PHASES = ["auto", "teleop", "endgame", "total"] as const;
+type Phase = (typeof PHASES)[number];
+type PhaseValues = Record<Phase, number>;
+
+export interface AccuracyEntry {
+  id: string;
+  scouterId: string | null;
+  eventCode: string;
+  matchNumber: number;
+  alliance: string;
+  teamNumber: number;
+  autoScore: number;
+  teleopScore: number;
+  endgameScore: number;
+  totalScore: number;
+  createdAt: Date;
+}
+
+export interface OfficialAllianceScore {
+  eventCode: string;
+  matchNumber: number;
+  alliance: "RED" | "BLUE";
+  teams: number[];
+  auto: number;
+  teleop: number;
+  endgame: number;
+  total: number;
+}
+
+export interface ScoutMatchError {
+  entryId: string;
+  eventCode: string;
+  matchNumber: number;
+  alliance: string;
+  teamNumber: number;
+  partnerTeamNumber: number;
+  scoutedAt: Date;
+  // Scouted alliance sum minus the official points (positive = overcounted)
+  error: PhaseValues;
+}
+
+export interface ScoutAccuracy {
+  scouterId: string;
+  matches: number;
+  meanAbsoluteError: PhaseValues;
+  // Mean signed total error: positive when the scout tends to overcount
+  bias: number;
+  history: ScoutMatchError[];
+  needsRetraining: boolean;
+  suggestedWeight: number;
+}
+
+export interface AccuracyReport {
+  scouts: ScoutAccuracy[];
+  // Median of the per-scout total MAE among scouts with enough matches
+  teamMedianError: number | null;
+  matchesCompared: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return weightedMedian(values.map((value) => ({ value, weight: 1 })));
+}
+
+/**
+ * Official phase points for one alliance. DECODE reports teleopPoints and
+ * teleopBasePoints where earlier seasons used dcPoints and endgamePoints.
+ * Returns null when the score carries no phase breakdown.
+ */
+export function getAlliancePhasePoints(
+  alliance: FTCMatchScore["alliances"][number]
+): Omit<PhaseValues, "total"> | null {
+  const raw = alliance as Record<string, unknown>;
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      if (typeof raw[key] === "number") return raw[key] as number;
+    }
+    return 0;
+  };
+  const points = {
+    auto: pick("autoPoints"),
+    teleop: pick("dcPoints", "teleopPoints"),
+    endgame: pick("endgamePoints", "teleopBasePoints"),
+  };
+  return points.auto > 0 || points.teleop > 0 || points.endgame > 0 ? points : null;
+}
+
+/**
+ * Flatten an event's qualification scores into per-alliance official
+ * totals, taking team numbers from the schedule when the score omits them
+ */
+export function toOfficialAllianceScores(
+  eventCode: string,
+  matches: FTCMatch[],
+  matchScores: FTCMatchScore[]
+): OfficialAllianceScore[] {
+  const schedule = new Map(matches.map((m) => [m.matchNumber, m]));
+  const result: OfficialAllianceScore[] = [];
+
+  for (const score of matchScores) {
+    if (!score?.alliances) continue;
+    for (const data of score.alliances) {
+      const phases = getAlliancePhasePoints(data);
+      if (!phases) continue;
+
+      const alliance = data.alliance === "Red" ? "RED" : "BLUE";
+      let teams = [data.team1, data.team2].filter((t) => t > 0);
+      if (teams.length < 2) {
+        teams = (schedule.get(score.matchNumber)?.teams ?? [])
+          .filter((t) => t.station.toUpperCase().startsWith(alliance))
+          .map((t) => t.teamNumber);
+      }
+      if (teams.length !== 2) continue;
+
+      result.push({
+        eventCode,
+        matchNumber: score.matchNumber,
+        alliance,
+        teams,
+        ...phases,
+        total: phases.auto + phases.teleop + phases.endgame,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Grade every entry whose alliance partner was also scouted and summarise
+ * each scout's error
+ */
+export function scoreScoutAccuracy(
+  entries: AccuracyEntry[],
+  official: OfficialAllianceScore[]
+): AccuracyReport {
+  const byRobotMatch = new Map<string, AccuracyEntry[]>();
+  for (const entry of entries) {
+    const key = `${entry.eventCode}:${entry.matchNumber}:${entry.teamNumber}`;
+    const group = byRobotMatch.get(key) ?? [];
+    group.push(entry);
+    byRobotMatch.set(key, group);
+  }
+
+  const errorsByScout = new Map<string, ScoutMatchError[]>();
+  let matchesCompared = 0;
+
+  for (const score of official) {
+    const [a, b] = score.teams;
+    for (const [teamNumber, partnerTeamNumber] of [
+      [a, b],
+      [b, a],
+    ]) {
+      const own = byRobotMatch.get(`${score.eventCode}:${score.matchNumber}:${teamNumber}`) ?? [];
+      const partner = byRobotMatch.get(`${score.eventCode}:${score.matchNumber}:${partnerTeamNumber}`) ?? [];
+
+      for (const entry of own) {
+        if (!entry.scouterId || entry.alliance !== score.alliance) continue;
+        if (partner.length === 0) continue;
+
+        const partnerMedian = (field: "autoScore" | "teleopScore" | "endgameScore") =>
+          median(partner.map((p) => p[field]))!;
+        const auto = entry.autoScore + partnerMedian("autoScore") - score.auto;
+        const teleop = entry.teleopScore + partnerMedian("teleopScore") - score.teleop;
+        const endgame = entry.endgameScore + partnerMedian("endgameScore") - score.endgame;
+
+        const list = errorsByScout.get(entry.scouterId) ?? [];
+        list.push({
+          entryId: entry.id,
+          eventCode: entry.eventCode,
+          matchNumber: entry.matchNumber,
+          alliance: entry.alliance,
+          teamNumber,
+          partnerTeamNumber,
+          scoutedAt: entry.createdAt,
+          error: {
+            auto: round2(auto),
+            teleop: round2(teleop),
+            endgame: round2(endgame),
+            total: round2(auto + teleop + endgame),
+          },
+        });
+        errorsByScout.set(entry.scouterId, list);
+        matchesCompared++;
+      }
+    }
+  }
+
+  const scouts = [...errorsByScout.entries()].map(([scouterId, history]) => {
+    history.sort((x, y) => x.scoutedAt.getTime() - y.scoutedAt.getTime());
+    const mae = Object.fromEntries(
+      PHASES.map((phase) => [
+        phase,
+        round2(history.reduce((sum, h) => sum + Math.abs(h.error[phase]), 0) / history.length),
+      ])
+    ) as PhaseValues;
+    return {
+      scouterId,
+      matches: history.length,
+      meanAbsoluteError: mae,
+      bias: round2(history.reduce((sum, h) => sum + h.error.total, 0) / history.length),
+      history,
+      needsRetraining: false,
+      suggestedWeight: 1,
+    };
+  });
+
+  const teamMedianError = median(
+    scouts.filter((s) => s.matches >= MIN_ACCURACY_MATCHES).map((s) => s.meanAbsoluteError.total)
+  );
+
+  if (teamMedianError !== null && teamMedianError > 0) {
+    for (const scout of scouts) {
+      if (scout.matches < MIN_ACCURACY_MATCHES) continue;
+      const ratio = scout.meanAbsoluteError.total / teamMedianError;
+      scout.needsRetraining = ratio >= RETRAIN_RATIO;
+      scout.suggestedWeight = ratio >= RETRAIN_RATIO ? 0.5 : ratio <= TRUSTED_RATIO ? 2 : 1;
+    }
+  }
+
+  scouts.sort((x, y) => y.meanAbsoluteError.total - x.meanAbsoluteError.total);
+
+  return {
+    scouts,
+    teamMedianError: teamMedianError === null ? null : round2(teamMedianError),
+    matchesCompared,
+  };
+}
+
+/**
+ * Load a team's watched entries and the official scores for their events
+ * and grade them. Events whose scores cannot be fetched are skipped.
+ */
+export async function buildAccuracyReport(
+  teamId: string,
+  eventCode?: string
+): Promise<AccuracyReport & { eventCodes: string[] }> {
+  const rows = await prisma.scoutingEntry.findMany({
+    where: {
+      scoutingTeamId: teamId,
+      deducted: false,
+      ...(eventCode && { eventCode }),
+    },
+    include: { scoutedTeam: { select: { teamNumber: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  const entries: AccuracyEntry[] = rows.map((row) => ({
+    ...row,
+    teamNumber: row.scoutedTeam.teamNumber,
+  }));
+
+  const eventCodes = [...new Set(entries.map((e) => e.eventCode))];
+  const official = (
+    await Promise.all(
+      eventCodes.map(async (code) => {
+        try {
+          const { matches, matchScores } = await getEventMatchData(code, "qual");
+          return toOfficialAllianceScores(code, matches, matchScores);
+        } catch (err) {
+          console.warn(
+            `[ScoutAccuracy] Scores unavailable for ${code}:`,
+            err instanceof Error ? err.message : err
+          );
+          return [];
+        }
+      })
+    )
+  ).flat();
+
+  return { ...scoreScoutAccuracy(entries, official), eventCodes };
+}
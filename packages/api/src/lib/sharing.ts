@@ -0,0 +1,164 @@
+/**
+ * Scouting data visibility rules
+ *
+ * A scouting team's sharingLevel controls who outside the team can see its
+ * entries and notes:
+ * - PRIVATE: members only (whose role may view the data, see permissions)
+ * - EVENT: teams registered at the same event, for that event's data only
+ * - PUBLIC: everyone
+ *
+ * Event registration comes from the FtcTeamEvent cache, falling back to the
+ * FTC API event roster when the cache has no rows for an event.
+ */
+
+import { prisma } from "@ftcmetrics/db";
+import { hasCapability, type TeamCapability } from "@ftcmetrics/shared";
+import { getFTCApi } from "./ftc-api";
+
+export interface ViewerTeam {
+  teamId: string;
+  teamNumber: number | null;
+}
+
+// Relation on the queried model that points at the owning scouting team
+type OwnerRelation = "scoutingTeam" | "notingTeam";
+
+/**
+ * Get the scouting teams a user views data through, with their FTC team
+ * numbers: those where their role holds the capability (view-scouting for
+ * entries, view-notes for notes)
+ */
+export async function getViewerTeams(
+  userId: string,
+  capability: TeamCapability = "view-scouting"
+): Promise<ViewerTeam[]> {
+  const memberships = await prisma.teamMember.findMany({
+    where: { userId },
+    select: {
+      teamId: true,
+      role: true,
+      team: { select: { teamNumber: true, permissions: true } },
+    },
+  });
+
+  return memberships
+    .filter((m) => hasCapability(m.role, capability, m.team?.permissions))
+    .map((m) => ({
+      teamId: m.teamId,
+      teamNumber: m.team?.teamNumber ?? null,
+    }));
+}
+
+/**
+ * Get the team numbers registered at an event
+ */
+export async function getEventRoster(eventCode: string): Promise<Set<number>> {
+  const cached = await prisma.ftcTeamEvent.findMany({
+    where: { eventCode },
+    select: { teamNumber: true },
+  });
+
+  if (cached.length > 0) {
+    return new Set(cached.map((r) => r.teamNumber));
+  }
+
+  try {
+    const { teams } = await getFTCApi().getEventTeams(eventCode);
+    return new Set(teams.map((t) => t.teamNumber));
+  } catch {
+    // Roster unavailable; treat as nobody registered so EVENT data stays hidden
+    return new Set();
+  }
+}
+
+/**
+ * Events where at least one of the viewer's teams is registered, mapped to
+ * each event's full roster. With an eventCode only that event is checked;
+ * otherwise the viewer's events are read from the FtcTeamEvent cache.
+ */
+export async function getSharedEventRosters(
+  viewerTeams: ViewerTeam[],
+  eventCode?: string
+): Promise<Map<string, number[]>> {
+  const viewerNumbers = viewerTeams
+    .map((t) => t.teamNumber)
+    .filter((n): n is number => n !== null);
+  const shared = new Map<string, number[]>();
+
+  if (viewerNumbers.length === 0) {
+    return shared;
+  }
+
+  if (eventCode) {
+    const roster = await getEventRoster(eventCode);
+    if (viewerNumbers.some((n) => roster.has(n))) {
+      shared.set(eventCode, [...roster]);
+    }
+    return shared;
+  }
+
+  const viewerEvents = await prisma.ftcTeamEvent.findMany({
+    where: { teamNumber: { in: viewerNumbers } },
+    select: { eventCode: true },
+  });
+  const eventCodes = [...new Set(viewerEvents.map((e) => e.eventCode))];
+
+  if (eventCodes.length === 0) {
+    return shared;
+  }
+
+  const rosterRows = await prisma.ftcTeamEvent.findMany({
+    where: { eventCode: { in: eventCodes } },
+    select: { eventCode: true, teamNumber: true },
+  });
+
+  for (const row of rosterRows) {
+    const roster = shared.get(row.eventCode) ?? [];
+    roster.push(row.teamNumber);
+    shared.set(row.eventCode, roster);
+  }
+
+  return shared;
+}
+
+/**
+ * Build the Prisma OR conditions for scouting data a user may see:
+ * their own teams' data, PUBLIC data, and EVENT data from co-registered teams.
+ */
+export async function buildVisibilityFilter(
+  viewerTeams: ViewerTeam[],
+  owner: OwnerRelation,
+  eventCode?: string
+): Promise<Record<string, unknown>[]> {
+  const ownerIdField = owner === "scoutingTeam" ? "scoutingTeamId" : "notingTeamId";
+  const conditions: Record<string, unknown>[] = [
+    { [ownerIdField]: { in: viewerTeams.map((t) => t.teamId) } },
+    { [owner]: { sharingLevel: "PUBLIC" } },
+  ];
+
+  const shared = await getSharedEventRosters(viewerTeams, eventCode);
+  for (const [code, roster] of shared) {
+    conditions.push({
+      eventCode: code,
+      [owner]: { sharingLevel: "EVENT", teamNumber: { in: roster } },
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * Whether a viewer can see one piece of scouting data owned by a team
+ */
+export async function canViewScoutingData(
+  viewerTeams: ViewerTeam[],
+  owner: { id: string; teamNumber: number; sharingLevel: string },
+  eventCode: string | null
+): Promise<boolean> {
+  if (viewerTeams.some((t) => t.teamId === owner.id)) return true;
+  if (owner.sharingLevel === "PUBLIC") return true;
+  if (owner.sharingLevel !== "EVENT" || !eventCode) return false;
+
+  const shared = await getSharedEventRosters(viewerTeams, eventCode);
+  return shared.get(eventCode)?.includes(owner.teamNumber) ?? false;
+}
@@ -0,0 +1,164 @@
+/**
+ * Prediction Backtesting
+ *
+ * Replays matches chronologically, predicting each one from EPAs built only
+ * on the matches before it, and scores those predictions against the real
+ * results with Brier score, log loss, accuracy and a calibration table.
+ * The win-probability spread is held out the same way: each match is scored
+ * with the spread fitted on the matches before it, never on itself.
+ */
+
+import { calculateEPAWithHistory, type MatchForEPA } from "./epa";
+import {
+  DEFAULT_MARGIN_SPREAD,
+  MIN_FIT_MATCHES,
+  marginResidual,
+  winProbability,
+  type MatchPrediction,
+} from "./win-probability";
+
+// Keep log loss finite for confident misses
+const PROBABILITY_EPSILON = 1e-6;
+
+export interface CalibrationBin {
+  binStart: number;
+  binEnd: number;
+  count: number;
+  meanPredicted: number | null;
+  observedRate: number | null;
+}
+
+export interface BacktestReport {
+  matches: number;
+  ties: number;
+  spread: number;
+  brierScore: number | null;
+  logLoss: number | null;
+  accuracy: number | null;
+  calibration: CalibrationBin[];
+}
+
+/**
+ * A forecast red win probability and the outcome (1 red win, 0 blue win,
+ * 0.5 tie)
+ */
+export interface Forecast {
+  probability: number;
+  outcome: number;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Score a set of forecasts
+ */
+export function scoreForecasts(
+  forecasts: Forecast[],
+  spread: number,
+  binCount: number = 10
+): BacktestReport {
+  const bins = Array.from({ length: binCount }, () => ({
+    count: 0,
+    predictedSum: 0,
+    outcomeSum: 0,
+  }));
+
+  let brierSum = 0;
+  let logLossSum = 0;
+  let correct = 0;
+  let ties = 0;
+
+  for (const { probability, outcome } of forecasts) {
+    const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, probability));
+
+    brierSum += (probability - outcome) ** 2;
+    logLossSum -= outcome * Math.log(p) + (1 - outcome) * Math.log(1 - p);
+
+    // Ties have no winner to call, so they only count toward Brier/log loss
+    if (outcome === 0.5) {
+      ties++;
+    } else if ((probability > 0.5 ? 1 : 0) === outcome) {
+      correct++;
+    }
+
+    const bin = bins[Math.min(binCount - 1, Math.floor(probability * binCount))];
+    bin.count++;
+    bin.predictedSum += probability;
+    bin.outcomeSum += outcome;
+  }
+
+  const n = forecasts.length;
+  const decided = n - ties;
+
+  return {
+    matches: n,
+    ties,
+    spread: Math.round(spread * 100) / 100,
+    brierScore: n > 0 ? round4(brierSum / n) : null,
+    logLoss: n > 0 ? round4(logLossSum / n) : null,
+    accuracy: decided > 0 ? round4(correct / decided) : null,
+    calibration: bins.map((bin, i) => ({
+      binStart: i / binCount,
+      binEnd: (i + 1) / binCount,
+      count: bin.count,
+      meanPredicted: bin.count > 0 ? round4(bin.predictedSum / bin.count) : null,
+      observedRate: bin.count > 0 ? round4(bin.outcomeSum / bin.count) : null,
+    })),
+  };
+}
+
+function toForecast(p: MatchPrediction, spread: number): Forecast {
+  return {
+    probability: winProbability(p.predictedRedScore - p.predictedBlueScore, spread),
+    outcome: p.redScore > p.blueScore ? 1 : p.redScore < p.blueScore ? 0 : 0.5,
+  };
+}
+
+/**
+ * Turn pre-match predictions into win-probability forecasts
+ */
+export function predictionsToForecasts(
+  predictions: MatchPrediction[],
+  spread: number
+): Forecast[] {
+  return predictions.map((p) => toForecast(p, spread));
+}
+
+/**
+ * Turn chronological pre-match predictions into out-of-sample forecasts:
+ * each uses the spread fitted on the earlier predictions, or initialSpread
+ * until there are enough of them to fit. Also returns the spread fitted on
+ * all of them, the one later predictions would use.
+ */
+export function heldOutForecasts(
+  predictions: MatchPrediction[],
+  initialSpread: number = DEFAULT_MARGIN_SPREAD
+): { forecasts: Forecast[]; spread: number } {
+  let sumSquares = 0;
+  const fitted = (count: number) =>
+    count >= MIN_FIT_MATCHES && sumSquares > 0 ? Math.sqrt(sumSquares / count) : initialSpread;
+
+  const forecasts = predictions.map((p, i) => {
+    const forecast = toForecast(p, fitted(i));
+    sumSquares += marginResidual(p) ** 2;
+    return forecast;
+  });
+
+  return { forecasts, spread: fitted(predictions.length) };
+}
+
+/**
+ * Replay matches in order and score the pre-match predictions out of sample.
+ * initialSpread must not be fitted on these matches; the season spread is,
+ * so the default is the unfitted one.
+ */
+export function runBacktest(
+  matches: MatchForEPA[],
+  initialSpread: number = DEFAULT_MARGIN_SPREAD
+): BacktestReport {
+  const { predictions } = calculateEPAWithHistory(matches);
+  const { forecasts, spread } = heldOutForecasts(predictions, initialSpread);
+  return scoreForecasts(forecasts, spread);
+}
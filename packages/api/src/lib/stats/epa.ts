@@ -11,20 +11,19 @@
  * Reference: https://www.statbotics.io/blog/epa
  */
 
-// DECODE 2025-2026 baseline scores (estimated from early season)
-const DECODE_BASELINE = {
-  autoScore: 8, // Average auto score per alliance
-  teleopScore: 25, // Average teleop score per alliance
-  endgameScore: 5, // Average endgame score per alliance
-  totalScore: 38, // Average total score per alliance
-};
+import { getCurrentGame } from "@ftcmetrics/shared";
+import { winProbability, type MatchPrediction } from "./win-probability";
+
+// Current season baseline alliance scores, seeded from the game definition
+// and refined with real match data via updateBaseline()
+const SEASON_BASELINE = { ...getCurrentGame().baseline };
 
 // Per-robot baseline (divide alliance by 2)
 const PER_ROBOT_BASELINE = {
-  autoScore: DECODE_BASELINE.autoScore / 2,
-  teleopScore: DECODE_BASELINE.teleopScore / 2,
-  endgameScore: DECODE_BASELINE.endgameScore / 2,
-  totalScore: DECODE_BASELINE.totalScore / 2,
+  autoScore: SEASON_BASELINE.autoScore / 2,
+  teleopScore: SEASON_BASELINE.teleopScore / 2,
+  endgameScore: SEASON_BASELINE.endgameScore / 2,
+  totalScore: SEASON_BASELINE.totalScore / 2,
 };
 
 // Learning rate for EPA updates
@@ -32,6 +31,7 @@ const K_FACTOR = 0.2;
 
 export interface MatchForEPA {
   matchNumber: number;
+  eventCode?: string;
   timestamp?: number; // Unix timestamp for cross-event ordering
   redTeam1: number;
   redTeam2: number;
@@ -58,6 +58,20 @@ export interface EPAResult {
   trend?: "up" | "down" | "stable";
 }
 
+/**
+ * A team's EPA immediately after one of its matches
+ */
+export interface EPASnapshot {
+  teamNumber: number;
+  eventCode?: string;
+  matchNumber: number;
+  timestamp?: number;
+  epa: number;
+  autoEpa: number;
+  teleopEpa: number;
+  endgameEpa: number;
+}
+
 interface TeamEPAState {
   totalEpa: number;
   autoEpa: number;
@@ -78,10 +92,10 @@ function calculateBaselines(matches: MatchForEPA[]): {
 } {
   if (matches.length === 0) {
     return {
-      totalScore: DECODE_BASELINE.totalScore,
-      autoScore: DECODE_BASELINE.autoScore,
-      teleopScore: DECODE_BASELINE.teleopScore,
-      endgameScore: DECODE_BASELINE.endgameScore,
+      totalScore: SEASON_BASELINE.totalScore,
+      autoScore: SEASON_BASELINE.autoScore,
+      teleopScore: SEASON_BASELINE.teleopScore,
+      endgameScore: SEASON_BASELINE.endgameScore,
     };
   }
 
@@ -105,10 +119,10 @@ function calculateBaselines(matches: MatchForEPA[]): {
     }
   }
 
-  const avgTotal = scoreCount > 0 ? totalSum / scoreCount : DECODE_BASELINE.totalScore;
-  const avgAuto = componentCount > 0 ? autoSum / componentCount : DECODE_BASELINE.autoScore;
-  const avgTeleop = componentCount > 0 ? teleopSum / componentCount : DECODE_BASELINE.teleopScore;
-  const avgEndgame = componentCount > 0 ? endgameSum / componentCount : DECODE_BASELINE.endgameScore;
+  const avgTotal = scoreCount > 0 ? totalSum / scoreCount : SEASON_BASELINE.totalScore;
+  const avgAuto = componentCount > 0 ? autoSum / componentCount : SEASON_BASELINE.autoScore;
+  const avgTeleop = componentCount > 0 ? teleopSum / componentCount : SEASON_BASELINE.teleopScore;
+  const avgEndgame = componentCount > 0 ? endgameSum / componentCount : SEASON_BASELINE.endgameScore;
 
   return {
     totalScore: avgTotal,
@@ -131,10 +145,38 @@ function getAdaptiveKFactor(matchCount: number): number {
   return Math.max(minK, maxK * Math.exp(-decayRate * matchCount));
 }
 
+/**
+ * Expected alliance scores from the alliances' summed EPAs. Used both for
+ * EPA updates and for predictions so the two never disagree.
+ */
+export function expectedAllianceScores(
+  baseline: number,
+  redEpa: number,
+  blueEpa: number
+): { red: number; blue: number } {
+  return {
+    red: baseline + redEpa - blueEpa / 2,
+    blue: baseline + blueEpa - redEpa / 2,
+  };
+}
+
 /**
  * Calculate EPA for all teams from chronologically ordered match results
  */
 export function calculateEPA(matches: MatchForEPA[]): Map<number, EPAResult> {
+  return calculateEPAWithHistory(matches).results;
+}
+
+/**
+ * Calculate EPA for all teams and also return every team's per-match
+ * trajectory (one snapshot per team per match, in match order) and the
+ * pre-match prediction for every match
+ */
+export function calculateEPAWithHistory(matches: MatchForEPA[]): {
+  results: Map<number, EPAResult>;
+  history: EPASnapshot[];
+  predictions: MatchPrediction[];
+} {
   // Sort matches chronologically: by timestamp when available, falling back to matchNumber
   const sortedMatches = [...matches].sort((a, b) => {
     if (a.timestamp && b.timestamp) return a.timestamp - b.timestamp;
@@ -152,6 +194,8 @@ export function calculateEPA(matches: MatchForEPA[]): Map<number, EPAResult> {
 
   // Initialize team EPA states
   const teamStates = new Map<number, TeamEPAState>();
+  const history: EPASnapshot[] = [];
+  const predictions: MatchPrediction[] = [];
 
   const initializeTeam = (teamNumber: number) => {
     if (!teamStates.has(teamNumber)) {
@@ -181,14 +225,23 @@ export function calculateEPA(matches: MatchForEPA[]): Map<number, EPAResult> {
     const blue2 = teamStates.get(match.blueTeam2)!;
 
     // Calculate expected scores using dynamic baselines
-    const expectedRedScore =
-      baselines.totalScore +
-      (red1.totalEpa + red2.totalEpa) -
-      (blue1.totalEpa + blue2.totalEpa) / 2;
-    const expectedBlueScore =
-      baselines.totalScore +
-      (blue1.totalEpa + blue2.totalEpa) -
-      (red1.totalEpa + red2.totalEpa) / 2;
+    const expected = expectedAllianceScores(
+      baselines.totalScore,
+      red1.totalEpa + red2.totalEpa,
+      blue1.totalEpa + blue2.totalEpa
+    );
+    const expectedRedScore = expected.red;
+    const expectedBlueScore = expected.blue;
+
+    predictions.push({
+      eventCode: match.eventCode,
+      matchNumber: match.matchNumber,
+      timestamp: match.timestamp,
+      predictedRedScore: expectedRedScore,
+      predictedBlueScore: expectedBlueScore,
+      redScore: match.redScore,
+      blueScore: match.blueScore,
+    });
 
     // Calculate score deltas (actual - expected)
     const redDelta = match.redScore - expectedRedScore;
@@ -262,6 +315,26 @@ export function calculateEPA(matches: MatchForEPA[]): Map<number, EPAResult> {
       match.blueTeleopScore,
       match.blueEndgameScore
     );
+
+    // Snapshot each team's EPA after this match
+    const teams = [
+      [match.redTeam1, red1],
+      [match.redTeam2, red2],
+      [match.blueTeam1, blue1],
+      [match.blueTeam2, blue2],
+    ] as const;
+    for (const [teamNumber, state] of teams) {
+      history.push({
+        teamNumber,
+        eventCode: match.eventCode,
+        matchNumber: match.matchNumber,
+        timestamp: match.timestamp,
+        epa: Math.round(state.totalEpa * 100) / 100,
+        autoEpa: Math.round(state.autoEpa * 100) / 100,
+        teleopEpa: Math.round(state.teleopEpa * 100) / 100,
+        endgameEpa: Math.round(state.endgameEpa * 100) / 100,
+      });
+    }
   }
 
   // Build results
@@ -297,7 +370,7 @@ export function calculateEPA(matches: MatchForEPA[]): Map<number, EPAResult> {
     });
   }
 
-  return results;
+  return { results, history, predictions };
 }
 
 /**
@@ -340,13 +413,17 @@ export function predictMatch(
   const blue2Epa = teamEpas.get(blueTeam2)?.epa || 0;
 
   // Use provided baseline or fall back to default
-  const baseline = baselineScore ?? DECODE_BASELINE.totalScore;
-  const redExpected = baseline + red1Epa + red2Epa;
-  const blueExpected = baseline + blue1Epa + blue2Epa;
-
-  // Win probability using logistic function
-  const scoreDiff = redExpected - blueExpected;
-  const redWinProb = 1 / (1 + Math.exp(-scoreDiff / 10));
+  const baseline = baselineScore ?? SEASON_BASELINE.totalScore;
+  const expected = expectedAllianceScores(
+    baseline,
+    red1Epa + red2Epa,
+    blue1Epa + blue2Epa
+  );
+  const redExpected = expected.red;
+  const blueExpected = expected.blue;
+
+  // Win probability from the calibrated margin model
+  const redWinProb = winProbability(redExpected - blueExpected);
 
   return {
     predictedRedScore: Math.round(redExpected),
@@ -372,14 +449,14 @@ export function updateBaseline(
   avgTeleopScore: number,
   avgEndgameScore: number
 ) {
-  DECODE_BASELINE.autoScore = avgAutoScore;
-  DECODE_BASELINE.teleopScore = avgTeleopScore;
-  DECODE_BASELINE.endgameScore = avgEndgameScore;
-  DECODE_BASELINE.totalScore = avgAutoScore + avgTeleopScore + avgEndgameScore;
+  SEASON_BASELINE.autoScore = avgAutoScore;
+  SEASON_BASELINE.teleopScore = avgTeleopScore;
+  SEASON_BASELINE.endgameScore = avgEndgameScore;
+  SEASON_BASELINE.totalScore = avgAutoScore + avgTeleopScore + avgEndgameScore;
 
   // Update per-robot baseline
   PER_ROBOT_BASELINE.autoScore = avgAutoScore / 2;
   PER_ROBOT_BASELINE.teleopScore = avgTeleopScore / 2;
   PER_ROBOT_BASELINE.endgameScore = avgEndgameScore / 2;
-  PER_ROBOT_BASELINE.totalScore = DECODE_BASELINE.totalScore / 2;
+  PER_ROBOT_BASELINE.totalScore = SEASON_BASELINE.totalScore / 2;
 }
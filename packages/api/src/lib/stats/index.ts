@@ -1,2 +1,7 @@
 export * from "./opr";
 export * from "./epa";
+export * from "./win-probability";
+export * from "./backtest";
+export * from "./random";
+export * from "./playoff-sim";
+export * from "./rank-projection";
@@ -2,11 +2,18 @@
  * OPR (Offensive Power Rating) Calculator
  *
  * OPR uses linear algebra to estimate individual team contributions
- * from alliance match scores. This implementation uses iterative
- * least squares approximation which converges to the same result
- * as the matrix pseudo-inverse method.
+ * from alliance match scores. Each alliance appearance is one equation
+ * (team A + team B = alliance score); the system is solved exactly with
+ * least squares via the matrix pseudo-inverse, or with optional ridge
+ * regularisation that pulls teams toward the average contribution when an
+ * event has too few matches to pin everyone down.
+ *
+ * DPR solves the same system against the opposing alliance's score, and
+ * CCWM = OPR - DPR.
  */
 
+import { CholeskyDecomposition, Matrix, pseudoInverse } from "ml-matrix";
+
 export interface MatchResult {
   redTeam1: number;
   redTeam2: number;
@@ -21,6 +28,9 @@ export interface MatchResult {
   blueAutoScore?: number;
   blueTeleopScore?: number;
   blueEndgameScore?: number;
+  // Full numeric score breakdown per alliance (field name -> points/count)
+  redBreakdown?: Record<string, number>;
+  blueBreakdown?: Record<string, number>;
 }
 
 export interface OPRResult {
@@ -31,16 +41,135 @@ export interface OPRResult {
   endgameOpr?: number;
   dpr?: number; // Defensive Power Rating
   ccwm?: number; // Calculated Contribution to Winning Margin
+  components?: Record<string, number>; // OPR for each score breakdown field
+}
+
+export interface OPROptions {
+  /**
+   * Ridge penalty (lambda). 0 gives the exact least-squares solution;
+   * larger values shrink teams with little data toward the event average.
+   */
+  ridge?: number;
+}
+
+// Fields in FTC alliance score objects that are not scores
+const NON_SCORE_FIELDS = new Set([
+  "alliance",
+  "team",
+  "team1",
+  "team2",
+  "robot1",
+  "robot2",
+  "matchNumber",
+  "matchSeries",
+]);
+
+/**
+ * Extract numeric score breakdown fields from an FTC API alliance score
+ */
+export function getScoreBreakdownFields(
+  alliance: Record<string, unknown>
+): Record<string, number> {
+  const fields: Record<string, number> = {};
+  for (const [key, value] of Object.entries(alliance)) {
+    if (NON_SCORE_FIELDS.has(key)) continue;
+    if (typeof value === "number" && Number.isFinite(value)) {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * One row per alliance appearance: the two teams and the alliance/opponent
+ * values for whatever quantity is being rated
+ */
+interface AllianceRow {
+  teams: [number, number];
+  match: MatchResult;
+  isRed: boolean;
+}
+
+/**
+ * Least-squares solver for a fixed set of alliance rows. The solve matrix
+ * depends only on who played with whom, so it is built once and reused for
+ * every target (total, opponent, each component).
+ */
+class OPRSolver {
+  private readonly solveMatrix: Matrix; // teams x rows
+
+  constructor(
+    private readonly teamIndex: Map<number, number>,
+    private readonly rows: AllianceRow[],
+    ridge: number
+  ) {
+    const design = new Matrix(rows.length, teamIndex.size);
+    rows.forEach((row, r) => {
+      for (const team of row.teams) {
+        design.set(r, teamIndex.get(team)!, 1);
+      }
+    });
+
+    if (ridge > 0) {
+      // (AᵀA + λI)⁻¹ Aᵀ — always positive definite for λ > 0
+      const designT = design.transpose();
+      const normal = designT
+        .mmul(design)
+        .add(Matrix.eye(teamIndex.size).mul(ridge));
+      this.solveMatrix = new CholeskyDecomposition(normal).solve(designT);
+    } else {
+      // Moore-Penrose pseudo-inverse: exact least squares, and the
+      // minimum-norm answer when some teams cannot be separated
+      this.solveMatrix = pseudoInverse(design);
+    }
+  }
+
+  /**
+   * Solve for per-team contributions to a target value. Teams are measured
+   * as deviations from the average contribution, so regularisation and
+   * rank-deficient schedules shrink toward the mean rather than toward 0.
+   */
+  solve(target: (row: AllianceRow) => number): Float64Array {
+    const values = this.rows.map(target);
+    const mean =
+      values.reduce((sum, v) => sum + v, 0) / (values.length * 2);
+    const residual = Matrix.columnVector(values.map((v) => v - 2 * mean));
+    const deviations = this.solveMatrix.mmul(residual).getColumn(0);
+
+    const result = new Float64Array(this.teamIndex.size);
+    for (let i = 0; i < result.length; i++) {
+      result[i] = mean + deviations[i];
+    }
+    return result;
+  }
+}
+
+function buildRows(matches: MatchResult[]): AllianceRow[] {
+  const rows: AllianceRow[] = [];
+  for (const match of matches) {
+    rows.push({ teams: [match.redTeam1, match.redTeam2], match, isRed: true });
+    rows.push({ teams: [match.blueTeam1, match.blueTeam2], match, isRed: false });
+  }
+  return rows;
 }
 
 /**
- * Calculate OPR using iterative least squares approximation
+ * Calculate OPR, DPR, CCWM and component OPRs with an exact matrix solve
  */
-export function calculateOPR(matches: MatchResult[]): Map<number, OPRResult> {
+export function calculateOPR(
+  matches: MatchResult[],
+  options: OPROptions = {}
+): Map<number, OPRResult> {
   if (matches.length === 0) {
     return new Map();
   }
 
+  const ridge = Math.max(0, options.ridge ?? 0);
+
   // Get unique teams
   const teamsSet = new Set<number>();
   for (const match of matches) {
@@ -50,250 +179,69 @@ export function calculateOPR(matches: MatchResult[]): Map<number, OPRResult> {
     teamsSet.add(match.blueTeam2);
   }
   const teams = Array.from(teamsSet).sort((a, b) => a - b);
+  const teamIndex = new Map(teams.map((team, i) => [team, i]));
+
+  const rows = buildRows(matches);
+  const solver = new OPRSolver(teamIndex, rows, ridge);
+
+  const opr = solver.solve((row) => (row.isRed ? row.match.redScore : row.match.blueScore));
+  const dpr = solver.solve((row) => (row.isRed ? row.match.blueScore : row.match.redScore));
+
+  // Component fields are rated over the matches that report them. Reuse the
+  // full solver when every match does; otherwise build one for the subset.
+  const solveComponent = (
+    red: (m: MatchResult) => number | undefined,
+    blue: (m: MatchResult) => number | undefined
+  ): Float64Array | undefined => {
+    const subset = matches.filter((m) => red(m) !== undefined && blue(m) !== undefined);
+    if (subset.length === 0) return undefined;
+
+    const componentSolver =
+      subset.length === matches.length
+        ? solver
+        : new OPRSolver(teamIndex, buildRows(subset), ridge);
+    return componentSolver.solve((row) =>
+      (row.isRed ? red(row.match) : blue(row.match)) ?? 0
+    );
+  };
 
-  // Count matches per team for weighting
-  const matchCounts = new Map<number, number>();
-  for (const team of teams) {
-    matchCounts.set(team, 0);
-  }
+  const autoOpr = solveComponent((m) => m.redAutoScore, (m) => m.blueAutoScore);
+  const teleopOpr = solveComponent((m) => m.redTeleopScore, (m) => m.blueTeleopScore);
+  const endgameOpr = solveComponent((m) => m.redEndgameScore, (m) => m.blueEndgameScore);
+
+  const breakdownFields = new Set<string>();
   for (const match of matches) {
-    matchCounts.set(match.redTeam1, (matchCounts.get(match.redTeam1) || 0) + 1);
-    matchCounts.set(match.redTeam2, (matchCounts.get(match.redTeam2) || 0) + 1);
-    matchCounts.set(match.blueTeam1, (matchCounts.get(match.blueTeam1) || 0) + 1);
-    matchCounts.set(match.blueTeam2, (matchCounts.get(match.blueTeam2) || 0) + 1);
+    for (const key of Object.keys(match.redBreakdown ?? {})) breakdownFields.add(key);
+    for (const key of Object.keys(match.blueBreakdown ?? {})) breakdownFields.add(key);
   }
-
-  // Initialize OPR estimates with average score per robot
-  const avgScore =
-    matches.reduce((sum, m) => sum + m.redScore + m.blueScore, 0) /
-    (matches.length * 4); // 4 robots per match
-
-  const oprEstimates = new Map<number, number>();
-  const autoOprEstimates = new Map<number, number>();
-  const teleopOprEstimates = new Map<number, number>();
-  const endgameOprEstimates = new Map<number, number>();
-  const ccwmEstimates = new Map<number, number>();
-
-  // Check if component scores available
-  const hasComponentScores = matches.some(
-    (m) => m.redAutoScore !== undefined && m.blueAutoScore !== undefined
-  );
-
-  let avgAuto = 0;
-  let avgTeleop = 0;
-  let avgEndgame = 0;
-
-  if (hasComponentScores) {
-    const componentMatches = matches.filter(
-      (m) => m.redAutoScore !== undefined
+  const componentOprs = new Map<string, Float64Array>();
+  for (const field of breakdownFields) {
+    const solved = solveComponent(
+      (m) => m.redBreakdown?.[field],
+      (m) => m.blueBreakdown?.[field]
     );
-    avgAuto =
-      componentMatches.reduce(
-        (sum, m) => sum + (m.redAutoScore || 0) + (m.blueAutoScore || 0),
-        0
-      ) /
-      (componentMatches.length * 4);
-    avgTeleop =
-      componentMatches.reduce(
-        (sum, m) => sum + (m.redTeleopScore || 0) + (m.blueTeleopScore || 0),
-        0
-      ) /
-      (componentMatches.length * 4);
-    avgEndgame =
-      componentMatches.reduce(
-        (sum, m) => sum + (m.redEndgameScore || 0) + (m.blueEndgameScore || 0),
-        0
-      ) /
-      (componentMatches.length * 4);
-  }
-
-  for (const team of teams) {
-    oprEstimates.set(team, avgScore);
-    autoOprEstimates.set(team, avgAuto);
-    teleopOprEstimates.set(team, avgTeleop);
-    endgameOprEstimates.set(team, avgEndgame);
-    ccwmEstimates.set(team, 0);
-  }
-
-  // Iterative refinement (gradient descent with momentum)
-  const iterations = 100;
-  const learningRate = 0.15;
-
-  for (let iter = 0; iter < iterations; iter++) {
-    const oprUpdates = new Map<number, number[]>();
-    const ccwmUpdates = new Map<number, number[]>();
-    const autoUpdates = new Map<number, number[]>();
-    const teleopUpdates = new Map<number, number[]>();
-    const endgameUpdates = new Map<number, number[]>();
-
-    for (const team of teams) {
-      oprUpdates.set(team, []);
-      ccwmUpdates.set(team, []);
-      autoUpdates.set(team, []);
-      teleopUpdates.set(team, []);
-      endgameUpdates.set(team, []);
-    }
-
-    for (const match of matches) {
-      // Red alliance OPR
-      const redExpected =
-        (oprEstimates.get(match.redTeam1) || 0) +
-        (oprEstimates.get(match.redTeam2) || 0);
-      const redError = match.redScore - redExpected;
-      oprUpdates.get(match.redTeam1)!.push(redError / 2);
-      oprUpdates.get(match.redTeam2)!.push(redError / 2);
-
-      // CCWM
-      const redMargin = match.redScore - match.blueScore;
-      const redExpectedMargin =
-        (ccwmEstimates.get(match.redTeam1) || 0) +
-        (ccwmEstimates.get(match.redTeam2) || 0) -
-        (ccwmEstimates.get(match.blueTeam1) || 0) -
-        (ccwmEstimates.get(match.blueTeam2) || 0);
-      const redMarginError = redMargin - redExpectedMargin;
-      ccwmUpdates.get(match.redTeam1)!.push(redMarginError / 4);
-      ccwmUpdates.get(match.redTeam2)!.push(redMarginError / 4);
-
-      // Blue alliance OPR
-      const blueExpected =
-        (oprEstimates.get(match.blueTeam1) || 0) +
-        (oprEstimates.get(match.blueTeam2) || 0);
-      const blueError = match.blueScore - blueExpected;
-      oprUpdates.get(match.blueTeam1)!.push(blueError / 2);
-      oprUpdates.get(match.blueTeam2)!.push(blueError / 2);
-
-      // CCWM for blue
-      ccwmUpdates.get(match.blueTeam1)!.push(-redMarginError / 4);
-      ccwmUpdates.get(match.blueTeam2)!.push(-redMarginError / 4);
-
-      // Component OPRs
-      if (hasComponentScores && match.redAutoScore !== undefined) {
-        // Auto
-        const redAutoExpected =
-          (autoOprEstimates.get(match.redTeam1) || 0) +
-          (autoOprEstimates.get(match.redTeam2) || 0);
-        const redAutoError = match.redAutoScore - redAutoExpected;
-        autoUpdates.get(match.redTeam1)!.push(redAutoError / 2);
-        autoUpdates.get(match.redTeam2)!.push(redAutoError / 2);
-
-        const blueAutoExpected =
-          (autoOprEstimates.get(match.blueTeam1) || 0) +
-          (autoOprEstimates.get(match.blueTeam2) || 0);
-        const blueAutoError = (match.blueAutoScore || 0) - blueAutoExpected;
-        autoUpdates.get(match.blueTeam1)!.push(blueAutoError / 2);
-        autoUpdates.get(match.blueTeam2)!.push(blueAutoError / 2);
-
-        // Teleop
-        const redTeleopExpected =
-          (teleopOprEstimates.get(match.redTeam1) || 0) +
-          (teleopOprEstimates.get(match.redTeam2) || 0);
-        const redTeleopError = (match.redTeleopScore || 0) - redTeleopExpected;
-        teleopUpdates.get(match.redTeam1)!.push(redTeleopError / 2);
-        teleopUpdates.get(match.redTeam2)!.push(redTeleopError / 2);
-
-        const blueTeleopExpected =
-          (teleopOprEstimates.get(match.blueTeam1) || 0) +
-          (teleopOprEstimates.get(match.blueTeam2) || 0);
-        const blueTeleopError =
-          (match.blueTeleopScore || 0) - blueTeleopExpected;
-        teleopUpdates.get(match.blueTeam1)!.push(blueTeleopError / 2);
-        teleopUpdates.get(match.blueTeam2)!.push(blueTeleopError / 2);
-
-        // Endgame
-        const redEndgameExpected =
-          (endgameOprEstimates.get(match.redTeam1) || 0) +
-          (endgameOprEstimates.get(match.redTeam2) || 0);
-        const redEndgameError =
-          (match.redEndgameScore || 0) - redEndgameExpected;
-        endgameUpdates.get(match.redTeam1)!.push(redEndgameError / 2);
-        endgameUpdates.get(match.redTeam2)!.push(redEndgameError / 2);
-
-        const blueEndgameExpected =
-          (endgameOprEstimates.get(match.blueTeam1) || 0) +
-          (endgameOprEstimates.get(match.blueTeam2) || 0);
-        const blueEndgameError =
-          (match.blueEndgameScore || 0) - blueEndgameExpected;
-        endgameUpdates.get(match.blueTeam1)!.push(blueEndgameError / 2);
-        endgameUpdates.get(match.blueTeam2)!.push(blueEndgameError / 2);
-      }
-    }
-
-    // Apply updates with decreasing learning rate
-    const currentLR = learningRate * (1 - iter / iterations / 2);
-
-    for (const team of teams) {
-      const updates = oprUpdates.get(team)!;
-      if (updates.length > 0) {
-        const avgUpdate = updates.reduce((a, b) => a + b, 0) / updates.length;
-        oprEstimates.set(
-          team,
-          (oprEstimates.get(team) || 0) + currentLR * avgUpdate
-        );
-      }
-
-      const ccwmUp = ccwmUpdates.get(team)!;
-      if (ccwmUp.length > 0) {
-        const avgCcwm = ccwmUp.reduce((a, b) => a + b, 0) / ccwmUp.length;
-        ccwmEstimates.set(
-          team,
-          (ccwmEstimates.get(team) || 0) + currentLR * avgCcwm
-        );
-      }
-
-      if (hasComponentScores) {
-        const autoUp = autoUpdates.get(team)!;
-        if (autoUp.length > 0) {
-          const avg = autoUp.reduce((a, b) => a + b, 0) / autoUp.length;
-          autoOprEstimates.set(
-            team,
-            (autoOprEstimates.get(team) || 0) + currentLR * avg
-          );
-        }
-
-        const teleopUp = teleopUpdates.get(team)!;
-        if (teleopUp.length > 0) {
-          const avg = teleopUp.reduce((a, b) => a + b, 0) / teleopUp.length;
-          teleopOprEstimates.set(
-            team,
-            (teleopOprEstimates.get(team) || 0) + currentLR * avg
-          );
-        }
-
-        const endgameUp = endgameUpdates.get(team)!;
-        if (endgameUp.length > 0) {
-          const avg = endgameUp.reduce((a, b) => a + b, 0) / endgameUp.length;
-          endgameOprEstimates.set(
-            team,
-            (endgameOprEstimates.get(team) || 0) + currentLR * avg
-          );
-        }
-      }
-    }
+    if (solved) componentOprs.set(field, solved);
   }
 
   // Build results
   const results = new Map<number, OPRResult>();
-  for (const team of teams) {
-    const opr = oprEstimates.get(team) || 0;
-    const ccwm = ccwmEstimates.get(team) || 0;
-    const dpr = opr - ccwm;
+  teams.forEach((team, i) => {
+    const components: Record<string, number> = {};
+    for (const [field, values] of componentOprs) {
+      components[field] = round2(values[i]);
+    }
 
     results.set(team, {
       teamNumber: team,
-      opr: Math.round(opr * 100) / 100,
-      autoOpr: hasComponentScores
-        ? Math.round((autoOprEstimates.get(team) || 0) * 100) / 100
-        : undefined,
-      teleopOpr: hasComponentScores
-        ? Math.round((teleopOprEstimates.get(team) || 0) * 100) / 100
-        : undefined,
-      endgameOpr: hasComponentScores
-        ? Math.round((endgameOprEstimates.get(team) || 0) * 100) / 100
-        : undefined,
-      dpr: Math.round(dpr * 100) / 100,
-      ccwm: Math.round(ccwm * 100) / 100,
+      opr: round2(opr[i]),
+      autoOpr: autoOpr ? round2(autoOpr[i]) : undefined,
+      teleopOpr: teleopOpr ? round2(teleopOpr[i]) : undefined,
+      endgameOpr: endgameOpr ? round2(endgameOpr[i]) : undefined,
+      dpr: round2(dpr[i]),
+      ccwm: round2(opr[i] - dpr[i]),
+      components: componentOprs.size > 0 ? components : undefined,
     });
-  }
+  });
 
   return results;
 }
@@ -303,16 +251,20 @@ export function calculateOPR(matches: MatchResult[]): Map<number, OPRResult> {
  */
 export function getTeamOPR(
   matches: MatchResult[],
-  teamNumber: number
+  teamNumber: number,
+  options?: OPROptions
 ): OPRResult | null {
-  const allOpr = calculateOPR(matches);
+  const allOpr = calculateOPR(matches, options);
   return allOpr.get(teamNumber) || null;
 }
 
 /**
  * Get OPR rankings sorted by OPR value
  */
-export function getOPRRankings(matches: MatchResult[]): OPRResult[] {
-  const allOpr = calculateOPR(matches);
+export function getOPRRankings(
+  matches: MatchResult[],
+  options?: OPROptions
+): OPRResult[] {
+  const allOpr = calculateOPR(matches, options);
   return Array.from(allOpr.values()).sort((a, b) => b.opr - a.opr);
 }
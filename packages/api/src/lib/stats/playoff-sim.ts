@@ -0,0 +1,360 @@
+/**
+ * Playoff Bracket Simulator
+ *
+ * Monte Carlo simulation of FTC's double-elimination playoff bracket.
+ * Each match is decided with the calibrated win-probability model: the
+ * expected margin comes from predictMatch and the spread from the score
+ * variance of the four robots on the field, estimated from how far each
+ * team's qualification results strayed from their EPA.
+ *
+ * Playoff matches that have already been played are taken from the real
+ * results, so only the remainder of the bracket is simulated.
+ */
+
+import {
+  expectedAllianceScores,
+  getCalculatedBaseline,
+  predictMatch,
+  type EPAResult,
+  type MatchForEPA,
+} from "./epa";
+import { getMarginSpread, winProbability } from "./win-probability";
+import { createRandom } from "./random";
+
+// Prior weight (in matches) given to the default per-robot variance
+const VARIANCE_PRIOR_MATCHES = 3;
+
+export const DEFAULT_SIMULATIONS = 10000;
+
+export interface PlayoffAlliance {
+  seed: number;
+  teams: number[];
+}
+
+/**
+ * A completed playoff match from the FTC API
+ */
+export interface PlayedPlayoffMatch {
+  series: number;
+  matchNumber: number;
+  redTeams: number[];
+  blueTeams: number[];
+  redScore: number;
+  blueScore: number;
+}
+
+type BracketSlot = { seed: number } | { winnerOf: string } | { loserOf: string };
+
+export interface BracketMatch {
+  id: string;
+  label: string;
+  round: number;
+  red: BracketSlot;
+  blue: BracketSlot;
+  bestOf?: number;
+}
+
+export interface BracketDefinition {
+  rounds: string[];
+  matches: BracketMatch[];
+}
+
+const seed = (n: number): BracketSlot => ({ seed: n });
+const winnerOf = (id: string): BracketSlot => ({ winnerOf: id });
+const loserOf = (id: string): BracketSlot => ({ loserOf: id });
+
+/**
+ * Double-elimination brackets by alliance count. Matches are listed in
+ * play order; the finals are best of three.
+ */
+export const PLAYOFF_BRACKETS: Record<number, BracketDefinition> = {
+  2: {
+    rounds: ["Finals"],
+    matches: [{ id: "F", label: "Finals", round: 0, red: seed(1), blue: seed(2), bestOf: 3 }],
+  },
+  4: {
+    rounds: ["Round 1", "Round 2", "Round 3", "Finals"],
+    matches: [
+      { id: "M1", label: "Match 1", round: 0, red: seed(1), blue: seed(4) },
+      { id: "M2", label: "Match 2", round: 0, red: seed(2), blue: seed(3) },
+      { id: "M3", label: "Match 3 (Lower)", round: 1, red: loserOf("M1"), blue: loserOf("M2") },
+      { id: "M4", label: "Match 4 (Upper)", round: 1, red: winnerOf("M1"), blue: winnerOf("M2") },
+      { id: "M5", label: "Match 5 (Lower)", round: 2, red: loserOf("M4"), blue: winnerOf("M3") },
+      { id: "F", label: "Finals", round: 3, red: winnerOf("M4"), blue: winnerOf("M5"), bestOf: 3 },
+    ],
+  },
+  8: {
+    rounds: ["Round 1", "Round 2", "Round 3", "Round 4", "Round 5", "Finals"],
+    matches: [
+      { id: "M1", label: "Match 1", round: 0, red: seed(1), blue: seed(8) },
+      { id: "M2", label: "Match 2", round: 0, red: seed(4), blue: seed(5) },
+      { id: "M3", label: "Match 3", round: 0, red: seed(2), blue: seed(7) },
+      { id: "M4", label: "Match 4", round: 0, red: seed(3), blue: seed(6) },
+      { id: "M5", label: "Match 5 (Lower)", round: 1, red: loserOf("M1"), blue: loserOf("M2") },
+      { id: "M6", label: "Match 6 (Lower)", round: 1, red: loserOf("M3"), blue: loserOf("M4") },
+      { id: "M7", label: "Match 7 (Upper)", round: 1, red: winnerOf("M1"), blue: winnerOf("M2") },
+      { id: "M8", label: "Match 8 (Upper)", round: 1, red: winnerOf("M3"), blue: winnerOf("M4") },
+      { id: "M9", label: "Match 9 (Lower)", round: 2, red: loserOf("M7"), blue: winnerOf("M6") },
+      { id: "M10", label: "Match 10 (Lower)", round: 2, red: loserOf("M8"), blue: winnerOf("M5") },
+      { id: "M11", label: "Match 11 (Upper)", round: 3, red: winnerOf("M7"), blue: winnerOf("M8") },
+      { id: "M12", label: "Match 12 (Lower)", round: 3, red: winnerOf("M10"), blue: winnerOf("M9") },
+      { id: "M13", label: "Match 13 (Lower)", round: 4, red: loserOf("M11"), blue: winnerOf("M12") },
+      { id: "F", label: "Finals", round: 5, red: winnerOf("M11"), blue: winnerOf("M13"), bestOf: 3 },
+    ],
+  },
+};
+
+export interface AllianceOutcome {
+  seed: number;
+  teams: number[];
+  playingTeams: number[];
+  epa: number;
+  // Probability of still being alive at the start of each round
+  roundProbabilities: number[];
+  winProbability: number;
+}
+
+export interface BracketMatchOutcome {
+  id: string;
+  label: string;
+  round: number;
+  bestOf: number;
+  // Set when the match was decided by real results in every simulation
+  winnerSeed: number | null;
+  participants: Array<{ seed: number; probability: number }>;
+  winners: Array<{ seed: number; probability: number }>;
+}
+
+export interface PlayoffSimulationResult {
+  simulations: number;
+  rounds: string[];
+  playedMatches: number;
+  alliances: AllianceOutcome[];
+  matches: BracketMatchOutcome[];
+}
+
+export interface PlayoffSimulationOptions {
+  simulations?: number;
+  seed?: number;
+  baseline?: number;
+  played?: PlayedPlayoffMatch[];
+  // Qualification matches used to estimate each team's score variance
+  matches?: MatchForEPA[];
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Estimate each robot's score variance from its alliances' residuals
+ * against final EPAs. Each robot is charged half of the alliance's squared
+ * residual and shrunk toward the variance implied by the margin spread
+ * (four robots per match share the margin variance).
+ */
+export function estimateTeamVariances(
+  matches: MatchForEPA[],
+  teamEpas: Map<number, EPAResult>,
+  baseline: number,
+  spread: number = getMarginSpread()
+): { variances: Map<number, number>; prior: number } {
+  const prior = (spread * spread) / 4;
+  const sums = new Map<number, { sum: number; count: number }>();
+  const epaOf = (team: number) => teamEpas.get(team)?.epa || 0;
+
+  const addSample = (team: number, squared: number) => {
+    const entry = sums.get(team) ?? { sum: 0, count: 0 };
+    entry.sum += squared;
+    entry.count += 1;
+    sums.set(team, entry);
+  };
+
+  for (const match of matches) {
+    const expected = expectedAllianceScores(
+      baseline,
+      epaOf(match.redTeam1) + epaOf(match.redTeam2),
+      epaOf(match.blueTeam1) + epaOf(match.blueTeam2)
+    );
+    const redSquared = (match.redScore - expected.red) ** 2 / 2;
+    const blueSquared = (match.blueScore - expected.blue) ** 2 / 2;
+    addSample(match.redTeam1, redSquared);
+    addSample(match.redTeam2, redSquared);
+    addSample(match.blueTeam1, blueSquared);
+    addSample(match.blueTeam2, blueSquared);
+  }
+
+  const variances = new Map<number, number>();
+  for (const [team, { sum, count }] of sums) {
+    variances.set(team, (sum + VARIANCE_PRIOR_MATCHES * prior) / (count + VARIANCE_PRIOR_MATCHES));
+  }
+  return { variances, prior };
+}
+
+/**
+ * Simulate the playoff bracket for the given alliances
+ */
+export function simulatePlayoffs(
+  alliances: PlayoffAlliance[],
+  teamEpas: Map<number, EPAResult>,
+  options: PlayoffSimulationOptions = {}
+): PlayoffSimulationResult {
+  const bracket = PLAYOFF_BRACKETS[alliances.length];
+  if (!bracket) {
+    throw new Error(`Unsupported alliance count: ${alliances.length}`);
+  }
+
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const random = createRandom(options.seed ?? Date.now());
+  const baseline = options.baseline ?? getCalculatedBaseline(options.matches ?? []);
+  const { variances, prior } = estimateTeamVariances(options.matches ?? [], teamEpas, baseline);
+  const varianceOf = (team: number) => variances.get(team) ?? prior;
+  const epaOf = (team: number) => teamEpas.get(team)?.epa || 0;
+
+  // Index alliances by seed; only the two strongest robots take the field
+  const bySeed = new Map<number, PlayoffAlliance & { playing: number[] }>();
+  for (const alliance of alliances) {
+    const playing = [...alliance.teams].sort((a, b) => epaOf(b) - epaOf(a)).slice(0, 2);
+    while (playing.length < 2) playing.push(playing[0] ?? 0);
+    bySeed.set(alliance.seed, { ...alliance, playing });
+  }
+  const seeds = [...bySeed.keys()].sort((a, b) => a - b);
+
+  // Red-win probability for every ordered pair of alliances
+  const redWins = new Map<string, number>();
+  for (const red of seeds) {
+    for (const blue of seeds) {
+      if (red === blue) continue;
+      const r = bySeed.get(red)!.playing;
+      const b = bySeed.get(blue)!.playing;
+      const prediction = predictMatch(teamEpas, r[0], r[1], b[0], b[1], baseline);
+      const spread = Math.sqrt([...r, ...b].reduce((sum, team) => sum + varianceOf(team), 0));
+      redWins.set(
+        `${red}-${blue}`,
+        winProbability(prediction.predictedRedScore - prediction.predictedBlueScore, spread)
+      );
+    }
+  }
+
+  const played = [...(options.played ?? [])].sort(
+    (a, b) => a.series - b.series || a.matchNumber - b.matchNumber
+  );
+
+  // Find the first unused played game between two alliances and its winner
+  const takePlayed = (used: boolean[], red: number, blue: number): number | null | undefined => {
+    const redTeams = new Set(bySeed.get(red)!.teams);
+    const blueTeams = new Set(bySeed.get(blue)!.teams);
+    for (let i = 0; i < played.length; i++) {
+      if (used[i]) continue;
+      const game = played[i];
+      const gameTeams = [...game.redTeams, ...game.blueTeams];
+      const fromRed = gameTeams.filter((t) => redTeams.has(t)).length;
+      const fromBlue = gameTeams.filter((t) => blueTeams.has(t)).length;
+      if (fromRed === 0 || fromBlue === 0 || fromRed + fromBlue !== gameTeams.length) continue;
+
+      used[i] = true;
+      if (game.redScore === game.blueScore) return null;
+      const winningTeam = game.redScore > game.blueScore ? game.redTeams[0] : game.blueTeams[0];
+      return redTeams.has(winningTeam) ? red : blue;
+    }
+    return undefined;
+  };
+
+  const feedsLater = new Set(
+    bracket.matches.flatMap((m) =>
+      [m.red, m.blue].filter((s) => "loserOf" in s).map((s) => (s as { loserOf: string }).loserOf)
+    )
+  );
+
+  const reached = new Map(seeds.map((s) => [s, new Array<number>(bracket.rounds.length).fill(0)]));
+  const titles = new Map(seeds.map((s) => [s, 0]));
+  const appearances = new Map(bracket.matches.map((m) => [m.id, new Map<number, number>()]));
+  const matchWins = new Map(bracket.matches.map((m) => [m.id, new Map<number, number>()]));
+  const decidedByResults = new Map(bracket.matches.map((m) => [m.id, 0]));
+  let playedMatches = 0;
+
+  for (let sim = 0; sim < simulations; sim++) {
+    const used = new Array<boolean>(played.length).fill(false);
+    const winners = new Map<string, number>();
+    const losers = new Map<string, number>();
+    const eliminatedIn = new Map<number, number>();
+
+    const resolve = (slot: BracketSlot) =>
+      "seed" in slot ? slot.seed : "winnerOf" in slot ? winners.get(slot.winnerOf)! : losers.get(slot.loserOf)!;
+
+    for (const match of bracket.matches) {
+      const red = resolve(match.red);
+      const blue = resolve(match.blue);
+      const needed = Math.ceil((match.bestOf ?? 1) / 2);
+      let redGames = 0;
+      let blueGames = 0;
+      let allPlayed = true;
+
+      while (redGames < needed && blueGames < needed) {
+        let winner = takePlayed(used, red, blue);
+        if (winner === undefined || winner === null) {
+          allPlayed = false;
+          winner = random() < redWins.get(`${red}-${blue}`)! ? red : blue;
+        }
+        if (winner === red) redGames++;
+        else blueGames++;
+      }
+
+      const winner = redGames > blueGames ? red : blue;
+      const loser = winner === red ? blue : red;
+      winners.set(match.id, winner);
+      losers.set(match.id, loser);
+      if (!feedsLater.has(match.id)) eliminatedIn.set(loser, match.round);
+
+      const seen = appearances.get(match.id)!;
+      seen.set(red, (seen.get(red) ?? 0) + 1);
+      seen.set(blue, (seen.get(blue) ?? 0) + 1);
+      const won = matchWins.get(match.id)!;
+      won.set(winner, (won.get(winner) ?? 0) + 1);
+      if (allPlayed) decidedByResults.set(match.id, decidedByResults.get(match.id)! + 1);
+    }
+
+    if (sim === 0) playedMatches = used.filter(Boolean).length;
+
+    const champion = winners.get(bracket.matches[bracket.matches.length - 1].id)!;
+    titles.set(champion, titles.get(champion)! + 1);
+    for (const s of seeds) {
+      const lastRound = eliminatedIn.get(s) ?? bracket.rounds.length - 1;
+      const counts = reached.get(s)!;
+      for (let r = 0; r <= lastRound; r++) counts[r]++;
+    }
+  }
+
+  const toProbabilities = (counts: Map<number, number>) =>
+    [...counts.entries()]
+      .map(([s, count]) => ({ seed: s, probability: round4(count / simulations) }))
+      .sort((a, b) => b.probability - a.probability || a.seed - b.seed);
+
+  return {
+    simulations,
+    rounds: bracket.rounds,
+    playedMatches,
+    alliances: seeds.map((s) => {
+      const alliance = bySeed.get(s)!;
+      return {
+        seed: s,
+        teams: alliance.teams,
+        playingTeams: alliance.playing,
+        epa: Math.round(alliance.playing.reduce((sum, t) => sum + epaOf(t), 0) * 10) / 10,
+        roundProbabilities: reached.get(s)!.map((count) => round4(count / simulations)),
+        winProbability: round4(titles.get(s)! / simulations),
+      };
+    }),
+    matches: bracket.matches.map((match) => {
+      const won = toProbabilities(matchWins.get(match.id)!);
+      return {
+        id: match.id,
+        label: match.label,
+        round: match.round,
+        bestOf: match.bestOf ?? 1,
+        winnerSeed: decidedByResults.get(match.id) === simulations ? won[0].seed : null,
+        participants: toProbabilities(appearances.get(match.id)!),
+        winners: won,
+      };
+    }),
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * Qualification Ranking Projection
+ *
+ * Monte Carlo simulation of an event's unplayed qualification matches.
+ * Starts from the current standings, draws each alliance's score from a
+ * normal distribution around its EPA prediction (spread from the robots'
+ * score variances), awards win/tie ranking points plus bonus RPs at each
+ * team's observed bonus rate, and re-ranks the event after every run.
+ *
+ * Teams are ordered by ranking score (average RP per match), then by
+ * average alliance score; remaining ties are broken at random.
+ */
+
+import { getCurrentGame, type RankingRules } from "@ftcmetrics/shared";
+import { getCalculatedBaseline, predictMatch, type EPAResult, type MatchForEPA } from "./epa";
+import { estimateTeamVariances } from "./playoff-sim";
+import { createRandom, sampleNormal } from "./random";
+
+export const DEFAULT_PROJECTION_SIMULATIONS = 5000;
+
+/**
+ * A team's qualification record so far
+ */
+export interface TeamStanding {
+  teamNumber: number;
+  rank: number | null;
+  matchesPlayed: number;
+  rankingPoints: number;
+  // Sum of the team's alliance scores, for the tiebreaker
+  scoreTotal: number;
+  // Bonus ranking points earned per match so far
+  bonusRate: number;
+}
+
+/**
+ * A qualification match from the schedule
+ */
+export interface ScheduledMatch {
+  matchNumber: number;
+  redTeams: number[];
+  blueTeams: number[];
+  // Teams playing as surrogates, whose results do not count
+  surrogates?: number[];
+}
+
+export interface TeamRankProjection {
+  teamNumber: number;
+  currentRank: number | null;
+  matchesPlayed: number;
+  remainingMatches: number;
+  epa: number | null;
+  expectedRankingPoints: number;
+  expectedRankingScore: number;
+  expectedRank: number;
+  // rankProbabilities[i] is the chance of finishing rank i + 1
+  rankProbabilities: number[];
+  topProbability: number;
+}
+
+export interface RankingProjection {
+  simulations: number;
+  remainingMatches: number;
+  top: number;
+  teams: TeamRankProjection[];
+}
+
+export interface RankingProjectionOptions {
+  simulations?: number;
+  seed?: number;
+  // Report the probability of finishing in the top N
+  top?: number;
+  baseline?: number;
+  // Played qualification matches, used to estimate score variances
+  matches?: MatchForEPA[];
+  rules?: RankingRules;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Standings from the FTC rankings. Bonus RPs so far are whatever ranking
+ * points the win/loss/tie record does not explain.
+ */
+export function standingsFromRankings(
+  rankings: Array<{
+    rank: number;
+    teamNumber: number;
+    matchesPlayed: number;
+    wins: number;
+    ties: number;
+    qualAverage: number;
+    sortOrder1: number;
+  }>,
+  rules: RankingRules = getCurrentGame().ranking
+): TeamStanding[] {
+  return rankings.map((r) => {
+    const rankingPoints = r.sortOrder1 * r.matchesPlayed;
+    const bonus = rankingPoints - r.wins * rules.winPoints - r.ties * rules.tiePoints;
+    return {
+      teamNumber: r.teamNumber,
+      rank: r.rank,
+      matchesPlayed: r.matchesPlayed,
+      rankingPoints,
+      scoreTotal: r.qualAverage * r.matchesPlayed,
+      bonusRate: r.matchesPlayed > 0 ? Math.max(0, bonus / r.matchesPlayed) : 0,
+    };
+  });
+}
+
+/**
+ * Standings rebuilt from played match results when the FTC rankings are
+ * unavailable. Bonus RPs cannot be recovered, so only win/tie RPs count.
+ */
+export function standingsFromMatches(
+  matches: MatchForEPA[],
+  rules: RankingRules = getCurrentGame().ranking
+): TeamStanding[] {
+  const standings = new Map<number, TeamStanding>();
+  const record = (team: number, own: number, opponent: number) => {
+    const standing = standings.get(team) ?? {
+      teamNumber: team,
+      rank: null,
+      matchesPlayed: 0,
+      rankingPoints: 0,
+      scoreTotal: 0,
+      bonusRate: 0,
+    };
+    standing.matchesPlayed += 1;
+    standing.scoreTotal += own;
+    standing.rankingPoints +=
+      own > opponent ? rules.winPoints : own === opponent ? rules.tiePoints : 0;
+    standings.set(team, standing);
+  };
+
+  for (const match of matches) {
+    record(match.redTeam1, match.redScore, match.blueScore);
+    record(match.redTeam2, match.redScore, match.blueScore);
+    record(match.blueTeam1, match.blueScore, match.redScore);
+    record(match.blueTeam2, match.blueScore, match.redScore);
+  }
+  return [...standings.values()];
+}
+
+/**
+ * Scheduled matches the standings do not count yet. Qualifications are
+ * played in order, so each team's matchesPlayed covers its first
+ * non-surrogate appearances in the schedule; a match is counted once every
+ * team whose result counts in it has played that far.
+ */
+export function matchesNotInStandings(
+  schedule: ScheduledMatch[],
+  standings: TeamStanding[]
+): ScheduledMatch[] {
+  const played = new Map(standings.map((s) => [s.teamNumber, s.matchesPlayed]));
+  const appearances = new Map<number, number>();
+
+  return [...schedule]
+    .sort((a, b) => a.matchNumber - b.matchNumber)
+    .filter((match) => {
+      const counting = [...match.redTeams, ...match.blueTeams].filter(
+        (team) => !match.surrogates?.includes(team)
+      );
+      let counted = counting.length > 0;
+      for (const team of counting) {
+        const appearance = (appearances.get(team) ?? 0) + 1;
+        appearances.set(team, appearance);
+        if (appearance > (played.get(team) ?? 0)) counted = false;
+      }
+      return !counted;
+    });
+}
+
+/**
+ * Simulate the remaining qualification schedule and project final ranks
+ */
+export function projectRankings(
+  standings: TeamStanding[],
+  remaining: ScheduledMatch[],
+  teamEpas: Map<number, EPAResult>,
+  options: RankingProjectionOptions = {}
+): RankingProjection {
+  const simulations = options.simulations ?? DEFAULT_PROJECTION_SIMULATIONS;
+  const rules = options.rules ?? getCurrentGame().ranking;
+  const random = createRandom(options.seed ?? Date.now());
+  const baseline = options.baseline ?? getCalculatedBaseline(options.matches ?? []);
+  const { variances, prior } = estimateTeamVariances(options.matches ?? [], teamEpas, baseline);
+  const varianceOf = (team: number) => variances.get(team) ?? prior;
+
+  // Every team in the standings or on the remaining schedule
+  const byTeam = new Map(standings.map((s) => [s.teamNumber, s]));
+  for (const match of remaining) {
+    for (const team of [...match.redTeams, ...match.blueTeams]) {
+      if (!byTeam.has(team)) {
+        byTeam.set(team, {
+          teamNumber: team,
+          rank: null,
+          matchesPlayed: 0,
+          rankingPoints: 0,
+          scoreTotal: 0,
+          bonusRate: 0,
+        });
+      }
+    }
+  }
+  const teams = [...byTeam.values()].sort(
+    (a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || a.teamNumber - b.teamNumber
+  );
+  const index = new Map(teams.map((t, i) => [t.teamNumber, i]));
+  const teamCount = teams.length;
+  const top = Math.min(options.top ?? 4, teamCount);
+
+  // Score distributions don't change between runs, so precompute them
+  const simMatches = remaining.map((match) => {
+    const [r1 = 0, r2 = r1] = match.redTeams;
+    const [b1 = 0, b2 = b1] = match.blueTeams;
+    const prediction = predictMatch(teamEpas, r1, r2, b1, b2, baseline);
+    const bonusOf = (alliance: number[]) =>
+      Math.min(
+        rules.maxBonusPoints,
+        alliance.reduce((sum, t) => sum + (byTeam.get(t)?.bonusRate ?? 0), 0) / Math.max(1, alliance.length)
+      );
+    const counted = (alliance: number[]) =>
+      alliance.filter((t) => !match.surrogates?.includes(t)).map((t) => index.get(t)!);
+
+    return {
+      red: counted(match.redTeams),
+      blue: counted(match.blueTeams),
+      redMean: prediction.predictedRedScore,
+      blueMean: prediction.predictedBlueScore,
+      redSd: Math.sqrt(match.redTeams.reduce((sum, t) => sum + varianceOf(t), 0)),
+      blueSd: Math.sqrt(match.blueTeams.reduce((sum, t) => sum + varianceOf(t), 0)),
+      redBonus: bonusOf(match.redTeams),
+      blueBonus: bonusOf(match.blueTeams),
+    };
+  });
+
+  const drawBonus = (expected: number) => {
+    if (rules.maxBonusPoints <= 0 || expected <= 0) return 0;
+    const chance = expected / rules.maxBonusPoints;
+    let earned = 0;
+    for (let i = 0; i < rules.maxBonusPoints; i++) if (random() < chance) earned++;
+    return earned;
+  };
+
+  const rankCounts = teams.map(() => new Array<number>(teamCount).fill(0));
+  const rpTotals = new Array<number>(teamCount).fill(0);
+  const rankingScoreTotals = new Array<number>(teamCount).fill(0);
+  const remainingCounts = new Array<number>(teamCount).fill(0);
+  for (const match of simMatches) {
+    for (const i of [...match.red, ...match.blue]) remainingCounts[i]++;
+  }
+
+  const rp = new Array<number>(teamCount);
+  const played = new Array<number>(teamCount);
+  const scores = new Array<number>(teamCount);
+  const order = teams.map((_, i) => i);
+  const tiebreak = new Array<number>(teamCount);
+
+  for (let sim = 0; sim < simulations; sim++) {
+    teams.forEach((t, i) => {
+      rp[i] = t.rankingPoints;
+      played[i] = t.matchesPlayed;
+      scores[i] = t.scoreTotal;
+      tiebreak[i] = random();
+    });
+
+    for (const match of simMatches) {
+      const red = Math.max(0, Math.round(sampleNormal(random, match.redMean, match.redSd)));
+      const blue = Math.max(0, Math.round(sampleNormal(random, match.blueMean, match.blueSd)));
+      const redRp = (red > blue ? rules.winPoints : red === blue ? rules.tiePoints : 0) + drawBonus(match.redBonus);
+      const blueRp = (blue > red ? rules.winPoints : red === blue ? rules.tiePoints : 0) + drawBonus(match.blueBonus);
+
+      for (const i of match.red) {
+        rp[i] += redRp;
+        played[i] += 1;
+        scores[i] += red;
+      }
+      for (const i of match.blue) {
+        rp[i] += blueRp;
+        played[i] += 1;
+        scores[i] += blue;
+      }
+    }
+
+    const rankingScore = (i: number) => (played[i] > 0 ? rp[i] / played[i] : 0);
+    const averageScore = (i: number) => (played[i] > 0 ? scores[i] / played[i] : 0);
+    order.sort(
+      (a, b) =>
+        rankingScore(b) - rankingScore(a) ||
+        averageScore(b) - averageScore(a) ||
+        tiebreak[a] - tiebreak[b]
+    );
+
+    order.forEach((i, position) => {
+      rankCounts[i][position]++;
+      rpTotals[i] += rp[i];
+      rankingScoreTotals[i] += rankingScore(i);
+    });
+  }
+
+  return {
+    simulations,
+    remainingMatches: remaining.length,
+    top,
+    teams: teams
+      .map((team, i) => {
+        const rankProbabilities = rankCounts[i].map((count) => round4(count / simulations));
+        const expectedRank = rankCounts[i].reduce((sum, count, r) => sum + count * (r + 1), 0) / simulations;
+        return {
+          teamNumber: team.teamNumber,
+          currentRank: team.rank,
+          matchesPlayed: team.matchesPlayed,
+          remainingMatches: remainingCounts[i],
+          epa: teamEpas.get(team.teamNumber)?.epa ?? null,
+          expectedRankingPoints: round2(rpTotals[i] / simulations),
+          expectedRankingScore: round2(rankingScoreTotals[i] / simulations),
+          expectedRank: round2(expectedRank),
+          rankProbabilities,
+          topProbability: round4(
+            rankCounts[i].slice(0, top).reduce((sum, count) => sum + count, 0) / simulations
+          ),
+        };
+      })
+      .sort((a, b) => a.expectedRank - b.expectedRank || a.teamNumber - b.teamNumber),
+  };
+}
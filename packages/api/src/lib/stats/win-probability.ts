@@ -0,0 +1,96 @@
+/**
+ * Win Probability Model
+ *
+ * Treats the final score margin (red - blue) as normally distributed around
+ * the EPA-predicted margin. The spread (standard deviation of that margin)
+ * is fitted from how far pre-match predictions missed over the season, so
+ * win probabilities reflect real score variance instead of a fixed curve.
+ */
+
+// Until a season fit is available, use the spread that reproduces the
+// original logistic(margin / 10) curve (logistic scale * 1.7 ≈ normal sigma)
+export const DEFAULT_MARGIN_SPREAD = 17;
+
+// Minimum number of matches before a fitted spread is trusted
+export const MIN_FIT_MATCHES = 30;
+
+let marginSpread = DEFAULT_MARGIN_SPREAD;
+
+/**
+ * A pre-match prediction alongside the actual result
+ */
+export interface MatchPrediction {
+  eventCode?: string;
+  matchNumber: number;
+  timestamp?: number;
+  predictedRedScore: number;
+  predictedBlueScore: number;
+  redScore: number;
+  blueScore: number;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t *
+    (0.254829592 +
+      t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Probability that red wins given the expected red - blue margin
+ */
+export function winProbability(
+  expectedMargin: number,
+  spread: number = marginSpread
+): number {
+  return normalCdf(expectedMargin / spread);
+}
+
+/**
+ * How far the actual red - blue margin landed from the predicted one
+ */
+export function marginResidual(p: MatchPrediction): number {
+  return p.redScore - p.blueScore - (p.predictedRedScore - p.predictedBlueScore);
+}
+
+/**
+ * Fit the margin spread as the RMS error of predicted margins.
+ * Returns null when there are too few matches to trust the fit.
+ */
+export function fitMarginSpread(
+  predictions: MatchPrediction[],
+  minMatches: number = MIN_FIT_MATCHES
+): number | null {
+  if (predictions.length === 0 || predictions.length < minMatches) return null;
+
+  let sumSquares = 0;
+  for (const p of predictions) {
+    sumSquares += marginResidual(p) ** 2;
+  }
+
+  const spread = Math.sqrt(sumSquares / predictions.length);
+  return spread > 0 ? spread : null;
+}
+
+/**
+ * Current margin spread used by predictMatch
+ */
+export function getMarginSpread(): number {
+  return marginSpread;
+}
+
+/**
+ * Update the margin spread (called after each season-wide EPA computation)
+ */
+export function setMarginSpread(spread: number) {
+  if (Number.isFinite(spread) && spread > 0) {
+    marginSpread = spread;
+  }
+}
@@ -1,6 +1,33 @@
 import { Context, Next } from "hono";
-import { prisma } from "@ftcmetrics/db";
+import { prisma, type TeamMember, type TeamRole } from "@ftcmetrics/db";
+import type { TeamCapability } from "@ftcmetrics/shared";
 import { getRedis } from "../lib/redis";
+import { can, getTeamAccess, type TeamAccess } from "../lib/permissions";
+import {
+  getBearerToken,
+  requiredScope,
+  verifyApiToken,
+  type ApiTokenScope,
+} from "../lib/api-tokens";
+
+/**
+ * Context variables set by the auth middlewares. The user's identity only
+ * ever comes from here; routes must not trust client-sent user headers.
+ */
+export type AuthVariables = {
+  user: { id: string; name: string | null; email: string | null };
+  userId: string;
+  // Set when the request authenticated with a personal API token
+  apiTokenId?: string;
+  apiTokenScopes?: ApiTokenScope[];
+  // Set by requireTeamMembership and requireTeamCapability
+  membership?: TeamMember;
+  teamRole?: TeamRole;
+  capabilities?: TeamCapability[];
+};
+
+// Roles that may change team settings, members and permissions
+export const TEAM_ADMIN_ROLES: TeamRole[] = ["MENTOR", "LEADER"];
 
 /**
  * Extract the NextAuth session token from cookies.
@@ -26,11 +53,62 @@ function getSessionToken(c: Context): string | undefined {
   );
 }
 
+/**
+ * Verify a personal API token and check it may make this request.
+ * Returns an error response, or null after attaching the token's user.
+ */
+async function authenticateApiToken(c: Context, token: string): Promise<Response | null> {
+  const verified = await verifyApiToken(token);
+  if (!verified) {
+    return c.json(
+      { success: false, error: "Invalid or expired API token" },
+      401
+    );
+  }
+
+  const scope = requiredScope(c.req.method, c.req.path);
+  if (!scope) {
+    return c.json(
+      { success: false, error: "API tokens cannot access this endpoint" },
+      403
+    );
+  }
+  if (!verified.scopes.includes(scope)) {
+    return c.json(
+      { success: false, error: `API token is missing the ${scope} scope` },
+      403
+    );
+  }
+
+  c.set("user", verified.user);
+  c.set("userId", verified.user.id);
+  c.set("apiTokenId", verified.id);
+  c.set("apiTokenScopes", verified.scopes);
+  return null;
+}
+
 /**
  * Authentication middleware that verifies the NextAuth session
- * by looking up the session token in the database.
+ * by looking up the session token in the database, or a personal API
+ * token sent as `Authorization: Bearer`.
  */
 export async function authMiddleware(c: Context, next: Next) {
+  const bearerToken = getBearerToken(c.req.header("Authorization"));
+  if (bearerToken) {
+    try {
+      const denied = await authenticateApiToken(c, bearerToken);
+      if (denied) return denied;
+    } catch (error) {
+      console.error("Auth middleware error:", error);
+      return c.json(
+        { success: false, error: "Authentication failed" },
+        500
+      );
+    }
+    await next();
+    return;
+  }
+
   const sessionToken = getSessionToken(c);
 
   if (!sessionToken) {
@@ -85,9 +163,26 @@ export async function authMiddleware(c: Context, next: Next) {
 }
 
 /**
- * Optional auth middleware - doesn't require auth but attaches user if present
+ * Optional auth middleware - doesn't require auth but attaches user if present.
+ * A bearer token that is sent must be valid.
  */
 export async function optionalAuthMiddleware(c: Context, next: Next) {
+  const bearerToken = getBearerToken(c.req.header("Authorization"));
+  if (bearerToken) {
+    try {
+      const denied = await authenticateApiToken(c, bearerToken);
+      if (denied) return denied;
+    } catch (error) {
+      console.error("Optional auth middleware error:", error);
+      return c.json(
+        { success: false, error: "Authentication failed" },
+        500
+      );
+    }
+    await next();
+    return;
+  }
+
   const sessionToken = getSessionToken(c);
 
   if (sessionToken) {
@@ -119,10 +214,13 @@ export async function optionalAuthMiddleware(c: Context, next: Next) {
 }
 
 /**
- * Team membership validation middleware
- * Must be used after authMiddleware
+ * Load the user's membership in the route's team and check it passes
+ * `allowed`, attaching membership, teamRole and capabilities to the context
  */
-export function requireTeamMembership(paramName: string = "teamId") {
+function teamGuard(
+  paramName: string,
+  allowed: (access: TeamAccess) => boolean
+) {
   return async (c: Context, next: Next) => {
     const userId = c.get("userId");
     const teamId = c.req.param(paramName);
@@ -142,21 +240,25 @@ export function requireTeamMembership(paramName: string = "teamId") {
     }
 
     try {
-      const membership = await prisma.teamMember.findUnique({
-        where: {
-          userId_teamId: { userId, teamId },
-        },
-      });
+      const access = await getTeamAccess(userId, teamId);
 
-      if (!membership) {
+      if (!access) {
         return c.json(
           { success: false, error: "Not a team member" },
           403
         );
       }
 
-      c.set("membership", membership);
-      c.set("teamRole", membership.role);
+      if (!allowed(access)) {
+        return c.json(
+          { success: false, error: "Insufficient permissions" },
+          403
+        );
+      }
+
+      c.set("membership", access.membership);
+      c.set("teamRole", access.membership.role);
+      c.set("capabilities", access.capabilities);
 
       await next();
     } catch (error) {
@@ -169,6 +271,29 @@ export function requireTeamMembership(paramName: string = "teamId") {
   };
 }
 
+/**
+ * Team membership validation middleware
+ * Must be used after authMiddleware. Pass roles to also require one of them.
+ */
+export function requireTeamMembership(paramName: string = "teamId", roles?: TeamRole[]) {
+  return teamGuard(paramName, ({ membership }) => !roles || roles.includes(membership.role));
+}
+
+/**
+ * Require a member of the route's team whose role, after the team's
+ * permission overrides, grants the capability
+ */
+export function requireTeamCapability(capability: TeamCapability, paramName: string = "teamId") {
+  return teamGuard(paramName, (access) => can(access, capability));
+}
+
+/**
+ * Require a MENTOR or LEADER of the route's team
+ */
+export function requireTeamAdmin(paramName: string = "teamId") {
+  return requireTeamMembership(paramName, TEAM_ADMIN_ROLES);
+}
+
 /**
  * Rate limiting middleware backed by Redis.
  * Falls back to allowing requests if Redis is unavailable.
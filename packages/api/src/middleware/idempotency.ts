@@ -0,0 +1,225 @@
+import { Context, Next } from "hono";
+import { createHash } from "crypto";
+import { prisma } from "@ftcmetrics/db";
+import { getRedis } from "../lib/redis";
+
+/**
+ * Idempotency-Key support for POSTs that create data
+ *
+ * The first request with a given key (per user) is processed normally and
+ * its response stored for 24 hours; a retry with the same key gets that
+ * response back instead of running the handler again. Keys live in Redis,
+ * falling back to the idempotency_keys table when Redis is unavailable.
+ * Without the header, requests pass straight through.
+ */
+
+const KEY_PATTERN = /^[A-Za-z0-9_\-:.]{8,255}$/;
+const RESPONSE_TTL_SECONDS = 24 * 60 * 60;
+// How long a key stays locked if its first request never finishes
+const LOCK_TTL_SECONDS = 60;
+
+interface StoredResponse {
+  fingerprint: string;
+  // Null while the first request is still being processed
+  statusCode: number | null;
+  body: string | null;
+  contentType: string | null;
+}
+
+type Backend = "redis" | "postgres";
+
+type Claim =
+  | { state: "claimed"; backend: Backend }
+  | { state: "existing"; record: StoredResponse };
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "P2002";
+}
+
+async function findStoredKey(userId: string, key: string): Promise<StoredResponse | null> {
+  const row = await prisma.idempotencyKey.findUnique({
+    where: { userId_key: { userId, key } },
+  });
+  if (!row || row.expiresAt < new Date()) return null;
+  return {
+    fingerprint: row.fingerprint,
+    statusCode: row.statusCode,
+    body: row.response,
+    contentType: row.contentType,
+  };
+}
+
+/**
+ * Lock the key for this request, or return what an earlier request with
+ * the same key left behind
+ */
+async function claimKey(userId: string, key: string, fingerprint: string): Promise<Claim> {
+  const redis = getRedis();
+  const redisKey = `idempotency:${userId}:${key}`;
+  const pending: StoredResponse = { fingerprint, statusCode: null, body: null, contentType: null };
+
+  if (redis) {
+    try {
+      const claimed = await redis.set(redisKey, JSON.stringify(pending), "EX", LOCK_TTL_SECONDS, "NX");
+      if (claimed === "OK") {
+        // A key first seen while Redis was down lives in Postgres
+        const stored = await findStoredKey(userId, key).catch(() => null);
+        if (stored) {
+          await redis.del(redisKey);
+          return { state: "existing", record: stored };
+        }
+        return { state: "claimed", backend: "redis" };
+      }
+      const existing = await redis.get(redisKey);
+      if (existing) {
+        return { state: "existing", record: JSON.parse(existing) as StoredResponse };
+      }
+    } catch {
+      // Redis error — fall back to Postgres
+    }
+  }
+
+  const now = Date.now();
+  await prisma.idempotencyKey.deleteMany({
+    where: { userId, key, expiresAt: { lt: new Date(now) } },
+  });
+  try {
+    await prisma.idempotencyKey.create({
+      data: {
+        userId,
+        key,
+        fingerprint,
+        expiresAt: new Date(now + LOCK_TTL_SECONDS * 1000),
+      },
+    });
+    return { state: "claimed", backend: "postgres" };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      const stored = await findStoredKey(userId, key);
+      if (stored) return { state: "existing", record: stored };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Store the response for replay, or release the key after a server error
+ * so the client's retry runs the handler again
+ */
+async function completeKey(
+  userId: string,
+  key: string,
+  backend: Backend,
+  record: StoredResponse
+): Promise<void> {
+  const release = record.statusCode === null || record.statusCode >= 500;
+
+  if (backend === "redis") {
+    const redis = getRedis()!;
+    const redisKey = `idempotency:${userId}:${key}`;
+    if (release) {
+      await redis.del(redisKey);
+    } else {
+      await redis.set(redisKey, JSON.stringify(record), "EX", RESPONSE_TTL_SECONDS);
+    }
+    return;
+  }
+
+  if (release) {
+    await prisma.idempotencyKey.deleteMany({ where: { userId, key } });
+  } else {
+    await prisma.idempotencyKey.update({
+      where: { userId_key: { userId, key } },
+      data: {
+        statusCode: record.statusCode,
+        response: record.body,
+        contentType: record.contentType,
+        expiresAt: new Date(Date.now() + RESPONSE_TTL_SECONDS * 1000),
+      },
+    });
+  }
+}
+
+/**
+ * Idempotency middleware for a single route. Must be used after
+ * authMiddleware and sanitizeInput.
+ */
+export function idempotency() {
+  return async (c: Context, next: Next) => {
+    const key = c.req.header("Idempotency-Key");
+    if (!key) {
+      await next();
+      return;
+    }
+
+    if (!KEY_PATTERN.test(key)) {
+      return c.json(
+        { success: false, error: "Idempotency-Key must be 8-255 letters, digits, or - _ : ." },
+        400
+      );
+    }
+
+    const userId = c.get("userId");
+    if (!userId) {
+      return c.json({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const bodyHash = createHash("sha256")
+      .update(JSON.stringify(c.get("sanitizedBody") ?? null))
+      .digest("hex");
+    const fingerprint = `${c.req.method} ${c.req.path} ${bodyHash}`;
+
+    let claim: Claim;
+    try {
+      claim = await claimKey(userId, key, fingerprint);
+    } catch (error) {
+      // Neither store is reachable — process without replay protection
+      console.warn("[Idempotency] Key storage unavailable:", error instanceof Error ? error.message : error);
+      await next();
+      return;
+    }
+
+    if (claim.state === "existing") {
+      const { record } = claim;
+      if (record.fingerprint !== fingerprint) {
+        return c.json(
+          { success: false, error: "Idempotency-Key was already used for a different request" },
+          422
+        );
+      }
+      if (record.statusCode === null) {
+        c.header("Retry-After", "1");
+        return c.json(
+          { success: false, error: "A request with this Idempotency-Key is still being processed" },
+          409
+        );
+      }
+      return new Response(record.body, {
+        status: record.statusCode,
+        headers: {
+          "Content-Type": record.contentType ?? "application/json",
+          "Idempotent-Replayed": "true",
+        },
+      });
+    }
+
+    try {
+      await next();
+    } finally {
+      const res = c.res;
+      try {
+        await completeKey(userId, key, claim.backend, {
+          fingerprint,
+          statusCode: res ? res.status : null,
+          body: res ? await res.clone().text() : null,
+          contentType: res?.headers.get("Content-Type") ?? null,
+        });
+      } catch (error) {
+        console.warn(
+          "[Idempotency] Failed to store response:",
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  };
+}
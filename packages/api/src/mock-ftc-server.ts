@@ -0,0 +1,37 @@
+/**
+ * Mock FTC Events API server
+ *
+ * Serves the FTC API routes the app uses from a local data source: synthetic
+ * data by default, or recorded fixtures with FTC_DATA_SOURCE=fixtures. Point
+ * the API at it to run the full stack and Playwright tests offline:
+ *
+ *   bun run mock:ftc
+ *   FTC_API_BASE_URL=http://localhost:3002/v2.0 bun run dev:api
+ */
+
+import { config } from "dotenv";
+import path from "path";
+
+// Load .env from workspace root
+config({ path: path.resolve(process.cwd(), "../../.env") });
+
+import { serve } from "@hono/node-server";
+import { Hono } from "hono";
+import { logger } from "hono/logger";
+import { createFtcDataSource } from "./lib/ftc-api";
+import { createMockFtcApp } from "./lib/mock-ftc";
+
+// Never the live source: the API may itself be pointed at this server
+const source = createFtcDataSource(process.env.FTC_DATA_SOURCE === "fixtures" ? "fixtures" : "synthetic");
+
+const app = new Hono();
+app.use("*", logger());
+app.route("/", createMockFtcApp(source));
+
+const port = parseInt(process.env.MOCK_FTC_PORT || "3002", 10);
+console.log(`Mock FTC API running at http://localhost:${port}/v2.0`);
+
+serve({
+  fetch: app.fetch,
+  port,
+});
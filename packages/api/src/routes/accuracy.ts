@@ -0,0 +1,119 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { prisma } from "@ftcmetrics/db";
+import { requireTeamCapability, type AuthVariables } from "../middleware/auth";
+import { buildAccuracyReport, MIN_ACCURACY_MATCHES } from "../lib/scout-accuracy";
+import { recordAudit } from "../lib/audit";
+
+/**
+ * Scout accuracy against official alliance scores, mounted under
+ * /api/user-teams/:teamId/accuracy
+ */
+const accuracy = new Hono<{ Variables: AuthVariables }>();
+
+const eventCodeSchema = z.string().regex(/^[A-Za-z0-9]+$/);
+
+export const applyWeightsSchema = z.object({
+  eventCode: eventCodeSchema.optional(),
+});
+
+/**
+ * GET /api/user-teams/:teamId/accuracy
+ * Each scout's error against official alliance phase totals, with history
+ * and a retraining flag (requires view-scouting). Members who can manage
+ * members see every scout; others only see their own numbers.
+ * Query: eventCode (optional, defaults to every event the team scouted)
+ */
+accuracy.get("/", requireTeamCapability("view-scouting"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const capabilities = c.get("capabilities") ?? [];
+  const eventCode = c.req.query("eventCode");
+
+  if (eventCode && !eventCodeSchema.safeParse(eventCode).success) {
+    return c.json({ success: false, error: "Invalid event code" }, 400);
+  }
+
+  try {
+    const seesEveryScout = capabilities.includes("manage-members");
+
+    const report = await buildAccuracyReport(teamId, eventCode);
+    const visible = seesEveryScout ? report.scouts : report.scouts.filter((s) => s.scouterId === userId);
+
+    const scouters = await prisma.user.findMany({
+      where: { id: { in: visible.map((s) => s.scouterId) } },
+      select: { id: true, name: true, image: true },
+    });
+    const scoutersById = new Map(scouters.map((u) => [u.id, u]));
+
+    return c.json({
+      success: true,
+      data: {
+        eventCodes: report.eventCodes,
+        teamMedianError: report.teamMedianError,
+        matchesCompared: report.matchesCompared,
+        minMatches: MIN_ACCURACY_MATCHES,
+        scouts: visible.map((s) => ({ ...s, scouter: scoutersById.get(s.scouterId) ?? null })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching scout accuracy:", error);
+    return c.json({ success: false, error: "Failed to fetch scout accuracy" }, 500);
+  }
+});
+
+/**
+ * POST /api/user-teams/:teamId/accuracy/apply-weights
+ * Copy each graded scout's suggested weight onto their membership so
+ * consensus reconciliation favours accurate scouts (requires manage-members)
+ */
+accuracy.post("/apply-weights", requireTeamCapability("manage-members"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+
+  try {
+    const body = (c as any).get("sanitizedBody") ?? {};
+    const parsed = applyWeightsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const report = await buildAccuracyReport(teamId, parsed.data.eventCode);
+    const graded = report.scouts.filter((s) => s.matches >= MIN_ACCURACY_MATCHES);
+
+    // Scouts who have since left the team are skipped by updateMany
+    await prisma.$transaction(
+      graded.map((s) =>
+        prisma.teamMember.updateMany({
+          where: { teamId, userId: s.scouterId },
+          data: { scoutWeight: s.suggestedWeight },
+        })
+      )
+    );
+
+    const weights = graded.map((s) => ({ userId: s.scouterId, scoutWeight: s.suggestedWeight }));
+
+    if (weights.length > 0) {
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "scout-weights.apply",
+        after: { eventCode: parsed.data.eventCode ?? null, weights },
+      });
+    }
+
+    return c.json({
+      success: true,
+      data: weights,
+    });
+  } catch (error) {
+    console.error("Error applying scout weights:", error);
+    return c.json({ success: false, error: "Failed to apply scout weights" }, 500);
+  }
+});
+
+export default accuracy;
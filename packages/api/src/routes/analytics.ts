@@ -1,9 +1,19 @@
 import { Hono } from "hono";
+import { z } from "zod";
+import { prisma } from "@ftcmetrics/db";
+import { CURRENT_SEASON } from "@ftcmetrics/shared";
 import { getFTCApi } from "../lib/ftc-api";
+import { getEventMatchData } from "../lib/event-sync";
+import { getSeasonBacktest } from "./rankings";
+import {
+  getEventEPAResults,
+  getEventPlayoffResults,
+  getEventQualSchedule,
+  transformMatches,
+} from "../lib/event-stats";
 import {
   calculateOPR,
   getOPRRankings,
-  type MatchResult,
 } from "../lib/stats/opr";
 import {
   calculateEPA,
@@ -12,95 +22,201 @@ import {
   type MatchForEPA,
   type EPAResult,
 } from "../lib/stats/epa";
+import { runBacktest } from "../lib/stats/backtest";
+import { DEFAULT_MARGIN_SPREAD } from "../lib/stats/win-probability";
+import {
+  DEFAULT_SIMULATIONS,
+  PLAYOFF_BRACKETS,
+  simulatePlayoffs,
+} from "../lib/stats/playoff-sim";
+import {
+  DEFAULT_PROJECTION_SIMULATIONS,
+  matchesNotInStandings,
+  projectRankings,
+  standingsFromMatches,
+  standingsFromRankings,
+  type ScheduledMatch,
+  type TeamStanding,
+} from "../lib/stats/rank-projection";
 
 const analytics = new Hono();
 
+type EventMatchData = Awaited<ReturnType<typeof getEventMatchData>>;
+
+type TeamMatchBreakdown = {
+  matchNumber: number;
+  matchSeries: number;
+  level: "qual" | "playoff";
+  description: string;
+  alliance: "red" | "blue";
+  partnerTeam: number;
+  opponentTeam1: number;
+  opponentTeam2: number;
+  allianceScore: number;
+  allianceAutoScore: number;
+  allianceTeleopScore: number;
+  allianceEndgameScore: number;
+  opponentScore: number;
+  result: "win" | "loss" | "tie";
+};
+
 /**
- * Transform FTC API match data to our match format
+ * Match-by-match alliance results for one team from an event's qual and
+ * playoff data
  */
-function transformMatches(
-  matches: Array<{
-    matchNumber: number;
-    teams: Array<{ teamNumber: number; station: string }>;
-  }>,
-  scores: Array<{
-    matchNumber: number;
-    alliances: Array<{
-      alliance: "Red" | "Blue";
-      totalPoints: number;
-      autoPoints: number;
-      dcPoints: number;
-      endgamePoints: number;
-      team1: number;
-      team2: number;
-    }>;
-  }>
-): MatchResult[] {
-  const results: MatchResult[] = [];
-
-  for (const match of matches) {
-    const scoreData = scores.find((s) => s.matchNumber === match.matchNumber);
-    if (!scoreData || scoreData.alliances.length < 2) continue;
-
-    const redAlliance = scoreData.alliances.find((a) => a.alliance === "Red");
-    const blueAlliance = scoreData.alliances.find((a) => a.alliance === "Blue");
-
-    if (!redAlliance || !blueAlliance) continue;
-
-    // Get team numbers from match teams
-    const redTeams = match.teams
-      .filter((t) => t.station.startsWith("Red"))
+function buildTeamMatches(
+  teamNumber: number,
+  qualData: EventMatchData,
+  playoffData: EventMatchData
+): TeamMatchBreakdown[] {
+  const matches: TeamMatchBreakdown[] = [];
+
+  // Build an index of scores by matchNumber+matchSeries for efficient lookup
+  const buildScoreIndex = (scores: EventMatchData["matchScores"]) => {
+    const index = new Map<string, (typeof scores)[number]>();
+    for (const s of scores) {
+      index.set(`${s.matchNumber}-${s.matchSeries}`, s);
+    }
+    return index;
+  };
+
+  // For quals, matches and scores are 1:1 by matchNumber (matchSeries=0).
+  // For playoffs, multiple matchSeries share the same matchNumber,
+  // so we pair matches with scores positionally (both ordered by series).
+  const qualScoreIndex = buildScoreIndex(qualData.matchScores);
+
+  // Process qual matches
+  for (const match of qualData.matches) {
+    const teamEntry = match.teams.find((t) => t.teamNumber === teamNumber);
+    if (!teamEntry) continue;
+
+    const matchScoreData = qualScoreIndex.get(`${match.matchNumber}-0`);
+    if (!matchScoreData || matchScoreData.alliances.length < 2) continue;
+
+    const isRed = teamEntry.station.startsWith("Red");
+    const allianceColor = isRed ? "Red" : "Blue";
+    const opponentColor = isRed ? "Blue" : "Red";
+
+    const ally = matchScoreData.alliances.find((a) => a.alliance === allianceColor);
+    const opp = matchScoreData.alliances.find((a) => a.alliance === opponentColor);
+    if (!ally || !opp) continue;
+
+    const allianceTeams = match.teams
+      .filter((t) => t.station.startsWith(allianceColor))
       .map((t) => t.teamNumber);
-    const blueTeams = match.teams
-      .filter((t) => t.station.startsWith("Blue"))
+    const opponentTeams = match.teams
+      .filter((t) => t.station.startsWith(opponentColor))
       .map((t) => t.teamNumber);
 
-    if (redTeams.length < 2 || blueTeams.length < 2) continue;
-
-    // DECODE 2025-2026 uses teleopPoints/teleopBasePoints instead of dcPoints/endgamePoints
-    const redTeleop = redAlliance.dcPoints ?? (redAlliance as Record<string, unknown>).teleopPoints as number ?? 0;
-    const redEndgame = redAlliance.endgamePoints ?? (redAlliance as Record<string, unknown>).teleopBasePoints as number ?? 0;
-    const blueTeleop = blueAlliance.dcPoints ?? (blueAlliance as Record<string, unknown>).teleopPoints as number ?? 0;
-    const blueEndgame = blueAlliance.endgamePoints ?? (blueAlliance as Record<string, unknown>).teleopBasePoints as number ?? 0;
-
-    results.push({
-      redTeam1: redTeams[0],
-      redTeam2: redTeams[1],
-      blueTeam1: blueTeams[0],
-      blueTeam2: blueTeams[1],
-      redScore: redAlliance.totalPoints,
-      blueScore: blueAlliance.totalPoints,
-      redAutoScore: redAlliance.autoPoints,
-      redTeleopScore: redTeleop,
-      redEndgameScore: redEndgame,
-      blueAutoScore: blueAlliance.autoPoints,
-      blueTeleopScore: blueTeleop,
-      blueEndgameScore: blueEndgame,
+    // DECODE season uses teleopPoints and teleopBasePoints (endgame)
+    const teleopScore = Number(ally.dcPoints) || Number((ally as Record<string, unknown>).teleopPoints) || 0;
+    const endgameScore = Number(ally.endgamePoints) || Number((ally as Record<string, unknown>).teleopBasePoints) || 0;
+
+    let result: "win" | "loss" | "tie";
+    if (ally.totalPoints > opp.totalPoints) result = "win";
+    else if (ally.totalPoints < opp.totalPoints) result = "loss";
+    else result = "tie";
+
+    matches.push({
+      matchNumber: match.matchNumber,
+      matchSeries: 0,
+      level: "qual",
+      description: match.description || `Qual ${match.matchNumber}`,
+      alliance: isRed ? "red" : "blue",
+      partnerTeam: allianceTeams.find((t) => t !== teamNumber) ?? 0,
+      opponentTeam1: opponentTeams[0] ?? 0,
+      opponentTeam2: opponentTeams[1] ?? 0,
+      allianceScore: ally.totalPoints,
+      allianceAutoScore: ally.autoPoints,
+      allianceTeleopScore: teleopScore,
+      allianceEndgameScore: endgameScore,
+      opponentScore: opp.totalPoints,
+      result,
     });
   }
 
-  return results;
+  // Process playoff matches — pair by index since matchNumber is shared
+  // Both matches and scores arrays are ordered by series
+  for (let i = 0; i < playoffData.matches.length; i++) {
+    const match = playoffData.matches[i];
+    const teamEntry = match.teams.find((t) => t.teamNumber === teamNumber);
+    if (!teamEntry) continue;
+
+    const matchScoreData = playoffData.matchScores[i];
+    if (!matchScoreData || matchScoreData.alliances.length < 2) continue;
+
+    const isRed = teamEntry.station.startsWith("Red");
+    const allianceColor = isRed ? "Red" : "Blue";
+    const opponentColor = isRed ? "Blue" : "Red";
+
+    const ally = matchScoreData.alliances.find((a) => a.alliance === allianceColor);
+    const opp = matchScoreData.alliances.find((a) => a.alliance === opponentColor);
+    if (!ally || !opp) continue;
+
+    const allianceTeams = match.teams
+      .filter((t) => t.station.startsWith(allianceColor))
+      .map((t) => t.teamNumber);
+    const opponentTeams = match.teams
+      .filter((t) => t.station.startsWith(opponentColor))
+      .map((t) => t.teamNumber);
+
+    const teleopScore = Number(ally.dcPoints) || Number((ally as Record<string, unknown>).teleopPoints) || 0;
+    const endgameScore = Number(ally.endgamePoints) || Number((ally as Record<string, unknown>).teleopBasePoints) || 0;
+
+    let result: "win" | "loss" | "tie";
+    if (ally.totalPoints > opp.totalPoints) result = "win";
+    else if (ally.totalPoints < opp.totalPoints) result = "loss";
+    else result = "tie";
+
+    matches.push({
+      matchNumber: match.matchNumber,
+      matchSeries: matchScoreData.matchSeries,
+      level: "playoff",
+      description: match.description || `Playoff ${matchScoreData.matchSeries}`,
+      alliance: isRed ? "red" : "blue",
+      partnerTeam: allianceTeams.find((t) => t !== teamNumber) ?? 0,
+      opponentTeam1: opponentTeams[0] ?? 0,
+      opponentTeam2: opponentTeams[1] ?? 0,
+      allianceScore: ally.totalPoints,
+      allianceAutoScore: ally.autoPoints,
+      allianceTeleopScore: teleopScore,
+      allianceEndgameScore: endgameScore,
+      opponentScore: opp.totalPoints,
+      result,
+    });
+  }
+
+  // Quals by matchNumber, then playoffs by matchSeries
+  matches.sort((a, b) => {
+    if (a.level !== b.level) return a.level === "qual" ? -1 : 1;
+    if (a.level === "qual") return a.matchNumber - b.matchNumber;
+    return a.matchSeries - b.matchSeries;
+  });
+
+  return matches;
 }
 
 /**
  * GET /api/analytics/opr/:eventCode
  * Get OPR rankings for an event
+ * Query: ridge (optional regularisation strength for events with few matches)
  */
 analytics.get("/opr/:eventCode", async (c) => {
   const eventCode = c.req.param("eventCode");
+  const ridgeParam = c.req.query("ridge");
+  const ridge = ridgeParam ? parseFloat(ridgeParam) : 0;
 
-  try {
-    const api = getFTCApi();
+  if (!Number.isFinite(ridge) || ridge < 0) {
+    return c.json({ success: false, error: "Invalid ridge parameter" }, 400);
+  }
 
+  try {
     // Fetch matches and scores
-    const [matchesResult, scoresResult] = await Promise.all([
-      api.getMatches(eventCode, "qual"),
-      api.getScores(eventCode, "qual"),
-    ]);
+    const matchData = await getEventMatchData(eventCode, "qual");
 
     const matches = transformMatches(
-      matchesResult.matches,
-      scoresResult.matchScores
+      matchData.matches,
+      matchData.matchScores
     );
 
     if (matches.length === 0) {
@@ -114,7 +230,7 @@ analytics.get("/opr/:eventCode", async (c) => {
       });
     }
 
-    const rankings = getOPRRankings(matches);
+    const rankings = getOPRRankings(matches, { ridge });
 
     return c.json({
       success: true,
@@ -141,17 +257,12 @@ analytics.get("/epa/:eventCode", async (c) => {
   const eventCode = c.req.param("eventCode");
 
   try {
-    const api = getFTCApi();
-
     // Fetch matches and scores
-    const [matchesResult, scoresResult] = await Promise.all([
-      api.getMatches(eventCode, "qual"),
-      api.getScores(eventCode, "qual"),
-    ]);
+    const matchData = await getEventMatchData(eventCode, "qual");
 
     const matches = transformMatches(
-      matchesResult.matches,
-      scoresResult.matchScores
+      matchData.matches,
+      matchData.matchScores
     );
 
     if (matches.length === 0) {
@@ -166,7 +277,7 @@ analytics.get("/epa/:eventCode", async (c) => {
     }
 
     // Transform for EPA (needs matchNumber)
-    const epaMatches: MatchForEPA[] = matchesResult.matches
+    const epaMatches: MatchForEPA[] = matchData.matches
       .map((m) => {
         const matchResult = matches.find(
           (mr) =>
@@ -220,18 +331,15 @@ analytics.get("/team/:teamNumber", async (c) => {
 
     // If event code provided, get stats for that event
     if (eventCode) {
-      const [matchesResult, scoresResult] = await Promise.all([
-        api.getMatches(eventCode, "qual"),
-        api.getScores(eventCode, "qual"),
-      ]);
+      const matchData = await getEventMatchData(eventCode, "qual");
 
       const matches = transformMatches(
-        matchesResult.matches,
-        scoresResult.matchScores
+        matchData.matches,
+        matchData.matchScores
       );
 
       const oprResults = calculateOPR(matches);
-      const epaMatches: MatchForEPA[] = matchesResult.matches
+      const epaMatches: MatchForEPA[] = matchData.matches
         .map((m, idx) => {
           const matchResult = matches[idx];
           if (!matchResult) return null;
@@ -278,36 +386,73 @@ analytics.get("/team/:teamNumber", async (c) => {
 });
 
 /**
- * Helper: Compute EPA results from an event's match data.
- * Returns null if the event has no scored matches.
+ * GET /api/analytics/team/:teamNumber/epa-history
+ * Get a team's per-match EPA trajectory for the season
+ * Query: eventCode, from, to (ISO dates), season
  */
-async function getEventEPAResults(
-  api: ReturnType<typeof getFTCApi>,
-  eventCode: string
-): Promise<{ epaResults: Map<number, EPAResult>; epaMatches: MatchForEPA[] } | null> {
-  const [matchesResult, scoresResult] = await Promise.all([
-    api.getMatches(eventCode, "qual"),
-    api.getScores(eventCode, "qual"),
-  ]);
-
-  const matches = transformMatches(
-    matchesResult.matches,
-    scoresResult.matchScores
-  );
+analytics.get("/team/:teamNumber/epa-history", async (c) => {
+  const teamNumber = parseInt(c.req.param("teamNumber"), 10);
+  const eventCode = c.req.query("eventCode");
+  const fromParam = c.req.query("from");
+  const toParam = c.req.query("to");
+  const season = c.req.query("season")
+    ? parseInt(c.req.query("season")!, 10)
+    : CURRENT_SEASON;
+
+  if (isNaN(teamNumber)) {
+    return c.json({ success: false, error: "Invalid team number" }, 400);
+  }
 
-  if (matches.length === 0) return null;
+  if (isNaN(season)) {
+    return c.json({ success: false, error: "Invalid season" }, 400);
+  }
 
-  const epaMatches: MatchForEPA[] = matchesResult.matches
-    .map((m, idx) => {
-      const matchResult = matches[idx];
-      if (!matchResult) return null;
-      return { matchNumber: m.matchNumber, ...matchResult };
-    })
-    .filter((m): m is MatchForEPA => m !== null);
+  const from = fromParam ? new Date(fromParam) : null;
+  const to = toParam ? new Date(toParam) : null;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return c.json({ success: false, error: "Invalid date filter" }, 400);
+  }
 
-  const epaResults = calculateEPA(epaMatches);
-  return { epaResults, epaMatches };
-}
+  try {
+    const snapshots = await prisma.ePAHistory.findMany({
+      where: {
+        teamNumber,
+        season,
+        ...(eventCode && { eventCode }),
+        ...((from || to) && {
+          matchTime: {
+            ...(from && { gte: from }),
+            ...(to && { lte: to }),
+          },
+        }),
+      },
+      orderBy: { sequence: "asc" },
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        teamNumber,
+        season,
+        history: snapshots.map((snap) => ({
+          eventCode: snap.eventCode,
+          matchNumber: snap.matchNumber,
+          matchTime: snap.matchTime?.toISOString() ?? null,
+          epa: snap.epaValue,
+          autoEpa: snap.autoEpa,
+          teleopEpa: snap.teleopEpa,
+          endgameEpa: snap.endgameEpa,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching EPA history:", error);
+    return c.json(
+      { success: false, error: "Failed to fetch EPA history" },
+      500
+    );
+  }
+});
 
 /**
  * Helper: For a set of team numbers, find EPA data from their other events
@@ -368,7 +513,7 @@ async function getEPAFromOtherEvents(
       // Check cache or fetch
       if (!eventEPACache.has(eventCode)) {
         try {
-          const result = await getEventEPAResults(api, eventCode);
+          const result = await getEventEPAResults(eventCode);
           eventEPACache.set(eventCode, result?.epaResults ?? null);
         } catch {
           eventEPACache.set(eventCode, null);
@@ -421,7 +566,7 @@ analytics.post("/predict", async (c) => {
     const api = getFTCApi();
 
     // First, try to get EPA from the selected event
-    const eventEPA = await getEventEPAResults(api, eventCode);
+    const eventEPA = await getEventEPAResults(eventCode);
 
     let epaResults: Map<number, EPAResult>;
     let dataSource: "event" | "cross-event" | "baseline";
@@ -507,6 +652,208 @@ analytics.post("/predict", async (c) => {
   }
 });
 
+export const playoffSimSchema = z.object({
+  eventCode: z.string().min(1).max(32),
+  alliances: z
+    .array(
+      z.object({
+        seed: z.number().int().min(1).optional(),
+        teams: z.array(z.number().int().positive()).min(1).max(4),
+      })
+    )
+    .min(2),
+  simulations: z.number().int().min(100).max(50000).optional(),
+  seed: z.number().int().optional(),
+});
+
+/**
+ * POST /api/analytics/playoff-sim
+ * Monte Carlo simulation of the double-elimination playoff bracket
+ * Body: eventCode, alliances (in seed order, or with explicit seeds),
+ * simulations (optional), seed (optional, for reproducible runs)
+ */
+analytics.post("/playoff-sim", async (c) => {
+  const parsed = playoffSimSchema.safeParse((c as any).get("sanitizedBody"));
+  if (!parsed.success) {
+    return c.json(
+      { success: false, error: "Validation failed", details: parsed.error.flatten() },
+      400
+    );
+  }
+
+  const { eventCode, simulations, seed } = parsed.data;
+  const alliances = parsed.data.alliances.map((a, i) => ({
+    seed: a.seed ?? i + 1,
+    teams: a.teams,
+  }));
+
+  if (!PLAYOFF_BRACKETS[alliances.length]) {
+    return c.json(
+      {
+        success: false,
+        error: `Unsupported alliance count; expected ${Object.keys(PLAYOFF_BRACKETS).join(", ")}`,
+      },
+      400
+    );
+  }
+
+  const seeds = new Set(alliances.map((a) => a.seed));
+  const teams = alliances.flatMap((a) => a.teams);
+  if (seeds.size !== alliances.length || [...seeds].some((s) => s > alliances.length)) {
+    return c.json({ success: false, error: "Alliance seeds must be 1 through the alliance count" }, 400);
+  }
+  if (new Set(teams).size !== teams.length) {
+    return c.json({ success: false, error: "A team can only be on one alliance" }, 400);
+  }
+
+  try {
+    const [eventEPA, played] = await Promise.all([
+      getEventEPAResults(eventCode).catch(() => null),
+      getEventPlayoffResults(eventCode).catch(() => []),
+    ]);
+
+    const result = simulatePlayoffs(alliances, eventEPA?.epaResults ?? new Map(), {
+      simulations: simulations ?? DEFAULT_SIMULATIONS,
+      seed,
+      played,
+      matches: eventEPA?.epaMatches,
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        eventCode,
+        ...result,
+        ...(!eventEPA && {
+          warning: "No qualification results for this event yet. All alliances are simulated at the season baseline.",
+        }),
+      },
+    });
+  } catch (error) {
+    console.error("Error simulating playoffs:", error);
+    return c.json(
+      { success: false, error: "Failed to simulate playoffs" },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/analytics/event/:eventCode/projected-rankings
+ * Project final qualification rankings by simulating the unplayed schedule
+ * Query: simulations (default 5000), top (report P(top N), default 4), seed
+ */
+analytics.get("/event/:eventCode/projected-rankings", async (c) => {
+  const eventCode = c.req.param("eventCode");
+  const simulations = parseInt(c.req.query("simulations") || String(DEFAULT_PROJECTION_SIMULATIONS), 10);
+  const top = parseInt(c.req.query("top") || "4", 10);
+  const seedParam = c.req.query("seed");
+  const seed = seedParam ? parseInt(seedParam, 10) : undefined;
+
+  if (!Number.isInteger(simulations) || simulations < 100 || simulations > 20000) {
+    return c.json({ success: false, error: "simulations must be between 100 and 20000" }, 400);
+  }
+  if (!Number.isInteger(top) || top < 1) {
+    return c.json({ success: false, error: "Invalid top parameter" }, 400);
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    return c.json({ success: false, error: "Invalid seed parameter" }, 400);
+  }
+
+  try {
+    const api = getFTCApi();
+    const [schedule, eventEPA, rankings] = await Promise.all([
+      getEventQualSchedule(eventCode).catch(() => null),
+      getEventEPAResults(eventCode).catch(() => null),
+      api.getRankings(eventCode).then((r) => r.Rankings ?? []).catch(() => null),
+    ]);
+
+    if (!schedule || schedule.length === 0) {
+      return c.json(
+        { success: false, error: "Qualification schedule is not available yet" },
+        404
+      );
+    }
+
+    // Standings and the remaining schedule come from the same source, so a
+    // stored match list that lags the live rankings can't count a match twice
+    const playedMatches = eventEPA?.epaMatches ?? [];
+    let standings: TeamStanding[];
+    let remaining: ScheduledMatch[];
+    if (rankings && rankings.length > 0) {
+      standings = standingsFromRankings(rankings);
+      remaining = matchesNotInStandings(schedule, standings);
+    } else {
+      const played = new Set(playedMatches.map((m) => m.matchNumber));
+      standings = standingsFromMatches(playedMatches);
+      remaining = schedule.filter((m) => !played.has(m.matchNumber));
+    }
+
+    const projection = projectRankings(standings, remaining, eventEPA?.epaResults ?? new Map(), {
+      simulations,
+      seed,
+      top,
+      matches: playedMatches,
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        eventCode,
+        rankingsSource: rankings && rankings.length > 0 ? "official" : "matches",
+        ...projection,
+      },
+    });
+  } catch (error) {
+    console.error("Error projecting rankings:", error);
+    return c.json(
+      { success: false, error: "Failed to project rankings" },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/analytics/backtest
+ * Score win-probability predictions against real results
+ * Query: eventCode (replay one event); omit for the season-wide report
+ */
+analytics.get("/backtest", async (c) => {
+  const eventCode = c.req.query("eventCode");
+
+  try {
+    if (!eventCode) {
+      const report = await getSeasonBacktest();
+      if (!report) {
+        return c.json(
+          { success: false, error: "No season matches to backtest yet" },
+          404
+        );
+      }
+      return c.json({ success: true, data: report });
+    }
+
+    // The season spread was fitted on this event's results too, so start
+    // from the unfitted one and let the replay refit on earlier matches
+    const eventEPA = await getEventEPAResults(eventCode);
+    const report = runBacktest(eventEPA?.epaMatches ?? [], DEFAULT_MARGIN_SPREAD);
+
+    return c.json({
+      success: true,
+      data: {
+        eventCode,
+        ...report,
+      },
+    });
+  } catch (error) {
+    console.error("Error running backtest:", error);
+    return c.json(
+      { success: false, error: "Failed to run backtest" },
+      500
+    );
+  }
+});
+
 /**
  * GET /api/analytics/team/:teamNumber/matches
  * Get match-by-match breakdowns for a team at an event
@@ -524,155 +871,12 @@ analytics.get("/team/:teamNumber/matches", async (c) => {
   }
 
   try {
-    const api = getFTCApi();
-
-    const [qualMatches, qualScores, playoffMatches, playoffScores] = await Promise.all([
-      api.getMatches(eventCode, "qual"),
-      api.getScores(eventCode, "qual"),
-      api.getMatches(eventCode, "playoff").catch(() => ({ matches: [] })),
-      api.getScores(eventCode, "playoff").catch(() => ({ matchScores: [] })),
+    const [qualData, playoffData] = await Promise.all([
+      getEventMatchData(eventCode, "qual"),
+      getEventMatchData(eventCode, "playoff").catch(() => ({ matches: [], matchScores: [] })),
     ]);
 
-    type MatchEntry = {
-      matchNumber: number;
-      matchSeries: number;
-      level: "qual" | "playoff";
-      description: string;
-      alliance: "red" | "blue";
-      partnerTeam: number;
-      opponentTeam1: number;
-      opponentTeam2: number;
-      allianceScore: number;
-      allianceAutoScore: number;
-      allianceTeleopScore: number;
-      allianceEndgameScore: number;
-      opponentScore: number;
-      result: "win" | "loss" | "tie";
-    };
-
-    const matches: MatchEntry[] = [];
-
-    // Build an index of scores by matchNumber+matchSeries for efficient lookup
-    const buildScoreIndex = (scores: typeof qualScores.matchScores) => {
-      const index = new Map<string, (typeof scores)[number]>();
-      for (const s of scores) {
-        index.set(`${s.matchNumber}-${s.matchSeries}`, s);
-      }
-      return index;
-    };
-
-    // For quals, matches and scores are 1:1 by matchNumber (matchSeries=0).
-    // For playoffs, multiple matchSeries share the same matchNumber,
-    // so we pair matches with scores positionally (both ordered by series).
-    const qualScoreIndex = buildScoreIndex(qualScores.matchScores);
-
-    // Process qual matches
-    for (const match of qualMatches.matches) {
-      const teamEntry = match.teams.find((t) => t.teamNumber === teamNumber);
-      if (!teamEntry) continue;
-
-      const matchScoreData = qualScoreIndex.get(`${match.matchNumber}-0`);
-      if (!matchScoreData || matchScoreData.alliances.length < 2) continue;
-
-      const isRed = teamEntry.station.startsWith("Red");
-      const allianceColor = isRed ? "Red" : "Blue";
-      const opponentColor = isRed ? "Blue" : "Red";
-
-      const ally = matchScoreData.alliances.find((a) => a.alliance === allianceColor);
-      const opp = matchScoreData.alliances.find((a) => a.alliance === opponentColor);
-      if (!ally || !opp) continue;
-
-      const allianceTeams = match.teams
-        .filter((t) => t.station.startsWith(allianceColor))
-        .map((t) => t.teamNumber);
-      const opponentTeams = match.teams
-        .filter((t) => t.station.startsWith(opponentColor))
-        .map((t) => t.teamNumber);
-
-      // DECODE season uses teleopPoints and teleopBasePoints (endgame)
-      const teleopScore = Number(ally.dcPoints) || Number((ally as Record<string, unknown>).teleopPoints) || 0;
-      const endgameScore = Number(ally.endgamePoints) || Number((ally as Record<string, unknown>).teleopBasePoints) || 0;
-
-      let result: "win" | "loss" | "tie";
-      if (ally.totalPoints > opp.totalPoints) result = "win";
-      else if (ally.totalPoints < opp.totalPoints) result = "loss";
-      else result = "tie";
-
-      matches.push({
-        matchNumber: match.matchNumber,
-        matchSeries: 0,
-        level: "qual",
-        description: match.description || `Qual ${match.matchNumber}`,
-        alliance: isRed ? "red" : "blue",
-        partnerTeam: allianceTeams.find((t) => t !== teamNumber) ?? 0,
-        opponentTeam1: opponentTeams[0] ?? 0,
-        opponentTeam2: opponentTeams[1] ?? 0,
-        allianceScore: ally.totalPoints,
-        allianceAutoScore: ally.autoPoints,
-        allianceTeleopScore: teleopScore,
-        allianceEndgameScore: endgameScore,
-        opponentScore: opp.totalPoints,
-        result,
-      });
-    }
-
-    // Process playoff matches — pair by index since matchNumber is shared
-    // Both matches and scores arrays are ordered by series
-    for (let i = 0; i < playoffMatches.matches.length; i++) {
-      const match = playoffMatches.matches[i];
-      const teamEntry = match.teams.find((t) => t.teamNumber === teamNumber);
-      if (!teamEntry) continue;
-
-      const matchScoreData = playoffScores.matchScores[i];
-      if (!matchScoreData || matchScoreData.alliances.length < 2) continue;
-
-      const isRed = teamEntry.station.startsWith("Red");
-      const allianceColor = isRed ? "Red" : "Blue";
-      const opponentColor = isRed ? "Blue" : "Red";
-
-      const ally = matchScoreData.alliances.find((a) => a.alliance === allianceColor);
-      const opp = matchScoreData.alliances.find((a) => a.alliance === opponentColor);
-      if (!ally || !opp) continue;
-
-      const allianceTeams = match.teams
-        .filter((t) => t.station.startsWith(allianceColor))
-        .map((t) => t.teamNumber);
-      const opponentTeams = match.teams
-        .filter((t) => t.station.startsWith(opponentColor))
-        .map((t) => t.teamNumber);
-
-      const teleopScore = Number(ally.dcPoints) || Number((ally as Record<string, unknown>).teleopPoints) || 0;
-      const endgameScore = Number(ally.endgamePoints) || Number((ally as Record<string, unknown>).teleopBasePoints) || 0;
-
-      let result: "win" | "loss" | "tie";
-      if (ally.totalPoints > opp.totalPoints) result = "win";
-      else if (ally.totalPoints < opp.totalPoints) result = "loss";
-      else result = "tie";
-
-      matches.push({
-        matchNumber: match.matchNumber,
-        matchSeries: matchScoreData.matchSeries,
-        level: "playoff",
-        description: match.description || `Playoff ${matchScoreData.matchSeries}`,
-        alliance: isRed ? "red" : "blue",
-        partnerTeam: allianceTeams.find((t) => t !== teamNumber) ?? 0,
-        opponentTeam1: opponentTeams[0] ?? 0,
-        opponentTeam2: opponentTeams[1] ?? 0,
-        allianceScore: ally.totalPoints,
-        allianceAutoScore: ally.autoPoints,
-        allianceTeleopScore: teleopScore,
-        allianceEndgameScore: endgameScore,
-        opponentScore: opp.totalPoints,
-        result,
-      });
-    }
-
-    // Quals by matchNumber, then playoffs by matchSeries
-    matches.sort((a, b) => {
-      if (a.level !== b.level) return a.level === "qual" ? -1 : 1;
-      if (a.level === "qual") return a.matchNumber - b.matchNumber;
-      return a.matchSeries - b.matchSeries;
-    });
+    const matches = buildTeamMatches(teamNumber, qualData, playoffData);
 
     return c.json({
       success: true,
@@ -691,6 +895,45 @@ analytics.get("/team/:teamNumber/matches", async (c) => {
   }
 });
 
+/**
+ * GET /api/analytics/event/:eventCode/team-matches
+ * Match-by-match breakdowns for every team at an event, keyed by team number
+ */
+analytics.get("/event/:eventCode/team-matches", async (c) => {
+  const eventCode = c.req.param("eventCode");
+
+  try {
+    const [qualData, playoffData] = await Promise.all([
+      getEventMatchData(eventCode, "qual"),
+      getEventMatchData(eventCode, "playoff").catch(() => ({ matches: [], matchScores: [] })),
+    ]);
+
+    const teamNumbers = new Set<number>();
+    for (const match of [...qualData.matches, ...playoffData.matches]) {
+      for (const team of match.teams) teamNumbers.add(team.teamNumber);
+    }
+
+    const teams: Record<number, TeamMatchBreakdown[]> = {};
+    for (const teamNumber of [...teamNumbers].sort((a, b) => a - b)) {
+      teams[teamNumber] = buildTeamMatches(teamNumber, qualData, playoffData);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        eventCode,
+        teams,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching event team matches:", error);
+    return c.json(
+      { success: false, error: "Failed to fetch event team matches" },
+      500
+    );
+  }
+});
+
 /**
  * GET /api/analytics/compare
  * Compare multiple teams
@@ -711,20 +954,15 @@ analytics.get("/compare", async (c) => {
   }
 
   try {
-    const api = getFTCApi();
-
-    const [matchesResult, scoresResult] = await Promise.all([
-      api.getMatches(eventCode, "qual"),
-      api.getScores(eventCode, "qual"),
-    ]);
+    const matchData = await getEventMatchData(eventCode, "qual");
 
     const matches = transformMatches(
-      matchesResult.matches,
-      scoresResult.matchScores
+      matchData.matches,
+      matchData.matchScores
     );
 
     const oprResults = calculateOPR(matches);
-    const epaMatches: MatchForEPA[] = matchesResult.matches
+    const epaMatches: MatchForEPA[] = matchData.matches
       .map((m, idx) => {
         const matchResult = matches[idx];
         if (!matchResult) return null;
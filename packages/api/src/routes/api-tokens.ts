@@ -0,0 +1,136 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { prisma } from "@ftcmetrics/db";
+import type { AuthVariables } from "../middleware/auth";
+import { API_TOKEN_SCOPES, generateApiToken } from "../lib/api-tokens";
+import { recordAudit } from "../lib/audit";
+
+/**
+ * Personal API token management, mounted at /api/tokens. Only reachable
+ * with a browser session: a token cannot list or mint other tokens.
+ */
+const apiTokens = new Hono<{ Variables: AuthVariables }>();
+
+const MAX_TOKENS_PER_USER = 20;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  // Omit or null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+const tokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * GET /api/tokens
+ * List the signed-in user's API tokens (never the token values)
+ */
+apiTokens.get("/", async (c) => {
+  const userId = c.get("userId");
+
+  try {
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId },
+      select: tokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return c.json({ success: true, data: tokens });
+  } catch (error) {
+    console.error("Error fetching API tokens:", error);
+    return c.json({ success: false, error: "Failed to fetch API tokens" }, 500);
+  }
+});
+
+/**
+ * POST /api/tokens
+ * Create an API token. The plaintext token is only returned here.
+ */
+apiTokens.post("/", async (c) => {
+  const userId = c.get("userId");
+  const body = (c as any).get("sanitizedBody");
+  const parsed = createApiTokenSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return c.json(
+      { success: false, error: "Validation failed", details: parsed.error.flatten() },
+      400
+    );
+  }
+
+  try {
+    const count = await prisma.apiToken.count({ where: { userId } });
+    if (count >= MAX_TOKENS_PER_USER) {
+      return c.json(
+        { success: false, error: `You can have at most ${MAX_TOKENS_PER_USER} API tokens` },
+        400
+      );
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data;
+    const { token, tokenHash, prefix } = generateApiToken();
+    const created = await prisma.apiToken.create({
+      data: {
+        userId,
+        name,
+        tokenHash,
+        prefix,
+        scopes: [...new Set(scopes)],
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+      select: tokenSelect,
+    });
+
+    await recordAudit({
+      teamId: null,
+      actorId: userId,
+      action: "api-token.create",
+      targetId: created.id,
+      after: { name: created.name, prefix: created.prefix, scopes: created.scopes, expiresAt: created.expiresAt },
+    });
+
+    return c.json({ success: true, data: { ...created, token, userId } }, 201);
+  } catch (error) {
+    console.error("Error creating API token:", error);
+    return c.json({ success: false, error: "Failed to create API token" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/tokens/:id
+ * Revoke one of the signed-in user's API tokens
+ */
+apiTokens.delete("/:id", async (c) => {
+  const userId = c.get("userId");
+  const id = c.req.param("id");
+
+  try {
+    const { count } = await prisma.apiToken.deleteMany({ where: { id, userId } });
+    if (count === 0) {
+      return c.json({ success: false, error: "Token not found" }, 404);
+    }
+
+    await recordAudit({
+      teamId: null,
+      actorId: userId,
+      action: "api-token.revoke",
+      targetId: id,
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking API token:", error);
+    return c.json({ success: false, error: "Failed to revoke API token" }, 500);
+  }
+});
+
+export default apiTokens;
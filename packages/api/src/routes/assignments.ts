@@ -0,0 +1,373 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { prisma } from "@ftcmetrics/db";
+import { resolveCapabilities } from "@ftcmetrics/shared";
+import { requireTeamCapability, type AuthVariables } from "../middleware/auth";
+import { can, getTeamAccess } from "../lib/permissions";
+import { ensureEvent, getEventMatchData } from "../lib/event-sync";
+import { getEventQualSchedule } from "../lib/event-stats";
+import { generateRotation, listRobotMatches } from "../lib/assignments";
+import { recordAudit } from "../lib/audit";
+
+/**
+ * Scouting assignment rotations, mounted under
+ * /api/user-teams/:teamId/assignments
+ */
+const assignments = new Hono<{ Variables: AuthVariables }>();
+
+const eventCodeSchema = z.string().regex(/^[A-Za-z0-9]+$/);
+
+export const generateRotationSchema = z.object({
+  eventCode: eventCodeSchema,
+  // Scouts in priority order; defaults to every member who can scout
+  scouterIds: z.array(z.string().min(1)).min(1).max(100).optional(),
+  shiftLength: z.number().int().min(1).max(100).optional(),
+  breakLength: z.number().int().min(0).max(100).optional(),
+});
+
+export const reassignSchema = z.object({
+  scouterId: z.string().min(1),
+});
+
+const scouterSelect = { select: { id: true, name: true, image: true } } as const;
+
+/**
+ * Helper: robot-matches (match number + team number) the team has scouted
+ */
+async function getScoutedRobotMatches(
+  teamId: string,
+  eventCode: string,
+  scouterId?: string
+): Promise<Set<string>> {
+  const entries = await prisma.scoutingEntry.findMany({
+    where: { scoutingTeamId: teamId, eventCode, ...(scouterId && { scouterId }) },
+    select: { matchNumber: true, scoutedTeam: { select: { teamNumber: true } } },
+  });
+  return new Set(entries.map((e) => `${e.matchNumber}-${e.scoutedTeam.teamNumber}`));
+}
+
+/**
+ * GET /api/user-teams/:teamId/assignments
+ * Get the team's rotation for an event (requires view-scouting)
+ * Query: eventCode (required)
+ */
+assignments.get("/", requireTeamCapability("view-scouting"), async (c) => {
+  const teamId = c.req.param("teamId")!;
+  const eventCode = c.req.query("eventCode");
+
+  if (!eventCode) {
+    return c.json({ success: false, error: "eventCode is required" }, 400);
+  }
+
+  try {
+    const rotation = await prisma.scoutingRotation.findUnique({
+      where: { teamId_eventCode: { teamId, eventCode } },
+      include: {
+        assignments: {
+          include: { scouter: scouterSelect },
+          orderBy: [{ matchNumber: "asc" }, { station: "asc" }],
+        },
+      },
+    });
+
+    return c.json({ success: true, data: rotation });
+  } catch (error) {
+    console.error("Error fetching assignments:", error);
+    return c.json({ success: false, error: "Failed to fetch assignments" }, 500);
+  }
+});
+
+/**
+ * POST /api/user-teams/:teamId/assignments
+ * Generate (or regenerate) the rotation for an event from its
+ * qualification schedule (requires manage-assignments)
+ */
+assignments.post("/", requireTeamCapability("manage-assignments"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+
+  try {
+    const body = (c as any).get("sanitizedBody");
+    const parsed = generateRotationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const { eventCode, shiftLength = 6, breakLength = 2 } = parsed.data;
+
+    const [team, members] = await Promise.all([
+      prisma.team.findUnique({ where: { id: teamId } }),
+      prisma.teamMember.findMany({ where: { teamId } }),
+    ]);
+    if (!team) {
+      return c.json({ success: false, error: "Team not found" }, 404);
+    }
+
+    const scouts = members
+      .filter((m) => resolveCapabilities(m.role, team.permissions).includes("scout"))
+      .map((m) => m.userId);
+    const scouterIds = parsed.data.scouterIds ?? scouts;
+    if (new Set(scouterIds).size !== scouterIds.length) {
+      return c.json({ success: false, error: "Duplicate scouts" }, 400);
+    }
+    if (scouterIds.some((id) => !scouts.includes(id))) {
+      return c.json({ success: false, error: "Scouts must be team members who can scout" }, 400);
+    }
+    if (scouterIds.length === 0) {
+      return c.json({ success: false, error: "No scouts available" }, 400);
+    }
+
+    const schedule = await getEventQualSchedule(eventCode).catch(() => []);
+    if (schedule.length === 0) {
+      return c.json(
+        { success: false, error: "Qualification schedule is not available yet" },
+        404
+      );
+    }
+
+    await ensureEvent(eventCode);
+
+    const rotationPlan = generateRotation(schedule, scouterIds, team.teamNumber, {
+      shiftLength,
+      breakLength,
+    });
+
+    const rotation = await prisma.$transaction(async (tx) => {
+      await tx.scoutingRotation.deleteMany({ where: { teamId, eventCode } });
+      return tx.scoutingRotation.create({
+        data: {
+          teamId,
+          eventCode,
+          shiftLength,
+          breakLength,
+          createdBy: userId,
+          assignments: { create: rotationPlan.assignments },
+        },
+        include: {
+          assignments: {
+            include: { scouter: scouterSelect },
+            orderBy: [{ matchNumber: "asc" }, { station: "asc" }],
+          },
+        },
+      });
+    });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "rotation.generate",
+      targetId: rotation.id,
+      after: {
+        eventCode,
+        shiftLength,
+        breakLength,
+        scouterIds,
+        assignments: rotationPlan.assignments.length,
+      },
+    });
+
+    return c.json(
+      {
+        success: true,
+        data: { ...rotation, unassigned: rotationPlan.unassigned },
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error generating assignments:", error);
+    return c.json({ success: false, error: "Failed to generate assignments" }, 500);
+  }
+});
+
+/**
+ * GET /api/user-teams/:teamId/assignments/me
+ * The requesting scout's assignments for an event and the next one they
+ * have not submitted an entry for (requires scout)
+ * Query: eventCode (required)
+ */
+assignments.get("/me", requireTeamCapability("scout"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const eventCode = c.req.query("eventCode");
+
+  if (!eventCode) {
+    return c.json({ success: false, error: "eventCode is required" }, 400);
+  }
+
+  try {
+    const [mine, scouted] = await Promise.all([
+      prisma.scoutingAssignment.findMany({
+        where: { scouterId: userId, rotation: { teamId, eventCode } },
+        orderBy: [{ matchNumber: "asc" }, { station: "asc" }],
+      }),
+      getScoutedRobotMatches(teamId, eventCode, userId),
+    ]);
+
+    const withStatus = mine.map((a) => ({
+      ...a,
+      completed: scouted.has(`${a.matchNumber}-${a.teamNumber}`),
+    }));
+
+    return c.json({
+      success: true,
+      data: {
+        assignments: withStatus,
+        next: withStatus.find((a) => !a.completed) ?? null,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching my assignments:", error);
+    return c.json({ success: false, error: "Failed to fetch assignments" }, 500);
+  }
+});
+
+/**
+ * GET /api/user-teams/:teamId/assignments/coverage
+ * Status of every robot-match on the schedule: scouted, missed (played but
+ * not scouted), assigned, unassigned, or the team's own robot
+ * (requires view-scouting)
+ * Query: eventCode (required)
+ */
+assignments.get("/coverage", requireTeamCapability("view-scouting"), async (c) => {
+  const teamId = c.req.param("teamId")!;
+  const eventCode = c.req.query("eventCode");
+
+  if (!eventCode) {
+    return c.json({ success: false, error: "eventCode is required" }, 400);
+  }
+
+  try {
+    const schedule = await getEventQualSchedule(eventCode).catch(() => []);
+    if (schedule.length === 0) {
+      return c.json(
+        { success: false, error: "Qualification schedule is not available yet" },
+        404
+      );
+    }
+
+    const [team, rotation, scouted, played] = await Promise.all([
+      prisma.team.findUnique({ where: { id: teamId }, select: { teamNumber: true } }),
+      prisma.scoutingRotation.findUnique({
+        where: { teamId_eventCode: { teamId, eventCode } },
+        include: { assignments: { include: { scouter: scouterSelect } } },
+      }),
+      getScoutedRobotMatches(teamId, eventCode),
+      getEventMatchData(eventCode, "qual")
+        .then((data) => new Set(data.matches.map((m) => m.matchNumber)))
+        .catch(() => new Set<number>()),
+    ]);
+
+    const assignmentFor = new Map(
+      (rotation?.assignments ?? []).map((a) => [`${a.matchNumber}-${a.station}`, a])
+    );
+
+    const robotMatches = listRobotMatches(schedule).map((robot) => {
+      const assignment = assignmentFor.get(`${robot.matchNumber}-${robot.station}`);
+      const isScouted = scouted.has(`${robot.matchNumber}-${robot.teamNumber}`);
+      const status =
+        robot.teamNumber === team?.teamNumber
+          ? "own-team"
+          : isScouted
+            ? "scouted"
+            : played.has(robot.matchNumber)
+              ? "missed"
+              : assignment
+                ? "assigned"
+                : "unassigned";
+      return {
+        ...robot,
+        played: played.has(robot.matchNumber),
+        status,
+        scouter: assignment?.scouter ?? null,
+      };
+    });
+
+    const summary = { total: robotMatches.length, scouted: 0, missed: 0, assigned: 0, unassigned: 0 };
+    for (const robot of robotMatches) {
+      if (robot.status !== "own-team") summary[robot.status as keyof typeof summary]++;
+    }
+
+    // Per-scout completion of their own assignments
+    const scouts = new Map<string, { scouter: { id: string; name: string | null; image: string | null }; assigned: number; completed: number }>();
+    for (const a of rotation?.assignments ?? []) {
+      const entry = scouts.get(a.scouterId) ?? { scouter: a.scouter, assigned: 0, completed: 0 };
+      entry.assigned++;
+      if (scouted.has(`${a.matchNumber}-${a.teamNumber}`)) entry.completed++;
+      scouts.set(a.scouterId, entry);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        eventCode,
+        hasRotation: !!rotation,
+        summary,
+        scouts: [...scouts.values()],
+        robotMatches,
+      },
+    });
+  } catch (error) {
+    console.error("Error building coverage report:", error);
+    return c.json({ success: false, error: "Failed to build coverage report" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/user-teams/:teamId/assignments/:assignmentId
+ * Hand one robot-match to a different scout (requires manage-assignments)
+ */
+assignments.patch("/:assignmentId", requireTeamCapability("manage-assignments"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const assignmentId = c.req.param("assignmentId");
+
+  try {
+    const body = (c as any).get("sanitizedBody");
+    const parsed = reassignSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const assignment = await prisma.scoutingAssignment.findFirst({
+      where: { id: assignmentId, rotation: { teamId } },
+    });
+    if (!assignment) {
+      return c.json({ success: false, error: "Assignment not found" }, 404);
+    }
+
+    const scout = await getTeamAccess(parsed.data.scouterId, teamId);
+    if (!can(scout, "scout")) {
+      return c.json({ success: false, error: "Scouts must be team members who can scout" }, 400);
+    }
+
+    const updated = await prisma.scoutingAssignment.update({
+      where: { id: assignmentId },
+      data: { scouterId: parsed.data.scouterId },
+      include: { scouter: scouterSelect },
+    });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "assignment.reassign",
+      targetId: assignmentId,
+      before: { scouterId: assignment.scouterId },
+      after: { scouterId: updated.scouterId },
+    });
+
+    return c.json({ success: true, data: updated });
+  } catch (error) {
+    console.error("Error reassigning scout:", error);
+    return c.json({ success: false, error: "Failed to reassign scout" }, 500);
+  }
+});
+
+export default assignments;
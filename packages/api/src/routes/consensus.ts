@@ -0,0 +1,275 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { prisma, Prisma } from "@ftcmetrics/db";
+import { requireTeamCapability, type AuthVariables } from "../middleware/auth";
+import { CURRENT_SEASON, getGameDefinition, type ScoringValues } from "@ftcmetrics/shared";
+import { buildScoringSchema, calculateScores } from "../lib/scoring";
+import { publishTeamEvent } from "../lib/realtime";
+import { recordAudit } from "../lib/audit";
+import {
+  DEFAULT_DISAGREEMENT_THRESHOLD,
+  loadConsensusContext,
+  reconcileEntries,
+  robotMatchKey,
+} from "../lib/consensus";
+
+/**
+ * Multi-scout consensus for a team's duplicate entries, mounted under
+ * /api/user-teams/:teamId/consensus
+ */
+const consensus = new Hono<{ Variables: AuthVariables }>();
+
+const eventCodeSchema = z.string().regex(/^[A-Za-z0-9]+$/);
+
+export const resolutionSchema = z
+  .object({
+    eventCode: eventCodeSchema,
+    matchNumber: z.number().int().positive(),
+    teamNumber: z.number().int().positive(),
+    // Pick one entry as canonical...
+    canonicalEntryId: z.string().min(1).optional(),
+    // ...or merge: element values, unset ones taken from the consensus
+    values: z.record(z.string(), z.union([z.number(), z.boolean(), z.string()])).optional(),
+  })
+  .refine((data) => (data.canonicalEntryId === undefined) !== (data.values === undefined), {
+    message: "Provide either canonicalEntryId or values",
+  });
+
+const scouterSelect = { select: { id: true, name: true, image: true } } as const;
+
+/**
+ * GET /api/user-teams/:teamId/consensus
+ * Robot-matches the team's scouts recorded more than once, with each
+ * scout's entry, the reconciled values and any disagreements
+ * Query: eventCode (required), threshold (points, default 10),
+ * conflictsOnly=true to hide groups that agree (requires view-scouting)
+ */
+consensus.get("/", requireTeamCapability("view-scouting"), async (c) => {
+  const teamId = c.req.param("teamId")!;
+  const eventCode = c.req.query("eventCode");
+  const thresholdParam = c.req.query("threshold");
+  const conflictsOnly = c.req.query("conflictsOnly") === "true";
+
+  if (!eventCode) {
+    return c.json({ success: false, error: "eventCode is required" }, 400);
+  }
+
+  const threshold = thresholdParam ? Number(thresholdParam) : DEFAULT_DISAGREEMENT_THRESHOLD;
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    return c.json({ success: false, error: "threshold must be a non-negative number" }, 400);
+  }
+
+  try {
+    const entries = await prisma.scoutingEntry.findMany({
+      where: { scoutingTeamId: teamId, eventCode },
+      include: {
+        scoutedTeam: { select: { teamNumber: true } },
+        scouter: scouterSelect,
+      },
+      orderBy: [{ matchNumber: "asc" }, { createdAt: "asc" }],
+    });
+
+    const records = reconcileEntries(entries, {
+      ...(await loadConsensusContext(entries)),
+      threshold,
+    });
+    const entriesById = new Map(entries.map((e) => [e.id, e]));
+
+    const groups = records
+      .filter((r) => r.entryIds.length > 1)
+      .filter((r) => !conflictsOnly || r.conflicts.length > 0)
+      .map((record) => ({
+        ...record,
+        teamNumber: entriesById.get(record.entryIds[0])!.scoutedTeam.teamNumber,
+        entries: record.entryIds.map((id) => entriesById.get(id)!),
+      }));
+
+    return c.json({
+      success: true,
+      data: {
+        eventCode,
+        threshold,
+        groups,
+        // Disagreements no leader has settled yet
+        unresolved: groups.filter((g) => g.method === "consensus" && g.conflicts.length > 0).length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching consensus:", error);
+    return c.json({ success: false, error: "Failed to fetch consensus" }, 500);
+  }
+});
+
+/**
+ * PUT /api/user-teams/:teamId/consensus/resolution
+ * Settle a robot-match by picking the canonical entry or merging values
+ * (requires edit-others-entries)
+ */
+consensus.put("/resolution", requireTeamCapability("edit-others-entries"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+
+  try {
+    const body = (c as any).get("sanitizedBody");
+    const parsed = resolutionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const { eventCode, matchNumber, teamNumber, canonicalEntryId, values } = parsed.data;
+
+    const scoutedTeam = await prisma.team.findUnique({ where: { teamNumber } });
+    const entries = scoutedTeam
+      ? await prisma.scoutingEntry.findMany({
+          where: { scoutingTeamId: teamId, eventCode, matchNumber, scoutedTeamId: scoutedTeam.id },
+        })
+      : [];
+    if (!scoutedTeam || entries.length < 2) {
+      return c.json(
+        { success: false, error: "Robot-match was not scouted more than once" },
+        404
+      );
+    }
+
+    let data: {
+      canonicalEntryId: string | null;
+      season: number | null;
+      scoringData: ScoringValues | typeof Prisma.DbNull;
+      autoScore: number | null;
+      teleopScore: number | null;
+      endgameScore: number | null;
+      totalScore: number | null;
+    };
+
+    if (canonicalEntryId) {
+      if (!entries.some((e) => e.id === canonicalEntryId)) {
+        return c.json({ success: false, error: "Entry is not part of this robot-match" }, 400);
+      }
+      data = {
+        canonicalEntryId,
+        season: null,
+        scoringData: Prisma.DbNull,
+        autoScore: null,
+        teleopScore: null,
+        endgameScore: null,
+        totalScore: null,
+      };
+    } else {
+      const game = getGameDefinition(entries[0].season) ?? getGameDefinition(CURRENT_SEASON)!;
+      // Start from the computed consensus (whole counts) and apply the merge
+      const [record] = reconcileEntries(entries, await loadConsensusContext(entries));
+      const base = Object.fromEntries(
+        Object.entries(record.values).map(([key, value]) => [
+          key,
+          typeof value === "number" ? Math.round(value) : value,
+        ])
+      );
+      const merged = buildScoringSchema(game).safeParse({ ...base, ...values });
+      if (!merged.success) {
+        return c.json(
+          { success: false, error: "Validation failed", details: merged.error.flatten() },
+          400
+        );
+      }
+      const scoringData = merged.data as ScoringValues;
+      const scores = calculateScores(game, scoringData);
+      data = {
+        canonicalEntryId: null,
+        season: game.season,
+        scoringData,
+        autoScore: scores.autoScore,
+        teleopScore: scores.teleopScore,
+        endgameScore: scores.endgameScore,
+        totalScore: scores.totalScore,
+      };
+    }
+
+    const key = {
+      scoutingTeamId: teamId,
+      eventCode,
+      matchNumber,
+      scoutedTeamId: scoutedTeam.id,
+    };
+    const resolution = await prisma.scoutingResolution.upsert({
+      where: { scoutingTeamId_eventCode_matchNumber_scoutedTeamId: key },
+      create: { ...key, ...data, resolvedBy: userId },
+      update: { ...data, resolvedBy: userId },
+    });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "resolution.set",
+      targetId: resolution.id,
+      after: {
+        eventCode,
+        matchNumber,
+        teamNumber,
+        canonicalEntryId: resolution.canonicalEntryId,
+        scoringData: resolution.scoringData,
+        totalScore: resolution.totalScore,
+      },
+    });
+
+    await publishTeamEvent(teamId, "consensus-updated", {
+      id: robotMatchKey(key),
+      eventCode,
+      matchNumber,
+      teamNumber,
+      authorId: userId,
+    });
+
+    return c.json({ success: true, data: resolution });
+  } catch (error) {
+    console.error("Error resolving consensus:", error);
+    return c.json({ success: false, error: "Failed to resolve consensus" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/user-teams/:teamId/consensus/resolutions/:resolutionId
+ * Drop a resolution so the robot-match falls back to the computed
+ * consensus (requires edit-others-entries)
+ */
+consensus.delete("/resolutions/:resolutionId", requireTeamCapability("edit-others-entries"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const resolutionId = c.req.param("resolutionId");
+
+  try {
+    const resolution = await prisma.scoutingResolution.findFirst({
+      where: { id: resolutionId, scoutingTeamId: teamId },
+    });
+    if (!resolution) {
+      return c.json({ success: false, error: "Resolution not found" }, 404);
+    }
+
+    await prisma.scoutingResolution.delete({ where: { id: resolutionId } });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "resolution.delete",
+      targetId: resolutionId,
+      before: resolution,
+    });
+
+    await publishTeamEvent(teamId, "consensus-updated", {
+      id: robotMatchKey(resolution),
+      eventCode: resolution.eventCode,
+      matchNumber: resolution.matchNumber,
+      authorId: userId,
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting resolution:", error);
+    return c.json({ success: false, error: "Failed to delete resolution" }, 500);
+  }
+});
+
+export default consensus;
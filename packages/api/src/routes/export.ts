@@ -0,0 +1,509 @@
+import { Hono } from "hono";
+import { stream } from "hono/streaming";
+import { z } from "zod";
+import { prisma } from "@ftcmetrics/db";
+import {
+  CURRENT_SEASON,
+  getEntryScoringValues,
+  getGameDefinition,
+  type GameDefinition,
+  type TeamCapability,
+} from "@ftcmetrics/shared";
+import { requireTeamCapability, type AuthVariables } from "../middleware/auth";
+import { buildVisibilityFilter, type ViewerTeam } from "../lib/sharing";
+import { summarizeTeams } from "../lib/consensus";
+import { getEventEPAResults, getEventOPRResults } from "../lib/event-stats";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  buildXlsx,
+  csvLines,
+  ndjsonLines,
+  type ExportRow,
+  type ExportTable,
+} from "../lib/export";
+
+/**
+ * Bulk data export, mounted under /api/user-teams/:teamId/export
+ *
+ * Exports need the team's export capability and read data as the team
+ * sees it: its own scouting, PUBLIC data and EVENT data shared at events
+ * it attends. Each dataset also needs the capability that would let the
+ * member view it in the app.
+ */
+const exportRoutes = new Hono<{ Variables: AuthVariables }>();
+
+// Rows read from the database per query while streaming
+const EXPORT_BATCH_SIZE = 500;
+
+export const EXPORT_DATASETS = ["entries", "notes", "team-summaries", "ratings", "picklists"] as const;
+
+type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+const DATASET_CAPABILITIES: Record<ExportDataset, TeamCapability | null> = {
+  entries: "view-scouting",
+  notes: "view-notes",
+  "team-summaries": "view-scouting",
+  // EPA and OPR come from public match results
+  ratings: null,
+  picklists: "view-picklists",
+};
+
+const SHEET_NAMES: Record<ExportDataset, string> = {
+  entries: "Scouting Entries",
+  notes: "Notes",
+  "team-summaries": "Team Summaries",
+  ratings: "EPA & OPR",
+  picklists: "Pick Lists",
+};
+
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).optional(),
+  eventCode: z.string().regex(/^[A-Za-z0-9]+$/).optional(),
+  season: z.coerce.number().int().positive().optional(),
+});
+
+interface ExportContext {
+  teamId: string;
+  viewer: ViewerTeam;
+  eventCode?: string;
+  game: GameDefinition;
+}
+
+/**
+ * Read a query in id-cursor batches so large tables never sit in memory
+ */
+async function* batches<T extends { id: string }>(
+  read: (cursor: { skip: number; cursor?: { id: string } }) => Promise<T[]>
+): AsyncGenerator<T> {
+  let cursor: { id: string } | undefined;
+  for (;;) {
+    const batch = await read(cursor ? { skip: 1, cursor } : { skip: 0 });
+    yield* batch;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = { id: batch[batch.length - 1].id };
+  }
+}
+
+async function* fromArray(rows: ExportRow[]): AsyncGenerator<ExportRow> {
+  yield* rows;
+}
+
+const round = (value: number | undefined) =>
+  value === undefined || !Number.isFinite(value) ? null : Math.round(value * 100) / 100;
+
+async function entriesTable({ viewer, eventCode, game }: ExportContext): Promise<ExportTable> {
+  const where: Record<string, unknown> = {
+    season: game.season,
+    OR: await buildVisibilityFilter([viewer], "scoutingTeam", eventCode),
+  };
+  if (eventCode) where.eventCode = eventCode;
+
+  const elementKeys = game.elements.map((el) => el.key);
+
+  async function* rows(): AsyncGenerator<ExportRow> {
+    const entries = batches((page) =>
+      prisma.scoutingEntry.findMany({
+        where,
+        include: {
+          scoutedTeam: { select: { teamNumber: true } },
+          scoutingTeam: { select: { teamNumber: true } },
+          scouter: { select: { name: true } },
+        },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        take: EXPORT_BATCH_SIZE,
+        ...page,
+      })
+    );
+
+    for await (const entry of entries) {
+      const values = getEntryScoringValues(game, { ...entry });
+      yield {
+        id: entry.id,
+        eventCode: entry.eventCode,
+        matchNumber: entry.matchNumber,
+        alliance: entry.alliance,
+        teamNumber: entry.scoutedTeam.teamNumber,
+        scoutingTeamNumber: entry.scoutingTeam.teamNumber,
+        scouter: entry.scouter?.name ?? null,
+        ...Object.fromEntries(elementKeys.map((key) => [key, values[key] ?? null])),
+        autoScore: entry.autoScore,
+        teleopScore: entry.teleopScore,
+        endgameScore: entry.endgameScore,
+        totalScore: entry.totalScore,
+        deducted: entry.deducted,
+        allianceNotes: entry.allianceNotes,
+        createdAt: entry.createdAt.toISOString(),
+        updatedAt: entry.updatedAt.toISOString(),
+      };
+    }
+  }
+
+  return {
+    name: SHEET_NAMES.entries,
+    columns: [
+      "id",
+      "eventCode",
+      "matchNumber",
+      "alliance",
+      "teamNumber",
+      "scoutingTeamNumber",
+      "scouter",
+      ...elementKeys,
+      "autoScore",
+      "teleopScore",
+      "endgameScore",
+      "totalScore",
+      "deducted",
+      "allianceNotes",
+      "createdAt",
+      "updatedAt",
+    ],
+    rows: rows(),
+  };
+}
+
+async function notesTable({ viewer, eventCode }: ExportContext): Promise<ExportTable> {
+  const where: Record<string, unknown> = {
+    OR: await buildVisibilityFilter([viewer], "notingTeam", eventCode),
+  };
+  if (eventCode) where.eventCode = eventCode;
+
+  async function* rows(): AsyncGenerator<ExportRow> {
+    const notes = batches((page) =>
+      prisma.scoutingNote.findMany({
+        where,
+        include: {
+          aboutTeam: { select: { teamNumber: true } },
+          notingTeam: { select: { teamNumber: true } },
+          author: { select: { name: true } },
+        },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        take: EXPORT_BATCH_SIZE,
+        ...page,
+      })
+    );
+
+    for await (const note of notes) {
+      yield {
+        id: note.id,
+        eventCode: note.eventCode,
+        teamNumber: note.aboutTeam.teamNumber,
+        notingTeamNumber: note.notingTeam.teamNumber,
+        author: note.author?.name ?? null,
+        reliabilityRating: note.reliabilityRating,
+        driverSkillRating: note.driverSkillRating,
+        defenseRating: note.defenseRating,
+        strategyNotes: note.strategyNotes,
+        mechanicalNotes: note.mechanicalNotes,
+        generalNotes: note.generalNotes,
+        createdAt: note.createdAt.toISOString(),
+        updatedAt: note.updatedAt.toISOString(),
+      };
+    }
+  }
+
+  return {
+    name: SHEET_NAMES.notes,
+    columns: [
+      "id",
+      "eventCode",
+      "teamNumber",
+      "notingTeamNumber",
+      "author",
+      "reliabilityRating",
+      "driverSkillRating",
+      "defenseRating",
+      "strategyNotes",
+      "mechanicalNotes",
+      "generalNotes",
+      "createdAt",
+      "updatedAt",
+    ],
+    rows: rows(),
+  };
+}
+
+async function teamSummariesTable({ viewer, eventCode, game }: ExportContext): Promise<ExportTable> {
+  const where: Record<string, unknown> = {
+    season: game.season,
+    OR: await buildVisibilityFilter([viewer], "scoutingTeam", eventCode),
+  };
+  if (eventCode) where.eventCode = eventCode;
+
+  // Summaries reconcile every entry of a team at once, so they are built in memory
+  const entries = await prisma.scoutingEntry.findMany({
+    where,
+    include: { scoutedTeam: { select: { teamNumber: true } } },
+  });
+  const summaries = await summarizeTeams(entries);
+  const averageKeys = ["autoScore", "teleopScore", "endgameScore", "totalScore", ...game.elements.map((el) => el.key)];
+
+  return {
+    name: SHEET_NAMES["team-summaries"],
+    columns: [
+      "teamNumber",
+      "matchCount",
+      "entryCount",
+      "conflictCount",
+      ...averageKeys.map((key) => `avg_${key}`),
+    ],
+    rows: fromArray(
+      summaries.map((summary) => {
+        const averages = summary.averages as Record<string, number>;
+        return {
+          teamNumber: summary.teamNumber,
+          matchCount: summary.matchCount,
+          entryCount: summary.entryCount,
+          conflictCount: summary.conflictCount,
+          ...Object.fromEntries(averageKeys.map((key) => [`avg_${key}`, round(averages[key])])),
+        };
+      })
+    ),
+  };
+}
+
+async function ratingsTable({ eventCode }: ExportContext): Promise<ExportTable> {
+  const [epa, opr] = await Promise.all([
+    getEventEPAResults(eventCode!),
+    getEventOPRResults(eventCode!),
+  ]);
+  const epaResults = epa?.epaResults ?? new Map();
+  const teamNumbers = [...new Set([...epaResults.keys(), ...opr.keys()])].sort((a, b) => a - b);
+
+  return {
+    name: SHEET_NAMES.ratings,
+    columns: [
+      "teamNumber",
+      "epa",
+      "autoEpa",
+      "teleopEpa",
+      "endgameEpa",
+      "matchCount",
+      "opr",
+      "autoOpr",
+      "teleopOpr",
+      "endgameOpr",
+      "dpr",
+      "ccwm",
+    ],
+    rows: fromArray(
+      teamNumbers.map((teamNumber) => {
+        const e = epaResults.get(teamNumber);
+        const o = opr.get(teamNumber);
+        return {
+          teamNumber,
+          epa: round(e?.epa),
+          autoEpa: round(e?.autoEpa),
+          teleopEpa: round(e?.teleopEpa),
+          endgameEpa: round(e?.endgameEpa),
+          matchCount: e?.matchCount ?? null,
+          opr: round(o?.opr),
+          autoOpr: round(o?.autoOpr),
+          teleopOpr: round(o?.teleopOpr),
+          endgameOpr: round(o?.endgameOpr),
+          dpr: round(o?.dpr),
+          ccwm: round(o?.ccwm),
+        };
+      })
+    ),
+  };
+}
+
+async function pickListsTable({ teamId, eventCode }: ExportContext): Promise<ExportTable> {
+  const pickLists = await prisma.pickList.findMany({
+    where: { teamId, ...(eventCode ? { eventCode } : {}) },
+    include: { entries: { orderBy: [{ tier: "asc" }, { rank: "asc" }] } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return {
+    name: SHEET_NAMES.picklists,
+    columns: [
+      "pickList",
+      "eventCode",
+      "tier",
+      "rank",
+      "teamNumber",
+      "doNotPick",
+      "picked",
+      "seedScore",
+      "comment",
+    ],
+    rows: fromArray(
+      pickLists.flatMap((list) =>
+        list.entries.map((entry) => ({
+          pickList: list.name,
+          eventCode: list.eventCode,
+          tier: list.tiers[entry.tier] ?? null,
+          rank: entry.rank + 1,
+          teamNumber: entry.teamNumber,
+          doNotPick: entry.doNotPick,
+          picked: entry.picked,
+          seedScore: round(entry.seedScore ?? undefined),
+          comment: entry.comment,
+        }))
+      )
+    ),
+  };
+}
+
+const TABLE_BUILDERS: Record<ExportDataset, (ctx: ExportContext) => Promise<ExportTable>> = {
+  entries: entriesTable,
+  notes: notesTable,
+  "team-summaries": teamSummariesTable,
+  ratings: ratingsTable,
+  picklists: pickListsTable,
+};
+
+/**
+ * Helper: validate the export query and load the team the export reads as
+ */
+async function getExportContext(
+  teamId: string,
+  query: Record<string, string>
+): Promise<
+  | { ok: true; context: ExportContext; format: (typeof EXPORT_FORMATS)[number] | undefined }
+  | { ok: false; error: string; status: 400 | 404 }
+> {
+  const parsed = exportQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return { ok: false, error: "Invalid export options", status: 400 };
+  }
+
+  const game = getGameDefinition(parsed.data.season ?? CURRENT_SEASON);
+  if (!game) {
+    return { ok: false, error: "Unsupported season", status: 400 };
+  }
+
+  const team = await prisma.team.findUnique({
+    where: { id: teamId },
+    select: { teamNumber: true },
+  });
+  if (!team) {
+    return { ok: false, error: "Team not found", status: 404 };
+  }
+
+  return {
+    ok: true,
+    format: parsed.data.format,
+    context: {
+      teamId,
+      viewer: { teamId, teamNumber: team.teamNumber },
+      eventCode: parsed.data.eventCode,
+      game,
+    },
+  };
+}
+
+function exportFilename(teamNumber: number | null, name: string, eventCode: string | undefined, ext: string) {
+  return ["ftcmetrics", teamNumber, name, eventCode].filter(Boolean).join("-") + `.${ext}`;
+}
+
+/**
+ * GET /api/user-teams/:teamId/export
+ * Every dataset the member may view as a multi-sheet XLSX workbook. The
+ * EPA & OPR sheet is only included for a single event.
+ * Query: eventCode, season
+ */
+exportRoutes.get("/", requireTeamCapability("export"), async (c) => {
+  const teamId = c.req.param("teamId")!;
+  const capabilities = c.get("capabilities") ?? [];
+
+  try {
+    const result = await getExportContext(teamId, c.req.query());
+    if (!result.ok) {
+      return c.json({ success: false, error: result.error }, result.status);
+    }
+    if (result.format && result.format !== "xlsx") {
+      return c.json(
+        { success: false, error: "Only xlsx can hold several datasets; export one dataset for csv or ndjson" },
+        400
+      );
+    }
+
+    const { context } = result;
+    const datasets = EXPORT_DATASETS.filter((dataset) => {
+      const capability = DATASET_CAPABILITIES[dataset];
+      if (capability && !capabilities.includes(capability)) return false;
+      return dataset !== "ratings" || !!context.eventCode;
+    });
+
+    const tables: ExportTable[] = [];
+    for (const dataset of datasets) {
+      tables.push(await TABLE_BUILDERS[dataset](context));
+    }
+    const workbook = await buildXlsx(tables);
+
+    c.header("Content-Type", EXPORT_CONTENT_TYPES.xlsx);
+    c.header(
+      "Content-Disposition",
+      `attachment; filename="${exportFilename(context.viewer.teamNumber, "export", context.eventCode, "xlsx")}"`
+    );
+    return c.body(new Uint8Array(workbook));
+  } catch (error) {
+    console.error("Error exporting team data:", error);
+    return c.json({ success: false, error: "Failed to export data" }, 500);
+  }
+});
+
+/**
+ * GET /api/user-teams/:teamId/export/:dataset
+ * One dataset as streaming CSV (default), NDJSON or a one-sheet XLSX.
+ * Datasets: entries, notes, team-summaries, ratings (EPA/OPR, needs
+ * eventCode), picklists
+ * Query: format, eventCode, season (entries and summaries, default current)
+ */
+exportRoutes.get("/:dataset", requireTeamCapability("export"), async (c) => {
+  const teamId = c.req.param("teamId")!;
+  const dataset = c.req.param("dataset") as ExportDataset;
+  const capabilities = c.get("capabilities") ?? [];
+
+  if (!EXPORT_DATASETS.includes(dataset)) {
+    return c.json({ success: false, error: "Unknown dataset" }, 404);
+  }
+
+  const capability = DATASET_CAPABILITIES[dataset];
+  if (capability && !capabilities.includes(capability)) {
+    return c.json({ success: false, error: "Insufficient permissions" }, 403);
+  }
+
+  try {
+    const result = await getExportContext(teamId, c.req.query());
+    if (!result.ok) {
+      return c.json({ success: false, error: result.error }, result.status);
+    }
+
+    const { context } = result;
+    if (dataset === "ratings" && !context.eventCode) {
+      return c.json({ success: false, error: "eventCode is required for ratings" }, 400);
+    }
+
+    const format = result.format ?? "csv";
+    const table = await TABLE_BUILDERS[dataset](context);
+    const filename = exportFilename(context.viewer.teamNumber, dataset, context.eventCode, format);
+
+    c.header("Content-Type", EXPORT_CONTENT_TYPES[format]);
+    c.header("Content-Disposition", `attachment; filename="${filename}"`);
+
+    if (format === "xlsx") {
+      return c.body(new Uint8Array(await buildXlsx([table])));
+    }
+
+    const lines = format === "csv" ? csvLines(table) : ndjsonLines(table);
+    return stream(c, async (out) => {
+      for await (const line of lines) {
+        if (out.aborted) return;
+        await out.write(line);
+      }
+    }, async (error) => {
+      // Headers are already sent, so the download just ends early
+      console.error(`Error streaming ${dataset} export:`, error);
+    });
+  } catch (error) {
+    console.error("Error exporting team data:", error);
+    return c.json({ success: false, error: "Failed to export data" }, 500);
+  }
+});
+
+export default exportRoutes;
@@ -0,0 +1,424 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { prisma } from "@ftcmetrics/db";
+import { CURRENT_SEASON, getGameDefinition, type ScoringValues } from "@ftcmetrics/shared";
+import { requireTeamCapability, type AuthVariables } from "../middleware/auth";
+import { buildScoringSchema, calculateScores, toEntryScoringFields } from "../lib/scoring";
+import { ensureEvent, findQualMatchId } from "../lib/event-sync";
+import {
+  IMPORT_KINDS,
+  MAX_IMPORT_ROWS,
+  getImportFields,
+  mapRow,
+  parseCsv,
+  suggestMapping,
+  type ImportKind,
+  type ImportRowError,
+} from "../lib/import";
+import { recordAudit } from "../lib/audit";
+import { scoutingEntrySchema, scoutingNoteSchema } from "./scouting";
+
+/**
+ * Bulk CSV import of scouting entries and notes, mounted under
+ * /api/user-teams/:teamId/imports
+ *
+ * A dry run returns every row's parsed values and errors so the user can
+ * fix the column mapping first. A commit writes all rows in one
+ * transaction and records an ImportBatch, which can later be rolled back
+ * as a unit. Imported rows have no scouter or author; the batch records
+ * who imported them. Because of that the unique indexes, which include
+ * those columns, do not stop re-imports, so rows the team already has (or
+ * that repeat an earlier row of the file) are reported as conflicts.
+ */
+const imports = new Hono<{ Variables: AuthVariables }>();
+
+const canImport = requireTeamCapability("import");
+
+export const importSchema = z.object({
+  kind: z.enum(IMPORT_KINDS),
+  csv: z.string().min(1).max(5_000_000),
+  // Field key -> CSV header; guessed from the headers when omitted
+  mapping: z.record(z.string(), z.string()).optional(),
+  // Event code for rows whose mapped column is empty (or when none is mapped)
+  defaults: z
+    .object({
+      eventCode: z.string().regex(/^[A-Za-z0-9]+$/).optional(),
+    })
+    .optional(),
+  season: z.number().int().positive().optional(),
+  fileName: z.string().max(255).optional(),
+  dryRun: z.boolean().optional(),
+  // Commit the valid rows and leave the invalid ones out
+  skipInvalid: z.boolean().optional(),
+});
+
+interface ImportRowResult {
+  // Line number in the file, counting the header as line 1
+  row: number;
+  valid: boolean;
+  // Already in the team's data or earlier in the file
+  conflict: boolean;
+  errors: ImportRowError[];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Helper: flag valid rows that duplicate a row the team already has (by
+ * event, match and robot for entries; event and team for notes) or an
+ * earlier row of the file. Returns how many were flagged.
+ */
+async function flagConflicts(
+  kind: ImportKind,
+  teamId: string,
+  rows: ImportRowResult[],
+  existingTeams: Array<{ id: string; teamNumber: number }>
+): Promise<number> {
+  const validRows = rows.filter((r) => r.valid);
+  const eventCodes = [...new Set(validRows.map((r) => r.data.eventCode as string))];
+  const teamNumbers = new Map(existingTeams.map((t) => [t.id, t.teamNumber]));
+  const teamIds = [...teamNumbers.keys()];
+
+  const teamNumberField = kind === "entries" ? "scoutedTeamNumber" : "aboutTeamNumber";
+  const keyOf = (eventCode: unknown, matchNumber: unknown, teamNumber: unknown) =>
+    kind === "entries" ? `${eventCode}:${matchNumber}:${teamNumber}` : `${eventCode}:${teamNumber}`;
+
+  const existing = new Set<string>();
+  if (teamIds.length > 0 && eventCodes.length > 0) {
+    if (kind === "entries") {
+      const entries = await prisma.scoutingEntry.findMany({
+        where: { scoutingTeamId: teamId, eventCode: { in: eventCodes }, scoutedTeamId: { in: teamIds } },
+        select: { eventCode: true, matchNumber: true, scoutedTeamId: true },
+      });
+      for (const e of entries) {
+        existing.add(keyOf(e.eventCode, e.matchNumber, teamNumbers.get(e.scoutedTeamId)));
+      }
+    } else {
+      const notes = await prisma.scoutingNote.findMany({
+        where: { notingTeamId: teamId, eventCode: { in: eventCodes }, aboutTeamId: { in: teamIds } },
+        select: { eventCode: true, aboutTeamId: true },
+      });
+      for (const n of notes) {
+        existing.add(keyOf(n.eventCode, null, teamNumbers.get(n.aboutTeamId)));
+      }
+    }
+  }
+
+  const firstRow = new Map<string, number>();
+  let conflicts = 0;
+  for (const result of validRows) {
+    const key = keyOf(result.data.eventCode, result.data.matchNumber, result.data[teamNumberField]);
+    const earlier = firstRow.get(key);
+    let message: string | null = null;
+    if (existing.has(key)) {
+      message =
+        kind === "entries"
+          ? "The team already has an entry for this robot in this match"
+          : "The team already has a note about this team at this event";
+    } else if (earlier !== undefined) {
+      message = `Duplicates row ${earlier}`;
+    } else {
+      firstRow.set(key, result.row);
+    }
+
+    if (message) {
+      result.errors.push({ field: teamNumberField, message });
+      result.valid = false;
+      result.conflict = true;
+      conflicts++;
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * POST /api/user-teams/:teamId/imports
+ * Validate (dryRun) or commit a CSV of scouting entries or notes
+ */
+imports.post("/", canImport, async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+
+  try {
+    const body = (c as any).get("sanitizedBody");
+    const parsed = importSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const { kind, csv, defaults, fileName, dryRun, skipInvalid } = parsed.data;
+
+    const game = getGameDefinition(parsed.data.season ?? CURRENT_SEASON);
+    if (!game) {
+      return c.json({ success: false, error: "Unsupported season" }, 400);
+    }
+
+    const [headers, ...lines] = parseCsv(csv);
+    if (!headers || lines.length === 0) {
+      return c.json({ success: false, error: "The CSV has no data rows" }, 400);
+    }
+    if (lines.length > MAX_IMPORT_ROWS) {
+      return c.json(
+        { success: false, error: `Imports are limited to ${MAX_IMPORT_ROWS} rows` },
+        400
+      );
+    }
+
+    const fields = getImportFields(kind, game);
+    const mapping = parsed.data.mapping ?? suggestMapping(headers, fields);
+    const scoringSchema = buildScoringSchema(game);
+
+    const rows: ImportRowResult[] = lines.map((cells, i) => {
+      const { values, errors } = mapRow(cells, headers, mapping, fields, defaults);
+      // A cell that failed to convert is already reported; skip its schema error
+      const reported = new Set(errors.map((e) => e.field));
+      const addIssues = (issues: Array<{ path: PropertyKey[]; message: string }>) => {
+        for (const issue of issues) {
+          const field = issue.path.map(String).join(".");
+          if (!reported.has(field)) errors.push({ field, message: issue.message });
+        }
+      };
+
+      let data: Record<string, unknown> = values;
+      if (kind === "entries") {
+        const entry = scoutingEntrySchema.safeParse({ ...values, scoutingTeamId: teamId, season: game.season });
+        const scoring = scoringSchema.safeParse(values);
+        if (!entry.success) addIssues(entry.error.issues);
+        if (!scoring.success) addIssues(scoring.error.issues);
+        if (entry.success && scoring.success) data = { ...entry.data, ...scoring.data };
+      } else {
+        const note = scoutingNoteSchema.safeParse({ ...values, notingTeamId: teamId });
+        if (!note.success) addIssues(note.error.issues);
+        else data = note.data;
+      }
+
+      return { row: i + 2, valid: errors.length === 0, conflict: false, errors, data };
+    });
+
+    const teamNumberField = kind === "entries" ? "scoutedTeamNumber" : "aboutTeamNumber";
+    const teamNumbers = [
+      ...new Set(rows.filter((r) => r.valid).map((r) => r.data[teamNumberField] as number)),
+    ];
+    const existingTeams = await prisma.team.findMany({
+      where: { teamNumber: { in: teamNumbers } },
+      select: { id: true, teamNumber: true },
+    });
+    const newTeamNumbers = teamNumbers
+      .filter((n) => !existingTeams.some((t) => t.teamNumber === n))
+      .sort((a, b) => a - b);
+
+    const conflictCount = await flagConflicts(kind, teamId, rows, existingTeams);
+    const validRows = rows.filter((r) => r.valid);
+
+    const preview = {
+      kind,
+      headers,
+      mapping,
+      fields,
+      rows,
+      validCount: validRows.length,
+      invalidCount: rows.length - validRows.length,
+      // Included in invalidCount, so skipInvalid leaves them out too
+      conflictCount,
+      newTeamNumbers,
+    };
+
+    if (dryRun) {
+      return c.json({ success: true, data: preview });
+    }
+
+    if (preview.invalidCount > 0 && !skipInvalid) {
+      return c.json(
+        { success: false, error: "Some rows are invalid; fix them or skip invalid rows", data: preview },
+        400
+      );
+    }
+    if (validRows.length === 0) {
+      return c.json({ success: false, error: "No valid rows to import" }, 400);
+    }
+
+    // Events are shared reference data, so they are created outside the import
+    const eventCodes = [...new Set(validRows.map((r) => r.data.eventCode as string))];
+    for (const eventCode of eventCodes) {
+      await ensureEvent(eventCode);
+    }
+
+    const matchIds = new Map<string, string | null>();
+    if (kind === "entries") {
+      for (const { data } of validRows) {
+        const key = `${data.eventCode}:${data.matchNumber}`;
+        if (!matchIds.has(key)) {
+          matchIds.set(key, await findQualMatchId(data.eventCode as string, data.matchNumber as number));
+        }
+      }
+    }
+
+    const batch = await prisma.$transaction(async (tx) => {
+      // Missing teams get placeholders, as scouting submissions do
+      if (newTeamNumbers.length > 0) {
+        await tx.team.createMany({
+          data: newTeamNumbers.map((teamNumber) => ({ teamNumber, name: `Team ${teamNumber}` })),
+          skipDuplicates: true,
+        });
+      }
+      const teams = await tx.team.findMany({
+        where: { teamNumber: { in: teamNumbers } },
+        select: { id: true, teamNumber: true },
+      });
+      const teamIds = new Map(teams.map((t) => [t.teamNumber, t.id]));
+
+      const created = await tx.importBatch.create({
+        data: {
+          teamId,
+          kind,
+          fileName: fileName || null,
+          rowCount: validRows.length,
+          createdBy: userId,
+        },
+      });
+
+      if (kind === "entries") {
+        await tx.scoutingEntry.createMany({
+          data: validRows.map(({ data }) => {
+            const values = data as ScoringValues;
+            return {
+              scoutingTeamId: teamId,
+              scoutedTeamId: teamIds.get(data.scoutedTeamNumber as number)!,
+              eventCode: data.eventCode as string,
+              matchNumber: data.matchNumber as number,
+              matchId: matchIds.get(`${data.eventCode}:${data.matchNumber}`) ?? null,
+              alliance: data.alliance as string,
+              ...toEntryScoringFields(game, values),
+              allianceNotes: (data.allianceNotes as string | undefined) || null,
+              ...calculateScores(game, values),
+              importBatchId: created.id,
+            };
+          }),
+        });
+      } else {
+        await tx.scoutingNote.createMany({
+          data: validRows.map(({ data }) => ({
+            notingTeamId: teamId,
+            aboutTeamId: teamIds.get(data.aboutTeamNumber as number)!,
+            eventCode: data.eventCode as string,
+            reliabilityRating: (data.reliabilityRating as number | undefined) ?? null,
+            driverSkillRating: (data.driverSkillRating as number | undefined) ?? null,
+            defenseRating: (data.defenseRating as number | undefined) ?? null,
+            strategyNotes: (data.strategyNotes as string | undefined) || null,
+            mechanicalNotes: (data.mechanicalNotes as string | undefined) || null,
+            generalNotes: (data.generalNotes as string | undefined) || null,
+            importBatchId: created.id,
+          })),
+        });
+      }
+
+      return created;
+    });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "import.commit",
+      targetId: batch.id,
+      after: { kind, fileName, rowCount: batch.rowCount, skipped: preview.invalidCount },
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        batch,
+        imported: batch.rowCount,
+        skipped: preview.invalidCount,
+        newTeamNumbers,
+      },
+    });
+  } catch (error) {
+    console.error("Error importing scouting data:", error);
+    return c.json({ success: false, error: "Failed to import data" }, 500);
+  }
+});
+
+/**
+ * GET /api/user-teams/:teamId/imports
+ * The team's recent imports, newest first
+ */
+imports.get("/", canImport, async (c) => {
+  const teamId = c.req.param("teamId")!;
+
+  try {
+    const batches = await prisma.importBatch.findMany({
+      where: { teamId },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    });
+
+    return c.json({ success: true, data: batches });
+  } catch (error) {
+    console.error("Error fetching imports:", error);
+    return c.json({ success: false, error: "Failed to fetch imports" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/user-teams/:teamId/imports/:batchId
+ * Roll back an import: delete every entry and note it created, in one
+ * transaction. Edits made to those rows since are lost with them.
+ */
+imports.delete("/:batchId", canImport, async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const batchId = c.req.param("batchId");
+
+  try {
+    const batch = await prisma.importBatch.findFirst({
+      where: { id: batchId, teamId },
+    });
+
+    if (!batch) {
+      return c.json({ success: false, error: "Import not found" }, 404);
+    }
+
+    if (batch.rolledBackAt) {
+      return c.json({ success: false, error: "Import already rolled back" }, 409);
+    }
+
+    const [entries, notes] = await prisma.$transaction([
+      prisma.scoutingEntry.deleteMany({ where: { importBatchId: batchId } }),
+      prisma.scoutingNote.deleteMany({ where: { importBatchId: batchId } }),
+      prisma.importBatch.update({
+        where: { id: batchId },
+        data: { rolledBackAt: new Date() },
+      }),
+    ]);
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "import.rollback",
+      targetId: batchId,
+      before: { kind: batch.kind, fileName: batch.fileName, rowCount: batch.rowCount },
+      after: { entriesDeleted: entries.count, notesDeleted: notes.count },
+    });
+
+    return c.json({
+      success: true,
+      data: { entriesDeleted: entries.count, notesDeleted: notes.count },
+    });
+  } catch (error) {
+    console.error("Error rolling back import:", error);
+    return c.json({ success: false, error: "Failed to roll back import" }, 500);
+  }
+});
+
+export default imports;
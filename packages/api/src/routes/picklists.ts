@@ -0,0 +1,496 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { prisma, type PickListEntry } from "@ftcmetrics/db";
+import { requireTeamAdmin, requireTeamCapability, type AuthVariables } from "../middleware/auth";
+import { ensureEvent } from "../lib/event-sync";
+import { buildPickListSeed } from "../lib/picklist";
+import { publishTeamEvent } from "../lib/realtime";
+import { diffFields, recordAudit } from "../lib/audit";
+
+/**
+ * Alliance selection pick lists, mounted under
+ * /api/user-teams/:teamId/picklists
+ */
+const picklists = new Hono<{ Variables: AuthVariables }>();
+
+const viewPickLists = requireTeamCapability("view-picklists");
+const managePickLists = requireTeamCapability("manage-picklists");
+
+const DEFAULT_TIERS = ["First Pick", "Second Pick", "Backup"];
+
+const tiersSchema = z.array(z.string().trim().min(1).max(50)).min(1).max(10);
+
+export const createPickListSchema = z.object({
+  eventCode: z.string().regex(/^[A-Za-z0-9]+$/),
+  name: z.string().trim().min(1).max(100).optional(),
+  tiers: tiersSchema.optional(),
+  seed: z.boolean().optional(),
+});
+
+export const entryUpdateSchema = z.object({
+  tier: z.number().int().min(0).optional(),
+  rank: z.number().int().min(0).optional(),
+  doNotPick: z.boolean().optional(),
+  picked: z.boolean().optional(),
+  comment: z.string().max(1000).nullable().optional(),
+});
+
+export const updatePickListSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  tiers: tiersSchema.optional(),
+  // Full ordering after a drag-and-drop; teams not listed are removed
+  entries: z
+    .array(entryUpdateSchema.extend({ teamNumber: z.number().int().positive() }))
+    .max(500)
+    .optional(),
+});
+
+/**
+ * Helper: load a pick list with its entries in list order, scoped to a team
+ */
+async function getPickList(teamId: string, pickListId: string) {
+  return prisma.pickList.findFirst({
+    where: { id: pickListId, teamId },
+    include: {
+      entries: { orderBy: [{ tier: "asc" }, { rank: "asc" }] },
+    },
+  });
+}
+
+// Where each team sits on a list, for audit log snapshots
+function listOrder(entries: PickListEntry[]) {
+  return entries.map(({ teamNumber, tier, rank, picked, doNotPick }) => ({
+    teamNumber,
+    tier,
+    rank,
+    picked,
+    doNotPick,
+  }));
+}
+
+/**
+ * GET /api/user-teams/:teamId/picklists
+ * List the team's pick lists (optionally for one event)
+ */
+picklists.get("/", viewPickLists, async (c) => {
+  const teamId = c.req.param("teamId")!;
+  const eventCode = c.req.query("eventCode");
+
+  try {
+    const lists = await prisma.pickList.findMany({
+      where: { teamId, ...(eventCode && { eventCode }) },
+      include: { _count: { select: { entries: true } } },
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return c.json({
+      success: true,
+      data: lists.map(({ _count, ...list }) => ({
+        ...list,
+        entryCount: _count.entries,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching pick lists:", error);
+    return c.json({ success: false, error: "Failed to fetch pick lists" }, 500);
+  }
+});
+
+/**
+ * POST /api/user-teams/:teamId/picklists
+ * Create the team's pick list for an event, seeded from EPA/OPR,
+ * scouting averages and note ratings unless seed is false
+ */
+picklists.post("/", managePickLists, async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+
+  try {
+    const body = (c as any).get("sanitizedBody");
+    const parsed = createPickListSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const { eventCode, name, seed = true } = parsed.data;
+    const tiers = parsed.data.tiers ?? DEFAULT_TIERS;
+
+    const existing = await prisma.pickList.findUnique({
+      where: { teamId_eventCode: { teamId, eventCode } },
+    });
+    if (existing) {
+      return c.json(
+        { success: false, error: "A pick list already exists for this event" },
+        409
+      );
+    }
+
+    const team = await prisma.team.findUnique({ where: { id: teamId } });
+    if (!team) {
+      return c.json({ success: false, error: "Team not found" }, 404);
+    }
+
+    await ensureEvent(eventCode);
+
+    const seeds = seed
+      ? await buildPickListSeed(teamId, team.teamNumber, eventCode, tiers.length)
+      : [];
+
+    const pickList = await prisma.pickList.create({
+      data: {
+        teamId,
+        eventCode,
+        name,
+        tiers,
+        createdBy: userId,
+        entries: {
+          create: seeds.map((s) => ({
+            teamNumber: s.teamNumber,
+            tier: s.tier,
+            rank: s.rank,
+            seedScore: s.seedScore,
+            stats: { ...s.stats },
+          })),
+        },
+      },
+      include: {
+        entries: { orderBy: [{ tier: "asc" }, { rank: "asc" }] },
+      },
+    });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "pick-list.create",
+      targetId: pickList.id,
+      after: {
+        eventCode,
+        name: pickList.name,
+        tiers,
+        entries: seeds.map(({ teamNumber, tier, rank }) => ({ teamNumber, tier, rank })),
+      },
+    });
+
+    return c.json({ success: true, data: pickList }, 201);
+  } catch (error) {
+    console.error("Error creating pick list:", error);
+    return c.json({ success: false, error: "Failed to create pick list" }, 500);
+  }
+});
+
+/**
+ * GET /api/user-teams/:teamId/picklists/:pickListId
+ * Get a pick list with its entries in order
+ */
+picklists.get("/:pickListId", viewPickLists, async (c) => {
+  const teamId = c.req.param("teamId")!;
+  const pickListId = c.req.param("pickListId");
+
+  try {
+    const pickList = await getPickList(teamId, pickListId);
+    if (!pickList) {
+      return c.json({ success: false, error: "Pick list not found" }, 404);
+    }
+
+    return c.json({ success: true, data: pickList });
+  } catch (error) {
+    console.error("Error fetching pick list:", error);
+    return c.json({ success: false, error: "Failed to fetch pick list" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/user-teams/:teamId/picklists/:pickListId
+ * Rename, change tiers, or replace the full ordering of a pick list
+ */
+picklists.patch("/:pickListId", managePickLists, async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const pickListId = c.req.param("pickListId");
+
+  try {
+    const body = (c as any).get("sanitizedBody");
+    const parsed = updatePickListSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const existing = await getPickList(teamId, pickListId);
+    if (!existing) {
+      return c.json({ success: false, error: "Pick list not found" }, 404);
+    }
+
+    const { name, tiers, entries } = parsed.data;
+    const tierCount = (tiers ?? existing.tiers).length;
+
+    if (entries) {
+      const teamNumbers = entries.map((e) => e.teamNumber);
+      if (new Set(teamNumbers).size !== teamNumbers.length) {
+        return c.json({ success: false, error: "Duplicate team in pick list" }, 400);
+      }
+      if (entries.some((e) => e.tier !== undefined && e.tier >= tierCount)) {
+        return c.json({ success: false, error: "Invalid tier" }, 400);
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.pickList.update({
+        where: { id: pickListId },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(tiers !== undefined && { tiers }),
+        },
+      });
+
+      if (entries) {
+        await tx.pickListEntry.deleteMany({
+          where: {
+            pickListId,
+            teamNumber: { notIn: entries.map((e) => e.teamNumber) },
+          },
+        });
+
+        for (const [index, entry] of entries.entries()) {
+          const data = {
+            tier: entry.tier ?? 0,
+            rank: entry.rank ?? index,
+            ...(entry.doNotPick !== undefined && { doNotPick: entry.doNotPick }),
+            ...(entry.picked !== undefined && { picked: entry.picked }),
+            ...(entry.comment !== undefined && { comment: entry.comment }),
+          };
+          await tx.pickListEntry.upsert({
+            where: { pickListId_teamNumber: { pickListId, teamNumber: entry.teamNumber } },
+            create: { pickListId, teamNumber: entry.teamNumber, ...data },
+            update: data,
+          });
+        }
+      } else if (tiers !== undefined) {
+        // Entries in removed tiers fall into the last remaining tier
+        await tx.pickListEntry.updateMany({
+          where: { pickListId, tier: { gte: tierCount } },
+          data: { tier: tierCount - 1 },
+        });
+      }
+    });
+
+    const pickList = await getPickList(teamId, pickListId);
+
+    const { before, after } = diffFields(existing, { name, tiers });
+    if (entries) {
+      before.entries = listOrder(existing.entries);
+      after.entries = listOrder(pickList?.entries ?? []);
+    }
+    if (Object.keys(after).length > 0) {
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "pick-list.update",
+        targetId: pickListId,
+        before,
+        after,
+      });
+    }
+
+    await publishTeamEvent(teamId, "picklist-updated", {
+      id: pickListId,
+      eventCode: existing.eventCode,
+      authorId: userId,
+    });
+
+    return c.json({ success: true, data: pickList });
+  } catch (error) {
+    console.error("Error updating pick list:", error);
+    return c.json({ success: false, error: "Failed to update pick list" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/user-teams/:teamId/picklists/:pickListId/entries/:teamNumber
+ * Update one team on the list (tier, do-not-pick, comment, or picked
+ * during alliance selection)
+ */
+picklists.patch("/:pickListId/entries/:teamNumber", managePickLists, async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const pickListId = c.req.param("pickListId");
+  const teamNumber = parseInt(c.req.param("teamNumber"), 10);
+
+  if (isNaN(teamNumber)) {
+    return c.json({ success: false, error: "Invalid team number" }, 400);
+  }
+
+  try {
+    const body = (c as any).get("sanitizedBody");
+    const parsed = entryUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: parsed.error.flatten() },
+        400
+      );
+    }
+
+    const pickList = await prisma.pickList.findFirst({
+      where: { id: pickListId, teamId },
+    });
+    if (!pickList) {
+      return c.json({ success: false, error: "Pick list not found" }, 404);
+    }
+
+    if (parsed.data.tier !== undefined && parsed.data.tier >= pickList.tiers.length) {
+      return c.json({ success: false, error: "Invalid tier" }, 400);
+    }
+
+    const existing = await prisma.pickListEntry.findUnique({
+      where: { pickListId_teamNumber: { pickListId, teamNumber } },
+    });
+    if (!existing) {
+      return c.json({ success: false, error: "Team is not on this pick list" }, 404);
+    }
+
+    const entry = await prisma.pickListEntry.update({
+      where: { id: existing.id },
+      data: parsed.data,
+    });
+
+    const { before, after } = diffFields(existing, parsed.data);
+    if (Object.keys(after).length > 0) {
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "pick-list.entry-update",
+        targetId: pickListId,
+        before: { teamNumber, ...before },
+        after: { teamNumber, ...after },
+      });
+    }
+
+    await publishTeamEvent(teamId, "picklist-updated", {
+      id: pickListId,
+      eventCode: pickList.eventCode,
+      teamNumber,
+      authorId: userId,
+    });
+
+    return c.json({ success: true, data: entry });
+  } catch (error) {
+    console.error("Error updating pick list entry:", error);
+    return c.json({ success: false, error: "Failed to update pick list entry" }, 500);
+  }
+});
+
+/**
+ * POST /api/user-teams/:teamId/picklists/:pickListId/refresh
+ * Refresh each team's stats snapshot and add teams missing from the list,
+ * keeping the existing order
+ */
+picklists.post("/:pickListId/refresh", managePickLists, async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const pickListId = c.req.param("pickListId");
+
+  try {
+    const pickList = await getPickList(teamId, pickListId);
+    const team = await prisma.team.findUnique({ where: { id: teamId } });
+    if (!pickList || !team) {
+      return c.json({ success: false, error: "Pick list not found" }, 404);
+    }
+
+    const seeds = await buildPickListSeed(
+      teamId,
+      team.teamNumber,
+      pickList.eventCode,
+      pickList.tiers.length
+    );
+    const onList = new Set(pickList.entries.map((e) => e.teamNumber));
+    let nextRank = pickList.entries.reduce((max, e) => Math.max(max, e.rank + 1), 0);
+
+    await prisma.$transaction(
+      seeds.map((s) =>
+        onList.has(s.teamNumber)
+          ? prisma.pickListEntry.update({
+              where: { pickListId_teamNumber: { pickListId, teamNumber: s.teamNumber } },
+              data: { seedScore: s.seedScore, stats: { ...s.stats } },
+            })
+          : prisma.pickListEntry.create({
+              data: {
+                pickListId,
+                teamNumber: s.teamNumber,
+                tier: pickList.tiers.length - 1,
+                rank: nextRank++,
+                seedScore: s.seedScore,
+                stats: { ...s.stats },
+              },
+            })
+      )
+    );
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "pick-list.refresh",
+      targetId: pickListId,
+      after: { added: seeds.filter((s) => !onList.has(s.teamNumber)).map((s) => s.teamNumber) },
+    });
+
+    await publishTeamEvent(teamId, "picklist-updated", {
+      id: pickListId,
+      eventCode: pickList.eventCode,
+      authorId: userId,
+    });
+
+    return c.json({ success: true, data: await getPickList(teamId, pickListId) });
+  } catch (error) {
+    console.error("Error refreshing pick list:", error);
+    return c.json({ success: false, error: "Failed to refresh pick list" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/user-teams/:teamId/picklists/:pickListId
+ * Delete a pick list (MENTOR/LEADER only)
+ */
+picklists.delete("/:pickListId", requireTeamAdmin(), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId")!;
+  const pickListId = c.req.param("pickListId");
+
+  try {
+    const existing = await getPickList(teamId, pickListId);
+    if (!existing) {
+      return c.json({ success: false, error: "Pick list not found" }, 404);
+    }
+
+    await prisma.pickList.delete({
+      where: { id: pickListId },
+    });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "pick-list.delete",
+      targetId: pickListId,
+      before: {
+        eventCode: existing.eventCode,
+        name: existing.name,
+        tiers: existing.tiers,
+        entries: listOrder(existing.entries),
+      },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting pick list:", error);
+    return c.json({ success: false, error: "Failed to delete pick list" }, 500);
+  }
+});
+
+export default picklists;
@@ -2,25 +2,38 @@ import { Hono } from "hono";
 import { getFTCApi, type FTCEvent } from "../lib/ftc-api";
 import {
   calculateEPA,
-  getEPARankings,
+  calculateEPAWithHistory,
+  type EPASnapshot,
   type MatchForEPA,
 } from "../lib/stats/epa";
 import {
   calculateOPR,
   type MatchResult,
 } from "../lib/stats/opr";
+import { fitMarginSpread, setMarginSpread } from "../lib/stats/win-probability";
+import { heldOutForecasts, scoreForecasts, type BacktestReport } from "../lib/stats/backtest";
 import { getRedis } from "../lib/redis";
+import { getEventMatchData } from "../lib/event-sync";
 import { prisma } from "@ftcmetrics/db";
+import { CURRENT_SEASON } from "@ftcmetrics/shared";
 
 const rankings = new Hono();
 
-const CURRENT_SEASON = 2025;
-
 // Redis cache key and TTL for global EPA rankings
 const RANKINGS_CACHE_KEY = "ftcmetrics:rankings:epa";
 const OPR_RANKINGS_CACHE_KEY = "ftcmetrics:rankings:opr";
+const SEASON_BACKTEST_CACHE_KEY = "ftcmetrics:rankings:backtest";
 const RANKINGS_CACHE_TTL = 30 * 60; // 30 minutes in seconds
 
+type SeasonBacktest = BacktestReport & {
+  season: number;
+  eventsProcessed: number;
+  lastUpdated: string;
+};
+
+// Latest season backtest, for when Redis is unavailable
+let latestSeasonBacktest: SeasonBacktest | null = null;
+
 interface RankingsResponse {
   success: true;
   data: {
@@ -94,6 +107,7 @@ function filterPastCompetitionEvents(events: FTCEvent[]): FTCEvent[] {
  * MatchForEPA objects with timestamps for cross-event chronological ordering.
  */
 function transformMatchesForGlobalEPA(
+  eventCode: string,
   matches: Array<{
     matchNumber: number;
     startTime: string;
@@ -152,6 +166,7 @@ function transformMatchesForGlobalEPA(
 
     results.push({
       matchNumber: match.matchNumber,
+      eventCode,
       timestamp,
       redTeam1: redTeams[0],
       redTeam2: redTeams[1],
@@ -172,32 +187,20 @@ function transformMatchesForGlobalEPA(
 }
 
 /**
- * Fetch matches and scores for a single event.
+ * Fetch matches and scores for a single event (database first, then FTC API).
  * Returns null if the event has no match data or if the fetch fails.
  */
 async function fetchEventMatches(
   eventCode: string
 ): Promise<MatchForEPA[] | null> {
   try {
-    const api = getFTCApi();
-    const [matchesResult, scoresResult] = await Promise.all([
-      api.getMatches(eventCode, "qual"),
-      api.getScores(eventCode, "qual"),
-    ]);
-
-    if (
-      !matchesResult.matches ||
-      matchesResult.matches.length === 0 ||
-      !scoresResult.matchScores ||
-      scoresResult.matchScores.length === 0
-    ) {
+    const { matches, matchScores } = await getEventMatchData(eventCode, "qual");
+
+    if (matches.length === 0 || matchScores.length === 0) {
       return null;
     }
 
-    const epaMatches = transformMatchesForGlobalEPA(
-      matchesResult.matches,
-      scoresResult.matchScores
-    );
+    const epaMatches = transformMatchesForGlobalEPA(eventCode, matches, matchScores);
 
     return epaMatches.length > 0 ? epaMatches : null;
   } catch (error) {
@@ -209,6 +212,43 @@ async function fetchEventMatches(
   }
 }
 
+/**
+ * Replace a season's stored EPA history with a fresh computation.
+ * Snapshots keep their computation order in `sequence` so timelines stay
+ * ordered even when match times are missing.
+ */
+async function saveEPAHistory(season: number, history: EPASnapshot[]): Promise<void> {
+  const rows = history
+    .filter((snap) => snap.eventCode)
+    .map((snap, index) => ({
+      season,
+      teamNumber: snap.teamNumber,
+      eventCode: snap.eventCode!,
+      matchNumber: snap.matchNumber,
+      sequence: index,
+      epaValue: snap.epa,
+      autoEpa: snap.autoEpa,
+      teleopEpa: snap.teleopEpa,
+      endgameEpa: snap.endgameEpa,
+      matchTime: snap.timestamp ? new Date(snap.timestamp) : null,
+    }));
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.ePAHistory.deleteMany({ where: { season } });
+      for (let i = 0; i < rows.length; i += 5000) {
+        await tx.ePAHistory.createMany({
+          data: rows.slice(i, i + 5000),
+          skipDuplicates: true,
+        });
+      }
+    },
+    { timeout: 120000 }
+  );
+
+  console.log(`[Rankings] Saved ${rows.length} EPA history snapshots`);
+}
+
 /**
  * Compute global EPA rankings and cache in Redis.
  * Extracted so it can be called at startup and on a timer.
@@ -344,7 +384,34 @@ export async function computeAndCacheRankings(): Promise<RankingsResponse | null
       `[Rankings] Calculating EPA from ${allMatches.length} matches across ${eventsProcessed} events...`
     );
 
-    const epaRankings = getEPARankings(allMatches);
+    const { results: epaResults, history, predictions } = calculateEPAWithHistory(allMatches);
+    const epaRankings = Array.from(epaResults.values()).sort((a, b) => b.epa - a.epa);
+
+    // Calibrate win probabilities against this season's prediction errors
+    const spread = fitMarginSpread(predictions);
+    if (spread !== null) {
+      setMarginSpread(spread);
+      console.log(`[Rankings] Fitted win probability margin spread: ${spread.toFixed(2)}`);
+    }
+    // Scored out of sample: each match uses the spread fitted before it
+    const heldOut = heldOutForecasts(predictions);
+    const seasonBacktest: SeasonBacktest = {
+      season: CURRENT_SEASON,
+      eventsProcessed,
+      lastUpdated: new Date().toISOString(),
+      ...scoreForecasts(heldOut.forecasts, heldOut.spread),
+    };
+    latestSeasonBacktest = seasonBacktest;
+
+    // Persist each team's per-match EPA trajectory for the timeline API
+    try {
+      await saveEPAHistory(CURRENT_SEASON, history);
+    } catch (err) {
+      console.warn(
+        "[Rankings] Failed to save EPA history:",
+        err instanceof Error ? err.message : err
+      );
+    }
 
     const rankedResults = epaRankings.map((result, index) => ({
       rank: index + 1,
@@ -372,6 +439,7 @@ export async function computeAndCacheRankings(): Promise<RankingsResponse | null
     const redis = getRedis();
     if (redis) {
       try { await redis.setex(RANKINGS_CACHE_KEY, RANKINGS_CACHE_TTL, JSON.stringify(response)); } catch {}
+      try { await redis.setex(SEASON_BACKTEST_CACHE_KEY, RANKINGS_CACHE_TTL, JSON.stringify(seasonBacktest)); } catch {}
     }
 
     // Compute OPR rankings: calculate per-event OPR then average across events per team
@@ -468,6 +536,30 @@ export async function computeAndCacheRankings(): Promise<RankingsResponse | null
   }
 }
 
+/**
+ * Season-wide prediction backtest from Redis, then memory, computing the
+ * rankings inline if neither has one yet. Null when there is nothing to
+ * backtest.
+ */
+export async function getSeasonBacktest(): Promise<SeasonBacktest | null> {
+  const redis = getRedis();
+  if (redis) {
+    try {
+      const cached = await redis.get(SEASON_BACKTEST_CACHE_KEY);
+      if (cached) {
+        return JSON.parse(cached) as SeasonBacktest;
+      }
+    } catch {
+      // Redis read failed, fall back to memory
+    }
+  }
+
+  if (!latestSeasonBacktest) {
+    await computeAndCacheRankings();
+  }
+  return latestSeasonBacktest;
+}
+
 /**
  * GET /api/rankings/epa
  *
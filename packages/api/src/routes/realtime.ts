@@ -0,0 +1,66 @@
+import { Hono } from "hono";
+import { can, getTeamAccess } from "../lib/permissions";
+import { getPusher, parseTeamChannel } from "../lib/realtime";
+import type { AuthVariables } from "../middleware/auth";
+
+const realtime = new Hono<{ Variables: AuthVariables }>();
+
+/**
+ * POST /api/realtime/auth
+ * Authorize a Pusher private channel subscription.
+ * Only members of a scouting team who may view its scouting data may join
+ * that team's channel.
+ */
+realtime.post("/auth", async (c) => {
+  // Use the session-verified user, never a client-supplied header
+  const userId = c.get("userId");
+
+  if (!userId) {
+    return c.json({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  const pusher = getPusher();
+  if (!pusher) {
+    return c.json({ success: false, error: "Realtime is not configured" }, 503);
+  }
+
+  try {
+    const body = (c as any).get("sanitizedBody") || {};
+    const socketId = body.socket_id;
+    const channelName = body.channel_name;
+
+    if (typeof socketId !== "string" || typeof channelName !== "string") {
+      return c.json(
+        { success: false, error: "Missing socket_id or channel_name" },
+        400
+      );
+    }
+
+    const teamId = parseTeamChannel(channelName);
+    if (!teamId) {
+      return c.json({ success: false, error: "Unknown channel" }, 400);
+    }
+
+    const access = await getTeamAccess(userId, teamId);
+
+    if (!access) {
+      return c.json({ success: false, error: "Not a team member" }, 403);
+    }
+
+    // The channel carries new entries and notes as they are scouted
+    if (!can(access, "view-scouting")) {
+      return c.json({ success: false, error: "Insufficient permissions" }, 403);
+    }
+
+    // Pusher clients expect the raw auth object, not the { success, data } wrapper
+    return c.json(pusher.authorizeChannel(socketId, channelName));
+  } catch (error) {
+    console.error("Error authorizing realtime channel:", error);
+    return c.json(
+      { success: false, error: "Failed to authorize channel" },
+      500
+    );
+  }
+});
+
+export default realtime;
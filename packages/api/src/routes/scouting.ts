@@ -1,30 +1,61 @@
 import { Hono } from "hono";
 import { z } from "zod";
-import { prisma } from "@ftcmetrics/db";
+import { prisma, type ScoutingEntry } from "@ftcmetrics/db";
+import {
+  CURRENT_SEASON,
+  getDefaultScoringValues,
+  getEntryScoringValues,
+  getGameDefinition,
+  type ScoringValues,
+} from "@ftcmetrics/shared";
 import { getFTCApi } from "../lib/ftc-api";
 import type { FTCMatchScore } from "../lib/ftc-api";
-
-const scoutingEntrySchema = z.object({
+import {
+  buildScoringSchema,
+  calculateScores,
+  toEntryScoringFields,
+} from "../lib/scoring";
+import { publishTeamEvent } from "../lib/realtime";
+import {
+  loadConsensusContext,
+  reconcileEntries,
+  summarizeRecords,
+  summarizeTeams,
+} from "../lib/consensus";
+import { findQualMatchId } from "../lib/event-sync";
+import { idempotency } from "../middleware/idempotency";
+import type { AuthVariables } from "../middleware/auth";
+import { can, getTeamAccess } from "../lib/permissions";
+import { diffFields, recordAudit } from "../lib/audit";
+import {
+  buildVisibilityFilter,
+  canViewScoutingData,
+  getSharedEventRosters,
+  getViewerTeams,
+} from "../lib/sharing";
+
+export const scoutingEntrySchema = z.object({
   scoutedTeamNumber: z.number().int().positive(),
   eventCode: z.string().regex(/^[A-Za-z0-9]+$/),
   matchNumber: z.number().int().positive(),
   alliance: z.enum(["RED", "BLUE"]),
   scoutingTeamId: z.string().min(1),
-  autoClassifiedCount: z.number().int().min(0).default(0),
-  autoOverflowCount: z.number().int().min(0).default(0),
-  autoPatternCount: z.number().int().min(0).default(0),
-  teleopClassifiedCount: z.number().int().min(0).default(0),
-  teleopOverflowCount: z.number().int().min(0).default(0),
-  teleopDepotCount: z.number().int().min(0).default(0),
-  teleopPatternCount: z.number().int().min(0).default(0),
-  teleopMotifCount: z.number().int().min(0).default(0),
-  endgameBaseStatus: z.enum(["NONE", "PARTIAL", "FULL"]).default("NONE"),
-  autoLeave: z.boolean().default(false),
+  // Scoring element fields are validated separately against the season's game definition
+  season: z.number().int().positive().optional(),
   notes: z.string().max(1000).optional(),
   allianceNotes: z.string().max(1000).optional(),
+  // Scout who recorded the entry, when another member relays it from their
+  // device (QR transfer); defaults to the submitter
+  scouterId: z.string().min(1).optional(),
 });
 
-const scoutingNoteSchema = z.object({
+// Entry fields besides the scoring values that PATCH /entries/:id accepts
+export const scoutingEntryUpdateSchema = scoutingEntrySchema
+  .pick({ matchNumber: true, alliance: true })
+  .extend({ allianceNotes: z.string().max(1000).nullable() })
+  .partial();
+
+export const scoutingNoteSchema = z.object({
   aboutTeamNumber: z.number().int().positive(),
   eventCode: z.string().regex(/^[A-Za-z0-9]+$/),
   notingTeamId: z.string().min(1),
@@ -36,52 +67,25 @@ const scoutingNoteSchema = z.object({
   generalNotes: z.string().max(2000).optional(),
 });
 
-const scouting = new Hono();
+export const revertEntrySchema = z.object({
+  auditId: z.string().min(1),
+});
+
+const scouting = new Hono<{ Variables: AuthVariables }>();
+
+// Members whose role lacks the scout capability (FRIEND by default)
+const VIEW_ONLY_ERROR = "Your role has view-only access for this team";
+
+// Entry fields besides the scoring values that an edit can change
+const EDITABLE_ENTRY_FIELDS = ["matchNumber", "matchId", "alliance", "allianceNotes"] as const;
 
 /**
- * Calculate scores from scouting data
+ * Parse the updatedSince query parameter used for incremental sync
  */
-function calculateScores(data: {
-  autoLeave: boolean;
-  autoClassifiedCount: number;
-  autoOverflowCount: number;
-  autoPatternCount: number;
-  teleopClassifiedCount: number;
-  teleopOverflowCount: number;
-  teleopDepotCount: number;
-  teleopPatternCount: number;
-  teleopMotifCount: number;
-  endgameBaseStatus: "NONE" | "PARTIAL" | "FULL";
-}) {
-  // Auto scoring
-  const autoScore =
-    (data.autoLeave ? 3 : 0) +
-    data.autoClassifiedCount * 3 +
-    data.autoOverflowCount * 1 +
-    data.autoPatternCount * 2;
-
-  // Teleop scoring
-  const teleopScore =
-    data.teleopClassifiedCount * 3 +
-    data.teleopOverflowCount * 1 +
-    data.teleopDepotCount * 1 +
-    data.teleopPatternCount * 2 +
-    data.teleopMotifCount * 2;
-
-  // Endgame scoring
-  const endgameScore =
-    data.endgameBaseStatus === "FULL"
-      ? 10
-      : data.endgameBaseStatus === "PARTIAL"
-      ? 5
-      : 0;
-
-  return {
-    autoScore,
-    teleopScore,
-    endgameScore,
-    totalScore: autoScore + teleopScore + endgameScore,
-  };
+function parseUpdatedSince(value: string | undefined): Date | null | "invalid" {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "invalid" : date;
 }
 
 /**
@@ -92,7 +96,7 @@ function calculateScores(data: {
  *
  * Returns the created partner entry, or null if deduction was not possible.
  */
-async function performAllianceDeduction(entryId: string): Promise<{
+async function performAllianceDeduction(entryId: string, actorId: string): Promise<{
   success: boolean;
   data?: unknown;
   error?: string;
@@ -135,9 +139,12 @@ async function performAllianceDeduction(entryId: string): Promise<{
 
   // 3. If FTC API didn't have scores, fall back to database Match records
   if (!matchScore) {
-    const dbMatch = await prisma.match.findFirst({
-      where: { eventCode, matchNumber },
-    });
+    // Prefer the match the entry was linked to by the event sync worker
+    const dbMatch = entry.matchId
+      ? await prisma.match.findUnique({ where: { id: entry.matchId } })
+      : await prisma.match.findFirst({
+          where: { eventCode, matchNumber },
+        });
 
     if (dbMatch && dbMatch.redScore !== null && dbMatch.blueScore !== null) {
       const isRed = alliance === "RED";
@@ -238,6 +245,11 @@ async function performAllianceDeduction(entryId: string): Promise<{
     return { success: false, error: "Could not identify partner team" };
   }
 
+  const game = getGameDefinition(entry.season);
+  if (!game) {
+    return { success: false, error: `Unsupported season ${entry.season}` };
+  }
+
   // 6. Check if a scouting entry already exists for the partner in this match
   let partnerTeam = await prisma.team.findUnique({
     where: { teamNumber: partnerTeamNumber },
@@ -304,18 +316,10 @@ async function performAllianceDeduction(entryId: string): Promise<{
       scoutedTeamId: partnerTeam.id,
       eventCode,
       matchNumber,
+      matchId: entry.matchId,
       alliance,
-      // Individual counts set to 0 since we only know totals
-      autoLeave: false,
-      autoClassifiedCount: 0,
-      autoOverflowCount: 0,
-      autoPatternCount: 0,
-      teleopClassifiedCount: 0,
-      teleopOverflowCount: 0,
-      teleopDepotCount: 0,
-      teleopPatternCount: 0,
-      teleopMotifCount: 0,
-      endgameBaseStatus: "NONE",
+      // Individual element values left at defaults since we only know totals
+      ...toEntryScoringFields(game, getDefaultScoringValues(game)),
       // Copy alliance notes from the original entry
       allianceNotes: entry.allianceNotes,
       // Deducted computed scores
@@ -323,6 +327,7 @@ async function performAllianceDeduction(entryId: string): Promise<{
       teleopScore: partnerTeleopScore,
       endgameScore: partnerEndgameScore,
       totalScore: partnerTotalScore,
+      deducted: true,
     },
     include: {
       scoutedTeam: true,
@@ -337,15 +342,87 @@ async function performAllianceDeduction(entryId: string): Promise<{
     },
   });
 
+  await recordAudit({
+    teamId: entry.scoutingTeamId,
+    actorId,
+    action: "scouting-entry.deduct",
+    targetId: partnerEntry.id,
+    after: {
+      ...partnerEntry,
+      scoutedTeam: undefined,
+      scoutingTeam: undefined,
+      scouter: undefined,
+      deductedFromId: entry.id,
+    },
+  });
+
+  await publishTeamEvent(entry.scoutingTeamId, "entry-created", {
+    id: partnerEntry.id,
+    eventCode,
+    matchNumber,
+    teamNumber: partnerTeamNumber,
+    deducted: true,
+  });
+
   return { success: true, data: partnerEntry };
 }
 
+/**
+ * Apply an update to a scouting entry, record the changed fields in the
+ * audit log and notify the team's live feed
+ */
+async function updateEntryWithAudit(
+  existing: ScoutingEntry,
+  updateData: Record<string, unknown>,
+  actorId: string,
+  audit: { action: "scouting-entry.update" | "scouting-entry.revert"; revertOfId?: string }
+) {
+  const updated = await prisma.scoutingEntry.update({
+    where: { id: existing.id },
+    data: updateData,
+    include: {
+      scoutedTeam: true,
+      scoutingTeam: true,
+      scouter: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+    },
+  });
+
+  const { before, after } = diffFields(existing, updateData);
+  if (Object.keys(after).length > 0) {
+    await recordAudit({
+      teamId: existing.scoutingTeamId,
+      actorId,
+      action: audit.action,
+      targetId: existing.id,
+      before,
+      after,
+      revertOfId: audit.revertOfId,
+    });
+  }
+
+  await publishTeamEvent(updated.scoutingTeamId, "entry-updated", {
+    id: updated.id,
+    eventCode: updated.eventCode,
+    matchNumber: updated.matchNumber,
+    teamNumber: updated.scoutedTeam.teamNumber,
+    authorId: actorId,
+  });
+
+  return updated;
+}
+
 /**
  * POST /api/scouting/entries
- * Submit a new scouting entry
+ * Submit a new scouting entry. Honours an Idempotency-Key header.
  */
-scouting.post("/entries", async (c) => {
-  const userId = c.req.header("X-User-Id");
+scouting.post("/entries", idempotency(), async (c) => {
+  const userId = c.get("userId");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
@@ -368,41 +445,57 @@ scouting.post("/entries", async (c) => {
       eventCode,
       matchNumber,
       alliance,
-      autoLeave,
-      autoClassifiedCount,
-      autoOverflowCount,
-      autoPatternCount,
-      teleopClassifiedCount,
-      teleopOverflowCount,
-      teleopDepotCount,
-      teleopPatternCount,
-      teleopMotifCount,
-      endgameBaseStatus,
       allianceNotes,
     } = parsed.data;
 
-    // Verify user is a member of the scouting team
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId: scoutingTeamId },
-      },
-    });
+    const game = getGameDefinition(parsed.data.season ?? CURRENT_SEASON);
+    if (!game) {
+      return c.json({ success: false, error: "Unsupported season" }, 400);
+    }
 
-    if (!membership) {
+    const scoringParsed = buildScoringSchema(game).safeParse(body);
+    if (!scoringParsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: scoringParsed.error.flatten() },
+        400
+      );
+    }
+    const scoringValues = scoringParsed.data as ScoringValues;
+
+    // Verify user is a member of the scouting team who may scout
+    const access = await getTeamAccess(userId, scoutingTeamId);
+
+    if (!access) {
       return c.json(
         { success: false, error: "Not a member of scouting team" },
         403
       );
     }
 
-    // FRIEND role members are view-only and cannot create scouting entries
-    if (membership.role === "FRIEND") {
+    if (!can(access, "scout")) {
       return c.json(
-        { success: false, error: "Friend members have view-only access" },
+        { success: false, error: VIEW_ONLY_ERROR },
         403
       );
     }
 
+    // Relaying another scout's entry needs the same right as editing it
+    const scouterId = parsed.data.scouterId ?? userId;
+    if (scouterId !== userId) {
+      if (!can(access, "edit-others-entries")) {
+        return c.json(
+          { success: false, error: "You cannot submit entries for other scouts" },
+          403
+        );
+      }
+      if (!can(await getTeamAccess(scouterId, scoutingTeamId), "scout")) {
+        return c.json(
+          { success: false, error: "The scouter is not a scout on this team" },
+          400
+        );
+      }
+    }
+
     // Get or create the scouted team
     let scoutedTeam = await prisma.team.findUnique({
       where: { teamNumber: scoutedTeamNumber },
@@ -428,7 +521,7 @@ scouting.post("/entries", async (c) => {
       event = await prisma.event.create({
         data: {
           eventCode,
-          season: 2025,
+          season: game.season,
           name: eventCode,
           startDate: new Date(),
           endDate: new Date(),
@@ -437,49 +530,46 @@ scouting.post("/entries", async (c) => {
     }
 
     // Calculate scores
-    const scores = calculateScores({
-      autoLeave,
-      autoClassifiedCount,
-      autoOverflowCount,
-      autoPatternCount,
-      teleopClassifiedCount,
-      teleopOverflowCount,
-      teleopDepotCount,
-      teleopPatternCount,
-      teleopMotifCount,
-      endgameBaseStatus,
-    });
+    const scores = calculateScores(game, scoringValues);
 
     // Create scouting entry
     const entry = await prisma.scoutingEntry.create({
       data: {
-        scouterId: userId,
+        scouterId,
         scoutingTeamId,
         scoutedTeamId: scoutedTeam.id,
         eventCode,
         matchNumber,
+        matchId: await findQualMatchId(eventCode, matchNumber),
         alliance,
-        autoLeave,
-        autoClassifiedCount,
-        autoOverflowCount,
-        autoPatternCount,
-        teleopClassifiedCount,
-        teleopOverflowCount,
-        teleopDepotCount,
-        teleopPatternCount,
-        teleopMotifCount,
-        endgameBaseStatus,
+        ...toEntryScoringFields(game, scoringValues),
         allianceNotes: allianceNotes || null,
         ...scores,
       },
     });
 
+    await recordAudit({
+      teamId: scoutingTeamId,
+      actorId: userId,
+      action: "scouting-entry.create",
+      targetId: entry.id,
+      after: entry,
+    });
+
+    await publishTeamEvent(scoutingTeamId, "entry-created", {
+      id: entry.id,
+      eventCode,
+      matchNumber,
+      teamNumber: scoutedTeamNumber,
+      authorId: userId,
+    });
+
     // Auto-deduct partner entry
     const autoDeduct = c.req.query("autoDeduct") !== "false";
     let deduction: { success: boolean; error?: string } = { success: false, error: "skipped" };
     if (autoDeduct) {
       try {
-        deduction = await performAllianceDeduction(entry.id);
+        deduction = await performAllianceDeduction(entry.id, userId);
       } catch (err) {
         console.error("Auto-deduction failed:", err);
         deduction = { success: false, error: err instanceof Error ? err.message : "Unknown error" };
@@ -492,6 +582,12 @@ scouting.post("/entries", async (c) => {
       deduction,
     });
   } catch (error) {
+    if ((error as { code?: string } | null)?.code === "P2002") {
+      return c.json(
+        { success: false, error: "You already submitted an entry for this team in this match" },
+        409
+      );
+    }
     console.error("Error creating scouting entry:", error);
     return c.json(
       { success: false, error: "An internal error occurred" },
@@ -503,13 +599,13 @@ scouting.post("/entries", async (c) => {
 /**
  * GET /api/scouting/entries
  * Get scouting entries with filters
+ * Query: updatedSince (ISO timestamp) returns only entries changed after it
  */
 scouting.get("/entries", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
   const scoutingTeamId = c.req.query("scoutingTeamId");
 
-  // Require authentication or a scoutingTeamId filter
-  if (!userId && !scoutingTeamId) {
+  if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
   }
 
@@ -533,22 +629,18 @@ scouting.get("/entries", async (c) => {
       where.scoutingTeamId = scoutingTeamId;
     }
 
-    // If not filtering by own team, only show public/event data
-    if (!scoutingTeamId && userId) {
-      // Get user's teams
-      const userTeams = await prisma.teamMember.findMany({
-        where: { userId },
-        select: { teamId: true },
-      });
-      const userTeamIds = userTeams.map((t) => t.teamId);
-
-      where.OR = [
-        { scoutingTeamId: { in: userTeamIds } },
-        { scoutingTeam: { sharingLevel: "PUBLIC" } },
-        // For EVENT level, would need to check if user is at same event
-      ];
+    const updatedSince = parseUpdatedSince(c.req.query("updatedSince"));
+    if (updatedSince === "invalid") {
+      return c.json({ success: false, error: "Invalid updatedSince timestamp" }, 400);
+    }
+    if (updatedSince) {
+      where.updatedAt = { gt: updatedSince };
     }
 
+    // Only show own, PUBLIC, and same-event EVENT data
+    const viewerTeams = await getViewerTeams(userId);
+    where.OR = await buildVisibilityFilter(viewerTeams, "scoutingTeam", eventCode);
+
     const limit = Math.min(parseInt(c.req.query("limit") || "10", 10), 50);
     const offset = parseInt(c.req.query("offset") || "0", 10);
 
@@ -592,7 +684,7 @@ scouting.get("/entries", async (c) => {
  * Get a specific scouting entry
  */
 scouting.get("/entries/:id", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
   const id = c.req.param("id");
 
   if (!userId) {
@@ -619,15 +711,17 @@ scouting.get("/entries/:id", async (c) => {
       return c.json({ success: false, error: "Entry not found" }, 404);
     }
 
-    // Check access: user must be a member of the scouting team, or team sharing is PUBLIC
-    if (entry.scoutingTeam.sharingLevel !== "PUBLIC") {
-      const membership = await prisma.teamMember.findFirst({
-        where: { userId, teamId: entry.scoutingTeamId },
-      });
+    // Check access: member of the scouting team, PUBLIC sharing, or EVENT
+    // sharing with one of the user's teams registered at the entry's event
+    const viewerTeams = await getViewerTeams(userId);
+    const canView = await canViewScoutingData(
+      viewerTeams,
+      entry.scoutingTeam,
+      entry.eventCode
+    );
 
-      if (!membership) {
-        return c.json({ success: false, error: "Access denied" }, 403);
-      }
+    if (!canView) {
+      return c.json({ success: false, error: "Access denied" }, 403);
     }
 
     return c.json({
@@ -648,7 +742,7 @@ scouting.get("/entries/:id", async (c) => {
  * Update an existing scouting entry
  */
 scouting.patch("/entries/:id", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
   const id = c.req.param("id");
 
   if (!userId) {
@@ -666,61 +760,131 @@ scouting.patch("/entries/:id", async (c) => {
     }
 
     // Verify user is a member of the scouting team that owns the entry
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId: existing.scoutingTeamId },
-      },
-    });
+    const access = await getTeamAccess(userId, existing.scoutingTeamId);
 
-    if (!membership) {
+    if (!access) {
       return c.json(
         { success: false, error: "Not a member of scouting team" },
         403
       );
     }
 
-    const body = (c as any).get("sanitizedBody");
+    // Scouts fix their own entries; other members' need edit-others-entries
+    const capability = existing.scouterId === userId ? "scout" : "edit-others-entries";
+    if (!can(access, capability)) {
+      return c.json(
+        { success: false, error: "Insufficient permissions" },
+        403
+      );
+    }
+
+    const body = (c as any).get("sanitizedBody") ?? {};
+
+    // Entries keep the game definition they were scouted under
+    const game = getGameDefinition(existing.season);
+    if (!game) {
+      return c.json({ success: false, error: "Unsupported season" }, 400);
+    }
+
+    const fieldsParsed = scoutingEntryUpdateSchema.safeParse(body);
+    if (!fieldsParsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: fieldsParsed.error.flatten() },
+        400
+      );
+    }
+    const fields = fieldsParsed.data;
 
     // Merge existing values with any provided updates
-    const merged = {
-      autoLeave: body.autoLeave ?? existing.autoLeave,
-      autoClassifiedCount: body.autoClassifiedCount ?? existing.autoClassifiedCount,
-      autoOverflowCount: body.autoOverflowCount ?? existing.autoOverflowCount,
-      autoPatternCount: body.autoPatternCount ?? existing.autoPatternCount,
-      teleopClassifiedCount: body.teleopClassifiedCount ?? existing.teleopClassifiedCount,
-      teleopOverflowCount: body.teleopOverflowCount ?? existing.teleopOverflowCount,
-      teleopDepotCount: body.teleopDepotCount ?? existing.teleopDepotCount,
-      teleopPatternCount: body.teleopPatternCount ?? existing.teleopPatternCount,
-      teleopMotifCount: body.teleopMotifCount ?? existing.teleopMotifCount,
-      endgameBaseStatus: body.endgameBaseStatus ?? existing.endgameBaseStatus,
-    };
+    const existingValues = getEntryScoringValues(game, existing);
+    const merged: ScoringValues = {};
+    for (const el of game.elements) {
+      merged[el.key] = body[el.key] ?? existingValues[el.key];
+    }
+
+    const scoringParsed = buildScoringSchema(game).safeParse(merged);
+    if (!scoringParsed.success) {
+      return c.json(
+        { success: false, error: "Validation failed", details: scoringParsed.error.flatten() },
+        400
+      );
+    }
 
     // Recalculate scores with merged data
-    const scores = calculateScores(merged);
+    const scores = calculateScores(game, scoringParsed.data as ScoringValues);
 
     // Build the update payload (scoring fields + optional match info)
     const updateData: Record<string, unknown> = {
-      ...merged,
+      ...toEntryScoringFields(game, scoringParsed.data as ScoringValues),
       ...scores,
     };
 
-    if (body.matchNumber !== undefined) {
-      updateData.matchNumber = body.matchNumber;
+    if (fields.matchNumber !== undefined) {
+      updateData.matchNumber = fields.matchNumber;
+      updateData.matchId = await findQualMatchId(existing.eventCode, fields.matchNumber);
+    }
+    if (fields.alliance !== undefined) {
+      updateData.alliance = fields.alliance;
     }
-    if (body.alliance !== undefined) {
-      updateData.alliance = body.alliance;
+    if (fields.allianceNotes !== undefined) {
+      updateData.allianceNotes = fields.allianceNotes || null;
     }
-    if (body.allianceNotes !== undefined) {
-      updateData.allianceNotes = body.allianceNotes || null;
+
+    const updated = await updateEntryWithAudit(existing, updateData, userId, {
+      action: "scouting-entry.update",
+    });
+
+    return c.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    if ((error as { code?: string } | null)?.code === "P2002") {
+      return c.json(
+        { success: false, error: "Another entry already exists for this team in that match" },
+        409
+      );
     }
+    console.error("Error updating scouting entry:", error);
+    return c.json(
+      { success: false, error: "Failed to update scouting entry" },
+      500
+    );
+  }
+});
 
-    const updated = await prisma.scoutingEntry.update({
+/**
+ * GET /api/scouting/entries/:id/history
+ * The entry's audit trail, newest first. Visible to members of its scouting
+ * team who may view scouting data.
+ */
+scouting.get("/entries/:id/history", async (c) => {
+  const userId = c.get("userId");
+  const id = c.req.param("id");
+
+  if (!userId) {
+    return c.json({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const entry = await prisma.scoutingEntry.findUnique({
       where: { id },
-      data: updateData,
+      select: { scoutingTeamId: true },
+    });
+
+    if (!entry) {
+      return c.json({ success: false, error: "Entry not found" }, 404);
+    }
+
+    const access = await getTeamAccess(userId, entry.scoutingTeamId);
+    if (!can(access, "view-scouting")) {
+      return c.json({ success: false, error: "Access denied" }, 403);
+    }
+
+    const history = await prisma.auditLog.findMany({
+      where: { targetType: "scouting-entry", targetId: id },
       include: {
-        scoutedTeam: true,
-        scoutingTeam: true,
-        scouter: {
+        actor: {
           select: {
             id: true,
             name: true,
@@ -728,6 +892,106 @@ scouting.patch("/entries/:id", async (c) => {
           },
         },
       },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return c.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching entry history:", error);
+    return c.json(
+      { success: false, error: "Failed to fetch entry history" },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/scouting/entries/:id/revert
+ * Undo one recorded edit of an entry by restoring the values it replaced.
+ * Needs the same permission as editing the entry; the revert is itself
+ * recorded in the audit log.
+ */
+scouting.post("/entries/:id/revert", async (c) => {
+  const userId = c.get("userId");
+  const id = c.req.param("id");
+
+  if (!userId) {
+    return c.json({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  const body = (c as any).get("sanitizedBody");
+  const parsed = revertEntrySchema.safeParse(body);
+
+  if (!parsed.success) {
+    return c.json(
+      { success: false, error: "Validation failed", details: parsed.error.flatten() },
+      400
+    );
+  }
+
+  try {
+    const existing = await prisma.scoutingEntry.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return c.json({ success: false, error: "Entry not found" }, 404);
+    }
+
+    const access = await getTeamAccess(userId, existing.scoutingTeamId);
+
+    if (!access) {
+      return c.json(
+        { success: false, error: "Not a member of scouting team" },
+        403
+      );
+    }
+
+    const capability = existing.scouterId === userId ? "scout" : "edit-others-entries";
+    if (!can(access, capability)) {
+      return c.json(
+        { success: false, error: "Insufficient permissions" },
+        403
+      );
+    }
+
+    const change = await prisma.auditLog.findUnique({
+      where: { id: parsed.data.auditId },
+    });
+
+    if (
+      !change ||
+      change.targetId !== id ||
+      (change.action !== "scouting-entry.update" && change.action !== "scouting-entry.revert")
+    ) {
+      return c.json({ success: false, error: "Edit not found for this entry" }, 404);
+    }
+
+    const game = getGameDefinition(existing.season);
+    if (!game) {
+      return c.json({ success: false, error: "Unsupported season" }, 400);
+    }
+
+    // Overlay the replaced values on the current entry and rescore, so
+    // later edits to other fields are kept
+    const before = (change.before ?? {}) as Record<string, unknown>;
+    const values = getEntryScoringValues(game, { ...existing, ...before });
+    const updateData: Record<string, unknown> = {
+      ...toEntryScoringFields(game, values),
+      ...calculateScores(game, values),
+    };
+    for (const field of EDITABLE_ENTRY_FIELDS) {
+      if (field in before) {
+        updateData[field] = before[field];
+      }
+    }
+
+    const updated = await updateEntryWithAudit(existing, updateData, userId, {
+      action: "scouting-entry.revert",
+      revertOfId: change.id,
     });
 
     return c.json({
@@ -735,9 +999,15 @@ scouting.patch("/entries/:id", async (c) => {
       data: updated,
     });
   } catch (error) {
-    console.error("Error updating scouting entry:", error);
+    if ((error as { code?: string } | null)?.code === "P2002") {
+      return c.json(
+        { success: false, error: "Another entry already exists for this team in that match" },
+        409
+      );
+    }
+    console.error("Error reverting scouting entry:", error);
     return c.json(
-      { success: false, error: "Failed to update scouting entry" },
+      { success: false, error: "Failed to revert scouting entry" },
       500
     );
   }
@@ -747,9 +1017,10 @@ scouting.patch("/entries/:id", async (c) => {
  * POST /api/scouting/entries/:id/deduct-partner
  * Auto-generate a scouting entry for the alliance partner by deducting
  * the scouted robot's scores from the FTC API alliance totals.
+ * Honours an Idempotency-Key header.
  */
-scouting.post("/entries/:id/deduct-partner", async (c) => {
-  const userId = c.req.header("X-User-Id");
+scouting.post("/entries/:id/deduct-partner", idempotency(), async (c) => {
+  const userId = c.get("userId");
   const id = c.req.param("id");
 
   if (!userId) {
@@ -766,21 +1037,24 @@ scouting.post("/entries/:id/deduct-partner", async (c) => {
       return c.json({ success: false, error: "Entry not found" }, 404);
     }
 
-    // Verify user is a member of the scouting team
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId: entry.scoutingTeamId },
-      },
-    });
+    // Verify user is a member of the scouting team who may scout
+    const access = await getTeamAccess(userId, entry.scoutingTeamId);
 
-    if (!membership) {
+    if (!access) {
       return c.json(
         { success: false, error: "Not a member of scouting team" },
         403
       );
     }
 
-    const result = await performAllianceDeduction(id);
+    if (!can(access, "scout")) {
+      return c.json(
+        { success: false, error: VIEW_ONLY_ERROR },
+        403
+      );
+    }
+
+    const result = await performAllianceDeduction(id, userId);
 
     if (!result.success) {
       return c.json(
@@ -808,7 +1082,7 @@ scouting.post("/entries/:id/deduct-partner", async (c) => {
  * Called automatically when match data may have become available.
  */
 scouting.post("/retry-deductions", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
@@ -825,20 +1099,23 @@ scouting.post("/retry-deductions", async (c) => {
       );
     }
 
-    // Verify user is a member of the scouting team
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId: scoutingTeamId },
-      },
-    });
+    // Verify user is a member of the scouting team who may scout
+    const access = await getTeamAccess(userId, scoutingTeamId);
 
-    if (!membership) {
+    if (!access) {
       return c.json(
         { success: false, error: "Not a member of scouting team" },
         403
       );
     }
 
+    if (!can(access, "scout")) {
+      return c.json(
+        { success: false, error: VIEW_ONLY_ERROR },
+        403
+      );
+    }
+
     // Find all entries for this team at this event
     const entries = await prisma.scoutingEntry.findMany({
       where: { eventCode, scoutingTeamId },
@@ -849,7 +1126,7 @@ scouting.post("/retry-deductions", async (c) => {
     let failed = 0;
 
     for (const entry of entries) {
-      const result = await performAllianceDeduction(entry.id);
+      const result = await performAllianceDeduction(entry.id, userId);
       if (result.success) {
         deducted++;
       } else {
@@ -872,10 +1149,10 @@ scouting.post("/retry-deductions", async (c) => {
 
 /**
  * POST /api/scouting/notes
- * Add a qualitative note about a team
+ * Add a qualitative note about a team. Honours an Idempotency-Key header.
  */
-scouting.post("/notes", async (c) => {
-  const userId = c.req.header("X-User-Id");
+scouting.post("/notes", idempotency(), async (c) => {
+  const userId = c.get("userId");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
@@ -904,24 +1181,19 @@ scouting.post("/notes", async (c) => {
       generalNotes,
     } = parsed.data;
 
-    // Verify user is a member of the noting team
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId: notingTeamId },
-      },
-    });
+    // Verify user is a member of the noting team who may scout
+    const access = await getTeamAccess(userId, notingTeamId);
 
-    if (!membership) {
+    if (!access) {
       return c.json(
         { success: false, error: "Not a member of noting team" },
         403
       );
     }
 
-    // FRIEND role members are view-only and cannot create notes
-    if (membership.role === "FRIEND") {
+    if (!can(access, "scout")) {
       return c.json(
-        { success: false, error: "Friend members have view-only access" },
+        { success: false, error: VIEW_ONLY_ERROR },
         403
       );
     }
@@ -956,7 +1228,7 @@ scouting.post("/notes", async (c) => {
             event = await prisma.event.create({
               data: {
                 eventCode,
-                season: 2025,
+                season: CURRENT_SEASON,
                 name: ftcEvent.name,
                 startDate: new Date(ftcEvent.dateStart),
                 endDate: new Date(ftcEvent.dateEnd),
@@ -977,7 +1249,7 @@ scouting.post("/notes", async (c) => {
           event = await prisma.event.create({
             data: {
               eventCode,
-              season: 2025,
+              season: CURRENT_SEASON,
               name: eventCode,
               startDate: new Date(),
               endDate: new Date(),
@@ -1002,11 +1274,32 @@ scouting.post("/notes", async (c) => {
       },
     });
 
+    await recordAudit({
+      teamId: notingTeamId,
+      actorId: userId,
+      action: "scouting-note.create",
+      targetId: note.id,
+      after: note,
+    });
+
+    await publishTeamEvent(notingTeamId, "note-created", {
+      id: note.id,
+      eventCode: note.eventCode,
+      teamNumber: aboutTeamNumber,
+      authorId: userId,
+    });
+
     return c.json({
       success: true,
       data: note,
     });
   } catch (error) {
+    if ((error as { code?: string } | null)?.code === "P2002") {
+      return c.json(
+        { success: false, error: "You already wrote a note about this team at this event" },
+        409
+      );
+    }
     console.error("Error creating scouting note:", error);
     return c.json(
       { success: false, error: "Failed to create note" },
@@ -1018,28 +1311,24 @@ scouting.post("/notes", async (c) => {
 /**
  * GET /api/scouting/notes
  * Get scouting notes with filters
+ * Query: updatedSince (ISO timestamp) returns only notes changed after it
  */
 scouting.get("/notes", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
   }
 
   try {
-    // Only return notes from teams the user is a member of
-    const userTeams = await prisma.teamMember.findMany({
-      where: { userId },
-      select: { teamId: true },
-    });
-    const userTeamIds = userTeams.map((t) => t.teamId);
-
     const aboutTeamNumber = c.req.query("aboutTeamNumber");
     const eventCode = c.req.query("eventCode");
     const notingTeamId = c.req.query("notingTeamId");
 
+    // Only return notes the user may see under each noting team's sharing level
+    const viewerTeams = await getViewerTeams(userId, "view-notes");
     const where: Record<string, unknown> = {
-      notingTeamId: { in: userTeamIds },
+      OR: await buildVisibilityFilter(viewerTeams, "notingTeam", eventCode),
     };
 
     if (aboutTeamNumber) {
@@ -1052,14 +1341,19 @@ scouting.get("/notes", async (c) => {
       where.eventCode = eventCode;
     }
 
-    // If a specific notingTeamId is requested, intersect with user's teams
+    // If a specific notingTeamId is requested, intersect with visible notes
     if (notingTeamId) {
-      if (!userTeamIds.includes(notingTeamId)) {
-        return c.json({ success: true, data: [] });
-      }
       where.notingTeamId = notingTeamId;
     }
 
+    const updatedSince = parseUpdatedSince(c.req.query("updatedSince"));
+    if (updatedSince === "invalid") {
+      return c.json({ success: false, error: "Invalid updatedSince timestamp" }, 400);
+    }
+    if (updatedSince) {
+      where.updatedAt = { gt: updatedSince };
+    }
+
     const limit = Math.min(parseInt(c.req.query("limit") || "10", 10), 50);
     const offset = parseInt(c.req.query("offset") || "0", 10);
 
@@ -1103,7 +1397,7 @@ scouting.get("/notes", async (c) => {
  * Get aggregated scouting data for a team
  */
 scouting.get("/team-summary/:teamNumber", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
   const teamNumber = parseInt(c.req.param("teamNumber"), 10);
   const eventCode = c.req.query("eventCode");
 
@@ -1117,11 +1411,7 @@ scouting.get("/team-summary/:teamNumber", async (c) => {
 
   try {
     // Get user's teams to filter entries
-    const userTeams = await prisma.teamMember.findMany({
-      where: { userId },
-      select: { teamId: true },
-    });
-    const userTeamIds = userTeams.map((t) => t.teamId);
+    const viewerTeams = await getViewerTeams(userId);
 
     const team = await prisma.team.findUnique({
       where: { teamNumber },
@@ -1133,10 +1423,7 @@ scouting.get("/team-summary/:teamNumber", async (c) => {
 
     const where: Record<string, unknown> = {
       scoutedTeamId: team.id,
-      OR: [
-        { scoutingTeamId: { in: userTeamIds } },
-        { scoutingTeam: { sharingLevel: "PUBLIC" } },
-      ],
+      OR: await buildVisibilityFilter(viewerTeams, "scoutingTeam", eventCode),
     };
 
     if (eventCode) {
@@ -1158,31 +1445,15 @@ scouting.get("/team-summary/:teamNumber", async (c) => {
       });
     }
 
-    // Calculate averages
-    const avg = (arr: number[]) => {
-      const validNums = arr.filter(n => Number.isFinite(n));
-      return validNums.length > 0 ? validNums.reduce((a, b) => a + b, 0) / validNums.length : 0;
-    };
-
-    const averages = {
-      autoScore: avg(entries.map((e) => e.autoScore)),
-      teleopScore: avg(entries.map((e) => e.teleopScore)),
-      endgameScore: avg(entries.map((e) => e.endgameScore)),
-      totalScore: avg(entries.map((e) => e.totalScore)),
-      autoLeaveRate: avg(entries.map((e) => (e.autoLeave ? 1 : 0))),
-      autoClassified: avg(entries.map((e) => e.autoClassifiedCount)),
-      autoOverflow: avg(entries.map((e) => e.autoOverflowCount)),
-      teleopClassified: avg(entries.map((e) => e.teleopClassifiedCount)),
-      teleopOverflow: avg(entries.map((e) => e.teleopOverflowCount)),
-      teleopDepot: avg(entries.map((e) => e.teleopDepotCount)),
-    };
+    // Several scouts of one team recording the same robot-match count once
+    const records = reconcileEntries(entries, await loadConsensusContext(entries));
 
     return c.json({
       success: true,
       data: {
         teamNumber,
-        matchCount: entries.length,
-        averages,
+        ...summarizeRecords(records),
+        entryCount: entries.length,
         entries,
       },
     });
@@ -1196,35 +1467,96 @@ scouting.get("/team-summary/:teamNumber", async (c) => {
 });
 
 /**
- * GET /api/scouting/team-stats/:teamId
- * Get scouting stats for a user's team (matches scouted, events, etc.)
+ * GET /api/scouting/event-summary/:eventCode
+ * Team-summary figures for every team scouted at an event, without the raw
+ * entries. Lets offline event snapshots cover the whole event in one request.
  */
-scouting.get("/team-stats/:teamId", async (c) => {
-  const teamId = c.req.param("teamId");
-  const userId = c.req.header("X-User-Id");
+scouting.get("/event-summary/:eventCode", async (c) => {
+  const userId = c.get("userId");
+  const eventCode = c.req.param("eventCode");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
   }
 
+  if (!/^[A-Za-z0-9]+$/.test(eventCode)) {
+    return c.json({ success: false, error: "Invalid event code" }, 400);
+  }
+
   try {
-    // Verify user is a member of the team
-    const membership = await prisma.teamMember.findUnique({
+    const viewerTeams = await getViewerTeams(userId);
+
+    const entries = await prisma.scoutingEntry.findMany({
       where: {
-        userId_teamId: { userId, teamId },
+        eventCode,
+        OR: await buildVisibilityFilter(viewerTeams, "scoutingTeam", eventCode),
       },
+      include: { scoutedTeam: { select: { teamNumber: true } } },
     });
 
-    if (!membership) {
-      return c.json(
-        { success: false, error: "Not a member of this team" },
-        403
-      );
+    const summaries = await summarizeTeams(entries);
+
+    return c.json({
+      success: true,
+      data: {
+        eventCode,
+        teams: summaries,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching event summary:", error);
+    return c.json(
+      { success: false, error: "Failed to fetch event summary" },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/scouting/team-stats/:teamId
+ * Get scouting stats for a team (matches scouted, events, etc.)
+ * Non-members only see what the team's sharing level allows
+ */
+scouting.get("/team-stats/:teamId", async (c) => {
+  const teamId = c.req.param("teamId");
+  const userId = c.get("userId");
+
+  if (!userId) {
+    return c.json({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  try {
+    // Members who may view scouting data see everything; others only what
+    // the team's sharing level allows
+    const access = await getTeamAccess(userId, teamId);
+
+    let eventFilter: Record<string, unknown> = {};
+
+    if (!can(access, "view-scouting")) {
+      const team = await prisma.team.findUnique({
+        where: { id: teamId },
+      });
+
+      if (!team || team.sharingLevel === "PRIVATE") {
+        return c.json(
+          { success: false, error: "Not a member of this team" },
+          403
+        );
+      }
+
+      if (team.sharingLevel === "EVENT") {
+        // Only count data from events both teams are registered at
+        const shared = await getSharedEventRosters(await getViewerTeams(userId));
+        const sharedEventCodes = [...shared]
+          .filter(([, roster]) => roster.includes(team.teamNumber))
+          .map(([code]) => code);
+        eventFilter = { eventCode: { in: sharedEventCodes } };
+      }
     }
 
     // Get scouting entries for this team
     const entries = await prisma.scoutingEntry.findMany({
-      where: { scoutingTeamId: teamId },
+      where: { scoutingTeamId: teamId, ...eventFilter },
       select: {
         eventCode: true,
         matchNumber: true,
@@ -1239,7 +1571,7 @@ scouting.get("/team-stats/:teamId", async (c) => {
 
     // Get scouting notes count
     const notesCount = await prisma.scoutingNote.count({
-      where: { notingTeamId: teamId },
+      where: { notingTeamId: teamId, ...eventFilter },
     });
 
     return c.json({
@@ -1,8 +1,10 @@
 import { Hono } from "hono";
 import { prisma } from "@ftcmetrics/db";
 import { getFTCApi } from "../lib/ftc-api";
+import type { AuthVariables } from "../middleware/auth";
 
-const teams = new Hono();
+// userId is only set when optionalAuthMiddleware found a session or token
+const teams = new Hono<{ Variables: Partial<AuthVariables> }>();
 
 const TEAM_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 const EVENT_SUMMARY_CACHE_TTL = 60 * 60 * 1000; // 1 hour
@@ -248,7 +250,7 @@ teams.get("/:teamNumber/profile", async (c) => {
     }
 
     // Check visibility
-    const requesterId = c.req.header("X-User-Id");
+    const requesterId = c.get("userId");
     const isMember = requesterId
       ? team.members.some((m) => m.userId === requesterId)
       : false;
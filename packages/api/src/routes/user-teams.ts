@@ -1,6 +1,32 @@
 import { Hono } from "hono";
-import { prisma } from "@ftcmetrics/db";
+import { z } from "zod";
+import { prisma, Prisma } from "@ftcmetrics/db";
+import {
+  CAPABILITY_INFO,
+  CONFIGURABLE_ROLES,
+  DEFAULT_ROLE_CAPABILITIES,
+  MEMBER_ROLES,
+  TEAM_CAPABILITIES,
+  isCapabilityConfigurable,
+  normalizePermissionOverrides,
+  resolveCapabilities,
+  type TeamCapability,
+} from "@ftcmetrics/shared";
 import { getFTCApi } from "../lib/ftc-api";
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, diffFields, recordAudit } from "../lib/audit";
+import {
+  requireTeamAdmin,
+  requireTeamCapability,
+  requireTeamMembership,
+  TEAM_ADMIN_ROLES,
+  type AuthVariables,
+} from "../middleware/auth";
+import picklists from "./picklists";
+import assignments from "./assignments";
+import consensus from "./consensus";
+import accuracy from "./accuracy";
+import exportRoutes from "./export";
+import imports from "./import";
 import { randomUUID, randomBytes } from "crypto";
 import path from "path";
 import fs from "fs";
@@ -22,7 +48,20 @@ const MIME_TO_EXT: Record<string, string> = {
   "video/quicktime": ".mov",
 };
 
-const userTeams = new Hono();
+const userTeams = new Hono<{ Variables: AuthVariables }>();
+
+// Alliance selection pick lists
+userTeams.route("/:teamId/picklists", picklists);
+// Scouting assignment rotations
+userTeams.route("/:teamId/assignments", assignments);
+// Multi-scout consensus and conflict resolution
+userTeams.route("/:teamId/consensus", consensus);
+// Scout accuracy against official scores
+userTeams.route("/:teamId/accuracy", accuracy);
+// Bulk data export
+userTeams.route("/:teamId/export", exportRoutes);
+// Bulk CSV import
+userTeams.route("/:teamId/imports", imports);
 
 /**
  * Helper to generate random invite code
@@ -31,12 +70,46 @@ function generateInviteCode(): string {
   return randomBytes(12).toString("base64url").slice(0, 16);
 }
 
+const roleOverridesSchema = z.partialRecord(z.enum(TEAM_CAPABILITIES), z.boolean());
+
+export const permissionOverridesSchema = z
+  .object({
+    LEADER: roleOverridesSchema.optional(),
+    STUDENT: roleOverridesSchema.optional(),
+    FRIEND: roleOverridesSchema.optional(),
+  })
+  .strict()
+  .refine(
+    (overrides) =>
+      Object.keys(overrides.FRIEND ?? {}).every((capability) =>
+        isCapabilityConfigurable("FRIEND", capability as TeamCapability)
+      ),
+    { message: "Friend members can only be given read-only capabilities", path: ["FRIEND"] }
+  );
+
+/**
+ * Helper: the team's permission matrix as shown in settings
+ */
+function describePermissions(stored: unknown) {
+  const overrides = normalizePermissionOverrides(stored);
+  return {
+    roles: MEMBER_ROLES,
+    configurableRoles: CONFIGURABLE_ROLES,
+    capabilities: TEAM_CAPABILITIES.map((key) => ({ key, ...CAPABILITY_INFO[key] })),
+    defaults: DEFAULT_ROLE_CAPABILITIES,
+    overrides,
+    effective: Object.fromEntries(
+      MEMBER_ROLES.map((role) => [role, resolveCapabilities(role, overrides)])
+    ),
+  };
+}
+
 /**
  * GET /api/user-teams
  * Get all teams the current user is a member of
  */
 userTeams.get("/", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
@@ -55,6 +128,7 @@ userTeams.get("/", async (c) => {
       data: memberships.map((m) => ({
         teamId: m.teamId,
         role: m.role,
+        capabilities: resolveCapabilities(m.role, m.team.permissions),
         joinedAt: m.joinedAt,
         team: m.team,
       })),
@@ -70,7 +144,7 @@ userTeams.get("/", async (c) => {
  * Create a new team (claim an FTC team number)
  */
 userTeams.post("/", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
@@ -128,6 +202,14 @@ userTeams.post("/", async (c) => {
       },
     });
 
+    await recordAudit({
+      teamId: team.id,
+      actorId: userId,
+      action: "team.create",
+      targetId: team.id,
+      after: { teamNumber: team.teamNumber, name: team.name },
+    });
+
     return c.json({
       success: true,
       data: team,
@@ -142,26 +224,11 @@ userTeams.post("/", async (c) => {
  * GET /api/user-teams/:teamId
  * Get a specific team's details
  */
-userTeams.get("/:teamId", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.get("/:teamId", requireTeamMembership(), async (c) => {
   const teamId = c.req.param("teamId");
-
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
-  }
+  const membership = c.get("membership")!;
 
   try {
-    // Check if user is a member
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId },
-      },
-    });
-
-    if (!membership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
-    }
-
     const team = await prisma.team.findUnique({
       where: { id: teamId },
       include: {
@@ -192,11 +259,16 @@ userTeams.get("/:teamId", async (c) => {
       return c.json({ success: false, error: "Team not found" }, 404);
     }
 
+    const capabilities = c.get("capabilities") ?? [];
+
     return c.json({
       success: true,
       data: {
         ...team,
+        // Invite codes let anyone join, so only show them to those who may hand them out
+        invites: capabilities.includes("manage-invites") ? team.invites : [],
         userRole: membership.role,
+        capabilities,
       },
     });
   } catch (error) {
@@ -210,34 +282,11 @@ userTeams.get("/:teamId", async (c) => {
  * PATCH /api/user-teams/:teamId
  * Update team settings (MENTOR/LEADER only)
  */
-userTeams.patch("/:teamId", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.patch("/:teamId", requireTeamAdmin(), async (c) => {
+  const userId = c.get("userId");
   const teamId = c.req.param("teamId");
 
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
-  }
-
   try {
-    // Check if user is a team member with admin privileges
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId },
-      },
-    });
-
-    if (!membership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
-    }
-
-    // Only MENTOR or LEADER can update team settings
-    if (membership.role !== "MENTOR" && membership.role !== "LEADER") {
-      return c.json(
-        { success: false, error: "Insufficient permissions" },
-        403
-      );
-    }
-
     const body = (c as any).get("sanitizedBody");
     const { name, sharingLevel, bio, robotName, robotDesc, drivetrainType, links } = body;
 
@@ -274,11 +323,31 @@ userTeams.patch("/:teamId", async (c) => {
       }
     }
 
+    const existing = await prisma.team.findUnique({
+      where: { id: teamId },
+    });
+
+    if (!existing) {
+      return c.json({ success: false, error: "Team not found" }, 404);
+    }
+
     const team = await prisma.team.update({
       where: { id: teamId },
       data: updateData,
     });
 
+    const { before, after } = diffFields(existing, updateData);
+    if (Object.keys(after).length > 0) {
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "team.update",
+        targetId: teamId,
+        before,
+        after,
+      });
+    }
+
     return c.json({
       success: true,
       data: team,
@@ -290,37 +359,163 @@ userTeams.patch("/:teamId", async (c) => {
 });
 
 /**
- * POST /api/user-teams/:teamId/invites
- * Create an invite code (MENTOR/LEADER only)
+ * GET /api/user-teams/:teamId/permissions
+ * The team's role-to-capability matrix: defaults, overrides and the result
  */
-userTeams.post("/:teamId/invites", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.get("/:teamId/permissions", requireTeamMembership(), async (c) => {
   const teamId = c.req.param("teamId");
 
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
+  try {
+    const team = await prisma.team.findUnique({
+      where: { id: teamId },
+      select: { permissions: true },
+    });
+
+    if (!team) {
+      return c.json({ success: false, error: "Team not found" }, 404);
+    }
+
+    return c.json({ success: true, data: describePermissions(team.permissions) });
+  } catch (error) {
+    console.error("Error fetching team permissions:", error);
+    return c.json({ success: false, error: "Failed to fetch permissions" }, 500);
+  }
+});
+
+/**
+ * PUT /api/user-teams/:teamId/permissions
+ * Replace the team's capability overrides (MENTOR only). MENTOR always
+ * keeps every capability; FRIEND can only be given read-only ones.
+ */
+userTeams.put("/:teamId/permissions", requireTeamMembership("teamId", ["MENTOR"]), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId");
+  const body = (c as any).get("sanitizedBody");
+  const parsed = permissionOverridesSchema.safeParse(body?.overrides ?? {});
+
+  if (!parsed.success) {
+    return c.json(
+      { success: false, error: "Validation failed", details: parsed.error.flatten() },
+      400
+    );
   }
 
   try {
-    // Check if user is a team member with admin privileges
-    const membership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId },
-      },
+    const existing = await prisma.team.findUnique({
+      where: { id: teamId },
+      select: { permissions: true },
     });
 
-    if (!membership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
+    if (!existing) {
+      return c.json({ success: false, error: "Team not found" }, 404);
     }
 
-    // Only MENTOR or LEADER can create invites
-    if (membership.role !== "MENTOR" && membership.role !== "LEADER") {
-      return c.json(
-        { success: false, error: "Insufficient permissions" },
-        403
-      );
+    const overrides = normalizePermissionOverrides(parsed.data);
+    const team = await prisma.team.update({
+      where: { id: teamId },
+      data: { permissions: Object.keys(overrides).length > 0 ? overrides : Prisma.DbNull },
+      select: { permissions: true },
+    });
+
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "team.permissions",
+      targetId: teamId,
+      before: normalizePermissionOverrides(existing.permissions),
+      after: overrides,
+    });
+
+    return c.json({ success: true, data: describePermissions(team.permissions) });
+  } catch (error) {
+    console.error("Error updating team permissions:", error);
+    return c.json({ success: false, error: "Failed to update permissions" }, 500);
+  }
+});
+
+/**
+ * GET /api/user-teams/:teamId/audit
+ * The team's audit log, newest first (MENTOR/LEADER only)
+ * Query: action (comma-separated), targetType, targetId, actorId,
+ * since/until (ISO timestamps), limit (max 200), offset
+ */
+userTeams.get("/:teamId/audit", requireTeamAdmin(), async (c) => {
+  const teamId = c.req.param("teamId");
+  const { action, targetType, targetId, actorId, since, until } = c.req.query();
+
+  const where: Prisma.AuditLogWhereInput = { teamId };
+
+  if (action) {
+    const actions = action.split(",");
+    if (!actions.every((a) => (AUDIT_ACTIONS as readonly string[]).includes(a))) {
+      return c.json({ success: false, error: "Invalid action filter" }, 400);
+    }
+    where.action = { in: actions };
+  }
+  if (targetType) {
+    if (!(AUDIT_TARGET_TYPES as string[]).includes(targetType)) {
+      return c.json({ success: false, error: "Invalid targetType filter" }, 400);
     }
+    where.targetType = targetType;
+  }
+  if (targetId) where.targetId = targetId;
+  if (actorId) where.actorId = actorId;
+
+  const sinceDate = since ? new Date(since) : null;
+  const untilDate = until ? new Date(until) : null;
+  if ((sinceDate && isNaN(sinceDate.getTime())) || (untilDate && isNaN(untilDate.getTime()))) {
+    return c.json({ success: false, error: "Invalid since/until timestamp" }, 400);
+  }
+  if (sinceDate || untilDate) {
+    where.createdAt = {
+      ...(sinceDate && { gte: sinceDate }),
+      ...(untilDate && { lte: untilDate }),
+    };
+  }
+
+  const limit = Math.min(parseInt(c.req.query("limit") || "50", 10), 200);
+  const offset = parseInt(c.req.query("offset") || "0", 10);
+
+  try {
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          actor: {
+            select: {
+              id: true,
+              name: true,
+              image: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
 
+    return c.json({
+      success: true,
+      data: entries,
+      total,
+    });
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return c.json({ success: false, error: "Failed to fetch audit log" }, 500);
+  }
+});
+
+/**
+ * POST /api/user-teams/:teamId/invites
+ * Create an invite code (requires manage-invites)
+ */
+userTeams.post("/:teamId/invites", requireTeamCapability("manage-invites"), async (c) => {
+  const userId = c.get("userId");
+  const teamId = c.req.param("teamId");
+
+  try {
     // Generate unique code
     let code = generateInviteCode();
     let attempts = 0;
@@ -344,6 +539,15 @@ userTeams.post("/:teamId/invites", async (c) => {
       },
     });
 
+    // The code itself is left out: it is a credential for joining the team
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "invite.create",
+      targetId: invite.id,
+      after: { maxUses: invite.maxUses, expiresAt: invite.expiresAt },
+    });
+
     return c.json({
       success: true,
       data: invite,
@@ -359,7 +563,7 @@ userTeams.post("/:teamId/invites", async (c) => {
  * Join a team using an invite code
  */
 userTeams.post("/join", async (c) => {
-  const userId = c.req.header("X-User-Id");
+  const userId = c.get("userId");
 
   if (!userId) {
     return c.json({ success: false, error: "Unauthorized" }, 401);
@@ -406,7 +610,7 @@ userTeams.post("/join", async (c) => {
     }
 
     // Add as student (default role)
-    await prisma.teamMember.create({
+    const member = await prisma.teamMember.create({
       data: {
         userId,
         teamId: invite.teamId,
@@ -420,6 +624,14 @@ userTeams.post("/join", async (c) => {
       data: { uses: { increment: 1 } },
     });
 
+    await recordAudit({
+      teamId: invite.teamId,
+      actorId: userId,
+      action: "member.join",
+      targetId: member.id,
+      after: { userId, role: member.role, inviteId: invite.id },
+    });
+
     return c.json({
       success: true,
       data: {
@@ -436,29 +648,16 @@ userTeams.post("/join", async (c) => {
 
 /**
  * DELETE /api/user-teams/:teamId/members/:memberId
- * Remove a member from team (MENTOR/LEADER only, or self)
+ * Remove a member from team (requires manage-members, or self).
+ * Only a mentor may remove a mentor.
  */
-userTeams.delete("/:teamId/members/:memberId", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.delete("/:teamId/members/:memberId", requireTeamMembership(), async (c) => {
+  const userId = c.get("userId");
   const teamId = c.req.param("teamId");
+  const capabilities = c.get("capabilities") ?? [];
   const memberId = c.req.param("memberId");
 
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
-  }
-
   try {
-    // Get user's membership
-    const userMembership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId },
-      },
-    });
-
-    if (!userMembership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
-    }
-
     const targetMembership = await prisma.teamMember.findUnique({
       where: { id: memberId },
     });
@@ -467,23 +666,30 @@ userTeams.delete("/:teamId/members/:memberId", async (c) => {
       return c.json({ success: false, error: "Member not found" }, 404);
     }
 
-    // Users can remove themselves, or MENTOR/LEADER can remove others
+    // Users can remove themselves; removing others needs manage-members
     const isSelf = targetMembership.userId === userId;
-    const isAdmin = userMembership.role === "MENTOR" || userMembership.role === "LEADER";
 
-    if (!isSelf && !isAdmin) {
+    if (!isSelf && !capabilities.includes("manage-members")) {
       return c.json(
         { success: false, error: "Insufficient permissions" },
         403
       );
     }
 
+    // Mentors hold every capability, so only a mentor may remove one
+    if (targetMembership.role === "MENTOR" && c.get("teamRole") !== "MENTOR") {
+      return c.json(
+        { success: false, error: "Only a mentor can remove a mentor" },
+        403
+      );
+    }
+
     // Don't allow removing the last admin
-    if (targetMembership.role === "MENTOR" || targetMembership.role === "LEADER") {
+    if (TEAM_ADMIN_ROLES.includes(targetMembership.role)) {
       const adminCount = await prisma.teamMember.count({
         where: {
           teamId,
-          role: { in: ["MENTOR", "LEADER"] },
+          role: { in: TEAM_ADMIN_ROLES },
         },
       });
 
@@ -499,6 +705,14 @@ userTeams.delete("/:teamId/members/:memberId", async (c) => {
       where: { id: memberId },
     });
 
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "member.remove",
+      targetId: memberId,
+      before: targetMembership,
+    });
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Error removing member:", error);
@@ -508,29 +722,18 @@ userTeams.delete("/:teamId/members/:memberId", async (c) => {
 
 /**
  * PATCH /api/user-teams/:teamId/members/:memberId
- * Update member role (MENTOR/LEADER only, or updating own role)
+ * Update member role and/or scout weight (requires manage-members).
+ * Only a mentor may change a mentor or grant the role, and nobody may
+ * change their own role.
+ * scoutWeight sets how much the member's entries count in multi-scout
+ * consensus (0-5, default 1).
  */
-userTeams.patch("/:teamId/members/:memberId", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.patch("/:teamId/members/:memberId", requireTeamCapability("manage-members"), async (c) => {
+  const userId = c.get("userId");
   const teamId = c.req.param("teamId");
   const memberId = c.req.param("memberId");
 
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
-  }
-
   try {
-    // Check if requesting user is a team member
-    const userMembership = await prisma.teamMember.findUnique({
-      where: {
-        userId_teamId: { userId, teamId },
-      },
-    });
-
-    if (!userMembership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
-    }
-
     // Get the target member
     const targetMember = await prisma.teamMember.findUnique({
       where: { id: memberId },
@@ -541,31 +744,49 @@ userTeams.patch("/:teamId/members/:memberId", async (c) => {
     }
 
     const body = (c as any).get("sanitizedBody");
-    const { role } = body;
+    const { role, scoutWeight } = body;
+
+    if (role === undefined && scoutWeight === undefined) {
+      return c.json({ success: false, error: "Nothing to update" }, 400);
+    }
 
-    if (!role || !["MENTOR", "LEADER", "STUDENT", "FRIEND"].includes(role)) {
+    if (role !== undefined && !["MENTOR", "LEADER", "STUDENT", "FRIEND"].includes(role)) {
       return c.json({ success: false, error: "Invalid role" }, 400);
     }
 
-    // Only admins (MENTOR/LEADER) can change roles
-    const isAdmin = userMembership.role === "MENTOR" || userMembership.role === "LEADER";
+    if (
+      scoutWeight !== undefined &&
+      (typeof scoutWeight !== "number" || !Number.isFinite(scoutWeight) || scoutWeight < 0 || scoutWeight > 5)
+    ) {
+      return c.json({ success: false, error: "scoutWeight must be between 0 and 5" }, 400);
+    }
 
-    if (!isAdmin) {
+    if (role !== undefined && role !== targetMember.role && targetMember.userId === userId) {
       return c.json(
-        { success: false, error: "Insufficient permissions" },
+        { success: false, error: "You cannot change your own role" },
+        403
+      );
+    }
+
+    // Mentors hold every capability, including editing the permission
+    // matrix, so only a mentor may change a mentor or grant the role
+    if ((targetMember.role === "MENTOR" || role === "MENTOR") && c.get("teamRole") !== "MENTOR") {
+      return c.json(
+        { success: false, error: "Only a mentor can change mentors or grant the mentor role" },
         403
       );
     }
 
     // Don't allow demoting the last admin
     if (
-      (targetMember.role === "MENTOR" || targetMember.role === "LEADER") &&
-      (role === "STUDENT" || role === "FRIEND")
+      role !== undefined &&
+      TEAM_ADMIN_ROLES.includes(targetMember.role) &&
+      !TEAM_ADMIN_ROLES.includes(role)
     ) {
       const adminCount = await prisma.teamMember.count({
         where: {
           teamId,
-          role: { in: ["MENTOR", "LEADER"] },
+          role: { in: TEAM_ADMIN_ROLES },
         },
       });
 
@@ -579,9 +800,21 @@ userTeams.patch("/:teamId/members/:memberId", async (c) => {
 
     const member = await prisma.teamMember.update({
       where: { id: memberId },
-      data: { role },
+      data: { role, scoutWeight },
     });
 
+    const { before, after } = diffFields(targetMember, { role, scoutWeight });
+    if (Object.keys(after).length > 0) {
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "member.update",
+        targetId: memberId,
+        before: { userId: targetMember.userId, ...before },
+        after: { userId: targetMember.userId, ...after },
+      });
+    }
+
     return c.json({
       success: true,
       data: member,
@@ -594,30 +827,14 @@ userTeams.patch("/:teamId/members/:memberId", async (c) => {
 
 /**
  * POST /api/user-teams/:teamId/media
- * Add a media item (MENTOR/LEADER only)
+ * Add a media item (requires manage-media)
  * Supports multipart/form-data for file uploads (PHOTO/VIDEO) and JSON for URL-based media
  */
-userTeams.post("/:teamId/media", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.post("/:teamId/media", requireTeamCapability("manage-media"), async (c) => {
+  const userId = c.get("userId");
   const teamId = c.req.param("teamId");
 
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
-  }
-
   try {
-    const membership = await prisma.teamMember.findUnique({
-      where: { userId_teamId: { userId, teamId } },
-    });
-
-    if (!membership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
-    }
-
-    if (membership.role !== "MENTOR" && membership.role !== "LEADER") {
-      return c.json({ success: false, error: "Insufficient permissions" }, 403);
-    }
-
     const contentType = c.req.header("Content-Type") || "";
     const isMultipart = contentType.includes("multipart/form-data");
 
@@ -707,6 +924,14 @@ userTeams.post("/:teamId/media", async (c) => {
         },
       });
 
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "media.create",
+        targetId: media.id,
+        after: media,
+      });
+
       return c.json({ success: true, data: media });
     } else {
       // JSON URL-based flow
@@ -743,6 +968,14 @@ userTeams.post("/:teamId/media", async (c) => {
         },
       });
 
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "media.create",
+        targetId: media.id,
+        after: media,
+      });
+
       return c.json({ success: true, data: media });
     }
   } catch (error) {
@@ -753,30 +986,14 @@ userTeams.post("/:teamId/media", async (c) => {
 
 /**
  * PATCH /api/user-teams/:teamId/media/:mediaId
- * Update a media item (MENTOR/LEADER only)
+ * Update a media item (requires manage-media)
  */
-userTeams.patch("/:teamId/media/:mediaId", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.patch("/:teamId/media/:mediaId", requireTeamCapability("manage-media"), async (c) => {
+  const userId = c.get("userId");
   const teamId = c.req.param("teamId");
   const mediaId = c.req.param("mediaId");
 
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
-  }
-
   try {
-    const membership = await prisma.teamMember.findUnique({
-      where: { userId_teamId: { userId, teamId } },
-    });
-
-    if (!membership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
-    }
-
-    if (membership.role !== "MENTOR" && membership.role !== "LEADER") {
-      return c.json({ success: false, error: "Insufficient permissions" }, 403);
-    }
-
     const existing = await prisma.teamMedia.findUnique({
       where: { id: mediaId },
     });
@@ -799,6 +1016,18 @@ userTeams.patch("/:teamId/media/:mediaId", async (c) => {
       data: updateData,
     });
 
+    const { before, after } = diffFields(existing, updateData);
+    if (Object.keys(after).length > 0) {
+      await recordAudit({
+        teamId,
+        actorId: userId,
+        action: "media.update",
+        targetId: mediaId,
+        before,
+        after,
+      });
+    }
+
     return c.json({ success: true, data: media });
   } catch (error) {
     console.error("Error updating media:", error);
@@ -808,30 +1037,14 @@ userTeams.patch("/:teamId/media/:mediaId", async (c) => {
 
 /**
  * DELETE /api/user-teams/:teamId/media/:mediaId
- * Delete a media item (MENTOR/LEADER only)
+ * Delete a media item (requires manage-media)
  */
-userTeams.delete("/:teamId/media/:mediaId", async (c) => {
-  const userId = c.req.header("X-User-Id");
+userTeams.delete("/:teamId/media/:mediaId", requireTeamCapability("manage-media"), async (c) => {
+  const userId = c.get("userId");
   const teamId = c.req.param("teamId");
   const mediaId = c.req.param("mediaId");
 
-  if (!userId) {
-    return c.json({ success: false, error: "Unauthorized" }, 401);
-  }
-
   try {
-    const membership = await prisma.teamMember.findUnique({
-      where: { userId_teamId: { userId, teamId } },
-    });
-
-    if (!membership) {
-      return c.json({ success: false, error: "Not a team member" }, 403);
-    }
-
-    if (membership.role !== "MENTOR" && membership.role !== "LEADER") {
-      return c.json({ success: false, error: "Insufficient permissions" }, 403);
-    }
-
     const existing = await prisma.teamMedia.findUnique({
       where: { id: mediaId },
     });
@@ -857,6 +1070,14 @@ userTeams.delete("/:teamId/media/:mediaId", async (c) => {
       where: { id: mediaId },
     });
 
+    await recordAudit({
+      teamId,
+      actorId: userId,
+      action: "media.delete",
+      targetId: mediaId,
+      before: existing,
+    });
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Error deleting media:", error);
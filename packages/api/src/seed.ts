@@ -0,0 +1,452 @@
+/**
+ * Development database seed
+ *
+ * Fills a development database with a synthetic season built from the same
+ * generator as FTC_DATA_SOURCE=synthetic: events with qualification matches
+ * and official scores, the FtcTeam/FtcTeamEvent caches, scouting teams with
+ * all four roles, invites and media, and scouting entries and notes that
+ * agree with the official results. Running it again replaces the previous
+ * seed data.
+ *
+ * Usage:
+ *   bun run db:seed
+ *   cd packages/api && bun run seed --size small --seed 7
+ *   SEED_SIZE=large SEED_RANDOM=7 bun run db:seed
+ *
+ * Without flags the season follows the FTC_SYNTHETIC_* env vars, so the API
+ * (or mock FTC server) serves FTC data matching the seeded database.
+ */
+
+import { config } from "dotenv";
+import path from "path";
+
+// Load .env from workspace root
+config({ path: path.resolve(process.cwd(), "../../.env") });
+
+import { prisma, type Prisma } from "@ftcmetrics/db";
+import { DECODE, getDefaultScoringValues, type MemberRole, type ScoringValues } from "@ftcmetrics/shared";
+import { syncEvent } from "./lib/event-sync";
+import type { FTCTeam } from "./lib/ftc-api";
+import { SyntheticDataSource, syntheticConfigFromEnv, type RobotResult, type SyntheticConfig } from "./lib/ftc-synthetic";
+import { calculateScores, toEntryScoringFields } from "./lib/scoring";
+import { createRandom, shuffle } from "./lib/stats/random";
+
+// Fixed records the Playwright specs rely on (packages/web/tests)
+const PLAYWRIGHT_USER_ID = "test-user-playwright";
+const PLAYWRIGHT_TEAM_ID = "test-scouting-team-playwright";
+const PLAYWRIGHT_TEAM_NUMBER = 8569;
+const PLAYWRIGHT_SESSION_TOKEN = "playwright-session-token";
+
+// Seeded users are recognised by their email domain when re-seeding
+const SEED_EMAIL_DOMAIN = "seed.ftcmetrics.test";
+
+type SeedSize = "small" | "medium" | "large";
+
+const SIZES: Record<SeedSize, { teamCount: number; eventCount: number; scoutingTeams: number; students: number }> = {
+  small: { teamCount: 12, eventCount: 2, scoutingTeams: 2, students: 3 },
+  medium: { teamCount: 24, eventCount: 3, scoutingTeams: 3, students: 5 },
+  large: { teamCount: 40, eventCount: 5, scoutingTeams: 6, students: 8 },
+};
+
+const FIRST_NAMES = ["Ava", "Ben", "Chloe", "Diego", "Emma", "Felix", "Grace", "Hiro", "Isla", "Jonah", "Kai", "Lena", "Maya", "Noah", "Omar", "Priya", "Quinn", "Rosa", "Sam", "Theo"];
+const LAST_NAMES = ["Alvarez", "Brooks", "Chen", "Dubois", "Evans", "Fischer", "Garcia", "Hughes", "Ito", "Jensen", "Kowalski", "Lopez", "Moreau", "Nguyen", "Okafor", "Patel"];
+
+const STRATEGY_NOTES = [
+  "Cycles the classified ramp consistently, prefers the far side",
+  "Plays defense when its partner is the stronger scorer",
+  "Focuses on overflow in teleop, rarely attempts patterns",
+  "Strong auto; keep it away from our starting position",
+];
+const MECHANICAL_NOTES = [
+  "Intake jammed twice, fixed between matches",
+  "Very fast drivetrain, occasionally tips on hard turns",
+  "Reliable shooter, slow to line up",
+  "Lift struggles with a full base return",
+];
+const ALLIANCE_NOTES = ["Partner disconnected for ~10s", "Good coordination on the base", "Collided in auto", "Clean match"];
+
+interface SeedOptions {
+  size?: SeedSize;
+  seed?: number;
+}
+
+/**
+ * --size/--seed flags, falling back to SEED_SIZE/SEED_RANDOM
+ */
+function parseOptions(argv: string[]): SeedOptions {
+  const flag = (name: string) => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const size = flag("size") ?? process.env.SEED_SIZE;
+  if (size && !(size in SIZES)) {
+    throw new Error(`Unknown size "${size}" (expected small, medium or large)`);
+  }
+  const seed = flag("seed") ?? process.env.SEED_RANDOM;
+  if (seed && !Number.isFinite(Number(seed))) {
+    throw new Error(`Seed must be a number, got "${seed}"`);
+  }
+
+  return { size: size as SeedSize | undefined, seed: seed ? Number(seed) : undefined };
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * What a scout records for a robot: the true values with the odd miscount
+ */
+function observe(values: ScoringValues, random: () => number): ScoringValues {
+  const seen = { ...values };
+  for (const el of DECODE.elements) {
+    if (el.kind === "count" && random() < 0.15) {
+      seen[el.key] = Math.max(0, (values[el.key] as number) + (random() < 0.5 ? -1 : 1));
+    } else if (el.kind === "boolean" && random() < 0.05) {
+      seen[el.key] = !values[el.key];
+    } else if (el.kind === "state" && random() < 0.05) {
+      seen[el.key] = pick(el.states, random).value;
+    }
+  }
+  return seen;
+}
+
+async function clearPreviousSeed(eventCodes: string[], teamNumbers: number[]) {
+  await prisma.event.deleteMany({ where: { eventCode: { in: eventCodes } } });
+  await prisma.ePAHistory.deleteMany({ where: { eventCode: { in: eventCodes } } });
+  await prisma.team.deleteMany({
+    where: { OR: [{ teamNumber: { in: teamNumbers } }, { id: PLAYWRIGHT_TEAM_ID }] },
+  });
+  await prisma.ftcTeam.deleteMany({ where: { teamNumber: { in: teamNumbers } } });
+  await prisma.user.deleteMany({
+    where: { OR: [{ email: { endsWith: `@${SEED_EMAIL_DOMAIN}` } }, { id: PLAYWRIGHT_USER_ID }] },
+  });
+}
+
+async function main() {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Refusing to seed a production database");
+  }
+
+  const options = parseOptions(process.argv.slice(2));
+  const size = SIZES[options.size ?? "medium"];
+
+  const synthetic: SyntheticConfig = syntheticConfigFromEnv();
+  if (options.size) {
+    synthetic.teamCount = size.teamCount;
+    synthetic.eventCount = size.eventCount;
+  }
+  if (options.seed !== undefined) synthetic.seed = options.seed;
+  if (!synthetic.includeTeams.includes(PLAYWRIGHT_TEAM_NUMBER)) {
+    synthetic.includeTeams = [PLAYWRIGHT_TEAM_NUMBER, ...synthetic.includeTeams];
+  }
+
+  // Event sync reads FTC data through getFTCApi(); point it at the same season
+  const env: Record<string, string> = {
+    FTC_DATA_SOURCE: "synthetic",
+    FTC_SYNTHETIC_SEED: String(synthetic.seed),
+    FTC_SYNTHETIC_TEAMS: String(synthetic.teamCount),
+    FTC_SYNTHETIC_EVENTS: String(synthetic.eventCount),
+    FTC_SYNTHETIC_MATCHES_PER_TEAM: String(synthetic.matchesPerTeam),
+    FTC_SYNTHETIC_PLAYED: String(synthetic.playedFraction),
+    FTC_SYNTHETIC_INCLUDE_TEAMS: synthetic.includeTeams.join(","),
+  };
+  Object.assign(process.env, env);
+
+  const source = new SyntheticDataSource(synthetic);
+  const random = createRandom(synthetic.seed + 1);
+  const { events } = await source.getEvents();
+  const eventCodes = events.map((e) => e.code);
+
+  // Every team entered in any event, with its event list
+  const ftcTeams = new Map<number, FTCTeam>();
+  const eventTeams = new Map<string, number[]>();
+  for (const event of events) {
+    const { teams } = await source.getEventTeams(event.code);
+    eventTeams.set(event.code, teams.map((t) => t.teamNumber));
+    for (const team of teams) ftcTeams.set(team.teamNumber, team);
+  }
+  const teamNumbers = [...ftcTeams.keys()];
+
+  console.log(`[Seed] Clearing previous seed data`);
+  await clearPreviousSeed(eventCodes, teamNumbers);
+
+  // Events and matches, written the same way the event sync worker does
+  for (const code of eventCodes) {
+    const { matches } = await syncEvent(code);
+    console.log(`[Seed] ${code}: ${matches} matches`);
+  }
+
+  // FTC team caches
+  await prisma.ftcTeam.createMany({
+    data: [...ftcTeams.values()].map((t) => ({
+      teamNumber: t.teamNumber,
+      nameShort: t.nameShort,
+      nameFull: t.nameFull,
+      city: t.city,
+      stateProv: t.stateProv,
+      country: t.country,
+      rookieYear: t.rookieYear,
+    })),
+  });
+  for (const event of events) {
+    const { Rankings } = await source.getRankings(event.code);
+    await prisma.ftcTeamEvent.createMany({
+      data: Rankings.map((r) => ({
+        teamNumber: r.teamNumber,
+        eventCode: event.code,
+        eventName: event.name,
+        city: event.city,
+        stateProv: event.stateprov,
+        dateStart: new Date(event.dateStart),
+        rank: r.matchesPlayed > 0 ? r.rank : null,
+        wins: r.wins,
+        losses: r.losses,
+        ties: r.ties,
+        qualAverage: r.qualAverage,
+      })),
+    });
+  }
+
+  // App teams: every FTC team exists so entries can reference it; a few are
+  // scouting teams with members
+  await prisma.team.createMany({
+    data: teamNumbers.map((n) => ({
+      ...(n === PLAYWRIGHT_TEAM_NUMBER ? { id: PLAYWRIGHT_TEAM_ID } : {}),
+      teamNumber: n,
+      name: ftcTeams.get(n)!.nameShort,
+    })),
+  });
+  const teamIds = new Map(
+    (await prisma.team.findMany({ where: { teamNumber: { in: teamNumbers } }, select: { id: true, teamNumber: true } })).map(
+      (t) => [t.teamNumber, t.id]
+    )
+  );
+
+  const others = shuffle(
+    teamNumbers.filter((n) => n !== PLAYWRIGHT_TEAM_NUMBER),
+    random
+  );
+  const scoutingTeamNumbers = [PLAYWRIGHT_TEAM_NUMBER, ...others.slice(0, size.scoutingTeams - 1)];
+
+  let userCount = 0;
+  let entryCount = 0;
+  let noteCount = 0;
+
+  for (const [teamIndex, teamNumber] of scoutingTeamNumbers.entries()) {
+    const teamId = teamIds.get(teamNumber)!;
+    const ftcTeam = ftcTeams.get(teamNumber)!;
+
+    await prisma.team.update({
+      where: { id: teamId },
+      data: {
+        sharingLevel: pick(["PRIVATE", "EVENT", "PUBLIC"] as const, random),
+        bio: `${ftcTeam.nameFull} from ${ftcTeam.city}, ${ftcTeam.stateProv}. Competing since ${ftcTeam.rookieYear}.`,
+        robotName: `${ftcTeam.nameShort.split(" ")[1]} ${DECODE.season - ftcTeam.rookieYear + 1}`,
+        robotDesc: "Dual-flywheel shooter with a ramp intake and a belt-driven lift for the base.",
+        drivetrainType: pick(["mecanum", "tank", "swerve"], random),
+        links: [{ title: "Team website", url: `https://example.com/ftc/${teamNumber}` }],
+      },
+    });
+
+    // Members: the Playwright user mentors the first team
+    const roles: MemberRole[] = ["MENTOR", "LEADER", "LEADER", ...Array(size.students).fill("STUDENT"), "FRIEND"];
+    const members: { id: string; role: MemberRole }[] = [];
+    for (const [i, role] of roles.entries()) {
+      const first = pick(FIRST_NAMES, random);
+      const last = pick(LAST_NAMES, random);
+      const isPlaywright = teamIndex === 0 && i === 0;
+      const user = await prisma.user.create({
+        data: isPlaywright
+          ? { id: PLAYWRIGHT_USER_ID, name: "Playwright Mentor", email: `playwright@${SEED_EMAIL_DOMAIN}` }
+          : { name: `${first} ${last}`, email: `${first}.${last}.${teamNumber}.${i}@${SEED_EMAIL_DOMAIN}`.toLowerCase() },
+      });
+      await prisma.teamMember.create({ data: { userId: user.id, teamId, role } });
+      members.push({ id: user.id, role });
+    }
+    userCount += members.length;
+
+    const mentor = members[0];
+    const scouts = members.filter((m) => m.role === "LEADER" || m.role === "STUDENT");
+
+    await prisma.teamInvite.createMany({
+      data: [
+        {
+          teamId,
+          code: `SEED${teamNumber}`,
+          createdBy: mentor.id,
+          maxUses: 10,
+          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        },
+        {
+          teamId,
+          code: `OLD${teamNumber}`,
+          createdBy: mentor.id,
+          uses: 3,
+          expiresAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+        },
+      ],
+    });
+
+    await prisma.teamMedia.createMany({
+      data: [
+        {
+          teamId,
+          type: "CAD",
+          title: "Robot CAD",
+          url: `https://cad.onshape.com/documents/${teamNumber}`,
+          description: "Full robot assembly",
+        },
+        {
+          teamId,
+          type: "VIDEO",
+          title: "Robot reveal",
+          url: `https://www.youtube.com/watch?v=ftc${teamNumber}`,
+        },
+      ],
+    });
+
+    for (const event of events) {
+      if (!eventTeams.get(event.code)!.includes(teamNumber)) continue;
+
+      const matchRows = await prisma.match.findMany({
+        where: { eventCode: event.code, tournamentLevel: "QUALIFICATION" },
+        select: { id: true, matchNumber: true, actualTime: true },
+      });
+      const matchByNumber = new Map(matchRows.map((m) => [m.matchNumber, m]));
+      const { matchScores } = await source.getScores(event.code);
+
+      // Group robots by alliance in each match
+      const alliances = new Map<string, RobotResult[]>();
+      for (const robot of source.getRobotResults(event.code)) {
+        const key = `${robot.matchNumber}-${robot.alliance}`;
+        alliances.set(key, [...(alliances.get(key) ?? []), robot]);
+      }
+
+      const entries: Prisma.ScoutingEntryCreateManyInput[] = [];
+      const totals = new Map<number, number[]>();
+      for (const robots of alliances.values()) {
+        const { matchNumber, alliance } = robots[0];
+        const match = matchByNumber.get(matchNumber);
+        const official = matchScores
+          .find((s) => s.matchNumber === matchNumber)
+          ?.alliances.find((a) => a.alliance.toUpperCase() === alliance);
+        const createdAt = new Date((match?.actualTime ?? new Date()).getTime() + 5 * 60000);
+
+        const base = (scouterId: string, robot: RobotResult) => ({
+          scouterId,
+          scoutingTeamId: teamId,
+          scoutedTeamId: teamIds.get(robot.teamNumber)!,
+          eventCode: event.code,
+          matchId: match?.id ?? null,
+          matchNumber,
+          alliance,
+          createdAt,
+        });
+
+        for (const robot of robots) {
+          totals.set(robot.teamNumber, [
+            ...(totals.get(robot.teamNumber) ?? []),
+            calculateScores(DECODE, robot.values).totalScore,
+          ]);
+        }
+
+        // Most alliances are fully scouted, some only one robot with the
+        // partner deducted from the official score, a few not at all
+        const roll = random();
+        if (roll > 0.9 || scouts.length < 2) continue;
+        const watched = roll < 0.7 ? robots : [robots[Math.floor(random() * robots.length)]];
+        const shuffled = shuffle(scouts, random);
+
+        watched.forEach((robot, i) => {
+          const scouter = shuffled[i];
+          const seen = observe(robot.values, random);
+          const scores = calculateScores(DECODE, seen);
+          entries.push({
+            ...base(scouter.id, robot),
+            ...toEntryScoringFields(DECODE, seen),
+            ...scores,
+            allianceNotes: random() < 0.15 ? pick(ALLIANCE_NOTES, random) : null,
+          });
+
+          // Occasionally a second scout watches the same robot
+          if (random() < 0.05 && shuffled[2]) {
+            const again = observe(robot.values, random);
+            entries.push({
+              ...base(shuffled[2].id, robot),
+              ...toEntryScoringFields(DECODE, again),
+              ...calculateScores(DECODE, again),
+              allianceNotes: null,
+            });
+          }
+
+          if (watched.length === 1 && official) {
+            const partner = robots.find((r) => r !== robot)!;
+            const auto = Math.max(0, official.autoPoints - scores.autoScore);
+            const teleop = Math.max(0, official.dcPoints - scores.teleopScore);
+            const endgame = Math.max(0, official.endgamePoints - scores.endgameScore);
+            entries.push({
+              ...base(scouter.id, partner),
+              ...toEntryScoringFields(DECODE, getDefaultScoringValues(DECODE)),
+              autoScore: auto,
+              teleopScore: teleop,
+              endgameScore: endgame,
+              totalScore: auto + teleop + endgame,
+              allianceNotes: null,
+              deducted: true,
+            });
+          }
+        });
+      }
+
+      await prisma.scoutingEntry.createMany({ data: entries });
+      entryCount += entries.length;
+
+      // Notes on about half the teams at the event, rated from how they played
+      const notes: Prisma.ScoutingNoteCreateManyInput[] = [];
+      for (const [aboutNumber, scores] of totals) {
+        if (aboutNumber === teamNumber || random() < 0.5) continue;
+        const average = scores.reduce((a, b) => a + b, 0) / scores.length;
+        const rating = (offset: number) => Math.min(5, Math.max(1, Math.round(average / 12 + offset)));
+        notes.push({
+          authorId: pick(scouts, random).id,
+          notingTeamId: teamId,
+          aboutTeamId: teamIds.get(aboutNumber)!,
+          eventCode: event.code,
+          reliabilityRating: rating(random() - 0.5),
+          driverSkillRating: rating(random() - 0.5),
+          defenseRating: Math.ceil(random() * 5),
+          strategyNotes: pick(STRATEGY_NOTES, random),
+          mechanicalNotes: random() < 0.5 ? pick(MECHANICAL_NOTES, random) : null,
+          generalNotes: random() < 0.3 ? "Would pick as a second alliance partner" : null,
+        });
+      }
+      await prisma.scoutingNote.createMany({ data: notes });
+      noteCount += notes.length;
+    }
+  }
+
+  // Lets the Playwright specs call the API as the seeded mentor
+  await prisma.session.create({
+    data: {
+      sessionToken: PLAYWRIGHT_SESSION_TOKEN,
+      userId: PLAYWRIGHT_USER_ID,
+      expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  console.log(
+    `[Seed] ${events.length} events, ${teamNumbers.length} teams, ${scoutingTeamNumbers.length} scouting teams, ` +
+      `${userCount} users, ${entryCount} scouting entries, ${noteCount} notes`
+  );
+  console.log(`[Seed] Serve matching FTC data with:`);
+  for (const [key, value] of Object.entries(env)) console.log(`  ${key}=${value}`);
+}
+
+main()
+  .catch((err) => {
+    console.error("[Seed] Failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,49 @@
+import type { GameDefinition } from './types';
+
+// DECODE 2025-2026
+// Element keys match the original ScoutingEntry columns so that entries
+// recorded before the registry existed remain readable.
+export const DECODE: GameDefinition = {
+  season: 2025,
+  name: 'DECODE',
+  displayName: 'DECODE 2025-2026',
+  elements: [
+    // AUTO
+    { kind: 'boolean', key: 'autoLeave', label: 'Leave Starting Zone', phase: 'auto', points: 3 },
+    { kind: 'count', key: 'autoClassifiedCount', label: 'Classified (High)', phase: 'auto', points: 3 },
+    { kind: 'count', key: 'autoOverflowCount', label: 'Overflow (Low)', phase: 'auto', points: 1 },
+    { kind: 'count', key: 'autoPatternCount', label: 'Pattern Complete', phase: 'auto', points: 2 },
+    // TELEOP
+    { kind: 'count', key: 'teleopClassifiedCount', label: 'Classified (High)', phase: 'teleop', points: 3 },
+    { kind: 'count', key: 'teleopOverflowCount', label: 'Overflow (Low)', phase: 'teleop', points: 1 },
+    { kind: 'count', key: 'teleopDepotCount', label: 'Depot', phase: 'teleop', points: 1 },
+    { kind: 'count', key: 'teleopPatternCount', label: 'Pattern Complete', phase: 'teleop', points: 2 },
+    { kind: 'count', key: 'teleopMotifCount', label: 'Motif Complete', phase: 'teleop', points: 2 },
+    // ENDGAME
+    {
+      kind: 'state',
+      key: 'endgameBaseStatus',
+      label: 'Base Status',
+      phase: 'endgame',
+      defaultState: 'NONE',
+      states: [
+        { value: 'NONE', label: 'NONE', points: 0 },
+        { value: 'PARTIAL', label: 'PARTIAL', points: 5 },
+        { value: 'FULL', label: 'FULL', points: 10 },
+      ],
+    },
+  ],
+  // Estimated from early season alliance scores
+  baseline: {
+    autoScore: 8,
+    teleopScore: 25,
+    endgameScore: 5,
+    totalScore: 38,
+  },
+  // Win/tie ranking points plus the Movement, Goal and Pattern bonus RPs
+  ranking: {
+    winPoints: 3,
+    tiePoints: 1,
+    maxBonusPoints: 3,
+  },
+};
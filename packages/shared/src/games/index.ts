@@ -0,0 +1,98 @@
+// Season-agnostic game definition registry.
+// Supporting a new season only requires adding its definition file and
+// registering it below; scoring, validation, forms and baselines derive from it.
+
+import type { MatchPhase } from '../types';
+import type {
+  GameDefinition,
+  PhaseScores,
+  ScoringElement,
+  ScoringValues,
+} from './types';
+import { DECODE } from './decode';
+
+export * from './types';
+export { DECODE } from './decode';
+
+export const GAME_DEFINITIONS: Record<number, GameDefinition> = {
+  [DECODE.season]: DECODE,
+};
+
+export const CURRENT_SEASON = DECODE.season;
+
+// Look up a season's game, or undefined if it is not registered
+export function getGameDefinition(season: number): GameDefinition | undefined {
+  return GAME_DEFINITIONS[season];
+}
+
+export function getCurrentGame(): GameDefinition {
+  return GAME_DEFINITIONS[CURRENT_SEASON];
+}
+
+export function getPhaseElements(game: GameDefinition, phase: MatchPhase): ScoringElement[] {
+  return game.elements.filter((el) => el.phase === phase);
+}
+
+// Zeroed values for every element of a game
+export function getDefaultScoringValues(game: GameDefinition): ScoringValues {
+  const values: ScoringValues = {};
+  for (const el of game.elements) {
+    values[el.key] = el.kind === 'count' ? 0 : el.kind === 'boolean' ? false : el.defaultState;
+  }
+  return values;
+}
+
+// Raw element values of a stored scouting entry. Prefers the scoringData
+// JSON and falls back to same-named entry fields (DECODE typed columns).
+export function getEntryScoringValues(
+  game: GameDefinition,
+  entry: { scoringData?: unknown; [field: string]: unknown }
+): ScoringValues {
+  const stored =
+    entry.scoringData && typeof entry.scoringData === 'object' && !Array.isArray(entry.scoringData)
+      ? (entry.scoringData as ScoringValues)
+      : {};
+  const values = getDefaultScoringValues(game);
+
+  for (const el of game.elements) {
+    const value = stored[el.key] ?? entry[el.key];
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+      values[el.key] = value;
+    }
+  }
+
+  return values;
+}
+
+// Points earned by a single element for a given raw value
+export function getElementPoints(el: ScoringElement, value: unknown): number {
+  switch (el.kind) {
+    case 'count':
+      return typeof value === 'number' && Number.isFinite(value) ? value * el.points : 0;
+    case 'boolean':
+      return value === true ? el.points : 0;
+    case 'state':
+      return el.states.find((s) => s.value === value)?.points ?? 0;
+  }
+}
+
+// Human readable point value, e.g. "3 pts each" or "1 pt"
+export function formatElementPoints(el: ScoringElement): string {
+  if (el.kind === 'state') return '';
+  const unit = el.points === 1 ? 'pt' : 'pts';
+  return el.kind === 'count' ? `${el.points} ${unit} each` : `${el.points} ${unit}`;
+}
+
+export function calculateGameScores(game: GameDefinition, values: ScoringValues): PhaseScores {
+  const phaseTotals: Record<MatchPhase, number> = { auto: 0, teleop: 0, endgame: 0 };
+  for (const el of game.elements) {
+    phaseTotals[el.phase] += getElementPoints(el, values[el.key]);
+  }
+
+  return {
+    autoScore: phaseTotals.auto,
+    teleopScore: phaseTotals.teleop,
+    endgameScore: phaseTotals.endgame,
+    totalScore: phaseTotals.auto + phaseTotals.teleop + phaseTotals.endgame,
+  };
+}
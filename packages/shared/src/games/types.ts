@@ -0,0 +1,77 @@
+import type { MatchPhase } from '../types';
+
+// A scoring element counted by scouts (e.g. artifacts scored in a goal)
+export interface CountElement {
+  kind: 'count';
+  key: string;
+  label: string;
+  phase: MatchPhase;
+  points: number;
+  description?: string;
+}
+
+// A yes/no scoring element (e.g. leaving the starting zone)
+export interface BooleanElement {
+  kind: 'boolean';
+  key: string;
+  label: string;
+  phase: MatchPhase;
+  points: number;
+  description?: string;
+}
+
+// One selectable state for a state element
+export interface ElementState {
+  value: string;
+  label: string;
+  points: number;
+}
+
+// A single-choice scoring element (e.g. endgame parking/base status)
+export interface StateElement {
+  kind: 'state';
+  key: string;
+  label: string;
+  phase: MatchPhase;
+  states: ElementState[];
+  defaultState: string;
+  description?: string;
+}
+
+export type ScoringElement = CountElement | BooleanElement | StateElement;
+
+// Average alliance scores used as the EPA prior before real data exists
+export interface ScoreBaseline {
+  autoScore: number;
+  teleopScore: number;
+  endgameScore: number;
+  totalScore: number;
+}
+
+// Ranking points awarded to each team for a qualification match
+export interface RankingRules {
+  winPoints: number;
+  tiePoints: number;
+  // Most bonus ranking points an alliance can earn in one match
+  maxBonusPoints: number;
+}
+
+// Complete description of one FTC season's game
+export interface GameDefinition {
+  season: number;
+  name: string;
+  displayName: string;
+  elements: ScoringElement[];
+  baseline: ScoreBaseline;
+  ranking: RankingRules;
+}
+
+// Raw scouted values keyed by scoring element key
+export type ScoringValues = Record<string, number | boolean | string>;
+
+export interface PhaseScores {
+  autoScore: number;
+  teleopScore: number;
+  endgameScore: number;
+  totalScore: number;
+}
@@ -2,3 +2,9 @@
 
 // Re-export all types
 export * from './types';
+
+// Game definitions by season
+export * from './games';
+
+// Team role capabilities
+export * from './permissions';
@@ -0,0 +1,159 @@
+// Team permission matrix.
+// Each member role maps to a set of named capabilities. Teams can override
+// the defaults per role; MENTOR always has every capability so a team can
+// never lock its mentors out, and FRIEND can only be granted read-only ones.
+
+export const MEMBER_ROLES = ['MENTOR', 'LEADER', 'STUDENT', 'FRIEND'] as const;
+
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+
+export const TEAM_CAPABILITIES = [
+  'scout',
+  'edit-others-entries',
+  'manage-picklists',
+  'manage-assignments',
+  'manage-members',
+  'manage-invites',
+  'manage-media',
+  'view-scouting',
+  'view-notes',
+  'view-picklists',
+  'export',
+  'import',
+] as const;
+
+export type TeamCapability = (typeof TEAM_CAPABILITIES)[number];
+
+export interface CapabilityInfo {
+  label: string;
+  description: string;
+  // Read-only capabilities are the only ones FRIEND members can be given
+  readOnly: boolean;
+}
+
+export const CAPABILITY_INFO: Record<TeamCapability, CapabilityInfo> = {
+  scout: {
+    label: 'Scout',
+    description: 'Submit scouting entries, notes and alliance deductions',
+    readOnly: false,
+  },
+  'edit-others-entries': {
+    label: "Edit others' entries",
+    description: 'Correct scouting entries recorded by other members and settle disagreements between scouts',
+    readOnly: false,
+  },
+  'manage-picklists': {
+    label: 'Manage pick lists',
+    description: 'Create, reorder and refresh alliance selection pick lists',
+    readOnly: false,
+  },
+  'manage-assignments': {
+    label: 'Manage assignments',
+    description: 'Generate scouting rotations and hand robot-matches to other scouts',
+    readOnly: false,
+  },
+  'manage-members': {
+    label: 'Manage members',
+    description: 'Remove members and change their roles and scout weights',
+    readOnly: false,
+  },
+  'manage-invites': {
+    label: 'Manage invites',
+    description: 'Create invite codes for new members',
+    readOnly: false,
+  },
+  'manage-media': {
+    label: 'Manage media',
+    description: "Add, edit and delete the team profile's photos, videos and links",
+    readOnly: false,
+  },
+  'view-scouting': {
+    label: 'View scouting data',
+    description: "See the team's scouting entries and summaries regardless of sharing level",
+    readOnly: true,
+  },
+  'view-notes': {
+    label: 'View notes',
+    description: "See the team's qualitative notes regardless of sharing level",
+    readOnly: true,
+  },
+  'view-picklists': {
+    label: 'View pick lists',
+    description: "See the team's pick lists",
+    readOnly: true,
+  },
+  export: {
+    label: 'Export',
+    description: "Download the team's scouting data",
+    readOnly: true,
+  },
+  import: {
+    label: 'Import',
+    description: 'Bulk import scouting entries and notes from CSV, and roll imports back',
+    readOnly: false,
+  },
+};
+
+export const DEFAULT_ROLE_CAPABILITIES: Record<MemberRole, readonly TeamCapability[]> = {
+  MENTOR: TEAM_CAPABILITIES,
+  LEADER: TEAM_CAPABILITIES,
+  STUDENT: ['scout', 'manage-picklists', 'view-scouting', 'view-notes', 'view-picklists'],
+  FRIEND: ['view-scouting', 'view-picklists'],
+};
+
+// Roles whose capabilities a team may change
+export const CONFIGURABLE_ROLES = ['LEADER', 'STUDENT', 'FRIEND'] as const;
+
+export type ConfigurableRole = (typeof CONFIGURABLE_ROLES)[number];
+
+// Stored on the team: capabilities granted (true) or revoked (false) per role
+export type PermissionOverrides = Partial<
+  Record<ConfigurableRole, Partial<Record<TeamCapability, boolean>>>
+>;
+
+// Whether a team may set this capability for this role at all
+export function isCapabilityConfigurable(role: MemberRole, capability: TeamCapability): boolean {
+  if (role === 'MENTOR') return false;
+  return role !== 'FRIEND' || CAPABILITY_INFO[capability].readOnly;
+}
+
+// Keep only overrides a team is allowed to make, dropping unknown keys
+export function normalizePermissionOverrides(value: unknown): PermissionOverrides {
+  const overrides: PermissionOverrides = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return overrides;
+
+  for (const role of CONFIGURABLE_ROLES) {
+    const roleValue = (value as Record<string, unknown>)[role];
+    if (!roleValue || typeof roleValue !== 'object' || Array.isArray(roleValue)) continue;
+
+    const roleOverrides: Partial<Record<TeamCapability, boolean>> = {};
+    for (const capability of TEAM_CAPABILITIES) {
+      const granted = (roleValue as Record<string, unknown>)[capability];
+      if (typeof granted === 'boolean' && isCapabilityConfigurable(role, capability)) {
+        roleOverrides[capability] = granted;
+      }
+    }
+    if (Object.keys(roleOverrides).length > 0) {
+      overrides[role] = roleOverrides;
+    }
+  }
+
+  return overrides;
+}
+
+// Capabilities a role holds on a team after applying its overrides
+export function resolveCapabilities(role: MemberRole, overrides?: unknown): TeamCapability[] {
+  const defaults = DEFAULT_ROLE_CAPABILITIES[role] ?? [];
+  if (role === 'MENTOR') return [...defaults];
+
+  const roleOverrides = normalizePermissionOverrides(overrides)[role] ?? {};
+  return TEAM_CAPABILITIES.filter((capability) => roleOverrides[capability] ?? defaults.includes(capability));
+}
+
+export function hasCapability(
+  role: MemberRole,
+  capability: TeamCapability,
+  overrides?: unknown
+): boolean {
+  return resolveCapabilities(role, overrides).includes(capability);
+}
@@ -11,6 +11,9 @@ const nextConfig: NextConfig = {
 const pwaConfig = withPWA({
   dest: "public",
   register: true,
+  // Keep next-pwa's default caching of pages and static assets so the app
+  // shell loads offline; API reads fall back to event snapshots instead
+  extendDefaultRuntimeCaching: true,
   workboxOptions: {
     navigateFallbackDenylist: [/^\/api\//],
     runtimeCaching: [
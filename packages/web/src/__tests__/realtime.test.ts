@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook } from "@testing-library/react";
+
+const pusher = vi.hoisted(() => {
+  const channels = new Map<string, { bind: ReturnType<typeof vi.fn>; unbind: ReturnType<typeof vi.fn> }>();
+  return {
+    channels,
+    subscribe: vi.fn((name: string) => {
+      if (!channels.has(name)) channels.set(name, { bind: vi.fn(), unbind: vi.fn() });
+      return channels.get(name);
+    }),
+    unsubscribe: vi.fn((name: string) => channels.delete(name)),
+  };
+});
+
+vi.mock("pusher-js", () => ({
+  default: class {
+    subscribe = pusher.subscribe;
+    unsubscribe = pusher.unsubscribe;
+  },
+}));
+
+async function loadRealtime() {
+  vi.stubEnv("NEXT_PUBLIC_SOKETI_KEY", "test-key");
+  vi.resetModules();
+  return import("../lib/realtime");
+}
+
+describe("useTeamFeed", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pusher.channels.clear();
+  });
+
+  it("keeps a shared team channel until its last subscriber unmounts", async () => {
+    const { useTeamFeed, getTeamChannel } = await loadRealtime();
+    const channel = getTeamChannel("team-1");
+
+    const dashboard = renderHook(() => useTeamFeed(["team-1"], () => {}));
+    const scout = renderHook(() => useTeamFeed(["team-1"], () => {}));
+    expect(pusher.subscribe).toHaveBeenCalledTimes(2);
+
+    dashboard.unmount();
+    expect(pusher.unsubscribe).not.toHaveBeenCalled();
+    // The dashboard's handlers are gone, the scout page's are still bound
+    expect(pusher.channels.get(channel)!.unbind).toHaveBeenCalledTimes(3);
+
+    scout.unmount();
+    expect(pusher.unsubscribe).toHaveBeenCalledWith(channel);
+    expect(pusher.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("resubscribes after every subscriber has left", async () => {
+    const { useTeamFeed } = await loadRealtime();
+
+    renderHook(() => useTeamFeed(["team-1"], () => {})).unmount();
+    const again = renderHook(() => useTeamFeed(["team-1"], () => {}));
+    again.unmount();
+
+    expect(pusher.subscribe).toHaveBeenCalledTimes(2);
+    expect(pusher.unsubscribe).toHaveBeenCalledTimes(2);
+  });
+});
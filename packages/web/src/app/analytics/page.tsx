@@ -10,6 +10,8 @@ import {
   type OPRResult,
   type EPAResult,
 } from "@/lib/api";
+import { OfflineEventButton, OfflineSnapshotNotice } from "@/components/event-snapshot";
+import { ExportMenu } from "@/components/export-menu";
 
 interface Event {
   code: string;
@@ -60,6 +62,7 @@ function AnalyticsContent() {
   const [epaData, setEpaData] = useState<EPAResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [matchCount, setMatchCount] = useState(0);
+  const [snapshotAt, setSnapshotAt] = useState<Array<number | undefined>>([]);
 
   // Fetch events
   useEffect(() => {
@@ -203,6 +206,7 @@ function AnalyticsContent() {
       setOprData([]);
       setEpaData([]);
       setMatchCount(0);
+      setSnapshotAt([]);
 
       try {
         const [oprResult, epaResult] = await Promise.all([
@@ -218,6 +222,7 @@ function AnalyticsContent() {
         if (epaResult.success && epaResult.data) {
           setEpaData(epaResult.data.rankings);
         }
+        setSnapshotAt([oprResult.snapshotAt, epaResult.snapshotAt]);
       } catch (err) {
         console.error("Failed to fetch analytics:", err);
       } finally {
@@ -384,6 +389,10 @@ function AnalyticsContent() {
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         {selectedEvent.city}, {selectedEvent.stateprov} • {selectedEvent.code}
                       </p>
+                      <div className="mt-2 flex flex-wrap items-center gap-3">
+                        <OfflineEventButton eventCode={selectedEvent.code} />
+                        <ExportMenu eventCode={selectedEvent.code} datasets={["ratings", "team-summaries"]} />
+                      </div>
                     </div>
                     <button
                       onClick={() => setSelectedEventCode("")}
@@ -490,6 +499,8 @@ function AnalyticsContent() {
 
       {selectedEventCode && (
         <>
+          <OfflineSnapshotNotice snapshotAt={snapshotAt} />
+
           {/* Stats Summary */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
             <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 text-center">
@@ -548,6 +559,18 @@ function AnalyticsContent() {
             >
               Match Predictor
             </Link>
+            <Link
+              href={`/analytics/playoffs?event=${selectedEventCode}`}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:opacity-90 transition-opacity"
+            >
+              Playoff Simulator
+            </Link>
+            <Link
+              href={`/analytics/projections?event=${selectedEventCode}`}
+              className="px-4 py-2 bg-ftc-orange text-white rounded-lg font-medium hover:opacity-90 transition-opacity"
+            >
+              Rank Projections
+            </Link>
             <Link
               href={`/analytics/rankings?event=${selectedEventCode}`}
               className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:opacity-90 transition-opacity"
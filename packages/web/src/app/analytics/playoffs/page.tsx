@@ -0,0 +1,337 @@
+"use client";
+
+import { useEffect, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { eventsApi, analyticsApi, type PlayoffSimulation } from "@/lib/api";
+
+interface EventTeam {
+  teamNumber: number;
+  nameFull: string;
+  nameShort: string;
+}
+
+const ALLIANCE_COUNTS = [2, 4, 8];
+const TEAMS_PER_ALLIANCE = 3;
+
+function formatPercent(value: number) {
+  if (value > 0 && value < 0.001) return "<0.1%";
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function emptyAlliances(count: number): number[][] {
+  return Array.from({ length: count }, () => new Array(TEAMS_PER_ALLIANCE).fill(0));
+}
+
+function ProbabilityBar({ value }: { value: number }) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+        <div className="h-full bg-ftc-orange rounded-full" style={{ width: `${value * 100}%` }} />
+      </div>
+      <span className="w-14 text-right text-xs tabular-nums text-gray-600 dark:text-gray-400">
+        {formatPercent(value)}
+      </span>
+    </div>
+  );
+}
+
+function BracketView({ result }: { result: PlayoffSimulation }) {
+  const teamsBySeed = new Map(result.alliances.map((a) => [a.seed, a.teams]));
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-4 min-w-max">
+        {result.rounds.map((round, roundIndex) => (
+          <div key={round} className="w-56 flex flex-col">
+            <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-3">{round}</h3>
+            <div className="flex-1 flex flex-col justify-around gap-3">
+              {result.matches
+                .filter((m) => m.round === roundIndex)
+                .map((match) => (
+                  <div
+                    key={match.id}
+                    className="p-3 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800"
+                  >
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-xs font-medium">{match.label}</span>
+                      {match.bestOf > 1 && (
+                        <span className="text-xs text-gray-400">Best of {match.bestOf}</span>
+                      )}
+                    </div>
+                    {match.winnerSeed !== null ? (
+                      <div className="text-sm">
+                        <span className="font-semibold text-green-600 dark:text-green-400">
+                          Alliance {match.winnerSeed} won
+                        </span>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {teamsBySeed.get(match.winnerSeed)?.join(", ")}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-1.5">
+                        {match.participants.slice(0, 4).map((p) => {
+                          const wins = match.winners.find((w) => w.seed === p.seed)?.probability ?? 0;
+                          return (
+                            <div key={p.seed} className="flex justify-between text-xs">
+                              <span>
+                                <span className="font-medium">A{p.seed}</span>
+                                <span className="text-gray-400"> plays {formatPercent(p.probability)}</span>
+                              </span>
+                              <span className="tabular-nums">wins {formatPercent(wins)}</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PlayoffsContent() {
+  const searchParams = useSearchParams();
+  const eventCode = searchParams.get("event") || "";
+
+  const [eventTeams, setEventTeams] = useState<EventTeam[]>([]);
+  const [teamsLoading, setTeamsLoading] = useState(false);
+  const [allianceCount, setAllianceCount] = useState(4);
+  const [alliances, setAlliances] = useState<number[][]>(emptyAlliances(4));
+  const [result, setResult] = useState<PlayoffSimulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!eventCode) return;
+
+    setTeamsLoading(true);
+    eventsApi
+      .getEventTeams(eventCode)
+      .then((res) => {
+        if (res.success && res.data) {
+          setEventTeams(res.data.sort((a, b) => a.teamNumber - b.teamNumber));
+        }
+      })
+      .catch((err) => console.error("Failed to fetch teams:", err))
+      .finally(() => setTeamsLoading(false));
+  }, [eventCode]);
+
+  const handleCountChange = (count: number) => {
+    setAllianceCount(count);
+    setAlliances((current) =>
+      emptyAlliances(count).map((empty, i) => current[i] ?? empty)
+    );
+    setResult(null);
+  };
+
+  const setTeam = (allianceIndex: number, slot: number, teamNumber: number) => {
+    setAlliances((current) =>
+      current.map((teams, i) =>
+        i === allianceIndex ? teams.map((t, j) => (j === slot ? teamNumber : t)) : teams
+      )
+    );
+  };
+
+  const chosen = new Set(alliances.flat().filter(Boolean));
+
+  const handleSimulate = async () => {
+    const entered = alliances.map((teams) => teams.filter(Boolean));
+    if (entered.some((teams) => teams.length < 2)) {
+      setError("Every alliance needs a captain and at least one pick");
+      return;
+    }
+
+    setSimulating(true);
+    setError(null);
+    try {
+      const res = await analyticsApi.simulatePlayoffs({
+        eventCode,
+        alliances: entered.map((teams, i) => ({ seed: i + 1, teams })),
+      });
+      if (res.success && res.data) {
+        setResult(res.data);
+      } else {
+        setError(res.error || "Failed to simulate playoffs");
+      }
+    } catch {
+      setError("Failed to simulate playoffs");
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <Link
+          href={`/analytics${eventCode ? `?event=${eventCode}` : ""}`}
+          className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white flex items-center gap-2 mb-4"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Analytics
+        </Link>
+        <h1 className="text-2xl font-bold">Playoff Simulator</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Enter the alliance selection results to simulate the double-elimination bracket.
+          Playoff matches already played are locked in.
+        </p>
+      </div>
+
+      {!eventCode ? (
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-12 text-center text-gray-500">
+          Choose an event on the analytics page to simulate its playoffs
+        </div>
+      ) : (
+        <>
+          <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-semibold">Alliances — {eventCode}</h2>
+              <select
+                value={allianceCount}
+                onChange={(e) => handleCountChange(parseInt(e.target.value))}
+                className="px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm"
+              >
+                {ALLIANCE_COUNTS.map((count) => (
+                  <option key={count} value={count}>
+                    {count} alliances
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {teamsLoading ? (
+              <div className="h-32 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+            ) : (
+              <div className="space-y-3">
+                {alliances.map((teams, allianceIndex) => (
+                  <div key={allianceIndex} className="grid grid-cols-[5rem_repeat(3,minmax(0,1fr))] gap-2 items-center">
+                    <span className="text-sm font-medium">Alliance {allianceIndex + 1}</span>
+                    {teams.map((teamNumber, slot) => (
+                      <select
+                        key={slot}
+                        value={teamNumber}
+                        onChange={(e) => setTeam(allianceIndex, slot, parseInt(e.target.value))}
+                        className="px-2 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm"
+                      >
+                        <option value={0}>{slot === 0 ? "Captain" : slot === 1 ? "First pick" : "Second pick (optional)"}</option>
+                        {eventTeams
+                          .filter((t) => t.teamNumber === teamNumber || !chosen.has(t.teamNumber))
+                          .map((t) => (
+                            <option key={t.teamNumber} value={t.teamNumber}>
+                              {t.teamNumber} - {t.nameShort || t.nameFull}
+                            </option>
+                          ))}
+                      </select>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+
+            <button
+              onClick={handleSimulate}
+              disabled={simulating}
+              className="mt-6 w-full py-3 bg-ftc-orange text-white rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {simulating ? "Simulating..." : "Simulate Playoffs"}
+            </button>
+          </div>
+
+          {result && (
+            <>
+              {result.warning && (
+                <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-400">
+                  {result.warning}
+                </div>
+              )}
+
+              <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mb-6">
+                <div className="flex justify-between items-baseline mb-4">
+                  <h2 className="font-semibold">Alliance Outlook</h2>
+                  <span className="text-xs text-gray-500">
+                    {result.simulations.toLocaleString()} simulations
+                    {result.playedMatches > 0 && ` · ${result.playedMatches} played matches locked in`}
+                  </span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400">
+                        <th className="pb-2 pr-4 font-medium">Alliance</th>
+                        <th className="pb-2 pr-4 font-medium">EPA</th>
+                        {result.rounds.slice(1).map((round) => (
+                          <th key={round} className="pb-2 pr-4 font-medium min-w-28">
+                            Reach {round}
+                          </th>
+                        ))}
+                        <th className="pb-2 font-medium min-w-28">Win Event</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...result.alliances]
+                        .sort((a, b) => b.winProbability - a.winProbability)
+                        .map((alliance) => (
+                          <tr key={alliance.seed} className="border-t border-gray-100 dark:border-gray-800">
+                            <td className="py-2 pr-4">
+                              <span className="font-medium">A{alliance.seed}</span>
+                              <span className="text-gray-500 ml-2">
+                                {alliance.teams.map((t) => (
+                                  <span
+                                    key={t}
+                                    className={alliance.playingTeams.includes(t) ? "" : "opacity-50"}
+                                  >
+                                    {t}{" "}
+                                  </span>
+                                ))}
+                              </span>
+                            </td>
+                            <td className="py-2 pr-4 tabular-nums">{alliance.epa}</td>
+                            {alliance.roundProbabilities.slice(1).map((p, i) => (
+                              <td key={i} className="py-2 pr-4">
+                                <ProbabilityBar value={p} />
+                              </td>
+                            ))}
+                            <td className="py-2">
+                              <ProbabilityBar value={alliance.winProbability} />
+                            </td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+                <h2 className="font-semibold mb-4">Bracket</h2>
+                <BracketView result={result} />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function PlayoffsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      }
+    >
+      <PlayoffsContent />
+    </Suspense>
+  );
+}
@@ -3,7 +3,7 @@
 import { useEffect, useState, useMemo, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { eventsApi, analyticsApi } from "@/lib/api";
+import { eventsApi, analyticsApi, type BacktestReport } from "@/lib/api";
 
 interface EventTeam {
   teamNumber: number;
@@ -45,6 +45,7 @@ function PredictContent() {
   const [prediction, setPrediction] = useState<Prediction | null>(null);
   const [predicting, setPredicting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [backtest, setBacktest] = useState<BacktestReport | null>(null);
 
   // Fetch events
   useEffect(() => {
@@ -92,6 +93,21 @@ function PredictContent() {
     fetchTeams();
   }, [selectedEvent]);
 
+  // Fetch how well the model predicted this event's played matches
+  useEffect(() => {
+    if (!selectedEvent) return;
+
+    setBacktest(null);
+    analyticsApi
+      .getBacktest(selectedEvent)
+      .then((result) => {
+        if (result.success && result.data && result.data.matches > 0) {
+          setBacktest(result.data);
+        }
+      })
+      .catch((err) => console.error("Failed to fetch backtest:", err));
+  }, [selectedEvent]);
+
   // Get unique countries for filter
   const countries = useMemo(() => {
     const countrySet = new Set(events.map((e) => e.country));
@@ -515,6 +531,58 @@ function PredictContent() {
               </div>
             </div>
           )}
+
+          {/* Model Accuracy */}
+          {backtest && (
+            <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+              <h3 className="font-semibold mb-1">Model Accuracy at This Event</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Each of the {backtest.matches} played matches predicted using only earlier results
+              </p>
+
+              <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold">
+                    {backtest.accuracy !== null ? `${Math.round(backtest.accuracy * 100)}%` : "-"}
+                  </p>
+                  <p className="text-xs text-gray-500">Accuracy</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{backtest.brierScore ?? "-"}</p>
+                  <p className="text-xs text-gray-500">Brier Score</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{backtest.logLoss ?? "-"}</p>
+                  <p className="text-xs text-gray-500">Log Loss</p>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="py-1 font-medium">Predicted</th>
+                    <th className="py-1 font-medium text-right">Matches</th>
+                    <th className="py-1 font-medium text-right">Red Won</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {backtest.calibration
+                    .filter((bin) => bin.count > 0)
+                    .map((bin) => (
+                      <tr key={bin.binStart} className="border-t border-gray-100 dark:border-gray-800">
+                        <td className="py-1">
+                          {Math.round(bin.binStart * 100)}-{Math.round(bin.binEnd * 100)}%
+                        </td>
+                        <td className="py-1 text-right">{bin.count}</td>
+                        <td className="py-1 text-right">
+                          {bin.observedRate !== null ? `${Math.round(bin.observedRate * 100)}%` : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </>
       )}
     </div>
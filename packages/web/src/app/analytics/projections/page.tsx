@@ -0,0 +1,217 @@
+"use client";
+
+import { useCallback, useEffect, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { analyticsApi, type RankingProjection } from "@/lib/api";
+
+const TOP_OPTIONS = [4, 6, 8, 12];
+
+function formatPercent(value: number) {
+  if (value > 0 && value < 0.001) return "<0.1%";
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+// One column per finishing rank, height proportional to its probability
+function RankDistribution({
+  probabilities,
+  top,
+}: {
+  probabilities: number[];
+  top: number;
+}) {
+  const peak = Math.max(...probabilities, 0.0001);
+  return (
+    <div className="flex items-end gap-px h-8" aria-hidden>
+      {probabilities.map((p, i) => (
+        <div
+          key={i}
+          title={`Rank ${i + 1}: ${formatPercent(p)}`}
+          className={`w-1.5 rounded-sm ${i < top ? "bg-ftc-orange" : "bg-gray-400 dark:bg-gray-600"}`}
+          style={{ height: `${Math.max(p > 0 ? 2 : 0, (p / peak) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ProjectionsContent() {
+  const searchParams = useSearchParams();
+  const eventCode = searchParams.get("event") || "";
+  const highlight = parseInt(searchParams.get("team") || "0", 10);
+
+  const [top, setTop] = useState(4);
+  const [projection, setProjection] = useState<RankingProjection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProjection = useCallback(async () => {
+    if (!eventCode) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await analyticsApi.getProjectedRankings(eventCode, top);
+      if (result.success && result.data) {
+        setProjection(result.data);
+      } else {
+        setProjection(null);
+        setError(result.error || "Failed to project rankings");
+      }
+    } catch {
+      setError("Failed to project rankings");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventCode, top]);
+
+  useEffect(() => {
+    fetchProjection();
+  }, [fetchProjection]);
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <Link
+          href={`/analytics${eventCode ? `?event=${eventCode}` : ""}`}
+          className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white flex items-center gap-2 mb-4"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Analytics
+        </Link>
+        <h1 className="text-2xl font-bold">Projected Rankings</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Where teams are likely to finish after the remaining qualification matches, simulated from EPA
+        </p>
+      </div>
+
+      {!eventCode ? (
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-12 text-center text-gray-500">
+          Choose an event on the analytics page to project its rankings
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              {projection && (
+                <>
+                  {eventCode} · {projection.remainingMatches} matches left ·{" "}
+                  {projection.simulations.toLocaleString()} simulations
+                  {projection.rankingsSource === "matches" && " · official rankings unavailable, bonus RPs not included"}
+                </>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={top}
+                onChange={(e) => setTop(parseInt(e.target.value))}
+                className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-sm"
+              >
+                {TOP_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    Top {n}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={fetchProjection}
+                disabled={loading}
+                className="px-4 py-2 bg-ftc-orange text-white rounded-lg text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {loading ? "Simulating..." : "Re-run"}
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          {loading && !projection ? (
+            <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-8">
+              <div className="flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+              </div>
+            </div>
+          ) : (
+            projection && (
+              <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                      <th className="px-4 py-3 font-medium">Now</th>
+                      <th className="px-4 py-3 font-medium">Team</th>
+                      <th className="px-4 py-3 font-medium">EPA</th>
+                      <th className="px-4 py-3 font-medium">Left</th>
+                      <th className="px-4 py-3 font-medium">Exp. RP</th>
+                      <th className="px-4 py-3 font-medium">Exp. Rank</th>
+                      <th className="px-4 py-3 font-medium">Rank Distribution</th>
+                      <th className="px-4 py-3 font-medium min-w-36">Top {projection.top}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {projection.teams.map((team) => (
+                      <tr
+                        key={team.teamNumber}
+                        className={`border-b border-gray-100 dark:border-gray-800 last:border-0 ${
+                          team.teamNumber === highlight ? "bg-ftc-orange/10" : ""
+                        }`}
+                      >
+                        <td className="px-4 py-2 text-gray-500">{team.currentRank ?? "-"}</td>
+                        <td className="px-4 py-2">
+                          <Link
+                            href={`/analytics/team/${team.teamNumber}`}
+                            className="font-medium hover:text-ftc-orange"
+                          >
+                            {team.teamNumber}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-2 tabular-nums">{team.epa?.toFixed(1) ?? "-"}</td>
+                        <td className="px-4 py-2 tabular-nums">{team.remainingMatches}</td>
+                        <td className="px-4 py-2 tabular-nums">{team.expectedRankingPoints.toFixed(1)}</td>
+                        <td className="px-4 py-2 tabular-nums font-medium">{team.expectedRank.toFixed(1)}</td>
+                        <td className="px-4 py-2">
+                          <RankDistribution probabilities={team.rankProbabilities} top={projection.top} />
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-ftc-orange rounded-full"
+                                style={{ width: `${team.topProbability * 100}%` }}
+                              />
+                            </div>
+                            <span className="w-14 text-right text-xs tabular-nums">
+                              {formatPercent(team.topProbability)}
+                            </span>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function ProjectionsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      }
+    >
+      <ProjectionsContent />
+    </Suspense>
+  );
+}
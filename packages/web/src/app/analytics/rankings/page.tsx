@@ -9,6 +9,7 @@ import {
   type OPRResult,
   type EPAResult,
 } from "@/lib/api";
+import { OfflineEventButton, OfflineSnapshotNotice } from "@/components/event-snapshot";
 
 interface Event {
   code: string;
@@ -54,6 +55,7 @@ function RankingsContent() {
   const [epaData, setEpaData] = useState<EPAResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [matchCount, setMatchCount] = useState(0);
+  const [snapshotAt, setSnapshotAt] = useState<Array<number | undefined>>([]);
 
   // Fetch events
   useEffect(() => {
@@ -111,6 +113,7 @@ function RankingsContent() {
       setOprData([]);
       setEpaData([]);
       setMatchCount(0);
+      setSnapshotAt([]);
 
       try {
         const [oprResult, epaResult] = await Promise.all([
@@ -126,6 +129,7 @@ function RankingsContent() {
         if (epaResult.success && epaResult.data) {
           setEpaData(epaResult.data.rankings);
         }
+        setSnapshotAt([oprResult.snapshotAt, epaResult.snapshotAt]);
       } catch (err) {
         console.error("Failed to fetch analytics:", err);
       } finally {
@@ -293,6 +297,9 @@ function RankingsContent() {
                   <p className="text-sm text-gray-600 dark:text-gray-400">
                     {selectedEvent.city}, {selectedEvent.stateprov} &bull; {selectedEvent.code}
                   </p>
+                  <div className="mt-2">
+                    <OfflineEventButton eventCode={selectedEvent.code} />
+                  </div>
                 </div>
                 <button
                   onClick={() => setSelectedEventCode("")}
@@ -310,6 +317,8 @@ function RankingsContent() {
 
       {selectedEventCode && (
         <>
+          <OfflineSnapshotNotice snapshotAt={snapshotAt} />
+
           {/* Stats Summary */}
           <div className="grid grid-cols-3 gap-4 mb-6">
             <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 text-center">
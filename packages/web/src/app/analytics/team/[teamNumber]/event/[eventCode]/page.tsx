@@ -9,10 +9,13 @@ import {
   scoutingApi,
   ftcTeamsApi,
   eventsApi,
+  teamsApi,
   type OPRResult,
   type EPAResult,
   type TeamMatchBreakdown,
 } from "@/lib/api";
+import { useTeamFeed } from "@/lib/realtime";
+import { OfflineEventButton, OfflineSnapshotNotice } from "@/components/event-snapshot";
 
 interface TeamInfo {
   teamNumber: number;
@@ -709,6 +712,31 @@ function TeamEventAnalyticsContent() {
   const [notes, setNotes] = useState<ScoutingNote[]>([]);
   const [entries, setEntries] = useState<ScoutingEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [snapshotAt, setSnapshotAt] = useState<Array<number | undefined>>([]);
+  const [myTeamIds, setMyTeamIds] = useState<string[]>([]);
+  const [liveKey, setLiveKey] = useState(0);
+
+  // Subscribe to the user's scouting teams so new entries and notes appear live
+  useEffect(() => {
+    async function fetchMyTeams() {
+      if (!session?.user?.id) return;
+      try {
+        const result = await teamsApi.getMyTeams();
+        if (result.success && result.data) {
+          setMyTeamIds(result.data.map((t) => t.teamId));
+        }
+      } catch (err) {
+        console.error("Failed to fetch user teams:", err);
+      }
+    }
+    fetchMyTeams();
+  }, [session?.user?.id]);
+
+  useTeamFeed(myTeamIds, (_event, data) => {
+    if (data.eventCode !== eventCode) return;
+    if (data.teamNumber !== undefined && data.teamNumber !== teamNumber) return;
+    setLiveKey((k) => k + 1);
+  });
 
   useEffect(() => {
     async function fetchData() {
@@ -729,7 +757,7 @@ function TeamEventAnalyticsContent() {
           scoutingApi.getTeamSummary(teamNumber, eventCode),
           analyticsApi.getTeamMatches(teamNumber, eventCode),
           session?.user?.id
-            ? scoutingApi.getNotes(session.user.id, {
+            ? scoutingApi.getNotes({
                 aboutTeamNumber: teamNumber,
                 eventCode,
               })
@@ -755,6 +783,11 @@ function TeamEventAnalyticsContent() {
         if (notesResult.success && notesResult.data) {
           setNotes(notesResult.data as ScoutingNote[]);
         }
+        setSnapshotAt([
+          analyticsResult.snapshotAt,
+          scoutingResult.snapshotAt,
+          matchesResult.snapshotAt,
+        ]);
       } catch (err) {
         console.error("Failed to fetch team event data:", err);
       } finally {
@@ -769,7 +802,7 @@ function TeamEventAnalyticsContent() {
     async function fetchEntries() {
       if (!session?.user?.id) return;
       try {
-        const entriesResult = await scoutingApi.getEntries(session.user.id, {
+        const entriesResult = await scoutingApi.getEntries({
           eventCode,
           teamNumber,
         });
@@ -781,7 +814,30 @@ function TeamEventAnalyticsContent() {
       }
     }
     fetchEntries();
-  }, [session?.user?.id, teamNumber, eventCode]);
+  }, [session?.user?.id, teamNumber, eventCode, liveKey]);
+
+  // Refresh the scouting summary and notes on live updates
+  useEffect(() => {
+    if (liveKey === 0 || !session?.user?.id) return;
+    const userId = session.user.id;
+    async function refreshScouting() {
+      try {
+        const [scoutingResult, notesResult] = await Promise.all([
+          scoutingApi.getTeamSummary(teamNumber, eventCode),
+          scoutingApi.getNotes({ aboutTeamNumber: teamNumber, eventCode }),
+        ]);
+        if (scoutingResult.success && scoutingResult.data) {
+          setScouting(scoutingResult.data);
+        }
+        if (notesResult.success && notesResult.data) {
+          setNotes(notesResult.data as ScoutingNote[]);
+        }
+      } catch (err) {
+        console.error("Failed to refresh scouting data:", err);
+      }
+    }
+    refreshScouting();
+  }, [liveKey, session?.user?.id, teamNumber, eventCode]);
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -827,10 +883,15 @@ function TeamEventAnalyticsContent() {
                 {eventInfo.name}
               </p>
             )}
+            <div className="mt-3">
+              <OfflineEventButton eventCode={eventCode} />
+            </div>
           </div>
         )}
       </div>
 
+      <OfflineSnapshotNotice snapshotAt={snapshotAt} />
+
       {loading ? (
         <div className="flex items-center justify-center py-12">
           <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
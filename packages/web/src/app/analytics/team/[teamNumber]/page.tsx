@@ -11,6 +11,7 @@ import {
   type OPRResult,
   type EPAResult,
   type TeamMatchBreakdown,
+  type EPAHistoryPoint,
 } from "@/lib/api";
 import {
   LineChart,
@@ -23,6 +24,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
+  ReferenceLine,
 } from "recharts";
 
 interface TeamInfo {
@@ -53,6 +55,8 @@ interface EventDetail {
   epa: EPAResult | null;
   scouting: {
     matchCount: number;
+    entryCount?: number;
+    conflictCount?: number;
     averages: {
       autoScore: number;
       teleopScore: number;
@@ -97,7 +101,23 @@ function abbreviateEventName(name: string): string {
   return shortened.substring(0, 16) + "...";
 }
 
-function SeasonalPerformance({ data, loading }: { data: SeasonalDataPoint[]; loading: boolean }) {
+interface EPATimelinePoint extends EPAHistoryPoint {
+  index: number;
+  eventName: string;
+  shortName: string;
+}
+
+function SeasonalPerformance({
+  data,
+  history,
+  eventNames,
+  loading,
+}: {
+  data: SeasonalDataPoint[];
+  history: EPAHistoryPoint[];
+  eventNames: Record<string, string>;
+  loading: boolean;
+}) {
   if (loading) {
     return (
       <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mb-6">
@@ -112,7 +132,7 @@ function SeasonalPerformance({ data, loading }: { data: SeasonalDataPoint[]; loa
     );
   }
 
-  if (data.length === 0) {
+  if (data.length === 0 && history.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mb-6">
         <h2 className="text-lg font-semibold mb-1">Seasonal Performance</h2>
@@ -123,7 +143,20 @@ function SeasonalPerformance({ data, loading }: { data: SeasonalDataPoint[]; loa
     );
   }
 
-  const epaData = data.filter((d) => d.epa !== null);
+  // Season-long EPA curve: one point per match, in the order EPA was computed
+  const timeline: EPATimelinePoint[] = history.map((point, i) => {
+    const eventName = eventNames[point.eventCode] || point.eventCode;
+    return {
+      ...point,
+      index: i + 1,
+      eventName,
+      shortName: abbreviateEventName(eventName),
+    };
+  });
+  const eventStarts = timeline.filter(
+    (point, i) => i === 0 || timeline[i - 1].eventCode !== point.eventCode
+  );
+  const eventCount = Math.max(data.length, eventStarts.length);
   const oprData = data.filter((d) => d.opr !== null);
 
   // Find the most recent event with component breakdown data
@@ -136,7 +169,7 @@ function SeasonalPerformance({ data, loading }: { data: SeasonalDataPoint[]; loa
         d.endgameEpa !== null
     );
 
-  const hasEpaChart = epaData.length > 0;
+  const hasEpaChart = timeline.length > 0;
   const hasOprChart = oprData.length > 0;
   const hasBreakdown = latestWithBreakdown !== null && latestWithBreakdown !== undefined;
 
@@ -175,72 +208,79 @@ function SeasonalPerformance({ data, loading }: { data: SeasonalDataPoint[]; loa
     <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mb-6">
       <h2 className="text-lg font-semibold mb-1">Seasonal Performance</h2>
       <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
-        Across {data.length} event{data.length !== 1 ? "s" : ""}
+        Across {eventCount} event{eventCount !== 1 ? "s" : ""}
       </p>
 
-      {/* EPA and OPR charts side by side on desktop */}
-      <div className="grid gap-6 md:grid-cols-2">
-        {/* EPA Line Chart */}
-        {hasEpaChart && (
-          <div>
-            <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">
-              EPA Across Events
-            </h3>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart
-                data={epaData}
-                margin={{ top: 5, right: 20, left: 0, bottom: 60 }}
-              >
-                <CartesianGrid
-                  strokeDasharray="3 3"
-                  stroke="currentColor"
-                  className="text-gray-200 dark:text-gray-700"
-                />
-                <XAxis
-                  dataKey="shortName"
-                  tick={{ fontSize: 11, fill: "#9ca3af" }}
-                  angle={-35}
-                  textAnchor="end"
-                  height={60}
-                  interval={0}
-                />
-                <YAxis
-                  tick={{ fontSize: 11, fill: "#9ca3af" }}
-                  width={45}
-                />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: "rgba(17, 24, 39, 0.95)",
-                    border: "1px solid #374151",
-                    borderRadius: "8px",
-                    color: "#f3f4f6",
-                    fontSize: 13,
-                  }}
-                  labelFormatter={(_, payload) => {
-                    if (payload && payload.length > 0) {
-                      return payload[0]?.payload?.eventName || "";
-                    }
-                    return "";
-                  }}
-                  formatter={(value) => {
-                    const v = Number(value) || 0;
-                    return [`${v >= 0 ? "+" : ""}${v.toFixed(1)}`, "EPA"];
-                  }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="epa"
-                  stroke="#f57c25"
-                  strokeWidth={2.5}
-                  dot={{ r: 5, fill: "#f57c25", strokeWidth: 0 }}
-                  activeDot={{ r: 7, fill: "#f57c25", strokeWidth: 2, stroke: "#fff" }}
-                  name="EPA"
+      {/* Season-long EPA curve */}
+      {hasEpaChart && (
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">
+            EPA Over the Season
+          </h3>
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart
+              data={timeline}
+              margin={{ top: 20, right: 20, left: 0, bottom: 5 }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="currentColor"
+                className="text-gray-200 dark:text-gray-700"
+              />
+              <XAxis
+                dataKey="index"
+                tick={{ fontSize: 11, fill: "#9ca3af" }}
+                label={{ value: "Match", position: "insideBottomRight", offset: -2, fontSize: 11, fill: "#9ca3af" }}
+              />
+              <YAxis
+                tick={{ fontSize: 11, fill: "#9ca3af" }}
+                width={45}
+              />
+              {eventStarts.map((point) => (
+                <ReferenceLine
+                  key={point.eventCode}
+                  x={point.index}
+                  stroke="#9ca3af"
+                  strokeDasharray="4 4"
+                  label={{ value: point.shortName, position: "top", fontSize: 10, fill: "#9ca3af" }}
                 />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        )}
+              ))}
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "rgba(17, 24, 39, 0.95)",
+                  border: "1px solid #374151",
+                  borderRadius: "8px",
+                  color: "#f3f4f6",
+                  fontSize: 13,
+                }}
+                labelFormatter={(_, payload) => {
+                  const point = payload?.[0]?.payload as EPATimelinePoint | undefined;
+                  return point ? `${point.eventName} · Q${point.matchNumber}` : "";
+                }}
+                formatter={(value, name) => {
+                  const v = Number(value) || 0;
+                  return [`${v >= 0 ? "+" : ""}${v.toFixed(1)}`, name];
+                }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line
+                type="monotone"
+                dataKey="epa"
+                stroke="#f57c25"
+                strokeWidth={2.5}
+                dot={false}
+                activeDot={{ r: 5, fill: "#f57c25", strokeWidth: 2, stroke: "#fff" }}
+                name="EPA"
+              />
+              <Line type="monotone" dataKey="autoEpa" stroke="#3b82f6" strokeWidth={1.5} dot={false} name="Auto" />
+              <Line type="monotone" dataKey="teleopEpa" stroke="#10b981" strokeWidth={1.5} dot={false} name="Teleop" />
+              <Line type="monotone" dataKey="endgameEpa" stroke="#a855f7" strokeWidth={1.5} dot={false} name="Endgame" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
 
+      <div className="grid gap-6">
         {/* OPR Bar Chart */}
         {hasOprChart && (
           <div>
@@ -376,6 +416,7 @@ function TeamAnalyticsContent() {
   const [detailLoading, setDetailLoading] = useState<string | null>(null);
   const [seasonalData, setSeasonalData] = useState<SeasonalDataPoint[]>([]);
   const [seasonalLoading, setSeasonalLoading] = useState(true);
+  const [epaHistory, setEpaHistory] = useState<EPAHistoryPoint[]>([]);
   const [teamRankings, setTeamRankings] = useState<{
     worldRank: number;
     worldTotal: number;
@@ -468,6 +509,14 @@ function TeamAnalyticsContent() {
 
           console.log("[Analytics] Fetching seasonal analytics for", pastEvents.length, "past events");
 
+          // Per-match EPA trajectory recorded during ranking computation
+          const historyResult = await analyticsApi
+            .getTeamEPAHistory(teamNumber)
+            .catch(() => null);
+          setEpaHistory(
+            historyResult?.success && historyResult.data ? historyResult.data.history : []
+          );
+
           if (pastEvents.length > 0) {
             const analyticsResults = await Promise.all(
               pastEvents.map((event) =>
@@ -809,7 +858,14 @@ function TeamAnalyticsContent() {
       ) : (
         <div className="space-y-3">
           {/* Seasonal Performance Charts */}
-          <SeasonalPerformance data={seasonalData} loading={seasonalLoading} />
+          <SeasonalPerformance
+            data={seasonalData}
+            history={epaHistory}
+            eventNames={Object.fromEntries(
+              eventSummaries.map((e) => [e.eventCode, e.eventName])
+            )}
+            loading={seasonalLoading}
+          />
 
           {/* Past Events */}
           {pastEvents.length > 0 && (
@@ -1317,7 +1373,14 @@ function EventCard({
               {detail.scouting?.averages && (
                 <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
                   <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">
-                    Scouting Averages ({detail.scouting.matchCount} entries)
+                    Scouting Averages ({detail.scouting.matchCount} matches
+                    {detail.scouting.entryCount !== undefined &&
+                      detail.scouting.entryCount > detail.scouting.matchCount &&
+                      ` from ${detail.scouting.entryCount} entries`}
+                    {detail.scouting.conflictCount
+                      ? `, ${detail.scouting.conflictCount} with scouts disagreeing`
+                      : ""}
+                    )
                   </h3>
                   <div className="grid gap-4 md:grid-cols-3">
                     <div>
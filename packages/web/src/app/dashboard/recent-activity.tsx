@@ -3,7 +3,17 @@
 import { useSession } from "next-auth/react";
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import {
+  CURRENT_SEASON,
+  getCurrentGame,
+  getEntryScoringValues,
+  getGameDefinition,
+  getPhaseElements,
+  type ScoringElement,
+  type ScoringValues,
+} from "@ftcmetrics/shared";
 import { teamsApi, scoutingApi } from "@/lib/api";
+import { useTeamFeed } from "@/lib/realtime";
 
 interface ScoutingEntry {
   id: string;
@@ -15,6 +25,8 @@ interface ScoutingEntry {
   eventCode: string;
   matchNumber: number;
   alliance: string;
+  season?: number;
+  scoringData?: ScoringValues | null;
   autoLeave: boolean;
   autoClassifiedCount: number;
   autoOverflowCount: number;
@@ -72,6 +84,45 @@ interface UserTeam {
   };
 }
 
+const BREAKDOWN_PHASES = [
+  { phase: "auto", label: "Autonomous", color: "text-ftc-orange", scoreKey: "autoScore" },
+  { phase: "teleop", label: "Teleop", color: "text-ftc-blue", scoreKey: "teleopScore" },
+  { phase: "endgame", label: "Endgame", color: "text-green-500", scoreKey: "endgameScore" },
+] as const;
+
+// Per-element scoring breakdown using the entry's game definition
+function ScoringBreakdown({ entry }: { entry: ScoutingEntry }) {
+  const game = getGameDefinition(entry.season ?? CURRENT_SEASON) ?? getCurrentGame();
+  const values = getEntryScoringValues(game, { ...entry });
+
+  const formatValue = (el: ScoringElement) => {
+    const value = values[el.key];
+    if (el.kind === "boolean") return value ? `Yes (${el.points})` : "No (0)";
+    if (el.kind === "count") return `${value} (${Number(value) * el.points})`;
+    return el.states.find((s) => s.value === value)?.label ?? String(value);
+  };
+
+  return (
+    <>
+      {BREAKDOWN_PHASES.map(({ phase, label, color, scoreKey }) => (
+        <div key={phase}>
+          <p className={`text-xs font-semibold ${color} uppercase tracking-wide mb-1.5`}>
+            {label} — {entry[scoreKey]} pts
+          </p>
+          <div className="grid grid-cols-2 gap-1.5 text-sm">
+            {getPhaseElements(game, phase).map((el) => (
+              <div key={el.key} className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
+                <span className="text-gray-500 dark:text-gray-400">{el.label}</span>
+                <span className="font-medium">{formatValue(el)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
 export function RecentActivity() {
   const { data: session } = useSession();
   const [entries, setEntries] = useState<ScoutingEntry[]>([]);
@@ -84,6 +135,13 @@ export function RecentActivity() {
     totalTeams: 0,
     totalEvents: 0,
   });
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Refetch when a teammate submits an entry or note
+  useTeamFeed(
+    teams.map((t) => t.teamId),
+    () => setRefreshKey((k) => k + 1)
+  );
 
   useEffect(() => {
     async function fetchData() {
@@ -94,7 +152,7 @@ export function RecentActivity() {
 
       try {
         // First fetch user's teams
-        const teamsResult = await teamsApi.getMyTeams(session.user.id);
+        const teamsResult = await teamsApi.getMyTeams();
         if (teamsResult.success && teamsResult.data) {
           setTeams(teamsResult.data);
 
@@ -104,7 +162,7 @@ export function RecentActivity() {
           const eventCodes = new Set<string>();
 
           const fetchPromises = teamsResult.data.flatMap(({ teamId }) => [
-            scoutingApi.getEntries(session.user!.id, {
+            scoutingApi.getEntries({
               scoutingTeamId: teamId,
             }).then((result) => {
               if (result.success && result.data) {
@@ -113,7 +171,7 @@ export function RecentActivity() {
                 teamEntries.forEach((e) => eventCodes.add(e.eventCode));
               }
             }),
-            scoutingApi.getNotes(session.user!.id, { notingTeamId: teamId }).then((result) => {
+            scoutingApi.getNotes({ notingTeamId: teamId }).then((result) => {
               if (result.success && result.data) {
                 allNotes.push(...(result.data as ScoutingNote[]));
               }
@@ -150,7 +208,7 @@ export function RecentActivity() {
     }
 
     fetchData();
-  }, [session?.user?.id]);
+  }, [session?.user?.id, refreshKey]);
 
   if (loading) {
     return (
@@ -313,64 +371,7 @@ export function RecentActivity() {
                     {/* Expanded scoring breakdown */}
                     {isExpanded && (
                       <div className="px-3 pb-3 space-y-3 border-t border-gray-200 dark:border-gray-700 pt-3 mx-3">
-                        {/* Autonomous */}
-                        <div>
-                          <p className="text-xs font-semibold text-ftc-orange uppercase tracking-wide mb-1.5">Autonomous — {entry.autoScore} pts</p>
-                          <div className="grid grid-cols-2 gap-1.5 text-sm">
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Leave</span>
-                              <span className="font-medium">{entry.autoLeave ? "Yes (3)" : "No (0)"}</span>
-                            </div>
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Classified</span>
-                              <span className="font-medium">{entry.autoClassifiedCount} ({entry.autoClassifiedCount * 3})</span>
-                            </div>
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Overflow</span>
-                              <span className="font-medium">{entry.autoOverflowCount} ({entry.autoOverflowCount})</span>
-                            </div>
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Pattern</span>
-                              <span className="font-medium">{entry.autoPatternCount} ({entry.autoPatternCount * 2})</span>
-                            </div>
-                          </div>
-                        </div>
-
-                        {/* Teleop */}
-                        <div>
-                          <p className="text-xs font-semibold text-ftc-blue uppercase tracking-wide mb-1.5">Teleop — {entry.teleopScore} pts</p>
-                          <div className="grid grid-cols-2 gap-1.5 text-sm">
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Classified</span>
-                              <span className="font-medium">{entry.teleopClassifiedCount} ({entry.teleopClassifiedCount * 3})</span>
-                            </div>
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Overflow</span>
-                              <span className="font-medium">{entry.teleopOverflowCount} ({entry.teleopOverflowCount})</span>
-                            </div>
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Depot</span>
-                              <span className="font-medium">{entry.teleopDepotCount} ({entry.teleopDepotCount})</span>
-                            </div>
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Pattern</span>
-                              <span className="font-medium">{entry.teleopPatternCount} ({entry.teleopPatternCount * 2})</span>
-                            </div>
-                            <div className="flex justify-between bg-white dark:bg-gray-900 rounded px-2.5 py-1">
-                              <span className="text-gray-500 dark:text-gray-400">Motif</span>
-                              <span className="font-medium">{entry.teleopMotifCount} ({entry.teleopMotifCount * 2})</span>
-                            </div>
-                          </div>
-                        </div>
-
-                        {/* Endgame */}
-                        <div>
-                          <p className="text-xs font-semibold text-green-500 uppercase tracking-wide mb-1.5">Endgame — {entry.endgameScore} pts</p>
-                          <div className="text-sm bg-white dark:bg-gray-900 rounded px-2.5 py-1 inline-block">
-                            <span className="text-gray-500 dark:text-gray-400">Base: </span>
-                            <span className="font-medium">{entry.endgameBaseStatus}</span>
-                          </div>
-                        </div>
+                        <ScoringBreakdown entry={entry} />
 
                         {/* Alliance Notes */}
                         {entry.allianceNotes && (
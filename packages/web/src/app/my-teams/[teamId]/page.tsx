@@ -4,7 +4,22 @@ import { useSession } from "next-auth/react";
 import { useParams, useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import { teamsApi, scoutingApi } from "@/lib/api";
+import {
+  hasCapability,
+  isCapabilityConfigurable,
+  type ConfigurableRole,
+  type PermissionOverrides,
+  type TeamCapability,
+} from "@ftcmetrics/shared";
+import {
+  teamsApi,
+  scoutingApi,
+  accuracyApi,
+  type AuditLogEntry,
+  type ScoutAccuracy,
+  type TeamPermissions,
+} from "@/lib/api";
+import { ImportSection } from "@/components/import-section";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api";
 console.log("[TeamDetail] Resolved API_URL:", API_URL);
@@ -20,6 +35,7 @@ interface TeamMember {
   id: string;
   userId: string;
   role: string;
+  scoutWeight?: number;
   user: {
     id: string;
     name: string;
@@ -66,6 +82,7 @@ interface TeamDetails {
   members: TeamMember[];
   invites: TeamInvite[];
   media: TeamMedia[];
+  capabilities?: TeamCapability[];
 }
 
 export default function TeamDetailPage() {
@@ -97,6 +114,10 @@ export default function TeamDetailPage() {
   const isMember = team?.members.some((m) => m.userId === currentUserId);
   const currentUserMembership = team?.members.find((m) => m.userId === currentUserId);
   const isAdmin = currentUserMembership?.role === "MENTOR" || currentUserMembership?.role === "LEADER";
+  const canManageMembers = team?.capabilities?.includes("manage-members") ?? false;
+  const canManageInvites = team?.capabilities?.includes("manage-invites") ?? false;
+  const canManageMedia = team?.capabilities?.includes("manage-media") ?? false;
+  const canImport = team?.capabilities?.includes("import") ?? false;
 
   useEffect(() => {
     console.log("[TeamDetail] useEffect fired for teamId:", teamId, "userId:", session?.user?.id);
@@ -109,8 +130,8 @@ export default function TeamDetailPage() {
     console.log("[TeamDetail] fetchTeam called for teamId:", teamId);
     try {
       const [teamResult, statsResult] = await Promise.all([
-        teamsApi.getTeam(session.user.id, teamId),
-        scoutingApi.getTeamStats(session.user.id, teamId),
+        teamsApi.getTeam(teamId),
+        scoutingApi.getTeamStats(teamId),
       ]);
 
       console.log("[TeamDetail] Promise.all results - team:", teamResult, "stats:", statsResult);
@@ -144,7 +165,10 @@ export default function TeamDetailPage() {
     setTimeout(() => setCopiedCode(null), 2000);
   };
 
-  const handleRoleChange = async (memberId: string, newRole: string) => {
+  const handleMemberUpdate = async (
+    memberId: string,
+    data: { role?: string; scoutWeight?: number }
+  ) => {
     if (!session?.user?.id) return;
 
     setRoleUpdating(true);
@@ -152,20 +176,19 @@ export default function TeamDetailPage() {
 
     try {
       const result = await teamsApi.updateMember(
-        session.user.id,
         teamId,
         memberId,
-        { role: newRole }
+        data
       );
 
       if (result.success) {
         await fetchTeam();
       } else {
-        setRoleError(result.error || "Failed to update role");
+        setRoleError(result.error || "Failed to update member");
         setTimeout(() => setRoleError(null), 4000);
       }
     } catch (err) {
-      setRoleError("Failed to update role");
+      setRoleError("Failed to update member");
       setTimeout(() => setRoleError(null), 4000);
     } finally {
       setRoleUpdating(false);
@@ -176,7 +199,7 @@ export default function TeamDetailPage() {
     if (!session?.user?.id) return;
     setDeletingMedia(mediaId);
     try {
-      const result = await teamsApi.removeMedia(session.user.id, teamId, mediaId);
+      const result = await teamsApi.removeMedia(teamId, mediaId);
       if (result.success) {
         await fetchTeam();
       }
@@ -285,7 +308,10 @@ export default function TeamDetailPage() {
           <div className="space-y-3">
             {team.members.map((member) => {
               const isSelf = member.userId === session?.user?.id;
-              const canEditRole = isSelf || isAdmin;
+              // Only mentors may change mentors, and nobody changes their own role
+              const canEditMember =
+                canManageMembers && (member.role !== "MENTOR" || currentUserMembership?.role === "MENTOR");
+              const canEditRole = canEditMember && !isSelf;
 
               return (
                 <div
@@ -320,11 +346,28 @@ export default function TeamDetailPage() {
                       </p>
                     </div>
                   </div>
+                  <div className="flex items-center gap-2">
+                  {/* How much this scout counts when teammates record the same robot-match */}
+                  {canEditMember && member.role !== "FRIEND" && (
+                    <select
+                      value={String(member.scoutWeight ?? 1)}
+                      disabled={roleUpdating}
+                      onChange={(e) => handleMemberUpdate(member.id, { scoutWeight: Number(e.target.value) })}
+                      title="Scout weight in multi-scout consensus"
+                      className="px-2 py-1 rounded text-xs border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 disabled:opacity-50"
+                    >
+                      <option value="0">Ignored</option>
+                      <option value="0.5">Low trust</option>
+                      <option value="1">Normal</option>
+                      <option value="2">Trusted</option>
+                      <option value="3">Very trusted</option>
+                    </select>
+                  )}
                   {canEditRole ? (
                     <select
                       value={member.role}
                       disabled={roleUpdating}
-                      onChange={(e) => handleRoleChange(member.id, e.target.value)}
+                      onChange={(e) => handleMemberUpdate(member.id, { role: e.target.value })}
                       className={`px-2 py-1 rounded text-xs font-medium border cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                         member.role === "MENTOR"
                           ? "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800"
@@ -335,7 +378,9 @@ export default function TeamDetailPage() {
                           : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700"
                       }`}
                     >
-                      <option value="MENTOR">Mentor</option>
+                      <option value="MENTOR" disabled={currentUserMembership?.role !== "MENTOR"}>
+                        Mentor
+                      </option>
                       <option value="LEADER">Leader</option>
                       <option value="STUDENT">Student</option>
                       <option value="FRIEND">Friend</option>
@@ -355,6 +400,7 @@ export default function TeamDetailPage() {
                       {member.role.charAt(0) + member.role.slice(1).toLowerCase()}
                     </span>
                   )}
+                  </div>
                 </div>
               );
             })}
@@ -365,7 +411,7 @@ export default function TeamDetailPage() {
         <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
           <div className="flex justify-between items-center mb-4">
             <h2 className="font-semibold text-lg">Invite Codes</h2>
-            {isAdmin && (
+            {canManageInvites && (
               <button
                 onClick={() => setShowInviteModal(true)}
                 className="text-sm text-ftc-orange hover:underline"
@@ -374,7 +420,11 @@ export default function TeamDetailPage() {
               </button>
             )}
           </div>
-          {team.invites.length === 0 ? (
+          {!canManageInvites ? (
+            <p className="text-gray-500 dark:text-gray-400 text-sm py-4 text-center">
+              Ask a mentor for an invite code to add new members
+            </p>
+          ) : team.invites.length === 0 ? (
             <p className="text-gray-500 dark:text-gray-400 text-sm py-4 text-center">
               No active invite codes
             </p>
@@ -469,6 +519,33 @@ export default function TeamDetailPage() {
         </div>
       </div>
 
+      {/* Scout Accuracy */}
+      {session?.user?.id && isMember && team.capabilities?.includes("view-scouting") && (
+        <ScoutAccuracySection
+          teamId={teamId}
+          canManageMembers={canManageMembers}
+          onWeightsApplied={fetchTeam}
+        />
+      )}
+
+      {/* Role Permissions */}
+      {session?.user?.id && currentUserMembership?.role === "MENTOR" && (
+        <PermissionsSection
+          teamId={teamId}
+          onSaved={fetchTeam}
+        />
+      )}
+
+      {/* Data Import */}
+      {session?.user?.id && canImport && (
+        <ImportSection teamId={teamId} />
+      )}
+
+      {/* Activity Log */}
+      {session?.user?.id && isAdmin && (
+        <ActivityLogSection teamId={teamId} />
+      )}
+
       {/* Team Profile */}
       <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
         <div className="flex justify-between items-center mb-4">
@@ -558,7 +635,7 @@ export default function TeamDetailPage() {
       <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
         <div className="flex justify-between items-center mb-4">
           <h2 className="font-semibold text-lg">Media</h2>
-          {isAdmin && (
+          {canManageMedia && (
             <button
               onClick={() => setShowMediaModal(mediaTab)}
               className="text-sm text-ftc-orange hover:underline"
@@ -654,7 +731,7 @@ export default function TeamDetailPage() {
                         </p>
                       )}
                     </div>
-                    {isAdmin && (
+                    {canManageMedia && (
                       <button
                         onClick={() => handleDeleteMedia(item.id)}
                         disabled={deletingMedia === item.id}
@@ -678,7 +755,6 @@ export default function TeamDetailPage() {
       {showInviteModal && (
         <CreateInviteModal
           teamId={teamId}
-          userId={session?.user?.id || ""}
           onClose={() => setShowInviteModal(false)}
           onCreated={fetchTeam}
         />
@@ -688,7 +764,6 @@ export default function TeamDetailPage() {
       {showSettingsModal && (
         <TeamSettingsModal
           team={team}
-          userId={session?.user?.id || ""}
           onClose={() => setShowSettingsModal(false)}
           onUpdated={fetchTeam}
         />
@@ -698,7 +773,6 @@ export default function TeamDetailPage() {
       {showProfileModal && (
         <EditProfileModal
           team={team}
-          userId={session?.user?.id || ""}
           onClose={() => setShowProfileModal(false)}
           onUpdated={fetchTeam}
         />
@@ -708,7 +782,6 @@ export default function TeamDetailPage() {
       {showMediaModal && (
         <AddMediaModal
           teamId={teamId}
-          userId={session?.user?.id || ""}
           defaultType={showMediaModal}
           onClose={() => setShowMediaModal(null)}
           onAdded={fetchTeam}
@@ -719,14 +792,464 @@ export default function TeamDetailPage() {
 }
 
 // Create Invite Modal Component
+// Absolute total error per graded match, oldest first
+function ErrorSparkline({ history }: { history: ScoutAccuracy["history"] }) {
+  if (history.length < 2) return null;
+  const values = history.map((h) => Math.abs(h.error.total));
+  const max = Math.max(...values, 1);
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * 100},${24 - (v / max) * 22}`)
+    .join(" ");
+  return (
+    <svg viewBox="0 0 100 26" preserveAspectRatio="none" className="w-24 h-6">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+function ScoutAccuracySection({
+  teamId,
+  canManageMembers,
+  onWeightsApplied,
+}: {
+  teamId: string;
+  canManageMembers: boolean;
+  onWeightsApplied: () => void;
+}) {
+  const [data, setData] = useState<{
+    eventCodes: string[];
+    teamMedianError: number | null;
+    matchesCompared: number;
+    minMatches: number;
+    scouts: ScoutAccuracy[];
+  } | null>(null);
+  const [eventCode, setEventCode] = useState("");
+  const [eventOptions, setEventOptions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    accuracyApi.getAccuracy(teamId, eventCode || undefined).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setData(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load scout accuracy");
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId, eventCode]);
+
+  const handleApplyWeights = async () => {
+    setApplying(true);
+    setMessage(null);
+    const result = await accuracyApi.applyWeights(teamId, eventCode || undefined);
+    if (result.success && result.data) {
+      setMessage(
+        result.data.length > 0
+          ? `Updated consensus weights for ${result.data.length} scout${result.data.length === 1 ? "" : "s"}`
+          : "No scout has enough graded matches yet"
+      );
+      onWeightsApplied();
+    } else {
+      setError(result.error || "Failed to apply weights");
+    }
+    setApplying(false);
+  };
+
+  useEffect(() => {
+    // Keep the full list once a single event is selected
+    if (!eventCode && data) setEventOptions(data.eventCodes);
+  }, [data, eventCode]);
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-2">
+        <h2 className="font-semibold text-lg">Scout Accuracy</h2>
+        <div className="flex items-center gap-2">
+          {eventOptions.length > 1 && (
+            <select
+              value={eventCode}
+              onChange={(e) => setEventCode(e.target.value)}
+              className="px-2 py-1 rounded text-sm border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+            >
+              <option value="">All events</option>
+              {eventOptions.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          )}
+          {canManageMembers && data && data.scouts.length > 0 && (
+            <button
+              onClick={handleApplyWeights}
+              disabled={applying}
+              className="px-3 py-1.5 text-sm bg-ftc-orange text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+            >
+              {applying ? "Applying..." : "Apply as Consensus Weights"}
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        When both robots on an alliance were scouted, their phase scores are added up and
+        compared with the official auto, teleop and endgame points.
+        {data?.teamMedianError !== null && data?.teamMedianError !== undefined && (
+          <> Team median error: {data.teamMedianError} pts per match.</>
+        )}
+      </p>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-3 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-700 dark:text-green-400 text-sm">
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-ftc-orange"></div>
+        </div>
+      ) : !data || data.scouts.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm py-4 text-center">
+          No graded matches yet. Scout both robots on an alliance to compare against official scores.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                <th className="py-2 pr-3 font-medium">Scout</th>
+                <th className="py-2 px-3 font-medium text-right">Matches</th>
+                <th className="py-2 px-3 font-medium text-right">Avg Error</th>
+                <th className="py-2 px-3 font-medium text-right">Auto / Teleop / Endgame</th>
+                <th className="py-2 px-3 font-medium text-right">Bias</th>
+                <th className="py-2 px-3 font-medium">Trend</th>
+                <th className="py-2 pl-3 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.scouts.map((scout) => (
+                <tr key={scout.scouterId} className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+                  <td className="py-2 pr-3 font-medium">{scout.scouter?.name ?? "Former member"}</td>
+                  <td className="py-2 px-3 text-right">{scout.matches}</td>
+                  <td className="py-2 px-3 text-right font-semibold">{scout.meanAbsoluteError.total}</td>
+                  <td className="py-2 px-3 text-right text-gray-600 dark:text-gray-400">
+                    {scout.meanAbsoluteError.auto} / {scout.meanAbsoluteError.teleop} / {scout.meanAbsoluteError.endgame}
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-600 dark:text-gray-400">
+                    {scout.bias > 0 ? `+${scout.bias}` : scout.bias}
+                  </td>
+                  <td className="py-2 px-3 text-gray-400">
+                    <ErrorSparkline history={scout.history} />
+                  </td>
+                  <td className="py-2 pl-3">
+                    {scout.matches < data.minMatches ? (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Too few matches</span>
+                    ) : scout.needsRetraining ? (
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+                        Needs retraining
+                      </span>
+                    ) : scout.suggestedWeight > 1 ? (
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+                        Accurate
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">On par</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Role Permissions Section (MENTOR only)
+function PermissionsSection({
+  teamId,
+  onSaved,
+}: {
+  teamId: string;
+  onSaved: () => void;
+}) {
+  const [data, setData] = useState<TeamPermissions | null>(null);
+  const [overrides, setOverrides] = useState<PermissionOverrides>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    teamsApi.getPermissions(teamId).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setData(result.data);
+        setOverrides(result.data.overrides);
+      } else {
+        setError(result.error || "Failed to load permissions");
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId]);
+
+  const toggle = (role: ConfigurableRole, capability: TeamCapability) => {
+    if (!data) return;
+    const granted = !hasCapability(role, capability, overrides);
+    const roleOverrides = { ...overrides[role] };
+    // Only store differences from the default mapping
+    if (granted === data.defaults[role].includes(capability)) {
+      delete roleOverrides[capability];
+    } else {
+      roleOverrides[capability] = granted;
+    }
+    setOverrides({ ...overrides, [role]: roleOverrides });
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    const result = await teamsApi.updatePermissions(teamId, overrides);
+    if (result.success && result.data) {
+      setData(result.data);
+      setOverrides(result.data.overrides);
+      setMessage("Permissions saved");
+      onSaved();
+    } else {
+      setError(result.error || "Failed to save permissions");
+    }
+    setSaving(false);
+  };
+
+  const hasOverrides = Object.values(overrides).some(
+    (roleOverrides) => roleOverrides && Object.keys(roleOverrides).length > 0
+  );
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-2">
+        <h2 className="font-semibold text-lg">Role Permissions</h2>
+        <div className="flex items-center gap-2">
+          {hasOverrides && (
+            <button
+              onClick={() => {
+                setOverrides({});
+                setMessage(null);
+              }}
+              className="text-sm text-gray-500 hover:underline"
+            >
+              Reset to defaults
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !data}
+            className="px-3 py-1.5 text-sm bg-ftc-orange text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Choose what each role can do on this team. Mentors always have every permission, and
+        friends can only be given view and export access.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-3 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-700 dark:text-green-400 text-sm">
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-ftc-orange"></div>
+        </div>
+      ) : data ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                <th className="py-2 pr-3 font-medium">Permission</th>
+                {data.roles.map((role) => (
+                  <th key={role} className="py-2 px-3 font-medium text-center">
+                    {role.charAt(0) + role.slice(1).toLowerCase()}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {data.capabilities.map((capability) => (
+                <tr key={capability.key} className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+                  <td className="py-2 pr-3">
+                    <p className="font-medium">{capability.label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{capability.description}</p>
+                  </td>
+                  {data.roles.map((role) => {
+                    const configurable = isCapabilityConfigurable(role, capability.key);
+                    return (
+                      <td key={role} className="py-2 px-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={hasCapability(role, capability.key, overrides)}
+                          disabled={!configurable}
+                          onChange={() => toggle(role as ConfigurableRole, capability.key)}
+                          className="w-4 h-4 accent-ftc-orange disabled:opacity-40"
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const ACTIVITY_TARGETS: Array<{ value: string; label: string }> = [
+  { value: "", label: "All activity" },
+  { value: "scouting-entry", label: "Scouting entries" },
+  { value: "member", label: "Members" },
+  { value: "invite", label: "Invites" },
+  { value: "media", label: "Media" },
+  { value: "team", label: "Team settings" },
+  { value: "pick-list", label: "Pick lists" },
+  { value: "assignment", label: "Assignments" },
+  { value: "resolution", label: "Consensus" },
+];
+
+const ACTIVITY_PAGE_SIZE = 25;
+
+// Names of the fields an audit row touched, for the one-line summary
+function changedFields(record: AuditLogEntry): string[] {
+  if (!record.before || !record.after) return [];
+  return [...new Set([...Object.keys(record.before), ...Object.keys(record.after)])];
+}
+
+function ActivityLogSection({ teamId }: { teamId: string }) {
+  const [records, setRecords] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [targetType, setTargetType] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (offset: number) => {
+    setLoading(true);
+    const result = await teamsApi.getAuditLog(teamId, {
+      targetType: targetType || undefined,
+      limit: ACTIVITY_PAGE_SIZE,
+      offset,
+    });
+    if (result.success && result.data) {
+      const page = result.data;
+      setRecords((prev) => (offset === 0 ? page : [...prev, ...page]));
+      setTotal(result.total ?? 0);
+      setError(null);
+    } else {
+      setError(result.error || "Failed to load activity");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load(0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teamId, targetType]);
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="font-semibold text-lg">Activity Log</h2>
+        <select
+          value={targetType}
+          onChange={(e) => setTargetType(e.target.value)}
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+        >
+          {ACTIVITY_TARGETS.map((target) => (
+            <option key={target.value} value={target.value}>
+              {target.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-500 dark:text-red-400 mb-3">{error}</p>}
+
+      {!loading && records.length === 0 && !error ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No activity recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {records.map((record) => {
+            const fields = changedFields(record);
+            return (
+              <li key={record.id} className="py-2 text-sm flex justify-between gap-4">
+                <div className="min-w-0">
+                  <span className="font-medium">{record.actor?.name ?? "Unknown user"}</span>{" "}
+                  <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{record.action}</span>
+                  {fields.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      Changed {fields.join(", ")}
+                    </p>
+                  )}
+                </div>
+                <span className="text-xs text-gray-400 dark:text-gray-500 whitespace-nowrap">
+                  {new Date(record.createdAt).toLocaleString()}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {records.length < total && (
+        <button
+          onClick={() => load(records.length)}
+          disabled={loading}
+          className="mt-3 text-sm text-ftc-orange hover:underline disabled:opacity-50"
+        >
+          {loading ? "Loading..." : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+}
+
 function CreateInviteModal({
   teamId,
-  userId,
   onClose,
   onCreated,
 }: {
   teamId: string;
-  userId: string;
   onClose: () => void;
   onCreated: () => void;
 }) {
@@ -742,7 +1265,7 @@ function CreateInviteModal({
     setError(null);
 
     try {
-      const result = await teamsApi.createInvite(userId, teamId, {
+      const result = await teamsApi.createInvite(teamId, {
         maxUses: maxUses ? parseInt(maxUses, 10) : undefined,
         expiresInDays: expiresInDays ? parseInt(expiresInDays, 10) : undefined,
         role,
@@ -883,12 +1406,10 @@ function renderMarkdown(text: string): string {
 // Team Settings Modal Component
 function TeamSettingsModal({
   team,
-  userId,
   onClose,
   onUpdated,
 }: {
   team: TeamDetails;
-  userId: string;
   onClose: () => void;
   onUpdated: () => void;
 }) {
@@ -902,7 +1423,7 @@ function TeamSettingsModal({
     setError(null);
 
     try {
-      const result = await teamsApi.updateTeam(userId, team.id, {
+      const result = await teamsApi.updateTeam(team.id, {
         name,
         sharingLevel,
       });
@@ -984,12 +1505,10 @@ function TeamSettingsModal({
 // Edit Profile Modal Component
 function EditProfileModal({
   team,
-  userId,
   onClose,
   onUpdated,
 }: {
   team: TeamDetails;
-  userId: string;
   onClose: () => void;
   onUpdated: () => void;
 }) {
@@ -1020,7 +1539,7 @@ function EditProfileModal({
     const validLinks = links.filter((l) => l.title.trim() && l.url.trim());
 
     try {
-      const result = await teamsApi.updateTeam(userId, team.id, {
+      const result = await teamsApi.updateTeam(team.id, {
         bio,
         robotName,
         robotDesc,
@@ -1187,13 +1706,11 @@ function EditProfileModal({
 // Add Media Modal Component
 function AddMediaModal({
   teamId,
-  userId,
   defaultType,
   onClose,
   onAdded,
 }: {
   teamId: string;
-  userId: string;
   defaultType: "CAD" | "VIDEO" | "PHOTO";
   onClose: () => void;
   onAdded: () => void;
@@ -1241,7 +1758,7 @@ function AddMediaModal({
     try {
       if (mode === "upload" && file) {
         // File upload
-        const result = await teamsApi.uploadMedia(userId, teamId, {
+        const result = await teamsApi.uploadMedia(teamId, {
           type: type as "PHOTO" | "VIDEO",
           title: title.trim(),
           description: description.trim() || undefined,
@@ -1256,7 +1773,7 @@ function AddMediaModal({
         }
       } else if (mode === "url" && url.trim()) {
         // URL-based
-        const result = await teamsApi.addMedia(userId, teamId, {
+        const result = await teamsApi.addMedia(teamId, {
           type,
           title: title.trim(),
           url: url.trim(),
@@ -66,7 +66,7 @@ export default function CreateTeamPage() {
     setError(null);
 
     try {
-      const result = await teamsApi.createTeam(session.user.id, {
+      const result = await teamsApi.createTeam({
         teamNumber: num,
         name: teamName || `Team ${num}`,
       });
@@ -34,7 +34,7 @@ function JoinTeamForm() {
     setError(null);
 
     try {
-      const result = await teamsApi.joinTeam(session.user.id, code.trim());
+      const result = await teamsApi.joinTeam(code.trim());
 
       if (result.success && result.data) {
         router.push(`/my-teams/${result.data.teamId}`);
@@ -121,7 +121,7 @@ export default function MyTeamsPage() {
 
       console.log("[MyTeams] useEffect fired, fetching teams for user:", session?.user?.id);
       try {
-        const result = await teamsApi.getMyTeams(session.user.id);
+        const result = await teamsApi.getMyTeams();
         console.log("[MyTeams] getMyTeams response:", result);
         if (result.success && result.data) {
           setTeams(result.data);
@@ -400,7 +400,6 @@ export default function MyTeamsPage() {
         {selectedTeamNumber && (
           <TeamProfileDisplay
             teamNumber={selectedTeamNumber}
-            userId={session?.user?.id}
             isMyTeam={myTeamNumbers.has(selectedTeamNumber)}
             onClose={() => setSelectedTeamNumber(null)}
           />
@@ -412,12 +411,10 @@ export default function MyTeamsPage() {
 
 function TeamProfileDisplay({
   teamNumber,
-  userId,
   isMyTeam,
   onClose,
 }: {
   teamNumber: number;
-  userId?: string;
   isMyTeam: boolean;
   onClose: () => void;
 }) {
@@ -429,7 +426,7 @@ function TeamProfileDisplay({
 
   useEffect(() => {
     let cancelled = false;
-    console.log("[MyTeams] TeamProfileDisplay useEffect fired for teamNumber:", teamNumber, "userId:", userId);
+    console.log("[MyTeams] TeamProfileDisplay useEffect fired for teamNumber:", teamNumber);
     setLoading(true);
     setTeamInfo(null);
     setEvents([]);
@@ -439,7 +436,7 @@ function TeamProfileDisplay({
       const [infoRes, eventsRes, profileRes] = await Promise.all([
         ftcTeamsApi.getTeam(teamNumber).catch(() => null),
         ftcTeamsApi.getTeamEventSummaries(teamNumber).catch(() => null),
-        ftcTeamsApi.getTeamProfile(teamNumber, userId).catch(() => null),
+        ftcTeamsApi.getTeamProfile(teamNumber).catch(() => null),
       ]);
 
       if (cancelled) return;
@@ -457,7 +454,7 @@ function TeamProfileDisplay({
 
     fetchAll();
     return () => { cancelled = true; };
-  }, [teamNumber, userId]);
+  }, [teamNumber]);
 
   const getYouTubeThumbnail = (url: string): string | null => {
     const match = url.match(
@@ -0,0 +1,356 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState, Suspense } from "react";
+import Link from "next/link";
+import {
+  teamsApi,
+  assignmentsApi,
+  type AssignmentCoverage,
+  type CoverageStatus,
+  type ScoutingRotation,
+} from "@/lib/api";
+import type { TeamCapability } from "@ftcmetrics/shared";
+import { useTeamFeed } from "@/lib/realtime";
+
+const STATIONS = ["Red1", "Red2", "Blue1", "Blue2"];
+
+const STATUS_STYLES: Record<CoverageStatus, string> = {
+  "own-team": "bg-gray-100 dark:bg-gray-800 text-gray-400",
+  scouted: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+  missed: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+  assigned: "bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400",
+  unassigned: "bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400",
+};
+
+const STATUS_LABELS: Record<CoverageStatus, string> = {
+  "own-team": "Our robot",
+  scouted: "Scouted",
+  missed: "Missed",
+  assigned: "Assigned",
+  unassigned: "Unassigned",
+};
+
+interface Member {
+  userId: string;
+  role: string;
+  user: { id: string; name: string; image: string | null };
+}
+
+function AssignmentsContent() {
+  const { data: session } = useSession();
+  const searchParams = useSearchParams();
+  const userId = session?.user?.id;
+  const teamId = searchParams.get("team") || "";
+  const eventCode = searchParams.get("event") || "";
+
+  const [members, setMembers] = useState<Member[]>([]);
+  const [capabilities, setCapabilities] = useState<TeamCapability[]>([]);
+  const [coverage, setCoverage] = useState<AssignmentCoverage | null>(null);
+  const [rotation, setRotation] = useState<ScoutingRotation | null>(null);
+  const [shiftLength, setShiftLength] = useState(6);
+  const [breakLength, setBreakLength] = useState(2);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = capabilities.includes("manage-assignments");
+  const scouts = members.filter((m) => m.role !== "FRIEND");
+
+  const fetchData = useCallback(async () => {
+    if (!userId || !teamId || !eventCode) return;
+    try {
+      const [coverageResult, rotationResult] = await Promise.all([
+        assignmentsApi.getCoverage(teamId, eventCode),
+        assignmentsApi.getRotation(teamId, eventCode),
+      ]);
+      if (coverageResult.success && coverageResult.data) {
+        setCoverage(coverageResult.data);
+        setError(null);
+      } else {
+        setCoverage(null);
+        setError(coverageResult.error || "Failed to load coverage");
+      }
+      if (rotationResult.success) {
+        setRotation(rotationResult.data ?? null);
+        if (rotationResult.data) {
+          setShiftLength(rotationResult.data.shiftLength);
+          setBreakLength(rotationResult.data.breakLength);
+        }
+      }
+    } catch {
+      setError("Failed to load coverage");
+    }
+  }, [userId, teamId, eventCode]);
+
+  useEffect(() => {
+    if (!userId || !teamId) return;
+    teamsApi
+      .getTeam(teamId)
+      .then((result) => {
+        if (result.success && result.data) {
+          setMembers(result.data.members);
+          setCapabilities(result.data.capabilities);
+        }
+      })
+      .catch((err) => console.error("Failed to fetch team:", err));
+  }, [userId, teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchData().finally(() => setLoading(false));
+  }, [fetchData]);
+
+  // Coverage fills in as teammates submit entries
+  useTeamFeed(teamId ? [teamId] : [], () => {
+    fetchData();
+  });
+
+  // Assignment ids by match + station, for reassigning from the grid
+  const assignmentIds = useMemo(
+    () => new Map((rotation?.assignments ?? []).map((a) => [`${a.matchNumber}-${a.station}`, a.id])),
+    [rotation]
+  );
+
+  const matches = useMemo(() => {
+    const byMatch = new Map<number, AssignmentCoverage["robotMatches"]>();
+    for (const robot of coverage?.robotMatches ?? []) {
+      const list = byMatch.get(robot.matchNumber) ?? [];
+      list.push(robot);
+      byMatch.set(robot.matchNumber, list);
+    }
+    return [...byMatch.entries()].sort((a, b) => a[0] - b[0]);
+  }, [coverage]);
+
+  const handleGenerate = async () => {
+    if (!userId) return;
+    if (rotation && !confirm("Replace the current rotation? Reassignments will be lost.")) return;
+    setGenerating(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await assignmentsApi.generateRotation(teamId, {
+        eventCode,
+        shiftLength,
+        breakLength,
+      });
+      if (result.success && result.data) {
+        const gaps = result.data.unassigned.length;
+        setMessage(
+          `Assigned ${result.data.assignments.length} robot-matches` +
+            (gaps > 0 ? `, ${gaps} left unassigned - shorten breaks or add scouts` : "")
+        );
+        await fetchData();
+      } else {
+        setError(result.error || "Failed to generate rotation");
+      }
+    } catch {
+      setError("Failed to generate rotation");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleReassign = async (assignmentId: string, scouterId: string) => {
+    if (!userId) return;
+    try {
+      const result = await assignmentsApi.reassign(teamId, assignmentId, scouterId);
+      if (result.success) {
+        await fetchData();
+      } else {
+        setError(result.error || "Failed to reassign scout");
+      }
+    } catch {
+      setError("Failed to reassign scout");
+    }
+  };
+
+  if (!teamId || !eventCode) {
+    return (
+      <div className="max-w-lg mx-auto text-center py-12">
+        <p className="text-gray-600 dark:text-gray-400 mb-4">Missing team or event selection</p>
+        <Link href="/scout" className="text-ftc-orange hover:underline font-medium">
+          Go back to scout setup
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link
+          href={`/scout?event=${eventCode}`}
+          className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          &larr; Back to Scouting
+        </Link>
+        <h1 className="text-2xl font-bold mt-2">Scouting Assignments</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Who scouts which robot in every {eventCode} qualification match, and what has been covered so far
+        </p>
+      </div>
+
+      {canManage && (
+        <div className="mb-6 p-4 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 flex flex-wrap items-end gap-4">
+          <label className="text-sm">
+            <span className="block text-gray-500 dark:text-gray-400 mb-1">Matches per shift</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={shiftLength}
+              onChange={(e) => setShiftLength(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-24 px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-500 dark:text-gray-400 mb-1">Break (matches)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={breakLength}
+              onChange={(e) => setBreakLength(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-24 px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+            />
+          </label>
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="px-4 py-2 bg-ftc-orange text-white rounded-lg text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {generating ? "Generating..." : rotation ? "Regenerate Rotation" : "Generate Rotation"}
+          </button>
+          <span className="text-xs text-gray-500">{scouts.length} scouts</span>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-600 dark:text-green-400">
+          {message}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      ) : (
+        coverage && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+              {(["scouted", "missed", "assigned", "unassigned"] as const).map((status) => (
+                <div key={status} className={`p-3 rounded-xl ${STATUS_STYLES[status]}`}>
+                  <p className="text-xs">{STATUS_LABELS[status]}</p>
+                  <p className="text-2xl font-bold">{coverage.summary[status]}</p>
+                </div>
+              ))}
+            </div>
+
+            {!coverage.hasRotation && (
+              <p className="mb-6 text-sm text-gray-500">
+                No rotation yet{canManage ? "" : " - ask a mentor or leader to generate one"}.
+              </p>
+            )}
+
+            {coverage.scouts.length > 0 && (
+              <div className="mb-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4">
+                <h2 className="font-semibold mb-3">Scouts</h2>
+                <div className="space-y-2">
+                  {coverage.scouts.map(({ scouter, assigned, completed }) => (
+                    <div key={scouter.id} className="flex items-center gap-3 text-sm">
+                      <span className="w-40 truncate">{scouter.name || "Unknown"}</span>
+                      <div className="flex-1 h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-green-500 rounded-full"
+                          style={{ width: `${assigned ? (completed / assigned) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <span className="w-16 text-right text-xs tabular-nums text-gray-500">
+                        {completed}/{assigned}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                    <th className="px-3 py-2 font-medium">Match</th>
+                    {STATIONS.map((station) => (
+                      <th key={station} className="px-3 py-2 font-medium">
+                        {station.replace(/(\d)$/, " $1")}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map(([matchNumber, robots]) => (
+                    <tr key={matchNumber} className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+                      <td className="px-3 py-2 font-medium">Q{matchNumber}</td>
+                      {STATIONS.map((station) => {
+                        const robot = robots.find((r) => r.station === station);
+                        if (!robot) return <td key={station} className="px-3 py-2" />;
+                        const assignmentId = assignmentIds.get(`${matchNumber}-${station}`);
+                        return (
+                          <td key={station} className="px-1 py-1">
+                            <div className={`px-2 py-1 rounded-lg ${STATUS_STYLES[robot.status]}`}>
+                              <div className="font-medium">{robot.teamNumber}</div>
+                              {canManage && assignmentId && robot.status === "assigned" ? (
+                                <select
+                                  value={robot.scouter?.id ?? ""}
+                                  onChange={(e) => handleReassign(assignmentId, e.target.value)}
+                                  className="w-full text-xs bg-transparent"
+                                >
+                                  {scouts.map((m) => (
+                                    <option key={m.userId} value={m.userId}>
+                                      {m.user.name}
+                                    </option>
+                                  ))}
+                                </select>
+                              ) : (
+                                <div className="text-xs truncate">
+                                  {robot.scouter?.name ?? STATUS_LABELS[robot.status]}
+                                </div>
+                              )}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
+
+export default function AssignmentsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      }
+    >
+      <AssignmentsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,385 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useState, Suspense } from "react";
+import Link from "next/link";
+import {
+  CURRENT_SEASON,
+  getEntryScoringValues,
+  getGameDefinition,
+  type ScoringValues,
+  type TeamCapability,
+} from "@ftcmetrics/shared";
+import { teamsApi, consensusApi, type ConsensusGroup } from "@/lib/api";
+import { useTeamFeed } from "@/lib/realtime";
+
+const THRESHOLDS = [5, 10, 20];
+
+const SCORE_ROWS = [
+  { key: "autoScore", label: "Auto" },
+  { key: "teleopScore", label: "Teleop" },
+  { key: "endgameScore", label: "Endgame" },
+  { key: "totalScore", label: "Total" },
+] as const;
+
+const METHOD_BADGES: Record<ConsensusGroup["method"], { label: string; className: string }> = {
+  consensus: { label: "Consensus", className: "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300" },
+  picked: { label: "Entry picked", className: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300" },
+  merged: { label: "Merged", className: "bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300" },
+};
+
+function formatValue(value: number | boolean | string | undefined) {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  return value ?? "-";
+}
+
+function ConsensusCard({
+  group,
+  canResolve,
+  onResolve,
+  onReset,
+}: {
+  group: ConsensusGroup;
+  canResolve: boolean;
+  onResolve: (data: { canonicalEntryId?: string; values?: ScoringValues }) => Promise<void>;
+  onReset: () => Promise<void>;
+}) {
+  const game = getGameDefinition(group.season) ?? getGameDefinition(CURRENT_SEASON)!;
+  const entryValues = group.entries.map((e) => getEntryScoringValues(game, e));
+  const conflicting = new Set(group.conflicts.map((c) => c.field));
+  // Per-field picks while building a merge
+  const [merge, setMerge] = useState<ScoringValues | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+      setMerge(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasConflicts = group.conflicts.length > 0;
+  const badge =
+    group.method === "consensus" && hasConflicts
+      ? { label: "Disagreement", className: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400" }
+      : METHOD_BADGES[group.method];
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold">Q{group.matchNumber}</span>
+          <Link href={`/analytics/team/${group.teamNumber}`} className="font-medium hover:text-ftc-orange">
+            Team {group.teamNumber}
+          </Link>
+          <span className="text-xs text-gray-500">{group.entries.length} scouts</span>
+          <span className={`text-xs px-2 py-0.5 rounded-full ${badge.className}`}>{badge.label}</span>
+        </div>
+        {canResolve && (
+          <div className="flex gap-2">
+            {merge ? (
+              <>
+                <button
+                  onClick={() => run(() => onResolve({ values: merge }))}
+                  disabled={saving}
+                  className="px-3 py-1.5 text-sm bg-ftc-orange text-white rounded-lg font-medium hover:opacity-90 disabled:opacity-50"
+                >
+                  Save Merge
+                </button>
+                <button
+                  onClick={() => setMerge(null)}
+                  className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setMerge({})}
+                className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700"
+              >
+                Merge
+              </button>
+            )}
+            {group.resolutionId && !merge && (
+              <button
+                onClick={() => run(onReset)}
+                disabled={saving}
+                className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {merge && (
+        <p className="text-xs text-gray-500 mb-2">
+          Tap a scout&apos;s value to keep it. Fields you leave alone use the consensus.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+              <th className="px-2 py-1.5 font-medium">Field</th>
+              {group.entries.map((e) => (
+                <th key={e.id} className="px-2 py-1.5 font-medium">
+                  {e.scouter?.name || "Unknown"}
+                </th>
+              ))}
+              <th className="px-2 py-1.5 font-medium">Reconciled</th>
+            </tr>
+          </thead>
+          <tbody>
+            {game.elements.map((el) => (
+              <tr
+                key={el.key}
+                className={`border-b border-gray-100 dark:border-gray-800 ${
+                  conflicting.has(el.key) ? "bg-red-50 dark:bg-red-900/10" : ""
+                }`}
+              >
+                <td className="px-2 py-1.5 text-gray-600 dark:text-gray-400">{el.label}</td>
+                {entryValues.map((values, i) => {
+                  const selected = merge !== null && merge[el.key] === values[el.key];
+                  return (
+                    <td key={group.entries[i].id} className="px-2 py-1.5 tabular-nums">
+                      {merge ? (
+                        <button
+                          onClick={() => setMerge({ ...merge, [el.key]: values[el.key] })}
+                          className={`px-1.5 rounded ${selected ? "bg-ftc-orange text-white" : "hover:bg-gray-100 dark:hover:bg-gray-800"}`}
+                        >
+                          {formatValue(values[el.key])}
+                        </button>
+                      ) : (
+                        formatValue(values[el.key])
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="px-2 py-1.5 tabular-nums font-medium">
+                  {formatValue(merge?.[el.key] ?? group.values[el.key])}
+                </td>
+              </tr>
+            ))}
+            {SCORE_ROWS.map((row) => (
+              <tr
+                key={row.key}
+                className={`border-b border-gray-100 dark:border-gray-800 last:border-0 ${
+                  conflicting.has(row.key) ? "bg-red-50 dark:bg-red-900/10" : ""
+                }`}
+              >
+                <td className="px-2 py-1.5 font-medium">{row.label} pts</td>
+                {group.entries.map((e) => (
+                  <td key={e.id} className="px-2 py-1.5 tabular-nums">
+                    {e[row.key]}
+                  </td>
+                ))}
+                <td className="px-2 py-1.5 tabular-nums font-medium">{formatValue(group[row.key])}</td>
+              </tr>
+            ))}
+            {canResolve && !merge && (
+              <tr>
+                <td />
+                {group.entries.map((e) => (
+                  <td key={e.id} className="px-2 pt-2">
+                    <button
+                      onClick={() => run(() => onResolve({ canonicalEntryId: e.id }))}
+                      disabled={saving}
+                      className="text-xs text-ftc-orange font-medium hover:underline disabled:opacity-50"
+                    >
+                      Use this entry
+                    </button>
+                  </td>
+                ))}
+                <td />
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function ConsensusContent() {
+  const { data: session } = useSession();
+  const searchParams = useSearchParams();
+  const userId = session?.user?.id;
+  const teamId = searchParams.get("team") || "";
+  const eventCode = searchParams.get("event") || "";
+
+  const [capabilities, setCapabilities] = useState<TeamCapability[]>([]);
+  const [groups, setGroups] = useState<ConsensusGroup[]>([]);
+  const [unresolved, setUnresolved] = useState(0);
+  const [threshold, setThreshold] = useState(10);
+  const [conflictsOnly, setConflictsOnly] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canResolve = capabilities.includes("edit-others-entries");
+
+  useEffect(() => {
+    if (!userId) return;
+    teamsApi
+      .getMyTeams()
+      .then((result) => {
+        if (result.success && result.data) {
+          setCapabilities(result.data.find((t) => t.teamId === teamId)?.capabilities ?? []);
+        }
+      })
+      .catch((err) => console.error("Failed to fetch teams:", err));
+  }, [userId, teamId]);
+
+  const fetchConsensus = useCallback(async () => {
+    if (!userId || !teamId || !eventCode) return;
+    try {
+      const result = await consensusApi.getConsensus(teamId, eventCode, { threshold, conflictsOnly });
+      if (result.success && result.data) {
+        setGroups(result.data.groups);
+        setUnresolved(result.data.unresolved);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load duplicate entries");
+      }
+    } catch {
+      setError("Failed to load duplicate entries");
+    }
+  }, [userId, teamId, eventCode, threshold, conflictsOnly]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchConsensus().finally(() => setLoading(false));
+  }, [fetchConsensus]);
+
+  // New duplicate entries and teammates' resolutions show up live
+  useTeamFeed(
+    teamId ? [teamId] : [],
+    () => {
+      fetchConsensus();
+    },
+    ["entry-created", "entry-updated", "consensus-updated"]
+  );
+
+  const handleResolve = async (
+    group: ConsensusGroup,
+    data: { canonicalEntryId?: string; values?: ScoringValues }
+  ) => {
+    if (!userId) return;
+    const result = await consensusApi.resolve(teamId, {
+      eventCode,
+      matchNumber: group.matchNumber,
+      teamNumber: group.teamNumber,
+      ...data,
+    });
+    if (!result.success) setError(result.error || "Failed to save resolution");
+    await fetchConsensus();
+  };
+
+  const handleReset = async (group: ConsensusGroup) => {
+    if (!userId || !group.resolutionId) return;
+    const result = await consensusApi.deleteResolution(teamId, group.resolutionId);
+    if (!result.success) setError(result.error || "Failed to reset resolution");
+    await fetchConsensus();
+  };
+
+  if (!teamId || !eventCode) {
+    return (
+      <div className="max-w-lg mx-auto text-center py-12">
+        <p className="text-gray-600 dark:text-gray-400 mb-4">Missing team or event selection</p>
+        <Link href="/scout" className="text-ftc-orange hover:underline font-medium">
+          Go back to scout setup
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link
+          href={`/scout?event=${eventCode}`}
+          className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          &larr; Back to Scouting
+        </Link>
+        <h1 className="text-2xl font-bold mt-2">Duplicate Entries</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Robots in {eventCode} recorded by more than one scout. Analytics use the reconciled values: the median
+          (weighted by scout trust) unless a leader picks an entry or merges values.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {unresolved} unresolved disagreement{unresolved === 1 ? "" : "s"}
+        </span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={conflictsOnly} onChange={(e) => setConflictsOnly(e.target.checked)} />
+            Disagreements only
+          </label>
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(parseInt(e.target.value))}
+            className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-sm"
+          >
+            {THRESHOLDS.map((t) => (
+              <option key={t} value={t}>
+                Flag &gt; {t} pts apart
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">
+          {conflictsOnly ? "No disagreements between scouts" : "No robot-match has been scouted more than once"}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <ConsensusCard
+              key={group.key}
+              group={group}
+              canResolve={canResolve}
+              onResolve={(data) => handleResolve(group, data)}
+              onReset={() => handleReset(group)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ConsensusPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      }
+    >
+      <ConsensusContent />
+    </Suspense>
+  );
+}
@@ -2,14 +2,23 @@
 
 import { useSession } from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { useEffect, useState, Suspense } from "react";
+import { useCallback, useEffect, useState, Suspense } from "react";
 import Link from "next/link";
-import { scoutingApi, eventsApi } from "@/lib/api";
+import {
+  calculateGameScores,
+  formatElementPoints,
+  getCurrentGame,
+  getDefaultScoringValues,
+  getPhaseElements,
+  type ScoringElement,
+  type ScoringValues,
+} from "@ftcmetrics/shared";
+import { scoutingApi, eventsApi, assignmentsApi, type ScoutingAssignment } from "@/lib/api";
 import {
   queueScoutingEntry,
   syncPendingEntries,
-  getQueueCount,
   isOnline,
+  useOutbox,
 } from "@/lib/offline-queue";
 
 interface EventTeam {
@@ -22,37 +31,19 @@ interface ScoutingData {
   scoutedTeamNumber: number;
   matchNumber: number | "";
   alliance: "RED" | "BLUE";
-  // AUTO
-  autoLeave: boolean;
-  autoClassifiedCount: number;
-  autoOverflowCount: number;
-  autoPatternCount: number;
-  // TELEOP
-  teleopClassifiedCount: number;
-  teleopOverflowCount: number;
-  teleopDepotCount: number;
-  teleopPatternCount: number;
-  teleopMotifCount: number;
-  // ENDGAME
-  endgameBaseStatus: "NONE" | "PARTIAL" | "FULL";
+  // AUTO / TELEOP / ENDGAME element values from the game definition
+  scoring: ScoringValues;
   // NOTES
   allianceNotes: string;
 }
 
+const game = getCurrentGame();
+
 const initialData: ScoutingData = {
   scoutedTeamNumber: 0,
   matchNumber: 1,
   alliance: "RED",
-  autoLeave: false,
-  autoClassifiedCount: 0,
-  autoOverflowCount: 0,
-  autoPatternCount: 0,
-  teleopClassifiedCount: 0,
-  teleopOverflowCount: 0,
-  teleopDepotCount: 0,
-  teleopPatternCount: 0,
-  teleopMotifCount: 0,
-  endgameBaseStatus: "NONE",
+  scoring: getDefaultScoringValues(game),
   allianceNotes: "",
 };
 
@@ -64,101 +55,54 @@ function ScoutMatchContent() {
   const eventCode = searchParams.get("event") || "";
 
   const preselectedScoutedTeam = searchParams.get("scoutedTeam");
+  const preselectedMatch = searchParams.get("match");
+  const preselectedAlliance = searchParams.get("alliance");
 
   const [eventTeams, setEventTeams] = useState<EventTeam[]>([]);
   const [data, setData] = useState<ScoutingData>({
     ...initialData,
     scoutedTeamNumber: preselectedScoutedTeam ? parseInt(preselectedScoutedTeam, 10) : 0,
+    matchNumber: preselectedMatch ? parseInt(preselectedMatch, 10) : initialData.matchNumber,
+    alliance: preselectedAlliance === "BLUE" ? "BLUE" : "RED",
   });
+  // The scout's next unsubmitted robot-match from the team's rotation
+  const [assignment, setAssignment] = useState<ScoutingAssignment | null>(null);
   const [loading, setLoading] = useState(false);
   const [teamsLoading, setTeamsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [online, setOnline] = useState(true);
-  const [queueCount, setQueueCount] = useState(0);
+  const { pendingCount: queueCount, failedCount } = useOutbox();
   const [syncing, setSyncing] = useState(false);
 
   // Calculate scores for display
-  const autoScore =
-    (data.autoLeave ? 3 : 0) +
-    data.autoClassifiedCount * 3 +
-    data.autoOverflowCount * 1 +
-    data.autoPatternCount * 2;
-
-  const teleopScore =
-    data.teleopClassifiedCount * 3 +
-    data.teleopOverflowCount * 1 +
-    data.teleopDepotCount * 1 +
-    data.teleopPatternCount * 2 +
-    data.teleopMotifCount * 2;
-
-  const endgameScore =
-    data.endgameBaseStatus === "FULL"
-      ? 10
-      : data.endgameBaseStatus === "PARTIAL"
-      ? 5
-      : 0;
-
-  const totalScore = autoScore + teleopScore + endgameScore;
-
-  // Monitor online/offline status and queue count
+  const { autoScore, teleopScore, endgameScore, totalScore } =
+    calculateGameScores(game, data.scoring);
+
+  const setScoringValue = (key: string, value: number | boolean | string) => {
+    setData((prev) => ({ ...prev, scoring: { ...prev.scoring, [key]: value } }));
+  };
+
+  // Monitor online/offline status; the outbox syncs itself in the
+  // background (see Providers)
   useEffect(() => {
     const updateOnlineStatus = () => {
       setOnline(isOnline());
     };
 
-    const updateQueueCount = async () => {
-      try {
-        const count = await getQueueCount();
-        setQueueCount(count);
-      } catch (err) {
-        console.error("Failed to get queue count:", err);
-      }
-    };
-
     // Initial check
     updateOnlineStatus();
-    updateQueueCount();
 
     // Listen for online/offline events
     window.addEventListener("online", updateOnlineStatus);
     window.addEventListener("offline", updateOnlineStatus);
 
-    // Update queue count periodically
-    const interval = setInterval(updateQueueCount, 5000);
-
     return () => {
       window.removeEventListener("online", updateOnlineStatus);
       window.removeEventListener("offline", updateOnlineStatus);
-      clearInterval(interval);
     };
   }, []);
 
-  // Auto-sync when coming back online
-  useEffect(() => {
-    async function autoSync() {
-      if (online && queueCount > 0 && !syncing && session?.user?.id) {
-        setSyncing(true);
-        try {
-          const result = await syncPendingEntries();
-          if (result.synced > 0) {
-            setSuccess(true);
-            setTimeout(() => setSuccess(false), 3000);
-          }
-          // Update queue count after sync
-          const newCount = await getQueueCount();
-          setQueueCount(newCount);
-        } catch (err) {
-          console.error("Auto-sync failed:", err);
-        } finally {
-          setSyncing(false);
-        }
-      }
-    }
-
-    autoSync();
-  }, [online, queueCount, syncing, session?.user?.id]);
-
   useEffect(() => {
     async function fetchEventTeams() {
       if (!eventCode) return;
@@ -180,6 +124,33 @@ function ScoutMatchContent() {
     fetchEventTeams();
   }, [eventCode]);
 
+  // Prefill the form from the rotation; an explicit team in the URL wins
+  const loadNextAssignment = useCallback(
+    async (prefill: boolean) => {
+      if (!session?.user?.id || !teamId || !eventCode || !isOnline()) return;
+      try {
+        const result = await assignmentsApi.getMyAssignments(teamId, eventCode);
+        const next = result.success ? result.data?.next ?? null : null;
+        setAssignment(next);
+        if (next && prefill) {
+          setData({
+            ...initialData,
+            scoutedTeamNumber: next.teamNumber,
+            matchNumber: next.matchNumber,
+            alliance: next.station.startsWith("Blue") ? "BLUE" : "RED",
+          });
+        }
+      } catch (err) {
+        console.error("Failed to fetch assignments:", err);
+      }
+    },
+    [session?.user?.id, teamId, eventCode]
+  );
+
+  useEffect(() => {
+    loadNextAssignment(!preselectedScoutedTeam);
+  }, [loadNextAssignment, preselectedScoutedTeam]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!session?.user?.id || !teamId || !eventCode) return;
@@ -197,38 +168,46 @@ function ScoutMatchContent() {
     setLoading(true);
     setError(null);
 
+    const { scoring, ...matchInfo } = data;
     const entryData = {
       scoutingTeamId: teamId,
       eventCode,
-      ...data,
+      season: game.season,
+      ...matchInfo,
+      ...scoring,
       matchNumber: data.matchNumber as number,
     };
 
+    const saveOffline = async () => {
+      // Queue for later submission
+      await queueScoutingEntry(session.user!.id, entryData);
+      setSuccess(true);
+      setError("Saved offline - will sync when connected");
+
+      // Reset form for next match
+      setData({
+        ...initialData,
+        matchNumber: entryData.matchNumber + 1,
+      });
+
+      setTimeout(() => {
+        setSuccess(false);
+        setError(null);
+      }, 3000);
+    };
+
     try {
       // Check if online
       if (!isOnline()) {
-        // Queue for later submission
-        await queueScoutingEntry(session.user.id, entryData);
-        setSuccess(true);
-        setError("Saved offline - will sync when connected");
-
-        // Reset form for next match
-        setData({
-          ...initialData,
-          matchNumber: data.matchNumber + 1,
-        });
-
-        // Update queue count
-        const newCount = await getQueueCount();
-        setQueueCount(newCount);
-
-        setTimeout(() => {
-          setSuccess(false);
-          setError(null);
-        }, 3000);
+        await saveOffline();
       } else {
-        // Submit normally when online
-        const result = await scoutingApi.submitEntry(session.user.id, entryData);
+        // Submit normally when online; a request that never reaches the
+        // server (venue Wi-Fi dropping out) is queued instead
+        const result = await scoutingApi.submitEntry(entryData).catch(() => null);
+        if (!result) {
+          await saveOffline();
+          return;
+        }
 
         if (result.success) {
           setSuccess(true);
@@ -237,6 +216,7 @@ function ScoutMatchContent() {
             ...initialData,
             matchNumber: data.matchNumber + 1,
           });
+          loadNextAssignment(true);
           setTimeout(() => setSuccess(false), 3000);
         } else {
           setError(result.error || "Failed to submit entry");
@@ -249,13 +229,6 @@ function ScoutMatchContent() {
     }
   };
 
-  const updateCount = (field: keyof ScoutingData, delta: number) => {
-    setData((prev) => ({
-      ...prev,
-      [field]: Math.max(0, (prev[field] as number) + delta),
-    }));
-  };
-
   const handleManualSync = async () => {
     if (!online || queueCount === 0 || syncing) return;
 
@@ -269,11 +242,8 @@ function ScoutMatchContent() {
         setTimeout(() => setSuccess(false), 3000);
       }
       if (result.failed > 0) {
-        setError(`Synced ${result.synced} entries, ${result.failed} failed`);
+        setError(`Synced ${result.synced} changes, ${result.failed} failed`);
       }
-      // Update queue count after sync
-      const newCount = await getQueueCount();
-      setQueueCount(newCount);
     } catch (err) {
       setError("Sync failed");
     } finally {
@@ -316,15 +286,20 @@ function ScoutMatchContent() {
           </div>
           <div className="flex items-center gap-3">
             {/* Queue count badge */}
-            {queueCount > 0 && (
-              <div className="flex items-center gap-2 px-3 py-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+            {(queueCount > 0 || failedCount > 0) && (
+              <Link
+                href="/scout/outbox"
+                title="Review queued changes"
+                className="flex items-center gap-2 px-3 py-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg hover:bg-yellow-100 dark:hover:bg-yellow-900/30"
+              >
                 <svg className="w-4 h-4 text-yellow-600 dark:text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
                 <span className="text-sm font-medium text-yellow-600 dark:text-yellow-400">
                   {queueCount} pending
+                  {failedCount > 0 && `, ${failedCount} failed`}
                 </span>
-              </div>
+              </Link>
             )}
             {/* Online/Offline indicator */}
             <div className={`flex items-center gap-2 px-3 py-2 rounded-lg border ${
@@ -343,6 +318,32 @@ function ScoutMatchContent() {
         </div>
       </div>
 
+      {assignment && (
+        <div className="mb-6 p-4 bg-ftc-orange/10 border border-ftc-orange/30 rounded-lg flex items-center justify-between gap-3">
+          <div className="text-sm">
+            <span className="font-medium">Assignment:</span> Match {assignment.matchNumber},{" "}
+            {assignment.station.replace(/(\d)$/, " $1")} · Team {assignment.teamNumber}
+          </div>
+          {(data.matchNumber !== assignment.matchNumber ||
+            data.scoutedTeamNumber !== assignment.teamNumber) && (
+            <button
+              type="button"
+              onClick={() =>
+                setData({
+                  ...initialData,
+                  scoutedTeamNumber: assignment.teamNumber,
+                  matchNumber: assignment.matchNumber,
+                  alliance: assignment.station.startsWith("Blue") ? "BLUE" : "RED",
+                })
+              }
+              className="text-sm text-ftc-orange font-medium hover:underline"
+            >
+              Use assignment
+            </button>
+          )}
+        </div>
+      )}
+
       {success && (
         <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-600 dark:text-green-400">
           Entry submitted successfully!
@@ -360,10 +361,13 @@ function ScoutMatchContent() {
           <div className="flex items-center justify-between">
             <div>
               <p className="font-medium text-blue-900 dark:text-blue-100">
-                {queueCount} {queueCount === 1 ? "entry" : "entries"} pending sync
+                {queueCount} {queueCount === 1 ? "change" : "changes"} pending sync
               </p>
               <p className="text-sm text-blue-600 dark:text-blue-400 mt-1">
-                Entries will sync automatically when online
+                Changes sync automatically when online.{" "}
+                <Link href="/scout/outbox" className="underline">
+                  View outbox
+                </Link>
               </p>
             </div>
             <button
@@ -465,52 +469,14 @@ function ScoutMatchContent() {
           </div>
 
           <div className="space-y-4">
-            {/* Leave */}
-            <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-              <div>
-                <p className="font-medium">Leave Starting Zone</p>
-                <p className="text-sm text-gray-500 dark:text-gray-400">3 pts</p>
-              </div>
-              <button
-                type="button"
-                onClick={() =>
-                  setData((prev) => ({ ...prev, autoLeave: !prev.autoLeave }))
-                }
-                className={`w-12 h-7 rounded-full transition-colors ${
-                  data.autoLeave ? "bg-ftc-orange" : "bg-gray-300 dark:bg-gray-600"
-                }`}
-              >
-                <div
-                  className={`w-5 h-5 bg-white rounded-full transition-transform mx-1 ${
-                    data.autoLeave ? "translate-x-5" : ""
-                  }`}
-                />
-              </button>
-            </div>
-
-            {/* Classified */}
-            <CounterField
-              label="Classified (High)"
-              points="3 pts each"
-              value={data.autoClassifiedCount}
-              onChange={(v) => setData((prev) => ({ ...prev, autoClassifiedCount: v }))}
-            />
-
-            {/* Overflow */}
-            <CounterField
-              label="Overflow (Low)"
-              points="1 pt each"
-              value={data.autoOverflowCount}
-              onChange={(v) => setData((prev) => ({ ...prev, autoOverflowCount: v }))}
-            />
-
-            {/* Pattern */}
-            <CounterField
-              label="Pattern Complete"
-              points="2 pts each"
-              value={data.autoPatternCount}
-              onChange={(v) => setData((prev) => ({ ...prev, autoPatternCount: v }))}
-            />
+            {getPhaseElements(game, "auto").map((el) => (
+              <ScoringElementField
+                key={el.key}
+                element={el}
+                value={data.scoring[el.key]}
+                onChange={(v) => setScoringValue(el.key, v)}
+              />
+            ))}
           </div>
         </div>
 
@@ -524,40 +490,14 @@ function ScoutMatchContent() {
           </div>
 
           <div className="space-y-4">
-            <CounterField
-              label="Classified (High)"
-              points="3 pts each"
-              value={data.teleopClassifiedCount}
-              onChange={(v) => setData((prev) => ({ ...prev, teleopClassifiedCount: v }))}
-            />
-
-            <CounterField
-              label="Overflow (Low)"
-              points="1 pt each"
-              value={data.teleopOverflowCount}
-              onChange={(v) => setData((prev) => ({ ...prev, teleopOverflowCount: v }))}
-            />
-
-            <CounterField
-              label="Depot"
-              points="1 pt each"
-              value={data.teleopDepotCount}
-              onChange={(v) => setData((prev) => ({ ...prev, teleopDepotCount: v }))}
-            />
-
-            <CounterField
-              label="Pattern Complete"
-              points="2 pts each"
-              value={data.teleopPatternCount}
-              onChange={(v) => setData((prev) => ({ ...prev, teleopPatternCount: v }))}
-            />
-
-            <CounterField
-              label="Motif Complete"
-              points="2 pts each"
-              value={data.teleopMotifCount}
-              onChange={(v) => setData((prev) => ({ ...prev, teleopMotifCount: v }))}
-            />
+            {getPhaseElements(game, "teleop").map((el) => (
+              <ScoringElementField
+                key={el.key}
+                element={el}
+                value={data.scoring[el.key]}
+                onChange={(v) => setScoringValue(el.key, v)}
+              />
+            ))}
           </div>
         </div>
 
@@ -570,29 +510,15 @@ function ScoutMatchContent() {
             </span>
           </div>
 
-          <div>
-            <p className="text-sm font-medium mb-2">Base Status</p>
-            <div className="grid grid-cols-3 gap-2">
-              {(["NONE", "PARTIAL", "FULL"] as const).map((status) => (
-                <button
-                  key={status}
-                  type="button"
-                  onClick={() =>
-                    setData((prev) => ({ ...prev, endgameBaseStatus: status }))
-                  }
-                  className={`py-3 rounded-lg font-medium transition-colors ${
-                    data.endgameBaseStatus === status
-                      ? "bg-green-500 text-white"
-                      : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300"
-                  }`}
-                >
-                  <span className="block">{status}</span>
-                  <span className="text-xs opacity-75">
-                    {status === "FULL" ? "10 pts" : status === "PARTIAL" ? "5 pts" : "0 pts"}
-                  </span>
-                </button>
-              ))}
-            </div>
+          <div className="space-y-4">
+            {getPhaseElements(game, "endgame").map((el) => (
+              <ScoringElementField
+                key={el.key}
+                element={el}
+                value={data.scoring[el.key]}
+                onChange={(v) => setScoringValue(el.key, v)}
+              />
+            ))}
           </div>
         </div>
 
@@ -636,6 +562,79 @@ function ScoutMatchContent() {
   );
 }
 
+// Renders a single game definition scoring element
+function ScoringElementField({
+  element,
+  value,
+  onChange,
+}: {
+  element: ScoringElement;
+  value: number | boolean | string | undefined;
+  onChange: (value: number | boolean | string) => void;
+}) {
+  if (element.kind === "count") {
+    return (
+      <CounterField
+        label={element.label}
+        points={formatElementPoints(element)}
+        value={typeof value === "number" ? value : 0}
+        onChange={onChange}
+      />
+    );
+  }
+
+  if (element.kind === "boolean") {
+    const checked = value === true;
+    return (
+      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+        <div>
+          <p className="font-medium">{element.label}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{formatElementPoints(element)}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(!checked)}
+          className={`w-12 h-7 rounded-full transition-colors ${
+            checked ? "bg-ftc-orange" : "bg-gray-300 dark:bg-gray-600"
+          }`}
+        >
+          <div
+            className={`w-5 h-5 bg-white rounded-full transition-transform mx-1 ${
+              checked ? "translate-x-5" : ""
+            }`}
+          />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">{element.label}</p>
+      <div
+        className="grid gap-2"
+        style={{ gridTemplateColumns: `repeat(${element.states.length}, minmax(0, 1fr))` }}
+      >
+        {element.states.map((state) => (
+          <button
+            key={state.value}
+            type="button"
+            onClick={() => onChange(state.value)}
+            className={`py-3 rounded-lg font-medium transition-colors ${
+              value === state.value
+                ? "bg-green-500 text-white"
+                : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300"
+            }`}
+          >
+            <span className="block">{state.label}</span>
+            <span className="text-xs opacity-75">{state.points} pts</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Counter Field Component
 function CounterField({
   label,
@@ -5,6 +5,7 @@ import { useSearchParams } from "next/navigation";
 import { useEffect, useState, useRef, Suspense } from "react";
 import Link from "next/link";
 import { teamsApi, eventsApi, scoutingApi, ftcTeamsApi } from "@/lib/api";
+import { isOnline, queueNote } from "@/lib/offline-queue";
 
 interface UserTeam {
   teamId: string;
@@ -66,6 +67,7 @@ function NotesContent() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [savedOffline, setSavedOffline] = useState(false);
   const [teamEvents, setTeamEvents] = useState<Array<{ eventCode: string; eventName: string }>>([]);
   const [formEventTeams, setFormEventTeams] = useState<Array<{ teamNumber: number; nameShort: string; nameFull: string }>>([]);
   const [formEventTeamsLoading, setFormEventTeamsLoading] = useState(false);
@@ -80,7 +82,7 @@ function NotesContent() {
       console.log("[ScoutNotes] Fetching user teams for user:", session.user.id);
 
       try {
-        const result = await teamsApi.getMyTeams(session.user.id);
+        const result = await teamsApi.getMyTeams();
         console.log("[ScoutNotes] Teams fetch result:", { success: result.success, count: result.data?.length || 0, error: result.error });
         if (result.success && result.data) {
           setTeams(result.data);
@@ -173,7 +175,7 @@ function NotesContent() {
       setNotesLoading(true);
       try {
         console.log("[ScoutNotes] Calling getNotes API...");
-        const result = await scoutingApi.getNotes(session.user.id, {
+        const result = await scoutingApi.getNotes({
           notingTeamId: selectedTeam,
           eventCode: selectedEvent || undefined,
         });
@@ -204,23 +206,32 @@ function NotesContent() {
     setSubmitting(true);
     setError(null);
 
+    const noteData = {
+      notingTeamId: selectedTeam,
+      aboutTeamNumber: teamNumber,
+      eventCode: formData.formEventCode || selectedEvent || undefined,
+      reliabilityRating: formData.reliabilityRating,
+      driverSkillRating: formData.driverSkillRating,
+      defenseRating: formData.defenseRating,
+      strategyNotes: formData.strategyNotes || undefined,
+      mechanicalNotes: formData.mechanicalNotes || undefined,
+      generalNotes: formData.generalNotes || undefined,
+    };
+
     try {
     console.log("[ScoutNotes] Submitting note for team:", formData.aboutTeamNumber);
-      const result = await scoutingApi.submitNote(session.user.id, {
-        notingTeamId: selectedTeam,
-        aboutTeamNumber: teamNumber,
-        eventCode: formData.formEventCode || selectedEvent || undefined,
-        reliabilityRating: formData.reliabilityRating,
-        driverSkillRating: formData.driverSkillRating,
-        defenseRating: formData.defenseRating,
-        strategyNotes: formData.strategyNotes || undefined,
-        mechanicalNotes: formData.mechanicalNotes || undefined,
-        generalNotes: formData.generalNotes || undefined,
-      });
-
-    console.log("[ScoutNotes] Submit note result:", { success: result.success, error: result.error });
-      if (result.success) {
+      // Offline, or the request never reached the server: queue it instead
+      const result = isOnline()
+        ? await scoutingApi.submitNote(noteData).catch(() => null)
+        : null;
+      if (!result) {
+        await queueNote(session.user.id, noteData);
+      }
+
+    console.log("[ScoutNotes] Submit note result:", { success: result?.success, error: result?.error });
+      if (!result || result.success) {
         setSuccess(true);
+        setSavedOffline(!result);
         setShowForm(false);
         setFormData((prev) => ({
           aboutTeamNumber: "",
@@ -232,13 +243,15 @@ function NotesContent() {
           mechanicalNotes: "",
           generalNotes: "",
         }));
-        // Refresh notes
-        const notesResult = await scoutingApi.getNotes(session.user!.id, {
-          notingTeamId: selectedTeam,
-          eventCode: selectedEvent || undefined,
-        });
-        if (notesResult.success && notesResult.data) {
-          setNotes(notesResult.data as ScoutingNote[]);
+        // Refresh notes (a queued note appears once it syncs)
+        if (result) {
+          const notesResult = await scoutingApi.getNotes({
+            notingTeamId: selectedTeam,
+            eventCode: selectedEvent || undefined,
+          });
+          if (notesResult.success && notesResult.data) {
+            setNotes(notesResult.data as ScoutingNote[]);
+          }
         }
         setTimeout(() => setSuccess(false), 3000);
       } else {
@@ -306,7 +319,7 @@ function NotesContent() {
 
       {success && (
         <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-600 dark:text-green-400">
-          Note submitted successfully!
+          {savedOffline ? "Note saved offline - will sync when connected" : "Note submitted successfully!"}
         </div>
       )}
 
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  discardOperation,
+  isOnline,
+  retryOperation,
+  syncPendingEntries,
+  useOutbox,
+  type OutboxKind,
+  type OutboxOperation,
+} from "@/lib/offline-queue";
+
+const KIND_LABELS: Record<OutboxKind, string> = {
+  entry: "Entry",
+  "entry-edit": "Edit",
+  note: "Note",
+  deduction: "Deduction",
+};
+
+function formatTime(ms: number) {
+  return new Date(ms).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+function OperationRow({
+  op,
+  busy,
+  onRetry,
+  onDiscard,
+}: {
+  op: OutboxOperation;
+  busy: boolean;
+  onRetry: () => void;
+  onDiscard: () => void;
+}) {
+  const waiting = op.status === "pending" && op.nextAttemptAt > Date.now();
+
+  return (
+    <div className="flex items-start justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 dark:bg-gray-700">
+            {KIND_LABELS[op.kind]}
+          </span>
+          <span className="font-medium truncate">{op.label}</span>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Saved {formatTime(op.createdAt)}
+          {op.attempts > 0 && ` · ${op.attempts} attempt${op.attempts === 1 ? "" : "s"}`}
+          {waiting && ` · next try ${formatTime(op.nextAttemptAt)}`}
+        </p>
+        {op.lastError && (
+          <p
+            className={`text-sm mt-1 ${
+              op.status === "failed" ? "text-red-600 dark:text-red-400" : "text-yellow-600 dark:text-yellow-400"
+            }`}
+          >
+            {op.lastError}
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2 shrink-0">
+        <button
+          onClick={onRetry}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm bg-ftc-orange text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+        >
+          Retry
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function OutboxPage() {
+  const { operations, pendingCount, failedCount } = useOutbox();
+  const [online, setOnline] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => setOnline(isOnline());
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setMessage(null);
+    try {
+      const result = await syncPendingEntries();
+      setMessage(
+        result.errors[0] === "Device is offline"
+          ? "Still offline - changes will sync when connected"
+          : `Synced ${result.synced} change${result.synced === 1 ? "" : "s"}${
+              result.failed > 0 ? `, ${result.failed} failed` : ""
+            }`
+      );
+    } catch {
+      setMessage("Sync failed");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleRetry = async (id: string) => {
+    setBusyId(id);
+    try {
+      await retryOperation(id);
+      if (isOnline()) await syncPendingEntries();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (op: OutboxOperation) => {
+    if (!confirm(`Discard "${op.label}"? This change will be lost.`)) return;
+    setBusyId(op.id);
+    try {
+      await discardOperation(op.id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const failed = operations.filter((op) => op.status === "failed");
+  const pending = operations.filter((op) => op.status === "pending");
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="mb-6">
+        <Link
+          href="/scout"
+          className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          &larr; Back to Scouting
+        </Link>
+        <h1 className="text-2xl font-bold mt-2">Offline Outbox</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Entries, edits, notes and deductions saved on this device that have not reached the server yet.
+          They sync automatically when you are online.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {online ? "Online" : "Offline"} · {pendingCount} pending · {failedCount} failed
+        </span>
+        <Link
+          href="/scout/transfer"
+          className="ml-auto px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg font-medium hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        >
+          Transfer by QR
+        </Link>
+        <button
+          onClick={handleSync}
+          disabled={syncing || !online || pendingCount === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {syncing ? "Syncing..." : "Sync Now"}
+        </button>
+      </div>
+
+      {message && (
+        <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg text-blue-700 dark:text-blue-300 text-sm">
+          {message}
+        </div>
+      )}
+
+      {operations.length === 0 ? (
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-8 text-center text-gray-500 dark:text-gray-400">
+          Nothing waiting to sync
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {failed.length > 0 && (
+            <div className="bg-white dark:bg-gray-900 rounded-xl border border-red-200 dark:border-red-800 p-6">
+              <h2 className="font-semibold text-lg mb-1">Failed</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                The server rejected these or they ran out of retries. Fix the cause, then retry or discard.
+              </p>
+              <div className="space-y-3">
+                {failed.map((op) => (
+                  <OperationRow
+                    key={op.id}
+                    op={op}
+                    busy={busyId === op.id}
+                    onRetry={() => handleRetry(op.id)}
+                    onDiscard={() => handleDiscard(op)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+          {pending.length > 0 && (
+            <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+              <h2 className="font-semibold text-lg mb-4">Pending</h2>
+              <div className="space-y-3">
+                {pending.map((op) => (
+                  <OperationRow
+                    key={op.id}
+                    op={op}
+                    busy={busyId === op.id}
+                    onRetry={() => handleRetry(op.id)}
+                    onDiscard={() => handleDiscard(op)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,28 @@ import { useSession } from "next-auth/react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { useEffect, useState, useMemo, useCallback, useRef, Suspense } from "react";
 import Link from "next/link";
-import { teamsApi, eventsApi, scoutingApi } from "@/lib/api";
+import {
+  CURRENT_SEASON,
+  calculateGameScores,
+  formatElementPoints,
+  getCurrentGame,
+  getEntryScoringValues,
+  getGameDefinition,
+  getPhaseElements,
+  type ScoringElement,
+  type ScoringValues,
+} from "@ftcmetrics/shared";
+import {
+  teamsApi,
+  eventsApi,
+  scoutingApi,
+  assignmentsApi,
+  type AuditLogEntry,
+  type ScoutingAssignment,
+} from "@/lib/api";
+import { useTeamFeed } from "@/lib/realtime";
+import { ExportMenu } from "@/components/export-menu";
+import { isOnline, queueDeduction, queueEntryEdit, useOutbox } from "@/lib/offline-queue";
 
 interface UserTeam {
   teamId: string;
@@ -32,6 +53,8 @@ interface ScoutingEntry {
   eventCode: string;
   matchNumber: number;
   alliance: "RED" | "BLUE";
+  season?: number;
+  scoringData?: ScoringValues | null;
   autoLeave: boolean;
   autoClassifiedCount: number;
   autoOverflowCount: number;
@@ -89,16 +112,12 @@ type FeedItem =
 interface EditFormData {
   matchNumber: number;
   alliance: "RED" | "BLUE";
-  autoLeave: boolean;
-  autoClassifiedCount: number;
-  autoOverflowCount: number;
-  autoPatternCount: number;
-  teleopClassifiedCount: number;
-  teleopOverflowCount: number;
-  teleopDepotCount: number;
-  teleopPatternCount: number;
-  teleopMotifCount: number;
-  endgameBaseStatus: "NONE" | "PARTIAL" | "FULL";
+  scoring: ScoringValues;
+}
+
+// Game definition an entry was scouted under
+function getEntryGame(entry: ScoutingEntry) {
+  return getGameDefinition(entry.season ?? CURRENT_SEASON) ?? getCurrentGame();
 }
 
 // Counter Field Component (matches the pattern from scout/match/page.tsx)
@@ -140,6 +159,117 @@ function CounterField({
   );
 }
 
+// Renders a single game definition scoring element
+function ScoringElementField({
+  element,
+  value,
+  onChange,
+}: {
+  element: ScoringElement;
+  value: number | boolean | string | undefined;
+  onChange: (value: number | boolean | string) => void;
+}) {
+  if (element.kind === "count") {
+    return (
+      <CounterField
+        label={element.label}
+        points={formatElementPoints(element)}
+        value={typeof value === "number" ? value : 0}
+        onChange={onChange}
+      />
+    );
+  }
+
+  if (element.kind === "boolean") {
+    const checked = value === true;
+    return (
+      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+        <div>
+          <p className="font-medium text-sm">{element.label}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{formatElementPoints(element)}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(!checked)}
+          className={`w-12 h-7 rounded-full transition-colors ${
+            checked
+              ? "bg-ftc-orange"
+              : "bg-gray-300 dark:bg-gray-600"
+          }`}
+        >
+          <div
+            className={`w-5 h-5 bg-white rounded-full transition-transform mx-1 ${
+              checked ? "translate-x-5" : ""
+            }`}
+          />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="grid gap-2"
+      style={{ gridTemplateColumns: `repeat(${element.states.length}, minmax(0, 1fr))` }}
+    >
+      {element.states.map((state) => (
+        <button
+          key={state.value}
+          type="button"
+          onClick={() => onChange(state.value)}
+          className={`py-2 rounded-lg font-medium text-sm transition-colors ${
+            value === state.value
+              ? "bg-green-500 text-white"
+              : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300"
+          }`}
+        >
+          <span className="block">{state.label}</span>
+          <span className="text-xs opacity-75">{state.points} pts</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const BREAKDOWN_PHASES = [
+  { phase: "auto", label: "Autonomous", color: "text-ftc-orange", scoreKey: "autoScore" },
+  { phase: "teleop", label: "Teleop", color: "text-ftc-blue", scoreKey: "teleopScore" },
+  { phase: "endgame", label: "Endgame", color: "text-green-500", scoreKey: "endgameScore" },
+] as const;
+
+// Per-element scoring breakdown for a submitted entry
+function ScoringBreakdown({ entry }: { entry: ScoutingEntry }) {
+  const game = getEntryGame(entry);
+  const values = getEntryScoringValues(game, { ...entry });
+
+  const formatValue = (el: ScoringElement) => {
+    const value = values[el.key];
+    if (el.kind === "boolean") return value ? `Yes (${el.points})` : "No (0)";
+    if (el.kind === "count") return `${value} (${Number(value) * el.points})`;
+    return el.states.find((s) => s.value === value)?.label ?? String(value);
+  };
+
+  return (
+    <>
+      {BREAKDOWN_PHASES.map(({ phase, label, color, scoreKey }) => (
+        <div key={phase}>
+          <p className={`text-xs font-semibold ${color} uppercase tracking-wide mb-2`}>
+            {label} — {entry[scoreKey]} pts
+          </p>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {getPhaseElements(game, phase).map((el) => (
+              <div key={el.key} className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
+                <span className="text-gray-600 dark:text-gray-400">{el.label}</span>
+                <span className="font-medium">{formatValue(el)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
 function EditEntryForm({
   entry,
   userId,
@@ -151,53 +281,44 @@ function EditEntryForm({
   onSave: () => void;
   onCancel: () => void;
 }) {
+  const game = getEntryGame(entry);
   const [data, setData] = useState<EditFormData>({
     matchNumber: entry.matchNumber,
     alliance: entry.alliance,
-    autoLeave: entry.autoLeave,
-    autoClassifiedCount: entry.autoClassifiedCount,
-    autoOverflowCount: entry.autoOverflowCount,
-    autoPatternCount: entry.autoPatternCount,
-    teleopClassifiedCount: entry.teleopClassifiedCount,
-    teleopOverflowCount: entry.teleopOverflowCount,
-    teleopDepotCount: entry.teleopDepotCount,
-    teleopPatternCount: entry.teleopPatternCount,
-    teleopMotifCount: entry.teleopMotifCount,
-    endgameBaseStatus: entry.endgameBaseStatus,
+    scoring: getEntryScoringValues(game, { ...entry }),
   });
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Calculate scores for display
-  const autoScore =
-    (data.autoLeave ? 3 : 0) +
-    data.autoClassifiedCount * 3 +
-    data.autoOverflowCount * 1 +
-    data.autoPatternCount * 2;
-
-  const teleopScore =
-    data.teleopClassifiedCount * 3 +
-    data.teleopOverflowCount * 1 +
-    data.teleopDepotCount * 1 +
-    data.teleopPatternCount * 2 +
-    data.teleopMotifCount * 2;
-
-  const endgameScore =
-    data.endgameBaseStatus === "FULL"
-      ? 10
-      : data.endgameBaseStatus === "PARTIAL"
-      ? 5
-      : 0;
-
-  const totalScore = autoScore + teleopScore + endgameScore;
+  const { autoScore, teleopScore, endgameScore, totalScore } =
+    calculateGameScores(game, data.scoring);
+
+  const setScoringValue = (key: string, value: number | boolean | string) => {
+    setData((prev) => ({ ...prev, scoring: { ...prev.scoring, [key]: value } }));
+  };
 
   const handleSave = async () => {
     setSaving(true);
     setError(null);
 
+    const { scoring, ...matchInfo } = data;
+    const changes = { ...matchInfo, ...scoring };
+
     try {
-      const result = await scoutingApi.updateEntry(userId, entry.id, data);
-      if (result.success) {
+      const result = isOnline()
+        ? await scoutingApi.updateEntry(entry.id, changes).catch(() => null)
+        : null;
+      if (!result) {
+        // Offline (or the request never arrived): keep the edit in the outbox
+        await queueEntryEdit(
+          userId,
+          entry.id,
+          changes,
+          `match ${entry.matchNumber} · team ${entry.scoutedTeam.teamNumber}`
+        );
+        onSave();
+      } else if (result.success) {
         onSave();
       } else {
         setError(result.error || "Failed to update entry");
@@ -281,53 +402,14 @@ function EditEntryForm({
           </span>
         </div>
         <div className="space-y-2">
-          <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-            <div>
-              <p className="font-medium text-sm">Leave Starting Zone</p>
-              <p className="text-xs text-gray-500 dark:text-gray-400">3 pts</p>
-            </div>
-            <button
-              type="button"
-              onClick={() =>
-                setData((prev) => ({ ...prev, autoLeave: !prev.autoLeave }))
-              }
-              className={`w-12 h-7 rounded-full transition-colors ${
-                data.autoLeave
-                  ? "bg-ftc-orange"
-                  : "bg-gray-300 dark:bg-gray-600"
-              }`}
-            >
-              <div
-                className={`w-5 h-5 bg-white rounded-full transition-transform mx-1 ${
-                  data.autoLeave ? "translate-x-5" : ""
-                }`}
-              />
-            </button>
-          </div>
-          <CounterField
-            label="Classified (High)"
-            points="3 pts each"
-            value={data.autoClassifiedCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, autoClassifiedCount: v }))
-            }
-          />
-          <CounterField
-            label="Overflow (Low)"
-            points="1 pt each"
-            value={data.autoOverflowCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, autoOverflowCount: v }))
-            }
-          />
-          <CounterField
-            label="Pattern Complete"
-            points="2 pts each"
-            value={data.autoPatternCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, autoPatternCount: v }))
-            }
-          />
+          {getPhaseElements(game, "auto").map((el) => (
+            <ScoringElementField
+              key={el.key}
+              element={el}
+              value={data.scoring[el.key]}
+              onChange={(v) => setScoringValue(el.key, v)}
+            />
+          ))}
         </div>
       </div>
 
@@ -340,46 +422,14 @@ function EditEntryForm({
           </span>
         </div>
         <div className="space-y-2">
-          <CounterField
-            label="Classified (High)"
-            points="3 pts each"
-            value={data.teleopClassifiedCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, teleopClassifiedCount: v }))
-            }
-          />
-          <CounterField
-            label="Overflow (Low)"
-            points="1 pt each"
-            value={data.teleopOverflowCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, teleopOverflowCount: v }))
-            }
-          />
-          <CounterField
-            label="Depot"
-            points="1 pt each"
-            value={data.teleopDepotCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, teleopDepotCount: v }))
-            }
-          />
-          <CounterField
-            label="Pattern Complete"
-            points="2 pts each"
-            value={data.teleopPatternCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, teleopPatternCount: v }))
-            }
-          />
-          <CounterField
-            label="Motif Complete"
-            points="2 pts each"
-            value={data.teleopMotifCount}
-            onChange={(v) =>
-              setData((prev) => ({ ...prev, teleopMotifCount: v }))
-            }
-          />
+          {getPhaseElements(game, "teleop").map((el) => (
+            <ScoringElementField
+              key={el.key}
+              element={el}
+              value={data.scoring[el.key]}
+              onChange={(v) => setScoringValue(el.key, v)}
+            />
+          ))}
         </div>
       </div>
 
@@ -391,29 +441,14 @@ function EditEntryForm({
             {endgameScore} pts
           </span>
         </div>
-        <div className="grid grid-cols-3 gap-2">
-          {(["NONE", "PARTIAL", "FULL"] as const).map((status) => (
-            <button
-              key={status}
-              type="button"
-              onClick={() =>
-                setData((prev) => ({ ...prev, endgameBaseStatus: status }))
-              }
-              className={`py-2 rounded-lg font-medium text-sm transition-colors ${
-                data.endgameBaseStatus === status
-                  ? "bg-green-500 text-white"
-                  : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300"
-              }`}
-            >
-              <span className="block">{status}</span>
-              <span className="text-xs opacity-75">
-                {status === "FULL"
-                  ? "10 pts"
-                  : status === "PARTIAL"
-                  ? "5 pts"
-                  : "0 pts"}
-              </span>
-            </button>
+        <div className="space-y-2">
+          {getPhaseElements(game, "endgame").map((el) => (
+            <ScoringElementField
+              key={el.key}
+              element={el}
+              value={data.scoring[el.key]}
+              onChange={(v) => setScoringValue(el.key, v)}
+            />
           ))}
         </div>
       </div>
@@ -454,6 +489,154 @@ function EditEntryForm({
   );
 }
 
+const HISTORY_ACTION_LABELS: Record<string, string> = {
+  "scouting-entry.create": "Submitted",
+  "scouting-entry.update": "Edited",
+  "scouting-entry.revert": "Reverted an edit",
+  "scouting-entry.deduct": "Partner deducted",
+};
+
+const HISTORY_FIELD_LABELS: Record<string, string> = {
+  matchNumber: "Match",
+  alliance: "Alliance",
+  allianceNotes: "Alliance notes",
+  autoScore: "Auto score",
+  teleopScore: "Teleop score",
+  endgameScore: "Endgame score",
+  totalScore: "Total score",
+};
+
+const formatHistoryValue = (value: unknown) =>
+  value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+/**
+ * Field-level changes of an audit row, labelled with the entry's scoring
+ * elements. Changes inside scoringData are listed per element.
+ */
+function describeChanges(entry: ScoutingEntry, record: AuditLogEntry) {
+  const game = getEntryGame(entry);
+  const labels = new Map<string, string>([
+    ...Object.entries(HISTORY_FIELD_LABELS),
+    ...game.elements.map((el): [string, string] => [el.key, el.label]),
+  ]);
+  const before = record.before ?? {};
+  const after = record.after ?? {};
+  const changes: Array<{ label: string; from: unknown; to: unknown }> = [];
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[field];
+    const to = after[field];
+    if (field === "scoringData" && from && to && typeof from === "object" && typeof to === "object") {
+      const fromValues = from as Record<string, unknown>;
+      const toValues = to as Record<string, unknown>;
+      for (const key of new Set([...Object.keys(fromValues), ...Object.keys(toValues)])) {
+        if (JSON.stringify(fromValues[key]) === JSON.stringify(toValues[key])) continue;
+        changes.push({ label: labels.get(key) ?? key, from: fromValues[key], to: toValues[key] });
+      }
+      continue;
+    }
+    changes.push({ label: labels.get(field) ?? field, from, to });
+  }
+
+  return changes;
+}
+
+function EntryHistory({
+  entry,
+  onReverted,
+}: {
+  entry: ScoutingEntry;
+  onReverted: () => void;
+}) {
+  const [history, setHistory] = useState<AuditLogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    const result = await scoutingApi.getEntryHistory(entry.id);
+    if (result.success && result.data) {
+      setHistory(result.data);
+      setError(null);
+    } else {
+      setError(result.error || "Failed to load history");
+    }
+  }, [entry.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRevert = async (auditId: string) => {
+    if (!confirm("Revert this edit? Later changes to other fields are kept.")) return;
+    setRevertingId(auditId);
+    const result = await scoutingApi.revertEntry(entry.id, auditId);
+    setRevertingId(null);
+    if (result.success) {
+      await loadHistory();
+      onReverted();
+    } else {
+      setError(result.error || "Failed to revert edit");
+    }
+  };
+
+  if (error) {
+    return <p className="text-xs text-red-500 dark:text-red-400">{error}</p>;
+  }
+  if (!history) {
+    return <p className="text-xs text-gray-400 dark:text-gray-500">Loading history...</p>;
+  }
+  if (history.length === 0) {
+    return <p className="text-xs text-gray-400 dark:text-gray-500">No recorded changes.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {history.map((record) => {
+        const changes = describeChanges(entry, record);
+        const revertable =
+          record.action === "scouting-entry.update" || record.action === "scouting-entry.revert";
+
+        return (
+          <li key={record.id} className="bg-gray-50 dark:bg-gray-800 rounded px-3 py-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                <span className="font-medium text-gray-700 dark:text-gray-300">
+                  {HISTORY_ACTION_LABELS[record.action] ?? record.action}
+                </span>{" "}
+                by {record.actor?.name ?? "a removed user"} · {new Date(record.createdAt).toLocaleString()}
+              </span>
+              {revertable && changes.length > 0 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRevert(record.id);
+                  }}
+                  disabled={revertingId !== null}
+                  className="px-2 py-1 text-xs font-medium rounded bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50"
+                >
+                  {revertingId === record.id ? "Reverting..." : "Revert"}
+                </button>
+              )}
+            </div>
+            {revertable && changes.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {changes.map((change) => (
+                  <li key={change.label} className="flex gap-1">
+                    <span className="text-gray-500 dark:text-gray-400">{change.label}:</span>
+                    <span className="line-through text-gray-400">{formatHistoryValue(change.from)}</span>
+                    <span>→</span>
+                    <span className="font-medium">{formatHistoryValue(change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 function ScoutContent() {
   const { data: session } = useSession();
   console.log("[Scout] Session loaded:", session?.user?.id ? `User ${session.user.id}` : "No session");
@@ -475,14 +658,17 @@ function ScoutContent() {
   const [notes, setNotes] = useState<ScoutingNote[]>([]);
   const [entriesLoading, setEntriesLoading] = useState(false);
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
   const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
   const [deductingId, setDeductingId] = useState<string | null>(null);
   const [deductMessage, setDeductMessage] = useState<{ id: string; text: string; type: "success" | "error" } | null>(null);
+  const { pendingCount: outboxPending, failedCount: outboxFailed } = useOutbox();
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState("");
   const [showUpcomingOnly, setShowUpcomingOnly] = useState(true);
   const [recentEventCodes, setRecentEventCodes] = useState<string[]>([]);
+  const [nextAssignment, setNextAssignment] = useState<ScoutingAssignment | null>(null);
 
   useEffect(() => {
     async function fetchTeams() {
@@ -493,7 +679,7 @@ function ScoutContent() {
       console.log("[Scout] Fetching user teams for user:", session.user.id);
 
       try {
-        const result = await teamsApi.getMyTeams(session.user.id);
+        const result = await teamsApi.getMyTeams();
         console.log("[Scout] Teams fetch result:", { success: result.success, count: result.data?.length || 0, error: result.error });
         if (result.success && result.data) {
           setTeams(result.data);
@@ -570,10 +756,10 @@ function ScoutContent() {
     try {
       console.log("[Scout] Calling getEntries and getNotes APIs...");
       const [entriesResult, notesResult] = await Promise.all([
-        scoutingApi.getEntries(session.user.id, {
+        scoutingApi.getEntries({
           scoutingTeamId: selectedTeam,
         }),
-        scoutingApi.getNotes(session.user!.id, { notingTeamId: selectedTeam }),
+        scoutingApi.getNotes({ notingTeamId: selectedTeam }),
       ]);
       console.log("[Scout] Entries fetch result:", { success: entriesResult.success, count: (entriesResult.data as unknown[])?.length || 0 });
       if (entriesResult.success && entriesResult.data) {
@@ -600,6 +786,29 @@ function ScoutContent() {
     fetchEntries();
   }, [fetchEntries]);
 
+  const fetchNextAssignment = useCallback(async () => {
+    if (!session?.user?.id || !selectedTeam || !selectedEventCode) {
+      setNextAssignment(null);
+      return;
+    }
+    try {
+      const result = await assignmentsApi.getMyAssignments(selectedTeam, selectedEventCode);
+      setNextAssignment(result.success ? result.data?.next ?? null : null);
+    } catch (err) {
+      console.error("Failed to fetch assignments:", err);
+    }
+  }, [session?.user?.id, selectedTeam, selectedEventCode]);
+
+  useEffect(() => {
+    fetchNextAssignment();
+  }, [fetchNextAssignment]);
+
+  // Live updates when teammates submit or edit entries and notes
+  useTeamFeed(selectedTeam ? [selectedTeam] : [], () => {
+    fetchEntries();
+    fetchNextAssignment();
+  });
+
   // Retry alliance deductions when entries finish loading (picks up newly available match data)
   useEffect(() => {
     if (entriesLoading || !session?.user?.id || !selectedTeam || entries.length === 0) return;
@@ -612,7 +821,7 @@ function ScoutContent() {
       for (const eventCode of eventCodes) {
         if (cancelled) return;
         try {
-          const result = await scoutingApi.retryDeductions(session!.user!.id, {
+          const result = await scoutingApi.retryDeductions({
             eventCode,
             scoutingTeamId: selectedTeam,
           });
@@ -638,9 +847,21 @@ function ScoutContent() {
     if (!session?.user?.id) return;
     setDeductingId(entryId);
     setDeductMessage(null);
+    const entry = entries.find((e) => e.id === entryId);
     try {
       console.log("[Scout] Deducting partner for entry:", entryId);
-      const result = await scoutingApi.deductPartner(session.user.id, entryId);
+      const result = isOnline()
+        ? await scoutingApi.deductPartner(entryId).catch(() => null)
+        : null;
+      if (!result) {
+        await queueDeduction(
+          session.user.id,
+          entryId,
+          entry ? `match ${entry.matchNumber} · team ${entry.scoutedTeam.teamNumber}` : "entry"
+        );
+        setDeductMessage({ id: entryId, text: "Saved offline - will deduct when connected", type: "success" });
+        return;
+      }
       console.log("[Scout] Deduct partner result:", { success: result.success, error: result.error });
       if (result.success) {
         setDeductMessage({ id: entryId, text: "Partner entry created", type: "success" });
@@ -918,6 +1139,20 @@ function ScoutContent() {
         )}
       </div>
 
+      {/* Next assigned robot-match from the team's rotation */}
+      {selectedTeam && selectedEventCode && nextAssignment && (
+        <Link
+          href={`/scout/match?team=${selectedTeam}&event=${selectedEventCode}&scoutedTeam=${nextAssignment.teamNumber}&match=${nextAssignment.matchNumber}&alliance=${nextAssignment.station.startsWith("Blue") ? "BLUE" : "RED"}`}
+          className="block w-full mb-3 p-4 bg-ftc-orange/10 border border-ftc-orange/30 rounded-xl hover:bg-ftc-orange/20 transition-colors"
+        >
+          <p className="text-xs text-gray-500 dark:text-gray-400">Your next assignment</p>
+          <p className="font-medium">
+            Match {nextAssignment.matchNumber} · {nextAssignment.station.replace(/(\d)$/, " $1")} · Team{" "}
+            {nextAssignment.teamNumber}
+          </p>
+        </Link>
+      )}
+
       {/* Start Scouting Button */}
       {selectedTeam && selectedEventCode ? (
         <Link
@@ -934,10 +1169,56 @@ function ScoutContent() {
           Select team and event to start
         </button>
       )}
+      {selectedTeam && selectedEventCode && (
+        <Link
+          href={`/scout/picklist?team=${selectedTeam}&event=${selectedEventCode}`}
+          className="block w-full mt-3 py-3 bg-gray-100 dark:bg-gray-800 rounded-xl font-medium text-center hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          Pick List
+        </Link>
+      )}
+      {selectedTeam && selectedEventCode && (
+        <Link
+          href={`/scout/assignments?team=${selectedTeam}&event=${selectedEventCode}`}
+          className="block w-full mt-3 py-3 bg-gray-100 dark:bg-gray-800 rounded-xl font-medium text-center hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          Assignments &amp; Coverage
+        </Link>
+      )}
+      {selectedTeam && selectedEventCode && (
+        <Link
+          href={`/scout/consensus?team=${selectedTeam}&event=${selectedEventCode}`}
+          className="block w-full mt-3 py-3 bg-gray-100 dark:bg-gray-800 rounded-xl font-medium text-center hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          Duplicate Entries
+        </Link>
+      )}
+      {(outboxPending > 0 || outboxFailed > 0) && (
+        <Link
+          href="/scout/outbox"
+          className="block w-full mt-3 py-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-700 dark:text-yellow-400 rounded-xl font-medium text-center hover:bg-yellow-100 dark:hover:bg-yellow-900/30 transition-colors"
+        >
+          Offline Outbox ({outboxPending} pending{outboxFailed > 0 && `, ${outboxFailed} failed`})
+        </Link>
+      )}
 
       {/* Recent Entries & Notes */}
       <div className="mt-8 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
-        <h2 className="font-semibold text-lg mb-4">Recent Activity</h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="font-semibold text-lg">Recent Activity</h2>
+          {selectedTeam && (
+            <ExportMenu
+              teamId={selectedTeam}
+              eventCode={selectedEventCode || undefined}
+              datasets={
+                selectedEventCode
+                  ? ["entries", "notes", "team-summaries", "ratings", "picklists"]
+                  : ["entries", "notes", "team-summaries", "picklists"]
+              }
+              workbook
+            />
+          )}
+        </div>
         {entriesLoading ? (
           <div className="space-y-3">
             {[1, 2, 3].map((i) => (
@@ -1061,64 +1342,7 @@ function ScoutContent() {
                     {/* Expanded scoring breakdown */}
                     {isExpanded && (
                       <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
-                        {/* Autonomous */}
-                        <div>
-                          <p className="text-xs font-semibold text-ftc-orange uppercase tracking-wide mb-2">Autonomous — {entry.autoScore} pts</p>
-                          <div className="grid grid-cols-2 gap-2 text-sm">
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Leave</span>
-                              <span className="font-medium">{entry.autoLeave ? "Yes (3)" : "No (0)"}</span>
-                            </div>
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Classified</span>
-                              <span className="font-medium">{entry.autoClassifiedCount} ({entry.autoClassifiedCount * 3})</span>
-                            </div>
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Overflow</span>
-                              <span className="font-medium">{entry.autoOverflowCount} ({entry.autoOverflowCount})</span>
-                            </div>
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Pattern</span>
-                              <span className="font-medium">{entry.autoPatternCount} ({entry.autoPatternCount * 2})</span>
-                            </div>
-                          </div>
-                        </div>
-
-                        {/* Teleop */}
-                        <div>
-                          <p className="text-xs font-semibold text-ftc-blue uppercase tracking-wide mb-2">Teleop — {entry.teleopScore} pts</p>
-                          <div className="grid grid-cols-2 gap-2 text-sm">
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Classified</span>
-                              <span className="font-medium">{entry.teleopClassifiedCount} ({entry.teleopClassifiedCount * 3})</span>
-                            </div>
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Overflow</span>
-                              <span className="font-medium">{entry.teleopOverflowCount} ({entry.teleopOverflowCount})</span>
-                            </div>
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Depot</span>
-                              <span className="font-medium">{entry.teleopDepotCount} ({entry.teleopDepotCount})</span>
-                            </div>
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Pattern</span>
-                              <span className="font-medium">{entry.teleopPatternCount} ({entry.teleopPatternCount * 2})</span>
-                            </div>
-                            <div className="flex justify-between bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5">
-                              <span className="text-gray-600 dark:text-gray-400">Motif</span>
-                              <span className="font-medium">{entry.teleopMotifCount} ({entry.teleopMotifCount * 2})</span>
-                            </div>
-                          </div>
-                        </div>
-
-                        {/* Endgame */}
-                        <div>
-                          <p className="text-xs font-semibold text-green-500 uppercase tracking-wide mb-2">Endgame — {entry.endgameScore} pts</p>
-                          <div className="text-sm bg-gray-50 dark:bg-gray-800 rounded px-3 py-1.5 inline-block">
-                            <span className="text-gray-600 dark:text-gray-400">Base: </span>
-                            <span className="font-medium">{entry.endgameBaseStatus}</span>
-                          </div>
-                        </div>
+                        <ScoringBreakdown entry={entry} />
 
                         {/* Alliance Notes */}
                         {entry.allianceNotes && (
@@ -1131,10 +1355,25 @@ function ScoutContent() {
                         )}
 
                         {/* Scouter info */}
-                        <div className="text-xs text-gray-400 dark:text-gray-500">
-                          Scouted by {entry.scouter.name}
+                        <div className="flex items-center justify-between text-xs text-gray-400 dark:text-gray-500">
+                          <span>Scouted by {entry.scouter.name}</span>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setHistoryEntryId(historyEntryId === entry.id ? null : entry.id);
+                            }}
+                            className="font-medium text-ftc-blue hover:underline"
+                          >
+                            {historyEntryId === entry.id ? "Hide history" : "History"}
+                          </button>
                         </div>
 
+                        {historyEntryId === entry.id && session?.user?.id && (
+                          <div onClick={(e) => e.stopPropagation()}>
+                            <EntryHistory entry={entry} onReverted={fetchEntries} />
+                          </div>
+                        )}
+
                         {/* Deduct Partner action — also shown here for easy access on small screens */}
                         <div className="flex items-center gap-3 pt-1">
                           <button
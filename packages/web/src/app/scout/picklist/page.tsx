@@ -0,0 +1,493 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState, Suspense } from "react";
+import Link from "next/link";
+import {
+  teamsApi,
+  pickListsApi,
+  type PickList,
+  type PickListEntry,
+  type PickListEntryUpdate,
+} from "@/lib/api";
+import { useTeamFeed } from "@/lib/realtime";
+
+interface UserTeam {
+  teamId: string;
+  role: string;
+  capabilities?: string[];
+  team: {
+    id: string;
+    teamNumber: number;
+    name: string;
+  };
+}
+
+// Where a dragged team is dropped: before another team, or at the end of a tier
+type DropTarget = { tier: number; beforeTeam: number | null };
+
+function formatStat(value: number | null | undefined, digits = 1) {
+  return value === null || value === undefined ? "-" : value.toFixed(digits);
+}
+
+function PickListRow({
+  entry,
+  position,
+  isNextBest,
+  selectionMode,
+  canEdit,
+  onUpdate,
+  onDragStart,
+  onDrop,
+}: {
+  entry: PickListEntry;
+  position: number;
+  isNextBest: boolean;
+  selectionMode: boolean;
+  canEdit: boolean;
+  onUpdate: (data: PickListEntryUpdate) => void;
+  onDragStart: () => void;
+  onDrop: () => void;
+}) {
+  const [editingComment, setEditingComment] = useState(false);
+  const [comment, setComment] = useState(entry.comment ?? "");
+
+  useEffect(() => {
+    if (!editingComment) setComment(entry.comment ?? "");
+  }, [entry.comment, editingComment]);
+
+  const saveComment = () => {
+    setEditingComment(false);
+    if ((entry.comment ?? "") !== comment) {
+      onUpdate({ comment: comment || null });
+    }
+  };
+
+  return (
+    <div
+      draggable={canEdit && !selectionMode}
+      onDragStart={onDragStart}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onDrop();
+      }}
+      onClick={() => {
+        if (selectionMode && canEdit) onUpdate({ picked: !entry.picked });
+      }}
+      className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${
+        isNextBest
+          ? "border-ftc-orange bg-ftc-orange/5"
+          : "border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900"
+      } ${entry.picked || entry.doNotPick ? "opacity-50" : ""} ${
+        selectionMode && canEdit ? "cursor-pointer" : canEdit ? "cursor-grab" : ""
+      }`}
+    >
+      <span className="w-6 text-right text-sm text-gray-400 pt-0.5">{position}</span>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Link
+            href={`/analytics/team/${entry.teamNumber}`}
+            onClick={(e) => e.stopPropagation()}
+            className={`font-semibold hover:text-ftc-orange ${entry.picked ? "line-through" : ""}`}
+          >
+            {entry.teamNumber}
+          </Link>
+          {isNextBest && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-ftc-orange text-white">
+              Next best
+            </span>
+          )}
+          {entry.doNotPick && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400">
+              Do not pick
+            </span>
+          )}
+          {entry.picked && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-500">
+              Picked
+            </span>
+          )}
+        </div>
+        <div className="flex gap-4 mt-1 text-xs text-gray-500 dark:text-gray-400">
+          <span>EPA {formatStat(entry.stats?.epa)}</span>
+          <span>OPR {formatStat(entry.stats?.opr)}</span>
+          <span>
+            Scouted {formatStat(entry.stats?.scoutedAverage)}
+            {entry.stats?.scoutedMatches ? ` (${entry.stats.scoutedMatches})` : ""}
+          </span>
+          <span>Notes {formatStat(entry.stats?.noteRating)}</span>
+        </div>
+        {editingComment ? (
+          <input
+            autoFocus
+            value={comment}
+            maxLength={1000}
+            onChange={(e) => setComment(e.target.value)}
+            onBlur={saveComment}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveComment();
+              if (e.key === "Escape") {
+                setComment(entry.comment ?? "");
+                setEditingComment(false);
+              }
+            }}
+            onClick={(e) => e.stopPropagation()}
+            className="mt-2 w-full px-2 py-1 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded"
+            placeholder="Add a comment"
+          />
+        ) : (
+          (entry.comment || (canEdit && !selectionMode)) && (
+            <button
+              type="button"
+              disabled={!canEdit || selectionMode}
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingComment(true);
+              }}
+              className="mt-1 text-sm text-left text-gray-600 dark:text-gray-300 disabled:cursor-default"
+            >
+              {entry.comment || <span className="text-gray-400">Add comment</span>}
+            </button>
+          )
+        )}
+      </div>
+      {canEdit && !selectionMode && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onUpdate({ doNotPick: !entry.doNotPick });
+          }}
+          className={`text-xs px-2 py-1 rounded-lg border transition-colors ${
+            entry.doNotPick
+              ? "border-red-500 text-red-500"
+              : "border-gray-200 dark:border-gray-700 text-gray-500 hover:border-red-500 hover:text-red-500"
+          }`}
+        >
+          DNP
+        </button>
+      )}
+    </div>
+  );
+}
+
+function PickListContent() {
+  const { data: session } = useSession();
+  const searchParams = useSearchParams();
+  const userId = session?.user?.id;
+
+  const [teams, setTeams] = useState<UserTeam[]>([]);
+  const [selectedTeam, setSelectedTeam] = useState(searchParams.get("team") || "");
+  const [eventCode, setEventCode] = useState(searchParams.get("event") || "");
+  const [pickList, setPickList] = useState<PickList | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit =
+    teams.find((t) => t.teamId === selectedTeam)?.capabilities?.includes("manage-picklists") ??
+    false;
+
+  useEffect(() => {
+    if (!userId) return;
+    teamsApi
+      .getMyTeams()
+      .then((result) => {
+        if (result.success && result.data) {
+          setTeams(result.data);
+          if (!selectedTeam && result.data.length === 1) {
+            setSelectedTeam(result.data[0].teamId);
+          }
+        }
+      })
+      .catch((err) => console.error("Failed to fetch teams:", err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  const fetchPickList = useCallback(async () => {
+    if (!userId || !selectedTeam || !eventCode) return;
+    try {
+      const lists = await pickListsApi.getPickLists(selectedTeam, eventCode);
+      const summary = lists.success ? lists.data?.[0] : undefined;
+      if (!summary) {
+        setPickList(null);
+        return;
+      }
+      const result = await pickListsApi.getPickList(selectedTeam, summary.id);
+      if (result.success && result.data) {
+        setPickList(result.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch pick list:", err);
+      setError("Failed to load pick list");
+    }
+  }, [userId, selectedTeam, eventCode]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetchPickList().finally(() => setLoading(false));
+  }, [fetchPickList]);
+
+  // Teammates' picks and reorders show up live during alliance selection
+  useTeamFeed(
+    selectedTeam ? [selectedTeam] : [],
+    (_event, data) => {
+      if (pickList && data.id === pickList.id) fetchPickList();
+    },
+    ["picklist-updated"]
+  );
+
+  const nextBest = useMemo(
+    () => pickList?.entries.find((e) => !e.picked && !e.doNotPick)?.teamNumber ?? null,
+    [pickList]
+  );
+
+  const handleCreate = async () => {
+    if (!userId || !selectedTeam || !eventCode) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const result = await pickListsApi.createPickList(selectedTeam, {
+        eventCode: eventCode.toUpperCase(),
+      });
+      if (result.success && result.data) {
+        setPickList(result.data);
+      } else {
+        setError(result.error || "Failed to create pick list");
+      }
+    } catch {
+      setError("Failed to create pick list");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!userId || !pickList) return;
+    setRefreshing(true);
+    try {
+      const result = await pickListsApi.refreshPickList(selectedTeam, pickList.id);
+      if (result.success && result.data) setPickList(result.data);
+    } catch {
+      setError("Failed to refresh stats");
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const updateEntry = async (teamNumber: number, data: PickListEntryUpdate) => {
+    if (!userId || !pickList) return;
+    // Optimistic so strike-through is instant during selection
+    setPickList({
+      ...pickList,
+      entries: pickList.entries.map((e) => (e.teamNumber === teamNumber ? { ...e, ...data } : e)),
+    });
+    try {
+      const result = await pickListsApi.updateEntry(selectedTeam, pickList.id, teamNumber, data);
+      if (!result.success) {
+        setError(result.error || "Failed to update team");
+        fetchPickList();
+      }
+    } catch {
+      setError("Failed to update team");
+      fetchPickList();
+    }
+  };
+
+  const handleDrop = async (target: DropTarget) => {
+    if (!userId || !pickList || dragging === null) return;
+    const moved = pickList.entries.find((e) => e.teamNumber === dragging);
+    setDragging(null);
+    if (!moved || moved.teamNumber === target.beforeTeam) return;
+
+    // Rebuild the list order tier by tier with the moved team in its new spot
+    const remaining = pickList.entries.filter((e) => e.teamNumber !== moved.teamNumber);
+    const ordered: PickListEntry[] = [];
+    pickList.tiers.forEach((_, tier) => {
+      const tierEntries = remaining.filter((e) => e.tier === tier);
+      if (tier === target.tier) {
+        const index =
+          target.beforeTeam === null
+            ? tierEntries.length
+            : tierEntries.findIndex((e) => e.teamNumber === target.beforeTeam);
+        tierEntries.splice(index < 0 ? tierEntries.length : index, 0, { ...moved, tier });
+      }
+      ordered.push(...tierEntries);
+    });
+    const entries = ordered.map((e, rank) => ({ ...e, rank }));
+
+    setPickList({ ...pickList, entries });
+    try {
+      const result = await pickListsApi.updatePickList(selectedTeam, pickList.id, {
+        entries: entries.map((e) => ({ teamNumber: e.teamNumber, tier: e.tier, rank: e.rank })),
+      });
+      if (result.success && result.data) {
+        setPickList(result.data);
+      } else {
+        setError(result.error || "Failed to save order");
+        fetchPickList();
+      }
+    } catch {
+      setError("Failed to save order");
+      fetchPickList();
+    }
+  };
+
+  let position = 0;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link
+          href="/scout"
+          className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          &larr; Back to Scouting
+        </Link>
+        <h1 className="text-2xl font-bold mt-2">Alliance Selection Pick List</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Drag teams to reorder. Turn on selection mode during alliance selection and tap teams as they get picked.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 mb-6">
+        <select
+          value={selectedTeam}
+          onChange={(e) => setSelectedTeam(e.target.value)}
+          className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+        >
+          <option value="">Select team</option>
+          {teams.map((t) => (
+            <option key={t.teamId} value={t.teamId}>
+              {t.team.teamNumber} - {t.team.name}
+            </option>
+          ))}
+        </select>
+        <input
+          value={eventCode}
+          onChange={(e) => setEventCode(e.target.value.toUpperCase())}
+          placeholder="Event code"
+          className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      ) : !selectedTeam || !eventCode ? (
+        <p className="text-center text-gray-500 py-12">Select a team and event to open its pick list</p>
+      ) : !pickList ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800">
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            No pick list for {eventCode} yet. New lists are seeded from EPA, OPR, scouting averages and note ratings.
+          </p>
+          <button
+            onClick={handleCreate}
+            disabled={creating || !canEdit}
+            className="px-6 py-3 bg-ftc-orange text-white rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {creating ? "Building..." : "Create Pick List"}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h2 className="text-lg font-semibold">{pickList.name}</h2>
+            <div className="flex gap-2">
+              {canEdit && (
+                <button
+                  onClick={handleRefresh}
+                  disabled={refreshing || selectionMode}
+                  className="px-3 py-2 text-sm bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  {refreshing ? "Refreshing..." : "Refresh Stats"}
+                </button>
+              )}
+              <button
+                onClick={() => setSelectionMode(!selectionMode)}
+                className={`px-3 py-2 text-sm rounded-lg font-medium transition-colors ${
+                  selectionMode
+                    ? "bg-ftc-orange text-white"
+                    : "bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700"
+                }`}
+              >
+                {selectionMode ? "Selection Mode On" : "Selection Mode"}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            {pickList.tiers.map((tierName, tier) => {
+              const tierEntries = pickList.entries.filter((e) => e.tier === tier);
+              return (
+                <div
+                  key={tier}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop({ tier, beforeTeam: null });
+                  }}
+                  className="p-4 bg-gray-100/50 dark:bg-gray-900/50 rounded-xl border border-dashed border-gray-200 dark:border-gray-800"
+                >
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="font-medium">{tierName}</h3>
+                    <span className="text-xs text-gray-500">{tierEntries.length} teams</span>
+                  </div>
+                  <div className="space-y-2">
+                    {tierEntries.map((entry) => {
+                      position++;
+                      return (
+                        <PickListRow
+                          key={entry.teamNumber}
+                          entry={entry}
+                          position={position}
+                          isNextBest={entry.teamNumber === nextBest}
+                          selectionMode={selectionMode}
+                          canEdit={canEdit}
+                          onUpdate={(data) => updateEntry(entry.teamNumber, data)}
+                          onDragStart={() => setDragging(entry.teamNumber)}
+                          onDrop={() => handleDrop({ tier, beforeTeam: entry.teamNumber })}
+                        />
+                      );
+                    })}
+                    {tierEntries.length === 0 && (
+                      <p className="text-sm text-gray-400 text-center py-4">Drop teams here</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function PickListPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+        </div>
+      }
+    >
+      <PickListContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,397 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import {
+  discardOperation,
+  receiveTransferredEntries,
+  useOutbox,
+  type OutboxOperation,
+  type ScoutingEntryData,
+} from "@/lib/offline-queue";
+import { decodeTransferCode, encodeTransferCodes } from "@/lib/qr-transfer";
+import { encodeQr } from "@/lib/qr-code";
+
+// Auto-advance interval when cycling through several codes
+const CYCLE_MS = 2500;
+// How often a camera frame is checked for a code
+const SCAN_INTERVAL_MS = 250;
+
+// Shape-detection API; Chrome on Android has it, most desktop browsers do not
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+function QrCodeImage({ text }: { text: string }) {
+  const qr = useMemo(() => encodeQr(text), [text]);
+  // Four-module quiet zone on every side
+  const size = qr.size + 8;
+  const path = qr.modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4} ${y + 4}h1v1h-1z` : "")))
+    .join("");
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      className="w-full max-w-sm aspect-square bg-white rounded-lg"
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Transfer QR code"
+    >
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+function SendPanel({ operations }: { operations: OutboxOperation[] }) {
+  const entryOps = operations.filter((op) => op.kind === "entry" && op.body);
+  const [index, setIndex] = useState(0);
+  const [cycling, setCycling] = useState(true);
+  const [removing, setRemoving] = useState(false);
+
+  const { codes, error } = useMemo(() => {
+    try {
+      const codes = encodeTransferCodes(
+        entryOps.map((op) => ({
+          id: op.id,
+          // Entries received from another device keep their original scout
+          scouterId: (op.body!.scouterId as string | undefined) ?? op.userId,
+          data: op.body as ScoutingEntryData,
+        }))
+      );
+      return { codes, error: null };
+    } catch (err) {
+      return { codes: [], error: err instanceof Error ? err.message : "Could not build the codes" };
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entryOps.map((op) => op.id).join(",")]);
+
+  useEffect(() => {
+    if (!cycling || codes.length < 2) return;
+    const timer = setInterval(() => setIndex((i) => (i + 1) % codes.length), CYCLE_MS);
+    return () => clearInterval(timer);
+  }, [cycling, codes.length]);
+
+  const current = Math.min(index, Math.max(codes.length - 1, 0));
+
+  const handleRemove = async () => {
+    if (
+      !confirm(
+        `Remove ${entryOps.length} entries from this device? Only do this once the receiving device has scanned every code.`
+      )
+    ) {
+      return;
+    }
+    setRemoving(true);
+    try {
+      for (const op of entryOps) await discardOperation(op.id);
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  if (entryOps.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-8 text-center text-gray-500 dark:text-gray-400">
+        No scouting entries waiting on this device
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {entryOps.length} queued {entryOps.length === 1 ? "entry" : "entries"} in {codes.length}{" "}
+        {codes.length === 1 ? "code" : "codes"}. Hold this screen up to the receiving device until it has
+        scanned every code; the order does not matter.
+      </p>
+
+      {error ? (
+        <p className="text-sm text-red-500 dark:text-red-400">{error}</p>
+      ) : (
+        <div className="flex flex-col items-center gap-4">
+          <QrCodeImage text={codes[current]} />
+          {codes.length > 1 && (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => {
+                  setCycling(false);
+                  setIndex((current - 1 + codes.length) % codes.length);
+                }}
+                className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                Previous
+              </button>
+              <span className="text-sm font-medium">
+                Code {current + 1} of {codes.length}
+              </span>
+              <button
+                onClick={() => {
+                  setCycling(false);
+                  setIndex((current + 1) % codes.length);
+                }}
+                className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                Next
+              </button>
+              <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+                <input type="checkbox" checked={cycling} onChange={(e) => setCycling(e.target.checked)} />
+                Cycle
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6 pt-4 border-t border-gray-100 dark:border-gray-800">
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Entries stay queued here too. If both devices sync, the server keeps the first copy and this
+          device&apos;s copy fails as a duplicate, which you can then discard.
+        </p>
+        <button
+          onClick={handleRemove}
+          disabled={removing}
+          className="px-3 py-1.5 text-sm border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+        >
+          {removing ? "Removing..." : "Remove sent entries from this device"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface ScanResult {
+  key: number;
+  message: string;
+  ok: boolean;
+}
+
+function ReceivePanel({ userId }: { userId: string }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // Raw code texts handled this session, so a code held in view is ingested once
+  const handledRef = useRef(new Set<string>());
+  const [scanning, setScanning] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [pasted, setPasted] = useState("");
+  const [results, setResults] = useState<ScanResult[]>([]);
+  const [supported, setSupported] = useState(true);
+  const resultKeyRef = useRef(0);
+
+  useEffect(() => {
+    setSupported(getBarcodeDetector() !== null);
+  }, []);
+
+  const addResult = (message: string, ok: boolean) => {
+    setResults((prev) => [{ key: resultKeyRef.current++, message, ok }, ...prev].slice(0, 20));
+  };
+
+  const ingest = async (text: string) => {
+    if (handledRef.current.has(text)) return;
+    handledRef.current.add(text);
+
+    const decoded = decodeTransferCode(text);
+    if (!decoded.success) {
+      // Kept as handled: a misread comes back as different text anyway
+      addResult(decoded.error, false);
+      return;
+    }
+
+    try {
+      const { added, duplicates } = await receiveTransferredEntries(userId, decoded.entries);
+      addResult(
+        added > 0
+          ? `Added ${added} ${added === 1 ? "entry" : "entries"}${duplicates > 0 ? ` (${duplicates} already received)` : ""}`
+          : `Already received (${duplicates} ${duplicates === 1 ? "entry" : "entries"})`,
+        true
+      );
+    } catch (err) {
+      handledRef.current.delete(text);
+      addResult(err instanceof Error ? err.message : "Could not save the entries", false);
+    }
+  };
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  };
+
+  const startCamera = async () => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+    setCameraError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" },
+        audio: false,
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+    } catch {
+      setCameraError("Could not open the camera. Allow camera access and try again.");
+    }
+  };
+
+  useEffect(() => {
+    if (!scanning) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+    const detector = new Detector({ formats: ["qr_code"] });
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= 2) {
+        try {
+          const codes = await detector.detect(video);
+          for (const code of codes) await ingest(code.rawValue);
+        } catch {
+          // A frame that fails to decode is normal; try the next one
+        }
+      }
+      if (!cancelled) timer = setTimeout(tick, SCAN_INTERVAL_MS);
+    };
+    tick();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scanning]);
+
+  useEffect(() => stopCamera, []);
+
+  const handlePaste = async () => {
+    const text = pasted;
+    setPasted("");
+    // A pasted code is always handled, even if seen before in this session
+    handledRef.current.delete(text);
+    await ingest(text);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Scanned entries join this device&apos;s outbox and sync when it is online. Scanning a code twice is
+        harmless. Entries recorded by other scouts are submitted on their behalf, which needs permission to
+        edit other scouts&apos; entries.
+      </p>
+
+      {supported ? (
+        <div>
+          <video
+            ref={videoRef}
+            playsInline
+            muted
+            className={`w-full max-w-sm rounded-lg bg-black ${scanning ? "" : "hidden"}`}
+          />
+          <button
+            onClick={scanning ? stopCamera : startCamera}
+            className="mt-3 px-4 py-2 bg-ftc-orange text-white rounded-lg font-medium hover:opacity-90"
+          >
+            {scanning ? "Stop camera" : "Scan with camera"}
+          </button>
+          {cameraError && <p className="mt-2 text-sm text-red-500 dark:text-red-400">{cameraError}</p>}
+        </div>
+      ) : (
+        <p className="text-sm text-yellow-700 dark:text-yellow-400">
+          This browser cannot scan QR codes. Scan with the phone&apos;s camera app, copy the text and paste it
+          below.
+        </p>
+      )}
+
+      <div>
+        <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Or paste a code</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="FTCM:..."
+            className="flex-1 px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+          />
+          <button
+            onClick={handlePaste}
+            disabled={!pasted}
+            className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {results.length > 0 && (
+        <ul className="space-y-1">
+          {results.map((result) => (
+            <li
+              key={result.key}
+              className={`text-sm ${result.ok ? "text-green-600 dark:text-green-400" : "text-red-500 dark:text-red-400"}`}
+            >
+              {result.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function TransferPage() {
+  const { data: session } = useSession();
+  const { operations, pendingCount } = useOutbox();
+  const [mode, setMode] = useState<"send" | "receive">("send");
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="mb-6">
+        <Link
+          href="/scout/outbox"
+          className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          &larr; Back to Outbox
+        </Link>
+        <h1 className="text-2xl font-bold mt-2">Transfer by QR</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Move queued scouting entries between devices without a connection. The scout shows codes; the
+          device that will sync them scans.
+        </p>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {(["send", "receive"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-4 py-2 text-sm rounded-lg font-medium ${
+              mode === m
+                ? "bg-ftc-orange text-white"
+                : "border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+          >
+            {m === "send" ? "Show codes" : `Scan codes${pendingCount > 0 ? ` (${pendingCount} queued)` : ""}`}
+          </button>
+        ))}
+      </div>
+
+      {mode === "send" ? (
+        <SendPanel operations={operations} />
+      ) : session?.user?.id ? (
+        <ReceivePanel userId={session.user.id} />
+      ) : null}
+    </div>
+  );
+}
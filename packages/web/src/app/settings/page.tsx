@@ -0,0 +1,282 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useEffect, useState } from "react";
+import { apiTokensApi, type ApiToken, type ApiTokenScope } from "@/lib/api";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api";
+
+const SCOPES: Array<{ value: ApiTokenScope; label: string; description: string }> = [
+  {
+    value: "read-analytics",
+    label: "Read analytics",
+    description: "Events, teams, rankings, OPR/EPA and predictions",
+  },
+  {
+    value: "read-scouting",
+    label: "Read scouting",
+    description: "Scouting entries and notes your teams can see, pick lists and assignments",
+  },
+  {
+    value: "write-scouting",
+    label: "Write scouting",
+    description: "Submit and edit scouting entries and notes as you",
+  },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+];
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "Never";
+}
+
+export default function SettingsPage() {
+  const { data: session } = useSession();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create form state
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read-analytics"]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    async function fetchTokens() {
+      if (!session?.user?.id) return;
+
+      try {
+        const result = await apiTokensApi.getTokens();
+        if (result.success && result.data) {
+          setTokens(result.data);
+        } else {
+          setError(result.error || "Failed to load API tokens");
+        }
+      } catch {
+        setError("Failed to load API tokens");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchTokens();
+  }, [session?.user?.id]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session?.user?.id || !name.trim() || scopes.length === 0) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const result = await apiTokensApi.createToken({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiresInDays ? parseInt(expiresInDays, 10) : null,
+      });
+      if (result.success && result.data) {
+        const { token, userId: _userId, ...created } = result.data;
+        setTokens((prev) => [created, ...prev]);
+        setNewToken(token);
+        setCopied(false);
+        setName("");
+      } else {
+        setError(result.error || "Failed to create API token");
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!session?.user?.id) return;
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop working.`)) return;
+
+    const result = await apiTokensApi.revokeToken(token.id);
+    if (result.success) {
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+    } else {
+      setError(result.error || "Failed to revoke API token");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    setCopied(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-ftc-orange border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">Manage personal API tokens</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mb-6">
+        <h2 className="text-lg font-semibold mb-1">API Tokens</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          Tokens let scripts and other tools call the{" "}
+          <a
+            href={`${API_URL}/openapi.json`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-ftc-orange hover:underline"
+          >
+            FTC Metrics API
+          </a>{" "}
+          as you. Send them as <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+
+        {newToken && (
+          <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+            <p className="text-sm font-medium text-green-700 dark:text-green-300 mb-2">
+              Copy your new token now. You won&apos;t be able to see it again.
+            </p>
+            <div className="flex gap-2">
+              <code className="flex-1 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg font-mono text-sm break-all">
+                {newToken}
+              </code>
+              <button
+                onClick={handleCopy}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg font-medium hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                {copied ? "Copied" : "Copy"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4 mb-8">
+          <div>
+            <label htmlFor="token-name" className="block text-sm font-medium mb-1">
+              Name
+            </label>
+            <input
+              id="token-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              placeholder="e.g. Strategy spreadsheet"
+              className="w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-ftc-orange"
+            />
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium mb-2">Scopes</legend>
+            <div className="space-y-2">
+              {SCOPES.map((scope) => (
+                <label key={scope.value} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope.value)}
+                    onChange={() => toggleScope(scope.value)}
+                    className="mt-1 accent-ftc-orange"
+                  />
+                  <span>
+                    <span className="text-sm font-medium">{scope.label}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {scope.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <label htmlFor="token-expiry" className="block text-sm font-medium mb-1">
+              Expires
+            </label>
+            <select
+              id="token-expiry"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              className="px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-ftc-orange"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            type="submit"
+            disabled={creating || !name.trim() || scopes.length === 0}
+            className="px-4 py-2 bg-ftc-orange text-white rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {creating ? "Creating..." : "Create Token"}
+          </button>
+        </form>
+
+        {tokens.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No API tokens yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-800 border-t border-gray-200 dark:border-gray-800">
+            {tokens.map((token) => {
+              const expired = token.expiresAt !== null && new Date(token.expiresAt) < new Date();
+              return (
+                <div key={token.id} className="flex items-center justify-between gap-4 py-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {token.name}
+                      {expired && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+                          Expired
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                      {token.prefix}...
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {token.scopes.join(", ")} · Expires {formatDate(token.expiresAt)} · Last
+                      used {token.lastUsedAt ? formatDate(token.lastUsedAt) : "never"}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(token)}
+                    className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
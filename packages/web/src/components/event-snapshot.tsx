@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useEventSnapshot } from "@/lib/event-snapshot";
+
+// Offline data older than this is flagged as likely out of date
+const STALE_AFTER_MS = 2 * 60 * 60_000;
+
+function formatAge(ms: number): string {
+  const diffMin = Math.floor((Date.now() - ms) / 60_000);
+  const diffHour = Math.floor(diffMin / 60);
+  const diffDay = Math.floor(diffHour / 24);
+
+  if (diffMin < 1) return "just now";
+  if (diffMin < 60) return `${diffMin} min ago`;
+  if (diffHour < 24) return `${diffHour}h ago`;
+  if (diffDay < 7) return `${diffDay}d ago`;
+  return new Date(ms).toLocaleDateString();
+}
+
+/**
+ * Banner shown when a page is rendering offline snapshot data instead of a
+ * live response. Pass the snapshotAt of the responses shown; renders nothing
+ * when all of them are live.
+ */
+export function OfflineSnapshotNotice({ snapshotAt }: { snapshotAt: Array<number | undefined> }) {
+  const times = snapshotAt.filter((t): t is number => t !== undefined);
+  if (times.length === 0) return null;
+
+  // The oldest piece on screen decides how stale the page is
+  const oldest = Math.min(...times);
+  const stale = Date.now() - oldest > STALE_AFTER_MS;
+
+  return (
+    <div
+      className={`mb-6 p-3 rounded-lg border text-sm ${
+        stale
+          ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300"
+          : "bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-700 dark:text-yellow-300"
+      }`}
+    >
+      Offline - showing event data saved {formatAge(oldest)}
+      {stale && ". It may be out of date; it will refresh when you reconnect."}
+    </div>
+  );
+}
+
+/**
+ * Download / refresh / remove control for an event's offline snapshot
+ */
+export function OfflineEventButton({ eventCode }: { eventCode: string }) {
+  const { data: session } = useSession();
+  const { snapshot, busy, error, download, refresh, remove } = useEventSnapshot(eventCode);
+  const [, setTick] = useState(0);
+
+  // Keep the "updated ... ago" label current
+  useEffect(() => {
+    const interval = setInterval(() => setTick((t) => t + 1), 60_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!session?.user?.id) return null;
+
+  if (!snapshot) {
+    return (
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => download()}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+        >
+          {busy ? "Downloading..." : "Download event for offline"}
+        </button>
+        {error && <span className="text-sm text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <span className="text-green-600 dark:text-green-400">
+        Saved for offline · updated {formatAge(snapshot.refreshedAt || snapshot.downloadedAt)}
+      </span>
+      <button
+        onClick={refresh}
+        disabled={busy}
+        className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+      >
+        {busy ? "Refreshing..." : "Refresh"}
+      </button>
+      <button
+        onClick={remove}
+        disabled={busy}
+        className="px-3 py-1.5 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+      >
+        Remove
+      </button>
+      {(error || snapshot.lastError) && (
+        <span className="text-yellow-600 dark:text-yellow-400">
+          Last refresh incomplete: {error || snapshot.lastError}
+        </span>
+      )}
+    </div>
+  );
+}
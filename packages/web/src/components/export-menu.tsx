@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { exportApi, teamsApi, type ExportDataset, type ExportFormat } from "@/lib/api";
+
+const DATASET_LABELS: Record<ExportDataset, string> = {
+  entries: "Scouting entries",
+  notes: "Notes",
+  "team-summaries": "Team summaries",
+  ratings: "EPA & OPR",
+  picklists: "Pick lists",
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+  ndjson: "JSON",
+};
+
+/**
+ * Download menu for team data exports. Exports are read as a team, so
+ * without a teamId the first of the user's teams that may export is used;
+ * renders nothing when there is none.
+ */
+export function ExportMenu({
+  teamId,
+  eventCode,
+  datasets,
+  workbook = false,
+}: {
+  teamId?: string;
+  eventCode?: string;
+  datasets: ExportDataset[];
+  // Offer every dataset in one multi-sheet workbook
+  workbook?: boolean;
+}) {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const [exportTeamId, setExportTeamId] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    teamsApi
+      .getMyTeams()
+      .then((result) => {
+        if (cancelled || !result.success || !result.data) return;
+        const team = result.data.find(
+          (m) => (!teamId || m.teamId === teamId) && m.capabilities.includes("export")
+        );
+        setExportTeamId(team?.teamId ?? null);
+      })
+      .catch(() => {
+        // Offline; exports need the server anyway
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, teamId]);
+
+  if (!userId || !exportTeamId) return null;
+
+  const handleExport = async (dataset: ExportDataset | undefined, format: ExportFormat) => {
+    const key = `${dataset ?? "workbook"}:${format}`;
+    setBusy(key);
+    setError(null);
+    try {
+      const result = await exportApi.download(exportTeamId, { dataset, format, eventCode });
+      if (!result.success) setError(result.error || "Export failed");
+    } catch {
+      setError("Export failed. Check your connection.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <details className="relative">
+      <summary className="list-none cursor-pointer px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+        {busy ? "Exporting..." : "Export"}
+      </summary>
+      <div className="absolute right-0 z-20 mt-2 w-72 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3 space-y-2 text-sm">
+        {workbook && (
+          <button
+            onClick={() => handleExport(undefined, "xlsx")}
+            disabled={busy !== null}
+            className="w-full text-left px-2 py-1.5 rounded font-medium hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            Everything (Excel workbook)
+          </button>
+        )}
+        {datasets.map((dataset) => (
+          <div key={dataset} className="flex items-center justify-between gap-2 px-2">
+            <span className="text-gray-700 dark:text-gray-300">{DATASET_LABELS[dataset]}</span>
+            <div className="flex gap-1">
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(dataset, format)}
+                  disabled={busy !== null}
+                  className="px-2 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        {error && <p className="px-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -92,6 +92,13 @@ export function Header() {
                     >
                       My Teams
                     </Link>
+                    <Link
+                      href="/settings"
+                      className="block px-4 py-2 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800"
+                      onClick={() => setMenuOpen(false)}
+                    >
+                      Settings
+                    </Link>
                     <button
                       onClick={() => signOut({ callbackUrl: "/" })}
                       className="w-full text-left px-4 py-2 text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-800"
@@ -0,0 +1,335 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { importApi, type ImportBatch, type ImportKind, type ImportPreview } from "@/lib/api";
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  entries: "Match scouting entries",
+  notes: "Scouting notes",
+};
+
+// Preview rows shown before "Show all"
+const PREVIEW_ROWS = 50;
+
+/**
+ * CSV import for a team: pick a file, check the column mapping against a
+ * dry-run preview with per-row errors, then commit. Past imports are listed
+ * with a rollback button.
+ */
+export function ImportSection({ teamId }: { teamId: string }) {
+  const [kind, setKind] = useState<ImportKind>("entries");
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [eventCode, setEventCode] = useState("");
+  const [mapping, setMapping] = useState<Record<string, string> | undefined>();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  // The mapping changed since the preview was built
+  const [stale, setStale] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [history, setHistory] = useState<ImportBatch[]>([]);
+
+  const loadHistory = async () => {
+    const result = await importApi.getHistory(teamId);
+    if (result.success && result.data) setHistory(result.data);
+  };
+
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teamId]);
+
+  const reset = () => {
+    setMapping(undefined);
+    setPreview(null);
+    setShowAll(false);
+    setError(null);
+  };
+
+  const request = () => ({
+    kind,
+    csv,
+    mapping,
+    defaults: eventCode ? { eventCode } : undefined,
+    fileName: fileName || undefined,
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    setMessage(null);
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await importApi.preview(teamId, request());
+      if (result.success && result.data) {
+        setPreview(result.data);
+        setMapping(result.data.mapping);
+        setStale(false);
+      } else {
+        setError(result.error || "Failed to read the CSV");
+      }
+    } catch {
+      setError("Failed to read the CSV. Check your connection.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await importApi.commit(teamId, { ...request(), skipInvalid });
+      if (result.success && result.data) {
+        const { imported, skipped, newTeamNumbers } = result.data;
+        setMessage(
+          `Imported ${imported} rows` +
+            (skipped > 0 ? `, skipped ${skipped}` : "") +
+            (newTeamNumbers.length > 0 ? `; added teams ${newTeamNumbers.join(", ")}` : "")
+        );
+        setCsv("");
+        setFileName("");
+        reset();
+        loadHistory();
+      } else {
+        setError(result.error || "Import failed");
+      }
+    } catch {
+      setError("Import failed. Check your connection.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (!confirm(`Delete all ${batch.rowCount} rows from this import? Edits made to them since are lost too.`)) {
+      return;
+    }
+    const result = await importApi.rollback(teamId, batch.id);
+    if (result.success && result.data) {
+      setMessage(`Rolled back: removed ${result.data.entriesDeleted + result.data.notesDeleted} rows`);
+      loadHistory();
+    } else {
+      setError(result.error || "Rollback failed");
+    }
+  };
+
+  const updateMapping = (fieldKey: string, header: string) => {
+    const next = { ...(mapping ?? {}) };
+    if (header) next[fieldKey] = header;
+    else delete next[fieldKey];
+    setMapping(next);
+    setStale(true);
+  };
+
+  const mappedFields = preview?.fields.filter((f) => mapping?.[f.key]) ?? [];
+  const shownRows = preview ? (showAll ? preview.rows : preview.rows.slice(0, PREVIEW_ROWS)) : [];
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+      <h2 className="font-semibold text-lg mb-1">Import Data</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Upload a CSV, check how its columns map and which rows fail, then import. Unknown team numbers get
+        placeholder teams.
+      </p>
+
+      <div className="flex flex-wrap gap-3 items-end mb-4">
+        <label className="text-sm">
+          <span className="block text-gray-600 dark:text-gray-400 mb-1">Data</span>
+          <select
+            value={kind}
+            onChange={(e) => {
+              setKind(e.target.value as ImportKind);
+              reset();
+            }}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+          >
+            {(Object.keys(KIND_LABELS) as ImportKind[]).map((k) => (
+              <option key={k} value={k}>
+                {KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-600 dark:text-gray-400 mb-1">CSV file</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="text-sm"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-600 dark:text-gray-400 mb-1">Default event code</span>
+          <input
+            type="text"
+            value={eventCode}
+            onChange={(e) => {
+              setEventCode(e.target.value.toUpperCase());
+              if (preview) setStale(true);
+            }}
+            placeholder="e.g. USTXCMP"
+            className="w-36 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+          />
+        </label>
+        <button
+          onClick={handlePreview}
+          disabled={!csv || busy}
+          className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+        >
+          {preview ? "Re-check" : "Preview"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500 dark:text-red-400 mb-3">{error}</p>}
+      {message && <p className="text-sm text-green-600 dark:text-green-400 mb-3">{message}</p>}
+
+      {preview && (
+        <>
+          <h3 className="font-medium text-sm mb-2">Column mapping</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mb-4">
+            {preview.fields.map((field) => (
+              <label key={field.key} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {field.label}
+                  {field.required && <span className="text-red-500"> *</span>}
+                </span>
+                <select
+                  value={mapping?.[field.key] ?? ""}
+                  onChange={(e) => updateMapping(field.key, e.target.value)}
+                  className="w-40 px-2 py-1 text-xs border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800"
+                >
+                  <option value="">Not imported</option>
+                  {preview.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-sm mb-2">
+            <span className="text-green-600 dark:text-green-400">{preview.validCount} valid</span>
+            {preview.invalidCount > 0 && (
+              <span className="text-red-500 dark:text-red-400">, {preview.invalidCount} with errors</span>
+            )}
+            {preview.conflictCount > 0 && (
+              <span className="text-red-500 dark:text-red-400">
+                {" "}
+                ({preview.conflictCount} already imported or repeated in the file)
+              </span>
+            )}
+            {preview.newTeamNumbers.length > 0 && (
+              <span className="text-gray-500 dark:text-gray-400">
+                {" "}
+                &middot; new teams: {preview.newTeamNumbers.join(", ")}
+              </span>
+            )}
+          </p>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-800 rounded-lg mb-3">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-2 py-1.5 text-left">Row</th>
+                  {mappedFields.map((field) => (
+                    <th key={field.key} className="px-2 py-1.5 text-left whitespace-nowrap">
+                      {field.label}
+                    </th>
+                  ))}
+                  <th className="px-2 py-1.5 text-left">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownRows.map((row) => (
+                  <tr
+                    key={row.row}
+                    className={`border-t border-gray-100 dark:border-gray-800 ${
+                      row.valid ? "" : "bg-red-50 dark:bg-red-900/20"
+                    }`}
+                  >
+                    <td className="px-2 py-1 text-gray-500">{row.row}</td>
+                    {mappedFields.map((field) => (
+                      <td key={field.key} className="px-2 py-1 whitespace-nowrap">
+                        {row.data[field.key] === undefined ? "" : String(row.data[field.key])}
+                      </td>
+                    ))}
+                    <td className="px-2 py-1 text-red-600 dark:text-red-400">
+                      {row.errors.map((e) => `${e.field}: ${e.message}`).join("; ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {!showAll && preview.rows.length > PREVIEW_ROWS && (
+            <button onClick={() => setShowAll(true)} className="mb-3 text-sm text-ftc-orange hover:underline">
+              Show all {preview.rows.length} rows
+            </button>
+          )}
+
+          <div className="flex items-center gap-4">
+            {preview.invalidCount > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={skipInvalid} onChange={(e) => setSkipInvalid(e.target.checked)} />
+                Skip rows with errors
+              </label>
+            )}
+            <button
+              onClick={handleCommit}
+              disabled={busy || stale || preview.validCount === 0 || (preview.invalidCount > 0 && !skipInvalid)}
+              className="px-4 py-2 text-sm bg-ftc-orange text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+            >
+              {busy ? "Importing..." : `Import ${preview.validCount} rows`}
+            </button>
+            {stale && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">Re-check after changing the mapping</span>
+            )}
+          </div>
+        </>
+      )}
+
+      {history.length > 0 && (
+        <>
+          <h3 className="font-medium text-sm mt-6 mb-2">Past imports</h3>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {history.map((batch) => (
+              <li key={batch.id} className="py-2 text-sm flex justify-between items-center gap-4">
+                <div className="min-w-0">
+                  <span className="font-medium">{batch.fileName || KIND_LABELS[batch.kind]}</span>{" "}
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {batch.rowCount} {batch.kind} by {batch.creator?.name ?? "Unknown user"},{" "}
+                    {new Date(batch.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {batch.rolledBackAt ? (
+                  <span className="text-xs text-gray-400 dark:text-gray-500 whitespace-nowrap">Rolled back</span>
+                ) : (
+                  <button
+                    onClick={() => handleRollback(batch)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:underline whitespace-nowrap"
+                  >
+                    Roll back
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 "use client";
 
+import { useEffect } from "react";
 import { SessionProvider } from "next-auth/react";
 import type { Session } from "next-auth";
+import { startOutboxSync } from "@/lib/offline-queue";
+import { startSnapshotRefresh } from "@/lib/event-snapshot";
 
 export function Providers({
   children,
@@ -10,5 +13,10 @@ export function Providers({
   children: React.ReactNode;
   session?: Session | null;
 }) {
+  // Drain queued offline changes from whichever page is open
+  useEffect(() => startOutboxSync(), []);
+  // Keep events downloaded for offline use up to date while online
+  useEffect(() => startSnapshotRefresh(), []);
+
   return <SessionProvider session={session ?? undefined}>{children}</SessionProvider>;
 }
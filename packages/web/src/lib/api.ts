@@ -2,6 +2,15 @@
  * API client for FTC Metrics backend
  */
 
+import type {
+  CapabilityInfo,
+  ConfigurableRole,
+  MemberRole,
+  PermissionOverrides,
+  TeamCapability,
+} from "@ftcmetrics/shared";
+import { readSnapshot } from "./event-snapshot";
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api";
 console.log("[API] API_URL configured as:", API_URL);
 
@@ -9,6 +18,9 @@ interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  // Set when the server was unreachable and the data came from an offline
+  // event snapshot: when that data was fetched (ms since epoch)
+  snapshotAt?: number;
 }
 
 async function fetchApi<T>(
@@ -37,6 +49,19 @@ async function fetchApi<T>(
     const data = await response.json();
     return data;
   } catch (error) {
+    // Reads fall back to a downloaded event snapshot when the network is down
+    if (!options.method || options.method === "GET") {
+      const snapshot = await readSnapshot(endpoint);
+      if (snapshot) {
+        console.log("[API] Serving from offline snapshot:", endpoint);
+        return {
+          success: true,
+          data: snapshot.data as T,
+          snapshotAt: snapshot.fetchedAt,
+          ...(snapshot.total !== undefined && { total: snapshot.total }),
+        };
+      }
+    }
     console.error("[API] Error fetching:", url, error);
     throw error;
   }
@@ -44,34 +69,32 @@ async function fetchApi<T>(
 
 // Team Management API
 export const teamsApi = {
-  getMyTeams: async (userId: string) => {
+  getMyTeams: async () => {
     return fetchApi<Array<{
       teamId: string;
       role: string;
+      capabilities: TeamCapability[];
       team: {
         id: string;
         teamNumber: number;
         name: string;
         sharingLevel: string;
       };
-    }>>(`/user-teams`, {
-      headers: { "X-User-Id": userId },
-    });
+    }>>(`/user-teams`);
   },
 
-  createTeam: async (userId: string, data: { teamNumber: number; name?: string }) => {
+  createTeam: async (data: { teamNumber: number; name?: string }) => {
     return fetchApi<{
       id: string;
       teamNumber: number;
       name: string;
     }>("/user-teams", {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
-  getTeam: async (userId: string, teamId: string) => {
+  getTeam: async (teamId: string) => {
     return fetchApi<{
       id: string;
       teamNumber: number;
@@ -86,6 +109,7 @@ export const teamsApi = {
         id: string;
         userId: string;
         role: string;
+        scoutWeight: number;
         user: {
           id: string;
           name: string;
@@ -111,13 +135,12 @@ export const teamsApi = {
         fileSize: number | null;
         mimeType: string | null;
       }>;
-    }>(`/user-teams/${teamId}`, {
-      headers: { "X-User-Id": userId },
-    });
+      // What the current user's role may do on this team
+      capabilities: TeamCapability[];
+    }>(`/user-teams/${teamId}`);
   },
 
   updateTeam: async (
-    userId: string,
     teamId: string,
     data: {
       name?: string;
@@ -131,13 +154,11 @@ export const teamsApi = {
   ) => {
     return fetchApi(`/user-teams/${teamId}`, {
       method: "PATCH",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
   createInvite: async (
-    userId: string,
     teamId: string,
     data: { maxUses?: number; expiresInDays?: number; role?: string }
   ) => {
@@ -147,51 +168,44 @@ export const teamsApi = {
       expiresAt: string | null;
     }>(`/user-teams/${teamId}/invites`, {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
-  joinTeam: async (userId: string, code: string) => {
+  joinTeam: async (code: string) => {
     return fetchApi<{
       teamId: string;
       role: string;
     }>("/user-teams/join", {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify({ code }),
     });
   },
 
   updateMember: async (
-    userId: string,
     teamId: string,
     memberId: string,
-    data: { role: string }
+    data: { role?: string; scoutWeight?: number }
   ) => {
     return fetchApi(`/user-teams/${teamId}/members/${memberId}`, {
       method: "PATCH",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
-  removeMember: async (userId: string, teamId: string, memberId: string) => {
+  removeMember: async (teamId: string, memberId: string) => {
     return fetchApi(`/user-teams/${teamId}/members/${memberId}`, {
       method: "DELETE",
-      headers: { "X-User-Id": userId },
     });
   },
 
-  leaveTeam: async (userId: string, teamId: string) => {
+  leaveTeam: async (teamId: string) => {
     return fetchApi(`/user-teams/${teamId}/leave`, {
       method: "POST",
-      headers: { "X-User-Id": userId },
     });
   },
 
   addMedia: async (
-    userId: string,
     teamId: string,
     data: { type: "CAD" | "VIDEO" | "PHOTO"; title: string; url: string; description?: string }
   ) => {
@@ -207,13 +221,11 @@ export const teamsApi = {
       mimeType: string | null;
     }>(`/user-teams/${teamId}/media`, {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
   uploadMedia: async (
-    userId: string,
     teamId: string,
     data: { type: "PHOTO" | "VIDEO"; title: string; description?: string; file: File }
   ) => {
@@ -226,7 +238,6 @@ export const teamsApi = {
     const url = `${API_URL}/user-teams/${teamId}/media`;
     const response = await fetch(url, {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: formData,
       credentials: "include",
     });
@@ -244,58 +255,106 @@ export const teamsApi = {
   },
 
   updateMedia: async (
-    userId: string,
     teamId: string,
     mediaId: string,
     data: { title?: string; url?: string; description?: string; sortOrder?: number }
   ) => {
     return fetchApi(`/user-teams/${teamId}/media/${mediaId}`, {
       method: "PATCH",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
-  removeMedia: async (userId: string, teamId: string, mediaId: string) => {
+  removeMedia: async (teamId: string, mediaId: string) => {
     return fetchApi(`/user-teams/${teamId}/media/${mediaId}`, {
       method: "DELETE",
-      headers: { "X-User-Id": userId },
     });
   },
+
+  getPermissions: async (teamId: string) => {
+    return fetchApi<TeamPermissions>(`/user-teams/${teamId}/permissions`);
+  },
+
+  // Replaces all of the team's overrides (MENTOR only)
+  updatePermissions: async (teamId: string, overrides: PermissionOverrides) => {
+    return fetchApi<TeamPermissions>(`/user-teams/${teamId}/permissions`, {
+      method: "PUT",
+      body: JSON.stringify({ overrides }),
+    });
+  },
+
+  // Team audit log, newest first (MENTOR/LEADER only)
+  getAuditLog: async (
+    teamId: string,
+    filters: {
+      action?: string[];
+      targetType?: string;
+      actorId?: string;
+      since?: string;
+      until?: string;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ) => {
+    const params = new URLSearchParams();
+    if (filters.action?.length) params.set("action", filters.action.join(","));
+    if (filters.targetType) params.set("targetType", filters.targetType);
+    if (filters.actorId) params.set("actorId", filters.actorId);
+    if (filters.since) params.set("since", filters.since);
+    if (filters.until) params.set("until", filters.until);
+    if (filters.limit) params.set("limit", String(filters.limit));
+    if (filters.offset) params.set("offset", String(filters.offset));
+    const query = params.toString();
+    return fetchApi<AuditLogEntry[]>(
+      `/user-teams/${teamId}/audit${query ? `?${query}` : ""}`
+    ) as Promise<ApiResponse<AuditLogEntry[]> & { total?: number }>;
+  },
 };
 
+export interface AuditLogEntry {
+  id: string;
+  teamId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  revertOfId: string | null;
+  createdAt: string;
+  actor: { id: string; name: string | null; image: string | null } | null;
+}
+
+export interface TeamPermissions {
+  roles: MemberRole[];
+  configurableRoles: ConfigurableRole[];
+  capabilities: Array<CapabilityInfo & { key: TeamCapability }>;
+  defaults: Record<MemberRole, TeamCapability[]>;
+  overrides: PermissionOverrides;
+  effective: Record<MemberRole, TeamCapability[]>;
+}
+
 // Scouting API
 export const scoutingApi = {
   submitEntry: async (
-    userId: string,
     data: {
       scoutingTeamId: string;
       scoutedTeamNumber: number;
       eventCode: string;
       matchNumber: number;
       alliance: "RED" | "BLUE";
-      autoLeave?: boolean;
-      autoClassifiedCount?: number;
-      autoOverflowCount?: number;
-      autoPatternCount?: number;
-      teleopClassifiedCount?: number;
-      teleopOverflowCount?: number;
-      teleopDepotCount?: number;
-      teleopPatternCount?: number;
-      teleopMotifCount?: number;
-      endgameBaseStatus?: "NONE" | "PARTIAL" | "FULL";
+      season?: number;
       allianceNotes?: string;
+      // Scoring element values keyed by the season's game definition
+      [elementKey: string]: string | number | boolean | undefined;
     }
   ) => {
     return fetchApi("/scouting/entries", {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
   getEntries: async (
-    userId: string,
     filters?: { eventCode?: string; teamNumber?: number; scoutingTeamId?: string }
   ) => {
     const PAGE_SIZE = 10;
@@ -308,49 +367,52 @@ export const scoutingApi = {
     const allEntries: unknown[] = [];
     let offset = 0;
     let total = 0;
+    let snapshotAt: number | undefined;
 
     do {
       const params = new URLSearchParams(baseParams);
       params.set("offset", String(offset));
       // API returns { success, data: [...], total }
-      const result = await fetchApi<unknown[]>(`/scouting/entries?${params.toString()}`, {
-        headers: { "X-User-Id": userId },
-      }) as ApiResponse<unknown[]> & { total?: number };
+      const result = await fetchApi<unknown[]>(`/scouting/entries?${params.toString()}`) as ApiResponse<unknown[]> & { total?: number };
       if (!result.success || !result.data) break;
       allEntries.push(...result.data);
       total = result.total || 0;
+      snapshotAt = result.snapshotAt;
       offset += PAGE_SIZE;
     } while (offset < total);
 
-    return { success: true, data: allEntries };
+    return { success: true, data: allEntries, snapshotAt };
   },
 
   updateEntry: async (
-    userId: string,
     entryId: string,
-    data: Partial<{
-      matchNumber: number;
-      alliance: "RED" | "BLUE";
-      autoLeave: boolean;
-      autoClassifiedCount: number;
-      autoOverflowCount: number;
-      autoPatternCount: number;
-      teleopClassifiedCount: number;
-      teleopOverflowCount: number;
-      teleopDepotCount: number;
-      teleopPatternCount: number;
-      teleopMotifCount: number;
-      endgameBaseStatus: "NONE" | "PARTIAL" | "FULL";
-      allianceNotes: string;
-    }>
+    data: {
+      matchNumber?: number;
+      alliance?: "RED" | "BLUE";
+      allianceNotes?: string;
+      // Scoring element values keyed by the entry's game definition
+      [elementKey: string]: string | number | boolean | undefined;
+    }
   ) => {
     return fetchApi(`/scouting/entries/${entryId}`, {
       method: "PATCH",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
+  // Audit rows for an entry, newest first
+  getEntryHistory: async (entryId: string) => {
+    return fetchApi<AuditLogEntry[]>(`/scouting/entries/${entryId}/history`);
+  },
+
+  // Undo one recorded edit; later changes to other fields are kept
+  revertEntry: async (entryId: string, auditId: string) => {
+    return fetchApi(`/scouting/entries/${entryId}/revert`, {
+      method: "POST",
+      body: JSON.stringify({ auditId }),
+    });
+  },
+
   getTeamSummary: async (teamNumber: number, eventCode?: string) => {
     const params = eventCode ? `?eventCode=${eventCode}` : "";
     return fetchApi<{
@@ -367,12 +429,16 @@ export const scoutingApi = {
         teleopClassified: number;
         teleopOverflow: number;
         teleopDepot: number;
+        // Per-element averages derived from the game definition
+        [elementKey: string]: number;
       } | null;
+      // Raw entries behind matchCount reconciled robot-matches
+      entryCount?: number;
+      conflictCount?: number;
     }>(`/scouting/team-summary/${teamNumber}${params}`);
   },
 
   submitNote: async (
-    userId: string,
     data: {
       notingTeamId: string;
       aboutTeamNumber: number;
@@ -387,12 +453,11 @@ export const scoutingApi = {
   ) => {
     return fetchApi("/scouting/notes", {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 
-  getNotes: async (userId: string, filters?: {
+  getNotes: async (filters?: {
     aboutTeamNumber?: number;
     eventCode?: string;
     notingTeamId?: string;
@@ -408,42 +473,38 @@ export const scoutingApi = {
     const allNotes: unknown[] = [];
     let offset = 0;
     let total = 0;
+    let snapshotAt: number | undefined;
 
     do {
       const params = new URLSearchParams(baseParams);
       params.set("offset", String(offset));
-      const result = await fetchApi<unknown[]>(`/scouting/notes?${params.toString()}`, {
-        headers: { "X-User-Id": userId },
-      }) as ApiResponse<unknown[]> & { total?: number };
+      const result = await fetchApi<unknown[]>(`/scouting/notes?${params.toString()}`) as ApiResponse<unknown[]> & { total?: number };
       if (!result.success || !result.data) break;
       allNotes.push(...result.data);
       total = result.total || 0;
+      snapshotAt = result.snapshotAt;
       offset += PAGE_SIZE;
     } while (offset < total);
 
-    return { success: true, data: allNotes };
+    return { success: true, data: allNotes, snapshotAt };
   },
 
-  getTeamStats: async (userId: string, teamId: string) => {
+  getTeamStats: async (teamId: string) => {
     return fetchApi<{
       matchesScouted: number;
       eventsCount: number;
       teamsScoutedCount: number;
       notesCount: number;
-    }>(`/scouting/team-stats/${teamId}`, {
-      headers: { "X-User-Id": userId },
-    });
+    }>(`/scouting/team-stats/${teamId}`);
   },
 
-  deductPartner: async (userId: string, entryId: string) => {
+  deductPartner: async (entryId: string) => {
     return fetchApi(`/scouting/entries/${entryId}/deduct-partner`, {
       method: "POST",
-      headers: { "X-User-Id": userId },
     });
   },
 
   retryDeductions: async (
-    userId: string,
     data: { eventCode: string; scoutingTeamId: string }
   ) => {
     return fetchApi<{
@@ -453,12 +514,467 @@ export const scoutingApi = {
       total: number;
     }>("/scouting/retry-deductions", {
       method: "POST",
-      headers: { "X-User-Id": userId },
       body: JSON.stringify(data),
     });
   },
 };
 
+// Alliance Selection Pick Lists API
+export interface PickListEntry {
+  id: string;
+  teamNumber: number;
+  tier: number;
+  rank: number;
+  doNotPick: boolean;
+  picked: boolean;
+  comment: string | null;
+  seedScore: number | null;
+  stats: {
+    epa: number | null;
+    opr: number | null;
+    scoutedAverage: number | null;
+    scoutedMatches: number;
+    noteRating: number | null;
+  } | null;
+}
+
+export interface PickList {
+  id: string;
+  teamId: string;
+  eventCode: string;
+  name: string;
+  tiers: string[];
+  updatedAt: string;
+  entries: PickListEntry[];
+}
+
+export type PickListEntryUpdate = Partial<
+  Pick<PickListEntry, "tier" | "rank" | "doNotPick" | "picked" | "comment">
+>;
+
+export const pickListsApi = {
+  getPickLists: async (teamId: string, eventCode?: string) => {
+    const params = eventCode ? `?eventCode=${encodeURIComponent(eventCode)}` : "";
+    return fetchApi<Array<Omit<PickList, "entries"> & { entryCount: number }>>(
+      `/user-teams/${teamId}/picklists${params}`
+    );
+  },
+
+  getPickList: async (teamId: string, pickListId: string) => {
+    return fetchApi<PickList>(`/user-teams/${teamId}/picklists/${pickListId}`);
+  },
+
+  createPickList: async (
+    teamId: string,
+    data: { eventCode: string; name?: string; tiers?: string[]; seed?: boolean }
+  ) => {
+    return fetchApi<PickList>(`/user-teams/${teamId}/picklists`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  },
+
+  updatePickList: async (
+    teamId: string,
+    pickListId: string,
+    data: {
+      name?: string;
+      tiers?: string[];
+      entries?: Array<PickListEntryUpdate & { teamNumber: number }>;
+    }
+  ) => {
+    return fetchApi<PickList>(`/user-teams/${teamId}/picklists/${pickListId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    });
+  },
+
+  updateEntry: async (
+    teamId: string,
+    pickListId: string,
+    teamNumber: number,
+    data: PickListEntryUpdate
+  ) => {
+    return fetchApi<PickListEntry>(
+      `/user-teams/${teamId}/picklists/${pickListId}/entries/${teamNumber}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      }
+    );
+  },
+
+  refreshPickList: async (teamId: string, pickListId: string) => {
+    return fetchApi<PickList>(`/user-teams/${teamId}/picklists/${pickListId}/refresh`, {
+      method: "POST",
+    });
+  },
+
+  deletePickList: async (teamId: string, pickListId: string) => {
+    return fetchApi(`/user-teams/${teamId}/picklists/${pickListId}`, {
+      method: "DELETE",
+    });
+  },
+};
+
+// Scouting Assignments API
+export interface ScouterSummary {
+  id: string;
+  name: string | null;
+  image: string | null;
+}
+
+export interface ScoutingAssignment {
+  id: string;
+  matchNumber: number;
+  station: string;
+  teamNumber: number;
+  scouterId: string;
+  scouter?: ScouterSummary;
+}
+
+export interface ScoutingRotation {
+  id: string;
+  teamId: string;
+  eventCode: string;
+  shiftLength: number;
+  breakLength: number;
+  updatedAt: string;
+  assignments: ScoutingAssignment[];
+}
+
+export type CoverageStatus = "own-team" | "scouted" | "missed" | "assigned" | "unassigned";
+
+export interface AssignmentCoverage {
+  eventCode: string;
+  hasRotation: boolean;
+  summary: { total: number; scouted: number; missed: number; assigned: number; unassigned: number };
+  scouts: Array<{ scouter: ScouterSummary; assigned: number; completed: number }>;
+  robotMatches: Array<{
+    matchNumber: number;
+    station: string;
+    teamNumber: number;
+    played: boolean;
+    status: CoverageStatus;
+    scouter: ScouterSummary | null;
+  }>;
+}
+
+export const assignmentsApi = {
+  getRotation: async (teamId: string, eventCode: string) => {
+    return fetchApi<ScoutingRotation | null>(
+      `/user-teams/${teamId}/assignments?eventCode=${encodeURIComponent(eventCode)}`
+    );
+  },
+
+  generateRotation: async (
+    teamId: string,
+    data: { eventCode: string; scouterIds?: string[]; shiftLength?: number; breakLength?: number }
+  ) => {
+    return fetchApi<
+      ScoutingRotation & { unassigned: Array<{ matchNumber: number; station: string; teamNumber: number }> }
+    >(`/user-teams/${teamId}/assignments`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  },
+
+  getMyAssignments: async (teamId: string, eventCode: string) => {
+    return fetchApi<{
+      assignments: Array<ScoutingAssignment & { completed: boolean }>;
+      next: (ScoutingAssignment & { completed: boolean }) | null;
+    }>(`/user-teams/${teamId}/assignments/me?eventCode=${encodeURIComponent(eventCode)}`);
+  },
+
+  getCoverage: async (teamId: string, eventCode: string) => {
+    return fetchApi<AssignmentCoverage>(
+      `/user-teams/${teamId}/assignments/coverage?eventCode=${encodeURIComponent(eventCode)}`
+    );
+  },
+
+  reassign: async (teamId: string, assignmentId: string, scouterId: string) => {
+    return fetchApi<ScoutingAssignment>(`/user-teams/${teamId}/assignments/${assignmentId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ scouterId }),
+    });
+  },
+};
+
+// Multi-scout Consensus API
+export interface ConsensusConflict {
+  field: string;
+  values: Array<{ entryId: string; scouterId: string | null; value: number | boolean | string }>;
+}
+
+export interface ConsensusGroup {
+  key: string;
+  eventCode: string;
+  matchNumber: number;
+  teamNumber: number;
+  alliance: string;
+  season: number;
+  values: Record<string, number | boolean | string>;
+  autoScore: number;
+  teleopScore: number;
+  endgameScore: number;
+  totalScore: number;
+  method: "consensus" | "picked" | "merged";
+  resolutionId: string | null;
+  conflicts: ConsensusConflict[];
+  entries: Array<{
+    id: string;
+    scouterId: string | null;
+    scouter: ScouterSummary | null;
+    scoringData: Record<string, number | boolean | string> | null;
+    autoScore: number;
+    teleopScore: number;
+    endgameScore: number;
+    totalScore: number;
+    createdAt: string;
+    [field: string]: unknown;
+  }>;
+}
+
+export const consensusApi = {
+  getConsensus: async (
+    teamId: string,
+    eventCode: string,
+    options?: { threshold?: number; conflictsOnly?: boolean }
+  ) => {
+    const params = new URLSearchParams({ eventCode });
+    if (options?.threshold !== undefined) params.set("threshold", String(options.threshold));
+    if (options?.conflictsOnly) params.set("conflictsOnly", "true");
+    return fetchApi<{ eventCode: string; threshold: number; groups: ConsensusGroup[]; unresolved: number }>(
+      `/user-teams/${teamId}/consensus?${params.toString()}`
+    );
+  },
+
+  resolve: async (
+    teamId: string,
+    data: {
+      eventCode: string;
+      matchNumber: number;
+      teamNumber: number;
+      canonicalEntryId?: string;
+      values?: Record<string, number | boolean | string>;
+    }
+  ) => {
+    return fetchApi(`/user-teams/${teamId}/consensus/resolution`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteResolution: async (teamId: string, resolutionId: string) => {
+    return fetchApi(`/user-teams/${teamId}/consensus/resolutions/${resolutionId}`, {
+      method: "DELETE",
+    });
+  },
+};
+
+// Scout Accuracy API
+export interface ScoutPhaseError {
+  auto: number;
+  teleop: number;
+  endgame: number;
+  total: number;
+}
+
+export interface ScoutAccuracy {
+  scouterId: string;
+  scouter: { id: string; name: string | null; image: string | null } | null;
+  matches: number;
+  meanAbsoluteError: ScoutPhaseError;
+  bias: number;
+  history: Array<{
+    entryId: string;
+    eventCode: string;
+    matchNumber: number;
+    alliance: string;
+    teamNumber: number;
+    partnerTeamNumber: number;
+    scoutedAt: string;
+    error: ScoutPhaseError;
+  }>;
+  needsRetraining: boolean;
+  suggestedWeight: number;
+}
+
+export const accuracyApi = {
+  getAccuracy: async (teamId: string, eventCode?: string) => {
+    const params = eventCode ? `?eventCode=${encodeURIComponent(eventCode)}` : "";
+    return fetchApi<{
+      eventCodes: string[];
+      teamMedianError: number | null;
+      matchesCompared: number;
+      minMatches: number;
+      scouts: ScoutAccuracy[];
+    }>(`/user-teams/${teamId}/accuracy${params}`);
+  },
+
+  applyWeights: async (teamId: string, eventCode?: string) => {
+    return fetchApi<Array<{ userId: string; scoutWeight: number }>>(
+      `/user-teams/${teamId}/accuracy/apply-weights`,
+      {
+        method: "POST",
+        body: JSON.stringify(eventCode ? { eventCode } : {}),
+      }
+    );
+  },
+};
+
+// Bulk Data Export API
+export type ExportDataset = "entries" | "notes" | "team-summaries" | "ratings" | "picklists";
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+
+export const exportApi = {
+  /**
+   * Download an export file through the browser. Without a dataset the
+   * server returns one XLSX workbook with every dataset the user may view.
+   */
+  download: async (
+    teamId: string,
+    options: { dataset?: ExportDataset; format?: ExportFormat; eventCode?: string } = {}
+  ): Promise<ApiResponse<null>> => {
+    const format = options.dataset ? options.format ?? "csv" : "xlsx";
+    const params = new URLSearchParams({ format });
+    if (options.eventCode) params.set("eventCode", options.eventCode);
+    const path = options.dataset ? `/${options.dataset}` : "";
+
+    const response = await fetch(`${API_URL}/user-teams/${teamId}/export${path}?${params.toString()}`, {
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as ApiResponse<null> | null;
+      return { success: false, error: body?.error || "Export failed" };
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = ["ftcmetrics", options.dataset ?? "export", options.eventCode].filter(Boolean).join("-") + `.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    return { success: true };
+  },
+};
+
+// Data Import API
+export type ImportKind = "entries" | "notes";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: "number" | "text" | "boolean" | "state" | "alliance";
+  required: boolean;
+  states?: Array<{ value: string; label: string }>;
+}
+
+export interface ImportPreview {
+  kind: ImportKind;
+  headers: string[];
+  mapping: Record<string, string>;
+  fields: ImportField[];
+  rows: Array<{
+    row: number;
+    valid: boolean;
+    // Already in the team's data or earlier in the file
+    conflict: boolean;
+    errors: Array<{ field: string; message: string }>;
+    data: Record<string, unknown>;
+  }>;
+  validCount: number;
+  // Includes conflicts
+  invalidCount: number;
+  conflictCount: number;
+  newTeamNumbers: number[];
+}
+
+export interface ImportBatch {
+  id: string;
+  kind: ImportKind;
+  fileName: string | null;
+  rowCount: number;
+  createdAt: string;
+  rolledBackAt: string | null;
+  creator: { id: string; name: string | null } | null;
+}
+
+export interface ImportRequest {
+  kind: ImportKind;
+  csv: string;
+  mapping?: Record<string, string>;
+  defaults?: { eventCode?: string };
+  fileName?: string;
+  skipInvalid?: boolean;
+}
+
+export const importApi = {
+  // Validate a CSV without writing anything
+  preview: async (teamId: string, data: ImportRequest) => {
+    return fetchApi<ImportPreview>(`/user-teams/${teamId}/imports`, {
+      method: "POST",
+      body: JSON.stringify({ ...data, dryRun: true }),
+    });
+  },
+
+  commit: async (teamId: string, data: ImportRequest) => {
+    return fetchApi<{ batch: ImportBatch; imported: number; skipped: number; newTeamNumbers: number[] }>(
+      `/user-teams/${teamId}/imports`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+  },
+
+  getHistory: async (teamId: string) => {
+    return fetchApi<ImportBatch[]>(`/user-teams/${teamId}/imports`);
+  },
+
+  rollback: async (teamId: string, batchId: string) => {
+    return fetchApi<{ entriesDeleted: number; notesDeleted: number }>(
+      `/user-teams/${teamId}/imports/${batchId}`,
+      {
+        method: "DELETE",
+      }
+    );
+  },
+};
+
+// Personal API Tokens API
+export type ApiTokenScope = "read-analytics" | "read-scouting" | "write-scouting";
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export const apiTokensApi = {
+  getTokens: async () => {
+    return fetchApi<ApiToken[]>("/tokens");
+  },
+
+  // The plaintext token is only in this response
+  createToken: async (data: { name: string; scopes: ApiTokenScope[]; expiresInDays?: number | null }) => {
+    return fetchApi<ApiToken & { token: string; userId: string }>("/tokens", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  },
+
+  revokeToken: async (tokenId: string) => {
+    return fetchApi(`/tokens/${tokenId}`, {
+      method: "DELETE",
+    });
+  },
+};
+
 // Events API
 export const eventsApi = {
   getEvents: async () => {
@@ -531,7 +1047,7 @@ export const ftcTeamsApi = {
     >(`/teams/search?q=${encodeURIComponent(query)}`);
   },
 
-  getTeamProfile: async (teamNumber: number, userId?: string) => {
+  getTeamProfile: async (teamNumber: number) => {
     return fetchApi<{
       bio: string | null;
       robotName: string | null;
@@ -549,9 +1065,7 @@ export const ftcTeamsApi = {
         fileSize: number | null;
         mimeType: string | null;
       }>;
-    } | null>(`/teams/${teamNumber}/profile`, {
-      headers: userId ? { "X-User-Id": userId } : {},
-    });
+    } | null>(`/teams/${teamNumber}/profile`);
   },
 
   getTeamEventSummaries: async (teamNumber: number) => {
@@ -659,6 +1173,7 @@ export interface OPRResult {
   endgameOpr?: number;
   dpr?: number;
   ccwm?: number;
+  components?: Record<string, number>;
 }
 
 export interface EPAResult {
@@ -689,13 +1204,87 @@ export interface TeamMatchBreakdown {
   result: "win" | "loss" | "tie";
 }
 
+export interface EPAHistoryPoint {
+  eventCode: string;
+  matchNumber: number;
+  matchTime: string | null;
+  epa: number;
+  autoEpa: number;
+  teleopEpa: number;
+  endgameEpa: number;
+}
+
+export interface BacktestReport {
+  eventCode?: string;
+  season?: number;
+  matches: number;
+  ties: number;
+  spread: number;
+  brierScore: number | null;
+  logLoss: number | null;
+  accuracy: number | null;
+  calibration: Array<{
+    binStart: number;
+    binEnd: number;
+    count: number;
+    meanPredicted: number | null;
+    observedRate: number | null;
+  }>;
+}
+
+export interface PlayoffSimulation {
+  eventCode: string;
+  simulations: number;
+  rounds: string[];
+  playedMatches: number;
+  alliances: Array<{
+    seed: number;
+    teams: number[];
+    playingTeams: number[];
+    epa: number;
+    roundProbabilities: number[];
+    winProbability: number;
+  }>;
+  matches: Array<{
+    id: string;
+    label: string;
+    round: number;
+    bestOf: number;
+    winnerSeed: number | null;
+    participants: Array<{ seed: number; probability: number }>;
+    winners: Array<{ seed: number; probability: number }>;
+  }>;
+  warning?: string;
+}
+
+export interface RankingProjection {
+  eventCode: string;
+  rankingsSource: "official" | "matches";
+  simulations: number;
+  remainingMatches: number;
+  top: number;
+  teams: Array<{
+    teamNumber: number;
+    currentRank: number | null;
+    matchesPlayed: number;
+    remainingMatches: number;
+    epa: number | null;
+    expectedRankingPoints: number;
+    expectedRankingScore: number;
+    expectedRank: number;
+    rankProbabilities: number[];
+    topProbability: number;
+  }>;
+}
+
 export const analyticsApi = {
-  getOPR: async (eventCode: string) => {
+  getOPR: async (eventCode: string, ridge?: number) => {
+    const query = ridge ? `?ridge=${ridge}` : "";
     return fetchApi<{
       eventCode: string;
       matchCount: number;
       rankings: OPRResult[];
-    }>(`/analytics/opr/${eventCode}`);
+    }>(`/analytics/opr/${eventCode}${query}`);
   },
 
   getEPA: async (eventCode: string) => {
@@ -716,6 +1305,11 @@ export const analyticsApi = {
     }>(`/analytics/team/${teamNumber}${params}`);
   },
 
+  getBacktest: async (eventCode?: string) => {
+    const params = eventCode ? `?eventCode=${encodeURIComponent(eventCode)}` : "";
+    return fetchApi<BacktestReport>(`/analytics/backtest${params}`);
+  },
+
   predictMatch: async (data: {
     eventCode: string;
     redTeam1: number;
@@ -740,6 +1334,41 @@ export const analyticsApi = {
     });
   },
 
+  simulatePlayoffs: async (data: {
+    eventCode: string;
+    alliances: Array<{ seed?: number; teams: number[] }>;
+    simulations?: number;
+    seed?: number;
+  }) => {
+    return fetchApi<PlayoffSimulation>("/analytics/playoff-sim", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  },
+
+  getProjectedRankings: async (eventCode: string, top?: number) => {
+    const params = top ? `?top=${top}` : "";
+    return fetchApi<RankingProjection>(
+      `/analytics/event/${encodeURIComponent(eventCode)}/projected-rankings${params}`
+    );
+  },
+
+  getTeamEPAHistory: async (
+    teamNumber: number,
+    filters?: { eventCode?: string; from?: string; to?: string }
+  ) => {
+    const params = new URLSearchParams();
+    if (filters?.eventCode) params.set("eventCode", filters.eventCode);
+    if (filters?.from) params.set("from", filters.from);
+    if (filters?.to) params.set("to", filters.to);
+    const query = params.toString();
+    return fetchApi<{
+      teamNumber: number;
+      season: number;
+      history: EPAHistoryPoint[];
+    }>(`/analytics/team/${teamNumber}/epa-history${query ? `?${query}` : ""}`);
+  },
+
   getTeamMatches: async (teamNumber: number, eventCode: string) => {
     return fetchApi<{
       teamNumber: number;
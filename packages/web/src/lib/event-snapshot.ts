@@ -0,0 +1,563 @@
+/**
+ * Offline event snapshots using IndexedDB
+ * Downloads everything the analytics pages need for one event (schedule,
+ * teams, rankings, OPR/EPA, match breakdowns and our scouting entries and
+ * notes) so they keep working with no connectivity at the venue.
+ *
+ * API responses are stored under the endpoint that produced them; fetchApi
+ * reads from here when a GET cannot reach the server. Snapshots refresh
+ * incrementally while online: entries and notes by updatedSince, results
+ * only when more matches have been played, and the rest on a slow timer.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+
+const DB_NAME = "ftc-metrics-snapshots";
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = "events";
+
+const REFRESH_INTERVAL_MS = 5 * 60_000;
+// Teams, event details and schedules rarely change once an event starts
+const STATIC_MAX_AGE_MS = 60 * 60_000;
+// Rankings and analytics are refetched at least this often even without new matches
+const RESULTS_MAX_AGE_MS = 30 * 60_000;
+const SCOUTING_PAGE_SIZE = 50;
+
+// Dispatched on window whenever a snapshot is saved or removed
+export const SNAPSHOT_CHANGED_EVENT = "ftcmetrics-snapshot-changed";
+
+interface SnapshotResponse {
+  data: unknown;
+  fetchedAt: number;
+}
+
+interface ScoutingRecord {
+  id: string;
+  eventCode: string;
+  updatedAt: string;
+  [key: string]: unknown;
+}
+
+export interface EventSnapshot {
+  eventCode: string;
+  downloadedAt: number;
+  // Last time any part of the snapshot was brought up to date
+  refreshedAt: number;
+  lastError?: string;
+  // API response data keyed by endpoint, e.g. "/analytics/epa/USTXCMP"
+  responses: Record<string, SnapshotResponse>;
+  entries: ScoutingRecord[];
+  notes: ScoutingRecord[];
+  // Newest updatedAt seen, sent as updatedSince on the next refresh
+  entriesCursor: string | null;
+  notesCursor: string | null;
+  scoutingFetchedAt: number;
+  // Played qual + playoff matches when results were last fetched
+  playedMatches: number;
+}
+
+function staticEndpoints(eventCode: string): string[] {
+  return [
+    `/events/${eventCode}`,
+    `/events/${eventCode}/teams`,
+    `/events/${eventCode}/schedule?level=qual`,
+    `/events/${eventCode}/schedule?level=playoff`,
+  ];
+}
+
+function matchEndpoints(eventCode: string): string[] {
+  return [
+    `/events/${eventCode}/matches?level=qual`,
+    `/events/${eventCode}/matches?level=playoff`,
+  ];
+}
+
+function resultEndpoints(eventCode: string): string[] {
+  return [
+    `/events/${eventCode}/rankings`,
+    `/analytics/opr/${eventCode}`,
+    `/analytics/epa/${eventCode}`,
+    `/analytics/event/${encodeURIComponent(eventCode)}/team-matches`,
+  ];
+}
+
+function summaryEndpoint(eventCode: string): string {
+  return `/scouting/event-summary/${eventCode}`;
+}
+
+/**
+ * Open IndexedDB connection
+ */
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: "eventCode" });
+      }
+    };
+  });
+}
+
+/**
+ * Run a single request against the snapshot store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOT_STORE], mode);
+    const request = run(transaction.objectStore(SNAPSHOT_STORE));
+
+    request.onsuccess = () => {
+      db.close();
+      resolve(request.result as T);
+    };
+    request.onerror = () => {
+      db.close();
+      reject(request.error);
+    };
+  });
+}
+
+function notifyChanged() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(SNAPSHOT_CHANGED_EVENT));
+  }
+}
+
+async function putSnapshot(snapshot: EventSnapshot): Promise<void> {
+  await withStore("readwrite", (store) => store.put(snapshot));
+  notifyChanged();
+}
+
+/**
+ * All downloaded event snapshots
+ */
+export async function getEventSnapshots(): Promise<EventSnapshot[]> {
+  if (typeof indexedDB === "undefined") return [];
+  return withStore<EventSnapshot[]>("readonly", (store) => store.getAll());
+}
+
+export async function getEventSnapshot(eventCode: string): Promise<EventSnapshot | null> {
+  if (typeof indexedDB === "undefined") return null;
+  const snapshot = await withStore<EventSnapshot | undefined>("readonly", (store) =>
+    store.get(eventCode)
+  );
+  return snapshot ?? null;
+}
+
+export async function removeEventSnapshot(eventCode: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(eventCode));
+  notifyChanged();
+}
+
+function apiUrl(): string {
+  return process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api";
+}
+
+/**
+ * GET one endpoint, returning the full response body
+ */
+async function fetchEndpoint(endpoint: string): Promise<{ data: unknown; total?: number }> {
+  const response = await fetch(`${apiUrl()}${endpoint}`, { credentials: "include" });
+  const result = await response.json().catch(() => ({ success: false }));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Request failed (${response.status})`);
+  }
+  return result;
+}
+
+/**
+ * Fetch endpoints into the snapshot. A failed endpoint keeps its previous
+ * data; the first error is returned so the caller can report it.
+ */
+async function refreshResponses(
+  snapshot: EventSnapshot,
+  endpoints: string[]
+): Promise<string | null> {
+  let firstError: string | null = null;
+  for (const endpoint of endpoints) {
+    try {
+      const { data } = await fetchEndpoint(endpoint);
+      snapshot.responses[endpoint] = { data, fetchedAt: Date.now() };
+    } catch (error) {
+      firstError ??= `${endpoint}: ${error instanceof Error ? error.message : "Request failed"}`;
+    }
+  }
+  return firstError;
+}
+
+/**
+ * Fetch entries or notes changed since the cursor and merge them by id.
+ * Returns how many records changed.
+ */
+async function syncScoutingRecords(
+  snapshot: EventSnapshot,
+  kind: "entries" | "notes"
+): Promise<number> {
+  const cursorKey = kind === "entries" ? "entriesCursor" : "notesCursor";
+  const cursor = snapshot[cursorKey];
+  const changed: ScoutingRecord[] = [];
+  let offset = 0;
+  let total = 0;
+
+  do {
+    const params = new URLSearchParams({
+      eventCode: snapshot.eventCode,
+      limit: String(SCOUTING_PAGE_SIZE),
+      offset: String(offset),
+    });
+    if (cursor) params.set("updatedSince", cursor);
+    const result = await fetchEndpoint(`/scouting/${kind}?${params.toString()}`);
+    const page = (result.data as ScoutingRecord[]) ?? [];
+    changed.push(...page);
+    total = result.total || 0;
+    offset += SCOUTING_PAGE_SIZE;
+  } while (offset < total);
+
+  if (changed.length > 0) {
+    const byId = new Map(snapshot[kind].map((record) => [record.id, record]));
+    for (const record of changed) byId.set(record.id, record);
+    snapshot[kind] = [...byId.values()];
+    // Server timestamps, so the cursor is immune to device clock drift
+    snapshot[cursorKey] = changed.reduce(
+      (latest, record) => (record.updatedAt > latest ? record.updatedAt : latest),
+      cursor ?? ""
+    );
+  }
+  return changed.length;
+}
+
+function countPlayedMatches(snapshot: EventSnapshot): number {
+  return matchEndpoints(snapshot.eventCode).reduce((sum, endpoint) => {
+    const data = snapshot.responses[endpoint]?.data;
+    return sum + (Array.isArray(data) ? data.length : 0);
+  }, 0);
+}
+
+/**
+ * Bring a snapshot up to date, fetching only what may have changed.
+ * With force, every part is refetched.
+ */
+async function updateSnapshot(snapshot: EventSnapshot, force: boolean): Promise<EventSnapshot> {
+  const now = Date.now();
+  const { eventCode } = snapshot;
+  const stale = (endpoint: string, maxAge: number) =>
+    force || !snapshot.responses[endpoint] || now - snapshot.responses[endpoint].fetchedAt > maxAge;
+  const errors: string[] = [];
+  const record = (error: string | null) => {
+    if (error) errors.push(error);
+  };
+
+  record(
+    await refreshResponses(
+      snapshot,
+      staticEndpoints(eventCode).filter((endpoint) => stale(endpoint, STATIC_MAX_AGE_MS))
+    )
+  );
+
+  // Played matches are cheap to list and tell us whether results moved
+  record(await refreshResponses(snapshot, matchEndpoints(eventCode)));
+  const playedMatches = countPlayedMatches(snapshot);
+  const newMatches = playedMatches !== snapshot.playedMatches;
+  record(
+    await refreshResponses(
+      snapshot,
+      resultEndpoints(eventCode).filter(
+        (endpoint) => newMatches || stale(endpoint, RESULTS_MAX_AGE_MS)
+      )
+    )
+  );
+  snapshot.playedMatches = playedMatches;
+
+  let scoutingChanged = 0;
+  try {
+    scoutingChanged += await syncScoutingRecords(snapshot, "entries");
+    scoutingChanged += await syncScoutingRecords(snapshot, "notes");
+    snapshot.scoutingFetchedAt = Date.now();
+  } catch (error) {
+    errors.push(`Scouting data: ${error instanceof Error ? error.message : "Request failed"}`);
+  }
+
+  // Summaries reconcile entries server-side, so refetch them when entries or
+  // leader resolutions may have changed
+  if (scoutingChanged > 0 || stale(summaryEndpoint(eventCode), RESULTS_MAX_AGE_MS)) {
+    record(await refreshResponses(snapshot, [summaryEndpoint(eventCode)]));
+  }
+
+  snapshot.lastError = errors[0];
+  if (errors.length === 0) snapshot.refreshedAt = Date.now();
+  await putSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Download an event for offline use, replacing any earlier snapshot of it
+ */
+export async function downloadEventSnapshot(eventCode: string): Promise<EventSnapshot> {
+  const snapshot: EventSnapshot = {
+    eventCode,
+    downloadedAt: Date.now(),
+    refreshedAt: 0,
+    responses: {},
+    entries: [],
+    notes: [],
+    entriesCursor: null,
+    notesCursor: null,
+    scoutingFetchedAt: 0,
+    playedMatches: 0,
+  };
+  const updated = await updateSnapshot(snapshot, true);
+  if (!updated.responses[`/events/${eventCode}`]) {
+    await removeEventSnapshot(eventCode);
+    throw new Error(updated.lastError || "Could not download event");
+  }
+  return updated;
+}
+
+const refreshInFlight = new Map<string, Promise<EventSnapshot | null>>();
+
+/**
+ * Incrementally refresh one downloaded event. Concurrent calls share a run.
+ */
+export function refreshEventSnapshot(
+  eventCode: string,
+  options: { force?: boolean } = {}
+): Promise<EventSnapshot | null> {
+  let run = refreshInFlight.get(eventCode);
+  if (!run) {
+    run = getEventSnapshot(eventCode)
+      .then((snapshot) => (snapshot ? updateSnapshot(snapshot, !!options.force) : null))
+      .finally(() => refreshInFlight.delete(eventCode));
+    refreshInFlight.set(eventCode, run);
+  }
+  return run;
+}
+
+/**
+ * Keep every downloaded event fresh while online: on reconnect and on a
+ * timer. Returns a cleanup function.
+ */
+export function startSnapshotRefresh(): () => void {
+  const refresh = () => {
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+    getEventSnapshots()
+      .then((snapshots) =>
+        Promise.all(snapshots.map((snapshot) => refreshEventSnapshot(snapshot.eventCode)))
+      )
+      .catch((err) => console.error("[event-snapshot] Background refresh failed:", err));
+  };
+
+  refresh();
+  window.addEventListener("online", refresh);
+  const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener("online", refresh);
+    clearInterval(interval);
+  };
+}
+
+type SnapshotRead = { data: unknown; total?: number; fetchedAt: number };
+
+function findTeam(data: unknown, teamNumber: number) {
+  const rankings = (data as { rankings?: Array<{ teamNumber: number }> } | undefined)?.rankings;
+  return rankings?.find((r) => r.teamNumber === teamNumber) ?? null;
+}
+
+function pageRecords(
+  records: ScoutingRecord[],
+  params: URLSearchParams,
+  fetchedAt: number
+): SnapshotRead {
+  const limit = parseInt(params.get("limit") || "10", 10);
+  const offset = parseInt(params.get("offset") || "0", 10);
+  const sorted = [...records].sort((a, b) =>
+    String(b.createdAt ?? "").localeCompare(String(a.createdAt ?? ""))
+  );
+  return { data: sorted.slice(offset, offset + limit), total: sorted.length, fetchedAt };
+}
+
+function teamNumberOf(record: ScoutingRecord, relation: "scoutedTeam" | "aboutTeam") {
+  return (record[relation] as { teamNumber?: number } | undefined)?.teamNumber;
+}
+
+/**
+ * Answer a GET from the downloaded snapshots, or null when no snapshot
+ * covers it. Per-team endpoints are derived from the event-wide data.
+ */
+export async function readSnapshot(endpoint: string): Promise<SnapshotRead | null> {
+  let snapshots: EventSnapshot[];
+  try {
+    snapshots = await getEventSnapshots();
+  } catch {
+    return null;
+  }
+  if (snapshots.length === 0) return null;
+
+  for (const snapshot of snapshots) {
+    const stored = snapshot.responses[endpoint];
+    if (stored) return stored;
+  }
+
+  const url = new URL(endpoint, "http://snapshot.local");
+  const path = url.pathname;
+  const params = url.searchParams;
+
+  if (path === "/events") {
+    const events = snapshots
+      .map((snapshot) => snapshot.responses[`/events/${snapshot.eventCode}`])
+      .filter(Boolean);
+    if (events.length === 0) return null;
+    return {
+      data: events.map((event) => event.data),
+      fetchedAt: Math.min(...events.map((event) => event.fetchedAt)),
+    };
+  }
+
+  const teamMatch = path.match(/^\/teams\/(\d+)$/);
+  if (teamMatch) {
+    const teamNumber = parseInt(teamMatch[1], 10);
+    for (const snapshot of snapshots) {
+      const teams = snapshot.responses[`/events/${snapshot.eventCode}/teams`];
+      const team = (teams?.data as Array<{ teamNumber: number }> | undefined)?.find(
+        (t) => t.teamNumber === teamNumber
+      );
+      if (team) return { data: team, fetchedAt: teams.fetchedAt };
+    }
+    return null;
+  }
+
+  const eventCode = params.get("eventCode");
+  const snapshot = snapshots.find((s) => s.eventCode === eventCode);
+  if (!snapshot) return null;
+
+  const analyticsMatch = path.match(/^\/analytics\/team\/(\d+)$/);
+  if (analyticsMatch) {
+    const teamNumber = parseInt(analyticsMatch[1], 10);
+    const opr = snapshot.responses[`/analytics/opr/${snapshot.eventCode}`];
+    const epa = snapshot.responses[`/analytics/epa/${snapshot.eventCode}`];
+    if (!opr && !epa) return null;
+    return {
+      data: {
+        teamNumber,
+        eventCode: snapshot.eventCode,
+        opr: findTeam(opr?.data, teamNumber),
+        epa: findTeam(epa?.data, teamNumber),
+      },
+      fetchedAt: Math.min(opr?.fetchedAt ?? Infinity, epa?.fetchedAt ?? Infinity),
+    };
+  }
+
+  const matchesMatch = path.match(/^\/analytics\/team\/(\d+)\/matches$/);
+  if (matchesMatch) {
+    const teamNumber = parseInt(matchesMatch[1], 10);
+    const stored =
+      snapshot.responses[`/analytics/event/${encodeURIComponent(snapshot.eventCode)}/team-matches`];
+    if (!stored) return null;
+    const teams = (stored.data as { teams: Record<string, unknown[]> }).teams;
+    return {
+      data: { teamNumber, eventCode: snapshot.eventCode, matches: teams[teamNumber] ?? [] },
+      fetchedAt: stored.fetchedAt,
+    };
+  }
+
+  const summaryMatch = path.match(/^\/scouting\/team-summary\/(\d+)$/);
+  if (summaryMatch) {
+    const teamNumber = parseInt(summaryMatch[1], 10);
+    const stored = snapshot.responses[summaryEndpoint(snapshot.eventCode)];
+    if (!stored) return null;
+    const summary = (stored.data as { teams: Array<{ teamNumber: number }> }).teams.find(
+      (t) => t.teamNumber === teamNumber
+    );
+    return {
+      data: {
+        ...(summary ?? { teamNumber, matchCount: 0, averages: null }),
+        entries: snapshot.entries.filter((e) => teamNumberOf(e, "scoutedTeam") === teamNumber),
+      },
+      fetchedAt: stored.fetchedAt,
+    };
+  }
+
+  if (path === "/scouting/entries" && snapshot.scoutingFetchedAt > 0) {
+    const teamNumber = params.get("teamNumber");
+    const scoutingTeamId = params.get("scoutingTeamId");
+    const entries = snapshot.entries.filter(
+      (e) =>
+        (!teamNumber || teamNumberOf(e, "scoutedTeam") === parseInt(teamNumber, 10)) &&
+        (!scoutingTeamId || e.scoutingTeamId === scoutingTeamId)
+    );
+    return pageRecords(entries, params, snapshot.scoutingFetchedAt);
+  }
+
+  if (path === "/scouting/notes" && snapshot.scoutingFetchedAt > 0) {
+    const aboutTeamNumber = params.get("aboutTeamNumber");
+    const notingTeamId = params.get("notingTeamId");
+    const notes = snapshot.notes.filter(
+      (n) =>
+        (!aboutTeamNumber || teamNumberOf(n, "aboutTeam") === parseInt(aboutTeamNumber, 10)) &&
+        (!notingTeamId || n.notingTeamId === notingTeamId)
+    );
+    return pageRecords(notes, params, snapshot.scoutingFetchedAt);
+  }
+
+  return null;
+}
+
+/**
+ * Live view of one event's snapshot for the download button
+ */
+export function useEventSnapshot(eventCode: string | null | undefined) {
+  const [snapshot, setSnapshot] = useState<EventSnapshot | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!eventCode) {
+      setSnapshot(null);
+      return;
+    }
+    try {
+      setSnapshot(await getEventSnapshot(eventCode));
+    } catch (err) {
+      console.error("[event-snapshot] Failed to read snapshot:", err);
+    }
+  }, [eventCode]);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(SNAPSHOT_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(SNAPSHOT_CHANGED_EVENT, reload);
+  }, [reload]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return {
+    snapshot,
+    busy,
+    error,
+    download: () => (eventCode ? run(() => downloadEventSnapshot(eventCode)) : Promise.resolve()),
+    refresh: () =>
+      eventCode ? run(() => refreshEventSnapshot(eventCode, { force: true })) : Promise.resolve(),
+    remove: () => (eventCode ? run(() => removeEventSnapshot(eventCode)) : Promise.resolve()),
+  };
+}
@@ -1,54 +1,72 @@
 /**
- * Offline queue for scouting entries using IndexedDB
- * Allows scouts to submit entries when offline and sync when connection is restored
+ * Offline mutation outbox using IndexedDB
+ * Queues scouting entries, entry edits, notes and partner deductions made
+ * while offline (or when the request never reached the server), plus entries
+ * received from other devices by QR transfer, and replays them in order once
+ * the connection is back.
+ *
+ * Each operation carries an idempotency key sent as the Idempotency-Key
+ * header, so a retry after a lost response cannot create a duplicate. Failed
+ * requests are retried with exponential backoff; operations the server
+ * rejects, or that run out of attempts, stay in the outbox as failed until
+ * the scout retries or discards them.
  */
 
-const DB_NAME = "ftc-metrics-offline";
-const DB_VERSION = 1;
-const STORE_NAME = "scouting-queue";
+import { useCallback, useEffect, useState } from "react";
+import type { TransferEntry } from "./qr-transfer";
 
-interface QueuedEntry {
+const DB_NAME = "ftc-metrics-offline";
+const DB_VERSION = 3;
+const OUTBOX_STORE = "outbox";
+const KEY_STORE = "keys";
+// Ids of entries received by QR transfer, so rescanning a code is harmless
+const RECEIVED_STORE = "received";
+// Version 1 store that only held new scouting entries
+const LEGACY_STORE = "scouting-queue";
+const SIGNING_KEY_ID = "outbox-hmac";
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 10 * 60_000;
+const SYNC_INTERVAL_MS = 15_000;
+
+// Dispatched on window whenever the outbox changes
+export const OUTBOX_CHANGED_EVENT = "ftcmetrics-outbox-changed";
+
+export type OutboxKind = "entry" | "entry-edit" | "note" | "deduction";
+
+export type ScoutingEntryData = {
+  scoutingTeamId: string;
+  scoutedTeamNumber: number;
+  eventCode: string;
+  matchNumber: number;
+  alliance: "RED" | "BLUE";
+  season?: number;
+  allianceNotes?: string;
+  // Scoring element values keyed by the season's game definition
+  [elementKey: string]: string | number | boolean | undefined;
+};
+
+export interface OutboxOperation {
+  // Also used as the Idempotency-Key
   id: string;
+  kind: OutboxKind;
   userId: string;
-  data: {
-    scoutingTeamId: string;
-    scoutedTeamNumber: number;
-    eventCode: string;
-    matchNumber: number;
-    alliance: "RED" | "BLUE";
-    autoLeave?: boolean;
-    autoClassifiedCount?: number;
-    autoOverflowCount?: number;
-    autoPatternCount?: number;
-    teleopClassifiedCount?: number;
-    teleopOverflowCount?: number;
-    teleopDepotCount?: number;
-    teleopPatternCount?: number;
-    teleopMotifCount?: number;
-    endgameBaseStatus?: "NONE" | "PARTIAL" | "FULL";
-  };
-  timestamp: number;
+  method: "POST" | "PATCH";
+  path: string;
+  body?: Record<string, unknown>;
+  // Short description for the outbox list, e.g. "Match 12 · Team 1234"
+  label: string;
+  createdAt: number;
+  status: "pending" | "failed";
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // Queued by the version 1 queue, whose signing key did not survive reloads
+  legacy?: boolean;
   _signature?: string;
 }
 
-/**
- * Per-session HMAC key for signing queued entries.
- * Resets on page reload — entries from previous sessions will fail verification
- * and must be re-submitted.
- */
-let sessionKey: CryptoKey | null = null;
-
-async function getSessionKey(): Promise<CryptoKey> {
-  if (!sessionKey) {
-    sessionKey = await crypto.subtle.generateKey(
-      { name: "HMAC", hash: "SHA-256" },
-      true,
-      ["sign", "verify"]
-    );
-  }
-  return sessionKey;
-}
-
 function arrayBufferToHex(buffer: ArrayBuffer): string {
   return Array.from(new Uint8Array(buffer))
     .map((b) => b.toString(16).padStart(2, "0"))
@@ -63,31 +81,14 @@ function hexToArrayBuffer(hex: string): ArrayBuffer {
   return bytes.buffer;
 }
 
-/**
- * Compute HMAC-SHA256 signature for an entry (excluding the _signature field).
- */
-async function signEntry(entry: QueuedEntry): Promise<string> {
-  const key = await getSessionKey();
-  const { _signature, ...entryData } = entry;
-  const encoded = new TextEncoder().encode(JSON.stringify(entryData));
-  const sig = await crypto.subtle.sign("HMAC", key, encoded);
-  return arrayBufferToHex(sig);
+function generateId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
 /**
- * Verify the HMAC-SHA256 signature of an entry.
- */
-async function verifyEntry(entry: QueuedEntry): Promise<boolean> {
-  if (!entry._signature) return false;
-  const key = await getSessionKey();
-  const { _signature, ...entryData } = entry;
-  const encoded = new TextEncoder().encode(JSON.stringify(entryData));
-  const sigBuffer = hexToArrayBuffer(_signature);
-  return crypto.subtle.verify("HMAC", key, sigBuffer, encoded);
-}
-
-/**
- * Open IndexedDB connection
+ * Open IndexedDB connection, moving version 1 queued entries into the outbox
  */
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -96,50 +97,64 @@ function openDB(): Promise<IDBDatabase> {
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result);
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const tx = request.transaction!;
+
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const store = db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(KEY_STORE)) {
+        db.createObjectStore(KEY_STORE);
+      }
+      if (!db.objectStoreNames.contains(RECEIVED_STORE)) {
+        db.createObjectStore(RECEIVED_STORE, { keyPath: "id" });
+      }
 
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
-        store.createIndex("timestamp", "timestamp", { unique: false });
+      if (db.objectStoreNames.contains(LEGACY_STORE)) {
+        const legacy = tx.objectStore(LEGACY_STORE).getAll();
+        legacy.onsuccess = () => {
+          const outbox = tx.objectStore(OUTBOX_STORE);
+          for (const old of legacy.result as Array<{
+            id: string;
+            userId: string;
+            data: ScoutingEntryData;
+            timestamp: number;
+          }>) {
+            outbox.put({
+              ...entryOperation(old.userId, old.data),
+              id: old.id,
+              createdAt: old.timestamp,
+              status: "failed",
+              lastError: "Saved by an older version of the app. Check it, then retry.",
+              legacy: true,
+            } satisfies OutboxOperation);
+          }
+          db.deleteObjectStore(LEGACY_STORE);
+        };
       }
     };
   });
 }
 
 /**
- * Check if the browser is online
- */
-export function isOnline(): boolean {
-  return typeof navigator !== "undefined" ? navigator.onLine : true;
-}
-
-/**
- * Queue a scouting entry for later submission
+ * Run a single request against one object store
  */
-export async function queueScoutingEntry(
-  userId: string,
-  data: QueuedEntry["data"]
-): Promise<void> {
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
   const db = await openDB();
 
-  const entry: QueuedEntry = {
-    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    userId,
-    data,
-    timestamp: Date.now(),
-  };
-
-  entry._signature = await signEntry(entry);
-
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], "readwrite");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.add(entry);
+    const transaction = db.transaction([storeName], mode);
+    const request = run(transaction.objectStore(storeName));
 
     request.onsuccess = () => {
       db.close();
-      resolve();
+      resolve(request.result as T);
     };
     request.onerror = () => {
       db.close();
@@ -149,126 +164,402 @@ export async function queueScoutingEntry(
 }
 
 /**
- * Get all pending entries in the queue
+ * HMAC key for signing queued operations. Generated once per device as
+ * non-extractable and kept in IndexedDB, so operations queued before a
+ * reload still verify while the raw key never leaves the browser's crypto
+ * store.
  */
-export async function getPendingEntries(): Promise<QueuedEntry[]> {
-  const db = await openDB();
+let signingKey: Promise<CryptoKey> | null = null;
 
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], "readonly");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) {
+    signingKey = (async () => {
+      const stored = await withStore<CryptoKey | undefined>(KEY_STORE, "readonly", (store) =>
+        store.get(SIGNING_KEY_ID)
+      );
+      if (stored) return stored;
 
-    request.onsuccess = () => {
-      db.close();
-      resolve(request.result || []);
-    };
-    request.onerror = () => {
-      db.close();
-      reject(request.error);
-    };
+      const key = await crypto.subtle.generateKey(
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"]
+      );
+      // add() fails if another tab stored a key first; use theirs
+      try {
+        await withStore(KEY_STORE, "readwrite", (store) => store.add(key, SIGNING_KEY_ID));
+        return key;
+      } catch {
+        return (await withStore<CryptoKey>(KEY_STORE, "readonly", (store) =>
+          store.get(SIGNING_KEY_ID)
+        ))!;
+      }
+    })();
+    signingKey.catch(() => {
+      signingKey = null;
+    });
+  }
+  return signingKey;
+}
+
+// The request itself is signed; retry bookkeeping may change freely
+function signedPayload(op: OutboxOperation) {
+  const { id, kind, userId, method, path, body, createdAt } = op;
+  return new TextEncoder().encode(JSON.stringify({ id, kind, userId, method, path, body, createdAt }));
+}
+
+async function signOperation(op: OutboxOperation): Promise<string> {
+  const key = await getSigningKey();
+  const sig = await crypto.subtle.sign("HMAC", key, signedPayload(op));
+  return arrayBufferToHex(sig);
+}
+
+async function verifyOperation(op: OutboxOperation): Promise<boolean> {
+  if (!op._signature) return false;
+  const key = await getSigningKey();
+  return crypto.subtle.verify("HMAC", key, hexToArrayBuffer(op._signature), signedPayload(op));
+}
+
+function notifyChanged() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+  }
+}
+
+async function putOperation(op: OutboxOperation): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(op));
+  notifyChanged();
+}
+
+/**
+ * Check if the browser is online
+ */
+export function isOnline(): boolean {
+  return typeof navigator !== "undefined" ? navigator.onLine : true;
+}
+
+function entryOperation(userId: string, data: ScoutingEntryData) {
+  return {
+    kind: "entry" as const,
+    userId,
+    method: "POST" as const,
+    path: "/scouting/entries",
+    body: data,
+    label: `Match ${data.matchNumber} · Team ${data.scoutedTeamNumber}`,
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+}
+
+async function enqueue(
+  op: Omit<OutboxOperation, "id" | "createdAt" | "status" | "attempts" | "nextAttemptAt">
+): Promise<OutboxOperation> {
+  const queued: OutboxOperation = {
+    ...op,
+    id: generateId(),
+    createdAt: Date.now(),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+  queued._signature = await signOperation(queued);
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.add(queued));
+  notifyChanged();
+  return queued;
+}
+
+/**
+ * Queue a scouting entry for later submission
+ */
+export async function queueScoutingEntry(userId: string, data: ScoutingEntryData) {
+  const { kind, method, path, body, label } = entryOperation(userId, data);
+  return enqueue({ kind, userId, method, path, body, label });
+}
+
+/**
+ * Queue an edit to an existing scouting entry
+ */
+export async function queueEntryEdit(
+  userId: string,
+  entryId: string,
+  data: Record<string, string | number | boolean | undefined>,
+  label: string
+) {
+  return enqueue({
+    kind: "entry-edit",
+    userId,
+    method: "PATCH",
+    path: `/scouting/entries/${encodeURIComponent(entryId)}`,
+    body: data,
+    label: `Edit ${label}`,
   });
 }
 
 /**
- * Remove a specific entry from the queue
+ * Queue a scouting note
  */
-async function removeEntry(id: string): Promise<void> {
-  const db = await openDB();
+export async function queueNote(
+  userId: string,
+  data: { notingTeamId: string; aboutTeamNumber: number; [field: string]: unknown }
+) {
+  return enqueue({
+    kind: "note",
+    userId,
+    method: "POST",
+    path: "/scouting/notes",
+    body: data,
+    label: `Note on team ${data.aboutTeamNumber}`,
+  });
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], "readwrite");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+/**
+ * Queue a partner deduction for an existing scouting entry
+ */
+export async function queueDeduction(userId: string, entryId: string, label: string) {
+  return enqueue({
+    kind: "deduction",
+    userId,
+    method: "POST",
+    path: `/scouting/entries/${encodeURIComponent(entryId)}/deduct-partner`,
+    label: `Deduct partner for ${label}`,
+  });
+}
 
-    request.onsuccess = () => {
+/**
+ * Queue entries scanned from another device's transfer code. Each keeps its
+ * sender's outbox id, so it is skipped if this device already received it
+ * or has it queued, and a resend reuses the same Idempotency-Key. Entries
+ * recorded by someone else are submitted on their behalf.
+ */
+export async function receiveTransferredEntries(
+  userId: string,
+  entries: TransferEntry[]
+): Promise<{ added: number; duplicates: number }> {
+  const unique = [...new Map(entries.map((entry) => [entry.id, entry])).values()];
+  const receivedAt = Date.now();
+
+  // Sign first: an IndexedDB transaction closes while awaiting crypto
+  const ops = await Promise.all(
+    unique.map(async ({ id, scouterId, data }) => {
+      const operation = entryOperation(userId, scouterId === userId ? data : { ...data, scouterId });
+      const op: OutboxOperation = {
+        ...operation,
+        id,
+        label: `${operation.label} (received)`,
+        createdAt: receivedAt,
+        status: "pending",
+      };
+      op._signature = await signOperation(op);
+      return op;
+    })
+  );
+
+  const db = await openDB();
+  const added = await new Promise<number>((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE, RECEIVED_STORE], "readwrite");
+    const outbox = transaction.objectStore(OUTBOX_STORE);
+    const received = transaction.objectStore(RECEIVED_STORE);
+    let count = 0;
+
+    for (const op of ops) {
+      const seen = received.getKey(op.id);
+      seen.onsuccess = () => {
+        if (seen.result !== undefined) return;
+        received.put({ id: op.id, receivedAt });
+        const queued = outbox.getKey(op.id);
+        queued.onsuccess = () => {
+          if (queued.result !== undefined) return;
+          outbox.add(op);
+          count++;
+        };
+      };
+    }
+
+    transaction.oncomplete = () => {
       db.close();
-      resolve();
+      resolve(count);
     };
-    request.onerror = () => {
+    transaction.onerror = () => {
       db.close();
-      reject(request.error);
+      reject(transaction.error);
     };
   });
+
+  if (added > 0) notifyChanged();
+  return { added, duplicates: entries.length - added };
 }
 
 /**
- * Get the count of pending entries
+ * All queued operations, oldest first
+ */
+export async function getOutbox(): Promise<OutboxOperation[]> {
+  const ops = await withStore<OutboxOperation[]>(OUTBOX_STORE, "readonly", (store) =>
+    store.index("createdAt").getAll()
+  );
+  return ops || [];
+}
+
+/**
+ * Get the count of operations still waiting to be sent (failed ones excluded)
  */
 export async function getQueueCount(): Promise<number> {
-  const db = await openDB();
+  const ops = await getOutbox();
+  return ops.filter((op) => op.status === "pending").length;
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], "readonly");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.count();
+/**
+ * Put a failed operation back in line for an immediate attempt. Operations
+ * carried over from the version 1 queue are re-signed, since the scout has
+ * now reviewed them.
+ */
+export async function retryOperation(id: string): Promise<void> {
+  const op = await withStore<OutboxOperation | undefined>(OUTBOX_STORE, "readonly", (store) =>
+    store.get(id)
+  );
+  if (!op) return;
+
+  const retried: OutboxOperation = {
+    ...op,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: undefined,
+    legacy: undefined,
+  };
+  if (op.legacy) {
+    retried._signature = await signOperation(retried);
+  }
+  await putOperation(retried);
+}
 
-    request.onsuccess = () => {
-      db.close();
-      resolve(request.result);
-    };
-    request.onerror = () => {
-      db.close();
-      reject(request.error);
-    };
-  });
+/**
+ * Drop an operation without sending it
+ */
+export async function discardOperation(id: string): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+  notifyChanged();
+}
+
+/**
+ * Clear all operations from the outbox (use with caution!)
+ */
+export async function clearQueue(): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.clear());
+  notifyChanged();
 }
 
 /**
- * Sync all pending entries to the server
- * Returns the number of successfully synced entries
+ * Exponential backoff with ±20% jitter so devices reconnecting together
+ * spread out their retries
  */
-export async function syncPendingEntries(
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Timeouts, rate limits, server errors and a duplicate still being
+// processed (409 with Retry-After) may succeed later; other rejections
+// will not
+function isRetryable(response: Response): boolean {
+  const { status } = response;
+  if (status === 409) return response.headers.has("Retry-After");
+  return status === 408 || status === 429 || status >= 500;
+}
+
+let syncInFlight: Promise<{ synced: number; failed: number; errors: string[] }> | null = null;
+
+/**
+ * Send every pending operation whose backoff has elapsed, oldest first.
+ * An operation waits while an earlier one for the same resource is still
+ * queued, so edits apply in the order they were made.
+ */
+export function syncPendingEntries(
   apiUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api"
 ): Promise<{ synced: number; failed: number; errors: string[] }> {
   if (!isOnline()) {
-    return { synced: 0, failed: 0, errors: ["Device is offline"] };
+    return Promise.resolve({ synced: 0, failed: 0, errors: ["Device is offline"] });
+  }
+  if (!syncInFlight) {
+    syncInFlight = syncOutbox(apiUrl).finally(() => {
+      syncInFlight = null;
+    });
   }
+  return syncInFlight;
+}
 
-  const entries = await getPendingEntries();
+async function syncOutbox(
+  apiUrl: string
+): Promise<{ synced: number; failed: number; errors: string[] }> {
+  const ops = await getOutbox();
   let synced = 0;
   let failed = 0;
   const errors: string[] = [];
+  const blockedPaths = new Set<string>();
+
+  const fail = async (op: OutboxOperation, message: string, retryable: boolean) => {
+    const attempts = op.attempts + 1;
+    const giveUp = !retryable || attempts >= MAX_ATTEMPTS;
+    await putOperation({
+      ...op,
+      attempts,
+      status: giveUp ? "failed" : "pending",
+      nextAttemptAt: giveUp ? 0 : Date.now() + backoffDelay(attempts),
+      lastError: message,
+    });
+    failed++;
+    errors.push(`${op.label}: ${message}`);
+  };
+
+  for (const op of ops) {
+    // Edits and deductions of one entry must not overtake each other; new
+    // entries and notes are independent
+    const resource =
+      op.kind === "entry-edit" || op.kind === "deduction"
+        ? op.path.replace(/\/deduct-partner$/, "")
+        : op.id;
+    if (op.status === "failed" || op.nextAttemptAt > Date.now() || blockedPaths.has(resource)) {
+      blockedPaths.add(resource);
+      continue;
+    }
 
-  for (const entry of entries) {
     // Verify HMAC signature before syncing
-    const valid = await verifyEntry(entry);
-    if (!valid) {
+    if (!(await verifyOperation(op))) {
       console.warn(
-        `[offline-queue] Skipping entry ${entry.id}: HMAC signature verification failed (possible tampering or session mismatch)`
+        `[offline-queue] Skipping ${op.id}: HMAC signature verification failed (possible tampering)`
       );
-      failed++;
-      errors.push(`Match ${entry.data.matchNumber}: signature verification failed`);
+      await fail(op, "signature verification failed", false);
+      blockedPaths.add(resource);
       continue;
     }
 
     try {
-      const response = await fetch(`${apiUrl}/scouting/entries`, {
-        method: "POST",
+      const response = await fetch(`${apiUrl}${op.path}`, {
+        method: op.method,
         headers: {
-          "Content-Type": "application/json",
-          "X-User-Id": entry.userId,
+          ...(op.body && { "Content-Type": "application/json" }),
+          "Idempotency-Key": op.id,
         },
         credentials: "include",
-        body: JSON.stringify(entry.data),
+        body: op.body ? JSON.stringify(op.body) : undefined,
       });
 
-      const result = await response.json();
+      const result = await response.json().catch(() => ({ success: false }));
 
-      if (result.success) {
-        // Successfully submitted, remove from queue
-        await removeEntry(entry.id);
+      if (response.ok && result.success) {
+        await discardOperation(op.id);
         synced++;
       } else {
-        // API returned error
-        failed++;
-        errors.push(`Match ${entry.data.matchNumber}: ${result.error || "Unknown error"}`);
+        await fail(
+          op,
+          result.error || `Request failed (${response.status})`,
+          isRetryable(response)
+        );
+        blockedPaths.add(resource);
       }
     } catch (error) {
-      // Network or other error
-      failed++;
-      const errorMsg = error instanceof Error ? error.message : "Unknown error";
-      errors.push(`Match ${entry.data.matchNumber}: ${errorMsg}`);
+      // Network error: the request may or may not have arrived, which the
+      // idempotency key makes safe to retry
+      await fail(op, error instanceof Error ? error.message : "Network error", true);
+      blockedPaths.add(resource);
     }
   }
 
@@ -276,23 +567,51 @@ export async function syncPendingEntries(
 }
 
 /**
- * Clear all entries from the queue (use with caution!)
+ * Keep the outbox draining in the background: on reconnect and on a timer
+ * for operations waiting out their backoff. Returns a cleanup function.
  */
-export async function clearQueue(): Promise<void> {
-  const db = await openDB();
+export function startOutboxSync(): () => void {
+  const sync = () => {
+    if (!isOnline()) return;
+    getQueueCount()
+      .then((count) => (count > 0 ? syncPendingEntries() : undefined))
+      .catch((err) => console.error("[offline-queue] Background sync failed:", err));
+  };
 
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], "readwrite");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
+  sync();
+  window.addEventListener("online", sync);
+  const interval = setInterval(sync, SYNC_INTERVAL_MS);
 
-    request.onsuccess = () => {
-      db.close();
-      resolve();
-    };
-    request.onerror = () => {
-      db.close();
-      reject(request.error);
-    };
-  });
+  return () => {
+    window.removeEventListener("online", sync);
+    clearInterval(interval);
+  };
+}
+
+/**
+ * Live view of the outbox for badges and the outbox page
+ */
+export function useOutbox() {
+  const [operations, setOperations] = useState<OutboxOperation[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setOperations(await getOutbox());
+    } catch (err) {
+      console.error("[offline-queue] Failed to read outbox:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  return {
+    operations,
+    pendingCount: operations.filter((op) => op.status === "pending").length,
+    failedCount: operations.filter((op) => op.status === "failed").length,
+    refresh,
+  };
 }
@@ -0,0 +1,384 @@
+/**
+ * QR code transfer of scouting entries between devices
+ *
+ * At venues without a data connection, a scout's device shows its queued
+ * entries as QR codes and a lead's device scans them into its own outbox to
+ * sync later. Each code holds whole entries, so codes can be scanned in any
+ * order and a missed one just scanned again.
+ *
+ * Code text is TRANSFER_PREFIX followed by base45 (RFC 9285) of:
+ *
+ *   u8      format version (TRANSFER_VERSION)
+ *   u16     season, which fixes the scoring elements and their order
+ *   varint  string count, then each string as varint length + UTF-8;
+ *           scouting team ids, scouter ids and event codes refer to these
+ *   varint  entry count, then per entry:
+ *     id       varint 0 + 16 bytes for a UUID, else varint length + UTF-8
+ *     varint   scouting team, scouter and event string indexes
+ *     varint   scouted team number, match number
+ *     u8       flags: 1 = blue alliance, 2 = has alliance notes
+ *     values   in game order: counts as varints, then one varint bit mask
+ *              of the booleans, then states as indexes into their states
+ *     notes    varint length + UTF-8, when flagged
+ *   u32     CRC-32 of everything before it
+ *
+ * Entry ids are the sender's outbox operation ids, which double as the
+ * Idempotency-Key, so the receiver can tell an entry it already has.
+ */
+
+import { CURRENT_SEASON, getGameDefinition, type GameDefinition } from "@ftcmetrics/shared";
+import type { ScoutingEntryData } from "./offline-queue";
+
+export const TRANSFER_PREFIX = "FTCM:";
+export const TRANSFER_VERSION = 1;
+
+// Payload bytes per code. Around 600 bytes keeps codes near QR version 20,
+// which phone cameras read reliably off another phone's screen.
+const MAX_CODE_BYTES = 600;
+
+const FLAG_BLUE = 1;
+const FLAG_NOTES = 2;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface TransferEntry {
+  // Outbox operation id on the sending device
+  id: string;
+  // User who recorded the entry
+  scouterId: string;
+  data: ScoutingEntryData;
+}
+
+export type TransferDecodeResult =
+  | { success: true; entries: TransferEntry[] }
+  | { success: false; error: string };
+
+// --- Base45 (RFC 9285) ---
+
+const BASE45_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+export function base45Encode(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      let n = bytes[i] * 256 + bytes[i + 1];
+      for (let j = 0; j < 3; j++) {
+        result += BASE45_ALPHABET[n % 45];
+        n = Math.floor(n / 45);
+      }
+    } else {
+      const n = bytes[i];
+      result += BASE45_ALPHABET[n % 45] + BASE45_ALPHABET[Math.floor(n / 45)];
+    }
+  }
+  return result;
+}
+
+/**
+ * Decode base45 text, or null if it is not valid base45
+ */
+export function base45Decode(text: string): Uint8Array | null {
+  if (text.length % 3 === 1) return null;
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 3) {
+    const digits = [...text.slice(i, i + 3)].map((char) => BASE45_ALPHABET.indexOf(char));
+    if (digits.includes(-1)) return null;
+    const n = digits.reduce((sum, digit, k) => sum + digit * 45 ** k, 0);
+    if (digits.length === 3) {
+      if (n > 0xffff) return null;
+      bytes.push(n >> 8, n & 0xff);
+    } else {
+      if (n > 0xff) return null;
+      bytes.push(n);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// --- CRC-32 (IEEE) ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// --- Binary payload ---
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.bytes.push((value >>> 8) & 0xff, value & 0xff);
+  }
+
+  u32(value: number) {
+    this.bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+  }
+
+  varint(value: number) {
+    let rest = value;
+    while (rest >= 0x80) {
+      this.bytes.push((rest & 0x7f) | 0x80);
+      rest = Math.floor(rest / 128);
+    }
+    this.bytes.push(rest);
+  }
+
+  raw(bytes: Uint8Array) {
+    this.bytes.push(...bytes);
+  }
+
+  string(value: string) {
+    const bytes = new TextEncoder().encode(value);
+    this.varint(bytes.length);
+    this.raw(bytes);
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class ByteReader {
+  private pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done() {
+    return this.pos === this.bytes.length;
+  }
+
+  private take(count: number): Uint8Array {
+    if (this.pos + count > this.bytes.length) throw new Error("Truncated payload");
+    const slice = this.bytes.subarray(this.pos, this.pos + count);
+    this.pos += count;
+    return slice;
+  }
+
+  u8(): number {
+    return this.take(1)[0];
+  }
+
+  u16(): number {
+    const [hi, lo] = this.take(2);
+    return (hi << 8) | lo;
+  }
+
+  varint(): number {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return value;
+    }
+    throw new Error("Bad varint");
+  }
+
+  raw(count: number): Uint8Array {
+    return this.take(count);
+  }
+
+  string(): string {
+    return new TextDecoder("utf-8", { fatal: true }).decode(this.take(this.varint()));
+  }
+}
+
+function writeId(writer: ByteWriter, id: string) {
+  if (UUID_PATTERN.test(id)) {
+    const hex = id.replace(/-/g, "");
+    writer.varint(0);
+    writer.raw(new Uint8Array(hex.match(/../g)!.map((pair) => parseInt(pair, 16))));
+  } else {
+    writer.string(id);
+  }
+}
+
+function readId(reader: ByteReader): string {
+  const length = reader.varint();
+  if (length > 0) return new TextDecoder("utf-8", { fatal: true }).decode(reader.raw(length));
+  const hex = Array.from(reader.raw(16), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function encodePayload(game: GameDefinition, entries: TransferEntry[]): Uint8Array {
+  const strings: string[] = [];
+  const stringIndex = (value: string) => {
+    const index = strings.indexOf(value);
+    return index === -1 ? strings.push(value) - 1 : index;
+  };
+  const refs = entries.map(({ scouterId, data }) => [
+    stringIndex(data.scoutingTeamId),
+    stringIndex(scouterId),
+    stringIndex(data.eventCode),
+  ]);
+
+  const writer = new ByteWriter();
+  writer.u8(TRANSFER_VERSION);
+  writer.u16(game.season);
+  writer.varint(strings.length);
+  strings.forEach((value) => writer.string(value));
+  writer.varint(entries.length);
+
+  entries.forEach(({ id, data }, i) => {
+    writeId(writer, id);
+    refs[i].forEach((ref) => writer.varint(ref));
+    writer.varint(data.scoutedTeamNumber);
+    writer.varint(data.matchNumber);
+    writer.u8((data.alliance === "BLUE" ? FLAG_BLUE : 0) | (data.allianceNotes ? FLAG_NOTES : 0));
+
+    let booleans = 0;
+    let booleanBit = 0;
+    for (const el of game.elements) {
+      const value = data[el.key];
+      if (el.kind === "count") {
+        writer.varint(typeof value === "number" ? value : 0);
+      } else if (el.kind === "boolean") {
+        if (value === true) booleans += 2 ** booleanBit;
+        booleanBit++;
+      }
+    }
+    writer.varint(booleans);
+    for (const el of game.elements) {
+      if (el.kind !== "state") continue;
+      const index = el.states.findIndex((s) => s.value === (data[el.key] ?? el.defaultState));
+      if (index === -1) throw new Error(`Unknown ${el.label} value "${data[el.key]}"`);
+      writer.varint(index);
+    }
+
+    if (data.allianceNotes) writer.string(data.allianceNotes);
+  });
+
+  const body = writer.toBytes();
+  const withChecksum = new ByteWriter();
+  withChecksum.raw(body);
+  withChecksum.u32(crc32(body));
+  return withChecksum.toBytes();
+}
+
+function decodePayload(bytes: Uint8Array): TransferDecodeResult {
+  const damaged = { success: false as const, error: "The code is damaged. Scan it again." };
+  if (bytes.length < 7) return damaged;
+
+  const body = bytes.subarray(0, bytes.length - 4);
+  const tail = bytes.subarray(bytes.length - 4);
+  const checksum = ((tail[0] << 24) | (tail[1] << 16) | (tail[2] << 8) | tail[3]) >>> 0;
+  if (crc32(body) !== checksum) return damaged;
+
+  const reader = new ByteReader(body);
+  const version = reader.u8();
+  if (version > TRANSFER_VERSION) {
+    return { success: false, error: "This code is from a newer version of FTC Metrics. Update this device." };
+  }
+
+  const game = getGameDefinition(reader.u16());
+  if (!game) {
+    return { success: false, error: "This code is for a season this device does not support" };
+  }
+
+  try {
+    const strings = Array.from({ length: reader.varint() }, () => reader.string());
+    const ref = () => {
+      const value = strings[reader.varint()];
+      if (value === undefined) throw new Error("Bad string reference");
+      return value;
+    };
+
+    const entries = Array.from({ length: reader.varint() }, (): TransferEntry => {
+      const id = readId(reader);
+      const scoutingTeamId = ref();
+      const scouterId = ref();
+      const eventCode = ref();
+      const data: ScoutingEntryData = {
+        scoutingTeamId,
+        eventCode,
+        season: game.season,
+        scoutedTeamNumber: reader.varint(),
+        matchNumber: reader.varint(),
+        alliance: "RED",
+      };
+      const flags = reader.u8();
+      data.alliance = flags & FLAG_BLUE ? "BLUE" : "RED";
+
+      for (const el of game.elements) {
+        if (el.kind === "count") data[el.key] = reader.varint();
+      }
+      const booleans = reader.varint();
+      let booleanBit = 0;
+      for (const el of game.elements) {
+        if (el.kind !== "boolean") continue;
+        data[el.key] = Math.floor(booleans / 2 ** booleanBit) % 2 === 1;
+        booleanBit++;
+      }
+      for (const el of game.elements) {
+        if (el.kind !== "state") continue;
+        const state = el.states[reader.varint()];
+        if (!state) throw new Error("Bad state index");
+        data[el.key] = state.value;
+      }
+
+      if (flags & FLAG_NOTES) data.allianceNotes = reader.string();
+      return { id, scouterId, data };
+    });
+
+    if (!reader.done) return damaged;
+    return { success: true, entries };
+  } catch {
+    return damaged;
+  }
+}
+
+/**
+ * Encode entries as QR code texts, packing as many whole entries into each
+ * code as fit. Entries from different seasons go in separate codes.
+ */
+export function encodeTransferCodes(entries: TransferEntry[]): string[] {
+  const bySeason = new Map<number, TransferEntry[]>();
+  for (const entry of entries) {
+    const season = entry.data.season ?? CURRENT_SEASON;
+    bySeason.set(season, [...(bySeason.get(season) ?? []), entry]);
+  }
+
+  const codes: string[] = [];
+  for (const [season, group] of bySeason) {
+    const game = getGameDefinition(season);
+    if (!game) throw new Error(`Unsupported season ${season}`);
+
+    let current: TransferEntry[] = [];
+    for (const entry of group) {
+      const next = [...current, entry];
+      if (current.length > 0 && encodePayload(game, next).length > MAX_CODE_BYTES) {
+        codes.push(TRANSFER_PREFIX + base45Encode(encodePayload(game, current)));
+        current = [entry];
+      } else {
+        current = next;
+      }
+    }
+    if (current.length > 0) codes.push(TRANSFER_PREFIX + base45Encode(encodePayload(game, current)));
+  }
+  return codes;
+}
+
+/**
+ * Decode the text of a scanned (or pasted) transfer code
+ */
+export function decodeTransferCode(text: string): TransferDecodeResult {
+  // Pasted text may pick up line breaks; base45 itself may end in a space
+  const code = text.replace(/[\r\n]/g, "");
+  if (!code.startsWith(TRANSFER_PREFIX)) {
+    return { success: false, error: "Not an FTC Metrics transfer code" };
+  }
+  const bytes = base45Decode(code.slice(TRANSFER_PREFIX.length));
+  if (!bytes) return { success: false, error: "The code is damaged. Scan it again." };
+  return decodePayload(bytes);
+}
@@ -0,0 +1,130 @@
+/**
+ * Realtime scouting feed over Soketi (Pusher protocol)
+ * Subscribes to each scouting team's private channel so new entries and notes
+ * appear without a refresh. Does nothing when NEXT_PUBLIC_SOKETI_KEY is unset.
+ */
+
+import { useEffect, useRef } from "react";
+import Pusher from "pusher-js";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api";
+const SOKETI_KEY = process.env.NEXT_PUBLIC_SOKETI_KEY;
+const SOKETI_HOST = process.env.NEXT_PUBLIC_SOKETI_HOST || "localhost";
+const SOKETI_PORT = parseInt(process.env.NEXT_PUBLIC_SOKETI_PORT || "6001", 10);
+const SOKETI_TLS = process.env.NEXT_PUBLIC_SOKETI_TLS === "true";
+
+export type ScoutingEventName =
+  | "entry-created"
+  | "entry-updated"
+  | "note-created"
+  | "picklist-updated"
+  | "consensus-updated";
+
+const SCOUTING_EVENTS: ScoutingEventName[] = ["entry-created", "entry-updated", "note-created"];
+
+export interface ScoutingEventPayload {
+  id: string;
+  eventCode: string | null;
+  matchNumber?: number;
+  teamNumber?: number;
+  deducted?: boolean;
+  authorId?: string | null;
+}
+
+let client: Pusher | null = null;
+
+// Mounted useTeamFeed subscribers per channel; the shared client only leaves a
+// channel when the last of them unmounts
+const channelSubscribers = new Map<string, number>();
+
+/**
+ * Shared Pusher client, or null when realtime is not configured
+ */
+export function getRealtimeClient(): Pusher | null {
+  if (typeof window === "undefined" || !SOKETI_KEY) return null;
+  if (client) return client;
+
+  client = new Pusher(SOKETI_KEY, {
+    cluster: "",
+    wsHost: SOKETI_HOST,
+    wsPort: SOKETI_PORT,
+    wssPort: SOKETI_PORT,
+    forceTLS: SOKETI_TLS,
+    enabledTransports: ["ws", "wss"],
+    disableStats: true,
+    channelAuthorization: {
+      // Authorize with the session cookie so only team members can join
+      customHandler: async ({ socketId, channelName }, callback) => {
+        try {
+          const response = await fetch(`${API_URL}/realtime/auth`, {
+            method: "POST",
+            credentials: "include",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ socket_id: socketId, channel_name: channelName }),
+          });
+          if (!response.ok) {
+            throw new Error(`Channel authorization failed (${response.status})`);
+          }
+          callback(null, await response.json());
+        } catch (err) {
+          callback(err instanceof Error ? err : new Error("Channel authorization failed"), null);
+        }
+      },
+    },
+  });
+
+  return client;
+}
+
+export function getTeamChannel(teamId: string): string {
+  return `private-team-${teamId}`;
+}
+
+/**
+ * Subscribe to live scouting activity for the given scouting teams.
+ * The handler may change between renders without resubscribing.
+ * Pass `events` to listen for something other than entries and notes.
+ */
+export function useTeamFeed(
+  teamIds: string[],
+  onEvent: (event: ScoutingEventName, data: ScoutingEventPayload) => void,
+  events: ScoutingEventName[] = SCOUTING_EVENTS
+) {
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  const teamKey = [...new Set(teamIds.filter(Boolean))].sort().join(",");
+  const eventKey = events.join(",");
+
+  useEffect(() => {
+    const pusher = getRealtimeClient();
+    if (!pusher || !teamKey) return;
+
+    const channelNames = teamKey.split(",").map(getTeamChannel);
+    const bindings = channelNames.map((name) => {
+      channelSubscribers.set(name, (channelSubscribers.get(name) ?? 0) + 1);
+      const channel = pusher.subscribe(name);
+      const handlers = (eventKey.split(",") as ScoutingEventName[]).map((event) => {
+        const handler = (data: ScoutingEventPayload) => handlerRef.current(event, data);
+        channel.bind(event, handler);
+        return { event, handler };
+      });
+      return { name, channel, handlers };
+    });
+
+    return () => {
+      for (const { name, channel, handlers } of bindings) {
+        for (const { event, handler } of handlers) {
+          channel.unbind(event, handler);
+        }
+        const remaining = (channelSubscribers.get(name) ?? 1) - 1;
+        if (remaining > 0) {
+          channelSubscribers.set(name, remaining);
+        } else {
+          channelSubscribers.delete(name);
+          pusher.unsubscribe(name);
+        }
+      }
+    };
+  }, [teamKey, eventKey]);
+}
@@ -9,13 +9,17 @@ const API_BASE = "http://localhost:3001";
  * endpoint directly because the scouting form requires authenticated session
  * state that is difficult to replicate in an e2e context.
  *
- * The API may or may not have real user/team records in the database, so the
- * test handles both the success path and the expected rejection paths (403
- * when the user is not a team member, 400 for validation errors, etc.).
+ * Against a database filled by `bun run db:seed`, the seeded session below
+ * authenticates as TEST_USER_ID, a mentor of TEST_SCOUTING_TEAM_ID. Without
+ * seed data the test handles the expected rejection paths too (401 without a
+ * session, 403 when the user is not a team member, 400 for validation errors,
+ * etc.).
  */
 
 const TEST_USER_ID = "test-user-playwright";
 const TEST_SCOUTING_TEAM_ID = "test-scouting-team-playwright";
+// Created by the database seed for TEST_USER_ID
+const SEEDED_SESSION_COOKIE = "authjs.session-token=playwright-session-token";
 
 const scoutingPayload = {
   scoutingTeamId: TEST_SCOUTING_TEAM_ID,
@@ -50,6 +54,7 @@ test.describe("Scouting Entry Submission", () => {
         headers: {
           "Content-Type": "application/json",
           "X-User-Id": TEST_USER_ID,
+          Cookie: SEEDED_SESSION_COOKIE,
         },
         data: scoutingPayload,
       }
@@ -115,6 +120,7 @@ test.describe("Scouting Entry Submission", () => {
         headers: {
           "Content-Type": "application/json",
           "X-User-Id": TEST_USER_ID,
+          Cookie: SEEDED_SESSION_COOKIE,
         },
         data: {
           // Intentionally omit all required fields